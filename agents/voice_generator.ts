@@ -1,49 +0,0 @@
-/**
- * Voice Generator Agent
- * Generates voice content using ElevenLabs and other TTS services
- */
-
-export interface VoiceConfig {
-  voice_id: string
-  style: string
-  speed: number
-  pitch: number
-  emotion: string
-}
-
-export interface VoiceGenerationResult {
-  audio_url: string
-  duration: number
-  text: string
-  voice_config: VoiceConfig
-}
-
-export class VoiceGenerator {
-  private apiKey: string
-  
-  constructor() {
-    this.apiKey = process.env.ELEVENLABS_API_KEY || ''
-  }
-  
-  async generateVoice(text: string, config: VoiceConfig): Promise<VoiceGenerationResult> {
-    // TODO: Implement ElevenLabs voice generation
-    return {
-      audio_url: '',
-      duration: 0,
-      text,
-      voice_config: config
-    }
-  }
-  
-  async listAvailableVoices(): Promise<VoiceConfig[]> {
-    // TODO: Implement voice listing from ElevenLabs
-    return []
-  }
-  
-  async cloneVoice(audioSample: string): Promise<string> {
-    // TODO: Implement voice cloning
-    return ''
-  }
-}
-
-export const voiceGenerator = new VoiceGenerator()
\ No newline at end of file
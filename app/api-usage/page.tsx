@@ -4,28 +4,11 @@ import React, { useState } from 'react'
 import { Card } from '@/components/ui/Card'
 import { ProgressBar } from '@/components/ui/ProgressBar'
 import { StatusBadge } from '@/components/ui/StatusBadge'
+import { COST_SERVICES, CostService, SERVICE_LABELS } from '@/lib/usage/cost-event'
+import { UsageStats, createEmptyUsageStats } from '@/lib/usage/usage-ledger'
 
-interface UsageStats {
-  daily: {
-    openai: { tokens: number; requests: number; cost: number };
-    anthropic: { tokens: number; requests: number; cost: number };
-    elevenlabs: { characters: number; requests: number; cost: number };
-    heygen: { requests: number; cost: number };
-    googleCloud: { requests: number; cost: number };
-  };
-  monthly: {
-    openai: { tokens: number; requests: number; cost: number };
-    anthropic: { tokens: number; requests: number; cost: number };
-    elevenlabs: { characters: number; requests: number; cost: number };
-    heygen: { requests: number; cost: number };
-    googleCloud: { requests: number; cost: number };
-  };
-  summary: {
-    dailyTotal: number;
-    monthlyTotal: number;
-    lastUpdated: string;
-  };
-}
+// Services with a monthly plan limit shown on their card
+const BUDGETED_SERVICES: CostService[] = ['openai', 'anthropic', 'elevenlabs', 'heygen', 'googleCloud', 'shotstack']
 
 // Get usage statistics from R2 storage ONLY - NO EXTERNAL API CALLS
 const getUsageStatsFromR2 = async (): Promise<UsageStats> => {
@@ -52,31 +35,7 @@ const getUsageStatsFromR2 = async (): Promise<UsageStats> => {
     console.error('Failed to fetch usage stats from R2:', error)
     
     // Return empty state - NO FAKE DATA
-    return createEmptyStats()
-  }
-}
-
-function createEmptyStats(): UsageStats {
-  return {
-    daily: {
-      openai: { tokens: 0, requests: 0, cost: 0 },
-      anthropic: { tokens: 0, requests: 0, cost: 0 },
-      elevenlabs: { characters: 0, requests: 0, cost: 0 },
-      heygen: { requests: 0, cost: 0 },
-      googleCloud: { requests: 0, cost: 0 }
-    },
-    monthly: {
-      openai: { tokens: 0, requests: 0, cost: 0 },
-      anthropic: { tokens: 0, requests: 0, cost: 0 },
-      elevenlabs: { characters: 0, requests: 0, cost: 0 },
-      heygen: { requests: 0, cost: 0 },
-      googleCloud: { requests: 0, cost: 0 }
-    },
-    summary: {
-      dailyTotal: 0,
-      monthlyTotal: 0,
-      lastUpdated: new Date().toISOString()
-    }
+    return createEmptyUsageStats()
   }
 }
 
@@ -94,7 +53,7 @@ export default function APIUsagePage() {
       setLastRefresh(new Date().toLocaleString())
     } catch (error) {
       console.error('Failed to refresh usage data from R2:', error)
-      setUsageStats(createEmptyStats())
+      setUsageStats(createEmptyUsageStats())
     } finally {
       setLoading(false)
     }
@@ -111,11 +70,18 @@ export default function APIUsagePage() {
       anthropic: '#8B5CF6',  // Purple  
       elevenlabs: '#F59E0B', // Amber
       heygen: '#EF4444',     // Red
-      googleCloud: '#3B82F6' // Blue
+      googleCloud: '#3B82F6', // Blue
+      shotstack: '#EC4899',  // Pink
+      r2: '#F97316'          // Orange
     }
     return colors[service] || '#6B7280'
   }
 
+  // Services with a budget are always shown; others once they have activity
+  const visibleServices = COST_SERVICES.filter(service =>
+    BUDGETED_SERVICES.includes(service) || (usageStats?.monthly[service]?.requests || 0) > 0
+  )
+
   if (!usageStats && !loading) {
     return (
       <div className="container-app py-8">
@@ -161,12 +127,12 @@ export default function APIUsagePage() {
             >
               {loading ? 'Loading...' : 'Refresh Data'}
             </button>
-            <div className="text-sm text-gray-500 mb-1">Total Daily Cost</div>
+            <div className="text-sm text-gray-500 mb-1">Total Spend This Month</div>
             <div className="text-xl font-medium text-white mb-4">
-              ${usageStats?.summary.dailyTotal.toFixed(2) || '0.00'}
+              ${usageStats?.summary.monthlyTotal.toFixed(2) || '0.00'}
             </div>
             <div className="text-sm text-gray-500 mt-1">
-              Monthly: ${usageStats?.summary.monthlyTotal.toFixed(2) || '0.00'}
+              Today: ${usageStats?.summary.dailyTotal.toFixed(2) || '0.00'} across all services
             </div>
           </div>
         </div>
@@ -174,9 +140,9 @@ export default function APIUsagePage() {
 
       {/* Service Cards Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {['openai', 'anthropic', 'elevenlabs', 'heygen', 'googleCloud'].map((service) => {
-          const dailyData = usageStats?.daily[service as keyof typeof usageStats.daily] || { tokens: 0, characters: 0, requests: 0, cost: 0 };
-          const monthlyData = usageStats?.monthly[service as keyof typeof usageStats.monthly] || { tokens: 0, characters: 0, requests: 0, cost: 0 };
+        {visibleServices.map((service) => {
+          const dailyData = usageStats?.daily[service] || { tokens: 0, characters: 0, requests: 0, cost: 0 };
+          const monthlyData = usageStats?.monthly[service] || { tokens: 0, characters: 0, requests: 0, cost: 0 };
           
           return (
             <div key={service} className="card p-6">
@@ -185,8 +151,8 @@ export default function APIUsagePage() {
                 <div className="flex items-center">
                   <div className="w-3 h-3 rounded-full mr-3" 
                        style={{backgroundColor: getServiceColor(service)}}></div>
-                  <h3 className="text-lg font-medium text-white capitalize">
-                    {service === 'googleCloud' ? 'Google Cloud' : service}
+                  <h3 className="text-lg font-medium text-white">
+                    {SERVICE_LABELS[service]}
                   </h3>
                 </div>
               </div>
@@ -202,7 +168,7 @@ export default function APIUsagePage() {
                 <div className="text-sm text-gray-500">
                   {dailyData.requests} requests
                   {dailyData.tokens ? ` • ${dailyData.tokens.toLocaleString()} tokens` : ''}
-                  {(dailyData as any).characters ? ` • ${(dailyData as any).characters.toLocaleString()} chars` : ''}
+                  {dailyData.characters ? ` • ${dailyData.characters.toLocaleString()} chars` : ''}
                 </div>
               </div>
 
@@ -217,7 +183,7 @@ export default function APIUsagePage() {
                 <div className="text-sm text-gray-500">
                   {monthlyData.requests} requests
                   {monthlyData.tokens ? ` • ${monthlyData.tokens.toLocaleString()} tokens` : ''}
-                  {(monthlyData as any).characters ? ` • ${(monthlyData as any).characters.toLocaleString()} chars` : ''}
+                  {monthlyData.characters ? ` • ${monthlyData.characters.toLocaleString()} chars` : ''}
                 </div>
               </div>
 
@@ -231,7 +197,7 @@ export default function APIUsagePage() {
                 )}
                 {service === 'elevenlabs' && (
                   <div className="text-sm font-medium text-green-400">
-                    {(monthlyData as any).characters || 0} / 10,000 credits used
+                    {monthlyData.characters || 0} / 10,000 credits used
                   </div>
                 )}
                 {service === 'heygen' && (
@@ -249,6 +215,16 @@ export default function APIUsagePage() {
                     ${monthlyData.cost.toFixed(2)} / $15.00 used
                   </div>
                 )}
+                {service === 'shotstack' && (
+                  <div className="text-sm font-medium text-green-400">
+                    ${monthlyData.cost.toFixed(2)} / $100.00 used
+                  </div>
+                )}
+                {!BUDGETED_SERVICES.includes(service) && (
+                  <div className="text-sm font-medium text-gray-400">
+                    ${monthlyData.cost.toFixed(2)} used (no plan limit)
+                  </div>
+                )}
               </div>
 
             </div>
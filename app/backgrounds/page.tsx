@@ -0,0 +1,191 @@
+'use client'
+
+import React, { useState } from 'react'
+import type { BackgroundClip } from '@/lib/types/reddit-automation'
+
+const splitTags = (text: string): string[] => text.split(',').map(tag => tag.trim()).filter(Boolean)
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`
+
+export default function BackgroundsPage() {
+  const [clips, setClips] = useState<BackgroundClip[]>([])
+  const [tagFilter, setTagFilter] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [name, setName] = useState('')
+  const [tags, setTags] = useState('')
+  const [editing, setEditing] = useState<{ id: string; tags: string } | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const loadClips = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/backgrounds')
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || 'Failed to load the background library')
+      setClips(result.clips)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Load once on mount
+  React.useEffect(() => {
+    loadClips()
+  }, [])
+
+  const request = async (url: string, init: RequestInit, success: string) => {
+    setSaving(true)
+    setMessage('')
+    setError('')
+    try {
+      const response = await fetch(url, init)
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || `Request failed: ${response.status}`)
+      setMessage(success)
+      await loadClips()
+      return result
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : String(requestError))
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const uploadClip = async () => {
+    if (!file) return
+    const formData = new FormData()
+    formData.append('videoFile', file)
+    formData.append('name', name || file.name)
+    formData.append('tags', splitTags(tags).join(','))
+
+    const result = await request('/api/backgrounds', { method: 'POST', body: formData }, `Added ${name || file.name}`)
+    if (result) {
+      setFile(null)
+      setName('')
+    }
+  }
+
+  const saveTags = async () => {
+    if (!editing) return
+    const result = await request(`/api/backgrounds/${encodeURIComponent(editing.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tags: splitTags(editing.tags) })
+    }, 'Tags saved')
+    if (result) setEditing(null)
+  }
+
+  const deleteClip = async (clip: BackgroundClip) => {
+    if (!window.confirm(`Delete ${clip.name} from the library?`)) return
+    await request(`/api/backgrounds/${encodeURIComponent(clip.id)}`, { method: 'DELETE' }, `Deleted ${clip.name}`)
+  }
+
+  const allTags = Array.from(new Set(clips.flatMap(clip => clip.tags))).sort()
+  const shown = tagFilter ? clips.filter(clip => clip.tags.includes(tagFilter)) : clips
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500'
+
+  return (
+    <div className="container-app py-8">
+      {/* Header */}
+      <div className="card p-6 mb-8">
+        <h1 className="text-3xl font-semibold text-white mb-2">Background Library</h1>
+        <p className="text-gray-400">
+          Gameplay and satisfying clips stored once in R2 - Reddit Automation picks one by tag, starts it at a random point and loops or joins clips to cover the narration
+        </p>
+      </div>
+
+      {message && <div className="card p-4 mb-6 text-green-400">{message}</div>}
+      {error && <div className="card p-4 mb-6 text-red-400">{error}</div>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Upload */}
+        <div className="card p-6 space-y-4">
+          <h2 className="text-xl font-medium text-white">Add a Clip</h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">MP4 file (max 100MB)</label>
+            <input
+              type="file"
+              accept="video/mp4,video/quicktime"
+              className="text-sm text-gray-300"
+              onChange={(e) => {
+                const picked = e.target.files?.[0] || null
+                setFile(picked)
+                if (picked && !name) setName(picked.name.replace(/\.[^.]+$/, ''))
+              }}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+            <input className={inputClass} value={name} onChange={(e) => setName(e.target.value)} placeholder="Minecraft parkour 1" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Tags (comma separated)</label>
+            <input className={inputClass} value={tags} onChange={(e) => setTags(e.target.value)} placeholder="minecraft, gameplay" />
+          </div>
+          <button onClick={uploadClip} className="btn-primary w-full" disabled={saving || !file}>
+            {saving ? 'Uploading...' : 'Add to Library'}
+          </button>
+        </div>
+
+        {/* Clips */}
+        <div className="card p-6 lg:col-span-2 space-y-3">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="text-xl font-medium text-white">Clips ({shown.length})</h2>
+            <select className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm" value={tagFilter} onChange={(e) => setTagFilter(e.target.value)}>
+              <option value="">All tags</option>
+              {allTags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          </div>
+          {loading && <p className="text-gray-400 text-sm">Loading...</p>}
+          {!loading && shown.length === 0 && <p className="text-gray-400 text-sm">No clips yet</p>}
+          {shown.map(clip => (
+            <div key={clip.id} className="p-3 rounded-lg border border-gray-600 bg-gray-700/50">
+              <div className="flex justify-between items-center">
+                <a href={`/api/backgrounds/${clip.id}/video`} target="_blank" rel="noopener noreferrer" className="text-white font-medium hover:text-blue-300">
+                  {clip.name}
+                </a>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setEditing({ id: clip.id, tags: clip.tags.join(', ') })}
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                    disabled={saving}
+                  >
+                    Edit tags
+                  </button>
+                  <button onClick={() => deleteClip(clip)} className="text-xs text-red-400 hover:text-red-300" disabled={saving}>
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                {formatDuration(clip.duration)} · {clip.width}x{clip.height} · {(clip.size / (1024 * 1024)).toFixed(1)} MB
+              </p>
+              {editing?.id === clip.id ? (
+                <div className="flex gap-2 mt-2">
+                  <input className={inputClass} value={editing.tags} onChange={(e) => setEditing({ id: clip.id, tags: e.target.value })} />
+                  <button onClick={saveTags} className="btn-primary" disabled={saving}>Save</button>
+                  <button onClick={() => setEditing(null)} className="btn-secondary" disabled={saving}>Cancel</button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {clip.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 text-xs rounded bg-gray-600 text-gray-200">{tag}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import React, { useState } from 'react'
+import type { MusicTrack } from '@/lib/types/reddit-automation'
+
+const splitMoods = (text: string): string[] => text.split(',').map(mood => mood.trim()).filter(Boolean)
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`
+
+export default function MusicPage() {
+  const [tracks, setTracks] = useState<MusicTrack[]>([])
+  const [moodFilter, setMoodFilter] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [form, setForm] = useState({ name: '', artist: '', bpm: '', moods: '', licenseName: '', licenseUrl: '', licenseAttribution: '' })
+  const [editing, setEditing] = useState<{ id: string; moods: string } | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const loadTracks = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/music')
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || 'Failed to load the music library')
+      setTracks(result.tracks)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Load once on mount
+  React.useEffect(() => {
+    loadTracks()
+  }, [])
+
+  const request = async (url: string, init: RequestInit, success: string) => {
+    setSaving(true)
+    setMessage('')
+    setError('')
+    try {
+      const response = await fetch(url, init)
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || `Request failed: ${response.status}`)
+      setMessage(success)
+      await loadTracks()
+      return result
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : String(requestError))
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateForm = (field: keyof typeof form, value: string) => setForm(prev => ({ ...prev, [field]: value }))
+
+  const uploadTrack = async () => {
+    if (!file) return
+    const formData = new FormData()
+    formData.append('audioFile', file)
+    Object.entries(form).forEach(([field, value]) => formData.append(field, value))
+    formData.set('name', form.name || file.name)
+    formData.set('moods', splitMoods(form.moods).join(','))
+
+    const result = await request('/api/music', { method: 'POST', body: formData }, `Added ${form.name || file.name}`)
+    if (result) {
+      setFile(null)
+      setForm(prev => ({ ...prev, name: '', artist: '', bpm: '' }))
+    }
+  }
+
+  const saveMoods = async () => {
+    if (!editing) return
+    const result = await request(`/api/music/${encodeURIComponent(editing.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ moods: splitMoods(editing.moods) })
+    }, 'Moods saved')
+    if (result) setEditing(null)
+  }
+
+  const deleteTrack = async (track: MusicTrack) => {
+    if (!window.confirm(`Delete ${track.name} from the library?`)) return
+    await request(`/api/music/${encodeURIComponent(track.id)}`, { method: 'DELETE' }, `Deleted ${track.name}`)
+  }
+
+  const allMoods = Array.from(new Set(tracks.flatMap(track => track.moods))).sort()
+  const shown = moodFilter ? tracks.filter(track => track.moods.includes(moodFilter)) : tracks
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500'
+
+  return (
+    <div className="container-app py-8">
+      {/* Header */}
+      <div className="card p-6 mb-8">
+        <h1 className="text-3xl font-semibold text-white mb-2">Music Library</h1>
+        <p className="text-gray-400">
+          Soundtracks played under the narration - Reddit Automation picks one matching the story category&apos;s moods and ducks it while the voice speaks
+        </p>
+      </div>
+
+      {message && <div className="card p-4 mb-6 text-green-400">{message}</div>}
+      {error && <div className="card p-4 mb-6 text-red-400">{error}</div>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Upload */}
+        <div className="card p-6 space-y-4">
+          <h2 className="text-xl font-medium text-white">Add a Track</h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">MP3 or WAV file (max 50MB)</label>
+            <input
+              type="file"
+              accept="audio/mpeg,audio/wav,audio/x-wav"
+              className="text-sm text-gray-300"
+              onChange={(e) => {
+                const picked = e.target.files?.[0] || null
+                setFile(picked)
+                if (picked && !form.name) updateForm('name', picked.name.replace(/\.[^.]+$/, ''))
+              }}
+              disabled={saving}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+              <input className={inputClass} value={form.name} onChange={(e) => updateForm('name', e.target.value)} placeholder="Night drive" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Artist</label>
+              <input className={inputClass} value={form.artist} onChange={(e) => updateForm('artist', e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">BPM</label>
+              <input type="number" min="30" max="300" className={inputClass} value={form.bpm} onChange={(e) => updateForm('bpm', e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Moods</label>
+              <input className={inputClass} value={form.moods} onChange={(e) => updateForm('moods', e.target.value)} placeholder="dark ambient, suspense" />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">License</label>
+            <input className={inputClass} value={form.licenseName} onChange={(e) => updateForm('licenseName', e.target.value)} placeholder="CC BY 4.0" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">License URL</label>
+            <input className={inputClass} value={form.licenseUrl} onChange={(e) => updateForm('licenseUrl', e.target.value)} placeholder="https://creativecommons.org/licenses/by/4.0/" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Required credit (added to upload descriptions)</label>
+            <input className={inputClass} value={form.licenseAttribution} onChange={(e) => updateForm('licenseAttribution', e.target.value)} placeholder="&quot;Night drive&quot; by Artist (CC BY 4.0)" />
+          </div>
+          <button onClick={uploadTrack} className="btn-primary w-full" disabled={saving || !file || !form.licenseName}>
+            {saving ? 'Uploading...' : 'Add to Library'}
+          </button>
+        </div>
+
+        {/* Tracks */}
+        <div className="card p-6 lg:col-span-2 space-y-3">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="text-xl font-medium text-white">Tracks ({shown.length})</h2>
+            <select className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm" value={moodFilter} onChange={(e) => setMoodFilter(e.target.value)}>
+              <option value="">All moods</option>
+              {allMoods.map(mood => (
+                <option key={mood} value={mood}>{mood}</option>
+              ))}
+            </select>
+          </div>
+          {loading && <p className="text-gray-400 text-sm">Loading...</p>}
+          {!loading && shown.length === 0 && <p className="text-gray-400 text-sm">No tracks yet</p>}
+          {shown.map(track => (
+            <div key={track.id} className="p-3 rounded-lg border border-gray-600 bg-gray-700/50">
+              <div className="flex justify-between items-center">
+                <a href={`/api/music/${track.id}/audio`} target="_blank" rel="noopener noreferrer" className="text-white font-medium hover:text-blue-300">
+                  {track.name}{track.artist ? ` - ${track.artist}` : ''}
+                </a>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setEditing({ id: track.id, moods: track.moods.join(', ') })}
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                    disabled={saving}
+                  >
+                    Edit moods
+                  </button>
+                  <button onClick={() => deleteTrack(track)} className="text-xs text-red-400 hover:text-red-300" disabled={saving}>
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                {formatDuration(track.duration)}{track.bpm ? ` · ${track.bpm} BPM` : ''} · {track.license.url ? (
+                  <a href={track.license.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-300">{track.license.name}</a>
+                ) : track.license.name}
+              </p>
+              {editing?.id === track.id ? (
+                <div className="flex gap-2 mt-2">
+                  <input className={inputClass} value={editing.moods} onChange={(e) => setEditing({ id: track.id, moods: e.target.value })} />
+                  <button onClick={saveMoods} className="btn-primary" disabled={saving}>Save</button>
+                  <button onClick={() => setEditing(null)} className="btn-secondary" disabled={saving}>Cancel</button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {track.moods.map(mood => (
+                    <span key={mood} className="px-2 py-0.5 text-xs rounded bg-gray-600 text-gray-200">{mood}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,47 +2,106 @@
 
 import React, { useState, useEffect } from 'react';
 import { Video, Download, DollarSign, Clock, AlertCircle, Play } from 'lucide-react';
+import { SHOTSTACK_TTS_CAPABILITIES } from '../../lib/tts/shotstack-tts';
+import { DEFAULT_STORY_CATEGORIES } from '../../lib/categories/category-store';
+import type { StoryCategory } from '../../lib/types/reddit-automation';
+
+// A background video picked from disk; the File is sent as-is with the request
+interface UploadedVideo {
+  file: File;
+  name: string;
+  size: number;
+  type: string;
+}
 
 const VideoGenerator = () => {
   const [settings, setSettings] = useState({
-    uploadedVideo: null,
+    uploadedVideo: null as UploadedVideo | null,
+    backgroundSource: 'upload', // 'upload' a video, or pick one from the background 'library'
+    backgroundTag: '', // Library clips with this tag; '' picks from every clip
     category: 'drama',
     targetDuration: 5, // User-chosen duration in minutes
+    ttsProvider: 'shotstack',
     voiceId: 'Matthew',
     startTime: 0, // Start time in seconds for video trimming
+    captionWordsPerLine: 4, // Burned-in caption line length; 0 turns captions off
+    redactPii: true, // Swap names, places and contact details for pseudonyms before narration
+    creditPosition: 'topLeft', // Where the "r/subreddit • u/author" overlay goes; '' leaves it out
+    musicVolume: 0.3, // Soundtrack level outside the narration (ducked under it); 0 renders without music
     useProduction: false // Toggle between sandbox and production APIs
   });
   
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState('');
-  const [generatedVideo, setGeneratedVideo] = useState(null);
+  const [generatedVideo, setGeneratedVideo] = useState<any>(null);
   const [error, setError] = useState('');
+  const [failedWorkflow, setFailedWorkflow] = useState<any>(null); // { id, step } of a resumable run
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   
   // Story selection state
-  const [availableStories, setAvailableStories] = useState([]);
-  const [selectedStory, setSelectedStory] = useState(null);
+  const [availableStories, setAvailableStories] = useState<any[]>([]);
+  const [selectedStory, setSelectedStory] = useState<any>(null);
   const [isLoadingStories, setIsLoadingStories] = useState(false);
+  const [showUsedStories, setShowUsedStories] = useState(false); // Include stories already made into videos
+  const [usedStoryCount, setUsedStoryCount] = useState(0);
+
+  // Categories are edited on the Settings page and shared with the scraper
+  const [categories, setCategories] = useState<StoryCategory[]>(DEFAULT_STORY_CATEGORIES);
+
+  // TTS providers configured on the server, each with its own voices
+  const [ttsProviders, setTtsProviders] = useState<any[]>([
+    { name: 'shotstack', available: true, capabilities: SHOTSTACK_TTS_CAPABILITIES }
+  ]);
+  const voices = ttsProviders.find(provider => provider.name === settings.ttsProvider)?.capabilities.voices || [];
+
+  // Background library clips (managed on the Backgrounds page)
+  const [backgroundLibrary, setBackgroundLibrary] = useState<{ clips: any[]; tags: string[] }>({ clips: [], tags: [] });
+  const hasBackground = settings.backgroundSource === 'library'
+    ? backgroundLibrary.clips.some(clip => !settings.backgroundTag || clip.tags.includes(settings.backgroundTag))
+    : Boolean(settings.uploadedVideo);
+
+  useEffect(() => {
+    fetch('/api/backgrounds')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setBackgroundLibrary({ clips: result.clips, tags: result.tags });
+      })
+      .catch(error => console.warn('Could not load the background library:', error));
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/categories')
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success || result.categories.length === 0) return;
+        setCategories(result.categories);
+        setSettings(prev => (result.categories.some((category: StoryCategory) => category.id === prev.category)
+          ? prev
+          : { ...prev, category: result.categories[0].id }));
+      })
+      .catch(error => console.warn('Could not load categories, using the built-in ones:', error));
+  }, []);
+
+  // Switching category picks its default voice, if that provider is available here
+  const selectCategory = (categoryId: string) => {
+    const voice = categories.find(category => category.id === categoryId)?.defaultVoice;
+    const provider = voice && ttsProviders.find(p => p.name === voice.provider);
+    setSettings(prev => ({
+      ...prev,
+      category: categoryId,
+      ...(provider ? { ttsProvider: voice.provider, voiceId: voice.voiceId } : {})
+    }));
+  };
 
-  const categories = [
-    { id: 'drama', name: 'Drama', description: 'Relationship conflicts and life drama' },
-    { id: 'horror', name: 'Horror', description: 'Scary and unsettling experiences' },
-    { id: 'revenge', name: 'Revenge', description: 'Justice and payback stories' },
-    { id: 'wholesome', name: 'Wholesome', description: 'Heartwarming and positive stories' },
-    { id: 'mystery', name: 'Mystery', description: 'Unexplained and intriguing events' }
-  ];
-
-  const voices = [
-    { id: 'Matthew', name: 'Matthew - US English Male' },
-    { id: 'Joanna', name: 'Joanna - US English Female' },
-    { id: 'Amy', name: 'Amy - British English Female' },
-    { id: 'Brian', name: 'Brian - British English Male' },
-    { id: 'Ivy', name: 'Ivy - US English Female (Child)' },
-    { id: 'Joey', name: 'Joey - US English Male' },
-    { id: 'Kendra', name: 'Kendra - US English Female' },
-    { id: 'Russell', name: 'Russell - Australian English Male' }
-  ];
+  useEffect(() => {
+    fetch('/api/tts/providers')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setTtsProviders(result.providers.filter((provider: any) => provider.available));
+      })
+      .catch(error => console.warn('Could not load TTS providers, using Shotstack voices:', error));
+  }, []);
 
   // Stories will load when user selects category or clicks refresh
 
@@ -85,13 +144,14 @@ const VideoGenerator = () => {
   };
 
   // Fetch fresh Reddit stories based on target duration
-  const fetchStories = async (category, targetDuration = settings.targetDuration) => {
+  const fetchStories = async (category, targetDuration = settings.targetDuration, includeUsed = showUsedStories) => {
     setIsLoadingStories(true);
     setError('');
     
     // Clear current selection to force fresh selection
     setSelectedStory(null);
     setAvailableStories([]);
+    setUsedStoryCount(0);
     
     try {
       const response = await fetch(`/api/reddit-stories?nocache=${Date.now()}`, {
@@ -105,8 +165,7 @@ const VideoGenerator = () => {
           category: category,
           targetDuration: targetDuration, // Send user's chosen duration
           limit: 15, // Get more stories to find good matches
-          refresh: Date.now(),
-          random: Math.random()
+          includeUsed
         })
       });
 
@@ -131,6 +190,7 @@ const VideoGenerator = () => {
       }];
 
       setAvailableStories(storiesWithDuration);
+      setUsedStoryCount(result.usedCount || 0);
       
       // DON'T auto-select story - let user choose manually
       console.log(`✅ Loaded ${storiesWithDuration.length} stories for ${targetDuration}-minute target:`, 
@@ -156,8 +216,8 @@ const VideoGenerator = () => {
 
   // 🔒 SECURE SERVER-SIDE API CALL - NO EXPOSED KEYS
   const generateVideo = async () => {
-    if (!settings.uploadedVideo) {
-      setError('Please upload a video file');
+    if (!hasBackground) {
+      setError(settings.backgroundSource === 'library' ? 'No library clips match the chosen tag' : 'Please upload a video file');
       return;
     }
     
@@ -169,6 +229,7 @@ const VideoGenerator = () => {
     setIsGenerating(true);
     setError('');
     setGeneratedVideo(null);
+    setFailedWorkflow(null);
     
     try {
       // Step 1: Prepare uploaded video data for Shotstack
@@ -182,7 +243,9 @@ const VideoGenerator = () => {
       
       // Send file and metadata separately using FormData
       const formData = new FormData();
-      formData.append('videoFile', settings.uploadedVideo.file);
+      if (settings.backgroundSource === 'upload' && settings.uploadedVideo) {
+        formData.append('videoFile', settings.uploadedVideo.file);
+      }
       formData.append('data', JSON.stringify({
         selectedStory: selectedStory,
         targetDuration: settings.targetDuration,
@@ -196,7 +259,16 @@ const VideoGenerator = () => {
         startTime: settings.startTime,
         trimDuration: settings.targetDuration * 60, // Convert minutes to seconds
         useProduction: settings.useProduction,
-        addCaptions: true
+        allowDuplicate: Boolean(selectedStory.previously_used), // Picked knowing it was used before
+        ttsProvider: settings.ttsProvider,
+        addCaptions: settings.captionWordsPerLine > 0,
+        captionMaxWordsPerLine: settings.captionWordsPerLine || undefined,
+        redactPii: settings.redactPii,
+        attribution: settings.creditPosition ? { position: settings.creditPosition } : false,
+        music: settings.musicVolume > 0 ? { volume: settings.musicVolume } : false, // Track picked by the category's moods
+        background: settings.backgroundSource === 'library'
+          ? { tags: settings.backgroundTag ? [settings.backgroundTag] : [] }
+          : undefined
       }));
 
       const videoResponse = await fetch('/api/generate-video-async', {
@@ -204,16 +276,15 @@ const VideoGenerator = () => {
         body: formData // NO Content-Type header - let browser set it for FormData
       });
 
-      if (!videoResponse.ok) {
-        const errorData = await videoResponse.text();
-        console.error('Video API error response:', errorData);
-        throw new Error(`Video API error: ${videoResponse.status} - ${errorData}`);
-      }
+      const videoResult = await videoResponse.json().catch(() => null);
 
-      const videoResult = await videoResponse.json();
-      
-      if (!videoResult.success) {
-        throw new Error(videoResult.error || 'Video generation failed');
+      if (!videoResponse.ok || !videoResult?.success) {
+        console.error('Video API error response:', videoResult);
+        // Completed steps are checkpointed server-side - offer to resume from here
+        if (videoResult?.workflow_id) {
+          setFailedWorkflow({ id: videoResult.workflow_id, step: videoResult.failed_step });
+        }
+        throw new Error(videoResult?.error || `Video API error: ${videoResponse.status}`);
       }
 
       // Show processing status
@@ -227,6 +298,8 @@ const VideoGenerator = () => {
           mode: 'processing',
           render_id: videoResult.render_id,
           source_id: videoResult.source_id,
+          workflow_id: videoResult.workflow_id,
+          redaction: videoResult.redaction,
           status_url: videoResult.status_check_url,
           message: videoResult.message
         });
@@ -243,6 +316,101 @@ const VideoGenerator = () => {
     }
   };
 
+  // Resume a failed run from its last checkpoint (no repeat upload or TTS charge)
+  const resumeWorkflow = async () => {
+    if (!failedWorkflow) return;
+
+    setIsGenerating(true);
+    setError('');
+    setProgress('🔁 Resuming video generation...');
+
+    try {
+      // The video only has to be sent again if its upload never finished
+      const formData = new FormData();
+      if (failedWorkflow.step === 'upload' && settings.uploadedVideo) {
+        formData.append('videoFile', settings.uploadedVideo.file);
+      }
+
+      const response = await fetch(`/api/workflows/${failedWorkflow.id}/resume`, {
+        method: 'POST',
+        body: formData
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setFailedWorkflow({ id: failedWorkflow.id, step: result.failed_step || failedWorkflow.step });
+        throw new Error(result.error || 'Resume failed');
+      }
+
+      const workflow = result.workflow;
+      setFailedWorkflow(null);
+      setProgress(`🔄 ${workflow.currentStep} (${workflow.progress}%)`);
+      setGeneratedVideo({
+        videoUrl: workflow.status === 'completed' ? workflow.videos?.[0]?.video_url : null,
+        source: workflow.videos?.[0]?.source,
+        description: workflow.videos?.[0]?.description,
+        audioUrl: null,
+        story: workflow.request?.story || selectedStory,
+        costs: { shotstack_cost: 0, elevenlabs_cost: 0, total_cost: 0 },
+        mode: 'processing',
+        render_id: workflow.render?.renderId,
+        source_id: workflow.checkpoints?.upload?.sourceId,
+        workflow_id: workflow.workflowId,
+        redaction: workflow.redaction
+      });
+    } catch (error: any) {
+      console.error('Resume failed:', error);
+      setError(error.message || 'Resume failed');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // Follow the workflow until the Shotstack webhook (or the polling fallback) finishes it
+  useEffect(() => {
+    const workflowId = generatedVideo?.workflow_id;
+    if (!workflowId || generatedVideo.videoUrl) return;
+
+    const applyWorkflow = (workflow: any) => {
+      if (workflow.status === 'completed' && workflow.videos?.length) {
+        setProgress('✅ Video ready!');
+        setGeneratedVideo((prev: any) => ({
+          ...prev,
+          videoUrl: workflow.videos[0].video_url,
+          source: workflow.videos[0].source,
+          description: workflow.videos[0].description,
+          mode: settings.useProduction ? 'production' : 'sandbox'
+        }));
+      } else if (workflow.status === 'failed') {
+        setError(workflow.error || 'Video generation failed');
+        setFailedWorkflow({ id: workflow.workflowId, step: workflow.failedStep });
+        setGeneratedVideo((prev: any) => ({ ...prev, workflow_id: null }));
+      } else {
+        setProgress(`🔄 ${workflow.currentStep} (${workflow.progress}%)`);
+      }
+    };
+
+    // Live updates from the stored WorkflowState
+    const events = new EventSource(`/api/workflows/${workflowId}`);
+    events.addEventListener('workflow', event => applyWorkflow(JSON.parse((event as MessageEvent).data)));
+
+    // Fallback: has the server ask Shotstack directly if the render callback went missing
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/workflows/${workflowId}/render`);
+        const result = await response.json();
+        if (result.success) applyWorkflow(result.workflow);
+      } catch (error) {
+        console.error('Render status check failed:', error);
+      }
+    }, 60000);
+
+    return () => {
+      events.close();
+      clearInterval(interval);
+    };
+  }, [generatedVideo?.workflow_id, generatedVideo?.videoUrl]);
+
   const downloadVideo = () => {
     if (generatedVideo?.videoUrl) {
       const link = document.createElement('a');
@@ -287,13 +455,48 @@ const VideoGenerator = () => {
           <h2 className="text-xl font-semibold text-white mb-6">Video Settings</h2>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Video Upload */}
+            {/* Background Source */}
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                Background Video Upload
+                Background Video
               </label>
-              
-              {!settings.uploadedVideo ? (
+              <div className="flex gap-2 mb-3">
+                {[
+                  { value: 'upload', label: 'Upload a video' },
+                  { value: 'library', label: `From the library (${backgroundLibrary.clips.length})` }
+                ].map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setSettings(prev => ({ ...prev, backgroundSource: option.value }))}
+                    className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+                      settings.backgroundSource === option.value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                    disabled={isGenerating}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              {settings.backgroundSource === 'library' ? (
+                <div className="w-full p-4 bg-gray-700 border border-gray-600 rounded-lg">
+                  <select
+                    value={settings.backgroundTag}
+                    onChange={(e) => setSettings(prev => ({ ...prev, backgroundTag: e.target.value }))}
+                    className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                    disabled={isGenerating}
+                  >
+                    <option value="">Any clip</option>
+                    {backgroundLibrary.tags.map(tag => (
+                      <option key={tag} value={tag}>Tagged "{tag}"</option>
+                    ))}
+                  </select>
+                  <p className="mt-2 text-xs text-gray-400">
+                    A random matching clip, started at a random point and looped or joined with others to cover the narration.{' '}
+                    <a href="/backgrounds" className="text-blue-400 hover:text-blue-300">Manage the library</a>
+                  </p>
+                </div>
+              ) : !settings.uploadedVideo ? (
                 <div 
                   className="w-full p-8 border-2 border-dashed border-gray-600 rounded-lg bg-gray-700/50 hover:bg-gray-700/70 transition-colors cursor-pointer"
                   onDrop={(e) => {
@@ -361,14 +564,16 @@ const VideoGenerator = () => {
                 disabled={isGenerating || isUploading}
               />
               
-              <div className="mt-2 space-y-1">
-                <p className="text-xs text-green-400">
-                  ✅ Direct video upload - no third-party dependencies
-                </p>
-                <p className="text-xs text-gray-400">
-                  Workflow: Upload Video → Set Time Range → Generate Content → Final Video
-                </p>
-              </div>
+              {settings.backgroundSource === 'upload' && (
+                <div className="mt-2 space-y-1">
+                  <p className="text-xs text-green-400">
+                    ✅ Direct video upload - no third-party dependencies
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    Workflow: Upload Video → Set Time Range → Generate Content → Final Video
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Target Duration - USER CONTROL */}
@@ -411,7 +616,7 @@ const VideoGenerator = () => {
                 value={settings.category}
                 onChange={(e) => {
                   const newCategory = e.target.value;
-                  setSettings(prev => ({ ...prev, category: newCategory }));
+                  selectCategory(newCategory);
                   fetchStories(newCategory, settings.targetDuration);
                 }}
                 className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
@@ -428,6 +633,40 @@ const VideoGenerator = () => {
               >
                 {isLoadingStories ? 'Loading...' : 'Find Stories for This Duration'}
               </button>
+              <label className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={showUsedStories}
+                  onChange={(e) => {
+                    setShowUsedStories(e.target.checked);
+                    fetchStories(settings.category, settings.targetDuration, e.target.checked);
+                  }}
+                  disabled={isLoadingStories || isGenerating}
+                />
+                Show stories already made into videos
+              </label>
+            </div>
+
+            {/* Voice Provider */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Voice Provider
+              </label>
+              <select
+                value={settings.ttsProvider}
+                onChange={(e) => {
+                  const provider = ttsProviders.find(p => p.name === e.target.value);
+                  setSettings(prev => ({ ...prev, ttsProvider: e.target.value, voiceId: provider?.capabilities.defaultVoice || prev.voiceId }));
+                }}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                disabled={isGenerating}
+              >
+                {ttsProviders.map(provider => (
+                  <option key={provider.name} value={provider.name}>
+                    {provider.name === 'shotstack' ? 'Shotstack TTS' : provider.name === 'elevenlabs' ? 'ElevenLabs' : 'Local test tones'}
+                  </option>
+                ))}
+              </select>
             </div>
 
             {/* Voice */}
@@ -441,12 +680,91 @@ const VideoGenerator = () => {
                 className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
                 disabled={isGenerating}
               >
-                {voices.map(voice => (
+                {voices.map((voice: any) => (
                   <option key={voice.id} value={voice.id}>{voice.name}</option>
                 ))}
               </select>
             </div>
 
+            {/* Captions */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Captions
+              </label>
+              <select
+                value={settings.captionWordsPerLine}
+                onChange={(e) => setSettings(prev => ({ ...prev, captionWordsPerLine: parseInt(e.target.value) }))}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                disabled={isGenerating}
+              >
+                <option value={0}>No captions</option>
+                <option value={2}>2 words per line</option>
+                <option value={3}>3 words per line</option>
+                <option value={4}>4 words per line</option>
+                <option value={6}>6 words per line</option>
+                <option value={8}>8 words per line</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Timed to the voiceover; SRT/WebVTT files are saved too</p>
+            </div>
+
+            {/* Privacy */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Privacy
+              </label>
+              <label className="flex items-center gap-2 px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.redactPii}
+                  onChange={(e) => setSettings(prev => ({ ...prev, redactPii: e.target.checked }))}
+                  disabled={isGenerating}
+                />
+                Redact personal details
+              </label>
+              <p className="mt-1 text-xs text-gray-500">Names, usernames, employers, places and contact details get consistent stand-ins</p>
+            </div>
+
+            {/* Source Credit */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Source Credit
+              </label>
+              <select
+                value={settings.creditPosition}
+                onChange={(e) => setSettings(prev => ({ ...prev, creditPosition: e.target.value }))}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                disabled={isGenerating}
+              >
+                <option value="topLeft">Top left</option>
+                <option value="topRight">Top right</option>
+                <option value="bottomLeft">Bottom left</option>
+                <option value="bottomRight">Bottom right</option>
+                <option value="">No overlay</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Shows "r/subreddit • u/author" over the video</p>
+            </div>
+
+            {/* Background Music */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Background Music
+              </label>
+              <select
+                value={settings.musicVolume}
+                onChange={(e) => setSettings(prev => ({ ...prev, musicVolume: parseFloat(e.target.value) }))}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                disabled={isGenerating}
+              >
+                <option value={0.15}>Quiet</option>
+                <option value={0.3}>Normal</option>
+                <option value={0.5}>Loud</option>
+                <option value={0}>No music</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                A {(categories.find(category => category.id === settings.category)?.musicMoods || []).join(' / ') || 'random'} track from the music library, ducked under the voice
+              </p>
+            </div>
+
             {/* Start Time */}
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -456,7 +774,7 @@ const VideoGenerator = () => {
                 value={settings.startTime}
                 onChange={(e) => setSettings(prev => ({ ...prev, startTime: parseInt(e.target.value) }))}
                 className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
-                disabled={isGenerating || !settings.uploadedVideo}
+                disabled={isGenerating || settings.backgroundSource !== 'upload' || !settings.uploadedVideo}
               >
                 <option value={0}>Start from beginning</option>
                 <option value={60}>1 minute in</option>
@@ -548,6 +866,11 @@ const VideoGenerator = () => {
           <h2 className="text-xl font-semibold text-white mb-6">
             Reddit Stories for {settings.targetDuration}-Minute Video
           </h2>
+          {usedStoryCount > 0 && !showUsedStories && (
+            <p className="text-gray-400 text-sm -mt-4 mb-4">
+              {usedStoryCount} {usedStoryCount === 1 ? 'story was' : 'stories were'} hidden because they already became videos
+            </p>
+          )}
           
           {availableStories.length === 0 ? (
             <div className="text-center py-8">
@@ -591,6 +914,16 @@ const VideoGenerator = () => {
                             Perfect Match
                           </span>
                         )}
+                        {story.previously_used && (
+                          <span
+                            className="px-2 py-1 bg-red-600 rounded text-white"
+                            title={`${story.previously_used.match === 'fingerprint' ? 'Repost of a story' : 'Story'} used ${new Date(story.previously_used.used_at).toLocaleDateString()}`}
+                          >
+                            {story.previously_used.status === 'completed'
+                              ? 'Already Used'
+                              : story.previously_used.status === 'blocked' ? 'Blocked' : 'In Progress'}
+                          </span>
+                        )}
                       </div>
                     </div>
                     
@@ -634,7 +967,7 @@ const VideoGenerator = () => {
           <div className="mt-4">
             <button
               onClick={generateVideo}
-              disabled={isGenerating || !settings.uploadedVideo || !selectedStory}
+              disabled={isGenerating || !hasBackground || !selectedStory}
               className="w-full px-6 py-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
             >
               {isGenerating ? (
@@ -656,9 +989,9 @@ const VideoGenerator = () => {
               </p>
             )}
             
-            {selectedStory && !settings.uploadedVideo && (
+            {selectedStory && !hasBackground && (
               <p className="text-center text-red-400 text-sm mt-2">
-                Upload a background video to continue
+                {settings.backgroundSource === 'library' ? 'Add clips to the background library to continue' : 'Upload a background video to continue'}
               </p>
             )}
           </div>
@@ -685,6 +1018,14 @@ const VideoGenerator = () => {
               <span className="text-red-300 font-medium">Error</span>
             </div>
             <p className="text-red-200 mt-2">{error}</p>
+            {failedWorkflow && !isGenerating && (
+              <button
+                onClick={resumeWorkflow}
+                className="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium transition-colors"
+              >
+                Resume from last completed step
+              </button>
+            )}
           </div>
         )}
 
@@ -699,7 +1040,7 @@ const VideoGenerator = () => {
                 <div className="bg-gray-900 rounded-lg p-4 aspect-[9/16] flex items-center justify-center">
                   <div className="text-center">
                     <Video size={48} className="mx-auto mb-4 text-gray-400" />
-                    <p className="text-gray-400 mb-4">Video Ready</p>
+                    <p className="text-gray-400 mb-4">{generatedVideo.videoUrl ? 'Video Ready' : 'Rendering...'}</p>
                     <button
                       onClick={downloadVideo}
                       className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-medium transition-colors flex items-center gap-2 mx-auto"
@@ -719,6 +1060,49 @@ const VideoGenerator = () => {
                   <p className="text-white font-medium">{generatedVideo.story.title}</p>
                 </div>
 
+                {generatedVideo.description && (
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <h3 className="font-medium text-white">Upload Description</h3>
+                      <button
+                        onClick={() => navigator.clipboard.writeText(generatedVideo.description)}
+                        className="text-xs text-blue-400 hover:text-blue-300"
+                      >
+                        Copy
+                      </button>
+                    </div>
+                    <textarea
+                      readOnly
+                      value={generatedVideo.description}
+                      rows={6}
+                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white"
+                    />
+                    {generatedVideo.source?.permalink && (
+                      <a href={generatedVideo.source.permalink} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-400 hover:text-blue-300">
+                        View source post
+                      </a>
+                    )}
+                  </div>
+                )}
+
+                {generatedVideo.redaction && (
+                  <div>
+                    <h3 className="font-medium text-white mb-2">Redacted Details</h3>
+                    {generatedVideo.redaction.replacements.length === 0 ? (
+                      <p className="text-sm text-gray-400">No personal details found</p>
+                    ) : (
+                      <div className="space-y-1 text-sm">
+                        {generatedVideo.redaction.replacements.map((replacement: any) => (
+                          <div key={replacement.original} className="flex justify-between gap-4">
+                            <span className="text-gray-400">{replacement.original} <span className="text-xs">({replacement.kind})</span></span>
+                            <span className="text-white">{replacement.replacement} ×{replacement.occurrences}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div>
                   <h3 className="font-medium text-white mb-2">Generation Costs</h3>
                   <div className="space-y-1 text-sm">
@@ -750,7 +1134,7 @@ const VideoGenerator = () => {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-400">Category:</span>
-                      <span className="text-white capitalize">{settings.category}</span>
+                      <span className="text-white capitalize">{categories.find(category => category.id === settings.category)?.name || settings.category}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-400">Mode:</span>
@@ -0,0 +1,329 @@
+'use client'
+
+import React, { useState } from 'react'
+import { DEFAULT_STORY_FILTERS } from '@/lib/categories/category-store'
+import type { StoryCategory, TTSProviderName } from '@/lib/types/reddit-automation'
+
+// Form state: lists are edited as plain text, one entry per line or comma
+interface CategoryDraft {
+  id: string
+  name: string
+  description: string
+  subreddits: string
+  minUpvotes: number
+  minUpvoteRatio: number
+  minLength: number
+  maxLength: number
+  bannedWords: string
+  voiceProvider: TTSProviderName | ''
+  voiceId: string
+  musicMoods: string
+}
+
+const EMPTY_DRAFT: CategoryDraft = {
+  id: '',
+  name: '',
+  description: '',
+  subreddits: '',
+  minUpvotes: DEFAULT_STORY_FILTERS.minUpvotes,
+  minUpvoteRatio: DEFAULT_STORY_FILTERS.minUpvoteRatio,
+  minLength: DEFAULT_STORY_FILTERS.minLength,
+  maxLength: DEFAULT_STORY_FILTERS.maxLength,
+  bannedWords: DEFAULT_STORY_FILTERS.bannedWords.join(', '),
+  voiceProvider: '',
+  voiceId: '',
+  musicMoods: ''
+}
+
+const splitList = (text: string): string[] => text.split(/[\n,]/).map(item => item.trim()).filter(Boolean)
+
+const toDraft = (category: StoryCategory): CategoryDraft => ({
+  id: category.id,
+  name: category.name,
+  description: category.description,
+  subreddits: category.subreddits.join('\n'),
+  minUpvotes: category.filters.minUpvotes,
+  minUpvoteRatio: category.filters.minUpvoteRatio,
+  minLength: category.filters.minLength,
+  maxLength: category.filters.maxLength,
+  bannedWords: category.filters.bannedWords.join(', '),
+  voiceProvider: category.defaultVoice?.provider || '',
+  voiceId: category.defaultVoice?.voiceId || '',
+  musicMoods: (category.musicMoods || []).join(', ')
+})
+
+const fromDraft = (draft: CategoryDraft) => ({
+  id: draft.id,
+  name: draft.name,
+  description: draft.description,
+  subreddits: splitList(draft.subreddits),
+  filters: {
+    minUpvotes: Number(draft.minUpvotes),
+    minUpvoteRatio: Number(draft.minUpvoteRatio),
+    minLength: Number(draft.minLength),
+    maxLength: Number(draft.maxLength),
+    bannedWords: splitList(draft.bannedWords)
+  },
+  defaultVoice: draft.voiceProvider && draft.voiceId
+    ? { provider: draft.voiceProvider, voiceId: draft.voiceId }
+    : undefined,
+  musicMoods: splitList(draft.musicMoods)
+})
+
+export default function SettingsPage() {
+  const [categories, setCategories] = useState<StoryCategory[]>([])
+  const [ttsProviders, setTtsProviders] = useState<any[]>([])
+  const [draft, setDraft] = useState<CategoryDraft>(EMPTY_DRAFT)
+  const [editingId, setEditingId] = useState<string | null>(null) // null while creating a new category
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const loadCategories = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/categories')
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || 'Failed to load categories')
+      setCategories(result.categories)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Load once on mount
+  React.useEffect(() => {
+    loadCategories()
+    fetch('/api/tts/providers')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setTtsProviders(result.providers)
+      })
+      .catch(providerError => console.warn('Could not load TTS providers:', providerError))
+  }, [])
+
+  const startEditing = (category: StoryCategory | null) => {
+    setEditingId(category ? category.id : null)
+    setDraft(category ? toDraft(category) : EMPTY_DRAFT)
+    setMessage('')
+    setError('')
+  }
+
+  const updateDraft = (field: keyof CategoryDraft, value: string | number) => {
+    setDraft(prev => ({ ...prev, [field]: value }))
+  }
+
+  const request = async (url: string, init: RequestInit, success: string) => {
+    setSaving(true)
+    setMessage('')
+    setError('')
+    try {
+      const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } })
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || `Request failed: ${response.status}`)
+      setMessage(success)
+      await loadCategories()
+      return result
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : String(requestError))
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveCategory = async () => {
+    const result = await request('/api/categories', {
+      method: 'POST',
+      body: JSON.stringify({ category: fromDraft(draft) })
+    }, `Saved ${draft.name || draft.id}`)
+    if (result) startEditing(result.category)
+  }
+
+  const deleteCategory = async (id: string) => {
+    if (!window.confirm(`Delete the ${id} category?`)) return
+    const result = await request(`/api/categories/${encodeURIComponent(id)}`, { method: 'DELETE' }, `Deleted ${id}`)
+    if (result && editingId === id) startEditing(null)
+  }
+
+  const resetCategories = async () => {
+    if (!window.confirm('Replace all categories with the built-in ones?')) return
+    await request('/api/categories', { method: 'POST', body: JSON.stringify({ reset: true }) }, 'Restored the built-in categories')
+    startEditing(null)
+  }
+
+  const voices = ttsProviders.find(provider => provider.name === draft.voiceProvider)?.capabilities.voices || []
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-500'
+
+  return (
+    <div className="container-app py-8">
+      {/* Header */}
+      <div className="card p-6 mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold text-white mb-2">Story Categories</h1>
+            <p className="text-gray-400">
+              Subreddits, filters and default voice for each category - used by the scraper, the cache warmup and Reddit Automation
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={() => startEditing(null)} className="btn-primary" disabled={saving}>
+              New Category
+            </button>
+            <button onClick={resetCategories} className="btn-secondary" disabled={saving}>
+              Restore Defaults
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {message && <div className="card p-4 mb-6 text-green-400">{message}</div>}
+      {error && <div className="card p-4 mb-6 text-red-400">{error}</div>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Category list */}
+        <div className="card p-6 space-y-3">
+          <h2 className="text-xl font-medium text-white mb-2">Categories</h2>
+          {loading && <p className="text-gray-400 text-sm">Loading...</p>}
+          {categories.map(category => (
+            <div
+              key={category.id}
+              className={`p-3 rounded-lg border cursor-pointer ${
+                editingId === category.id ? 'border-blue-500 bg-blue-900/20' : 'border-gray-600 bg-gray-700/50 hover:bg-gray-700'
+              }`}
+              onClick={() => startEditing(category)}
+            >
+              <div className="flex justify-between items-center">
+                <span className="text-white font-medium">{category.name}</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    deleteCategory(category.id)
+                  }}
+                  className="text-xs text-red-400 hover:text-red-300"
+                  disabled={saving || categories.length === 1}
+                >
+                  Delete
+                </button>
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                {category.subreddits.map(subreddit => `r/${subreddit}`).join(', ')}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {/* Editor */}
+        <div className="card p-6 lg:col-span-2 space-y-4">
+          <h2 className="text-xl font-medium text-white">
+            {editingId ? `Edit ${draft.name || editingId}` : 'New Category'}
+          </h2>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Id</label>
+              <input
+                className={inputClass}
+                value={draft.id}
+                onChange={(e) => updateDraft('id', e.target.value)}
+                disabled={Boolean(editingId)}
+                placeholder="true-crime"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+              <input className={inputClass} value={draft.name} onChange={(e) => updateDraft('name', e.target.value)} placeholder="True Crime" />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Description</label>
+            <input className={inputClass} value={draft.description} onChange={(e) => updateDraft('description', e.target.value)} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Subreddits (one per line)</label>
+            <textarea
+              className={`${inputClass} h-28`}
+              value={draft.subreddits}
+              onChange={(e) => updateDraft('subreddits', e.target.value)}
+              placeholder={'UnresolvedMysteries\nTrueCrime'}
+            />
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Min upvotes</label>
+              <input type="number" className={inputClass} value={draft.minUpvotes} onChange={(e) => updateDraft('minUpvotes', e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Min upvote ratio</label>
+              <input type="number" step="0.05" min="0" max="1" className={inputClass} value={draft.minUpvoteRatio} onChange={(e) => updateDraft('minUpvoteRatio', e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Min characters</label>
+              <input type="number" className={inputClass} value={draft.minLength} onChange={(e) => updateDraft('minLength', e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Max characters</label>
+              <input type="number" className={inputClass} value={draft.maxLength} onChange={(e) => updateDraft('maxLength', e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Banned words (comma separated)</label>
+            <textarea className={`${inputClass} h-20`} value={draft.bannedWords} onChange={(e) => updateDraft('bannedWords', e.target.value)} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Music moods (comma separated)</label>
+            <input className={inputClass} value={draft.musicMoods} onChange={(e) => updateDraft('musicMoods', e.target.value)} placeholder="dark ambient, suspense" />
+            <p className="text-xs text-gray-500 mt-1">Soundtracks tagged with any of these moods in the music library are picked for this category</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Default voice provider</label>
+              <select
+                className={inputClass}
+                value={draft.voiceProvider}
+                onChange={(e) => {
+                  const provider = ttsProviders.find(p => p.name === e.target.value)
+                  setDraft(prev => ({ ...prev, voiceProvider: e.target.value as TTSProviderName | '', voiceId: provider?.capabilities.defaultVoice || '' }))
+                }}
+              >
+                <option value="">None</option>
+                {ttsProviders.map(provider => (
+                  <option key={provider.name} value={provider.name}>
+                    {provider.name}{provider.available ? '' : ' (not configured)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Default voice</label>
+              {voices.length > 0 ? (
+                <select className={inputClass} value={draft.voiceId} onChange={(e) => updateDraft('voiceId', e.target.value)}>
+                  {voices.map((voice: any) => (
+                    <option key={voice.id} value={voice.id}>{voice.name}</option>
+                  ))}
+                </select>
+              ) : (
+                <input className={inputClass} value={draft.voiceId} onChange={(e) => updateDraft('voiceId', e.target.value)} disabled={!draft.voiceProvider} />
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button onClick={saveCategory} className="btn-primary" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Category'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
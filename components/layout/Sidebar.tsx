@@ -8,14 +8,20 @@ import {
   Video,
   Crown,
   BarChart3,
-  Target
+  Target,
+  Film,
+  Music,
+  Settings
 } from 'lucide-react'
 
 const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
   { name: 'Content Hub', href: '/content', icon: Video },
   { name: 'Reddit Automation', href: '/reddit-automation', icon: Target },
+  { name: 'Backgrounds', href: '/backgrounds', icon: Film },
+  { name: 'Music', href: '/music', icon: Music },
   { name: 'API Usage', href: '/api-usage', icon: BarChart3 },
+  { name: 'Settings', href: '/settings', icon: Settings },
 ]
 
 export const Sidebar = () => {
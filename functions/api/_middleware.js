@@ -0,0 +1,18 @@
+/**
+ * API middleware
+ *
+ * Points the shared ledgers at the R2 bucket before any function runs, so
+ * Claude's daily budget holds across every instance, server-side cost events
+ * land in the usage ledger, and the generators render the prompt versions
+ * saved through /api/prompts.
+ */
+
+import { R2BucketLedgerStorage } from '../../lib/usage/ledger-storage';
+import { configureLedgerStorage } from '../../lib/usage/ledger-config';
+
+export async function onRequest(context) {
+  if (context.env.R2_BUCKET) {
+    configureLedgerStorage(new R2BucketLedgerStorage(context.env.R2_BUCKET));
+  }
+  return context.next();
+}
@@ -0,0 +1,72 @@
+/**
+ * Background video library - clips uploaded once and reused behind narrations
+ *
+ * GET  /api/backgrounds?tags=minecraft,parkour → { clips } (all clips without tags)
+ * POST /api/backgrounds (multipart: videoFile, name, tags) → store a clip
+ *
+ * Videos go to R2 (backgrounds/{id}.mp4) and their duration, resolution and
+ * tags to config/backgrounds.json; see lib/backgrounds/background-library.ts.
+ * Renders pick from the library with { background: { tags } } or
+ * { background: { clipId } } in POST /api/generate-video-async.
+ */
+
+import { createBackgroundLibrary } from '../../lib/backgrounds/background-library';
+
+export async function onRequestGet(context) {
+  const { request, env } = context;
+
+  try {
+    const library = createBackgroundLibrary(env, new URL(request.url).origin);
+    if (!library) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 503);
+    }
+
+    const tags = (new URL(request.url).searchParams.get('tags') || '').split(',').filter(Boolean);
+    const clips = await library.list(tags);
+    const allTags = Array.from(new Set((await library.list()).flatMap(clip => clip.tags))).sort();
+
+    return jsonResponse({ success: true, clips, tags: allTags });
+  } catch (error) {
+    console.error('❌ Listing background clips failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to list background clips' }, error.status || 500);
+  }
+}
+
+export async function onRequestPost(context) {
+  const { request, env } = context;
+
+  try {
+    const library = createBackgroundLibrary(env, new URL(request.url).origin);
+    if (!library) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 503);
+    }
+
+    const formData = await request.formData();
+    const videoFile = formData.get('videoFile');
+    if (!videoFile || typeof videoFile === 'string') {
+      return jsonResponse({ success: false, error: 'Expected a videoFile upload' }, 400);
+    }
+
+    const clip = await library.add({
+      name: String(formData.get('name') || videoFile.name || '').replace(/\.[^.]+$/, ''),
+      tags: String(formData.get('tags') || '').split(','),
+      video: await videoFile.arrayBuffer()
+    });
+    console.log(`🎞️ Added background ${clip.id} "${clip.name}" (${clip.duration}s, ${clip.width}x${clip.height}, tags: ${clip.tags.join(', ') || 'none'})`);
+
+    return jsonResponse({ success: true, clip });
+  } catch (error) {
+    console.error('❌ Adding background clip failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to add background clip' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * One background clip
+ *
+ * GET    /api/backgrounds/:id                 → clip details
+ * PUT    /api/backgrounds/:id { name, tags }  → rename or retag it
+ * DELETE /api/backgrounds/:id                 → remove it and its video
+ */
+
+import { createBackgroundLibrary } from '../../../lib/backgrounds/background-library';
+
+export async function onRequestGet(context) {
+  const { request, env, params } = context;
+
+  try {
+    const library = createBackgroundLibrary(env, new URL(request.url).origin);
+    if (!library) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 503);
+    }
+
+    const clip = await library.get(params.id);
+    if (!clip) {
+      return jsonResponse({ success: false, error: `Background clip ${params.id} not found` }, 404);
+    }
+    return jsonResponse({ success: true, clip });
+  } catch (error) {
+    console.error(`❌ Loading background clip ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to load background clip' }, error.status || 500);
+  }
+}
+
+export async function onRequestPut(context) {
+  const { request, env, params } = context;
+
+  try {
+    const library = createBackgroundLibrary(env, new URL(request.url).origin);
+    if (!library) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 503);
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return jsonResponse({ success: false, error: 'Expected { name, tags } as a JSON object' }, 400);
+    }
+
+    const clip = await library.update(params.id, { name: body.name, tags: body.tags });
+    console.log(`🎞️ Updated background ${clip.id} (tags: ${clip.tags.join(', ') || 'none'})`);
+
+    return jsonResponse({ success: true, clip });
+  } catch (error) {
+    console.error(`❌ Updating background clip ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to update background clip' }, error.status || 500);
+  }
+}
+
+export async function onRequestDelete(context) {
+  const { request, env, params } = context;
+
+  try {
+    const library = createBackgroundLibrary(env, new URL(request.url).origin);
+    if (!library) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 503);
+    }
+
+    await library.remove(params.id);
+    console.log(`🗑️ Removed background ${params.id}`);
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error(`❌ Removing background clip ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to remove background clip' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
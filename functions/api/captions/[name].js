@@ -0,0 +1,31 @@
+/**
+ * Serve caption sidecars from R2 (stored by lib/captions/caption-files.ts)
+ *
+ * GET /api/captions/:name.srt   → SubRip captions
+ * GET /api/captions/:name.vtt   → WebVTT captions (for <track> elements)
+ */
+
+export async function onRequestGet(context) {
+  const { env, params } = context;
+
+  if (!env.R2_BUCKET) {
+    return new Response('R2_BUCKET binding not configured', { status: 503 });
+  }
+  if (!/^[\w.-]+\.(srt|vtt)$/.test(params.name)) {
+    return new Response('Invalid caption file name', { status: 400 });
+  }
+
+  const object = await env.R2_BUCKET.get(`captions/${params.name}`);
+  if (!object) {
+    return new Response('Captions not found', { status: 404 });
+  }
+
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  headers.set('ETag', object.httpEtag);
+  headers.set('Cache-Control', 'public, max-age=300');
+  // <track> elements on other origins fetch captions with CORS
+  headers.set('Access-Control-Allow-Origin', '*');
+
+  return new Response(object.body, { headers });
+}
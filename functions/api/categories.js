@@ -0,0 +1,60 @@
+/**
+ * Story categories for the scraper, the cache warmup and the dashboard
+ *
+ * GET  /api/categories                 → { categories } (the built-in five until edited)
+ * POST /api/categories { category }    → create or replace a category
+ * POST /api/categories { reset: true } → back to the built-in categories
+ *
+ * Stored in R2 (config/categories.json); see lib/categories/category-store.ts
+ * for the fields and their limits.
+ */
+
+import { createCategoryStore } from '../../lib/categories/category-store';
+
+export async function onRequestGet(context) {
+  const { env } = context;
+
+  try {
+    return jsonResponse({ success: true, categories: await createCategoryStore(env).list() });
+  } catch (error) {
+    console.error('❌ Listing categories failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to list categories' }, error.status || 500);
+  }
+}
+
+export async function onRequestPost(context) {
+  const { request, env } = context;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || (!body.category && body.reset !== true)) {
+      return jsonResponse({ success: false, error: 'Expected { category } or { reset: true }' }, 400);
+    }
+
+    const store = createCategoryStore(env);
+    if (body.reset === true) {
+      const categories = await store.reset();
+      console.log('🗂️ Categories reset to the built-in set');
+      return jsonResponse({ success: true, categories });
+    }
+
+    const category = await store.save(body.category);
+    console.log(`🗂️ Saved category ${category.id}: ${category.subreddits.map(subreddit => `r/${subreddit}`).join(', ')}`);
+
+    return jsonResponse({ success: true, category, categories: await store.list() });
+
+  } catch (error) {
+    console.error('❌ Saving category failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to save category' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
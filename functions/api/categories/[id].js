@@ -0,0 +1,67 @@
+/**
+ * One story category
+ *
+ * GET    /api/categories/:id
+ * PUT    /api/categories/:id { ...category } → replace it (the id in the path wins)
+ * DELETE /api/categories/:id                 → remove it (the last one can't be removed)
+ */
+
+import { createCategoryStore } from '../../../lib/categories/category-store';
+
+export async function onRequestGet(context) {
+  const { env, params } = context;
+
+  try {
+    const category = await createCategoryStore(env).get(params.id);
+    if (!category) {
+      return jsonResponse({ success: false, error: `Category ${params.id} not found` }, 404);
+    }
+    return jsonResponse({ success: true, category });
+  } catch (error) {
+    console.error(`❌ Loading category ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to load category' }, error.status || 500);
+  }
+}
+
+export async function onRequestPut(context) {
+  const { request, env, params } = context;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return jsonResponse({ success: false, error: 'Expected the category as a JSON object' }, 400);
+    }
+
+    const category = await createCategoryStore(env).save({ ...body, id: params.id });
+    console.log(`🗂️ Updated category ${category.id}`);
+
+    return jsonResponse({ success: true, category });
+  } catch (error) {
+    console.error(`❌ Updating category ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to update category' }, error.status || 500);
+  }
+}
+
+export async function onRequestDelete(context) {
+  const { env, params } = context;
+
+  try {
+    await createCategoryStore(env).remove(params.id);
+    console.log(`🗑️ Removed category ${params.id}`);
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error(`❌ Removing category ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to remove category' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
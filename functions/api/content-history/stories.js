@@ -0,0 +1,62 @@
+/**
+ * Stories that have been turned into videos, from the content history in R2
+ *
+ * GET /api/content-history/stories                         → latest 100 entries
+ * GET /api/content-history/stories?from=YYYY-MM-DD&to=...  → picked within a date range
+ * GET /api/content-history/stories?category=horror&status=completed&limit=20
+ *
+ * status is generating, completed, failed (released for reuse) or blocked
+ * (by content safety).
+ */
+
+import { createContentHistory } from '../../../lib/content-history/content-history';
+
+const STORY_USE_STATUSES = ['generating', 'completed', 'failed', 'blocked'];
+
+export async function onRequestGet(context) {
+  const { request, env } = context;
+
+  try {
+    const history = createContentHistory(env);
+    if (!history) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 500);
+    }
+
+    const url = new URL(request.url);
+    const category = url.searchParams.get('category') || undefined;
+    const status = url.searchParams.get('status') || undefined;
+    const limit = Number(url.searchParams.get('limit') || 100);
+
+    if (status && !STORY_USE_STATUSES.includes(status)) {
+      return jsonResponse({ success: false, error: `status must be one of ${STORY_USE_STATUSES.join(', ')}` }, 400);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      return jsonResponse({ success: false, error: 'limit must be between 1 and 1000' }, 400);
+    }
+
+    const entries = await history.query({
+      from: url.searchParams.get('from') || undefined,
+      to: url.searchParams.get('to') || undefined,
+      category,
+      status,
+      limit
+    });
+
+    return jsonResponse({ success: true, count: entries.length, entries });
+
+  } catch (error) {
+    console.error('❌ Content history query failed:', error);
+
+    return jsonResponse({
+      success: false,
+      error: error.message || 'Failed to read content history'
+    }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
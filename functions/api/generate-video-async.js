@@ -1,13 +1,49 @@
 /**
  * Proper Shotstack Video Generation with 3-Step Upload Workflow
- * 1. Get signed upload URL from Shotstack
- * 2. Upload raw video file to signed URL
- * 3. Create audio with Shotstack's built-in TTS
- * 4. Create render with video + audio
+ * 1. Upload raw video file through a signed Shotstack Ingest URL
+ * 2. Create audio with the requested TTS provider (Shotstack's built-in TTS
+ *    by default, or ElevenLabs - see lib/tts)
+ * 3. Create render with video + audio
+ *
+ * The run is tracked as a WorkflowState with a checkpoint per step (see
+ * lib/workflows/video-workflow.ts). The render calls back to
+ * /api/webhook/shotstack when it finishes, and /api/workflows/:id/render
+ * polls Shotstack only if that callback never arrives.
+ *
+ * Stories are checked against the content history first: one that already
+ * became a video (or is a repost of one) is refused with 409 unless the
+ * request sets allowDuplicate.
+ *
+ * Unless redactPii is false, names, usernames, employers, places and contact
+ * details in the story are swapped for consistent pseudonyms before anything
+ * is narrated; the mapping is stored on the workflow (redaction) for review.
+ *
+ * The render credits the source post with an "r/subreddit • u/author"
+ * overlay (attribution: false leaves it out, or pass position/template to
+ * move or reword it); the finished video record carries the permalink and a
+ * ready-to-paste upload description.
+ *
+ * Instead of uploading videoFile, a request can set background ({ tags } or
+ * { clipId }) to use clips from the background library (/api/backgrounds).
+ *
+ * A soundtrack from the music library (/api/music) plays under the narration,
+ * ducked while the voice speaks. By default it's picked by the story
+ * category's music moods; music can name a trackId, moods or volume instead,
+ * and music: false renders without one.
  */
 
+import { createCategoryStore } from '../../lib/categories/category-store';
+import { createContentHistory } from '../../lib/content-history/content-history';
+import { redactStory } from '../../lib/safety/pii-redaction';
+
+import { createWorkflowStore } from '../../lib/workflows/workflow-store';
+import { createVideoWorkflowDependencies, runVideoWorkflow } from '../../lib/workflows/video-workflow';
+import { isTTSProviderName, TTS_PROVIDER_NAMES } from '../../lib/tts/tts-registry';
+
 export async function onRequestPost(context) {
   const { request, env } = context;
+  let store = null;
+  let workflow = null;
   
   try {
     console.log(`🎬 Starting Shotstack video generation...`);
@@ -25,14 +61,49 @@ export async function onRequestPost(context) {
       startTime,
       trimDuration,
       useProduction = false,
-      addCaptions = true
+      allowDuplicate = false,
+      redactPii = true,
+      attribution = {},
+      background,
+      music = {},
+      addCaptions = true,
+      captionMaxWordsPerLine,
+      ttsProvider = 'shotstack'
     } = data;
     
-    if (!videoFile) {
-      throw new Error('No video file provided');
+    if (!videoFile && !background) {
+      throw new Error('No video file or library background provided');
+    }
+    if (!isTTSProviderName(ttsProvider)) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `Unknown TTS provider "${ttsProvider}" - expected one of ${TTS_PROVIDER_NAMES.join(', ')}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
+    const history = createContentHistory(env);
+    if (history && !allowDuplicate) {
+      const previous = (await history.findUsed([selectedStory])).get(selectedStory.id);
+      if (previous) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: previous.match === 'fingerprint'
+            ? `This story is a repost of one already used for a video (${previous.story_id})`
+            : 'This story has already been used for a video',
+          previously_used: previous
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
     }
     
-    console.log(`📹 Processing video: ${videoFile.name} (${(videoFile.size / 1024 / 1024).toFixed(1)}MB)`);
+    console.log(videoFile
+      ? `📹 Processing video: ${videoFile.name} (${(videoFile.size / 1024 / 1024).toFixed(1)}MB)`
+      : `🎞️ Background from the library: ${background.clipId || `tags ${(background.tags || []).join(', ') || 'any'}`}`);
     console.log(`📖 Story: ${selectedStory.title} (${targetDuration} minutes)`);
     console.log(`📝 Story Analysis:`);
     console.log(`  - Total Characters: ${selectedStory.content.length}`);
@@ -43,233 +114,81 @@ export async function onRequestPost(context) {
     console.log(`  - Has Special Chars: ${/[^\x20-\x7E]/.test(selectedStory.content)}`);
     console.log(`  - Full Story Object:`, JSON.stringify(selectedStory, null, 2));
     
-    const apiKey = useProduction 
-      ? env.SHOTSTACK_PRODUCTION_API_KEY 
-      : env.SHOTSTACK_SANDBOX_API_KEY;
-    
-    if (!apiKey) {
-      throw new Error(`Shotstack API key not configured for ${useProduction ? 'production' : 'sandbox'} mode`);
-    }
-    
-    const baseUrl = useProduction 
-      ? 'https://api.shotstack.io' 
-      : 'https://api.shotstack.io';
-      
-    const stage = useProduction ? 'v1' : 'stage';
-    
-    // STEP 1: Get signed upload URL from Shotstack
-    console.log('📝 Step 1: Getting signed upload URL from Shotstack...');
-    console.log(`📍 Upload endpoint: ${baseUrl}/ingest/${stage}/upload`);
-    
-    const uploadResponse = await fetch(`${baseUrl}/ingest/${stage}/upload`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey
-      },
-      body: JSON.stringify({}) // Empty body as per docs
-    });
-    
-    if (!uploadResponse.ok) {
-      const errorText = await uploadResponse.text();
-      console.error('❌ Failed to get upload URL:', errorText);
-      throw new Error(`Failed to get upload URL: ${uploadResponse.status} - ${errorText}`);
-    }
-    
-    const uploadData = await uploadResponse.json();
-    console.log('✅ Upload response received');
-    
-    // Extract the signed URL and ID from the response
-    const signedUrl = uploadData.data?.attributes?.url || uploadData.data?.url;
-    const sourceId = uploadData.data?.attributes?.id || uploadData.data?.id;
-    
-    if (!signedUrl || !sourceId) {
-      throw new Error(`Missing required fields from upload response. Got: ${JSON.stringify(uploadData)}`);
-    }
-    
-    // STEP 2: Upload raw video file to signed URL
-    console.log('📤 Step 2: Uploading video file to signed URL...');
-    console.log(`📦 File size: ${videoFile.size} bytes`);
-    
-    // Convert file to ArrayBuffer for upload
-    const videoBuffer = await videoFile.arrayBuffer();
-    
-    const putResponse = await fetch(signedUrl, {
-      method: 'PUT',
-      body: videoBuffer,
-      // IMPORTANT: Do NOT set Content-Type header as per Shotstack docs
-      headers: {
-        'Content-Length': videoFile.size.toString()
-      }
-    });
-    
-    if (!putResponse.ok) {
-      const errorText = await putResponse.text();
-      console.error('❌ Failed to upload video:', errorText);
-      throw new Error(`Failed to upload video: ${putResponse.status} - ${errorText}`);
-    }
-    
-    console.log('✅ Video uploaded successfully');
-    
-    // Construct the source URL from the source ID
-    const sourceUrl = `https://shotstack-api-${stage}-sources.s3.amazonaws.com/${sourceId}`;
-    console.log(`📹 Video source URL: ${sourceUrl}`);
-    
-    // STEP 3: Generate audio using Shotstack's built-in TTS
-    console.log('🎤 Step 3: Generating voiceover with Shotstack TTS...');
-    
-    const createUrl = `${baseUrl}/create/${stage}/assets`;
-    
-    // CRITICAL: Ensure story content is under 2000 characters for Shotstack TTS
-    // Validate story content first
-    if (!selectedStory.content || typeof selectedStory.content !== 'string') {
-      throw new Error('Invalid story content: must be a non-empty string');
+    // The narrated story is the redacted copy; content history keeps tracking the original
+    const { story, redaction } = redactPii
+      ? redactStory(selectedStory)
+      : { story: selectedStory, redaction: undefined };
+    if (redaction) {
+      console.log(`🕵️ Redacted ${redaction.replacements.length} personal detail(s): ${redaction.replacements.map(r => r.kind).join(', ') || 'none found'}`);
     }
     
-    // Clean and prepare story text
-    let storyText = selectedStory.content.trim()
-      .replace(/[\x00-\x1F\x7F-\x9F]/g, '') // Remove control characters
-      .replace(/\s+/g, ' '); // Normalize whitespace
-    
-    // More conservative truncation to ensure we stay well under 2000 chars
-    if (storyText.length > 1900) {  // Extra safety buffer
-      console.log(`⚠️ Story too long (${storyText.length} chars), truncating to 1900 chars`);
-      storyText = storyText.substring(0, 1900) + "...";
+    // Soundtrack: the request's own pick, or the story category's moods
+    let musicSelection = false;
+    if (music) {
+      const category = music.trackId || music.moods ? null : await createCategoryStore(env).get(selectedStory.category);
+      musicSelection = {
+        trackId: music.trackId,
+        moods: music.moods || category?.musicMoods || [],
+        volume: music.volume,
+        duckedVolume: music.duckedVolume
+      };
+      console.log(`🎵 Music: ${musicSelection.trackId || `moods ${musicSelection.moods.join(', ') || 'any'}`}`);
     }
     
-    const audioPayload = {
-      provider: "shotstack",  // Using Shotstack's built-in TTS (NOT elevenlabs)
-      options: {
-        type: "text-to-speech",
-        text: storyText,  // Truncated story text (under 2000 chars)
-        voice: voiceSettings.voice_id || "Matthew",
-        language: "en-US",
-        newscaster: true  // Professional news-style delivery
+    // Every step checkpoints onto the workflow, so a failure part-way can be
+    // resumed via POST /api/workflows/:id/resume without paying for it twice
+    store = createWorkflowStore(env);
+    workflow = await store.create({
+      currentStep: 'created',
+      redaction,
+      request: {
+        story,
+        durationSeconds: trimDuration || duration,
+        voiceId: voiceSettings?.voice_id,
+        useProduction,
+        addCaptions,
+        captionMaxWordsPerLine: Number(captionMaxWordsPerLine) || undefined,
+        ttsProvider,
+        redactPii: Boolean(redactPii),
+        attribution,
+        background: background ? { clipId: background.clipId, tags: background.tags } : undefined,
+        music: musicSelection
       }
-    };
-    
-    console.log('🎙️ Calling Shotstack TTS...');
-    console.log('📊 TTS Payload Details:');
-    console.log('  - Provider:', audioPayload.provider);
-    console.log('  - Original Text Length:', selectedStory.content.length);
-    console.log('  - Final Text Length:', audioPayload.options.text.length);
-    console.log('  - Text Preview:', audioPayload.options.text.substring(0, 100) + '...');
-    console.log('  - Text End:', '...' + audioPayload.options.text.substring(audioPayload.options.text.length - 100));
-    console.log('  - Voice:', audioPayload.options.voice);
-    console.log('  - Full Payload:', JSON.stringify(audioPayload, null, 2));
-    
-    const audioCreateResponse = await fetch(createUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey
-      },
-      body: JSON.stringify(audioPayload)
     });
+    console.log(`🗂️ Tracking as workflow ${workflow.workflowId}`);
     
-    if (!audioCreateResponse.ok) {
-      const errorText = await audioCreateResponse.text();
-      console.error('❌ Failed to create Shotstack TTS audio:', errorText);
-      throw new Error(`Failed to create audio: ${audioCreateResponse.status} - ${errorText}`);
+    // Claim the story now so a second run can't pick it while this one renders
+    if (history) {
+      await history.record(selectedStory, { status: 'generating', workflowId: workflow.workflowId })
+        .catch(historyError => console.error('❌ Could not record story in content history:', historyError));
     }
     
-    const audioData = await audioCreateResponse.json();
-    console.log('✅ Shotstack TTS audio created successfully');
-    
-    const audioUrl = audioData.data.attributes.url;
-    console.log(`🎵 Audio URL: ${audioUrl}`);
-    
-    // STEP 4: Create render with video + audio
-    console.log('🎥 Step 4: Creating render with video and voiceover...');
-    
-    // Create the timeline with video and voiceover
-    const timeline = {
-      tracks: [
-        {
-          // Video track
-          clips: [{
-            asset: {
-              type: "video",
-              src: sourceUrl // Use the uploaded video URL
-            },
-            start: 0,
-            length: trimDuration || duration,
-            offset: {
-              x: 0,
-              y: 0
-            },
-            scale: 1
-          }]
-        },
-        {
-          // Audio track with Shotstack TTS
-          clips: [{
-            asset: {
-              type: "audio",
-              src: audioUrl // URL from Shotstack TTS
-            },
-            start: 0,
-            length: trimDuration || duration,
-            volume: 1.0
-          }]
-        }
-      ]
-    };
-    
-    // Add captions track if requested
-    if (addCaptions) {
-      timeline.tracks.push({
-        clips: [{
-          asset: {
-            type: "html",
-            html: `<div style="font-family: Arial; font-size: 24px; color: white; text-align: center; background: rgba(0,0,0,0.8); padding: 10px;">{{caption}}</div>`,
-            width: 1920,
-            height: 100
-          },
-          start: 0,
-          length: trimDuration || duration,
-          position: "bottom"
-        }]
+    const deps = await createVideoWorkflowDependencies(env, workflow, videoFile ? await videoFile.arrayBuffer() : null, new URL(request.url).origin);
+    workflow = await runVideoWorkflow(store, workflow.workflowId, deps);
+    
+    if (workflow.status === 'failed') {
+      await releaseStory(history, selectedStory, workflow);
+      return new Response(JSON.stringify({
+        success: false,
+        error: workflow.error,
+        workflow_id: workflow.workflowId,
+        failed_step: workflow.failedStep,
+        resume_url: `/api/workflows/${workflow.workflowId}/resume`
+      }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
       });
     }
     
-    const renderBody = {
-      timeline: timeline,
-      output: {
-        format: "mp4",
-        resolution: "hd",
-        fps: 30
-      },
-      callback: env.SHOTSTACK_CALLBACK_URL || null
-    };
-    
-    const renderResponse = await fetch(`${baseUrl}/edit/${stage}/render`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey
-      },
-      body: JSON.stringify(renderBody)
-    });
-    
-    if (!renderResponse.ok) {
-      const errorText = await renderResponse.text();
-      console.error('❌ Failed to create render:', errorText);
-      throw new Error(`Failed to create render: ${renderResponse.status} - ${errorText}`);
-    }
-    
-    const renderData = await renderResponse.json();
-    const renderId = renderData.data.id;
-    
-    console.log(`✅ Render started with ID: ${renderId}`);
-    
     return new Response(JSON.stringify({
       success: true,
       message: "Video generation started successfully!",
-      render_id: renderId,
-      source_id: sourceId,
+      render_id: workflow.render.renderId,
+      source_id: workflow.checkpoints.upload.sourceId,
+      workflow_id: workflow.workflowId,
+      redaction: workflow.redaction || null,
       estimated_time: "3-5 minutes",
-      status_check_url: `/api/shotstack-status?id=${renderId}`,
+      status_check_url: `/api/workflows/${workflow.workflowId}`,
       mode: useProduction ? 'production' : 'sandbox'
     }), {
       headers: { 'Content-Type': 'application/json' }
@@ -278,12 +197,28 @@ export async function onRequestPost(context) {
   } catch (error) {
     console.error('❌ Video generation failed:', error);
     
+    if (workflow) {
+      await store.update(workflow.workflowId, state => {
+        state.status = 'failed';
+        state.error = error.message || 'Failed to generate video';
+      }).catch(updateError => console.error('❌ Could not mark workflow failed:', updateError));
+      await releaseStory(createContentHistory(env), workflow.request.story, workflow);
+    }
+    
     return new Response(JSON.stringify({
       success: false,
-      error: error.message || 'Failed to generate video'
+      error: error.message || 'Failed to generate video',
+      workflow_id: workflow?.workflowId || null
     }), {
-      status: 500,
+      status: error.status || 500,
       headers: { 'Content-Type': 'application/json' }
     });
   }
-}
\ No newline at end of file
+}
+
+// A failed workflow gives its story back, unless content safety blocked it
+async function releaseStory(history, story, workflow) {
+  if (!history) return;
+  await history.recordFailure(story, workflow)
+    .catch(historyError => console.error('❌ Could not release story in content history:', historyError));
+}
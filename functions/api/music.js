@@ -0,0 +1,80 @@
+/**
+ * Music library - soundtracks played under the narration
+ *
+ * GET  /api/music?moods=upbeat,uplifting → { tracks, moods } (all tracks without moods)
+ * POST /api/music (multipart: audioFile, name, artist, bpm, moods, licenseName,
+ *      licenseUrl, licenseAttribution) → store a track
+ *
+ * Audio goes to R2 (music/{id}) and its duration, BPM, moods and license to
+ * config/music.json; see lib/music/music-library.ts. Renders pick a track by
+ * the story category's music moods, or by { music: { trackId } } in
+ * POST /api/generate-video-async.
+ */
+
+import { createMusicLibrary } from '../../lib/music/music-library';
+
+export async function onRequestGet(context) {
+  const { request, env } = context;
+
+  try {
+    const library = createMusicLibrary(env, new URL(request.url).origin);
+    if (!library) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 503);
+    }
+
+    const moods = (new URL(request.url).searchParams.get('moods') || '').split(',').filter(Boolean);
+    const tracks = await library.list(moods);
+    const allMoods = Array.from(new Set((await library.list()).flatMap(track => track.moods))).sort();
+
+    return jsonResponse({ success: true, tracks, moods: allMoods });
+  } catch (error) {
+    console.error('❌ Listing music tracks failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to list music tracks' }, error.status || 500);
+  }
+}
+
+export async function onRequestPost(context) {
+  const { request, env } = context;
+
+  try {
+    const library = createMusicLibrary(env, new URL(request.url).origin);
+    if (!library) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 503);
+    }
+
+    const formData = await request.formData();
+    const audioFile = formData.get('audioFile');
+    if (!audioFile || typeof audioFile === 'string') {
+      return jsonResponse({ success: false, error: 'Expected an audioFile upload' }, 400);
+    }
+
+    const track = await library.add({
+      name: String(formData.get('name') || audioFile.name || '').replace(/\.[^.]+$/, ''),
+      artist: String(formData.get('artist') || ''),
+      bpm: formData.get('bpm') ? Number(formData.get('bpm')) : null,
+      moods: String(formData.get('moods') || '').split(','),
+      license: {
+        name: String(formData.get('licenseName') || ''),
+        url: String(formData.get('licenseUrl') || ''),
+        attribution: String(formData.get('licenseAttribution') || '')
+      },
+      audio: await audioFile.arrayBuffer()
+    });
+    console.log(`🎵 Added music ${track.id} "${track.name}" (${track.duration}s, ${track.license.name}, moods: ${track.moods.join(', ') || 'none'})`);
+
+    return jsonResponse({ success: true, track });
+  } catch (error) {
+    console.error('❌ Adding music track failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to add music track' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * One music track
+ *
+ * GET    /api/music/:id                                       → track details
+ * PUT    /api/music/:id { name, artist, bpm, moods, license } → edit them
+ * DELETE /api/music/:id                                       → remove it and its audio
+ */
+
+import { createMusicLibrary } from '../../../lib/music/music-library';
+
+export async function onRequestGet(context) {
+  const { request, env, params } = context;
+
+  try {
+    const library = createMusicLibrary(env, new URL(request.url).origin);
+    if (!library) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 503);
+    }
+
+    const track = await library.get(params.id);
+    if (!track) {
+      return jsonResponse({ success: false, error: `Music track ${params.id} not found` }, 404);
+    }
+    return jsonResponse({ success: true, track });
+  } catch (error) {
+    console.error(`❌ Loading music track ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to load music track' }, error.status || 500);
+  }
+}
+
+export async function onRequestPut(context) {
+  const { request, env, params } = context;
+
+  try {
+    const library = createMusicLibrary(env, new URL(request.url).origin);
+    if (!library) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 503);
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return jsonResponse({ success: false, error: 'Expected { name, artist, bpm, moods, license } as a JSON object' }, 400);
+    }
+
+    const track = await library.update(params.id, {
+      name: body.name,
+      artist: body.artist,
+      bpm: body.bpm,
+      moods: body.moods,
+      license: body.license
+    });
+    console.log(`🎵 Updated music ${track.id} (moods: ${track.moods.join(', ') || 'none'})`);
+
+    return jsonResponse({ success: true, track });
+  } catch (error) {
+    console.error(`❌ Updating music track ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to update music track' }, error.status || 500);
+  }
+}
+
+export async function onRequestDelete(context) {
+  const { request, env, params } = context;
+
+  try {
+    const library = createMusicLibrary(env, new URL(request.url).origin);
+    if (!library) {
+      return jsonResponse({ success: false, error: 'R2_BUCKET binding not configured' }, 503);
+    }
+
+    await library.remove(params.id);
+    console.log(`🗑️ Removed music ${params.id}`);
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error(`❌ Removing music track ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to remove music track' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * Serve music tracks from R2 (stored by lib/music/music-library.ts)
+ *
+ * GET /api/music/:id/audio   → MP3 or WAV with Range support, for the renderer and previews
+ */
+
+export async function onRequestGet(context) {
+  const { request, env, params } = context;
+
+  if (!env.R2_BUCKET) {
+    return new Response('R2_BUCKET binding not configured', { status: 503 });
+  }
+  if (!/^[\w-]+$/.test(params.id)) {
+    return new Response('Invalid music track id', { status: 400 });
+  }
+
+  const object = await env.R2_BUCKET.get(`music/${params.id}`, { range: request.headers });
+  if (!object) {
+    return new Response('Music track not found', { status: 404 });
+  }
+
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  headers.set('ETag', object.httpEtag);
+  headers.set('Accept-Ranges', 'bytes');
+  headers.set('Cache-Control', 'public, max-age=86400');
+
+  if (object.range && request.headers.has('Range')) {
+    const offset = object.range.offset ?? object.size - object.range.suffix;
+    const length = object.range.length ?? object.size - offset;
+    headers.set('Content-Range', `bytes ${offset}-${offset + length - 1}/${object.size}`);
+    headers.set('Content-Length', String(length));
+    return new Response(object.body, { status: 206, headers });
+  }
+
+  headers.set('Content-Length', String(object.size));
+  return new Response(object.body, { headers });
+}
@@ -0,0 +1,52 @@
+/**
+ * Prompt templates the LLM-backed generators render from
+ *
+ * GET  /api/prompts                                                     → { templates } (id, active version, version list)
+ * POST /api/prompts { id, template, variables, description, note, activate } → save a new version
+ *
+ * Stored in R2 (config/prompts.json); see lib/prompts/prompt-registry.ts for
+ * the placeholder syntax and variable types. New versions become active
+ * unless activate is false.
+ */
+
+import { createPromptRegistry } from '../../lib/prompts/prompt-registry';
+
+export async function onRequestGet(context) {
+  const { env } = context;
+
+  try {
+    return jsonResponse({ success: true, templates: await createPromptRegistry(env).list() });
+  } catch (error) {
+    console.error('❌ Listing prompt templates failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to list prompt templates' }, error.status || 500);
+  }
+}
+
+export async function onRequestPost(context) {
+  const { request, env } = context;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.id !== 'string' || typeof body.template !== 'string') {
+      return jsonResponse({ success: false, error: 'Expected { id, template, variables }' }, 400);
+    }
+
+    const saved = await createPromptRegistry(env).save(body.id, body, body.activate !== false);
+    console.log(`📝 Saved prompt ${saved.templateId} v${saved.version}${body.activate === false ? ' (not active)' : ''}`);
+
+    return jsonResponse({ success: true, template: saved });
+  } catch (error) {
+    console.error('❌ Saving prompt template failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to save prompt template' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * One prompt template and its versions
+ *
+ * GET /api/prompts/:id             → { activeVersion, versions }
+ * GET /api/prompts/:id?version=N   → { template } (that version)
+ * PUT /api/prompts/:id { activate: N } → make version N the active one
+ */
+
+import { createPromptRegistry } from '../../../lib/prompts/prompt-registry';
+
+export async function onRequestGet(context) {
+  const { request, env, params } = context;
+
+  try {
+    const registry = createPromptRegistry(env);
+    const version = new URL(request.url).searchParams.get('version');
+    if (version) {
+      return jsonResponse({ success: true, template: await registry.get(params.id, Number(version)) });
+    }
+
+    const history = await registry.history(params.id);
+    return jsonResponse({ success: true, id: params.id, ...history });
+  } catch (error) {
+    console.error(`❌ Loading prompt template ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to load prompt template' }, error.status || 500);
+  }
+}
+
+export async function onRequestPut(context) {
+  const { request, env, params } = context;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || !Number.isInteger(body.activate)) {
+      return jsonResponse({ success: false, error: 'Expected { activate: <version number> }' }, 400);
+    }
+
+    const template = await createPromptRegistry(env).activate(params.id, body.activate);
+    console.log(`📝 Prompt ${params.id} now uses v${template.version}`);
+
+    return jsonResponse({ success: true, template });
+  } catch (error) {
+    console.error(`❌ Activating prompt template ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to activate prompt template' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
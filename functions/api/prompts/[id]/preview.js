@@ -0,0 +1,44 @@
+/**
+ * Render a prompt template without calling any LLM
+ *
+ * POST /api/prompts/:id/preview { variables, version? }       → { text, templateId, version }
+ * POST /api/prompts/:id/preview { variables, template: {...} } → render an unsaved draft
+ *   ({ template, variables } as for POST /api/prompts; version is null)
+ *
+ * Missing or mistyped variables come back as a 400 naming the variable.
+ */
+
+import { createPromptRegistry, renderPromptTemplate, validatePromptTemplate } from '../../../../lib/prompts/prompt-registry';
+
+export async function onRequestPost(context) {
+  const { request, env, params } = context;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return jsonResponse({ success: false, error: 'Expected { variables } as a JSON object' }, 400);
+    }
+    const variables = body.variables && typeof body.variables === 'object' ? body.variables : {};
+
+    if (body.template) {
+      const draft = validatePromptTemplate(body.template);
+      return jsonResponse({ success: true, templateId: params.id, version: null, text: renderPromptTemplate(draft, variables) });
+    }
+
+    const rendered = await createPromptRegistry(env).render(params.id, variables, body.version !== undefined ? Number(body.version) : undefined);
+    return jsonResponse({ success: true, ...rendered });
+  } catch (error) {
+    console.error(`❌ Previewing prompt template ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to preview prompt template' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Queue control
+ *
+ * POST /api/queue/control { action: 'pause' | 'resume' | 'clear' | 'process', olderThanMs? }
+ *
+ * 'process' runs one job before responding and is only for the scheduler
+ * worker (workers/scheduler), which keeps the queue draining when nobody is
+ * enqueuing - it needs SCHEDULER_SECRET as a bearer token.
+ */
+
+import { createJobQueue } from '../../../lib/queue/job-queue';
+import { QueueWorker, createDefaultJobHandlers } from '../../../lib/queue/queue-worker';
+import { assertSchedulerRequest } from '../../../lib/security/scheduler-auth';
+
+export async function onRequestPost(context) {
+  const { request, env } = context;
+
+  try {
+    const { action, olderThanMs } = await request.json();
+    const queue = createJobQueue(env);
+
+    switch (action) {
+      case 'pause':
+        await queue.pause();
+        break;
+      case 'resume':
+        await queue.resume();
+        context.waitUntil(new QueueWorker(queue, createDefaultJobHandlers(env)).runOnce().catch(error => {
+          console.error('❌ Background queue worker failed:', error);
+        }));
+        break;
+      case 'clear': {
+        const removed = await queue.clearOldJobs(olderThanMs);
+        return jsonResponse({ success: true, removed });
+      }
+      case 'process': {
+        assertSchedulerRequest(request, env.SCHEDULER_SECRET);
+        const processed = await new QueueWorker(queue, createDefaultJobHandlers(env)).runOnce();
+        return jsonResponse({ success: true, action, processed, stats: await queue.getStats() });
+      }
+      default:
+        return jsonResponse({ success: false, error: `Unknown action: ${action}` }, 400);
+    }
+
+    return jsonResponse({ success: true, action, stats: await queue.getStats() });
+
+  } catch (error) {
+    console.error('❌ Queue control failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Queue control failed' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,86 @@
+/**
+ * Live queue updates over Server-Sent Events
+ *
+ * GET /api/queue/events[?jobId=...]
+ *
+ * Sends a `snapshot` of all jobs, then `job`, `removed` and `stats` events as
+ * the queue changes. The stream closes after STREAM_DURATION_MS and the
+ * browser's EventSource reconnects on its own.
+ */
+
+import { createJobQueue } from '../../../lib/queue/job-queue';
+
+const POLL_INTERVAL_MS = 1000;
+const STREAM_DURATION_MS = 25000;
+
+export async function onRequestGet(context) {
+  const { request, env } = context;
+
+  let queue;
+  try {
+    queue = createJobQueue(env);
+  } catch (error) {
+    return new Response(JSON.stringify({ success: false, error: error.message }), {
+      status: error.status || 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const jobId = new URL(request.url).searchParams.get('jobId');
+  const encoder = new TextEncoder();
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+
+  const send = (event, data) => writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+  const stream = async () => {
+    const seen = new Map();
+    const deadline = Date.now() + STREAM_DURATION_MS;
+    let lastStateUpdate = null;
+
+    try {
+      await writer.write(encoder.encode(`retry: ${POLL_INTERVAL_MS}\n\n`));
+
+      while (Date.now() < deadline && !request.signal?.aborted) {
+        const state = await queue.getState();
+
+        if (state.updatedAt !== lastStateUpdate) {
+          const jobs = jobId ? state.jobs.filter(job => job.id === jobId) : state.jobs;
+
+          if (lastStateUpdate === null) {
+            await send('snapshot', { jobs, stats: state.stats, paused: state.paused });
+          } else {
+            for (const job of jobs) {
+              if (seen.get(job.id) !== job.updatedAt) await send('job', job);
+            }
+            for (const id of seen.keys()) {
+              if (!jobs.some(job => job.id === id)) await send('removed', { id });
+            }
+            await send('stats', { stats: state.stats, paused: state.paused });
+          }
+
+          seen.clear();
+          jobs.forEach(job => seen.set(job.id, job.updatedAt));
+          lastStateUpdate = state.updatedAt;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    } catch (error) {
+      console.error('❌ Queue event stream failed:', error);
+      await send('error', { error: error.message || 'Queue event stream failed' }).catch(() => undefined);
+    } finally {
+      await writer.close().catch(() => undefined);
+    }
+  };
+
+  context.waitUntil(stream());
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Server-side job queue
+ *
+ * GET  /api/queue/jobs?status=&type=   → jobs, stats and paused flag
+ * POST /api/queue/jobs                 → enqueue { type, payload, priority, maxRetries, id? }
+ *
+ * Enqueuing also kicks a worker in the background; jobs it can't finish
+ * before the function is torn down lose their lease and get retried. The
+ * scheduler worker (workers/scheduler) drains the rest through
+ * POST /api/queue/control { action: 'process' }.
+ */
+
+import { createJobQueue } from '../../../lib/queue/job-queue';
+import { QueueWorker, createDefaultJobHandlers } from '../../../lib/queue/queue-worker';
+
+export async function onRequestGet(context) {
+  const { request, env } = context;
+
+  try {
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status') || undefined;
+    const type = url.searchParams.get('type') || undefined;
+
+    const queue = createJobQueue(env);
+    const state = await queue.getState();
+    const jobs = state.jobs.filter(job => (!status || job.status === status) && (!type || job.type === type));
+
+    return jsonResponse({ success: true, jobs, stats: state.stats, paused: state.paused });
+
+  } catch (error) {
+    console.error('❌ Queue listing failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to list jobs' }, error.status || 500);
+  }
+}
+
+export async function onRequestPost(context) {
+  const { request, env } = context;
+
+  try {
+    const { type, payload, priority, maxRetries, id } = await request.json();
+
+    const queue = createJobQueue(env);
+    const job = await queue.addJob(type, payload ?? {}, priority, maxRetries, id);
+
+    context.waitUntil(new QueueWorker(queue, createDefaultJobHandlers(env)).runOnce().catch(error => {
+      console.error('❌ Background queue worker failed:', error);
+    }));
+
+    return jsonResponse({ success: true, job }, 201);
+
+  } catch (error) {
+    console.error('❌ Enqueue failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to add job' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,50 @@
+/**
+ * Single job
+ *
+ * GET    /api/queue/jobs/:id  → job status, result and error
+ * DELETE /api/queue/jobs/:id  → remove the job (a running worker abandons it)
+ */
+
+import { createJobQueue } from '../../../../lib/queue/job-queue';
+
+export async function onRequestGet(context) {
+  const { env, params } = context;
+
+  try {
+    const job = await createJobQueue(env).getJob(params.id);
+    if (!job) {
+      return jsonResponse({ success: false, error: `Job ${params.id} not found` }, 404);
+    }
+    return jsonResponse({ success: true, job });
+
+  } catch (error) {
+    console.error('❌ Job lookup failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to read job' }, error.status || 500);
+  }
+}
+
+export async function onRequestDelete(context) {
+  const { env, params } = context;
+
+  try {
+    const removed = await createJobQueue(env).removeJob(params.id);
+    if (!removed) {
+      return jsonResponse({ success: false, error: `Job ${params.id} not found` }, 404);
+    }
+    return jsonResponse({ success: true, removed: params.id });
+
+  } catch (error) {
+    console.error('❌ Job removal failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to remove job' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
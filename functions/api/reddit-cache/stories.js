@@ -0,0 +1,62 @@
+/**
+ * Scraped Reddit stories from the shared cache
+ *
+ * GET /api/reddit-cache/stories?category=drama&limit=15&includeUsed=false
+ *   → { stories, usedCount, freshness: 'fresh' | 'stale' | 'expired', fetchedAt, source: 'cache' | 'origin' }
+ *
+ * Stale entries are answered immediately and refreshed in the background;
+ * X-Cache and Cache-Control tell the edge how long the answer stays good.
+ * Stories that already became videos are left out, or with includeUsed=true
+ * kept and flagged with `previously_used`.
+ */
+
+import { createCategoryStore } from '../../../lib/categories/category-store';
+import { createContentHistory } from '../../../lib/content-history/content-history';
+import { createRedditCache, DEFAULT_STORY_LIMIT } from '../../../lib/services/reddit-cache-service';
+
+export async function onRequestGet(context) {
+  const { request, env } = context;
+
+  try {
+    const url = new URL(request.url);
+    const category = url.searchParams.get('category');
+    const limit = Number(url.searchParams.get('limit') || DEFAULT_STORY_LIMIT);
+    const includeUsed = url.searchParams.get('includeUsed') === 'true';
+
+    const categories = await createCategoryStore(env).list();
+    if (!categories.some(candidate => candidate.id === category)) {
+      return jsonResponse({ success: false, error: `Unknown category: ${category}` }, 400);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+      return jsonResponse({ success: false, error: 'limit must be between 1 and 50' }, 400);
+    }
+
+    const result = await createRedditCache(env, {}, categories).getStories(category, limit, {
+      waitUntil: promise => context.waitUntil(promise)
+    });
+
+    // Screened per request rather than in the cache, so a story disappears as soon as it's used
+    const history = createContentHistory(env);
+    const screened = history
+      ? await history.screenStories(result.stories, { includeUsed })
+      : { stories: result.stories, usedCount: 0 };
+
+    return jsonResponse({ success: true, category, ...result, ...screened }, 200, {
+      'X-Cache': result.source === 'origin' ? 'MISS' : `HIT-${result.freshness.toUpperCase()}`,
+      // Fresh answers can be reused at the edge for a minute; older ones shouldn't be.
+      // History changes whenever a video starts, so screened answers stay private.
+      'Cache-Control': result.freshness === 'fresh' ? 'private, max-age=60' : 'no-store'
+    });
+
+  } catch (error) {
+    console.error('❌ Cached Reddit stories failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to get Reddit stories' }, error.status || 502);
+  }
+}
+
+function jsonResponse(body, status = 200, headers = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Reddit cache warmup
+ *
+ * GET  /api/reddit-cache/warmup                        → entries in the shared cache and their freshness
+ * POST /api/reddit-cache/warmup { categories?, force? } → refresh every category that isn't fresh
+ *
+ * The scheduler worker (workers/scheduler) POSTs every 10 minutes so the
+ * configured story categories (see /api/categories) stay warm without a
+ * browser tab open. The POST scrapes Reddit, so it needs the scheduler's
+ * `Authorization: Bearer <SCHEDULER_SECRET>`.
+ */
+
+import { createCategoryStore } from '../../../lib/categories/category-store';
+import { assertSchedulerRequest } from '../../../lib/security/scheduler-auth';
+import { createRedditCache } from '../../../lib/services/reddit-cache-service';
+
+export async function onRequestGet(context) {
+  const { env } = context;
+
+  try {
+    return jsonResponse({ success: true, entries: await createRedditCache(env).getStatus() });
+  } catch (error) {
+    console.error('❌ Reddit cache status failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to read the Reddit cache' }, error.status || 500);
+  }
+}
+
+export async function onRequestPost(context) {
+  const { request, env } = context;
+
+  try {
+    assertSchedulerRequest(request, env.SCHEDULER_SECRET);
+
+    const body = await request.json().catch(() => ({}));
+    const configured = await createCategoryStore(env).list();
+    const known = configured.map(category => category.id);
+    const categories = body.categories || known;
+
+    if (!Array.isArray(categories) || !categories.every(category => known.includes(category))) {
+      return jsonResponse({ success: false, error: `categories must be a subset of ${known.join(', ')}` }, 400);
+    }
+
+    const results = await createRedditCache(env, {}, configured).warmupCache(categories, { force: Boolean(body.force) });
+    console.log(`🔥 Reddit cache warmup: ${results.map(result => `${result.category}=${result.status}`).join(', ')}`);
+
+    return jsonResponse({
+      success: results.every(result => result.status !== 'failed'),
+      results
+    });
+
+  } catch (error) {
+    console.error('❌ Reddit cache warmup failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Warmup failed' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
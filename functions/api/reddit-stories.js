@@ -1,8 +1,16 @@
 /**
  * Cloudflare Pages Function: Claude finds REAL Reddit stories
  * NO REDDIT API SCRAPING - Claude searches and returns real stories
+ *
+ * Stories already turned into videos are filtered out using the content
+ * history; send includeUsed: true to get them back flagged with previously_used.
+ * Categories and their subreddits come from the category settings (/api/categories).
  */
 
+import { createCategoryStore } from '../../lib/categories/category-store';
+import { createContentHistory } from '../../lib/content-history/content-history';
+import { classifyWithRules, containsWholeWord, describeVerdict } from '../../lib/safety/content-safety';
+
 export async function onRequestGet(context) {
   return new Response(JSON.stringify({
     success: true,
@@ -24,7 +32,7 @@ export async function onRequestPost(context) {
     console.log('🔍 Reddit Stories API called');
     
     const requestBody = await request.json();
-    const { category, targetDuration, limit = 5, refresh } = requestBody;
+    const { category, targetDuration, limit = 5, includeUsed = false } = requestBody;
     
     console.log(`🤖 Using Claude to find REAL Reddit stories for ${category}, ${targetDuration} minutes`);
     
@@ -39,8 +47,28 @@ export async function onRequestPost(context) {
       });
     }
     
+    const categoryConfig = await createCategoryStore(env).get(category);
+    if (!categoryConfig) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: `Unknown category: ${category}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    
     // Claude finds REAL Reddit stories
-    const stories = await findRealRedditStories(category, targetDuration, limit, env.ANTHROPIC_API_KEY);
+    let stories = await findRealRedditStories(categoryConfig, targetDuration, limit, env.ANTHROPIC_API_KEY);
+    
+    let usedCount = 0;
+    const history = createContentHistory(env);
+    if (history && stories.length > 0) {
+      const screened = await history.screenStories(stories, { includeUsed });
+      stories = screened.stories;
+      usedCount = screened.usedCount;
+      if (usedCount > 0) console.log(`♻️ ${usedCount} stories were already used for videos`);
+    }
     
     if (stories.length === 0) {
       // Use fallback only if Claude fails
@@ -50,7 +78,8 @@ export async function onRequestPost(context) {
     
     return new Response(JSON.stringify({
       success: true,
-      stories: stories
+      stories: stories,
+      usedCount
     }), {
       headers: { 'Content-Type': 'application/json' }
     });
@@ -69,16 +98,10 @@ export async function onRequestPost(context) {
 }
 
 // Claude finds REAL Reddit stories - NOT fabricated
-async function findRealRedditStories(category, targetDuration, limit, apiKey) {
-  const subredditsByCategory = {
-    drama: ['AmItheAsshole', 'relationships', 'relationship_advice', 'TrueOffMyChest'],
-    horror: ['nosleep', 'LetsNotMeet', 'creepy', 'paranormal'], 
-    revenge: ['MaliciousCompliance', 'pettyrevenge', 'ProRevenge', 'NuclearRevenge'],
-    wholesome: ['MadeMeSmile', 'wholesome', 'humansbeingbros', 'UpliftingNews'],
-    mystery: ['UnresolvedMysteries', 'mystery', 'RBI', 'Glitch_in_the_Matrix']
-  };
-  
-  const subreddits = subredditsByCategory[category] || ['AmItheAsshole'];
+async function findRealRedditStories(categoryConfig, targetDuration, limit, apiKey) {
+  const category = categoryConfig.id;
+  const subreddits = categoryConfig.subreddits;
+  const { minLength, maxLength } = categoryConfig.filters;
   
   try {
     console.log('🔍 Asking Claude to find real Reddit stories...');
@@ -88,8 +111,8 @@ async function findRealRedditStories(category, targetDuration, limit, apiKey) {
 Requirements:
 - Use REAL Reddit posts from your knowledge (actual posts that exist/existed)
 - Include the real post IDs, actual upvote counts, real details
-- Each story 300-1800 characters (TTS limit)
-- ${category} category stories from subreddits like r/${subreddits.join(', r/')}
+- Each story ${Math.max(minLength, 300)}-${Math.min(maxLength, 1800)} characters (TTS limit)
+- ${categoryConfig.name} stories (${categoryConfig.description || category}) from subreddits like r/${subreddits.join(', r/')}
 - Include the complete story text
 
 Provide real Reddit stories you know about, with actual details like:
@@ -102,6 +125,7 @@ Provide real Reddit stories you know about, with actual details like:
     "subreddit": "AmItheAsshole",
     "upvotes": 15234,
     "comments": 892,
+    "author": "original_poster_username",
     "url": "https://reddit.com/r/AmItheAsshole/comments/actual_post_id/"
   }
 ]
@@ -144,6 +168,14 @@ Return ONLY the JSON array with real Reddit stories you know about.`;
     for (const story of claudeStories) {
       // Ensure story content is under limit
       let content = story.content;
+      if (containsWholeWord(content, categoryConfig.filters.bannedWords)) {
+        continue;
+      }
+      const safety = classifyWithRules(`${story.title}\n${content}`, 'story');
+      if (safety.decision === 'block') {
+        console.log(`🚫 Skipping story ${story.id}: ${describeVerdict(safety)}`);
+        continue;
+      }
       if (content.length > 1800) {
         content = content.substring(0, 1797) + "...";
       }
@@ -161,7 +193,9 @@ Return ONLY the JSON array with real Reddit stories you know about.`;
         category,
         estimated_duration: estimateDuration(content),
         estimated_duration_minutes: estimateDurationInMinutes(content),
-        duration_match_score: 10
+        duration_match_score: 10,
+        author: typeof story.author === 'string' ? story.author.replace(/^\/?u\//, '') : undefined,
+        scraped_at: new Date().toISOString()
       });
     }
     
@@ -0,0 +1,33 @@
+/**
+ * Text-to-speech providers and their voices, for the voice picker
+ *
+ * GET /api/tts/providers   → [{ name, available, capabilities: { voices, maxChars, alignment, costPerChar, ... } }]
+ */
+
+import { DEFAULT_TTS_PROVIDER, listTTSProviders } from '../../../lib/tts/tts-registry';
+
+export async function onRequestGet(context) {
+  const { env } = context;
+
+  try {
+    return jsonResponse({
+      success: true,
+      defaultProvider: DEFAULT_TTS_PROVIDER,
+      providers: listTTSProviders(env)
+    });
+  } catch (error) {
+    console.error('❌ Listing TTS providers failed:', error);
+
+    return jsonResponse({
+      success: false,
+      error: error.message || 'Failed to list TTS providers'
+    }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * Append a usage entry to the daily ledger in R2
+ * Called by UsageTracker.logUsage and R2UsageLogger.logUsage
+ * Body: { date: 'YYYY-MM-DD', entry: UsageEntry }
+ */
+
+import { createUsageLedger, todayUTC } from '../../../lib/usage/usage-ledger';
+
+export async function onRequestPost(context) {
+  const { request, env } = context;
+
+  try {
+    const { date, entry } = await request.json();
+
+    if (!entry || typeof entry !== 'object') {
+      return jsonResponse({ success: false, error: 'Missing usage entry' }, 400);
+    }
+
+    const ledger = createUsageLedger(env);
+    const log = await ledger.append(date || todayUTC(), entry);
+
+    console.log(`📊 Usage logged: ${entry.service} $${Number(entry.cost).toFixed(4)} (${log.entries.length} entries on ${log.date})`);
+
+    return jsonResponse({
+      success: true,
+      date: log.date,
+      entries: log.entries.length,
+      totals: log.totals
+    });
+
+  } catch (error) {
+    console.error('❌ Usage logging failed:', error);
+
+    return jsonResponse({
+      success: false,
+      error: error.message || 'Failed to log usage'
+    }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Read usage statistics from the R2 ledger - NO EXTERNAL API CALLS
+ *
+ * GET /api/usage/stats                       → today + month-to-date (dashboard shape)
+ * GET /api/usage/stats?date=YYYY-MM-DD       → single day log with rollups
+ * GET /api/usage/stats?month=YYYY-MM         → monthly rollup
+ * GET /api/usage/stats?from=...&to=...       → arbitrary date range rollup
+ */
+
+import { createUsageLedger } from '../../../lib/usage/usage-ledger';
+
+export async function onRequestGet(context) {
+  const { request, env } = context;
+
+  try {
+    const url = new URL(request.url);
+    const date = url.searchParams.get('date');
+    const month = url.searchParams.get('month');
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+
+    const ledger = createUsageLedger(env);
+
+    if (from || to) {
+      if (!from || !to) {
+        return jsonResponse({ success: false, error: 'Both from and to are required for range stats' }, 400);
+      }
+      return jsonResponse({ success: true, range: await ledger.getRangeStats(from, to) });
+    }
+
+    if (month) {
+      return jsonResponse({ success: true, month: await ledger.getMonthlyStats(month) });
+    }
+
+    if (date) {
+      const log = await ledger.getDailyLog(date);
+      const includeEntries = url.searchParams.get('entries') === 'true';
+      return jsonResponse({
+        success: true,
+        day: includeEntries ? log : { ...log, entries: undefined, entryCount: log.entries.length }
+      });
+    }
+
+    return jsonResponse({ success: true, stats: await ledger.getStats() });
+
+  } catch (error) {
+    console.error('❌ Usage stats failed:', error);
+
+    return jsonResponse({
+      success: false,
+      error: error.message || 'Failed to read usage stats'
+    }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
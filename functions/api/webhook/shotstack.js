@@ -0,0 +1,76 @@
+/**
+ * Shotstack render callback receiver
+ *
+ * POST /api/webhook/shotstack?workflowId=...&token=...
+ *
+ * Renders are submitted with this URL (see buildShotstackCallbackUrl). The
+ * token is an HMAC of the workflow id under SHOTSTACK_WEBHOOK_SECRET. The
+ * payload is recorded as-is, but the status and video URL are re-read from
+ * the Shotstack API before the workflow is updated.
+ */
+
+import { createWorkflowStore } from '../../../lib/workflows/workflow-store';
+import { R2BucketLedgerStorage } from '../../../lib/usage/ledger-storage';
+import {
+  createRenderDependencies,
+  reconcileRender,
+  recordShotstackCallback,
+  verifyCallbackToken
+} from '../../../lib/workflows/shotstack-webhook';
+
+export async function onRequestPost(context) {
+  const { request, env } = context;
+
+  try {
+    if (!env.SHOTSTACK_WEBHOOK_SECRET) {
+      return jsonResponse({ success: false, error: 'SHOTSTACK_WEBHOOK_SECRET not configured' }, 503);
+    }
+
+    const url = new URL(request.url);
+    const workflowId = url.searchParams.get('workflowId');
+    const token = url.searchParams.get('token');
+
+    if (!workflowId || !(await verifyCallbackToken(env.SHOTSTACK_WEBHOOK_SECRET, workflowId, token))) {
+      console.warn(`🚫 Rejected Shotstack callback with bad token (workflow ${workflowId})`);
+      return jsonResponse({ success: false, error: 'Invalid callback token' }, 401);
+    }
+
+    const payload = await request.json();
+    if (!payload || typeof payload.id !== 'string') {
+      return jsonResponse({ success: false, error: 'Missing render id' }, 400);
+    }
+
+    console.log(`📬 Shotstack callback: render ${payload.id} ${payload.status} (workflow ${workflowId})`);
+
+    const store = createWorkflowStore(env);
+    const workflow = await store.get(workflowId);
+    if (!workflow) {
+      return jsonResponse({ success: false, error: `Workflow ${workflowId} not found` }, 404);
+    }
+    if (workflow.render?.renderId !== payload.id) {
+      return jsonResponse({ success: false, error: `Render ${payload.id} does not belong to workflow ${workflowId}` }, 409);
+    }
+
+    await recordShotstackCallback(new R2BucketLedgerStorage(env.R2_BUCKET), workflowId, payload);
+
+    // Copying the MP4 can take a while - acknowledge now, finish in the background
+    context.waitUntil(
+      reconcileRender(store, workflowId, 'webhook', createRenderDependencies(env))
+        .then(state => console.log(`✅ Workflow ${workflowId} → ${state.status} (${state.currentStep})`))
+        .catch(error => console.error(`❌ Applying Shotstack callback for ${workflowId} failed:`, error))
+    );
+
+    return jsonResponse({ success: true, received: payload.id }, 202);
+
+  } catch (error) {
+    console.error('❌ Shotstack callback failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Callback processing failed' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * Workflow state for the reddit-automation page
+ *
+ * GET /api/workflows/:id
+ *
+ * Returns the stored WorkflowState as JSON. With `Accept: text/event-stream`
+ * (EventSource) it instead streams a `workflow` event whenever the state
+ * changes, until the workflow settles or STREAM_DURATION_MS passes - the
+ * browser's EventSource reconnects on its own.
+ */
+
+import { createWorkflowStore } from '../../../lib/workflows/workflow-store';
+
+const POLL_INTERVAL_MS = 1000;
+const STREAM_DURATION_MS = 25000;
+
+export async function onRequestGet(context) {
+  const { request, env, params } = context;
+
+  let store;
+  let workflow;
+  try {
+    store = createWorkflowStore(env);
+    workflow = await store.get(params.id);
+  } catch (error) {
+    return jsonResponse({ success: false, error: error.message || 'Failed to load workflow' }, error.status || 500);
+  }
+
+  if (!workflow) {
+    return jsonResponse({ success: false, error: `Workflow ${params.id} not found` }, 404);
+  }
+
+  if (!(request.headers.get('Accept') || '').includes('text/event-stream')) {
+    return jsonResponse({ success: true, workflow });
+  }
+
+  const encoder = new TextEncoder();
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+
+  const send = (event, data) => writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+  const stream = async () => {
+    const deadline = Date.now() + STREAM_DURATION_MS;
+    let lastUpdated = null;
+
+    try {
+      await writer.write(encoder.encode(`retry: ${POLL_INTERVAL_MS}\n\n`));
+
+      while (Date.now() < deadline && !request.signal?.aborted) {
+        if (workflow.lastUpdated !== lastUpdated) {
+          await send('workflow', workflow);
+          lastUpdated = workflow.lastUpdated;
+        }
+        if (workflow.status !== 'processing') break;
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        workflow = (await store.get(params.id)) || workflow;
+      }
+    } catch (error) {
+      console.error(`❌ Workflow event stream for ${params.id} failed:`, error);
+      await send('error', { error: error.message || 'Workflow event stream failed' }).catch(() => undefined);
+    } finally {
+      await writer.close().catch(() => undefined);
+    }
+  };
+
+  context.waitUntil(stream());
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * Render status for a workflow - polling fallback for missed Shotstack callbacks
+ *
+ * GET /api/workflows/:id/render[?force=true]
+ *
+ * Returns the stored workflow. Only asks Shotstack directly when the render
+ * hasn't been updated for RENDER_POLL_GRACE_MS (a callback is probably lost)
+ * or when forced.
+ */
+
+import { createWorkflowStore } from '../../../../lib/workflows/workflow-store';
+import { createRenderDependencies, reconcileRender } from '../../../../lib/workflows/shotstack-webhook';
+
+const RENDER_POLL_GRACE_MS = 60 * 1000;
+
+export async function onRequestGet(context) {
+  const { request, env, params } = context;
+
+  try {
+    const store = createWorkflowStore(env);
+    let workflow = await store.get(params.id);
+
+    if (!workflow) {
+      return jsonResponse({ success: false, error: `Workflow ${params.id} not found` }, 404);
+    }
+
+    const render = workflow.render;
+    const force = new URL(request.url).searchParams.get('force') === 'true';
+    const settled = !render || render.status === 'stored' || render.status === 'failed';
+    const stale = render && Date.now() - Date.parse(render.updatedAt) > RENDER_POLL_GRACE_MS;
+
+    if (!settled && (stale || force)) {
+      console.log(`🔍 No recent callback for render ${render.renderId}, polling Shotstack`);
+      workflow = await reconcileRender(store, params.id, 'polling', createRenderDependencies(env));
+    }
+
+    return jsonResponse({ success: true, workflow });
+
+  } catch (error) {
+    console.error('❌ Render status check failed:', error);
+    return jsonResponse({ success: false, error: error.message || 'Render status check failed' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
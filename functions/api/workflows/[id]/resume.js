@@ -0,0 +1,69 @@
+/**
+ * Resume a failed or timed-out video workflow
+ *
+ * POST /api/workflows/:id/resume
+ *
+ * Reruns only the steps without a checkpoint (upload → TTS → render). If the
+ * upload never finished, send the background video again as multipart
+ * `videoFile`; otherwise no body is needed. A workflow whose render is
+ * already with Shotstack is re-checked against Shotstack instead.
+ */
+
+import { createContentHistory } from '../../../../lib/content-history/content-history';
+import { createWorkflowStore } from '../../../../lib/workflows/workflow-store';
+import { createRenderDependencies, reconcileRender } from '../../../../lib/workflows/shotstack-webhook';
+import { createVideoWorkflowDependencies, resumeVideoWorkflow } from '../../../../lib/workflows/video-workflow';
+
+export async function onRequestPost(context) {
+  const { request, env, params } = context;
+
+  try {
+    const store = createWorkflowStore(env);
+    let workflow = await store.get(params.id);
+
+    if (!workflow) {
+      return jsonResponse({ success: false, error: `Workflow ${params.id} not found` }, 404);
+    }
+
+    // Render submitted and not failed - the video just needs collecting
+    if (workflow.render && workflow.render.status !== 'failed') {
+      console.log(`🔍 Workflow ${params.id} is past rendering, re-checking render ${workflow.render.renderId}`);
+      workflow = await reconcileRender(store, params.id, 'polling', createRenderDependencies(env));
+      return jsonResponse({ success: workflow.status !== 'failed', workflow, error: workflow.error });
+    }
+
+    let backgroundVideo = null;
+    if ((request.headers.get('Content-Type') || '').includes('multipart/form-data')) {
+      const videoFile = (await request.formData()).get('videoFile');
+      backgroundVideo = videoFile ? await videoFile.arrayBuffer() : null;
+    }
+
+    const deps = await createVideoWorkflowDependencies(env, workflow, backgroundVideo, new URL(request.url).origin);
+    workflow = await resumeVideoWorkflow(store, params.id, deps);
+
+    // The failure released the story; claim it back, or record it failing again
+    const history = createContentHistory(env);
+    if (history && workflow.request) {
+      await (workflow.status === 'failed'
+        ? history.recordFailure(workflow.request.story, workflow)
+        : history.record(workflow.request.story, { status: 'generating', workflowId: workflow.workflowId })
+      ).catch(historyError => console.error('❌ Could not update story in content history:', historyError));
+    }
+
+    if (workflow.status === 'failed') {
+      return jsonResponse({ success: false, error: workflow.error, failed_step: workflow.failedStep, workflow }, 500);
+    }
+    return jsonResponse({ success: true, workflow });
+
+  } catch (error) {
+    console.error(`❌ Resuming workflow ${params.id} failed:`, error);
+    return jsonResponse({ success: false, error: error.message || 'Failed to resume workflow' }, error.status || 500);
+  }
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
@@ -1,27 +1,10 @@
 // Simple Usage Tracking - ONLY logs when content is generated
 // NO external API calls except when actually creating content
 
-interface UsageEntry {
-  timestamp: string;
-  service: 'openai' | 'anthropic' | 'elevenlabs' | 'heygen' | 'googleCloud';
-  tokens?: number;
-  requests?: number;
-  cost: number;
-  operation: string; // e.g., 'text-generation', 'voice-synthesis', 'video-creation'
-}
-
-interface DailyUsage {
-  date: string;
-  entries: UsageEntry[];
-  totals: {
-    openai: { tokens: number; cost: number; requests: number };
-    anthropic: { tokens: number; cost: number; requests: number };
-    elevenlabs: { requests: number; cost: number };
-    heygen: { requests: number; cost: number };
-    googleCloud: { requests: number; cost: number };
-  };
-}
+import { costLedger } from '../usage/cost-ledger';
+import { UsageStats, createEmptyUsageStats } from '../usage/usage-ledger';
 
+// Adapter over the shared cost ledger - kept so existing callers keep working
 export class UsageTracker {
   
   // Log usage when content is generated
@@ -34,35 +17,18 @@ export class UsageTracker {
       operation: string;
     }
   ): Promise<void> {
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      const entry: UsageEntry = {
-        timestamp: new Date().toISOString(),
-        service,
-        tokens: data.tokens,
-        requests: data.requests || 1,
-        cost: data.cost,
-        operation: data.operation
-      };
-
-      // Store in R2 using the logging endpoint
-      await fetch('/api/usage/log', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ date: today, entry })
-      });
-
-    } catch (error) {
-      console.warn(`Failed to log ${service} usage:`, error);
-    }
+    await costLedger.record({
+      service,
+      operation: data.operation,
+      source: 'UsageTracker',
+      tokens: data.tokens,
+      requests: data.requests || 1,
+      cost: data.cost
+    });
   }
 
   // Get usage statistics from R2 storage
-  static async getUsageStats(): Promise<{
-    daily: Record<string, { tokens?: number; requests: number; cost: number }>;
-    monthly: Record<string, { tokens?: number; requests: number; cost: number }>;
-    lastUpdated: string;
-  }> {
+  static async getUsageStats(): Promise<UsageStats> {
     try {
       const response = await fetch('/api/usage/stats');
       const data = await response.json();
@@ -71,32 +37,12 @@ export class UsageTracker {
         return data.stats;
       }
       
-      return this.createEmptyStats();
+      return createEmptyUsageStats();
     } catch (error) {
       console.warn('Failed to fetch usage stats:', error);
-      return this.createEmptyStats();
+      return createEmptyUsageStats();
     }
   }
-
-  private static createEmptyStats() {
-    return {
-      daily: {
-        openai: { tokens: 0, requests: 0, cost: 0 },
-        anthropic: { tokens: 0, requests: 0, cost: 0 },
-        elevenlabs: { requests: 0, cost: 0 },
-        heygen: { requests: 0, cost: 0 },
-        googleCloud: { requests: 0, cost: 0 }
-      },
-      monthly: {
-        openai: { tokens: 0, requests: 0, cost: 0 },
-        anthropic: { tokens: 0, requests: 0, cost: 0 },
-        elevenlabs: { requests: 0, cost: 0 },
-        heygen: { requests: 0, cost: 0 },
-        googleCloud: { requests: 0, cost: 0 }
-      },
-      lastUpdated: new Date().toISOString()
-    };
-  }
 }
 
 // Usage examples for when you generate content:
@@ -0,0 +1,117 @@
+// Attribution
+// Credits the Reddit post a video was made from: a small "r/subreddit •
+// u/author" overlay on the timeline, the source metadata stored with the
+// finished video, and a description block to paste when uploading.
+
+import { AttributionSettings, RedditStory, StorySource } from '../types/reddit-automation';
+
+export const DEFAULT_ATTRIBUTION_SETTINGS: AttributionSettings = {
+  enabled: true,
+  template: 'r/{subreddit} • u/{author}',
+  position: 'topLeft',
+  durationSeconds: null,
+  fontSize: 36
+};
+
+const REDDIT_ORIGIN = 'https://www.reddit.com';
+
+/**
+ * Defaults overlaid with a request's settings; false turns the overlay off
+ */
+export function resolveAttributionSettings(input?: Partial<AttributionSettings> | false | null): AttributionSettings {
+  if (input === false) return { ...DEFAULT_ATTRIBUTION_SETTINGS, enabled: false };
+  return { ...DEFAULT_ATTRIBUTION_SETTINGS, ...(input || {}) };
+}
+
+/**
+ * Source metadata for a story. Scraped stories carry the permalink and
+ * author; older or hand-picked ones fall back to the story URL.
+ */
+export function getStorySource(story: RedditStory): StorySource {
+  const permalink = story.permalink
+    ? `${REDDIT_ORIGIN}${story.permalink.startsWith('/') ? '' : '/'}${story.permalink}`
+    : story.url.replace(/^https?:\/\/(?:www\.|old\.)?reddit\.com/, REDDIT_ORIGIN);
+
+  return {
+    platform: 'reddit',
+    post_id: story.id,
+    subreddit: story.subreddit,
+    author: story.author && story.author !== '[deleted]' ? story.author : null,
+    permalink,
+    scraped_at: story.scraped_at || null
+  };
+}
+
+/**
+ * Overlay text from the template. Parts (separated by " • ") that mention
+ * an unknown value are dropped, so a missing author leaves "r/subreddit".
+ */
+export function formatAttribution(source: StorySource, template: string = DEFAULT_ATTRIBUTION_SETTINGS.template): string {
+  const values: Record<string, string | null> = { subreddit: source.subreddit, author: source.author };
+
+  return template
+    .split(' • ')
+    .filter(part => Array.from(part.matchAll(/\{(\w+)\}/g)).every(match => values[match[1]]))
+    .map(part => part.replace(/\{(\w+)\}/g, (_placeholder, key) => values[key] || ''))
+    .join(' • ')
+    .trim();
+}
+
+/**
+ * Shotstack track with the credit overlay, or null when it's turned off.
+ * Tracks render top-first, so put this before the video track.
+ */
+export function buildAttributionTrack(source: StorySource, totalDuration: number, settings: AttributionSettings = DEFAULT_ATTRIBUTION_SETTINGS) {
+  const text = formatAttribution(source, settings.template);
+  if (!settings.enabled || !text || totalDuration <= 0) return null;
+
+  const length = settings.durationSeconds ? Math.min(settings.durationSeconds, totalDuration) : totalDuration;
+  return {
+    clips: [{
+      asset: {
+        type: 'html',
+        html: `<p>${escapeHtml(text)}</p>`,
+        css: `p { font-family: Arial; font-size: ${settings.fontSize}px; font-weight: bold; color: #ffffff; background: rgba(0,0,0,0.5); padding: 8px 14px; }`,
+        width: Math.round(text.length * settings.fontSize * 0.6 + 40),
+        height: Math.round(settings.fontSize * 1.4 + 16)
+      },
+      start: 0,
+      length,
+      position: settings.position,
+      offset: settings.position.startsWith('top') ? { y: -0.04 } : { y: 0.04 }
+    }]
+  };
+}
+
+/**
+ * Upload description with the source link and credit, ready to paste. A
+ * soundtrack whose license asks for attribution is credited too.
+ */
+export function buildUploadDescription(
+  story: RedditStory,
+  source: StorySource = getStorySource(story),
+  musicCredit?: string
+): string {
+  const credit = source.author
+    ? `Story by u/${source.author} on r/${source.subreddit}`
+    : `Story from r/${source.subreddit}`;
+  const subredditTag = source.subreddit.replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+
+  return [
+    story.title,
+    '',
+    `${credit}: ${source.permalink}`,
+    'All credit to the original poster. Names and personal details may have been changed.',
+    ...(musicCredit ? [`Music: ${musicCredit}`] : []),
+    '',
+    `#reddit #redditstories${subredditTag ? ` #${subredditTag}` : ''}`
+  ].join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,291 @@
+// Background Library
+// Gameplay and "satisfying" clips uploaded once to R2 and reused behind
+// every narration, instead of uploading a raw video per render. Videos live
+// under backgrounds/{id}.mp4 (served by functions/api/backgrounds/[id]/video.js);
+// their duration, resolution and tags are kept in one LedgerStorage index,
+// updated with compare-and-swap like the category settings.
+//
+// At render time a clip is picked by id or at random by tag, started at a
+// random offset that leaves room for the whole narration, and followed by
+// further matching clips (or itself again) when the narration is longer.
+
+import {
+  BackgroundClip,
+  BackgroundSegment,
+  BackgroundSelection,
+  BackgroundSource
+} from '../types/reddit-automation';
+import { LedgerStorage, R2BucketBinding, R2BucketLedgerStorage, casUpdate } from '../usage/ledger-storage';
+import { getMp4Metadata, Mp4MetadataError } from './mp4-metadata';
+
+export class BackgroundLibraryError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'BackgroundLibraryError';
+  }
+}
+
+// Structural subset of the Workers R2Bucket binding for the video files
+export interface BackgroundBucketBinding {
+  put(key: string, value: ArrayBuffer | Uint8Array, options?: { httpMetadata?: { contentType?: string } }): Promise<unknown>;
+  delete(key: string): Promise<unknown>;
+}
+
+export interface NewBackgroundClip {
+  name: string;
+  tags?: string[];
+  video: ArrayBuffer | Uint8Array;
+}
+
+interface LibraryState {
+  clips: BackgroundClip[];
+  updatedAt: number;
+}
+
+const MAX_CLIPS = 200;
+const MAX_CLIP_BYTES = 100 * 1024 * 1024; // Pages Functions request body limit
+const MIN_CLIP_SECONDS = 3;
+const TAG_PATTERN = /^[a-z0-9][a-z0-9 _-]{0,31}$/;
+
+export class BackgroundLibrary {
+  constructor(
+    private storage: LedgerStorage,
+    private bucket: BackgroundBucketBinding,
+    private publicBaseUrl: string | null,
+    private key: string = 'config/backgrounds.json'
+  ) {}
+
+  /**
+   * Every clip, optionally only those with any of the tags
+   */
+  async list(tags: string[] = []): Promise<BackgroundClip[]> {
+    const existing = await this.storage.read(this.key);
+    const clips = existing ? (JSON.parse(existing.body) as LibraryState).clips : [];
+    const wanted = normalizeTags(tags);
+    return wanted.length ? clips.filter(clip => clip.tags.some(tag => wanted.includes(tag))) : clips;
+  }
+
+  async get(id: string): Promise<BackgroundClip | null> {
+    return (await this.list()).find(clip => clip.id === id) || null;
+  }
+
+  /**
+   * Store a clip's video and index it. Duration and resolution come from
+   * the MP4 itself.
+   */
+  async add(input: NewBackgroundClip): Promise<BackgroundClip> {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > 80) {
+      throw new BackgroundLibraryError('name is required (up to 80 characters)');
+    }
+    const size = input.video.byteLength;
+    if (size === 0 || size > MAX_CLIP_BYTES) {
+      throw new BackgroundLibraryError(`The video must be between 1 byte and ${MAX_CLIP_BYTES / 1024 / 1024}MB`, 413);
+    }
+
+    let metadata;
+    try {
+      metadata = getMp4Metadata(input.video);
+    } catch (error) {
+      if (error instanceof Mp4MetadataError) throw new BackgroundLibraryError(`Unreadable video: ${error.message}`, 415);
+      throw error;
+    }
+    if (metadata.duration < MIN_CLIP_SECONDS) {
+      throw new BackgroundLibraryError(`Background clips must be at least ${MIN_CLIP_SECONDS} seconds long`);
+    }
+
+    const clip: BackgroundClip = {
+      id: `bg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      duration: metadata.duration,
+      width: metadata.width,
+      height: metadata.height,
+      tags: validateTags(input.tags || []),
+      size,
+      uploadedAt: new Date().toISOString()
+    };
+
+    if ((await this.list()).length >= MAX_CLIPS) {
+      throw new BackgroundLibraryError(`The library holds at most ${MAX_CLIPS} clips`, 409);
+    }
+    await this.bucket.put(videoKey(clip.id), input.video, { httpMetadata: { contentType: 'video/mp4' } });
+    await this.transact(clips => {
+      clips.push(clip);
+    });
+    return clip;
+  }
+
+  /**
+   * Rename or retag a clip
+   */
+  async update(id: string, changes: { name?: unknown; tags?: unknown }): Promise<BackgroundClip> {
+    let updated: BackgroundClip | null = null;
+    await this.transact(clips => {
+      const clip = clips.find(existing => existing.id === id);
+      if (!clip) {
+        throw new BackgroundLibraryError(`Background clip ${id} not found`, 404);
+      }
+      if (changes.name !== undefined) {
+        const name = String(changes.name).trim();
+        if (!name || name.length > 80) {
+          throw new BackgroundLibraryError('name is required (up to 80 characters)');
+        }
+        clip.name = name;
+      }
+      if (changes.tags !== undefined) {
+        if (!Array.isArray(changes.tags)) {
+          throw new BackgroundLibraryError('tags must be a list');
+        }
+        clip.tags = validateTags(changes.tags);
+      }
+      updated = { ...clip };
+    });
+    return updated!;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.transact(clips => {
+      const index = clips.findIndex(clip => clip.id === id);
+      if (index < 0) {
+        throw new BackgroundLibraryError(`Background clip ${id} not found`, 404);
+      }
+      clips.splice(index, 1);
+    });
+    await this.bucket.delete(videoKey(id));
+  }
+
+  /**
+   * Clips for a render, in play order, as URLs the renderer can fetch
+   */
+  async choose(selection: BackgroundSelection = {}, random: () => number = Math.random): Promise<BackgroundSource[]> {
+    if (!this.publicBaseUrl) {
+      throw new BackgroundLibraryError('No public base URL to serve background clips from (PUBLIC_BASE_URL)', 500);
+    }
+    const base = this.publicBaseUrl.replace(/\/$/, '');
+    return selectBackgroundClips(await this.list(), selection, random).map(clip => ({
+      clipId: clip.id,
+      src: `${base}/api/backgrounds/${clip.id}/video`,
+      duration: clip.duration
+    }));
+  }
+
+  private async transact(mutate: (clips: BackgroundClip[]) => void): Promise<void> {
+    await casUpdate(this.storage, this.key, (): LibraryState => ({ clips: [], updatedAt: 0 }), state => {
+      mutate(state.clips);
+      state.updatedAt = Date.now();
+    });
+  }
+}
+
+/**
+ * The clips a selection allows, shuffled, with a requested clip on its own.
+ * Throws BackgroundLibraryError (404) when nothing matches.
+ */
+export function selectBackgroundClips(
+  clips: BackgroundClip[],
+  selection: BackgroundSelection = {},
+  random: () => number = Math.random
+): BackgroundClip[] {
+  if (selection.clipId) {
+    const clip = clips.find(candidate => candidate.id === selection.clipId);
+    if (!clip) {
+      throw new BackgroundLibraryError(`Background clip ${selection.clipId} not found`, 404);
+    }
+    return [clip];
+  }
+
+  const tags = normalizeTags(selection.tags || []);
+  const matching = tags.length ? clips.filter(clip => clip.tags.some(tag => tags.includes(tag))) : clips.slice();
+  if (matching.length === 0) {
+    throw new BackgroundLibraryError(tags.length ? `No background clips tagged ${tags.join(', ')}` : 'The background library is empty', 404);
+  }
+
+  // Fisher-Yates
+  for (let i = matching.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [matching[i], matching[j]] = [matching[j], matching[i]];
+  }
+  return matching;
+}
+
+/**
+ * Cover `duration` seconds with the sources in order, starting over from
+ * the first when they run out. The clip that finishes the video starts at a
+ * random offset with enough footage left to reach the end.
+ */
+export function planBackgroundSegments(
+  sources: BackgroundSource[],
+  duration: number,
+  random: () => number = Math.random
+): BackgroundSegment[] {
+  if (sources.length === 0 || sources.some(source => !(source.duration > 0))) {
+    throw new BackgroundLibraryError('No usable background clips to plan with', 404);
+  }
+
+  const segments: BackgroundSegment[] = [];
+  let start = 0;
+  for (let i = 0; duration - start > 0.001; i++) {
+    const source = sources[i % sources.length];
+    const remaining = round(duration - start);
+
+    if (source.duration >= remaining) {
+      const trim = round(random() * (source.duration - remaining));
+      segments.push({ clipId: source.clipId, src: source.src, trim, start, length: remaining });
+      break;
+    }
+    segments.push({ clipId: source.clipId, src: source.src, trim: 0, start, length: source.duration });
+    start = round(start + source.duration);
+  }
+  return segments;
+}
+
+/**
+ * Shotstack track for planned segments. Library clips are muted - they're
+ * picked for the footage, and the narration has to stay audible.
+ */
+export function buildBackgroundTrack(segments: BackgroundSegment[]) {
+  return {
+    clips: segments.map(segment => ({
+      asset: { type: 'video', src: segment.src, trim: segment.trim, volume: 0 },
+      start: segment.start,
+      length: segment.length,
+      fit: 'cover'
+    }))
+  };
+}
+
+function validateTags(input: unknown[]): string[] {
+  const tags = normalizeTags(input);
+  const invalid = tags.find(tag => !TAG_PATTERN.test(tag));
+  if (invalid !== undefined) {
+    throw new BackgroundLibraryError(`Invalid tag "${invalid}" - use up to 32 letters, digits, spaces or dashes`);
+  }
+  if (tags.length > 20) {
+    throw new BackgroundLibraryError('A clip can have at most 20 tags');
+  }
+  return tags;
+}
+
+function normalizeTags(input: unknown[]): string[] {
+  return Array.from(new Set(input.map(tag => String(tag).trim().toLowerCase()).filter(Boolean)));
+}
+
+function videoKey(id: string): string {
+  return `backgrounds/${id}.mp4`;
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Library for Pages Functions bindings, or null without an R2 bucket to
+ * keep the videos in
+ */
+export function createBackgroundLibrary(
+  env: { R2_BUCKET?: BackgroundBucketBinding & R2BucketBinding; PUBLIC_BASE_URL?: string },
+  origin?: string
+): BackgroundLibrary | null {
+  if (!env.R2_BUCKET) return null;
+  return new BackgroundLibrary(new R2BucketLedgerStorage(env.R2_BUCKET), env.R2_BUCKET, env.PUBLIC_BASE_URL || origin || null);
+}
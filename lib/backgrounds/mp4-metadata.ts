@@ -0,0 +1,114 @@
+// MP4 Metadata
+// Background clips are cut to fit the narration, so the library needs each
+// clip's length, and its resolution to tell portrait gameplay from landscape.
+// Workers can't run ffprobe, so read them from the MP4 boxes: mvhd for the
+// duration, and the video track's tkhd for its size and rotation.
+
+export class Mp4MetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Mp4MetadataError';
+  }
+}
+
+export interface Mp4Metadata {
+  duration: number; // Seconds
+  width: number; // As displayed, i.e. after the track's rotation
+  height: number;
+}
+
+interface Box {
+  type: string;
+  start: number; // Offset of the box's content
+  end: number;
+}
+
+// Boxes whose content is just more boxes, on the way to mvhd, tkhd and hdlr
+const CONTAINERS = new Set(['moov', 'trak', 'mdia']);
+
+/**
+ * Duration and display size of an MP4/MOV file
+ */
+export function getMp4Metadata(data: ArrayBuffer | Uint8Array): Mp4Metadata {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const moov = readBoxes(view, 0, bytes.length).find(box => box.type === 'moov');
+  if (!moov) {
+    throw new Mp4MetadataError('Not an MP4 file (no moov box)');
+  }
+  const moovBoxes = readBoxes(view, moov.start, moov.end);
+
+  const mvhd = moovBoxes.find(box => box.type === 'mvhd');
+  if (!mvhd) {
+    throw new Mp4MetadataError('MP4 has no movie header');
+  }
+  const version = view.getUint8(mvhd.start);
+  const timescale = view.getUint32(mvhd.start + (version === 1 ? 20 : 12));
+  const units = version === 1 ? readUint64(view, mvhd.start + 24) : view.getUint32(mvhd.start + 16);
+  if (!timescale || !units) {
+    throw new Mp4MetadataError('MP4 has no duration');
+  }
+
+  for (const trak of moovBoxes.filter(box => box.type === 'trak')) {
+    const trakBoxes = readBoxes(view, trak.start, trak.end);
+    const mdia = trakBoxes.find(box => box.type === 'mdia');
+    const hdlr = mdia && readBoxes(view, mdia.start, mdia.end).find(box => box.type === 'hdlr');
+    const tkhd = trakBoxes.find(box => box.type === 'tkhd');
+    if (!tkhd || !hdlr || ascii(view, hdlr.start + 8, 4) !== 'vide') continue;
+
+    // After the version-dependent times: reserved, layer, group, volume, then the matrix and 16.16 size
+    const matrixStart = tkhd.start + (view.getUint8(tkhd.start) === 1 ? 52 : 40);
+    const width = view.getUint32(matrixStart + 36) / 65536;
+    const height = view.getUint32(matrixStart + 40) / 65536;
+    // A zero "a" entry means the track is rotated a quarter turn (phone recordings)
+    const rotated = view.getInt32(matrixStart) === 0;
+
+    return {
+      duration: Math.round((units / timescale) * 1000) / 1000,
+      width: Math.round(rotated ? height : width),
+      height: Math.round(rotated ? width : height)
+    };
+  }
+
+  throw new Mp4MetadataError('MP4 has no video track');
+}
+
+function readBoxes(view: DataView, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = ascii(view, offset + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = readUint64(view, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset; // Runs to the end of the file
+    }
+    if (size < header || offset + size > end) {
+      // Truncated upload: stop rather than read past the end
+      if (CONTAINERS.has(type)) throw new Mp4MetadataError(`MP4 ${type} box is truncated`);
+      break;
+    }
+
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+}
+
+function ascii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    text += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return text;
+}
@@ -0,0 +1,102 @@
+// Caption Cues
+// Groups timed words into short on-screen phrases and writes them out as
+// SRT and WebVTT. The same cues drive the burned-in captions, so the
+// sidecar files and the rendered video always agree.
+
+import type { WordTiming } from '../types/reddit-automation';
+import { roundSeconds } from './caption-timing';
+
+export interface CaptionCue {
+  index: number; // 1-based, as in SRT
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export interface CueOptions {
+  maxWordsPerLine?: number;
+  maxLinesPerCue?: number;
+  maxGapSeconds?: number; // A longer silence always starts a new cue
+  minCueSeconds?: number; // Short cues are held on screen until the next one starts
+}
+
+export const DEFAULT_MAX_WORDS_PER_LINE = 4;
+
+const PUNCTUATION_ONLY = /^[.,!?;:…'"()\[\]\-–—]*$/;
+
+/**
+ * Group words into cues of at most maxWordsPerLine x maxLinesPerCue words.
+ * A cue also ends at a sentence boundary or a pause, so phrases read naturally.
+ */
+export function groupCaptionCues(allWords: WordTiming[], options: CueOptions = {}): CaptionCue[] {
+  const maxWordsPerLine = Math.max(1, Math.floor(options.maxWordsPerLine ?? DEFAULT_MAX_WORDS_PER_LINE));
+  const maxLinesPerCue = Math.max(1, Math.floor(options.maxLinesPerCue ?? 1));
+  const maxGapSeconds = options.maxGapSeconds ?? 0.6;
+  const minCueSeconds = options.minCueSeconds ?? 0.5;
+
+  // Pause markers like "..." are spoken as silence, not shown
+  const words = allWords.filter(word => !PUNCTUATION_ONLY.test(word.text));
+  const groups: WordTiming[][] = [];
+  let group: WordTiming[] = [];
+
+  words.forEach((word, i) => {
+    const previous = words[i - 1];
+    const full = group.length >= maxWordsPerLine * maxLinesPerCue;
+    const paused = previous && word.start - previous.end > maxGapSeconds;
+    const sentenceEnded = previous && /[.!?]["')\]]*$/.test(previous.text);
+
+    if (group.length > 0 && (full || paused || sentenceEnded)) {
+      groups.push(group);
+      group = [];
+    }
+    group.push(word);
+  });
+  if (group.length > 0) groups.push(group);
+
+  return groups.map((cueWords, i) => {
+    const start = cueWords[0].start;
+    const nextStart = groups[i + 1]?.[0].start ?? Infinity;
+    const spokenEnd = cueWords[cueWords.length - 1].end;
+    const end = Math.min(Math.max(spokenEnd, start + minCueSeconds), nextStart);
+
+    const lines: string[] = [];
+    for (let j = 0; j < cueWords.length; j += maxWordsPerLine) {
+      lines.push(cueWords.slice(j, j + maxWordsPerLine).map(word => word.text).join(' '));
+    }
+    return { index: i + 1, start, end: roundSeconds(end), lines };
+  });
+}
+
+/**
+ * SubRip (.srt) captions
+ */
+export function toSrt(cues: CaptionCue[]): string {
+  return cues
+    .map(cue => `${cue.index}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+/**
+ * WebVTT (.vtt) captions
+ */
+export function toWebVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map(cue => `${cue.index}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.lines.map(escapeVttText).join('\n')}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+// HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, width: number = 2) => value.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,43 @@
+// Caption Files
+// SRT and WebVTT sidecars stored in R2 next to the rendered videos and
+// served by functions/api/captions/[name].js.
+
+import type { CaptionFiles, CaptionTimingSource } from '../types/reddit-automation';
+import { CaptionCue, toSrt, toWebVtt } from './caption-cues';
+
+// Structural subset of the Workers R2Bucket binding
+export interface CaptionBucketBinding {
+  put(key: string, value: string, options?: { httpMetadata?: { contentType?: string } }): Promise<unknown>;
+}
+
+const CONTENT_TYPES = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8'
+};
+
+/**
+ * Write captions/{name}.srt and captions/{name}.vtt. Rewriting the same
+ * name replaces the files, so a resumed render doesn't leave stale captions.
+ */
+export async function storeCaptionFiles(
+  bucket: CaptionBucketBinding,
+  name: string,
+  cues: CaptionCue[],
+  source: CaptionTimingSource
+): Promise<CaptionFiles> {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid caption file name: ${name}`);
+  }
+
+  await Promise.all([
+    bucket.put(`captions/${name}.srt`, toSrt(cues), { httpMetadata: { contentType: CONTENT_TYPES.srt } }),
+    bucket.put(`captions/${name}.vtt`, toWebVtt(cues), { httpMetadata: { contentType: CONTENT_TYPES.vtt } })
+  ]);
+
+  return {
+    srtUrl: `/api/captions/${name}.srt`,
+    vttUrl: `/api/captions/${name}.vtt`,
+    source,
+    cueCount: cues.length
+  };
+}
@@ -0,0 +1,104 @@
+// Caption Timing
+// Word timings for captions come from one of two places: the character
+// alignment ElevenLabs returns alongside the audio, or - for TTS providers
+// that only return audio - an estimate that spreads the words over the
+// measured audio duration in proportion to how long each takes to say.
+
+import type { WordTiming } from '../types/reddit-automation';
+
+// ElevenLabs /with-timestamps alignment: one entry per character of the input
+export interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+export interface EstimateOptions {
+  durationSeconds?: number; // Measured audio length - the words are spread over it
+  wordsPerSecond?: number; // Used when the duration is unknown
+  offset?: number; // Added to every timing (start of this chunk in the narration)
+}
+
+// Typical narration pace, ~150 words per minute
+export const DEFAULT_WORDS_PER_SECOND = 2.5;
+
+// Relative pause lengths, in syllables, after punctuation
+const CLAUSE_PAUSE = 1;
+const SENTENCE_PAUSE = 2;
+
+/**
+ * Words with their start/end from a character alignment. Characters are
+ * grouped on whitespace, so punctuation stays attached to its word.
+ */
+export function wordsFromAlignment(alignment: CharacterAlignment, offset: number = 0): WordTiming[] {
+  const { characters, character_start_times_seconds: starts, character_end_times_seconds: ends } = alignment;
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+
+  characters.forEach((character, i) => {
+    if (/\s/.test(character)) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { text: '', start: roundSeconds(offset + starts[i]), end: 0 };
+      words.push(current);
+    }
+    current.text += character;
+    current.end = roundSeconds(offset + ends[i]);
+  });
+
+  return words;
+}
+
+/**
+ * Estimated word timings for text with no alignment. Each word gets time in
+ * proportion to its syllable count, and punctuation adds a pause, so long
+ * words and sentence ends don't pull the captions ahead of the voice.
+ */
+export function estimateWordTimings(text: string, options: EstimateOptions = {}): WordTiming[] {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return [];
+
+  const offset = options.offset ?? 0;
+  const durationSeconds = options.durationSeconds && options.durationSeconds > 0
+    ? options.durationSeconds
+    : tokens.length / (options.wordsPerSecond ?? DEFAULT_WORDS_PER_SECOND);
+
+  const weights = tokens.map(token => ({ speech: countSyllables(token), pause: pauseAfter(token) }));
+  // The pause after the last word is silence at the end of the clip, not speech
+  weights[weights.length - 1].pause = 0;
+  const totalWeight = weights.reduce((total, weight) => total + weight.speech + weight.pause, 0);
+  const secondsPerUnit = durationSeconds / totalWeight;
+
+  let cursor = 0;
+  return tokens.map((token, i) => {
+    const start = cursor;
+    const end = start + weights[i].speech * secondsPerUnit;
+    cursor = end + weights[i].pause * secondsPerUnit;
+    return { text: token, start: roundSeconds(offset + start), end: roundSeconds(offset + end) };
+  });
+}
+
+/**
+ * Rough syllable count - vowel groups, minus a silent trailing "e". Numbers
+ * count one per digit since they are read out.
+ */
+export function countSyllables(token: string): number {
+  const word = token.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (!word) return 1;
+  if (/^\d+$/.test(word)) return Math.min(word.length, 6);
+
+  const groups = word.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 0);
+}
+
+function pauseAfter(token: string): number {
+  if (/[.!?]["')\]]*$/.test(token)) return SENTENCE_PAUSE;
+  if (/[,;:—-]["')\]]*$/.test(token)) return CLAUSE_PAUSE;
+  return 0;
+}
+
+export function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
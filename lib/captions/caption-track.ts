@@ -0,0 +1,48 @@
+// Caption Track
+// Burned-in captions: one Shotstack HTML clip per cue, shown exactly while
+// its words are spoken.
+
+import { CaptionCue } from './caption-cues';
+import { roundSeconds } from './caption-timing';
+
+export interface CaptionTrackOptions {
+  width?: number;
+  height?: number;
+  fontSize?: number;
+}
+
+/**
+ * Shotstack track with a clip per cue. Tracks render top-first, so put this
+ * before the video track.
+ */
+export function buildCaptionTrack(cues: CaptionCue[], options: CaptionTrackOptions = {}) {
+  const width = options.width ?? 1920;
+  const fontSize = options.fontSize ?? 48;
+  const height = options.height ?? Math.round(fontSize * 1.4 * Math.max(1, ...cues.map(cue => cue.lines.length)) + 20);
+
+  return {
+    clips: cues
+      .filter(cue => cue.end > cue.start)
+      .map(cue => ({
+        asset: {
+          type: 'html',
+          html: `<p>${cue.lines.map(escapeHtml).join('<br>')}</p>`,
+          css: `p { font-family: Arial; font-size: ${fontSize}px; font-weight: bold; color: #ffffff; text-align: center; background: rgba(0,0,0,0.8); padding: 10px; }`,
+          width,
+          height
+        },
+        start: cue.start,
+        length: roundSeconds(cue.end - cue.start),
+        position: 'bottom',
+        offset: { y: 0.1 }
+      }))
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,220 @@
+// Story Categories
+// The categories the scraper, the cache warmup and the dashboard offer, each
+// with its subreddits, filters, default voice and soundtrack moods. They're
+// edited from the settings screen and kept as one LedgerStorage object,
+// updated with compare-and-swap; until the first edit the built-in five are
+// used.
+
+import { StoryCategory, StoryFilterSettings } from '../types/reddit-automation';
+import { isTTSProviderName } from '../tts/tts-registry';
+import { LedgerStorage, MemoryLedgerStorage, R2BucketBinding, R2BucketLedgerStorage, casUpdate } from '../usage/ledger-storage';
+
+export class CategoryConfigError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'CategoryConfigError';
+  }
+}
+
+export const DEFAULT_STORY_FILTERS: StoryFilterSettings = {
+  minUpvotes: 500,
+  minUpvoteRatio: 0.8,
+  minLength: 200,
+  maxLength: 3000,
+  bannedWords: [] // Unsafe content is caught by the content-safety rules; these are extra, per category
+};
+
+const defaultCategory = (
+  id: string,
+  name: string,
+  description: string,
+  subreddits: string[],
+  voiceId: string,
+  musicMoods: string[]
+): StoryCategory => ({
+  id,
+  name,
+  description,
+  subreddits,
+  filters: { ...DEFAULT_STORY_FILTERS, bannedWords: [] },
+  defaultVoice: { provider: 'shotstack', voiceId },
+  musicMoods
+});
+
+export const DEFAULT_STORY_CATEGORIES: StoryCategory[] = [
+  defaultCategory('drama', 'Drama', 'Relationship conflicts and life drama', ['AmItheAsshole', 'relationship_advice', 'tifu', 'confessions'], 'Joanna', ['dramatic', 'emotional']),
+  defaultCategory('horror', 'Horror', 'Scary and unsettling experiences', ['nosleep', 'LetsNotMeet', 'creepyencounters', 'missing411'], 'Brian', ['dark ambient', 'suspense']),
+  defaultCategory('revenge', 'Revenge', 'Justice and payback stories', ['MaliciousCompliance', 'pettyrevenge', 'ProRevenge', 'NuclearRevenge'], 'Matthew', ['tense', 'driving']),
+  defaultCategory('wholesome', 'Wholesome', 'Heartwarming and positive stories', ['MadeMeSmile', 'wholesomememes', 'HumansBeingBros'], 'Amy', ['upbeat', 'uplifting']),
+  defaultCategory('mystery', 'Mystery', 'Unexplained and intriguing events', ['mystery', 'UnresolvedMysteries', 'RBI', 'whatisthisthing'], 'Matthew', ['mysterious', 'suspense'])
+];
+
+interface CategoryState {
+  categories: StoryCategory[];
+  updatedAt: number;
+}
+
+const MAX_CATEGORIES = 50;
+const CATEGORY_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+// Reddit's own rule for subreddit names
+const SUBREDDIT_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_]{1,20}$/;
+
+export class CategoryStore {
+  constructor(private storage: LedgerStorage, private key: string = 'config/categories.json') {}
+
+  /**
+   * Configured categories, or the built-in ones if none have been saved
+   */
+  async list(): Promise<StoryCategory[]> {
+    const existing = await this.storage.read(this.key);
+    return existing ? (JSON.parse(existing.body) as CategoryState).categories : cloneDefaults();
+  }
+
+  async get(id: string): Promise<StoryCategory | null> {
+    return (await this.list()).find(category => category.id === id) || null;
+  }
+
+  /**
+   * Create or replace a category. Input is validated and normalized first.
+   */
+  async save(input: unknown): Promise<StoryCategory> {
+    const category = { ...validateCategory(input), updatedAt: new Date().toISOString() };
+
+    await this.transact(categories => {
+      const index = categories.findIndex(existing => existing.id === category.id);
+      if (index >= 0) {
+        categories[index] = category;
+      } else if (categories.length >= MAX_CATEGORIES) {
+        throw new CategoryConfigError(`At most ${MAX_CATEGORIES} categories can be configured`);
+      } else {
+        categories.push(category);
+      }
+    });
+    return category;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.transact(categories => {
+      const index = categories.findIndex(category => category.id === id);
+      if (index < 0) {
+        throw new CategoryConfigError(`Category ${id} not found`, 404);
+      }
+      if (categories.length === 1) {
+        throw new CategoryConfigError('At least one category is required', 409);
+      }
+      categories.splice(index, 1);
+    });
+  }
+
+  /**
+   * Back to the built-in categories
+   */
+  async reset(): Promise<StoryCategory[]> {
+    await this.transact(categories => {
+      categories.splice(0, categories.length, ...cloneDefaults());
+    });
+    return this.list();
+  }
+
+  private async transact(mutate: (categories: StoryCategory[]) => void): Promise<void> {
+    await casUpdate(this.storage, this.key, (): CategoryState => ({ categories: cloneDefaults(), updatedAt: 0 }), state => {
+      mutate(state.categories);
+      state.updatedAt = Date.now();
+    });
+  }
+}
+
+/**
+ * A category from user input, with filter defaults filled in. Throws
+ * CategoryConfigError naming the first invalid field.
+ */
+export function validateCategory(input: unknown): StoryCategory {
+  if (!input || typeof input !== 'object') {
+    throw new CategoryConfigError('Category must be an object');
+  }
+  const raw = input as Record<string, any>;
+
+  const id = typeof raw.id === 'string' ? raw.id.trim().toLowerCase() : '';
+  if (!CATEGORY_ID_PATTERN.test(id)) {
+    throw new CategoryConfigError('id must be 1-32 lowercase letters, digits or dashes');
+  }
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name || name.length > 60) {
+    throw new CategoryConfigError('name is required (up to 60 characters)');
+  }
+
+  const subreddits = Array.isArray(raw.subreddits)
+    ? Array.from(new Set(raw.subreddits.map((subreddit: unknown) => String(subreddit).trim().replace(/^\/?r\//i, ''))))
+    : [];
+  if (subreddits.length === 0 || subreddits.length > 20) {
+    throw new CategoryConfigError('subreddits must list 1-20 subreddits');
+  }
+  const invalid = subreddits.find(subreddit => !SUBREDDIT_PATTERN.test(subreddit));
+  if (invalid !== undefined) {
+    throw new CategoryConfigError(`Invalid subreddit name: ${invalid}`);
+  }
+
+  const filters = { ...DEFAULT_STORY_FILTERS, ...(raw.filters || {}) };
+  const numberIn = (field: keyof StoryFilterSettings, min: number, max: number) => {
+    const value = Number(filters[field]);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new CategoryConfigError(`filters.${field} must be between ${min} and ${max}`);
+    }
+    return value;
+  };
+  const normalizedFilters: StoryFilterSettings = {
+    minUpvotes: numberIn('minUpvotes', 0, 1000000),
+    minUpvoteRatio: numberIn('minUpvoteRatio', 0, 1),
+    minLength: numberIn('minLength', 0, 40000),
+    maxLength: numberIn('maxLength', 1, 40000),
+    bannedWords: Array.isArray(filters.bannedWords)
+      ? Array.from(new Set(filters.bannedWords.map((word: unknown) => String(word).trim().toLowerCase()).filter(Boolean)))
+      : []
+  };
+  if (normalizedFilters.minLength >= normalizedFilters.maxLength) {
+    throw new CategoryConfigError('filters.minLength must be below filters.maxLength');
+  }
+
+  let defaultVoice: StoryCategory['defaultVoice'];
+  if (raw.defaultVoice) {
+    if (!isTTSProviderName(raw.defaultVoice.provider) || typeof raw.defaultVoice.voiceId !== 'string' || !raw.defaultVoice.voiceId) {
+      throw new CategoryConfigError('defaultVoice needs a known provider and a voiceId');
+    }
+    defaultVoice = { provider: raw.defaultVoice.provider, voiceId: raw.defaultVoice.voiceId };
+  }
+
+  // Matched against music library moods when picking a soundtrack
+  const musicMoods = Array.isArray(raw.musicMoods)
+    ? Array.from(new Set(raw.musicMoods.map((mood: unknown) => String(mood).trim().toLowerCase()).filter(Boolean))) as string[]
+    : [];
+  if (musicMoods.length > 10 || musicMoods.some(mood => mood.length > 32)) {
+    throw new CategoryConfigError('musicMoods must list at most 10 moods of up to 32 characters');
+  }
+
+  return {
+    id,
+    name,
+    description: typeof raw.description === 'string' ? raw.description.trim() : '',
+    subreddits,
+    filters: normalizedFilters,
+    defaultVoice,
+    musicMoods
+  };
+}
+
+function cloneDefaults(): StoryCategory[] {
+  return JSON.parse(JSON.stringify(DEFAULT_STORY_CATEGORIES));
+}
+
+// Per-isolate fallback so an unbound deployment can still edit categories
+let isolateStore: CategoryStore | null = null;
+
+export function createCategoryStore(env: { R2_BUCKET?: R2BucketBinding }): CategoryStore {
+  if (env.R2_BUCKET) return new CategoryStore(new R2BucketLedgerStorage(env.R2_BUCKET));
+
+  if (!isolateStore) {
+    console.warn('⚠️ No R2_BUCKET binding - category settings are per-instance only');
+    isolateStore = new CategoryStore(new MemoryLedgerStorage());
+  }
+  return isolateStore;
+}
@@ -0,0 +1,217 @@
+// Content History
+// Which Reddit stories have already become videos. Entries are keyed by
+// story id and by a fingerprint of the normalized story text, so the same
+// post reposted under another id (often in another subreddit, with an
+// "EDIT:" tacked on) is still recognised. The whole history is one
+// LedgerStorage object updated with compare-and-swap, like the job queue.
+
+import { PreviousStoryUse, RedditStory, WorkflowState } from '../types/reddit-automation';
+import { LedgerStorage, R2BucketBinding, R2BucketLedgerStorage, casUpdate } from '../usage/ledger-storage';
+
+export class ContentHistoryError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'ContentHistoryError';
+  }
+}
+
+export interface ContentHistoryEntry {
+  storyId: string;
+  fingerprint: string;
+  title: string;
+  subreddit: string;
+  category: RedditStory['category'];
+  url: string;
+  status: PreviousStoryUse['status'];
+  workflowId?: string;
+  videoId?: string;
+  videoUrl?: string;
+  recordedAt: string; // When the story was picked for a video (ISO)
+  completedAt?: string;
+}
+
+export interface ContentHistoryQuery {
+  from?: string; // ISO date or timestamp, inclusive
+  to?: string; // Inclusive; a bare date covers the whole day
+  category?: RedditStory['category'];
+  status?: PreviousStoryUse['status'];
+  limit?: number;
+}
+
+interface ContentHistoryState {
+  entries: ContentHistoryEntry[];
+  updatedAt: number;
+}
+
+// When a story has several uses, findUsed reports the highest ranked
+const STATUS_RANK: Record<PreviousStoryUse['status'], number> = { failed: 0, generating: 1, blocked: 2, completed: 3 };
+
+
+export class ContentHistory {
+  constructor(private storage: LedgerStorage, private key: string = 'content-history/stories.json') {}
+
+  /**
+   * Record that `story` was picked for a video, or that its video finished.
+   * One entry per story and workflow; recording again updates it.
+   */
+  async record(
+    story: RedditStory,
+    use: { status: PreviousStoryUse['status']; workflowId?: string; videoId?: string; videoUrl?: string }
+  ): Promise<ContentHistoryEntry> {
+    const fingerprint = await fingerprintStory(story);
+    const now = new Date().toISOString();
+
+    return this.transact(state => {
+      let entry = state.entries.find(existing => existing.storyId === story.id && existing.workflowId === use.workflowId);
+      if (!entry) {
+        entry = {
+          storyId: story.id,
+          fingerprint,
+          title: story.title,
+          subreddit: story.subreddit,
+          category: story.category,
+          url: story.url,
+          status: use.status,
+          workflowId: use.workflowId,
+          recordedAt: now
+        };
+        state.entries.push(entry);
+      }
+
+      entry.status = use.status;
+      if (use.videoId) entry.videoId = use.videoId;
+      if (use.videoUrl) entry.videoUrl = use.videoUrl;
+      if (use.status === 'completed' && !entry.completedAt) entry.completedAt = now;
+      return { ...entry };
+    });
+  }
+
+  /**
+   * Release the claim a failed workflow holds on its story so the story can
+   * be picked again. A content-safety block keeps it, as 'blocked'.
+   */
+  async recordFailure(story: RedditStory, workflow: Pick<WorkflowState, 'workflowId' | 'safety'>): Promise<ContentHistoryEntry> {
+    const blocked = Object.values(workflow.safety || {}).some(verdict => verdict?.decision === 'block');
+    return this.record(story, { status: blocked ? 'blocked' : 'failed', workflowId: workflow.workflowId });
+  }
+
+  /**
+   * Earlier uses of each story, by id or by text fingerprint. Stories with
+   * no history, or only failed uses, are left out of the map.
+   */
+  async findUsed(stories: RedditStory[]): Promise<Map<string, PreviousStoryUse>> {
+    const { entries } = await this.load();
+    const byId = new Map<string, ContentHistoryEntry>();
+    const byFingerprint = new Map<string, ContentHistoryEntry>();
+    // Completed uses win over blocked ones, and those over in-progress ones
+    const uses = entries.filter(entry => entry.status !== 'failed');
+    for (const entry of uses.sort((a, b) => STATUS_RANK[a.status] - STATUS_RANK[b.status])) {
+      byId.set(entry.storyId, entry);
+      byFingerprint.set(entry.fingerprint, entry);
+    }
+
+    const used = new Map<string, PreviousStoryUse>();
+    for (const story of stories) {
+      const idMatch = byId.get(story.id);
+      const entry = idMatch || byFingerprint.get(await fingerprintStory(story));
+      if (!entry) continue;
+
+      used.set(story.id, {
+        match: idMatch ? 'story_id' : 'fingerprint',
+        status: entry.status,
+        story_id: entry.storyId,
+        workflow_id: entry.workflowId,
+        video_id: entry.videoId,
+        used_at: entry.completedAt || entry.recordedAt
+      });
+    }
+    return used;
+  }
+
+  /**
+   * Drop used stories, or with `includeUsed` keep them flagged with
+   * `previously_used`
+   */
+  async screenStories(stories: RedditStory[], options: { includeUsed?: boolean } = {}): Promise<{ stories: RedditStory[]; usedCount: number }> {
+    const used = await this.findUsed(stories);
+    const screened = options.includeUsed
+      ? stories.map(story => (used.has(story.id) ? { ...story, previously_used: used.get(story.id) } : story))
+      : stories.filter(story => !used.has(story.id));
+    return { stories: screened, usedCount: used.size };
+  }
+
+  /**
+   * History entries, newest first
+   */
+  async query(query: ContentHistoryQuery = {}): Promise<ContentHistoryEntry[]> {
+    const from = query.from ? parseBound(query.from, 'start') : -Infinity;
+    const to = query.to ? parseBound(query.to, 'end') : Infinity;
+    const { entries } = await this.load();
+
+    return entries
+      .filter(entry => {
+        const time = Date.parse(entry.recordedAt);
+        return time >= from && time <= to &&
+          (!query.category || entry.category === query.category) &&
+          (!query.status || entry.status === query.status);
+      })
+      .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))
+      .slice(0, query.limit ?? 100);
+  }
+
+  private async load(): Promise<ContentHistoryState> {
+    const existing = await this.storage.read(this.key);
+    return existing ? JSON.parse(existing.body) : { entries: [], updatedAt: 0 };
+  }
+
+  private async transact<T>(mutate: (state: ContentHistoryState) => T): Promise<T> {
+    const { result } = await casUpdate(this.storage, this.key, (): ContentHistoryState => ({ entries: [], updatedAt: 0 }), state => {
+      const result = mutate(state);
+      state.updatedAt = Date.now();
+      return result;
+    });
+    return result;
+  }
+}
+
+/**
+ * Story text reduced to lowercase words: accents, URLs, "EDIT:"/"UPDATE:"
+ * addenda and TL;DR lines removed, so light edits between reposts don't
+ * change it
+ */
+export function normalizeStoryText(text: string): string {
+  let normalized = text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+  const addendum = normalized.search(/\n\s*\**\s*(edit|update|eta)\s*\d*\s*\**\s*[:\-]/i);
+  if (addendum > 0) normalized = normalized.slice(0, addendum);
+
+  return normalized
+    .toLowerCase()
+    .replace(/https?:\/\/\S+|www\.\S+/g, ' ')
+    .replace(/^\s*tl;?\s*dr.*$/gm, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export async function fingerprintStory(story: Pick<RedditStory, 'title' | 'content'>): Promise<string> {
+  const text = normalizeStoryText(story.content) || normalizeStoryText(story.title);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest).subarray(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function parseBound(value: string, edge: 'start' | 'end'): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ContentHistoryError(`Invalid date: ${value}`);
+  }
+  // A bare YYYY-MM-DD upper bound includes that whole day
+  return edge === 'end' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+/**
+ * History for Pages Functions, persisted in the R2 bucket. Null without the
+ * binding - callers carry on without duplicate checks.
+ */
+export function createContentHistory(env: { R2_BUCKET?: R2BucketBinding }): ContentHistory | null {
+  return env.R2_BUCKET ? new ContentHistory(new R2BucketLedgerStorage(env.R2_BUCKET)) : null;
+}
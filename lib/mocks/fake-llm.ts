@@ -0,0 +1,118 @@
+// Fake LLM API for local testing of the LLM router
+// Speaks just enough of the Anthropic Messages API (POST /v1/messages) and
+// the OpenAI Chat Completions API (POST /v1/chat/completions) for the SDKs:
+// replies echo the model name, and usage counts roughly one token per four
+// characters. Models can be made to fail (e.g. 429 with a Retry-After, or
+// 529 overloaded) for a number of calls to exercise fallback chains. Point
+// the SDKs at it with baseURL <url> (Anthropic) and <url>/v1 (OpenAI).
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface FakeLLMOptions {
+  port?: number; // 0 (default) picks a free port
+  latencyMs?: number; // Delay before every reply
+}
+
+export interface FakeLLMCall {
+  api: 'anthropic' | 'openai';
+  model: string;
+  prompt: string;
+  status: number;
+}
+
+export interface FakeLLM {
+  url: string;
+  calls: FakeLLMCall[];
+  // Answer the model's next `times` calls (default: until cleared) with an error status
+  failModel: (model: string, status: number, times?: number) => void;
+  clearFailures: () => void;
+  close: () => Promise<void>;
+}
+
+const countTokens = (text: string) => Math.max(1, Math.ceil(text.length / 4));
+
+export async function startFakeLLM(options: FakeLLMOptions = {}): Promise<FakeLLM> {
+  const calls: FakeLLMCall[] = [];
+  const failures = new Map<string, { status: number; remaining: number }>();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    };
+
+    const api = path === '/v1/messages' ? 'anthropic' : path === '/v1/chat/completions' ? 'openai' : null;
+    if (req.method !== 'POST' || !api) {
+      return send(404, { error: { type: 'not_found_error', message: `No fake route for ${req.method} ${path}` } });
+    }
+
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+    const body = raw ? JSON.parse(raw) : {};
+    const model: string = body.model || 'unknown';
+    const prompt = (body.messages || []).map((message: any) => typeof message.content === 'string' ? message.content : '').join('\n');
+
+    if (options.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, options.latencyMs));
+    }
+
+    const failure = failures.get(model);
+    if (failure) {
+      if (--failure.remaining <= 0) failures.delete(model);
+      calls.push({ api, model, prompt, status: failure.status });
+      const type = failure.status === 429 ? 'rate_limit_error' : failure.status === 529 ? 'overloaded_error' : 'api_error';
+      return send(failure.status, api === 'anthropic'
+        ? { type: 'error', error: { type, message: `Fake ${type} for ${model}` } }
+        : { error: { type, message: `Fake ${type} for ${model}`, code: null } },
+      failure.status === 429 ? { 'retry-after': '30' } : {});
+    }
+
+    calls.push({ api, model, prompt, status: 200 });
+    const reply = `Fake ${model} reply: ${prompt.slice(-80).trim()}`;
+    const inputTokens = countTokens(prompt);
+    const outputTokens = countTokens(reply);
+
+    if (api === 'anthropic') {
+      return send(200, {
+        id: `msg_fake_${calls.length}`,
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: [{ type: 'text', text: reply }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: inputTokens, output_tokens: outputTokens }
+      });
+    }
+    return send(200, {
+      id: `chatcmpl-fake-${calls.length}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens }
+    });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { type: 'api_error', message: error.message } }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    calls,
+    failModel: (model, status, times = Infinity) => {
+      failures.set(model, { status, remaining: times });
+    },
+    clearFailures: () => failures.clear(),
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
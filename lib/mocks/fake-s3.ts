@@ -0,0 +1,280 @@
+// Fake S3 API for local testing of R2 storage
+// Speaks the slice of the S3 API that S3ObjectStorage uses - object
+// PUT/GET/HEAD/DELETE, ListObjectsV2 and multipart uploads - on path-style
+// URLs (/<bucket>/<key>), backed by any ObjectStorage (in-memory by
+// default). Every request must carry a valid SigV4 Authorization header or
+// presigned query for the fake's credentials, so signing bugs fail here the
+// way they would against R2. Point R2 storage at it with R2_ENDPOINT=<url>.
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { MemoryObjectStorage, ObjectInfo, ObjectStorage, ObjectStorageError, PutObjectOptions } from '../storage/object-storage';
+import { parseAmzDate, presignUrl, sha256Hex, signRequest, SigV4Credentials, UNSIGNED_PAYLOAD } from '../storage/sigv4';
+
+export interface FakeS3Options {
+  port?: number; // 0 (default) picks a free port
+  bucket?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  storage?: ObjectStorage;
+}
+
+export type FakeS3Operation = 'put' | 'get' | 'head' | 'delete' | 'list' | 'multipart' | 'unauthorized';
+
+export interface FakeS3 {
+  url: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  storage: ObjectStorage;
+  calls: Record<FakeS3Operation, number>;
+  close: () => Promise<void>;
+}
+
+// Signatures older than this are rejected, like S3's clock-skew check
+const MAX_SKEW_MS = 15 * 60 * 1000;
+
+export async function startFakeS3(options: FakeS3Options = {}): Promise<FakeS3> {
+  const bucket = options.bucket || 'ghosttrace-output';
+  const credentials: SigV4Credentials = {
+    accessKeyId: options.accessKeyId || 'fake-access-key',
+    secretAccessKey: options.secretAccessKey || 'fake-secret-key',
+    region: 'auto',
+    service: 's3'
+  };
+  const storage = options.storage || new MemoryObjectStorage();
+  const calls: Record<FakeS3Operation, number> = { put: 0, get: 0, head: 0, delete: 0, list: 0, multipart: 0, unauthorized: 0 };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const method = req.method || 'GET';
+    const body = await readBody(req);
+
+    const sendXml = (status: number, xml: string, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/xml', ...headers });
+      res.end(method === 'HEAD' ? undefined : `<?xml version="1.0" encoding="UTF-8"?>${xml}`);
+    };
+    const sendError = (status: number, code: string, message: string) =>
+      sendXml(status, `<Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error>`);
+
+    const authError = await verifyRequest(req, url, body, credentials);
+    if (authError) {
+      calls.unauthorized++;
+      return sendError(403, 'SignatureDoesNotMatch', authError);
+    }
+
+    const segments = url.pathname.split('/').slice(1);
+    if (segments[0] !== bucket) {
+      return sendError(404, 'NoSuchBucket', `No bucket ${segments[0]}`);
+    }
+    const key = decodeURIComponent(segments.slice(1).join('/'));
+    const query = url.searchParams;
+
+    try {
+      if (!key) {
+        if (method !== 'GET' || query.get('list-type') !== '2') {
+          return sendError(405, 'MethodNotAllowed', `${method} on the bucket is not supported`);
+        }
+        calls.list++;
+        const result = await storage.list({
+          prefix: query.get('prefix') || undefined,
+          limit: Number(query.get('max-keys') || 1000),
+          cursor: query.get('continuation-token') || undefined
+        });
+        return sendXml(200,
+          '<ListBucketResult>' +
+          `<Name>${bucket}</Name><Prefix>${escapeXml(query.get('prefix') || '')}</Prefix><KeyCount>${result.objects.length}</KeyCount>` +
+          `<IsTruncated>${Boolean(result.cursor)}</IsTruncated>` +
+          (result.cursor ? `<NextContinuationToken>${escapeXml(result.cursor)}</NextContinuationToken>` : '') +
+          result.objects.map(object =>
+            `<Contents><Key>${escapeXml(object.key)}</Key><LastModified>${object.lastModified}</LastModified>` +
+            `<ETag>${escapeXml(object.etag)}</ETag><Size>${object.size}</Size></Contents>`
+          ).join('') +
+          '</ListBucketResult>'
+        );
+      }
+
+      if (method === 'POST' && query.has('uploads')) {
+        calls.multipart++;
+        const uploadId = await storage.createMultipartUpload(key, putOptions(req));
+        return sendXml(200, `<InitiateMultipartUploadResult><Bucket>${bucket}</Bucket><Key>${escapeXml(key)}</Key><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`);
+      }
+
+      if (method === 'PUT' && query.has('uploadId')) {
+        calls.multipart++;
+        const etag = await storage.uploadPart(key, query.get('uploadId')!, Number(query.get('partNumber')), body);
+        res.writeHead(200, { ETag: etag }).end();
+        return;
+      }
+
+      if (method === 'POST' && query.has('uploadId')) {
+        calls.multipart++;
+        const xml = Buffer.from(body).toString('utf8');
+        const parts = Array.from(xml.matchAll(/<Part>([\s\S]*?)<\/Part>/g), match => ({
+          partNumber: Number(/<PartNumber>(\d+)<\/PartNumber>/.exec(match[1])?.[1]),
+          etag: unescapeXml(/<ETag>([\s\S]*?)<\/ETag>/.exec(match[1])?.[1] || '')
+        }));
+        const info = await storage.completeMultipartUpload(key, query.get('uploadId')!, parts);
+        return sendXml(200, `<CompleteMultipartUploadResult><Bucket>${bucket}</Bucket><Key>${escapeXml(key)}</Key><ETag>${escapeXml(info.etag)}</ETag></CompleteMultipartUploadResult>`);
+      }
+
+      if (method === 'DELETE' && query.has('uploadId')) {
+        calls.multipart++;
+        await storage.abortMultipartUpload(key, query.get('uploadId')!);
+        res.writeHead(204).end();
+        return;
+      }
+
+      if (method === 'PUT') {
+        calls.put++;
+        const info = await storage.put(key, body, putOptions(req));
+        res.writeHead(200, { ETag: info.etag }).end();
+        return;
+      }
+
+      if (method === 'HEAD') {
+        calls.head++;
+        const info = await storage.head(key);
+        if (!info) return sendError(404, 'NoSuchKey', `No object ${key}`);
+        res.writeHead(200, objectHeaders(info)).end();
+        return;
+      }
+
+      if (method === 'GET') {
+        calls.get++;
+        const object = await storage.get(key);
+        if (!object) return sendError(404, 'NoSuchKey', `No object ${key}`);
+        res.writeHead(200, objectHeaders(object));
+        res.end(Buffer.from(object.body));
+        return;
+      }
+
+      if (method === 'DELETE') {
+        calls.delete++;
+        await storage.delete(key);
+        res.writeHead(204).end();
+        return;
+      }
+
+      sendError(405, 'MethodNotAllowed', `${method} is not supported`);
+    } catch (error) {
+      if (error instanceof ObjectStorageError) {
+        return sendError(error.status, error.code || 'InternalError', error.message);
+      }
+      throw error;
+    }
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      res.writeHead(500, { 'Content-Type': 'application/xml' });
+      res.end(`<Error><Code>InternalError</Code><Message>${escapeXml(error.message)}</Message></Error>`);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    bucket,
+    accessKeyId: credentials.accessKeyId,
+    secretAccessKey: credentials.secretAccessKey,
+    storage,
+    calls,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+/**
+ * Re-derives the signature from the request as received. Returns why the
+ * request is rejected, or null when it is correctly signed.
+ */
+async function verifyRequest(req: IncomingMessage, url: URL, body: Uint8Array, credentials: SigV4Credentials): Promise<string | null> {
+  const presigned = url.searchParams.get('X-Amz-Signature');
+  if (presigned) {
+    const amzDate = url.searchParams.get('X-Amz-Date') || '';
+    const expires = Number(url.searchParams.get('X-Amz-Expires') || 0);
+    const date = safeParseAmzDate(amzDate);
+    if (!date) return 'Invalid X-Amz-Date';
+    if (Date.now() > date.getTime() + expires * 1000) return 'Request has expired';
+    if (url.searchParams.get('X-Amz-Credential')?.split('/')[0] !== credentials.accessKeyId) return 'Unknown access key';
+
+    const unsigned = new URL(url.toString());
+    for (const name of Array.from(unsigned.searchParams.keys())) {
+      if (name.startsWith('X-Amz-')) unsigned.searchParams.delete(name);
+    }
+    const expected = new URL(await presignUrl(req.method || 'GET', unsigned, credentials, expires, date)).searchParams.get('X-Amz-Signature');
+    return expected === presigned ? null : 'Presigned URL signature does not match';
+  }
+
+  const authorization = req.headers.authorization || '';
+  const match = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/[^,]+, SignedHeaders=([^,]+), Signature=([0-9a-f]+)$/.exec(authorization);
+  if (!match) return 'Missing or malformed Authorization header';
+  if (match[1] !== credentials.accessKeyId) return 'Unknown access key';
+
+  const date = safeParseAmzDate(header(req, 'x-amz-date'));
+  if (!date) return 'Invalid x-amz-date';
+  if (Math.abs(Date.now() - date.getTime()) > MAX_SKEW_MS) return 'Request time too skewed';
+
+  const payloadHash = header(req, 'x-amz-content-sha256');
+  if (payloadHash !== UNSIGNED_PAYLOAD && payloadHash !== (await sha256Hex(body))) {
+    return 'x-amz-content-sha256 does not match the body';
+  }
+
+  const automatic = new Set(['host', 'x-amz-date', 'x-amz-content-sha256']);
+  const signedHeaders: Record<string, string> = {};
+  for (const name of match[2].split(';')) {
+    if (!automatic.has(name)) signedHeaders[name] = header(req, name);
+  }
+  const expected = await signRequest({ method: req.method || 'GET', url, headers: signedHeaders, payloadHash }, credentials, date);
+  return expected.authorization === authorization ? null : 'Signature does not match';
+}
+
+function putOptions(req: IncomingMessage): PutObjectOptions {
+  const metadata: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (name.startsWith('x-amz-meta-') && typeof value === 'string') metadata[name.slice('x-amz-meta-'.length)] = value;
+  }
+  return {
+    contentType: header(req, 'content-type') || undefined,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+  };
+}
+
+function objectHeaders(object: ObjectInfo): Record<string, string | number> {
+  const headers: Record<string, string | number> = {
+    'Content-Length': object.size,
+    'Content-Type': object.contentType || 'application/octet-stream',
+    ETag: object.etag,
+    'Last-Modified': new Date(object.lastModified).toUTCString()
+  };
+  for (const [name, value] of Object.entries(object.metadata || {})) headers[`x-amz-meta-${name}`] = value;
+  return headers;
+}
+
+function header(req: IncomingMessage, name: string): string {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value.join(',') : value || '';
+}
+
+function safeParseAmzDate(amzDate: string): Date | null {
+  try {
+    return parseAmzDate(amzDate);
+  } catch {
+    return null;
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<Uint8Array> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
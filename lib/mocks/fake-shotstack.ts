@@ -0,0 +1,229 @@
+// Fake Shotstack API for local testing of the render webhook and workflows
+// Speaks just enough of the Edit API for ShotstackService: POST /render
+// queues a render, GET /render/:id reports it, and finished renders are
+// served from /videos/:id.mp4. After `renderDelayMs` the render settles and
+// the fake POSTs a callback to the render's `callback` URL like Shotstack
+// does. Point ShotstackService at it with SHOTSTACK_API_URL=<url>/stage.
+// The Ingest (signed upload) and Create (TTS asset) calls made by the video
+// workflow are faked too, with per-operation call counts and one-shot
+// failures for resume testing.
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface FakeShotstackOptions {
+  port?: number; // 0 (default) picks a free port
+  renderDelayMs?: number;
+  failRenders?: boolean;
+  dropCallbacks?: boolean; // Settle renders without calling back, to exercise polling
+}
+
+export interface FakeRender {
+  id: string;
+  status: 'queued' | 'rendering' | 'done' | 'failed';
+  callback?: string;
+  timeline?: any; // As submitted, for checking clip layout
+  callbackStatus?: number; // HTTP status the callback receiver answered with
+  createdAt: string;
+}
+
+export type FakeOperation = 'upload' | 'speech' | 'render';
+
+export interface FakeShotstack {
+  url: string;
+  renders: Map<string, FakeRender>;
+  calls: Record<FakeOperation, number>;
+  failNext: (operation: FakeOperation) => void; // Answer the next call with a 500
+  close: () => Promise<void>;
+}
+
+// Not a playable MP4, just bytes with the right magic for download checks
+const FAKE_VIDEO = Buffer.concat([Buffer.from('\0\0\0\x18ftypmp42'), Buffer.alloc(1024, 1)]);
+
+// Speech is "spoken" at this rate, so audio length tracks the text
+export const FAKE_SPEECH_CHARS_PER_SECOND = 15;
+
+// Silent 128kbps/44.1kHz MPEG-1 Layer III frames: 417 bytes, 1152 samples each
+const MP3_FRAME = Buffer.concat([Buffer.from([0xff, 0xfb, 0x90, 0x00]), Buffer.alloc(413)]);
+const MP3_FRAME_SECONDS = 1152 / 44100;
+
+function fakeSpeechAudio(text: string): Buffer {
+  const seconds = text.length / FAKE_SPEECH_CHARS_PER_SECOND;
+  return Buffer.concat(Array(Math.max(1, Math.round(seconds / MP3_FRAME_SECONDS))).fill(MP3_FRAME));
+}
+
+export async function startFakeShotstack(options: FakeShotstackOptions = {}): Promise<FakeShotstack> {
+  const renderDelayMs = options.renderDelayMs ?? 200;
+  const renders = new Map<string, FakeRender>();
+  const assets = new Map<string, { status: 'queued' | 'done'; text: string }>();
+  const calls: Record<FakeOperation, number> = { upload: 0, speech: 0, render: 0 };
+  const failing = new Set<FakeOperation>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let baseUrl = '';
+
+  const renderResponse = (render: FakeRender) => ({
+    id: render.id,
+    owner: 'fake-owner',
+    status: render.status,
+    progress: render.status === 'done' ? 100 : render.status === 'rendering' ? 50 : 0,
+    url: render.status === 'done' ? `${baseUrl}/videos/${render.id}.mp4` : undefined,
+    error: render.status === 'failed' ? 'Fake render failure' : undefined,
+    created: render.createdAt
+  });
+
+  const settle = async (render: FakeRender) => {
+    render.status = options.failRenders ? 'failed' : 'done';
+    if (!render.callback || options.dropCallbacks) return;
+
+    try {
+      const response = await fetch(render.callback, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'edit',
+          action: 'render',
+          id: render.id,
+          owner: 'fake-owner',
+          status: render.status,
+          url: render.status === 'done' ? `${baseUrl}/videos/${render.id}.mp4` : null,
+          error: render.status === 'failed' ? 'Fake render failure' : null,
+          completed: new Date().toISOString()
+        })
+      });
+      render.callbackStatus = response.status;
+    } catch (error) {
+      console.error(`Fake Shotstack callback for ${render.id} failed:`, error);
+    }
+  };
+
+  const schedule = (fn: () => void, delayMs: number) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      fn();
+    }, delayMs);
+    timers.add(timer);
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    const failOnce = (operation: FakeOperation) => {
+      calls[operation]++;
+      if (!failing.delete(operation)) return false;
+      send(500, { success: false, message: `Fake ${operation} failure` });
+      return true;
+    };
+
+    if (req.method === 'POST' && /\/ingest\/[\w]+\/upload$/.test(path)) {
+      if (failOnce('upload')) return;
+      const id = `src-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      return send(200, { data: { type: 'upload', id, attributes: { id, url: `${baseUrl}/uploads/${id}`, expires: new Date(Date.now() + 3600000).toISOString() } } });
+    }
+
+    if (req.method === 'PUT' && path.startsWith('/uploads/')) {
+      for await (const _chunk of req) {
+        // Drain the upload
+      }
+      res.writeHead(200).end();
+      return;
+    }
+
+    if (req.method === 'POST' && /\/create\/[\w]+\/assets$/.test(path)) {
+      if (failOnce('speech')) return;
+      let raw = '';
+      for await (const chunk of req) raw += chunk;
+      const text: string = JSON.parse(raw || '{}').options?.text || '';
+
+      const id = `asset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const asset = { status: 'queued' as 'queued' | 'done', text };
+      assets.set(id, asset);
+      schedule(() => (asset.status = 'done'), renderDelayMs / 2);
+      return send(201, { data: { type: 'asset', id, attributes: { id, provider: 'shotstack', status: 'queued' } } });
+    }
+
+    const assetStatus = path.match(/\/create\/[\w]+\/assets\/([\w-]+)$/);
+    if (req.method === 'GET' && assetStatus) {
+      const asset = assets.get(assetStatus[1]);
+      if (!asset) return send(404, { success: false, message: 'Asset not found' });
+      const url = asset.status === 'done' ? `${baseUrl}/assets/${assetStatus[1]}.mp3` : undefined;
+      return send(200, { data: { type: 'asset', id: assetStatus[1], attributes: { id: assetStatus[1], status: asset.status, url } } });
+    }
+
+    const audio = path.match(/^\/assets\/([\w-]+)\.mp3$/);
+    if (req.method === 'GET' && audio) {
+      const asset = assets.get(audio[1]);
+      if (asset?.status !== 'done') return send(404, { success: false, message: 'Not found' });
+      const body = fakeSpeechAudio(asset.text);
+      res.writeHead(200, { 'Content-Type': 'audio/mpeg', 'Content-Length': body.length });
+      res.end(body);
+      return;
+    }
+
+    const video = path.match(/^\/videos\/([\w-]+)\.mp4$/);
+    if (req.method === 'GET' && video) {
+      if (renders.get(video[1])?.status !== 'done') return send(404, { success: false, message: 'Not found' });
+      res.writeHead(200, { 'Content-Type': 'video/mp4', 'Content-Length': FAKE_VIDEO.length });
+      res.end(FAKE_VIDEO);
+      return;
+    }
+
+    if (req.method === 'POST' && path.endsWith('/render')) {
+      if (failOnce('render')) return;
+      let raw = '';
+      for await (const chunk of req) raw += chunk;
+      const body = raw ? JSON.parse(raw) : {};
+
+      const render: FakeRender = {
+        id: `fake-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        status: 'queued',
+        callback: body.callback,
+        timeline: body.timeline,
+        createdAt: new Date().toISOString()
+      };
+      renders.set(render.id, render);
+
+      schedule(() => {
+        if (render.status === 'queued') render.status = 'rendering';
+      }, renderDelayMs / 2);
+      schedule(() => settle(render), renderDelayMs);
+
+      return send(201, { success: true, message: 'Created', response: { id: render.id, message: 'Render Successfully Queued' } });
+    }
+
+    const status = path.match(/\/render\/([\w-]+)$/);
+    if (req.method === 'GET' && status) {
+      const render = renders.get(status[1]);
+      if (!render) return send(404, { success: false, message: 'Render not found' });
+      return send(200, { success: true, message: 'OK', response: renderResponse(render) });
+    }
+
+    send(404, { success: false, message: `No fake route for ${req.method} ${path}` });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: false, message: error.message }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    renders,
+    calls,
+    failNext: operation => {
+      failing.add(operation);
+    },
+    close: () => {
+      timers.forEach(timer => clearTimeout(timer));
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
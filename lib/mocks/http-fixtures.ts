@@ -0,0 +1,268 @@
+// HTTP Record/Replay Fixtures
+// Swaps the global fetch for one that records real API responses to a
+// "cassette" file once, then replays them offline. Every external client
+// (ShotstackService, ClaudeService, ElevenLabsService, RedditScraperService,
+// the R2 S3 clients) calls the global fetch, so one cassette covers a whole
+// workflow. Requests to localhost (the fakes in lib/mocks) always go through.
+//
+// Mode comes from HTTP_FIXTURES:
+//   replay (default) - answer from the cassette; an unrecorded request throws
+//   record           - call the real APIs and save what they answer
+//   live             - leave fetch alone
+//
+// Secrets and account details never reach the cassette: the values of the
+// credential variables in FIXTURE_ENV are written as {{NAME}} in URLs,
+// bodies and headers, and request headers aren't stored at all. On replay
+// the ones set while recording get placeholder values (so clients think
+// they're configured), the rest and any local endpoint overrides are unset,
+// and {{NAME}} is swapped back the same way, so requests match whatever the
+// developer's own environment holds.
+// Requests are matched on method, URL (ignoring presigned-URL query
+// parameters) and body; when the body differs (it carries a timestamp or a
+// presigned URL) the next unused exchange for that method and URL is used,
+// and repeated polls reuse the last one.
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+export type HttpFixtureMode = 'replay' | 'record' | 'live';
+
+export interface HttpFixtureOptions {
+  mode?: HttpFixtureMode; // Default: HTTP_FIXTURES, else 'replay'
+  dir?: string; // Default: HTTP_FIXTURES_DIR, else ./fixtures/http
+}
+
+export interface RecordedExchange {
+  request: {
+    method: string;
+    url: string;
+    bodyHash: string | null;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    encoding: 'utf8' | 'base64';
+  };
+}
+
+export interface Cassette {
+  name: string;
+  recordedAt: string;
+  note?: string;
+  env: string[]; // FIXTURE_ENV variables that were set while recording
+  exchanges: RecordedExchange[];
+}
+
+export interface HttpFixtures {
+  mode: HttpFixtureMode;
+  cassette: Cassette;
+  unused: () => RecordedExchange[]; // Replay: recorded exchanges nothing asked for
+  stop: () => Promise<void>; // Restores fetch; in record mode, writes the cassette
+}
+
+export class HttpFixtureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HttpFixtureError';
+  }
+}
+
+// Credentials and account details the clients read from the environment
+export const FIXTURE_ENV = [
+  'ANTHROPIC_API_KEY',
+  'OPENAI_API_KEY',
+  'ELEVENLABS_API_KEY',
+  'SHOTSTACK_SANDBOX_API_KEY',
+  'SHOTSTACK_PRODUCTION_API_KEY',
+  'CLOUDFLARE_ACCOUNT_ID',
+  'R2_ACCESS_KEY_ID',
+  'R2_SECRET_ACCESS_KEY',
+  'R2_BUCKET_NAME',
+  'R2_PUBLIC_DOMAIN'
+];
+
+// Point clients at local servers instead; unset on replay
+const ENDPOINT_OVERRIDES = ['ANTHROPIC_BASE_URL', 'R2_ENDPOINT', 'SHOTSTACK_API_URL'];
+
+// Change on every request, so they can't take part in matching
+const VOLATILE_QUERY_PARAMS = /^(x-amz-(date|signature|credential|security-token|expires)|signature|expires)$/i;
+// Not worth keeping, and some identify the account
+const DROPPED_RESPONSE_HEADERS = ['set-cookie', 'date', 'content-length', 'content-encoding', 'transfer-encoding', 'connection', 'keep-alive'];
+const TEXT_CONTENT_TYPE = /^(text\/|application\/(json|xml|javascript|x-www-form-urlencoded))|\+json|\+xml/i;
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Route the global fetch through the named cassette until stop() is called
+ */
+export function startHttpFixtures(name: string, options: HttpFixtureOptions = {}): HttpFixtures {
+  const mode = options.mode || parseMode(process.env.HTTP_FIXTURES);
+  const file = join(options.dir || process.env.HTTP_FIXTURES_DIR || join(process.cwd(), 'fixtures', 'http'), `${name}.json`);
+  const originalFetch = globalThis.fetch;
+
+  if (mode === 'live') {
+    return { mode, cassette: emptyCassette(name), unused: () => [], stop: async () => {} };
+  }
+
+  let cassette: Cassette;
+  const savedEnv = new Map<string, string | undefined>();
+  if (mode === 'replay') {
+    if (!existsSync(file)) {
+      throw new HttpFixtureError(`No cassette at ${file} - record one with HTTP_FIXTURES=record`);
+    }
+    cassette = JSON.parse(readFileSync(file, 'utf8'));
+    // Clients only call out when they think they're configured
+    for (const variable of [...FIXTURE_ENV, ...ENDPOINT_OVERRIDES]) {
+      savedEnv.set(variable, process.env[variable]);
+      if (cassette.env.includes(variable)) {
+        process.env[variable] = placeholderFor(variable);
+      } else {
+        delete process.env[variable];
+      }
+    }
+  } else {
+    cassette = emptyCassette(name);
+    cassette.env = FIXTURE_ENV.filter(variable => process.env[variable]);
+  }
+
+  const used = new Set<RecordedExchange>();
+  let lastMatch = new Map<string, RecordedExchange>();
+
+  const fixtureFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    if (LOCAL_HOSTS.includes(url.hostname)) {
+      return originalFetch(input, init);
+    }
+
+    const body = request.body ? new Uint8Array(await request.clone().arrayBuffer()) : null;
+    const key = {
+      method: request.method,
+      url: normalizeUrl(redact(request.url)),
+      bodyHash: body && body.length ? hashBody(redact(new TextDecoder().decode(body))) : null
+    };
+
+    if (mode === 'record') {
+      const response = await originalFetch(input, init);
+      cassette.exchanges.push({ request: key, response: await serializeResponse(response.clone()) });
+      return response;
+    }
+
+    const sameEndpoint = (exchange: RecordedExchange) => exchange.request.method === key.method && exchange.request.url === key.url;
+    const endpoint = `${key.method} ${key.url}`;
+    const match =
+      cassette.exchanges.find(exchange => !used.has(exchange) && sameEndpoint(exchange) && exchange.request.bodyHash === key.bodyHash) ||
+      cassette.exchanges.find(exchange => !used.has(exchange) && sameEndpoint(exchange)) ||
+      lastMatch.get(endpoint);
+    if (!match) {
+      throw new HttpFixtureError(`Cassette ${name} has no response for ${endpoint} - re-record it with HTTP_FIXTURES=record`);
+    }
+
+    used.add(match);
+    lastMatch.set(endpoint, match);
+    return deserializeResponse(match.response);
+  };
+
+  globalThis.fetch = fixtureFetch as typeof fetch;
+
+  return {
+    mode,
+    cassette,
+    unused: () => cassette.exchanges.filter(exchange => !used.has(exchange)),
+    stop: async () => {
+      globalThis.fetch = originalFetch;
+      savedEnv.forEach((value, variable) => {
+        if (value === undefined) delete process.env[variable];
+        else process.env[variable] = value;
+      });
+      lastMatch = new Map();
+
+      if (mode === 'record') {
+        mkdirSync(dirname(file), { recursive: true });
+        writeFileSync(file, JSON.stringify(cassette, null, 2) + '\n');
+        console.log(`📼 Recorded ${cassette.exchanges.length} exchanges to ${file}`);
+      }
+    }
+  };
+}
+
+function parseMode(value: string | undefined): HttpFixtureMode {
+  if (!value) return 'replay';
+  if (value === 'replay' || value === 'record' || value === 'live') return value;
+  throw new HttpFixtureError(`HTTP_FIXTURES must be replay, record or live (got "${value}")`);
+}
+
+function emptyCassette(name: string): Cassette {
+  return { name, recordedAt: new Date().toISOString(), env: [], exchanges: [] };
+}
+
+// Lowercase and dash-separated so it's also valid in a hostname
+function placeholderFor(variable: string): string {
+  return `fixture-${variable.toLowerCase().replace(/_/g, '-')}`;
+}
+
+/**
+ * Credential values written as {{NAME}}. Longest first, so a value that
+ * contains another is replaced whole.
+ */
+function redact(text: string): string {
+  const values = FIXTURE_ENV
+    .map(variable => ({ variable, value: process.env[variable] }))
+    .filter((entry): entry is { variable: string; value: string } => !!entry.value && entry.value.length >= 4)
+    .sort((a, b) => b.value.length - a.value.length);
+
+  let redacted = text;
+  for (const { variable, value } of values) {
+    redacted = redacted.split(value).join(`{{${variable}}}`);
+  }
+  return redacted;
+}
+
+// {{NAME}} back to this run's value
+function restore(text: string): string {
+  return text.replace(/\{\{([A-Z0-9_]+)\}\}/g, (placeholder, variable: string) => process.env[variable] ?? placeholder);
+}
+
+function normalizeUrl(url: string): string {
+  const [base, query] = url.split('?');
+  if (!query) return base;
+  const params = query
+    .split('&')
+    .filter(param => !VOLATILE_QUERY_PARAMS.test(decodeURIComponent(param.split('=')[0])))
+    .sort();
+  return params.length ? `${base}?${params.join('&')}` : base;
+}
+
+function hashBody(body: string): string {
+  return createHash('sha256').update(body).digest('hex').slice(0, 16);
+}
+
+async function serializeResponse(response: Response): Promise<RecordedExchange['response']> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (!DROPPED_RESPONSE_HEADERS.includes(name)) headers[name] = redact(value);
+  });
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const text = TEXT_CONTENT_TYPE.test(response.headers.get('content-type') || '');
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: text ? redact(new TextDecoder().decode(bytes)) : Buffer.from(bytes).toString('base64'),
+    encoding: text ? 'utf8' : 'base64'
+  };
+}
+
+function deserializeResponse(recorded: RecordedExchange['response']): Response {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(recorded.headers)) headers[name] = restore(value);
+
+  // Null-body statuses can't be given one, even an empty one
+  const body = [204, 205, 304].includes(recorded.status)
+    ? null
+    : recorded.encoding === 'base64' ? Buffer.from(recorded.body, 'base64') : restore(recorded.body);
+  return new Response(body, { status: recorded.status, statusText: recorded.statusText, headers });
+}
@@ -0,0 +1,150 @@
+/**
+ * Per-Client LLM Rate Limits
+ * Enforces a tier's RateLimitConfig for each client before the LLM router
+ * takes a task: sliding request windows (last minute, hour and 24 hours)
+ * and a monthly spend cap. Each client's request times and spend live in one
+ * LedgerStorage object, updated with compare-and-swap, so every instance
+ * sees the same counts.
+ */
+
+import type { ClientUsageStats, RateLimitConfig } from './llm-router';
+import { LedgerStorage, casUpdate } from '../usage/ledger-storage';
+
+export type RateLimitReason = 'requests_per_minute' | 'requests_per_hour' | 'requests_per_day' | 'monthly_cost_limit';
+
+export class ClientRateLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: RateLimitReason,
+    public readonly retry_after_seconds: number,
+    public readonly status: number = 429
+  ) {
+    super(message);
+    this.name = 'ClientRateLimitError';
+  }
+}
+
+interface ClientUsageState {
+  client_id: string;
+  requests: number[]; // Request times (ms) within the last 24 hours
+  days: Record<string, { requests: number; cost: number }>; // By UTC date, current month only
+  months: Record<string, { requests: number; cost: number }>; // By UTC month
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const WINDOWS: Array<{ reason: RateLimitReason; field: keyof RateLimitConfig; window_ms: number; label: string }> = [
+  { reason: 'requests_per_minute', field: 'requests_per_minute', window_ms: MINUTE_MS, label: 'minute' },
+  { reason: 'requests_per_hour', field: 'requests_per_hour', window_ms: HOUR_MS, label: 'hour' },
+  { reason: 'requests_per_day', field: 'requests_per_day', window_ms: DAY_MS, label: '24 hours' }
+];
+
+export class ClientRateLimiter {
+  constructor(private storage: LedgerStorage, private prefix: string = 'llm/usage') {}
+
+  /**
+   * Count a request against the client's limits, or throw
+   * ClientRateLimitError saying which limit is exhausted and for how long
+   */
+  async acquire(client_id: string, tier: string, limits: RateLimitConfig, now: number = Date.now()): Promise<ClientUsageStats> {
+    const state = await this.transact(client_id, now, usage => {
+      const month = usage.months[monthOf(now)];
+      if (month && month.cost >= limits.monthly_cost_limit) {
+        const next_month = Date.UTC(new Date(now).getUTCFullYear(), new Date(now).getUTCMonth() + 1, 1);
+        throw new ClientRateLimitError(
+          `Client ${client_id} has spent $${month.cost.toFixed(2)} of the ${tier} tier's $${limits.monthly_cost_limit.toFixed(2)} monthly limit`,
+          'monthly_cost_limit',
+          Math.ceil((next_month - now) / 1000)
+        );
+      }
+
+      for (const window of WINDOWS) {
+        const limit = limits[window.field] as number;
+        const in_window = usage.requests.filter(time => time > now - window.window_ms);
+        if (in_window.length >= limit) {
+          // Frees up when the oldest request in the window ages out
+          const oldest = in_window[in_window.length - limit];
+          throw new ClientRateLimitError(
+            `Client ${client_id} reached the ${tier} tier's limit of ${limit} requests per ${window.label}`,
+            window.reason,
+            Math.max(1, Math.ceil((oldest + window.window_ms - now) / 1000))
+          );
+        }
+      }
+
+      usage.requests.push(now);
+      bucket(usage.days, dayOf(now)).requests += 1;
+      bucket(usage.months, monthOf(now)).requests += 1;
+    });
+    return toStats(state, tier, now);
+  }
+
+  /**
+   * Add the actual cost of a finished task to the client's spend
+   */
+  async recordCost(client_id: string, cost_usd: number, now: number = Date.now()): Promise<void> {
+    if (!(cost_usd > 0)) return;
+    await this.transact(client_id, now, usage => {
+      bucket(usage.days, dayOf(now)).cost += cost_usd;
+      bucket(usage.months, monthOf(now)).cost += cost_usd;
+    });
+  }
+
+  async getUsage(client_id: string, tier: string, now: number = Date.now()): Promise<ClientUsageStats> {
+    const existing = await this.storage.read(this.keyFor(client_id));
+    const state: ClientUsageState = existing ? JSON.parse(existing.body) : emptyState(client_id);
+    return toStats(state, tier, now);
+  }
+
+  private async transact(client_id: string, now: number, mutate: (usage: ClientUsageState) => void): Promise<ClientUsageState> {
+    // Running out of retries throws LedgerContentionError - not a limit being
+    // hit, so no ClientRateLimitError is reported
+    const { state } = await casUpdate(this.storage, this.keyFor(client_id), () => emptyState(client_id), usage => {
+      // Forget what no window or total needs any more
+      usage.requests = usage.requests.filter(time => time > now - DAY_MS);
+      const month = monthOf(now);
+      for (const day of Object.keys(usage.days)) {
+        if (!day.startsWith(month)) delete usage.days[day];
+      }
+      mutate(usage);
+    });
+    return state;
+  }
+
+  private keyFor(client_id: string): string {
+    return `${this.prefix}/${encodeURIComponent(client_id)}.json`;
+  }
+}
+
+function emptyState(client_id: string): ClientUsageState {
+  return { client_id, requests: [], days: {}, months: {} };
+}
+
+function bucket(totals: ClientUsageState['days'], key: string) {
+  if (!totals[key]) totals[key] = { requests: 0, cost: 0 };
+  return totals[key];
+}
+
+function toStats(state: ClientUsageState, tier: string, now: number): ClientUsageStats {
+  const day = state.days[dayOf(now)];
+  const month = state.months[monthOf(now)];
+  return {
+    client_id: state.client_id,
+    current_month: monthOf(now),
+    requests_today: day?.requests || 0,
+    requests_this_month: month?.requests || 0,
+    cost_today: day?.cost || 0,
+    cost_this_month: month?.cost || 0,
+    tier
+  };
+}
+
+function dayOf(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+function monthOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
@@ -2,8 +2,15 @@
  * ElevenLabs Voice Generation for Supplement Viral Videos
  * High-converting emotional voiceovers targeting American health pain points
  * Optimized for viral TikTok/social media content
+ *
+ * Personas and emotional tones are settings for ElevenLabsTTSProvider, which
+ * makes the API call and records its cost.
  */
 
+import type { ElevenLabsConfig } from '../types/reddit-automation'
+import { ELEVENLABS_VOICES, ElevenLabsTTSProvider } from '../tts/elevenlabs-tts'
+import { estimateSpeechCost, TTSCapabilities } from '../tts/tts-provider'
+
 export enum VoicePersona {
   CONCERNED_FEMALE = 'concerned_female',        // Health-conscious woman sharing discovery
   AUTHORITATIVE_MALE = 'authoritative_male',    // Expert/doctor figure revealing truth
@@ -79,15 +86,21 @@ export interface VoiceStats {
   supported_pain_points: number
 }
 
+// Persona voices are the provider's premade voices, looked up by name
+function premadeVoiceId(name: string): string {
+  const voice = ELEVENLABS_VOICES.find(candidate => candidate.name.startsWith(`${name} `))
+  if (!voice) throw new Error(`No premade ElevenLabs voice named ${name}`)
+  return voice.id
+}
+
 export class ElevenLabsVoiceConfig {
   public voicePersonas: Record<VoicePersona, VoiceConfig>
   public emotionalSettings: Record<EmotionalTone, EmotionalSettings>
 
   constructor() {
-    // Voice IDs for different personas (replace with actual ElevenLabs voice IDs)
     this.voicePersonas = {
       [VoicePersona.CONCERNED_FEMALE]: {
-        voice_id: 'EXAVITQu4vr4xnSDxMaL',  // Sarah - Concerned female
+        voice_id: premadeVoiceId('Sarah'),
         description: 'Warm, caring female voice perfect for health discoveries',
         best_for: ['chronic_fatigue', 'hormonal_imbalance', 'anxiety_depression'],
         optimal_speed: 0.9,
@@ -96,7 +109,7 @@ export class ElevenLabsVoiceConfig {
       },
 
       [VoicePersona.AUTHORITATIVE_MALE]: {
-        voice_id: 'pNInz6obpgDQGcFmaJgB',  // Adam - Professional male
+        voice_id: premadeVoiceId('Adam'),
         description: 'Credible, authoritative male voice for medical revelations',
         best_for: ['chronic_inflammation', 'metabolic_damage', 'brain_fog_memory'],
         optimal_speed: 0.85,
@@ -105,7 +118,7 @@ export class ElevenLabsVoiceConfig {
       },
 
       [VoicePersona.RELATABLE_YOUNG]: {
-        voice_id: '21m00Tcm4TlvDq8ikWAM',  // Rachel - Young relatable
+        voice_id: premadeVoiceId('Rachel'),
         description: 'Energetic, relatable voice for peer-to-peer sharing',
         best_for: ['chronic_fatigue', 'anxiety_depression', 'sleep_epidemic'],
         optimal_speed: 1.1,
@@ -114,7 +127,7 @@ export class ElevenLabsVoiceConfig {
       },
 
       [VoicePersona.WISE_MATURE]: {
-        voice_id: 'CYw3kZ02Hs0563khs1Fj',  // Dave - Mature wisdom
+        voice_id: premadeVoiceId('Dave'),
         description: 'Experienced, wise voice for revealing hidden truths',
         best_for: ['chronic_inflammation', 'metabolic_damage', 'hormonal_imbalance'],
         optimal_speed: 0.8,
@@ -123,7 +136,7 @@ export class ElevenLabsVoiceConfig {
       },
 
       [VoicePersona.URGENT_WHISTLE_BLOWER]: {
-        voice_id: 'onwK4e9ZLuTAKqWW03F9',  // Daniel - Urgent revealer
+        voice_id: premadeVoiceId('Daniel'),
         description: 'Urgent, concerned voice for exposing health cover-ups',
         best_for: ['chronic_inflammation', 'metabolic_damage', 'brain_fog_memory'],
         optimal_speed: 1.0,
@@ -174,9 +187,8 @@ export class ElevenLabsVoiceConfig {
 
 export class ElevenLabsVoiceGenerator {
   private apiKey: string
-  private baseUrl: string
   private voiceConfig: ElevenLabsVoiceConfig
-  private costPerCharacter: number
+  private capabilities: TTSCapabilities
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey || process.env.ELEVENLABS_API_KEY || ''
@@ -185,9 +197,8 @@ export class ElevenLabsVoiceGenerator {
       this.apiKey = 'demo_key'
     }
 
-    this.baseUrl = 'https://api.elevenlabs.io/v1'
     this.voiceConfig = new ElevenLabsVoiceConfig()
-    this.costPerCharacter = 0.00003  // ~$0.30 per 1000 characters
+    this.capabilities = new ElevenLabsTTSProvider(this.apiKey).capabilities
   }
 
   async generateSupplementVoiceover(request: VoiceRequest): Promise<VoiceResponse> {
@@ -202,14 +213,14 @@ export class ElevenLabsVoiceGenerator {
       const adjustedSettings = this.applyEmotionalTone(voiceConfig, request.emotional_tone)
 
       // Generate audio
-      const audioUrl = await this.generateAudio(request.script, adjustedSettings)
+      const { audioUrl, duration } = await this.generateAudio(request.script, adjustedSettings)
 
       const generationTime = (Date.now() - startTime) / 1000
-      const cost = request.script.length * this.costPerCharacter
+      const cost = this.calculateVoiceCost(request.script)
 
-      // Estimate duration (rough calculation: ~150 words per minute)
+      // Without timestamps, estimate the duration (~150 words per minute)
       const wordCount = request.script.split(' ').length
-      const estimatedDuration = (wordCount / 150) * 60  // Convert to seconds
+      const estimatedDuration = duration ?? (wordCount / 150) * 60
 
       const response: VoiceResponse = {
         audio_url: audioUrl,
@@ -231,17 +242,15 @@ export class ElevenLabsVoiceGenerator {
     }
   }
 
-  private getOptimalVoiceConfig(request: VoiceRequest): Record<string, any> {
+  private getOptimalVoiceConfig(request: VoiceRequest): Partial<ElevenLabsConfig> {
     // Select best voice persona for the pain point
     const bestPersona = this.selectOptimalPersona(request.pain_point, request.voice_persona)
     const voiceData = this.voiceConfig.voicePersonas[bestPersona]
 
     return {
-      voice_id: voiceData.voice_id,
+      voiceId: voiceData.voice_id,
       stability: voiceData.stability,
-      clarity: voiceData.clarity,
-      speed: voiceData.optimal_speed,
-      persona: bestPersona
+      similarityBoost: voiceData.clarity
     }
   }
 
@@ -266,69 +275,29 @@ export class ElevenLabsVoiceGenerator {
     return painPointOptimal[painPoint] || VoicePersona.CONCERNED_FEMALE
   }
 
-  private applyEmotionalTone(voiceConfig: Record<string, any>, tone: EmotionalTone): Record<string, any> {
+  private applyEmotionalTone(voiceConfig: Partial<ElevenLabsConfig>, tone: EmotionalTone): Partial<ElevenLabsConfig> {
     const toneSettings = this.voiceConfig.emotionalSettings[tone]
 
-    const adjustedConfig = { ...voiceConfig }
-    adjustedConfig.style_intensity = toneSettings.style_intensity
-    adjustedConfig.speed *= toneSettings.speed_modifier
-    adjustedConfig.stability *= toneSettings.stability_modifier
-
-    // Ensure values stay within valid ranges
-    adjustedConfig.speed = Math.max(0.5, Math.min(2.0, adjustedConfig.speed))
-    adjustedConfig.stability = Math.max(0.0, Math.min(1.0, adjustedConfig.stability))
-    adjustedConfig.clarity = Math.max(0.0, Math.min(1.0, adjustedConfig.clarity || 0.85))
-
-    return adjustedConfig
+    return {
+      ...voiceConfig,
+      style: toneSettings.style_intensity,
+      // Keep stability within the valid range
+      stability: Math.max(0.0, Math.min(1.0, (voiceConfig.stability ?? 0.85) * toneSettings.stability_modifier))
+    }
   }
 
-  private async generateAudio(script: string, voiceConfig: Record<string, any>): Promise<string> {
+  private async generateAudio(script: string, settings: Partial<ElevenLabsConfig>): Promise<{ audioUrl: string; duration?: number }> {
     // If no real API key, return simulated response
     if (this.apiKey === 'demo_key') {
       console.log('Simulating ElevenLabs voice generation (no API key)')
-      return `https://demo-audio-url.com/supplement_voice_${Date.now()}.mp3`
-    }
-
-    const headers = {
-      'Accept': 'audio/mpeg',
-      'Content-Type': 'application/json',
-      'xi-api-key': this.apiKey
-    }
-
-    const payload = {
-      text: script,
-      model_id: 'eleven_multilingual_v2',
-      voice_settings: {
-        stability: voiceConfig.stability,
-        similarity_boost: voiceConfig.clarity,
-        style: voiceConfig.style_intensity,
-        use_speaker_boost: true
-      }
+      return { audioUrl: `https://demo-audio-url.com/supplement_voice_${Date.now()}.mp3` }
     }
 
-    const voiceId = voiceConfig.voice_id
-
-    try {
-      const response = await fetch(`${this.baseUrl}/text-to-speech/${voiceId}/stream`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(payload)
-      })
-
-      if (response.ok) {
-        // For now, return a placeholder URL
-        // In production, you'd save the audio file and return the URL
-        const audioUrl = `https://generated-audio.com/supplement_${Date.now()}.mp3`
-        return audioUrl
-      } else {
-        const errorText = await response.text()
-        throw new Error(`ElevenLabs API error ${response.status}: ${errorText}`)
-      }
-
-    } catch (error) {
-      console.error('ElevenLabs API call failed:', error)
-      // Return simulated URL on error
-      return `https://demo-audio-url.com/supplement_voice_${Date.now()}.mp3`
+    const speech = await new ElevenLabsTTSProvider(this.apiKey, settings).synthesize({ text: script, voiceId: settings.voiceId })
+    const lastWord = speech.words?.[speech.words.length - 1]
+    return {
+      audioUrl: toDataUrl(speech.audio!, speech.contentType || 'audio/mpeg'),
+      duration: lastWord?.end
     }
   }
 
@@ -403,7 +372,7 @@ export class ElevenLabsVoiceGenerator {
   }
 
   calculateVoiceCost(script: string): number {
-    return script.length * this.costPerCharacter
+    return estimateSpeechCost(this.capabilities, script.length)
   }
 
   getVoiceStats(): VoiceStats {
@@ -413,7 +382,7 @@ export class ElevenLabsVoiceGenerator {
       platform: 'elevenlabs',
       available_personas: Object.keys(this.voiceConfig.voicePersonas).length,
       emotional_tones: Object.keys(this.voiceConfig.emotionalSettings).length,
-      cost_per_character: this.costPerCharacter,
+      cost_per_character: this.capabilities.costPerChar,
       estimated_cost_per_30s: this.calculateVoiceCost(sampleScript),
       generation_time: '3-10 seconds per segment',
       audio_quality: 'high_quality_44khz',
@@ -521,6 +490,15 @@ export class ElevenLabsVoiceGenerator {
   }
 }
 
+// The audio is returned inline - callers upload it wherever the video is assembled
+function toDataUrl(audio: Uint8Array, contentType: string): string {
+  let binary = ''
+  for (let i = 0; i < audio.length; i++) {
+    binary += String.fromCharCode(audio[i])
+  }
+  return `data:${contentType};base64,${btoa(binary)}`
+}
+
 export const elevenLabsVoiceGenerator = new ElevenLabsVoiceGenerator()
 
 // Example usage function
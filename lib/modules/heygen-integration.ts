@@ -3,6 +3,8 @@
  * Multi-tier content strategy with human avatars for high-trust content
  */
 
+import { costLedger } from '../usage/cost-ledger'
+
 export interface HeyGenConfig {
   api_key: string
   base_url?: string
@@ -123,6 +125,10 @@ export class ContentTierManager {
   }
 }
 
+// HeyGen bills in credits: ~0.5 credits per clip, ~$0.30 per clip on our plan
+const HEYGEN_CREDITS_PER_CLIP = 0.5
+const HEYGEN_COST_PER_CLIP = 0.30
+
 export class HeyGenIntegration {
   private apiKey: string
   private baseUrl: string
@@ -478,6 +484,17 @@ export class HeyGenIntegration {
 
       if (response.ok) {
         const data = await response.json()
+
+        await costLedger.record({
+          service: 'heygen',
+          operation: 'video-generation',
+          source: 'HeyGenIntegration',
+          cost: HEYGEN_COST_PER_CLIP,
+          credits: HEYGEN_CREDITS_PER_CLIP,
+          characters: request.script.length,
+          requestId: data.video_id || payload.callback_id
+        })
+
         return {
           video_id: data.video_id || '',
           status: 'processing',
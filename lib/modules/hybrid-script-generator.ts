@@ -6,6 +6,8 @@
 
 import OpenAI from 'openai';
 import { logger } from '../utils/logger';
+import { PromptRef, RenderedPrompt, promptRegistry } from '../prompts/prompt-registry';
+import { PROMPT_TEMPLATE_IDS } from '../prompts/prompt-templates';
 
 export interface PainPointTemplate {
   emotional_triggers: string[];
@@ -47,6 +49,7 @@ export interface GeneratedScript {
   };
   generated_at: string;
   viral_score?: number;
+  prompt?: PromptRef; // Prompt template version the variation came from
 }
 
 export interface PerformanceAnalytics {
@@ -350,19 +353,20 @@ export class OpenAIProductionEngine {
         const mechanism = template.scientific_mechanisms[Math.floor(Math.random() * template.scientific_mechanisms.length)];
         const conversion_angle = template.conversion_angles[Math.floor(Math.random() * template.conversion_angles.length)];
         
-        const prompt = this.createProductionPrompt(
+        const prompt = await this.createProductionPrompt(
           product, template, emotional_trigger, hook_formula, mechanism, conversion_angle, i + 1
         );
         
         const response = await this.client.chat.completions.create({
           model: "gpt-3.5-turbo",
-          messages: [{ role: "user", content: prompt }],
+          messages: [{ role: "user", content: prompt.text }],
           temperature: 0.8,
           max_tokens: 400
         });
         
         const script_content = response.choices?.[0]?.message?.content || '';
         const structured_script = this.parseOpenAIResponse(script_content, product, template);
+        structured_script.prompt = { templateId: prompt.templateId, version: prompt.version };
         
         variations.push(structured_script);
         
@@ -382,40 +386,18 @@ export class OpenAIProductionEngine {
     mechanism: string, 
     conversion_angle: string, 
     variation_number: number
-  ): string {
-    return `Generate a viral supplement script using this Claude-designed psychological framework:
-
-PRODUCT: ${product.name}
-PRICE: ${product.price}
-PAIN POINT: ${template.pain_point}
-
-PSYCHOLOGICAL TEMPLATE:
-- Emotional Trigger: ${emotional_trigger}
-- Hook Formula: ${hook_formula}
-- Scientific Mechanism: ${mechanism}
-- Conversion Angle: ${conversion_angle}
-
-SCRIPT STRUCTURE (Claude-designed):
-${JSON.stringify(template.script_structure, null, 2)}
-
-REQUIREMENTS:
-1. 20-25 seconds when spoken (80-100 words)
-2. Start with hook that embodies: ${hook_formula}
-3. Target emotional trigger: ${emotional_trigger}
-4. Explain mechanism: ${mechanism}
-5. Use conversion angle: ${conversion_angle}
-6. End with urgent CTA
-7. Sound natural and conversational
-8. Include "mishearing" words for engagement
-
-OUTPUT FORMAT:
-Hook: [0-3 seconds opening that grabs attention]
-Problem: [3-8 seconds emotional trigger and relatability]
-Mechanism: [8-15 seconds scientific explanation]
-Proof: [15-20 seconds social proof or transformation]
-CTA: [20-25 seconds urgent call to action]
-
-Generate variation #${variation_number} that sounds authentic and converts.`;
+  ): Promise<RenderedPrompt> {
+    return promptRegistry.render(PROMPT_TEMPLATE_IDS.SUPPLEMENT_SCRIPT, {
+      productName: product.name,
+      price: product.price,
+      painPoint: template.pain_point,
+      emotionalTrigger: emotional_trigger,
+      hookFormula: hook_formula,
+      mechanism,
+      conversionAngle: conversion_angle,
+      scriptStructure: template.script_structure,
+      variationNumber: variation_number
+    });
   }
     
   private parseOpenAIResponse(response: string, product: ProductData, template: any): GeneratedScript {
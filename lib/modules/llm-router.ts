@@ -1,10 +1,30 @@
 /**
  * Multi-LLM Task Routing and Management System
  * Handles task assignment, routing, and coordination across multiple LLM providers
+ *
+ * Claude tasks run through the Anthropic SDK and GPT tasks through the OpenAI
+ * SDK, both with their own retries off: a failed or rate-limited call moves
+ * straight on to the next LLM in the task type's fallback chain, which ends
+ * at the client tier's emergency fallback. Rate-limited LLMs are skipped
+ * until their Retry-After passes. Point ANTHROPIC_BASE_URL/OPENAI_BASE_URL
+ * (or the constructor options) at lib/mocks/fake-llm.ts to test offline.
+ *
+ * Routing a task first counts it against the client's tier limits (sliding
+ * minute/hour/day windows and monthly spend, see ClientRateLimiter), then
+ * stores its LLMTaskAssignment so getTaskStatus works from any instance.
  */
 
+import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
 import { logger } from '../utils/logger';
+import { costLedger } from '../usage/cost-ledger';
+import { calculateTokenCost } from '../usage/model-pricing';
+import { LedgerStorage, MemoryLedgerStorage } from '../usage/ledger-storage';
+import { LLMTaskAssignment } from './database';
+import { LLMTaskStore } from './llm-task-store';
+import { ClientRateLimiter } from './client-rate-limiter';
+import { PromptRef, PromptRegistry, RenderedPrompt, promptRegistry } from '../prompts/prompt-registry';
+import { PROMPT_TEMPLATE_IDS } from '../prompts/prompt-templates';
 
 export enum TaskType {
   CLIENT_COMMUNICATION = "client_communication",
@@ -51,6 +71,7 @@ export interface TaskRequest {
   requirements: Record<string, any>;
   deadline?: Date;
   preferred_llm?: LLMProvider;
+  tier?: string; // Client's rate-limit tier, for its emergency fallback (default 'saas')
 }
 
 export interface RateLimitConfig {
@@ -77,10 +98,39 @@ export interface TaskExecutionResult {
   cost_usd: number;
   model_used: string;
   execution_time: string;
+  llm_used?: LLMProvider; // Differs from the selected LLM when a fallback answered
+  latency_ms?: number;
+  fallback_attempts?: FallbackAttempt[]; // LLMs tried (and skipped) before this one
+  prompt?: PromptRef; // Prompt template version the LLM was given
   requires_human_llm?: boolean;
   task_details?: Record<string, any>;
 }
 
+export interface FallbackAttempt {
+  llm: LLMProvider;
+  error: string;
+  rate_limited: boolean;
+  skipped: boolean; // Not called: no client configured, or still rate limited
+}
+
+export interface LLMRouterOptions {
+  anthropic_api_key?: string;
+  anthropic_base_url?: string;
+  openai_api_key?: string;
+  openai_base_url?: string;
+  fallback_chains?: Partial<Record<TaskType, LLMProvider[]>>; // Replaces the routing rules' primary + fallback order
+  max_output_tokens?: number;
+  storage?: LedgerStorage; // Task assignments and client usage (default: in memory)
+  prompts?: PromptRegistry; // Where task prompts are rendered from (default: the global registry)
+}
+
+export class LLMRouterError extends Error {
+  constructor(message: string, public readonly status: number = 502, public readonly attempts: FallbackAttempt[] = []) {
+    super(message);
+    this.name = 'LLMRouterError';
+  }
+}
+
 export interface TaskStatus {
   task_id: string;
   status: 'assigned' | 'in_progress' | 'completed' | 'failed';
@@ -95,16 +145,45 @@ export interface TaskStatus {
 export interface LLMPerformanceMetrics {
   [llm: string]: {
     tasks_completed: number;
-    average_quality_score: number;
+    tasks_failed: number;
+    rate_limited: number;
+    average_quality_score: number; // Static reliability estimate - outputs aren't graded
+    total_tokens: number;
     total_cost_usd: number;
-    average_completion_time_seconds: number;
+    average_completion_time_seconds: number; // Measured API latency of completed tasks
     current_load: number;
   };
 }
 
+// Pinned model versions for the Claude tiers
+const CLAUDE_MODELS: Partial<Record<LLMProvider, string>> = {
+  [LLMProvider.CLAUDE_SONNET]: 'claude-3-5-sonnet-20241022',
+  [LLMProvider.CLAUDE_HAIKU]: 'claude-3-haiku-20240307'
+};
+
+// How long a rate-limited LLM is skipped when the API gives no Retry-After
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 30 * 1000;
+
 export class LLMRouter {
   private openai_client?: OpenAI;
-  private anthropic_client?: any; // Would need proper Anthropic client
+  private anthropic_client?: Anthropic;
+  private fallback_chains: Record<TaskType, LLMProvider[]>;
+  private max_output_tokens: number;
+  private rate_limited_until: Partial<Record<LLMProvider, number>> = {};
+  private task_store: LLMTaskStore;
+  private rate_limiter: ClientRateLimiter;
+  private prompts: PromptRegistry;
+  private performance: Record<LLMProvider, {
+    completed: number;
+    failed: number;
+    rate_limited: number;
+    tokens: number;
+    cost_usd: number;
+    latency_ms: number;
+  }> = Object.values(LLMProvider).reduce((acc, provider) => {
+    acc[provider] = { completed: 0, failed: 0, rate_limited: 0, tokens: 0, cost_usd: 0, latency_ms: 0 };
+    return acc;
+  }, {} as LLMRouter['performance']);
   
   private rate_limits: Record<string, RateLimitConfig> = {
     saas: {
@@ -277,19 +356,59 @@ export class LLMRouter {
     return acc;
   }, {} as Record<LLMProvider, number>);
 
-  constructor() {
-    // Initialize LLM clients
-    const openai_key = process.env.OPENAI_API_KEY;
+  constructor(options: LLMRouterOptions = {}) {
+    // Initialize LLM clients - retries are left to the fallback chain
+    const openai_key = options.openai_api_key ?? process.env.OPENAI_API_KEY;
     if (openai_key) {
-      this.openai_client = new OpenAI({ apiKey: openai_key });
+      this.openai_client = new OpenAI({
+        apiKey: openai_key,
+        baseURL: options.openai_base_url ?? process.env.OPENAI_BASE_URL,
+        maxRetries: 0
+      });
     }
-    
-    // Would initialize other clients here
+
+    const anthropic_key = options.anthropic_api_key ?? process.env.ANTHROPIC_API_KEY;
+    if (anthropic_key) {
+      this.anthropic_client = new Anthropic({
+        apiKey: anthropic_key,
+        baseURL: options.anthropic_base_url ?? process.env.ANTHROPIC_BASE_URL,
+        maxRetries: 0
+      });
+    }
+
+    this.fallback_chains = Object.values(TaskType).reduce((acc, task_type) => {
+      const rules = this.routing_rules[task_type];
+      acc[task_type] = options.fallback_chains?.[task_type] || [...rules.primary, ...rules.fallback];
+      return acc;
+    }, {} as Record<TaskType, LLMProvider[]>);
+    this.max_output_tokens = options.max_output_tokens ?? 4000;
+
+    const storage = options.storage || new MemoryLedgerStorage();
+    this.task_store = new LLMTaskStore(storage);
+    this.rate_limiter = new ClientRateLimiter(storage);
+    this.prompts = options.prompts || promptRegistry;
+
     logger.info("LLM Router initialized");
   }
 
+  /**
+   * Keep task assignments and client usage in other storage - how
+   * configureLedgerStorage() moves the global router onto R2 or disk
+   */
+  setStorage(storage: LedgerStorage): void {
+    this.task_store = new LLMTaskStore(storage);
+    this.rate_limiter = new ClientRateLimiter(storage);
+  }
+
   async routeTask(task_request: TaskRequest): Promise<string> {
     try {
+      const tier = task_request.tier || 'saas';
+      const limits = this.rate_limits[tier];
+      if (!limits) {
+        throw new LLMRouterError(`Unknown rate-limit tier: ${tier}`, 400);
+      }
+      await this.rate_limiter.acquire(task_request.client_id, tier, limits);
+
       const selected_llm = await this.selectOptimalLLM(task_request);
       const task_assignment = await this.createTaskAssignment(task_request, selected_llm);
       
@@ -372,51 +491,178 @@ export class LLMRouter {
     return score;
   }
 
-  private async createTaskAssignment(task_request: TaskRequest, selected_llm: LLMProvider): Promise<string> {
-    // In a real implementation, this would save to database
+  private async createTaskAssignment(task_request: TaskRequest, selected_llm: LLMProvider, status: string = 'assigned'): Promise<string> {
+    const now = new Date();
+    const assignment: LLMTaskAssignment = {
+      task_id: task_request.task_id,
+      project_id: task_request.project_id,
+      client_id: task_request.client_id,
+      created_at: now,
+      updated_at: now,
+      task_type: task_request.task_type,
+      task_description: task_request.description,
+      priority: task_request.priority,
+      assigned_llm: selected_llm,
+      assignment_reason: this.getAssignmentReason(task_request, selected_llm),
+      status,
+      retry_count: 0,
+      max_retries: this.getFallbackChain(task_request.task_type, task_request.tier, selected_llm).length - 1
+    };
+
+    await this.task_store.create(assignment);
     logger.info(`Created task assignment: ${task_request.task_id} -> ${selected_llm}`);
     return task_request.task_id;
   }
 
+  private getAssignmentReason(task_request: TaskRequest, selected_llm: LLMProvider): string {
+    if (task_request.preferred_llm === selected_llm) {
+      return 'preferred LLM requested';
+    }
+    if (['urgent', 'high'].includes(task_request.priority)) {
+      return `urgency override for ${task_request.task_type}`;
+    }
+    return `best routing score for ${task_request.task_type}`;
+  }
+
+  /**
+   * Order in which LLMs are tried for a task: the selected one, the task
+   * type's chain, then the tier's emergency fallback
+   */
+  getFallbackChain(task_type: TaskType, tier: string = 'saas', selected_llm?: LLMProvider): LLMProvider[] {
+    const emergency = (this.rate_limits[tier] || this.rate_limits.saas).emergency_fallback_llm;
+    const chain = [
+      ...(selected_llm ? [selected_llm] : []),
+      ...(this.fallback_chains[task_type] || []),
+      emergency
+    ];
+    return Array.from(new Set(chain));
+  }
+
   async executeTask(task_request: TaskRequest, selected_llm: LLMProvider): Promise<TaskExecutionResult> {
+    await this.updateTaskStatus(task_request, selected_llm, "in_progress");
+
+    const chain = this.getFallbackChain(task_request.task_type, task_request.tier, selected_llm);
+    const attempts: FallbackAttempt[] = [];
+
     try {
-      await this.updateTaskStatus(task_request.task_id, "in_progress");
-      
-      let result: TaskExecutionResult;
-      
-      if ([LLMProvider.CLAUDE_SONNET, LLMProvider.CLAUDE_HAIKU].includes(selected_llm)) {
-        result = await this.executeClaudeTask(task_request, selected_llm);
-      } else if ([LLMProvider.GPT4, LLMProvider.GPT4_TURBO, LLMProvider.GPT3_5].includes(selected_llm)) {
-        result = await this.executeOpenAITask(task_request, selected_llm);
-      } else if (selected_llm === LLMProvider.CLAUDE_CODE) {
-        result = await this.executeClaudeCodeTask(task_request);
-      } else {
-        throw new Error(`Unsupported LLM provider: ${selected_llm}`);
+      for (let i = 0; i < chain.length; i++) {
+        const llm = chain[i];
+        const unavailable = this.getUnavailableReason(llm);
+        if (unavailable) {
+          attempts.push({ llm, error: unavailable, rate_limited: unavailable.startsWith('rate limited'), skipped: true });
+          continue;
+        }
+
+        const started = Date.now();
+        try {
+          const result = await this.executeWithLLM(task_request, llm);
+          const latency_ms = Date.now() - started;
+          this.recordSuccess(llm, result, latency_ms);
+
+          const completed = { ...result, llm_used: llm, latency_ms, fallback_attempts: attempts };
+          await this.updateTaskCompletion(task_request.task_id, completed);
+          if (!completed.requires_human_llm) {
+            await this.rate_limiter.recordCost(task_request.client_id, completed.cost_usd);
+          }
+
+          if (!completed.requires_human_llm) {
+            await costLedger.record({
+              service: this.getCostService(llm),
+              operation: task_request.task_type,
+              source: 'LLMRouter',
+              model: completed.model_used,
+              tokens: completed.tokens_used,
+              cost: completed.cost_usd,
+              requestId: task_request.task_id,
+              metadata: {
+                clientId: task_request.client_id,
+                llm,
+                fallbacks: attempts.length,
+                ...(completed.prompt ? { promptTemplate: completed.prompt.templateId, promptVersion: completed.prompt.version } : {})
+              }
+            });
+          }
+          return completed;
+
+        } catch (error) {
+          const rate_limited = this.recordFailure(llm, error);
+          attempts.push({ llm, error: String(error), rate_limited, skipped: false });
+          await this.handleTaskFailure(task_request, llm, String(error), chain.slice(i + 1)[0] || null);
+        }
       }
-      
-      await this.updateTaskCompletion(task_request.task_id, result);
-      this.llm_load_tracking[selected_llm] -= 1;
-      
-      return result;
+    } finally {
+      this.llm_load_tracking[selected_llm] = Math.max(0, this.llm_load_tracking[selected_llm] - 1);
+    }
 
-    } catch (error) {
-      logger.error(`Task execution failed for ${task_request.task_id}: ${error}`);
-      await this.handleTaskFailure(task_request, selected_llm, String(error));
-      throw error;
+    const message = `Task ${task_request.task_id} failed on every LLM in its fallback chain (${attempts.map(attempt => `${attempt.llm}: ${attempt.error}`).join('; ')})`;
+    await this.updateTaskStatus(task_request, selected_llm, "failed", assignment => {
+      assignment.task_output = { error: message, attempts };
+      assignment.retry_count = attempts.filter(attempt => !attempt.skipped).length;
+    });
+    const all_rate_limited = attempts.length > 0 && attempts.every(attempt => attempt.rate_limited || attempt.skipped);
+    throw new LLMRouterError(
+      message,
+      all_rate_limited && attempts.some(attempt => attempt.rate_limited) ? 429 : 502,
+      attempts
+    );
+  }
+
+  private async executeWithLLM(task_request: TaskRequest, llm: LLMProvider): Promise<TaskExecutionResult> {
+    if (CLAUDE_MODELS[llm]) {
+      return this.executeClaudeTask(task_request, llm);
+    }
+    if ([LLMProvider.GPT4, LLMProvider.GPT4_TURBO, LLMProvider.GPT3_5].includes(llm)) {
+      return this.executeOpenAITask(task_request, llm);
+    }
+    if (llm === LLMProvider.CLAUDE_CODE) {
+      return this.executeClaudeCodeTask(task_request);
     }
+    throw new Error(`Unsupported LLM provider: ${llm}`);
+  }
+
+  /**
+   * Why an LLM can't be called right now, or null when it can
+   */
+  private getUnavailableReason(llm: LLMProvider): string | null {
+    const until = this.rate_limited_until[llm];
+    if (until && until > Date.now()) {
+      return `rate limited for another ${Math.ceil((until - Date.now()) / 1000)}s`;
+    }
+    if (CLAUDE_MODELS[llm] && !this.anthropic_client) {
+      return 'Anthropic client not initialized (ANTHROPIC_API_KEY)';
+    }
+    if ([LLMProvider.GPT4, LLMProvider.GPT4_TURBO, LLMProvider.GPT3_5].includes(llm) && !this.openai_client) {
+      return 'OpenAI client not initialized (OPENAI_API_KEY)';
+    }
+    if ([LLMProvider.GEMINI_PRO, LLMProvider.PERPLEXITY].includes(llm)) {
+      return `No client for ${llm}`;
+    }
+    return null;
   }
 
   private async executeClaudeTask(task_request: TaskRequest, llm_provider: LLMProvider): Promise<TaskExecutionResult> {
-    // Would use Anthropic client in real implementation
+    if (!this.anthropic_client) {
+      throw new Error('Anthropic client not initialized');
+    }
+
+    const model = CLAUDE_MODELS[llm_provider]!;
     const prompt = await this.buildTaskPrompt(task_request);
-    
-    // Mock implementation
+
+    const response = await this.anthropic_client.messages.create({
+      model,
+      max_tokens: this.max_output_tokens,
+      messages: [{ role: "user", content: prompt.text }]
+    });
+
+    const input_tokens = response.usage?.input_tokens || 0;
+    const output_tokens = response.usage?.output_tokens || 0;
     return {
-      output: `Claude ${llm_provider} response for: ${task_request.description}`,
-      tokens_used: 1000,
-      cost_usd: this.calculateCost(1000, llm_provider),
-      model_used: llm_provider,
-      execution_time: new Date().toISOString()
+      output: response.content.map(block => block.type === 'text' ? block.text : '').join(''),
+      tokens_used: input_tokens + output_tokens,
+      cost_usd: calculateTokenCost(model, { inputTokens: input_tokens, outputTokens: output_tokens }),
+      model_used: response.model || model,
+      execution_time: new Date().toISOString(),
+      prompt: { templateId: prompt.templateId, version: prompt.version }
     };
   }
 
@@ -442,16 +688,20 @@ export class LLMRouter {
     try {
       const response = await this.openai_client.chat.completions.create({
         model,
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 4000
+        messages: [{ role: "user", content: prompt.text }],
+        max_tokens: this.max_output_tokens
       });
       
       return {
         output: response.choices?.[0]?.message?.content || '',
         tokens_used: response.usage?.total_tokens || 0,
-        cost_usd: this.calculateCost(response.usage?.total_tokens || 0, llm_provider),
+        cost_usd: calculateTokenCost(model, {
+          inputTokens: response.usage?.prompt_tokens || 0,
+          outputTokens: response.usage?.completion_tokens || 0
+        }),
         model_used: model,
-        execution_time: new Date().toISOString()
+        execution_time: new Date().toISOString(),
+        prompt: { templateId: prompt.templateId, version: prompt.version }
       };
       
     } catch (error) {
@@ -478,117 +728,144 @@ export class LLMRouter {
     };
   }
 
-  private async buildTaskPrompt(task_request: TaskRequest): Promise<string> {
-    let base_context = `
-Task Type: ${task_request.task_type}
-Priority: ${task_request.priority}
-Client ID: ${task_request.client_id}
-Project ID: ${task_request.project_id}
+  private async buildTaskPrompt(task_request: TaskRequest): Promise<RenderedPrompt> {
+    // The task type picks the template's instructions
+    return this.prompts.render(PROMPT_TEMPLATE_IDS.LLM_TASK, {
+      task_type: task_request.task_type,
+      task_type_name: task_request.task_type,
+      priority: task_request.priority,
+      client_id: task_request.client_id,
+      project_id: task_request.project_id,
+      description: task_request.description,
+      context: task_request.context || {},
+      requirements: task_request.requirements || {}
+    });
+  }
 
-Task Description: ${task_request.description}
-`;
-    
-    if (task_request.context) {
-      base_context += `\n\nContext: ${JSON.stringify(task_request.context, null, 2)}`;
+  private getCostService(llm_provider: LLMProvider): 'anthropic' | 'openai' | 'googleCloud' {
+    if ([LLMProvider.GPT4, LLMProvider.GPT4_TURBO, LLMProvider.GPT3_5].includes(llm_provider)) {
+      return 'openai';
     }
-    
-    if (task_request.requirements) {
-      base_context += `\n\nRequirements: ${JSON.stringify(task_request.requirements, null, 2)}`;
+    if (llm_provider === LLMProvider.GEMINI_PRO) {
+      return 'googleCloud';
     }
-    
-    const task_instructions: Record<TaskType, string> = {
-      [TaskType.CLIENT_COMMUNICATION]: `
-You are communicating with a client for our AI automation agency. Be professional, 
-helpful, and focus on understanding their needs. Maintain a warm but professional tone.
-`,
-      [TaskType.PROPOSAL_GENERATION]: `
-Generate a professional proposal based on the client requirements. Include pricing,
-timeline, deliverables, and clear value propositions. Make it compelling but honest.
-`,
-      [TaskType.TECHNICAL_BUILD]: `
-This is a technical implementation task. Provide detailed, working code or technical
-specifications. Focus on best practices, scalability, and maintainability.
-`,
-      [TaskType.CONTENT_CREATION]: `
-Create engaging, high-quality content that aligns with the specified requirements.
-Make it compelling and audience-appropriate.
-`,
-      [TaskType.CODE_GENERATION]: `
-Generate clean, efficient, and well-documented code. Follow best practices and include
-appropriate comments and error handling.
-`,
-      [TaskType.RESEARCH_ANALYSIS]: `
-Conduct thorough research and provide comprehensive analysis. Include credible sources
-and actionable insights.
-`,
-      [TaskType.DOCUMENTATION]: `
-Create clear, comprehensive documentation that is easy to understand and follow.
-Include examples and best practices.
-`,
-      [TaskType.TROUBLESHOOTING]: `
-Analyze the problem systematically and provide step-by-step troubleshooting guidance.
-Include prevention strategies.
-`,
-      [TaskType.DATA_ANALYSIS]: `
-Perform thorough data analysis and provide insights with supporting evidence.
-Include visualizations if appropriate.
-`,
-      [TaskType.CREATIVE_WRITING]: `
-Create engaging, original content that captures the intended voice and style.
-Make it compelling and memorable.
-`
-    };
-    
-    const instruction = task_instructions[task_request.task_type] || 
-      "Complete the requested task professionally and thoroughly.";
-    
-    return `${instruction}\n\n${base_context}`;
+    return 'anthropic';
+  }
+
+  private recordSuccess(llm: LLMProvider, result: TaskExecutionResult, latency_ms: number): void {
+    const stats = this.performance[llm];
+    stats.completed += 1;
+    stats.tokens += result.tokens_used;
+    stats.cost_usd += result.cost_usd;
+    stats.latency_ms += latency_ms;
   }
 
-  private calculateCost(tokens: number, llm_provider: LLMProvider): number {
-    const capabilities = this.llm_capabilities[llm_provider];
-    return (tokens / 1000) * capabilities.cost_per_1k_tokens;
+  /**
+   * Count a failed call; rate limits also bench the LLM until its
+   * Retry-After passes. Returns whether it was rate limited.
+   */
+  private recordFailure(llm: LLMProvider, error: unknown): boolean {
+    const stats = this.performance[llm];
+    stats.failed += 1;
+
+    const status = (error as { status?: number })?.status;
+    if (status !== 429) return false;
+
+    stats.rate_limited += 1;
+    const headers = (error as { headers?: any }).headers;
+    const retry_after = Number(typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after']);
+    this.rate_limited_until[llm] = Date.now() + (retry_after > 0 ? retry_after * 1000 : DEFAULT_RATE_LIMIT_COOLDOWN_MS);
+    return true;
   }
 
-  private async updateTaskStatus(task_id: string, status: string): Promise<void> {
-    // Would update database in real implementation
-    logger.info(`Task ${task_id} status updated to: ${status}`);
+  private async updateTaskStatus(
+    task_request: TaskRequest,
+    selected_llm: LLMProvider,
+    status: string,
+    mutate?: (assignment: LLMTaskAssignment) => void
+  ): Promise<void> {
+    // Tasks executed without routeTask get their assignment here
+    if (!(await this.task_store.get(task_request.task_id))) {
+      await this.createTaskAssignment(task_request, selected_llm, status);
+    }
+
+    await this.task_store.update(task_request.task_id, assignment => {
+      assignment.status = status;
+      if (status === 'in_progress') assignment.started_at = new Date();
+      if (status === 'failed') assignment.completed_at = new Date();
+      mutate?.(assignment);
+    });
+    logger.info(`Task ${task_request.task_id} status updated to: ${status}`);
   }
 
   private async updateTaskCompletion(task_id: string, result: TaskExecutionResult): Promise<void> {
-    // Would update database in real implementation
+    await this.task_store.update(task_id, assignment => {
+      assignment.status = 'completed';
+      assignment.completed_at = new Date();
+      assignment.assigned_llm = result.llm_used || assignment.assigned_llm;
+      assignment.task_output = { output: result.output, model_used: result.model_used, latency_ms: result.latency_ms, prompt: result.prompt };
+      assignment.tokens_used = result.tokens_used;
+      assignment.cost_usd = result.cost_usd;
+      assignment.retry_count = (result.fallback_attempts || []).filter(attempt => !attempt.skipped).length;
+    });
     logger.info(`Task ${task_id} completed successfully`);
   }
 
-  private async handleTaskFailure(task_request: TaskRequest, failed_llm: LLMProvider, error: string): Promise<void> {
-    // Would implement retry logic in real implementation
+  private async handleTaskFailure(
+    task_request: TaskRequest,
+    failed_llm: LLMProvider,
+    error: string,
+    next_llm: LLMProvider | null
+  ): Promise<void> {
     logger.error(`Task ${task_request.task_id} failed on ${failed_llm}: ${error}`);
+    if (next_llm) {
+      logger.warn(`Task ${task_request.task_id} falling back to ${next_llm}`);
+    }
   }
 
   async getTaskStatus(task_id: string): Promise<TaskStatus | null> {
-    // Would query database in real implementation
+    const assignment = await this.task_store.get(task_id);
+    if (!assignment) return null;
+
+    const progress: Record<string, string> = {
+      assigned: 'waiting to start',
+      in_progress: `running on ${assignment.assigned_llm}`,
+      completed: 'completed',
+      failed: assignment.task_output?.error || 'failed'
+    };
     return {
       task_id,
-      status: 'completed',
-      assigned_llm: LLMProvider.CLAUDE_SONNET,
-      progress: 'completed',
-      created_at: new Date().toISOString(),
-      completed_at: new Date().toISOString(),
-      cost_usd: 0.05,
-      quality_score: 0.9
+      status: assignment.status as TaskStatus['status'],
+      assigned_llm: assignment.assigned_llm,
+      progress: progress[assignment.status] || assignment.status,
+      created_at: assignment.created_at.toISOString(),
+      completed_at: assignment.completed_at?.toISOString(),
+      cost_usd: assignment.cost_usd || 0,
+      quality_score: assignment.quality_score ?? 0
     };
   }
 
+  /**
+   * Client's requests and spend so far today and this month
+   */
+  async getClientUsage(client_id: string, tier: string = 'saas'): Promise<ClientUsageStats> {
+    return this.rate_limiter.getUsage(client_id, tier);
+  }
+
   async getLLMPerformanceMetrics(): Promise<LLMPerformanceMetrics> {
-    // Would calculate from database in real implementation
+    // Since this router started - per process
     const metrics: LLMPerformanceMetrics = {};
     
     for (const provider of Object.values(LLMProvider)) {
+      const stats = this.performance[provider];
       metrics[provider] = {
-        tasks_completed: Math.floor(Math.random() * 100),
-        average_quality_score: 0.85 + Math.random() * 0.15,
-        total_cost_usd: Math.random() * 1000,
-        average_completion_time_seconds: 30 + Math.random() * 120,
+        tasks_completed: stats.completed,
+        tasks_failed: stats.failed,
+        rate_limited: stats.rate_limited,
+        average_quality_score: this.llm_capabilities[provider].reliability_score,
+        total_tokens: stats.tokens,
+        total_cost_usd: stats.cost_usd,
+        average_completion_time_seconds: stats.completed ? stats.latency_ms / stats.completed / 1000 : 0,
         current_load: this.llm_load_tracking[provider]
       };
     }
@@ -597,7 +874,8 @@ Make it compelling and memorable.
   }
 }
 
-// Global router instance
+// Global router instance. In memory until configureLedgerStorage()
+// (lib/usage/ledger-config.ts) points it at durable storage.
 export const llmRouter = new LLMRouter();
 
 // Export default
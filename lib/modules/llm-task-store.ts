@@ -0,0 +1,68 @@
+/**
+ * LLM Task Assignment Store
+ * Keeps the LLMTaskAssignment record for every task the LLM router takes on
+ * (one LedgerStorage object per task, updated with compare-and-swap like
+ * video workflows), so a task's status, output and cost can be looked up
+ * after the request that ran it is gone.
+ */
+
+import { LLMTaskAssignment } from './database';
+import { LedgerStorage, casUpdate } from '../usage/ledger-storage';
+
+export class LLMTaskStoreError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'LLMTaskStoreError';
+  }
+}
+
+const TASK_ID_PATTERN = /^[A-Za-z0-9_.:-]{1,128}$/;
+const DATE_FIELDS = ['created_at', 'updated_at', 'started_at', 'completed_at'] as const;
+
+export class LLMTaskStore {
+  constructor(private storage: LedgerStorage, private prefix: string = 'llm/tasks') {}
+
+  async create(assignment: LLMTaskAssignment): Promise<LLMTaskAssignment> {
+    const created = await this.storage.write(this.keyFor(assignment.task_id), JSON.stringify(assignment), null);
+    if (!created) {
+      throw new LLMTaskStoreError(`Task ${assignment.task_id} is already assigned`, 409);
+    }
+    return assignment;
+  }
+
+  async get(task_id: string): Promise<LLMTaskAssignment | null> {
+    const existing = await this.storage.read(this.keyFor(task_id));
+    return existing ? reviveDates(JSON.parse(existing.body)) : null;
+  }
+
+  /**
+   * Apply `mutate` atomically; it may run more than once if another writer
+   * got in first
+   */
+  async update(task_id: string, mutate: (assignment: LLMTaskAssignment) => void): Promise<LLMTaskAssignment> {
+    const missing = (): LLMTaskAssignment => {
+      throw new LLMTaskStoreError(`Task ${task_id} not found`, 404);
+    };
+    const { state } = await casUpdate(this.storage, this.keyFor(task_id), missing, stored => {
+      const assignment = reviveDates(stored); // In place - JSON keeps dates as strings
+      mutate(assignment);
+      assignment.updated_at = new Date();
+    });
+    return state;
+  }
+
+  private keyFor(task_id: string): string {
+    if (!TASK_ID_PATTERN.test(task_id)) {
+      throw new LLMTaskStoreError(`Invalid task id: ${task_id}`);
+    }
+    return `${this.prefix}/${task_id}.json`;
+  }
+}
+
+// JSON keeps dates as ISO strings
+function reviveDates(assignment: LLMTaskAssignment): LLMTaskAssignment {
+  for (const field of DATE_FIELDS) {
+    if (assignment[field]) assignment[field] = new Date(assignment[field] as unknown as string);
+  }
+  return assignment;
+}
@@ -5,6 +5,7 @@
  */
 
 import { AmericanPainPoint } from './supplement-pain-point-engine';
+import { costLedger } from '../usage/cost-ledger';
 
 export enum ImageType {
   HOOK_PROBLEM = "hook_problem",           // Problem visualization - grab attention
@@ -319,6 +320,17 @@ export class OpenAIImageGenerator {
 
       const generation_time = (Date.now() - start_time) / 1000;
 
+      await costLedger.record({
+        service: 'openai',
+        operation: 'image-generation',
+        source: 'OpenAIImageGenerator',
+        model: this.generation_config.model,
+        cost: this.cost_per_image,
+        images: 1,
+        seconds: generation_time,
+        metadata: { imageType: request.image_type, size: this.generation_config.size }
+      });
+
       const response: SupplementImageResponse = {
         image_url: image_url,
         image_type: request.image_type,
@@ -5,6 +5,8 @@
 
 import { BaseModel } from '../base-model';
 import { logger } from '../utils/logger';
+import { PromptRef, RenderedPrompt, promptRegistry } from '../prompts/prompt-registry';
+import { PROMPT_TEMPLATE_IDS } from '../prompts/prompt-templates';
 
 // Interfaces
 export interface PersonaProfile {
@@ -39,6 +41,7 @@ export interface ScriptConfig {
   emotional_triggers: string[];
   script_structure: Record<string, string>;
   estimated_engagement_score: number;
+  prompt?: PromptRef; // Prompt template version the script was generated from
 }
 
 export interface VoiceType {
@@ -274,9 +277,9 @@ export class PersonaEngine extends BaseModel {
   async generateScript(persona: PersonaProfile, product: Record<string, any>, videoFormat: string): Promise<ScriptConfig> {
     try {
       // Build script using proven marketing frameworks
-      const scriptPrompt = this.buildScriptPrompt(persona, product, videoFormat);
+      const scriptPrompt = await this.buildScriptPrompt(persona, product, videoFormat);
       
-      const response = await this.callAI(scriptPrompt);
+      const response = await this.callAI(scriptPrompt.text);
       const scriptData = JSON.parse(response);
       
       // Apply persuasion optimization
@@ -285,6 +288,7 @@ export class PersonaEngine extends BaseModel {
       // Calculate engagement score
       const engagementScore = await this.calculateEngagementScore(optimizedScript, persona);
       optimizedScript.estimated_engagement_score = engagementScore;
+      optimizedScript.prompt = { templateId: scriptPrompt.templateId, version: scriptPrompt.version };
       
       return optimizedScript as ScriptConfig;
       
@@ -434,46 +438,8 @@ export class PersonaEngine extends BaseModel {
     `;
   }
 
-  private buildScriptPrompt(persona: PersonaProfile, product: Record<string, any>, formatType: string): string {
-    return `
-      Generate professional affiliate marketing script using proven frameworks:
-      
-      Persona: ${JSON.stringify(persona)}
-      Product: ${JSON.stringify(product, null, 2)}
-      Format: ${formatType}
-      
-      Create script using professional marketing structure:
-      
-      1. HOOK (First 3 seconds):
-      - Use curiosity gap or compelling question
-      - Match audience's current mindset
-      - Create immediate engagement
-      
-      2. PROBLEM/OPPORTUNITY IDENTIFICATION:
-      - Address real audience pain point
-      - Establish relevance and urgency
-      - Build emotional connection
-      
-      3. SOLUTION PRESENTATION:
-      - Introduce product as natural solution
-      - Highlight key benefits (not just features)
-      - Use social proof and authority indicators
-      
-      4. CALL-TO-ACTION:
-      - Clear, specific next step
-      - Remove friction and objections
-      - Create sense of urgency or scarcity
-      
-      5. PERSUASION OPTIMIZATION:
-      - Apply Cialdini's principles appropriately
-      - Use emotional triggers that match audience
-      - Include trust-building elements
-      - Add social proof indicators
-      
-      Return JSON with complete script structure, timing, and persuasion elements.
-      
-      Use techniques from successful marketing campaigns by Apple, Nike, and other major brands.
-    `;
+  private buildScriptPrompt(persona: PersonaProfile, product: Record<string, any>, formatType: string): Promise<RenderedPrompt> {
+    return promptRegistry.render(PROMPT_TEMPLATE_IDS.PERSONA_SCRIPT, { persona, product, format: formatType });
   }
 
   private async analyzeOptimalPersona(product: Record<string, any>, audience: string, formatType: string): Promise<PersonaAnalysis> {
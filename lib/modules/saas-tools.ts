@@ -4,6 +4,8 @@
  */
 
 import { BaseModel } from '../base-model';
+import { PromptRef, promptRegistry } from '../prompts/prompt-registry';
+import { PROMPT_TEMPLATE_IDS } from '../prompts/prompt-templates';
 
 // Interfaces
 export interface SaaSUsageLimit {
@@ -39,6 +41,7 @@ export interface ScriptGenerationResult {
   tokens_used?: number;
   cost_estimate?: number;
   usage_remaining?: Record<string, number>;
+  prompt?: PromptRef; // Prompt template version the script came from
   message?: string;
   limits?: UsageCheck;
 }
@@ -290,31 +293,16 @@ export class SaaSToolsEngine extends BaseModel {
       const templates = this.script_templates[niche] || this.script_templates.lifestyle;
       
       // Build prompt for script generation
-      const prompt = `
-      Create a viral TikTok script for the topic: "${topic}"
-      
-      Niche: ${niche}
-      Style: ${style}
-      
-      Use this structure: ${templates.structures[0]}
-      Start with a hook similar to: ${templates.hooks[0]}
-      
-      Requirements:
-      - Keep it under 60 seconds (150-200 words max)
-      - Include a strong hook in first 3 seconds
-      - End with clear call-to-action
-      - Make it trendy and shareable
-      - Include natural product placement opportunity
-      
-      Format as:
-      HOOK: [attention-grabbing opening]
-      BODY: [main content with value]
-      CTA: [call to action]
-      HASHTAGS: [5 relevant hashtags]
-      `;
+      const prompt = await promptRegistry.render(PROMPT_TEMPLATE_IDS.VIRAL_SCRIPT, {
+        topic,
+        niche,
+        style,
+        structure: templates.structures[0],
+        hook: templates.hooks[0]
+      });
       
       // Generate using AI (simulated for this implementation)
-      const script_content = await this.simulate_ai_script_generation(prompt, topic, niche);
+      const script_content = await this.simulate_ai_script_generation(prompt.text, topic, niche);
       
       // Parse the response
       const script_data = this.parse_script_response(script_content);
@@ -331,7 +319,8 @@ export class SaaSToolsEngine extends BaseModel {
         generated_at: new Date().toISOString(),
         tokens_used: 500, // Simulated
         cost_estimate: 0.001, // Simulated
-        usage_remaining: usage_check.remaining
+        usage_remaining: usage_check.remaining,
+        prompt: { templateId: prompt.templateId, version: prompt.version }
       };
       
       // Log usage (would update usage tracking table)
@@ -0,0 +1,256 @@
+// Music Library
+// Soundtracks uploaded once to R2 and played under the narration. Audio lives
+// under music/{id} (served by functions/api/music/[id]/audio.js); duration,
+// BPM, moods and license details are kept in one LedgerStorage index,
+// updated with compare-and-swap like the category settings.
+//
+// Renders pick a track by id, or at random among tracks matching the story
+// category's moods (horror → "dark ambient", wholesome → "upbeat").
+
+import { AudioDurationError, getAudioDuration } from '../narration/audio-duration';
+import { MusicBed, MusicLicense, MusicSelection, MusicTrack } from '../types/reddit-automation';
+import { LedgerStorage, R2BucketBinding, R2BucketLedgerStorage, casUpdate } from '../usage/ledger-storage';
+
+export class MusicLibraryError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'MusicLibraryError';
+  }
+}
+
+// Structural subset of the Workers R2Bucket binding for the audio files
+export interface MusicBucketBinding {
+  put(key: string, value: ArrayBuffer | Uint8Array, options?: { httpMetadata?: { contentType?: string } }): Promise<unknown>;
+  delete(key: string): Promise<unknown>;
+}
+
+export interface NewMusicTrack {
+  name: string;
+  artist?: string;
+  bpm?: number | null;
+  moods?: string[];
+  license: MusicLicense;
+  audio: ArrayBuffer | Uint8Array;
+}
+
+interface LibraryState {
+  tracks: MusicTrack[];
+  updatedAt: number;
+}
+
+// Soundtrack level between and after the narration, and under it
+export const DEFAULT_MUSIC_VOLUME = 0.3;
+export const DEFAULT_DUCKING_RATIO = 0.25;
+
+const MAX_TRACKS = 200;
+const MAX_TRACK_BYTES = 50 * 1024 * 1024;
+const MIN_TRACK_SECONDS = 5;
+const MOOD_PATTERN = /^[a-z0-9][a-z0-9 _-]{0,31}$/;
+
+export class MusicLibrary {
+  constructor(
+    private storage: LedgerStorage,
+    private bucket: MusicBucketBinding,
+    private publicBaseUrl: string | null,
+    private key: string = 'config/music.json'
+  ) {}
+
+  /**
+   * Every track, optionally only those with any of the moods
+   */
+  async list(moods: string[] = []): Promise<MusicTrack[]> {
+    const existing = await this.storage.read(this.key);
+    const tracks = existing ? (JSON.parse(existing.body) as LibraryState).tracks : [];
+    const wanted = normalizeMoods(moods);
+    return wanted.length ? tracks.filter(track => track.moods.some(mood => wanted.includes(mood))) : tracks;
+  }
+
+  async get(id: string): Promise<MusicTrack | null> {
+    return (await this.list()).find(track => track.id === id) || null;
+  }
+
+  /**
+   * Store a track's audio (MP3 or WAV) and index it. The duration is
+   * measured from the audio.
+   */
+  async add(input: NewMusicTrack): Promise<MusicTrack> {
+    const size = input.audio.byteLength;
+    if (size === 0 || size > MAX_TRACK_BYTES) {
+      throw new MusicLibraryError(`The audio must be between 1 byte and ${MAX_TRACK_BYTES / 1024 / 1024}MB`, 413);
+    }
+
+    let duration: number;
+    try {
+      duration = Math.round(getAudioDuration(input.audio) * 1000) / 1000;
+    } catch (error) {
+      if (error instanceof AudioDurationError) throw new MusicLibraryError(`Unreadable audio: ${error.message}`, 415);
+      throw error;
+    }
+    if (duration < MIN_TRACK_SECONDS) {
+      throw new MusicLibraryError(`Music tracks must be at least ${MIN_TRACK_SECONDS} seconds long`);
+    }
+
+    const bytes = input.audio instanceof Uint8Array ? input.audio : new Uint8Array(input.audio);
+    const track: MusicTrack = {
+      id: `music_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...validateDetails(input),
+      duration,
+      contentType: String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' ? 'audio/wav' : 'audio/mpeg',
+      size,
+      uploadedAt: new Date().toISOString()
+    };
+
+    if ((await this.list()).length >= MAX_TRACKS) {
+      throw new MusicLibraryError(`The library holds at most ${MAX_TRACKS} tracks`, 409);
+    }
+    await this.bucket.put(audioKey(track.id), input.audio, { httpMetadata: { contentType: track.contentType } });
+    await this.transact(tracks => {
+      tracks.push(track);
+    });
+    return track;
+  }
+
+  /**
+   * Change a track's name, artist, BPM, moods or license
+   */
+  async update(id: string, changes: Partial<Omit<NewMusicTrack, 'audio'>>): Promise<MusicTrack> {
+    let updated: MusicTrack | null = null;
+    await this.transact(tracks => {
+      const index = tracks.findIndex(track => track.id === id);
+      if (index < 0) {
+        throw new MusicLibraryError(`Music track ${id} not found`, 404);
+      }
+      const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+      tracks[index] = { ...tracks[index], ...validateDetails({ ...tracks[index], ...defined }) };
+      updated = tracks[index];
+    });
+    return updated!;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.transact(tracks => {
+      const index = tracks.findIndex(track => track.id === id);
+      if (index < 0) {
+        throw new MusicLibraryError(`Music track ${id} not found`, 404);
+      }
+      tracks.splice(index, 1);
+    });
+    await this.bucket.delete(audioKey(id));
+  }
+
+  /**
+   * The soundtrack for a render, or null when the library is empty. A
+   * requested track must exist; moods fall back to any track.
+   */
+  async choose(selection: MusicSelection = {}, random: () => number = Math.random): Promise<MusicBed | null> {
+    const track = pickMusicTrack(await this.list(), selection, random);
+    if (!track) return null;
+    if (!this.publicBaseUrl) {
+      throw new MusicLibraryError('No public base URL to serve music from (PUBLIC_BASE_URL)', 500);
+    }
+
+    const volume = clampVolume(selection.volume, DEFAULT_MUSIC_VOLUME);
+    return {
+      trackId: track.id,
+      name: track.artist ? `${track.name} - ${track.artist}` : track.name,
+      src: `${this.publicBaseUrl.replace(/\/$/, '')}/api/music/${track.id}/audio`,
+      duration: track.duration,
+      volume,
+      duckedVolume: Math.min(volume, clampVolume(selection.duckedVolume, volume * DEFAULT_DUCKING_RATIO)),
+      credit: track.license.attribution || undefined
+    };
+  }
+
+  private async transact(mutate: (tracks: MusicTrack[]) => void): Promise<void> {
+    await casUpdate(this.storage, this.key, (): LibraryState => ({ tracks: [], updatedAt: 0 }), state => {
+      mutate(state.tracks);
+      state.updatedAt = Date.now();
+    });
+  }
+}
+
+/**
+ * A random track with any of the moods, else any track; null for an empty
+ * library. A requested track id that doesn't exist throws (404).
+ */
+export function pickMusicTrack(
+  tracks: MusicTrack[],
+  selection: MusicSelection = {},
+  random: () => number = Math.random
+): MusicTrack | null {
+  if (selection.trackId) {
+    const track = tracks.find(candidate => candidate.id === selection.trackId);
+    if (!track) {
+      throw new MusicLibraryError(`Music track ${selection.trackId} not found`, 404);
+    }
+    return track;
+  }
+
+  const moods = normalizeMoods(selection.moods || []);
+  const matching = tracks.filter(track => track.moods.some(mood => moods.includes(mood)));
+  const pool = matching.length ? matching : tracks;
+  return pool.length ? pool[Math.floor(random() * pool.length)] : null;
+}
+
+function validateDetails(input: Partial<NewMusicTrack>): Pick<MusicTrack, 'name' | 'artist' | 'bpm' | 'moods' | 'license'> {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 80) {
+    throw new MusicLibraryError('name is required (up to 80 characters)');
+  }
+  const artist = typeof input.artist === 'string' ? input.artist.trim().slice(0, 80) : '';
+
+  // JSON bodies may send bpm as a string, and '' to clear it
+  const rawBpm: unknown = input.bpm;
+  const bpm = rawBpm === null || rawBpm === undefined || rawBpm === '' ? null : Number(rawBpm);
+  if (bpm !== null && (!Number.isFinite(bpm) || bpm < 30 || bpm > 300)) {
+    throw new MusicLibraryError('bpm must be between 30 and 300');
+  }
+
+  const moods = normalizeMoods(Array.isArray(input.moods) ? input.moods : []);
+  const invalid = moods.find(mood => !MOOD_PATTERN.test(mood));
+  if (invalid !== undefined) {
+    throw new MusicLibraryError(`Invalid mood "${invalid}" - use up to 32 letters, digits, spaces or dashes`);
+  }
+
+  const license = input.license;
+  if (!license || typeof license.name !== 'string' || !license.name.trim()) {
+    throw new MusicLibraryError('license.name is required, so every track can be used legally');
+  }
+
+  return {
+    name,
+    artist,
+    bpm: bpm === null ? null : Math.round(bpm),
+    moods,
+    license: {
+      name: license.name.trim(),
+      url: typeof license.url === 'string' && license.url.trim() ? license.url.trim() : undefined,
+      attribution: typeof license.attribution === 'string' && license.attribution.trim() ? license.attribution.trim() : undefined
+    }
+  };
+}
+
+function normalizeMoods(input: unknown[]): string[] {
+  return Array.from(new Set(input.map(mood => String(mood).trim().toLowerCase()).filter(Boolean)));
+}
+
+function clampVolume(value: unknown, fallback: number): number {
+  const volume = value === undefined || value === null ? fallback : Number(value);
+  return Number.isFinite(volume) ? Math.min(Math.max(volume, 0), 1) : fallback;
+}
+
+function audioKey(id: string): string {
+  return `music/${id}`;
+}
+
+/**
+ * Library for Pages Functions bindings, or null without an R2 bucket to
+ * keep the audio in
+ */
+export function createMusicLibrary(
+  env: { R2_BUCKET?: MusicBucketBinding & R2BucketBinding; PUBLIC_BASE_URL?: string },
+  origin?: string
+): MusicLibrary | null {
+  if (!env.R2_BUCKET) return null;
+  return new MusicLibrary(new R2BucketLedgerStorage(env.R2_BUCKET), env.R2_BUCKET, env.PUBLIC_BASE_URL || origin || null);
+}
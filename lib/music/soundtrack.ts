@@ -0,0 +1,151 @@
+// Soundtrack
+// A music bed under the narration. The music's volume is keyframed (Shotstack
+// volume tweens) so it dips while the voice plays, swells back up in pauses
+// long enough to notice and after the narration ends, and fades out at the
+// very end. Tracks shorter than the video are looped, each loop carrying its
+// slice of the keyframes.
+
+import type { MusicBed } from '../types/reddit-automation';
+
+export interface DuckingOptions {
+  fadeSeconds: number; // Length of each dip and swell
+  minGapSeconds: number; // Pauses shorter than this stay ducked rather than pumping the music
+  fadeOutSeconds: number; // Final fade to silence
+}
+
+export const DEFAULT_DUCKING: DuckingOptions = {
+  fadeSeconds: 0.4,
+  minGapSeconds: 1.5,
+  fadeOutSeconds: 2
+};
+
+// Shotstack tween: the value goes from → to over [start, start + length], relative to the clip
+export interface VolumeTween {
+  from: number;
+  to: number;
+  start: number;
+  length: number;
+}
+
+export interface SpeechRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where the voice plays, with short pauses between clips merged away.
+ * Takes anything with a start and duration, e.g. NarrationLayout clips.
+ */
+export function getSpeechRanges(
+  clips: Array<{ start: number; duration: number }>,
+  minGapSeconds: number = DEFAULT_DUCKING.minGapSeconds
+): SpeechRange[] {
+  const ranges: SpeechRange[] = [];
+  for (const clip of [...clips].sort((a, b) => a.start - b.start)) {
+    const last = ranges[ranges.length - 1];
+    const end = clip.start + clip.duration;
+    if (last && clip.start - last.end < minGapSeconds) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start: clip.start, end });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Volume keyframes for the whole video: `volume` where nobody speaks,
+ * `duckedVolume` under the voice (reached by the time it starts), and a
+ * fade to silence at the end. Contiguous from 0 to totalDuration.
+ */
+export function buildDuckingTweens(
+  speech: SpeechRange[],
+  totalDuration: number,
+  volume: number,
+  duckedVolume: number,
+  options: DuckingOptions = DEFAULT_DUCKING
+): VolumeTween[] {
+  const fade = options.fadeSeconds;
+  const points: Array<{ time: number; level: number }> = [];
+  const point = (time: number, level: number) => {
+    const clamped = round(Math.min(Math.max(time, 0), totalDuration));
+    const last = points[points.length - 1];
+    if (last && clamped < last.time) return;
+    if (last && clamped === last.time && level === last.level) return;
+    points.push({ time: clamped, level });
+  };
+
+  for (const range of speech) {
+    if (range.end <= 0 || range.start >= totalDuration) continue;
+    if (points.length === 0 && range.start > 0) point(0, volume);
+
+    const previous = points[points.length - 1];
+    point(Math.max(range.start - fade, previous ? previous.time : 0), volume);
+    point(range.start, duckedVolume);
+    point(range.end, duckedVolume);
+    point(range.end + fade, volume);
+  }
+  if (points.length === 0) point(0, volume);
+
+  // Hold the last level, then fade out
+  const last = points[points.length - 1];
+  if (last.time < totalDuration) {
+    point(Math.max(last.time, totalDuration - options.fadeOutSeconds), last.level);
+  }
+  point(totalDuration, 0);
+
+  const tweens: VolumeTween[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const length = round(points[i].time - points[i - 1].time);
+    if (length > 0) {
+      tweens.push({ from: points[i - 1].level, to: points[i].level, start: points[i - 1].time, length });
+    }
+  }
+  return tweens;
+}
+
+/**
+ * The part of the keyframes inside [start, end], relative to `start`
+ */
+export function sliceTweens(tweens: VolumeTween[], start: number, end: number): VolumeTween[] {
+  return tweens
+    .filter(tween => tween.start < end && tween.start + tween.length > start)
+    .map(tween => {
+      const from = Math.max(tween.start, start);
+      const to = Math.min(tween.start + tween.length, end);
+      const at = (time: number) => round(tween.from + ((tween.to - tween.from) * (time - tween.start)) / tween.length);
+      return { from: at(from), to: at(to), start: round(from - start), length: round(to - from) };
+    })
+    .filter(tween => tween.length > 0);
+}
+
+/**
+ * Shotstack audio track playing the bed under `speech`, looped to fill the
+ * video
+ */
+export function buildSoundtrackTrack(
+  bed: MusicBed,
+  speech: SpeechRange[],
+  totalDuration: number,
+  options: DuckingOptions = DEFAULT_DUCKING
+) {
+  if (!(bed.duration > 0)) {
+    throw new Error(`Music track ${bed.trackId} has no duration`);
+  }
+  const tweens = buildDuckingTweens(speech, totalDuration, bed.volume, bed.duckedVolume, options);
+
+  const clips = [];
+  for (let start = 0; totalDuration - start > 0.001; start = round(start + bed.duration)) {
+    const length = round(Math.min(bed.duration, totalDuration - start));
+    clips.push({
+      asset: { type: 'audio', src: bed.src, volume: sliceTweens(tweens, start, start + length) },
+      start,
+      length
+    });
+  }
+  return { clips };
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
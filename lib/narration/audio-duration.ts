@@ -0,0 +1,160 @@
+// Audio Duration
+// Narration clips are placed back-to-back on the timeline, so each clip's
+// start depends on the exact length of the clips before it. TTS APIs don't
+// report that reliably, so read it from the audio itself: MP3 (frame
+// headers, or the Xing/Info header for VBR files) and WAV (RIFF header).
+
+export class AudioDurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioDurationError';
+  }
+}
+
+// MPEG Layer III bitrates (kbps) by version group, indexed by header bits
+const MP3_BITRATES: Record<'v1' | 'v2', number[]> = {
+  v1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000] // MPEG 2.5
+};
+
+/**
+ * Duration in seconds of an MP3 or WAV file
+ */
+export function getAudioDuration(data: ArrayBuffer | Uint8Array): number {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') {
+    return getWavDuration(bytes);
+  }
+  return getMp3Duration(bytes);
+}
+
+/**
+ * Download an audio file and measure it
+ */
+export async function fetchAudioDuration(url: string): Promise<number> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new AudioDurationError(`Failed to download audio ${url}: ${response.status}`);
+  }
+  return getAudioDuration(await response.arrayBuffer());
+}
+
+/**
+ * Byte offset of the first MP3 frame, skipping an ID3v2 tag. Used when
+ * joining MP3s so only the first keeps its tag.
+ */
+export function getMp3AudioStart(bytes: Uint8Array): number {
+  if (ascii(bytes, 0, 3) !== 'ID3' || bytes.length < 10) return 0;
+  // Syncsafe size: 7 bits per byte, plus the 10-byte header (and footer if flagged)
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  return 10 + size + (bytes[5] & 0x10 ? 10 : 0);
+}
+
+function getMp3Duration(bytes: Uint8Array): number {
+  let offset = getMp3AudioStart(bytes);
+  let seconds = 0;
+  let frames = 0;
+
+  while (offset + 4 <= bytes.length) {
+    const frame = parseMp3FrameHeader(bytes, offset);
+    if (!frame) {
+      // Resync past junk between frames (or a trailing ID3v1 tag)
+      offset++;
+      continue;
+    }
+
+    // A Xing/Info header in the first frame carries the total frame count
+    if (frames === 0) {
+      const total = readXingFrameCount(bytes, offset, frame);
+      if (total !== null) return (total * frame.samples) / frame.sampleRate;
+    }
+
+    seconds += frame.samples / frame.sampleRate;
+    frames++;
+    offset += frame.length;
+  }
+
+  if (frames === 0) {
+    throw new AudioDurationError('No MP3 frames found - unsupported audio format');
+  }
+  return seconds;
+}
+
+interface Mp3Frame {
+  length: number;
+  samples: number;
+  sampleRate: number;
+  mono: boolean;
+  version: number;
+}
+
+function parseMp3FrameHeader(bytes: Uint8Array, offset: number): Mp3Frame | null {
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const version = (bytes[offset + 1] >> 3) & 0x03; // 3 = MPEG1, 2 = MPEG2, 0 = MPEG2.5
+  const layer = (bytes[offset + 1] >> 1) & 0x03; // 1 = Layer III
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const bitrate = MP3_BITRATES[version === 3 ? 'v1' : 'v2'][bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+  const samples = version === 3 ? 1152 : 576;
+  const length = Math.floor(((samples / 8) * bitrate) / sampleRate) + padding;
+
+  return { length, samples, sampleRate, mono: (bytes[offset + 3] >> 6) === 3, version };
+}
+
+function readXingFrameCount(bytes: Uint8Array, offset: number, frame: Mp3Frame): number | null {
+  // Side info size depends on version and channel mode
+  const sideInfo = frame.version === 3 ? (frame.mono ? 17 : 32) : (frame.mono ? 9 : 17);
+  const tagOffset = offset + 4 + sideInfo;
+  const tag = ascii(bytes, tagOffset, 4);
+  if (tag !== 'Xing' && tag !== 'Info') return null;
+
+  const flags = readUint32(bytes, tagOffset + 4);
+  if (!(flags & 0x01)) return null; // Frame count not present
+  return readUint32(bytes, tagOffset + 8);
+}
+
+function getWavDuration(bytes: Uint8Array): number {
+  let byteRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = readUint32LE(bytes, offset + 4);
+
+    if (id === 'fmt ') byteRate = readUint32LE(bytes, offset + 16);
+    if (id === 'data') {
+      if (!byteRate) throw new AudioDurationError('WAV data chunk before fmt chunk');
+      // Streamed WAVs may claim a bigger data chunk than they contain
+      return Math.min(size, bytes.length - offset - 8) / byteRate;
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  throw new AudioDurationError('WAV file has no data chunk');
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
@@ -0,0 +1,30 @@
+// Narration Audio Store
+// Providers that return audio bytes (ElevenLabs, the local stub) need the
+// chunks hosted somewhere the renderer can fetch them: R2, served by
+// functions/api/audio/[name].js.
+
+// Structural subset of the Workers R2Bucket binding
+export interface AudioBucketBinding {
+  put(key: string, value: ArrayBuffer | Uint8Array, options?: { httpMetadata?: { contentType?: string } }): Promise<unknown>;
+}
+
+export interface NarrationAudioStore {
+  // Returns the public URL of the stored audio
+  save(name: string, audio: Uint8Array, contentType: string): Promise<string>;
+}
+
+/**
+ * Store audio under audio/{name} and return its absolute URL on this site
+ */
+export function createR2NarrationAudioStore(bucket: AudioBucketBinding, publicBaseUrl: string): NarrationAudioStore {
+  const base = publicBaseUrl.replace(/\/$/, '');
+  return {
+    async save(name, audio, contentType) {
+      if (!/^[\w.-]+\.(mp3|wav)$/.test(name)) {
+        throw new Error(`Invalid narration audio name: ${name}`);
+      }
+      await bucket.put(`audio/${name}`, audio, { httpMetadata: { contentType } });
+      return `${base}/api/audio/${name}`;
+    }
+  };
+}
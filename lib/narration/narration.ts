@@ -0,0 +1,77 @@
+// Narration Layout
+// Synthesized chunks become sequential audio clips: each one starts where
+// the previous one ends, using the measured duration of every clip, so the
+// narration plays as one continuous voiceover.
+
+import { getMp3AudioStart } from './audio-duration';
+
+export interface NarrationClip {
+  index: number;
+  audioUrl: string;
+  duration: number; // Seconds, measured from the audio
+}
+
+export interface TimedNarrationClip extends NarrationClip {
+  start: number;
+}
+
+export interface NarrationLayout {
+  clips: TimedNarrationClip[];
+  totalDuration: number;
+}
+
+/**
+ * Place clips back-to-back in chunk order, optionally with a pause between
+ */
+export function layoutNarration(clips: NarrationClip[], gapSeconds: number = 0): NarrationLayout {
+  let cursor = 0;
+  const timed = [...clips]
+    .sort((a, b) => a.index - b.index)
+    .map((clip, position) => {
+      if (!(clip.duration > 0)) {
+        throw new Error(`Narration clip ${clip.index} has no duration`);
+      }
+      const start = roundSeconds(cursor + (position > 0 ? gapSeconds : 0));
+      cursor = start + clip.duration;
+      return { ...clip, start };
+    });
+
+  return { clips: timed, totalDuration: roundSeconds(cursor) };
+}
+
+/**
+ * Shotstack audio track for a narration layout
+ */
+export function buildNarrationTrack(layout: NarrationLayout, volume: number = 1.0) {
+  return {
+    clips: layout.clips.map(clip => ({
+      asset: {
+        type: 'audio',
+        src: clip.audioUrl,
+        volume
+      },
+      start: clip.start,
+      length: roundSeconds(clip.duration)
+    }))
+  };
+}
+
+/**
+ * Join MP3 chunks into one file. MP3 frames concatenate cleanly; only the
+ * ID3 tags of the later chunks have to go.
+ */
+export function joinMp3Chunks(chunks: Uint8Array[]): Uint8Array {
+  const parts = chunks.map((chunk, i) => (i === 0 ? chunk : chunk.subarray(getMp3AudioStart(chunk))));
+  const joined = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined;
+}
+
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
@@ -0,0 +1,145 @@
+// Narration Text Chunker
+// TTS providers cap the text per request (Shotstack 2000 characters,
+// ElevenLabs 5000). Rather than truncating a story, split it into chunks
+// that end on sentence boundaries so each clip sounds complete and the
+// clips can be played back-to-back.
+
+export interface NarrationChunk {
+  index: number;
+  text: string;
+  start: number; // Character offsets into the cleaned text
+  end: number;
+}
+
+export interface ChunkOptions {
+  maxChars: number;
+}
+
+// Character offsets into the cleaned text
+interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Provider limits with headroom for the odd multi-byte character
+export const SHOTSTACK_TTS_MAX_CHARS = 1900;
+export const ELEVENLABS_TTS_MAX_CHARS = 4500;
+
+// Abbreviations that end in a period without ending the sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'approx', 'apt', 'no', 'u.s', 'u.k'
+]);
+
+/**
+ * Strip control characters and collapse whitespace, as TTS engines read
+ * stray newlines and tabs as pauses or noise
+ */
+export function cleanNarrationText(text: string): string {
+  return text
+    .replace(/[\x00-\x1F\x7F-\x9F]/g, ' ') // Remove control characters (incl. newlines)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split text into sentences, keeping trailing punctuation and closing quotes
+ */
+export function splitSentences(text: string): string[] {
+  return sentenceRanges(text).map(range => text.slice(range.start, range.end));
+}
+
+/**
+ * Greedily pack whole sentences into chunks of at most `maxChars`. A single
+ * sentence longer than that is split at clause punctuation, then at words.
+ * Chunks are slices of the cleaned text, so their offsets always match.
+ */
+export function chunkNarrationText(text: string, options: ChunkOptions): NarrationChunk[] {
+  const { maxChars } = options;
+  if (maxChars < 20) {
+    throw new Error(`Chunk size ${maxChars} is too small to split text sensibly`);
+  }
+
+  const cleaned = cleanNarrationText(text);
+  const pieces = sentenceRanges(cleaned).flatMap(sentence => splitLongSentence(cleaned, sentence, maxChars));
+
+  const chunks: NarrationChunk[] = [];
+  let current: TextRange | null = null;
+
+  for (const piece of pieces) {
+    if (current && piece.end - current.start > maxChars) {
+      chunks.push(toChunk(cleaned, current, chunks.length));
+      current = null;
+    }
+    current = current ? { start: current.start, end: piece.end } : piece;
+  }
+  if (current) chunks.push(toChunk(cleaned, current, chunks.length));
+
+  return chunks;
+}
+
+function toChunk(text: string, range: TextRange, index: number): NarrationChunk {
+  return { index, text: text.slice(range.start, range.end), start: range.start, end: range.end };
+}
+
+function sentenceRanges(text: string): TextRange[] {
+  const sentences: TextRange[] = [];
+  const boundary = /[.!?…]+["'”’)\]]*(?=\s+|$)/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+
+    // "Dr. Smith" and "3.5" are not sentence ends
+    const word = text.slice(start, match.index).split(/\s+/).pop()!.toLowerCase();
+    if (match[0] === '.' && ABBREVIATIONS.has(word)) continue;
+
+    pushTrimmed(text, sentences, start, end);
+    start = end;
+  }
+
+  pushTrimmed(text, sentences, start, text.length);
+  return sentences;
+}
+
+function pushTrimmed(text: string, ranges: TextRange[], start: number, end: number): void {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (end > start) ranges.push({ start, end });
+}
+
+function splitLongSentence(text: string, sentence: TextRange, maxChars: number): TextRange[] {
+  if (sentence.end - sentence.start <= maxChars) return [sentence];
+
+  // Prefer clause boundaries, then fall back to plain word wrapping
+  const words = Array.from(text.slice(sentence.start, sentence.end).matchAll(/\S+/g), match => ({
+    start: sentence.start + match.index!,
+    end: sentence.start + match.index! + match[0].length
+  }));
+  const clauses: TextRange[][] = [[]];
+  words.forEach((word, index) => {
+    clauses[clauses.length - 1].push(word);
+    if (/[,;:—–]$/.test(text.slice(word.start, word.end)) && index < words.length - 1) clauses.push([]);
+  });
+
+  const parts: TextRange[] = [];
+  let current: TextRange | null = null;
+
+  for (const clause of clauses) {
+    const whole = { start: clause[0].start, end: clause[clause.length - 1].end };
+    const units = whole.end - whole.start > maxChars ? clause : [whole];
+    for (const unit of units) {
+      // A single "word" longer than the limit (e.g. a URL) is hard-split
+      for (let i = unit.start; i < unit.end; i += maxChars) {
+        const fragment = { start: i, end: Math.min(i + maxChars, unit.end) };
+        if (current && fragment.end - current.start > maxChars) {
+          parts.push(current);
+          current = null;
+        }
+        current = current ? { start: current.start, end: fragment.end } : fragment;
+      }
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
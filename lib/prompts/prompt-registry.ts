@@ -0,0 +1,361 @@
+// Prompt Template Registry
+// Every LLM-backed generator renders its prompt from a named template here
+// instead of building the string inline, so prompts can be edited without a
+// redeploy. Templates are versioned: saving a template adds a version (and by
+// default makes it the active one), older versions stay renderable, and each
+// generated artifact records the { templateId, version } that produced it so
+// output quality can be compared between versions. All templates live in one
+// LedgerStorage object, updated with compare-and-swap; until a template is
+// first edited its built-in version 1 is used.
+//
+// Template text uses {{name}} placeholders for declared variables:
+//   string - inserted as-is
+//   number - must be a finite number
+//   json   - any value, inserted as indented JSON
+//   choice - the caller passes a key; the text in `options` for that key
+//            (or `fallback`) is inserted, so per-category wording lives in
+//            the template too
+
+import { BUILT_IN_PROMPT_TEMPLATES } from './prompt-templates';
+import { LedgerStorage, MemoryLedgerStorage, R2BucketBinding, R2BucketLedgerStorage, casUpdate } from '../usage/ledger-storage';
+
+export class PromptTemplateError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export type PromptVariableType = 'string' | 'number' | 'json' | 'choice';
+
+export interface PromptVariable {
+  name: string;
+  type: PromptVariableType;
+  description?: string;
+  required?: boolean; // Default true, unless a default is given
+  default?: string | number;
+  options?: Record<string, string>; // 'choice': text inserted for each key
+  fallback?: string; // 'choice': text for keys not in options
+}
+
+export interface PromptTemplateInput {
+  description?: string;
+  template: string;
+  variables: PromptVariable[];
+  note?: string; // What changed in this version
+}
+
+export interface PromptTemplateVersion extends PromptTemplateInput {
+  templateId: string;
+  version: number;
+  description: string;
+  createdAt: string;
+}
+
+export interface PromptTemplateSummary {
+  id: string;
+  description: string;
+  activeVersion: number;
+  versions: number[];
+  updatedAt: string;
+}
+
+// Recorded on whatever a rendered prompt produced
+export interface PromptRef {
+  templateId: string;
+  version: number;
+}
+
+export interface RenderedPrompt extends PromptRef {
+  text: string;
+}
+
+interface PromptTemplateEntry {
+  activeVersion: number;
+  versions: PromptTemplateVersion[];
+}
+
+interface PromptState {
+  templates: Record<string, PromptTemplateEntry>;
+  updatedAt: number;
+}
+
+const MAX_TEMPLATES = 100;
+const MAX_VERSIONS = 100;
+const MAX_TEMPLATE_LENGTH = 20000;
+const MAX_VARIABLES = 30;
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const VARIABLE_TYPES: PromptVariableType[] = ['string', 'number', 'json', 'choice'];
+
+export class PromptRegistry {
+  constructor(private storage: LedgerStorage, private key: string = 'config/prompts.json') {}
+
+  setStorage(storage: LedgerStorage): void {
+    this.storage = storage;
+  }
+
+  async list(): Promise<PromptTemplateSummary[]> {
+    const { templates } = await this.load();
+    return Object.entries(templates).map(([id, entry]) => {
+      const active = entry.versions.find(version => version.version === entry.activeVersion)!;
+      return {
+        id,
+        description: active.description,
+        activeVersion: entry.activeVersion,
+        versions: entry.versions.map(version => version.version),
+        updatedAt: entry.versions[entry.versions.length - 1].createdAt
+      };
+    });
+  }
+
+  /**
+   * A version of a template, the active one unless `version` is given
+   */
+  async get(id: string, version?: number): Promise<PromptTemplateVersion> {
+    const entry = (await this.load()).templates[id];
+    if (!entry) {
+      throw new PromptTemplateError(`Prompt template ${id} not found`, 404);
+    }
+    return findVersion(id, entry, version ?? entry.activeVersion);
+  }
+
+  async history(id: string): Promise<{ activeVersion: number; versions: PromptTemplateVersion[] }> {
+    const entry = (await this.load()).templates[id];
+    if (!entry) {
+      throw new PromptTemplateError(`Prompt template ${id} not found`, 404);
+    }
+    return entry;
+  }
+
+  /**
+   * Save a new version of a template (creating the template if needed).
+   * It becomes the active version unless `activate` is false.
+   */
+  async save(id: string, input: unknown, activate: boolean = true): Promise<PromptTemplateVersion> {
+    validateTemplateId(id);
+    const validated = validatePromptTemplate(input);
+    let saved: PromptTemplateVersion | null = null;
+
+    await this.transact(templates => {
+      const entry = templates[id];
+      if (!entry && Object.keys(templates).length >= MAX_TEMPLATES) {
+        throw new PromptTemplateError(`At most ${MAX_TEMPLATES} prompt templates can be configured`);
+      }
+      if (entry && entry.versions.length >= MAX_VERSIONS) {
+        throw new PromptTemplateError(`Prompt template ${id} already has ${MAX_VERSIONS} versions`, 409);
+      }
+
+      const previous = entry ? entry.versions[entry.versions.length - 1] : null;
+      saved = {
+        ...validated,
+        templateId: id,
+        version: previous ? previous.version + 1 : 1,
+        description: validated.description || previous?.description || '',
+        createdAt: new Date().toISOString()
+      };
+      templates[id] = {
+        activeVersion: activate || !entry ? saved.version : entry.activeVersion,
+        versions: [...(entry?.versions || []), saved]
+      };
+    });
+    return saved!;
+  }
+
+  /**
+   * Switch the template back (or forward) to one of its saved versions
+   */
+  async activate(id: string, version: number): Promise<PromptTemplateVersion> {
+    let activated: PromptTemplateVersion | null = null;
+    await this.transact(templates => {
+      const entry = templates[id];
+      if (!entry) {
+        throw new PromptTemplateError(`Prompt template ${id} not found`, 404);
+      }
+      activated = findVersion(id, entry, version);
+      entry.activeVersion = version;
+    });
+    return activated!;
+  }
+
+  /**
+   * Render a template's active version (or `version`) with the given values
+   */
+  async render(id: string, variables: Record<string, unknown>, version?: number): Promise<RenderedPrompt> {
+    const template = await this.get(id, version);
+    return {
+      templateId: id,
+      version: template.version,
+      text: renderPromptTemplate(template, variables)
+    };
+  }
+
+  // Saved templates plus any built-in ones that haven't been edited yet
+  private async load(): Promise<PromptState> {
+    const existing = await this.storage.read(this.key);
+    return withBuiltIns(existing ? JSON.parse(existing.body) : { templates: {}, updatedAt: 0 });
+  }
+
+  private async transact(mutate: (templates: Record<string, PromptTemplateEntry>) => void): Promise<void> {
+    await casUpdate(this.storage, this.key, (): PromptState => ({ templates: {}, updatedAt: 0 }), state => {
+      mutate(withBuiltIns(state).templates);
+      state.updatedAt = Date.now();
+    });
+  }
+}
+
+/**
+ * Fill a template's placeholders. Throws PromptTemplateError naming the
+ * first missing or mistyped variable; values for undeclared names are ignored.
+ */
+export function renderPromptTemplate(template: Pick<PromptTemplateInput, 'template' | 'variables'>, values: Record<string, unknown>): string {
+  const rendered: Record<string, string> = {};
+
+  for (const variable of template.variables) {
+    let value = values[variable.name];
+    if (value === undefined || value === null) value = variable.default;
+    if (value === undefined || value === null) {
+      if (variable.required === false) {
+        rendered[variable.name] = '';
+        continue;
+      }
+      throw new PromptTemplateError(`Missing prompt variable: ${variable.name}`);
+    }
+
+    switch (variable.type) {
+      case 'string':
+        if (typeof value !== 'string' && typeof value !== 'number') {
+          throw new PromptTemplateError(`Prompt variable ${variable.name} must be a string`);
+        }
+        rendered[variable.name] = String(value);
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new PromptTemplateError(`Prompt variable ${variable.name} must be a number`);
+        }
+        rendered[variable.name] = String(value);
+        break;
+      case 'json':
+        rendered[variable.name] = JSON.stringify(value, null, 2);
+        break;
+      case 'choice': {
+        const option = variable.options?.[String(value)] ?? variable.fallback;
+        if (option === undefined) {
+          throw new PromptTemplateError(`Prompt variable ${variable.name} must be one of: ${Object.keys(variable.options || {}).join(', ')}`);
+        }
+        rendered[variable.name] = option;
+        break;
+      }
+    }
+  }
+
+  return template.template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => rendered[name]);
+}
+
+/**
+ * A template from user input. Every placeholder must be a declared variable.
+ */
+export function validatePromptTemplate(input: unknown): PromptTemplateInput {
+  if (!input || typeof input !== 'object') {
+    throw new PromptTemplateError('Prompt template must be an object');
+  }
+  const raw = input as Record<string, any>;
+
+  const template = typeof raw.template === 'string' ? raw.template : '';
+  if (!template.trim() || template.length > MAX_TEMPLATE_LENGTH) {
+    throw new PromptTemplateError(`template is required (up to ${MAX_TEMPLATE_LENGTH} characters)`);
+  }
+
+  if (!Array.isArray(raw.variables) || raw.variables.length > MAX_VARIABLES) {
+    throw new PromptTemplateError(`variables must list at most ${MAX_VARIABLES} variables`);
+  }
+  const variables = raw.variables.map(validateVariable);
+  const names = new Set<string>();
+  for (const variable of variables) {
+    if (names.has(variable.name)) {
+      throw new PromptTemplateError(`Variable ${variable.name} is declared twice`);
+    }
+    names.add(variable.name);
+  }
+
+  for (const [, name] of Array.from(template.matchAll(PLACEHOLDER_PATTERN))) {
+    if (!names.has(name)) {
+      throw new PromptTemplateError(`Placeholder {{${name}}} has no declared variable`);
+    }
+  }
+
+  return {
+    description: typeof raw.description === 'string' ? raw.description.trim().slice(0, 200) : undefined,
+    template,
+    variables,
+    note: typeof raw.note === 'string' && raw.note.trim() ? raw.note.trim().slice(0, 500) : undefined
+  };
+}
+
+function validateVariable(input: unknown): PromptVariable {
+  if (!input || typeof input !== 'object') {
+    throw new PromptTemplateError('Each variable must be an object');
+  }
+  const raw = input as Record<string, any>;
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!VARIABLE_NAME_PATTERN.test(name)) {
+    throw new PromptTemplateError(`Invalid variable name: ${name || '(empty)'}`);
+  }
+  if (!VARIABLE_TYPES.includes(raw.type)) {
+    throw new PromptTemplateError(`Variable ${name} type must be one of: ${VARIABLE_TYPES.join(', ')}`);
+  }
+
+  const variable: PromptVariable = { name, type: raw.type };
+  if (typeof raw.description === 'string' && raw.description.trim()) variable.description = raw.description.trim();
+  if (typeof raw.required === 'boolean') variable.required = raw.required;
+  if (typeof raw.default === 'string' || typeof raw.default === 'number') variable.default = raw.default;
+
+  if (variable.type === 'choice') {
+    if (!raw.options || typeof raw.options !== 'object' || Object.keys(raw.options).length === 0) {
+      throw new PromptTemplateError(`Choice variable ${name} needs options`);
+    }
+    variable.options = Object.fromEntries(Object.entries(raw.options).map(([key, text]) => [key, String(text)]));
+    if (typeof raw.fallback === 'string') variable.fallback = raw.fallback;
+  }
+  return variable;
+}
+
+function validateTemplateId(id: string): void {
+  if (!TEMPLATE_ID_PATTERN.test(id)) {
+    throw new PromptTemplateError('Template id must be 1-64 lowercase letters, digits or dashes');
+  }
+}
+
+function findVersion(id: string, entry: PromptTemplateEntry, version: number): PromptTemplateVersion {
+  const found = entry.versions.find(candidate => candidate.version === version);
+  if (!found) {
+    throw new PromptTemplateError(`Prompt template ${id} has no version ${version}`, 404);
+  }
+  return found;
+}
+
+function withBuiltIns(state: PromptState): PromptState {
+  for (const [id, builtIn] of Object.entries(BUILT_IN_PROMPT_TEMPLATES)) {
+    if (!state.templates[id]) {
+      state.templates[id] = {
+        activeVersion: 1,
+        versions: [{ ...JSON.parse(JSON.stringify(builtIn)), templateId: id, version: 1, createdAt: new Date(0).toISOString() }]
+      };
+    }
+  }
+  return state;
+}
+
+// Global registry the generators render from. Built-in templates only until
+// configureLedgerStorage() (lib/usage/ledger-config.ts) points it at the
+// storage /api/prompts saves to.
+export const promptRegistry = new PromptRegistry(new MemoryLedgerStorage());
+
+export function createPromptRegistry(env: { R2_BUCKET?: R2BucketBinding }): PromptRegistry {
+  if (env.R2_BUCKET) return new PromptRegistry(new R2BucketLedgerStorage(env.R2_BUCKET));
+
+  console.warn('⚠️ No R2_BUCKET binding - prompt templates are per-instance only');
+  return promptRegistry;
+}
@@ -0,0 +1,240 @@
+// Built-in Prompt Templates
+// Version 1 of each generator's prompt - what the registry serves until a
+// template is edited. Ids are what the generators render by, so keep them
+// stable; change the wording through the registry instead.
+
+import type { PromptTemplateInput } from './prompt-registry';
+
+export const PROMPT_TEMPLATE_IDS = {
+  STORY_ENHANCEMENT: 'story-enhancement', // ClaudeService
+  LLM_TASK: 'llm-task', // LLMRouter
+  PERSONA_SCRIPT: 'persona-script', // PersonaEngine
+  SUPPLEMENT_SCRIPT: 'supplement-script', // OpenAIProductionEngine
+  VIRAL_SCRIPT: 'viral-script' // SaaSToolsEngine
+} as const;
+
+export const BUILT_IN_PROMPT_TEMPLATES: Record<string, PromptTemplateInput> = {
+  [PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT]: {
+    description: 'Restructures a Reddit story into a narration script without changing its facts',
+    variables: [
+      { name: 'subreddit', type: 'string' },
+      { name: 'title', type: 'string' },
+      { name: 'content', type: 'string' },
+      {
+        name: 'category',
+        type: 'choice',
+        options: {
+          drama: 'Structure for maximum emotional impact and pacing',
+          horror: 'Organize for suspense and atmospheric tension buildup',
+          revenge: 'Structure the setup and payoff for maximum satisfaction',
+          wholesome: 'Pace the heartwarming moments for emotional resonance',
+          mystery: 'Build intrigue through strategic information reveal'
+        },
+        fallback: 'Structure the story for clear pacing and a satisfying payoff'
+      },
+      { name: 'targetMinutes', type: 'number' },
+      { name: 'targetWords', type: 'number' }
+    ],
+    template: `Transform this Reddit story into an engaging YouTube script format WHILE KEEPING ALL FACTS EXACTLY THE SAME.
+
+ORIGINAL STORY (r/{{subreddit}}):
+Title: {{title}}
+Content: {{content}}
+
+CRITICAL RULES:
+- DO NOT add any new facts, details, or information
+- DO NOT change what actually happened
+- DO NOT make up dialogue, names, or events
+- ONLY improve how the true story is told
+
+INSTRUCTIONS FOR PRESENTATION:
+- {{category}}
+- Start with an immediate hook using the actual story details
+- Break into clear segments perfect for voiceover pacing
+- Add strategic pauses marked with [PAUSE] for dramatic effect
+- Use natural speech patterns and contractions
+- Target {{targetMinutes}} minutes when read aloud ({{targetWords}} words approximately)
+- End with engaging question to audience about the real situation
+
+KEEP THE STORY 100% TRUTHFUL - only improve pacing, structure, and delivery.
+
+Return ONLY the restructured script with no explanations:`
+  },
+
+  [PROMPT_TEMPLATE_IDS.LLM_TASK]: {
+    description: 'Instructions plus request details for a task routed to any LLM',
+    variables: [
+      {
+        name: 'task_type',
+        type: 'choice',
+        options: {
+          client_communication: `You are communicating with a client for our AI automation agency. Be professional,
+helpful, and focus on understanding their needs. Maintain a warm but professional tone.`,
+          proposal_generation: `Generate a professional proposal based on the client requirements. Include pricing,
+timeline, deliverables, and clear value propositions. Make it compelling but honest.`,
+          technical_build: `This is a technical implementation task. Provide detailed, working code or technical
+specifications. Focus on best practices, scalability, and maintainability.`,
+          content_creation: `Create engaging, high-quality content that aligns with the specified requirements.
+Make it compelling and audience-appropriate.`,
+          code_generation: `Generate clean, efficient, and well-documented code. Follow best practices and include
+appropriate comments and error handling.`,
+          research_analysis: `Conduct thorough research and provide comprehensive analysis. Include credible sources
+and actionable insights.`,
+          documentation: `Create clear, comprehensive documentation that is easy to understand and follow.
+Include examples and best practices.`,
+          troubleshooting: `Analyze the problem systematically and provide step-by-step troubleshooting guidance.
+Include prevention strategies.`,
+          data_analysis: `Perform thorough data analysis and provide insights with supporting evidence.
+Include visualizations if appropriate.`,
+          creative_writing: `Create engaging, original content that captures the intended voice and style.
+Make it compelling and memorable.`
+        },
+        fallback: 'Complete the requested task professionally and thoroughly.'
+      },
+      { name: 'task_type_name', type: 'string' },
+      { name: 'priority', type: 'string' },
+      { name: 'client_id', type: 'string' },
+      { name: 'project_id', type: 'string' },
+      { name: 'description', type: 'string' },
+      { name: 'context', type: 'json' },
+      { name: 'requirements', type: 'json' }
+    ],
+    template: `{{task_type}}
+
+Task Type: {{task_type_name}}
+Priority: {{priority}}
+Client ID: {{client_id}}
+Project ID: {{project_id}}
+
+Task Description: {{description}}
+
+Context: {{context}}
+
+Requirements: {{requirements}}`
+  },
+
+  [PROMPT_TEMPLATE_IDS.PERSONA_SCRIPT]: {
+    description: 'Affiliate marketing script for a persona and product, returned as JSON',
+    variables: [
+      { name: 'persona', type: 'json' },
+      { name: 'product', type: 'json' },
+      { name: 'format', type: 'string' }
+    ],
+    template: `Generate professional affiliate marketing script using proven frameworks:
+
+Persona: {{persona}}
+Product: {{product}}
+Format: {{format}}
+
+Create script using professional marketing structure:
+
+1. HOOK (First 3 seconds):
+- Use curiosity gap or compelling question
+- Match audience's current mindset
+- Create immediate engagement
+
+2. PROBLEM/OPPORTUNITY IDENTIFICATION:
+- Address real audience pain point
+- Establish relevance and urgency
+- Build emotional connection
+
+3. SOLUTION PRESENTATION:
+- Introduce product as natural solution
+- Highlight key benefits (not just features)
+- Use social proof and authority indicators
+
+4. CALL-TO-ACTION:
+- Clear, specific next step
+- Remove friction and objections
+- Create sense of urgency or scarcity
+
+5. PERSUASION OPTIMIZATION:
+- Apply Cialdini's principles appropriately
+- Use emotional triggers that match audience
+- Include trust-building elements
+- Add social proof indicators
+
+Return JSON with complete script structure, timing, and persuasion elements.
+
+Use techniques from successful marketing campaigns by Apple, Nike, and other major brands.`
+  },
+
+  [PROMPT_TEMPLATE_IDS.SUPPLEMENT_SCRIPT]: {
+    description: 'One variation of a short supplement script from a psychological template',
+    variables: [
+      { name: 'productName', type: 'string' },
+      { name: 'price', type: 'string' },
+      { name: 'painPoint', type: 'string' },
+      { name: 'emotionalTrigger', type: 'string' },
+      { name: 'hookFormula', type: 'string' },
+      { name: 'mechanism', type: 'string' },
+      { name: 'conversionAngle', type: 'string' },
+      { name: 'scriptStructure', type: 'json' },
+      { name: 'variationNumber', type: 'number' }
+    ],
+    template: `Generate a viral supplement script using this Claude-designed psychological framework:
+
+PRODUCT: {{productName}}
+PRICE: {{price}}
+PAIN POINT: {{painPoint}}
+
+PSYCHOLOGICAL TEMPLATE:
+- Emotional Trigger: {{emotionalTrigger}}
+- Hook Formula: {{hookFormula}}
+- Scientific Mechanism: {{mechanism}}
+- Conversion Angle: {{conversionAngle}}
+
+SCRIPT STRUCTURE (Claude-designed):
+{{scriptStructure}}
+
+REQUIREMENTS:
+1. 20-25 seconds when spoken (80-100 words)
+2. Start with hook that embodies: {{hookFormula}}
+3. Target emotional trigger: {{emotionalTrigger}}
+4. Explain mechanism: {{mechanism}}
+5. Use conversion angle: {{conversionAngle}}
+6. End with urgent CTA
+7. Sound natural and conversational
+8. Include "mishearing" words for engagement
+
+OUTPUT FORMAT:
+Hook: [0-3 seconds opening that grabs attention]
+Problem: [3-8 seconds emotional trigger and relatability]
+Mechanism: [8-15 seconds scientific explanation]
+Proof: [15-20 seconds social proof or transformation]
+CTA: [20-25 seconds urgent call to action]
+
+Generate variation #{{variationNumber}} that sounds authentic and converts.`
+  },
+
+  [PROMPT_TEMPLATE_IDS.VIRAL_SCRIPT]: {
+    description: 'Short TikTok script for a topic in a niche, with hashtags',
+    variables: [
+      { name: 'topic', type: 'string' },
+      { name: 'niche', type: 'string' },
+      { name: 'style', type: 'string', default: 'educational' },
+      { name: 'structure', type: 'string' },
+      { name: 'hook', type: 'string' }
+    ],
+    template: `Create a viral TikTok script for the topic: "{{topic}}"
+
+Niche: {{niche}}
+Style: {{style}}
+
+Use this structure: {{structure}}
+Start with a hook similar to: {{hook}}
+
+Requirements:
+- Keep it under 60 seconds (150-200 words max)
+- Include a strong hook in first 3 seconds
+- End with clear call-to-action
+- Make it trendy and shareable
+- Include natural product placement opportunity
+
+Format as:
+HOOK: [attention-grabbing opening]
+BODY: [main content with value]
+CTA: [call to action]
+HASHTAGS: [5 relevant hashtags]`
+  }
+};
@@ -0,0 +1,283 @@
+// Job Queue - durable server-side queue behind /api/queue/*
+// Replaces the localStorage queue that lived in the browser tab. Jobs survive
+// reloads and restarts; a worker claims a job with a lease and must heartbeat
+// to keep it. Jobs whose lease expires (worker crashed, function timed out)
+// go back to pending and count as a retry. The queue is one stored object,
+// so completed and failed jobs are pruned once they pass the retention window.
+
+import { R2BucketBinding, R2BucketLedgerStorage } from '../usage/ledger-storage';
+import { JobPriority, JobType, PRIORITY_ORDER, QueueItem, QueueStats, QueueState, computeQueueStats, isJobType } from './job-types';
+import { LedgerQueueStore, QueueStore } from './queue-store';
+
+export class JobQueueError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'JobQueueError';
+  }
+}
+
+export interface JobQueueOptions {
+  maxConcurrentJobs?: number;
+  retryDelayMs?: number;
+  retentionMs?: number; // How long completed and failed jobs are kept
+}
+
+const DEFAULT_MAX_CONCURRENT_JOBS = 1; // Cloudflare Pages limitation
+const DEFAULT_RETRY_DELAY_MS = 5000;
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const JOB_ID_PATTERN = /^queue_[A-Za-z0-9_]{1,64}$/;
+
+export class JobQueue {
+  private maxConcurrentJobs: number;
+  private retryDelayMs: number;
+  private retentionMs: number;
+
+  constructor(private store: QueueStore, options: JobQueueOptions = {}) {
+    this.maxConcurrentJobs = options.maxConcurrentJobs || DEFAULT_MAX_CONCURRENT_JOBS;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.retentionMs = options.retentionMs ?? DEFAULT_RETENTION_MS;
+  }
+
+  /**
+   * Add a job. Clients may supply the id so they can track the job before the
+   * request returns; re-sending the same id returns the stored job without
+   * writing anything.
+   */
+  async addJob(
+    type: JobType,
+    payload: any,
+    priority: JobPriority = 'medium',
+    maxRetries: number = 3,
+    id?: string
+  ): Promise<QueueItem> {
+    if (!isJobType(type)) {
+      throw new JobQueueError(`Unknown job type: ${type}`);
+    }
+    if (!(priority in PRIORITY_ORDER)) {
+      throw new JobQueueError(`Unknown priority: ${priority}`);
+    }
+    if (id !== undefined && !JOB_ID_PATTERN.test(id)) {
+      throw new JobQueueError(`Invalid job id: ${id}`);
+    }
+
+    const now = Date.now();
+    const item: QueueItem = {
+      id: id || `queue_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      payload,
+      priority,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+      retryCount: 0,
+      maxRetries: Math.max(0, Math.floor(maxRetries))
+    };
+
+    const stored = await this.store.transact(state => {
+      const existing = state.jobs.find(job => job.id === item.id);
+      if (existing) return existing;
+
+      // Insert based on priority, FIFO within a priority
+      const insertIndex = state.jobs.findIndex(job => PRIORITY_ORDER[job.priority] > PRIORITY_ORDER[priority]);
+      if (insertIndex === -1) {
+        state.jobs.push(item);
+      } else {
+        state.jobs.splice(insertIndex, 0, item);
+      }
+      return item;
+    });
+
+    console.log(`🔄 Added ${type} job ${stored.id} to queue (Priority: ${priority})`);
+    return stored;
+  }
+
+  async getJob(id: string): Promise<QueueItem | null> {
+    const state = await this.store.load();
+    return state.jobs.find(job => job.id === id) || null;
+  }
+
+  async listJobs(filter?: { status?: QueueItem['status']; type?: QueueItem['type'] }): Promise<QueueItem[]> {
+    const state = await this.store.load();
+    return state.jobs.filter(job => {
+      if (filter?.status && job.status !== filter.status) return false;
+      if (filter?.type && job.type !== filter.type) return false;
+      return true;
+    });
+  }
+
+  async getState(): Promise<QueueState & { stats: QueueStats }> {
+    const state = await this.store.load();
+    return { ...state, stats: computeQueueStats(state.jobs) };
+  }
+
+  async getStats(): Promise<QueueStats> {
+    const state = await this.store.load();
+    return computeQueueStats(state.jobs);
+  }
+
+  async removeJob(id: string): Promise<boolean> {
+    return this.store.transact(state => {
+      const index = state.jobs.findIndex(job => job.id === id);
+      if (index === -1) return false;
+      state.jobs.splice(index, 1);
+      return true;
+    });
+  }
+
+  // Clear finished jobs older than specified time
+  async clearOldJobs(olderThanMs: number = 24 * 60 * 60 * 1000): Promise<number> {
+    const cutoff = Date.now() - olderThanMs;
+    return this.store.transact(state => {
+      const initialLength = state.jobs.length;
+      state.jobs = state.jobs.filter(
+        job => job.status === 'pending' || job.status === 'processing' || job.createdAt > cutoff
+      );
+      return initialLength - state.jobs.length;
+    });
+  }
+
+  async pause(): Promise<void> {
+    await this.store.transact(state => {
+      state.paused = true;
+    });
+    console.log('🛑 Queue processing paused');
+  }
+
+  async resume(): Promise<void> {
+    await this.store.transact(state => {
+      state.paused = false;
+    });
+    console.log('▶️ Queue processing resumed');
+  }
+
+  /**
+   * Claim the next runnable job for `workerId`. Returns null when the queue is
+   * paused, empty, or already running maxConcurrentJobs. Finished jobs past
+   * the retention window are dropped on the way.
+   */
+  async claimNext(workerId: string, leaseMs: number): Promise<QueueItem | null> {
+    return this.store.transact(state => {
+      const now = Date.now();
+      this.expireLeases(state, now);
+      this.pruneFinished(state, now);
+
+      if (state.paused) return null;
+
+      const running = state.jobs.filter(job => job.status === 'processing').length;
+      if (running >= this.maxConcurrentJobs) return null;
+
+      // Jobs are kept in priority order, so the first runnable one wins
+      const job = state.jobs.find(
+        candidate => candidate.status === 'pending' && (!candidate.availableAt || candidate.availableAt <= now)
+      );
+      if (!job) return null;
+
+      job.status = 'processing';
+      job.startedAt = now;
+      job.updatedAt = now;
+      job.workerId = workerId;
+      job.heartbeatAt = now;
+      job.leaseExpiresAt = now + leaseMs;
+      job.availableAt = undefined;
+      return { ...job };
+    });
+  }
+
+  /**
+   * Extend the lease. Returns false if the worker no longer owns the job
+   * (lease expired and it was re-queued, or it was removed).
+   */
+  async heartbeat(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    return this.store.transact(state => {
+      const job = this.findOwnedJob(state, id, workerId);
+      if (!job) return false;
+
+      const now = Date.now();
+      job.heartbeatAt = now;
+      job.leaseExpiresAt = now + leaseMs;
+      job.updatedAt = now;
+      return true;
+    });
+  }
+
+  async complete(id: string, workerId: string, result?: any): Promise<QueueItem | null> {
+    return this.store.transact(state => {
+      const job = this.findOwnedJob(state, id, workerId);
+      if (!job) return null;
+
+      const now = Date.now();
+      job.status = 'completed';
+      job.result = result;
+      job.error = undefined;
+      job.completedAt = now;
+      job.updatedAt = now;
+      this.clearLease(job);
+      return { ...job };
+    });
+  }
+
+  async fail(id: string, workerId: string, error: string): Promise<QueueItem | null> {
+    return this.store.transact(state => {
+      const job = this.findOwnedJob(state, id, workerId);
+      if (!job) return null;
+
+      this.retryOrFail(job, error, Date.now());
+      return { ...job };
+    });
+  }
+
+  private findOwnedJob(state: QueueState, id: string, workerId: string): QueueItem | null {
+    const job = state.jobs.find(candidate => candidate.id === id);
+    if (!job || job.status !== 'processing' || job.workerId !== workerId) return null;
+    return job;
+  }
+
+  private expireLeases(state: QueueState, now: number): void {
+    state.jobs.forEach(job => {
+      if (job.status === 'processing' && job.leaseExpiresAt && job.leaseExpiresAt <= now) {
+        console.warn(`⏱️ Lease expired for ${job.type} job ${job.id} (worker ${job.workerId})`);
+        this.retryOrFail(job, 'Worker stopped heartbeating (lease expired)', now);
+      }
+    });
+  }
+
+  private pruneFinished(state: QueueState, now: number): void {
+    const cutoff = now - this.retentionMs;
+    state.jobs = state.jobs.filter(
+      job => (job.status !== 'completed' && job.status !== 'failed') || (job.completedAt ?? job.updatedAt) > cutoff
+    );
+  }
+
+  private retryOrFail(job: QueueItem, error: string, now: number): void {
+    this.clearLease(job);
+    job.error = error;
+    job.updatedAt = now;
+
+    if (job.retryCount < job.maxRetries) {
+      job.retryCount++;
+      job.status = 'pending';
+      job.startedAt = undefined;
+      job.availableAt = now + this.retryDelayMs * job.retryCount;
+      console.log(`🔄 Retrying ${job.type} job ${job.id} (attempt ${job.retryCount}/${job.maxRetries})`);
+    } else {
+      job.status = 'failed';
+      job.completedAt = now;
+    }
+  }
+
+  private clearLease(job: QueueItem): void {
+    job.workerId = undefined;
+    job.leaseExpiresAt = undefined;
+    job.heartbeatAt = undefined;
+  }
+}
+
+/**
+ * Queue for Pages Functions, persisted in the R2 bucket
+ */
+export function createJobQueue(env: { R2_BUCKET?: R2BucketBinding }, options?: JobQueueOptions): JobQueue {
+  if (!env.R2_BUCKET) {
+    throw new JobQueueError('R2_BUCKET binding not configured - job queue unavailable', 503);
+  }
+  return new JobQueue(new LedgerQueueStore(new R2BucketLedgerStorage(env.R2_BUCKET)), options);
+}
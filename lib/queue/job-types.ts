@@ -0,0 +1,80 @@
+// Job Queue Types - shared by the server queue, the Pages Functions and the
+// browser client. Keep this file free of runtime dependencies.
+
+export const JOB_TYPES = ['video_generation', 'story_enhancement', 'batch_process'] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+export type JobPriority = 'low' | 'medium' | 'high';
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface QueueItem {
+  id: string;
+  type: JobType;
+  payload: any;
+  priority: JobPriority;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  completedAt?: number;
+  error?: string;
+  result?: any;
+  retryCount: number;
+  maxRetries: number;
+  // Lease held by the worker processing the job; expired leases are retried
+  workerId?: string;
+  leaseExpiresAt?: number;
+  heartbeatAt?: number;
+  // Earliest time a retried job may be picked up again
+  availableAt?: number;
+}
+
+export interface QueueStats {
+  totalJobs: number;
+  pendingJobs: number;
+  processingJobs: number;
+  completedJobs: number;
+  failedJobs: number;
+  averageProcessingTime: number;
+  successRate: number;
+}
+
+export interface QueueState {
+  jobs: QueueItem[];
+  paused: boolean;
+  updatedAt: number;
+}
+
+export const PRIORITY_ORDER: Record<JobPriority, number> = { high: 0, medium: 1, low: 2 };
+
+export function isJobType(value: unknown): value is JobType {
+  return typeof value === 'string' && (JOB_TYPES as readonly string[]).includes(value);
+}
+
+export function computeQueueStats(jobs: QueueItem[]): QueueStats {
+  const total = jobs.length;
+  const pending = jobs.filter(job => job.status === 'pending').length;
+  const processing = jobs.filter(job => job.status === 'processing').length;
+  const completed = jobs.filter(job => job.status === 'completed').length;
+  const failed = jobs.filter(job => job.status === 'failed').length;
+
+  const timedJobs = jobs.filter(job => job.status === 'completed' && job.startedAt && job.completedAt);
+
+  const averageTime =
+    timedJobs.length > 0
+      ? timedJobs.reduce((sum, job) => sum + (job.completedAt! - job.startedAt!), 0) / timedJobs.length / 1000 // Convert to seconds
+      : 0;
+
+  const finished = completed + failed;
+  const successRate = finished > 0 ? (completed / finished) * 100 : 100;
+
+  return {
+    totalJobs: total,
+    pendingJobs: pending,
+    processingJobs: processing,
+    completedJobs: completed,
+    failedJobs: failed,
+    averageProcessingTime: averageTime,
+    successRate
+  };
+}
@@ -0,0 +1,43 @@
+// Queue Store - persistence adapter for the server-side job queue
+// The queue only needs an atomic read-modify-write over its state. The
+// default adapter keeps the whole queue in one LedgerStorage object and uses
+// compare-and-swap, so it runs on R2 in production and on the filesystem or
+// memory locally. A Durable Object or D1 adapter only has to implement
+// QueueStore.
+
+import { CAS_UNCHANGED, LedgerStorage, casUpdate } from '../usage/ledger-storage';
+import { QueueState } from './job-types';
+
+export interface QueueStore {
+  load(): Promise<QueueState>;
+  /**
+   * Apply `mutate` atomically. The callback may run more than once if another
+   * writer got in first, so it must not have side effects outside `state`.
+   * Nothing is written if it leaves `state` unchanged.
+   */
+  transact<T>(mutate: (state: QueueState) => T): Promise<T>;
+}
+
+export class LedgerQueueStore implements QueueStore {
+  constructor(private storage: LedgerStorage, private key: string = 'queue/jobs.json') {}
+
+  async load(): Promise<QueueState> {
+    const existing = await this.storage.read(this.key);
+    return existing ? JSON.parse(existing.body) : createEmptyQueueState();
+  }
+
+  async transact<T>(mutate: (state: QueueState) => T): Promise<T> {
+    let result!: T;
+    await casUpdate(this.storage, this.key, createEmptyQueueState, state => {
+      const before = JSON.stringify(state);
+      result = mutate(state); // May throw - nothing is written in that case
+      if (JSON.stringify(state) === before) return CAS_UNCHANGED; // e.g. re-adding a job, or nothing to claim
+      state.updatedAt = Date.now();
+    });
+    return result;
+  }
+}
+
+export function createEmptyQueueState(): QueueState {
+  return { jobs: [], paused: false, updatedAt: 0 };
+}
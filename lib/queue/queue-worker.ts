@@ -0,0 +1,206 @@
+// Queue Worker - claims jobs from the JobQueue and runs them
+// Holds a lease while a job runs and heartbeats to keep it. If the process
+// dies the lease lapses and another worker picks the job up as a retry.
+// Run it as a loop in a long-lived Node process (start(), as
+// scripts/queue-worker.ts does), or one job at a time from a Pages Function
+// (worker.runOnce()). Handlers must fit in a Function invocation, so a video
+// job only runs the checkpointed workflow up to submitting the render; the
+// Shotstack webhook finishes it.
+
+import type { VideoWorkflowEnv } from '../workflows/video-workflow';
+import type { WorkflowStore } from '../workflows/workflow-store';
+import { WorkflowRequest } from '../types/reddit-automation';
+import { JobType, QueueItem } from './job-types';
+import { JobQueue } from './job-queue';
+
+export interface JobContext {
+  workerId: string;
+  signal: AbortSignal; // Aborted when the lease is lost - stop work, the job will be retried
+}
+
+export type JobHandler = (job: QueueItem, context: JobContext) => Promise<any>;
+export type JobHandlers = Record<JobType, JobHandler>;
+
+export interface QueueWorkerOptions {
+  workerId?: string;
+  leaseMs?: number;
+  heartbeatMs?: number;
+}
+
+const DEFAULT_LEASE_MS = 60 * 1000;
+const DEFAULT_HEARTBEAT_MS = 15 * 1000;
+
+export class QueueWorker {
+  readonly workerId: string;
+  private leaseMs: number;
+  private heartbeatMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(private queue: JobQueue, private handlers: JobHandlers = createDefaultJobHandlers(), options: QueueWorkerOptions = {}) {
+    this.workerId = options.workerId || `worker_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.leaseMs = options.leaseMs || DEFAULT_LEASE_MS;
+    this.heartbeatMs = options.heartbeatMs || DEFAULT_HEARTBEAT_MS;
+  }
+
+  /**
+   * Claim and run at most one job. Returns true if a job was processed.
+   */
+  async runOnce(): Promise<boolean> {
+    const job = await this.queue.claimNext(this.workerId, this.leaseMs);
+    if (!job) return false;
+
+    const controller = new AbortController();
+    const heartbeat = setInterval(async () => {
+      try {
+        const held = await this.queue.heartbeat(job.id, this.workerId, this.leaseMs);
+        if (!held) {
+          console.warn(`⚠️ Lost lease on ${job.type} job ${job.id}, abandoning`);
+          controller.abort();
+        }
+      } catch (error) {
+        // Transient store error - the next beat or lease expiry sorts it out
+        console.error(`Heartbeat failed for job ${job.id}:`, error);
+      }
+    }, this.heartbeatMs);
+
+    try {
+      console.log(`🔄 Processing ${job.type} job ${job.id}`);
+
+      const handler = this.handlers[job.type];
+      if (!handler) {
+        throw new Error(`Unknown job type: ${job.type}`);
+      }
+
+      const result = await handler(job, { workerId: this.workerId, signal: controller.signal });
+      const completed = await this.queue.complete(job.id, this.workerId, result);
+
+      if (completed) {
+        console.log(`✅ Completed ${job.type} job ${job.id} in ${(completed.completedAt! - completed.startedAt!) / 1000}s`);
+      }
+    } catch (error: any) {
+      console.error(`❌ Failed ${job.type} job ${job.id}:`, error);
+      await this.queue.fail(job.id, this.workerId, error?.message || 'Unknown error');
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    return true;
+  }
+
+  // Poll for work until stop() is called (long-lived Node processes only)
+  start(intervalMs: number = 5000): void {
+    if (this.timer) return;
+
+    const tick = async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        while (await this.runOnce()) {
+          // Drain runnable jobs before sleeping again
+        }
+      } catch (error) {
+        console.error('Queue worker tick failed:', error);
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    tick();
+    console.log(`▶️ Queue worker ${this.workerId} started`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log(`🛑 Queue worker ${this.workerId} stopped`);
+    }
+  }
+}
+
+/**
+ * Handlers for the built-in job types. Services are imported lazily so the
+ * queue can be bundled without pulling in the whole pipeline. Pages Functions
+ * pass their env; Node processes default to process.env and pass a
+ * WorkflowStore, having no R2 binding to keep workflows in.
+ */
+export function createDefaultJobHandlers(
+  env: VideoWorkflowEnv = process.env as VideoWorkflowEnv,
+  workflows?: WorkflowStore
+): JobHandlers {
+  const handlers: JobHandlers = {
+    // The workflow is keyed on the job, so a retry (lease lost mid-run) picks
+    // up from its checkpoints instead of paying for the voiceover again, and a
+    // render that was already submitted is left to the webhook
+    video_generation: async job => {
+      const request: WorkflowRequest = job.payload;
+      if (!request?.story || !request.background) {
+        throw new Error('Queued video jobs need a story and a library background');
+      }
+
+      const { createVideoWorkflowDependencies, resumeVideoWorkflow, runVideoWorkflow } = await import('../workflows/video-workflow');
+      const { createWorkflowStore } = await import('../workflows/workflow-store');
+      const store = workflows || createWorkflowStore(env);
+
+      const workflowId = `workflow_${job.id.slice('queue_'.length)}`;
+      let workflow = await store.get(workflowId);
+      if (!workflow?.render || workflow.render.status === 'failed') {
+        const resuming = workflow?.status === 'failed';
+        workflow = workflow || await store.create({ workflowId, request });
+
+        const deps = await createVideoWorkflowDependencies(env, workflow, null, env.PUBLIC_BASE_URL);
+        workflow = resuming
+          ? await resumeVideoWorkflow(store, workflowId, deps)
+          : await runVideoWorkflow(store, workflowId, deps);
+      }
+
+      if (workflow.status === 'failed') {
+        throw new Error(workflow.error || `Workflow ${workflowId} failed`);
+      }
+      return { workflowId, renderId: workflow.render?.renderId, statusUrl: `/api/workflows/${workflowId}` };
+    },
+
+    story_enhancement: async job => {
+      const { targetDuration, redact_pii } = job.payload;
+      const { ClaudeService } = await import('../services/claude-service');
+      const { redactStory } = await import('../safety/pii-redaction');
+
+      // Personal details are replaced before Claude sees the story, as in the pipeline
+      const { story, redaction } = redact_pii === false
+        ? { story: job.payload.story, redaction: undefined }
+        : redactStory(job.payload.story);
+
+      const claudeService = new ClaudeService();
+      const enhancement = await claudeService.enhanceStoryWithUsage(story, targetDuration);
+      return { enhanced: enhancement.content, prompt: enhancement.prompt, redaction };
+    },
+
+    // Operations run inline under the batch job's lease. Queuing them as
+    // sub-jobs would deadlock with a single processing slot.
+    batch_process: async (job, context) => {
+      const { operations } = job.payload;
+      const results = [];
+
+      for (const operation of operations) {
+        if (context.signal.aborted) {
+          throw new Error('Batch abandoned after losing its lease');
+        }
+        if (operation.type === 'batch_process') {
+          throw new Error('Nested batch operations are not supported');
+        }
+
+        const handler = handlers[operation.type as JobType];
+        if (!handler) {
+          throw new Error(`Unknown job type in batch: ${operation.type}`);
+        }
+        results.push(await handler({ ...job, type: operation.type, payload: operation.payload }, context));
+      }
+
+      return { results };
+    }
+  };
+
+  return handlers;
+}
@@ -1,5 +1,8 @@
 // Cloudflare R2 Storage Integration
-// For handling large assets and uploads outside of Pages deployment
+// For handling large assets and uploads outside of Pages deployment.
+// Requests go to R2's S3-compatible API, signed with SigV4.
+
+import { S3ObjectStorage } from './storage/s3-object-storage';
 
 export interface R2Config {
   accountId: string;
@@ -7,15 +10,23 @@ export interface R2Config {
   secretAccessKey: string;
   bucketName: string;
   region?: string;
+  endpoint?: string; // S3 API endpoint override, e.g. the fake S3 server
+  publicDomain?: string; // Public bucket domain used by getPublicUrl
 }
 
 export class R2StorageClient {
   private config: R2Config;
-  private baseUrl: string;
+  private storage: S3ObjectStorage;
 
   constructor(config: R2Config) {
     this.config = config;
-    this.baseUrl = `https://${config.bucketName}.${config.accountId}.r2.cloudflarestorage.com`;
+    this.storage = new S3ObjectStorage({
+      endpoint: config.endpoint || `https://${config.accountId}.r2.cloudflarestorage.com`,
+      bucket: config.bucketName,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      region: config.region
+    });
   }
 
   /**
@@ -27,40 +38,23 @@ export class R2StorageClient {
     contentType?: string
   ): Promise<{ success: boolean; url?: string; error?: string }> {
     try {
-      const formData = new FormData();
-      
+      let body: Uint8Array;
       if (file instanceof File) {
-        formData.append('file', file);
+        body = new Uint8Array(await file.arrayBuffer());
         contentType = contentType || file.type;
       } else {
-        // Handle Buffer
-        formData.append('file', new Blob([file], { type: contentType }));
+        body = new Uint8Array(file.buffer, file.byteOffset, file.byteLength);
       }
 
-      const response = await fetch(`${this.baseUrl}/${key}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': this.getAuthHeader(),
-          'Content-Type': contentType || 'application/octet-stream',
-        },
-        body: file,
-      });
-
-      if (response.ok) {
-        return {
-          success: true,
-          url: `${this.baseUrl}/${key}`,
-        };
-      } else {
-        return {
-          success: false,
-          error: `Upload failed: ${response.statusText}`,
-        };
-      }
+      await this.storage.put(key, body, { contentType: contentType || 'application/octet-stream' });
+      return {
+        success: true,
+        url: this.getPublicUrl(key),
+      };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: error instanceof Error ? `Upload failed: ${error.message}` : 'Unknown error',
       };
     }
   }
@@ -74,36 +68,16 @@ export class R2StorageClient {
     expiresIn: number = 3600
   ): Promise<{ success: boolean; uploadUrl?: string; error?: string }> {
     try {
-      // Generate presigned URL using R2 API
-      const response = await fetch(`${this.baseUrl}/presign`, {
-        method: 'POST',
-        headers: {
-          'Authorization': this.getAuthHeader(),
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          key,
-          contentType,
-          expiresIn,
-        }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        return {
-          success: true,
-          uploadUrl: data.uploadUrl,
-        };
-      } else {
-        return {
-          success: false,
-          error: `Presigned URL generation failed: ${response.statusText}`,
-        };
-      }
+      // Only the host header is signed, so the uploader may send any
+      // Content-Type; contentType is kept for callers that pass it along
+      return {
+        success: true,
+        uploadUrl: await this.storage.presign('PUT', key, expiresIn),
+      };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: error instanceof Error ? `Presigned URL generation failed: ${error.message}` : 'Unknown error',
       };
     }
   }
@@ -113,25 +87,12 @@ export class R2StorageClient {
    */
   async deleteFile(key: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const response = await fetch(`${this.baseUrl}/${key}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': this.getAuthHeader(),
-        },
-      });
-
-      if (response.ok) {
-        return { success: true };
-      } else {
-        return {
-          success: false,
-          error: `Delete failed: ${response.statusText}`,
-        };
-      }
+      await this.storage.delete(key);
+      return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: error instanceof Error ? `Delete failed: ${error.message}` : 'Unknown error',
       };
     }
   }
@@ -140,7 +101,10 @@ export class R2StorageClient {
    * Get public URL for a file
    */
   getPublicUrl(key: string): string {
-    return `${this.baseUrl}/${key}`;
+    if (this.config.publicDomain) {
+      return `https://${this.config.publicDomain}/${key}`;
+    }
+    return this.storage.objectUrl(key);
   }
 
   /**
@@ -148,45 +112,25 @@ export class R2StorageClient {
    */
   async listFiles(prefix?: string): Promise<{ success: boolean; files?: string[]; error?: string }> {
     try {
-      const url = new URL(`${this.baseUrl}/`);
-      if (prefix) {
-        url.searchParams.set('prefix', prefix);
-      }
+      const files: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await this.storage.list({ prefix, cursor });
+        files.push(...page.objects.map(object => object.key));
+        cursor = page.cursor;
+      } while (cursor);
 
-      const response = await fetch(url.toString(), {
-        headers: {
-          'Authorization': this.getAuthHeader(),
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        return {
-          success: true,
-          files: data.files || [],
-        };
-      } else {
-        return {
-          success: false,
-          error: `List failed: ${response.statusText}`,
-        };
-      }
+      return {
+        success: true,
+        files,
+      };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: error instanceof Error ? `List failed: ${error.message}` : 'Unknown error',
       };
     }
   }
-
-  private getAuthHeader(): string {
-    // This would typically use AWS signature v4 for R2
-    // For now, using basic auth format
-    const credentials = Buffer.from(
-      `${this.config.accessKeyId}:${this.config.secretAccessKey}`
-    ).toString('base64');
-    return `Basic ${credentials}`;
-  }
 }
 
 // Factory function to create R2 client with environment variables
@@ -206,6 +150,8 @@ export function createR2Client(): R2StorageClient | null {
     accessKeyId,
     secretAccessKey,
     bucketName,
+    endpoint: process.env.R2_ENDPOINT,
+    publicDomain: process.env.R2_PUBLIC_DOMAIN,
   });
 }
 
@@ -227,4 +173,4 @@ export function shouldUseR2Storage(file: File): boolean {
   );
 }
 
-export default { R2StorageClient, createR2Client, shouldUseR2Storage };
\ No newline at end of file
+export default { R2StorageClient, createR2Client, shouldUseR2Storage };
@@ -0,0 +1,127 @@
+// Story Cache Store
+// Where the shared Reddit story cache keeps its entries: a Workers KV
+// namespace (env.REDDIT_CACHE) when bound, otherwise the R2 bucket through
+// LedgerStorage, or memory for scripts and tests. Entries are whole
+// category listings plus the per-subreddit cursors used to refresh them.
+
+import { RedditStory } from '../types/reddit-automation';
+import { LedgerStorage, MemoryLedgerStorage, R2BucketBinding, R2BucketLedgerStorage } from '../usage/ledger-storage';
+
+export interface SubredditCursor {
+  etag?: string; // Listing ETag for a conditional refresh
+  after: string | null; // Where the next page of the listing starts
+  storyIds: string[]; // Cached stories that came from this subreddit
+  fetchedAt: number;
+}
+
+export interface CachedStoryEntry {
+  key: string;
+  category: RedditStory['category'];
+  limit: number;
+  stories: RedditStory[];
+  fetchedAt: number;
+  expiresAt: number;
+  subreddits: Record<string, SubredditCursor>;
+  refreshStartedAt?: number; // Set while some instance is revalidating
+}
+
+export interface StoryCacheStore {
+  get(key: string): Promise<CachedStoryEntry | null>;
+  /**
+   * Store `entry`; the backend may drop it after `retainSeconds`
+   */
+  put(key: string, entry: CachedStoryEntry, retainSeconds: number): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+// Structural subset of the Workers KV namespace binding we rely on
+export interface KVNamespaceBinding {
+  get(key: string, type: 'json'): Promise<any>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: Array<{ name: string }>;
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+const KEY_PREFIX = 'reddit-cache/';
+
+// KV rejects expirations shorter than a minute
+const MIN_KV_TTL_SECONDS = 60;
+
+export class KVStoryCacheStore implements StoryCacheStore {
+  constructor(private kv: KVNamespaceBinding) {}
+
+  async get(key: string): Promise<CachedStoryEntry | null> {
+    return (await this.kv.get(KEY_PREFIX + key, 'json')) || null;
+  }
+
+  async put(key: string, entry: CachedStoryEntry, retainSeconds: number): Promise<void> {
+    await this.kv.put(KEY_PREFIX + key, JSON.stringify(entry), {
+      expirationTtl: Math.max(MIN_KV_TTL_SECONDS, Math.ceil(retainSeconds))
+    });
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.kv.list({ prefix: KEY_PREFIX, cursor });
+      page.keys.forEach(key => keys.push(key.name.slice(KEY_PREFIX.length)));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return keys;
+  }
+}
+
+/**
+ * Entries as JSON objects in a LedgerStorage (R2, filesystem or memory).
+ * Nothing expires on its own here; the cache ignores entries past expiresAt.
+ */
+export class LedgerStoryCacheStore implements StoryCacheStore {
+  constructor(private storage: LedgerStorage) {}
+
+  async get(key: string): Promise<CachedStoryEntry | null> {
+    const existing = await this.storage.read(this.objectKey(key));
+    return existing ? JSON.parse(existing.body) : null;
+  }
+
+  async put(key: string, entry: CachedStoryEntry): Promise<void> {
+    const objectKey = this.objectKey(key);
+    const existing = await this.storage.read(objectKey);
+    // Last writer wins - a lost race only means another instance refreshed too
+    await this.storage.write(objectKey, JSON.stringify(entry), existing ? existing.etag : null);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.storage.list(KEY_PREFIX);
+    return keys.map(key => key.slice(KEY_PREFIX.length).replace(/\.json$/, ''));
+  }
+
+  private objectKey(key: string): string {
+    return `${KEY_PREFIX}${key}.json`;
+  }
+}
+
+export class MemoryStoryCacheStore extends LedgerStoryCacheStore {
+  constructor() {
+    super(new MemoryLedgerStorage());
+  }
+}
+
+// Per-isolate fallback so an unbound deployment still caches between requests
+let isolateStore: StoryCacheStore | null = null;
+
+export function createStoryCacheStore(env: { REDDIT_CACHE?: KVNamespaceBinding; R2_BUCKET?: R2BucketBinding }): StoryCacheStore {
+  if (env.REDDIT_CACHE) return new KVStoryCacheStore(env.REDDIT_CACHE);
+  if (env.R2_BUCKET) return new LedgerStoryCacheStore(new R2BucketLedgerStorage(env.R2_BUCKET));
+
+  if (!isolateStore) {
+    console.warn('⚠️ No REDDIT_CACHE or R2_BUCKET binding - Reddit cache is per-instance only');
+    isolateStore = new MemoryStoryCacheStore();
+  }
+  return isolateStore;
+}
@@ -0,0 +1,586 @@
+// FFmpeg Timeline
+// Turns a Shotstack edit (the JSON ShotstackService posts to /render) into a
+// single ffmpeg command, for the local render server. It covers what our
+// timeline builders produce:
+//   - video, image, audio, html and title clips, placed by start/length
+//   - trim, fit (crop/cover/contain/none), scale, position and offset
+//   - zoomIn/zoomOut/slideLeft/... effects (and their Slow/Fast variants)
+//   - fade transitions and opacity
+//   - audio volume, including volume tweens (the soundtrack's ducking)
+// HTML is drawn as plain text with drawtext - tags stripped, <br> as a line
+// break, font size, colour, weight, alignment and background from the CSS -
+// so captions look close to Shotstack's, not identical. Anything else (luma
+// mattes, shapes, other transitions, merge fields) is refused with a
+// LocalRenderError instead of being rendered wrong.
+
+import { join } from 'path';
+
+export class LocalRenderError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'LocalRenderError';
+  }
+}
+
+export interface VolumeTween {
+  from: number;
+  to: number;
+  start: number; // Seconds from the start of the clip
+  length: number;
+}
+
+export interface ShotstackAsset {
+  type: string;
+  src?: string;
+  trim?: number;
+  volume?: number | VolumeTween[];
+  effect?: string; // Audio: fadeIn, fadeOut, fadeInFadeOut
+  html?: string;
+  css?: string;
+  width?: number;
+  height?: number;
+  text?: string;
+  style?: string;
+  color?: string;
+  size?: string;
+  background?: string;
+}
+
+export interface ShotstackClip {
+  asset: ShotstackAsset;
+  start: number;
+  length: number;
+  fit?: 'crop' | 'cover' | 'contain' | 'none';
+  scale?: number;
+  position?: string;
+  offset?: { x?: number; y?: number };
+  effect?: string;
+  transition?: { in?: string; out?: string };
+  opacity?: number;
+}
+
+export interface ShotstackEdit {
+  timeline: {
+    background?: string;
+    soundtrack?: { src: string; effect?: string; volume?: number };
+    tracks: Array<{ clips: ShotstackClip[] }>;
+  };
+  output?: {
+    format?: string;
+    resolution?: string;
+    aspectRatio?: string;
+    size?: { width?: number; height?: number };
+    fps?: number;
+  };
+  callback?: string;
+}
+
+export interface FfmpegInput {
+  path: string; // Local file the asset was downloaded to
+  hasAudio: boolean;
+}
+
+export interface FfmpegPlanOptions {
+  outputPath: string;
+  workDir: string; // Where the text files drawtext reads go
+  fontFile?: string; // Without one, fontconfig picks the CSS font family
+}
+
+export interface FfmpegPlan {
+  args: string[];
+  width: number;
+  height: number;
+  fps: number;
+  duration: number;
+  textFiles: Array<{ path: string; content: string }>;
+}
+
+// Shotstack's named resolutions, landscape
+const RESOLUTIONS: Record<string, [number, number]> = {
+  preview: [512, 288],
+  mobile: [640, 360],
+  sd: [1024, 576],
+  hd: [1280, 720],
+  '1080': [1920, 1080],
+  '4k': [3840, 2160]
+};
+
+const VISUAL_TYPES = ['video', 'image'];
+const TEXT_TYPES = ['html', 'title'];
+const ASSET_TYPES = [...VISUAL_TYPES, ...TEXT_TYPES, 'audio'];
+
+// Zoom reached by the end of the clip, by effect speed
+const EFFECT_ZOOM: Record<string, number> = { Slow: 0.1, '': 0.2, Fast: 0.4 };
+const EFFECT_PATTERN = /^(zoomIn|zoomOut|slideLeft|slideRight|slideUp|slideDown)(Slow|Fast)?$/;
+const FADE_SECONDS: Record<string, number> = { fadeFast: 0.5, fade: 1, fadeSlow: 2 };
+
+// Title style font sizes, as a fraction of the output height
+const TITLE_SIZES: Record<string, number> = {
+  'xx-small': 0.02, 'x-small': 0.03, small: 0.04, medium: 0.05, large: 0.07, 'x-large': 0.09, 'xx-large': 0.12
+};
+
+/**
+ * Every remote or local file the edit needs, in timeline order. Unsupported
+ * assets are refused here, before anything is downloaded.
+ */
+export function getTimelineSources(edit: ShotstackEdit): string[] {
+  validateEdit(edit);
+  const sources = new Set<string>();
+  for (const track of edit.timeline.tracks) {
+    for (const clip of track.clips) {
+      if (clip.asset.src) sources.add(clip.asset.src);
+    }
+  }
+  if (edit.timeline.soundtrack?.src) sources.add(edit.timeline.soundtrack.src);
+  return Array.from(sources);
+}
+
+/**
+ * Output width and height: an explicit size, a WIDTHxHEIGHT resolution, or
+ * a Shotstack resolution name turned by the aspect ratio
+ */
+export function getOutputSize(output: ShotstackEdit['output'] = {}): { width: number; height: number } {
+  if (output.size?.width && output.size.height) {
+    return { width: even(output.size.width), height: even(output.size.height) };
+  }
+
+  const explicit = output.resolution?.match(/^(\d+)x(\d+)$/);
+  if (explicit) {
+    return { width: even(Number(explicit[1])), height: even(Number(explicit[2])) };
+  }
+
+  const named = RESOLUTIONS[output.resolution || 'sd'];
+  if (!named) {
+    throw new LocalRenderError(`Unknown resolution "${output.resolution}"`);
+  }
+  const [long, short] = named;
+  switch (output.aspectRatio || '16:9') {
+    case '16:9': return { width: long, height: short };
+    case '9:16': return { width: short, height: long };
+    case '1:1': return { width: short, height: short };
+    case '4:5': return { width: even(short * 0.8), height: short };
+    case '4:3': return { width: even(short * 4 / 3), height: short };
+    default: throw new LocalRenderError(`Unknown aspect ratio "${output.aspectRatio}"`);
+  }
+}
+
+/**
+ * The ffmpeg arguments rendering the edit to `outputPath`. Inputs maps each
+ * asset src to the local file it was downloaded to.
+ */
+export function planFfmpegRender(edit: ShotstackEdit, inputs: Map<string, FfmpegInput>, options: FfmpegPlanOptions): FfmpegPlan {
+  validateEdit(edit);
+  const { width, height } = getOutputSize(edit.output);
+  const fps = edit.output?.fps || 25;
+  const clips = edit.timeline.tracks.flatMap(track => track.clips);
+  const duration = round(Math.max(...clips.map(clip => clip.start + clip.length)));
+
+  const args = ['-y', '-hide_banner', '-loglevel', 'error'];
+  const filters: string[] = [];
+  const audioLabels: string[] = [];
+  const textFiles: FfmpegPlan['textFiles'] = [];
+  let inputCount = 0;
+
+  const addInput = (inputArgs: string[]) => {
+    args.push(...inputArgs);
+    return inputCount++;
+  };
+  const inputFor = (src: string) => {
+    const input = inputs.get(src);
+    if (!input) throw new LocalRenderError(`Asset ${src} wasn't downloaded`, 500);
+    return input;
+  };
+
+  // Canvas
+  const canvas = addInput(['-f', 'lavfi', '-i', `color=c=${ffmpegColor(edit.timeline.background || '#000000')}:s=${width}x${height}:r=${fps}:d=${duration}`]);
+  let video = `[${canvas}:v]`;
+
+  // Tracks render top-first, so layer the last one first
+  const layered = [...edit.timeline.tracks].reverse().flatMap(track => track.clips);
+  for (const clip of layered) {
+    const { asset } = clip;
+    const label = `v${filters.length}`;
+
+    if (VISUAL_TYPES.includes(asset.type)) {
+      const input = inputFor(asset.src!);
+      const index = asset.type === 'image'
+        ? addInput(['-loop', '1', '-framerate', String(fps), '-t', String(clip.length), '-i', input.path])
+        : addInput(['-ss', String(asset.trim || 0), '-t', String(clip.length), '-i', input.path]);
+      const frame = fitSize(clip, width, height);
+
+      const chain = [`fps=${fps}`, ...scaleFilters(clip, frame), ...effectFilters(clip, frame, fps), 'format=yuva420p'];
+      chain.push(...fadeFilters(clip));
+      if (clip.opacity !== undefined && clip.opacity < 1) chain.push(`colorchannelmixer=aa=${clip.opacity}`);
+      chain.push(`setpts=PTS-STARTPTS+${clip.start}/TB`);
+      filters.push(`[${index}:v]${chain.join(',')}[clip${label}]`);
+
+      const { x, y } = overlayPosition(clip, width, height);
+      filters.push(`${video}[clip${label}]overlay=x='${x}':y='${y}':enable='${during(clip)}':eof_action=pass[${label}]`);
+      video = `[${label}]`;
+
+      if (asset.type === 'video' && input.hasAudio && volumeOf(asset) !== 0) {
+        audioLabels.push(audioChain(filters, `[${index}:a]`, clip, duration));
+      }
+    } else if (TEXT_TYPES.includes(asset.type)) {
+      const drawtexts = textFilters(clip, width, height, options, textFiles);
+      filters.push(`${video}${drawtexts.join(',')}[${label}]`);
+      video = `[${label}]`;
+    } else {
+      const index = addInput(['-ss', String(asset.trim || 0), '-t', String(clip.length), '-i', inputFor(asset.src!).path]);
+      audioLabels.push(audioChain(filters, `[${index}:a]`, clip, duration));
+    }
+  }
+
+  const soundtrack = edit.timeline.soundtrack;
+  if (soundtrack) {
+    const index = addInput(['-stream_loop', '-1', '-t', String(duration), '-i', inputFor(soundtrack.src).path]);
+    const clip: ShotstackClip = { asset: { type: 'audio', src: soundtrack.src, volume: soundtrack.volume, effect: soundtrack.effect }, start: 0, length: duration };
+    audioLabels.push(audioChain(filters, `[${index}:a]`, clip, duration));
+  }
+
+  filters.push(`${video}format=yuv420p[vout]`);
+  if (audioLabels.length > 1) {
+    // amix divides by the input count - every input runs the full length, so scale it back
+    filters.push(`${audioLabels.join('')}amix=inputs=${audioLabels.length}:duration=longest:dropout_transition=0,volume=${audioLabels.length}[aout]`);
+  } else if (audioLabels.length === 1) {
+    filters.push(`${audioLabels[0]}anull[aout]`);
+  }
+
+  args.push('-filter_complex', filters.join(';'), '-map', '[vout]');
+  if (audioLabels.length) args.push('-map', '[aout]', '-c:a', 'aac', '-b:a', '128k');
+  args.push(
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p',
+    '-r', String(fps), '-t', String(duration), '-movflags', '+faststart',
+    options.outputPath
+  );
+
+  return { args, width, height, fps, duration, textFiles };
+}
+
+function validateEdit(edit: ShotstackEdit): void {
+  if (!edit?.timeline || !Array.isArray(edit.timeline.tracks)) {
+    throw new LocalRenderError('Edit needs a timeline with tracks');
+  }
+  if (edit.output?.format && edit.output.format !== 'mp4') {
+    throw new LocalRenderError(`Only mp4 output is rendered locally (got ${edit.output.format})`);
+  }
+
+  let clipCount = 0;
+  edit.timeline.tracks.forEach((track, trackIndex) => {
+    if (!Array.isArray(track?.clips)) {
+      throw new LocalRenderError(`Track ${trackIndex} has no clips array`);
+    }
+    track.clips.forEach((clip, clipIndex) => {
+      const where = `Track ${trackIndex} clip ${clipIndex}`;
+      const type = clip?.asset?.type;
+      clipCount++;
+
+      if (!ASSET_TYPES.includes(type)) {
+        throw new LocalRenderError(`${where}: ${type || 'missing'} assets aren't supported locally`);
+      }
+      if (!(clip.start >= 0) || !(clip.length > 0)) {
+        throw new LocalRenderError(`${where}: start and length must be numbers, length above 0 ("auto" isn't supported locally)`);
+      }
+      if (!TEXT_TYPES.includes(type) && !clip.asset.src) {
+        throw new LocalRenderError(`${where}: ${type} asset needs a src`);
+      }
+      if (clip.effect && (type === 'audio' || TEXT_TYPES.includes(type) || !EFFECT_PATTERN.test(clip.effect))) {
+        throw new LocalRenderError(`${where}: effect ${clip.effect} isn't supported locally`);
+      }
+      for (const transition of [clip.transition?.in, clip.transition?.out]) {
+        if (transition && FADE_SECONDS[transition] === undefined) {
+          throw new LocalRenderError(`${where}: transition ${transition} isn't supported locally (only fade, fadeSlow, fadeFast)`);
+        }
+      }
+    });
+  });
+
+  if (clipCount === 0) {
+    throw new LocalRenderError('Timeline has no clips');
+  }
+}
+
+// Size of the clip's frame before placement
+function fitSize(clip: ShotstackClip, width: number, height: number): { width: number; height: number } {
+  const scale = clip.scale && clip.scale > 0 ? clip.scale : 1;
+  return { width: even(width * scale), height: even(height * scale) };
+}
+
+function scaleFilters(clip: ShotstackClip, frame: { width: number; height: number }): string[] {
+  const { width, height } = frame;
+  switch (clip.fit || 'crop') {
+    case 'crop': // Fill the frame, cutting off what sticks out
+      return [`scale=${width}:${height}:force_original_aspect_ratio=increase`, `crop=${width}:${height}`];
+    case 'cover': // Stretch to fill the frame
+      return [`scale=${width}:${height}`, 'setsar=1'];
+    case 'contain': // Fit inside the frame; the canvas shows around it
+      return [`scale=${width}:${height}:force_original_aspect_ratio=decrease`, 'scale=trunc(iw/2)*2:trunc(ih/2)*2'];
+    case 'none':
+      return clip.scale && clip.scale !== 1 ? [`scale=trunc(iw*${clip.scale}/2)*2:trunc(ih*${clip.scale}/2)*2`] : [];
+    default:
+      throw new LocalRenderError(`Unknown fit "${clip.fit}"`);
+  }
+}
+
+/**
+ * Zoom and slide effects with zoompan, one output frame per input frame.
+ * Slides pan across a frame zoomed in just enough to have room to move.
+ */
+function effectFilters(clip: ShotstackClip, frame: { width: number; height: number }, fps: number): string[] {
+  const match = clip.effect?.match(EFFECT_PATTERN);
+  if (!match) return [];
+
+  const [, effect, speed = ''] = match;
+  const amount = EFFECT_ZOOM[speed];
+  const frames = Math.max(1, Math.round(clip.length * fps));
+  const progress = `min(on/${frames},1)`;
+  const centerX = 'iw/2-(iw/zoom/2)';
+  const centerY = 'ih/2-(ih/zoom/2)';
+
+  const [zoom, x, y] = {
+    zoomIn: [`1+${amount}*${progress}`, centerX, centerY],
+    zoomOut: [`1+${amount}*(1-${progress})`, centerX, centerY],
+    slideLeft: [`${1 + amount}`, `(iw-iw/zoom)*${progress}`, centerY],
+    slideRight: [`${1 + amount}`, `(iw-iw/zoom)*(1-${progress})`, centerY],
+    slideUp: [`${1 + amount}`, centerX, `(ih-ih/zoom)*${progress}`],
+    slideDown: [`${1 + amount}`, centerX, `(ih-ih/zoom)*(1-${progress})`]
+  }[effect]!;
+  return [`zoompan=z='${zoom}':x='${x}':y='${y}':d=1:s=${frame.width}x${frame.height}:fps=${fps}`];
+}
+
+// Clip-relative fades on the alpha channel, so lower tracks show through
+function fadeFilters(clip: ShotstackClip): string[] {
+  const filters: string[] = [];
+  const fadeIn = clip.transition?.in ? FADE_SECONDS[clip.transition.in] : 0;
+  const fadeOut = clip.transition?.out ? FADE_SECONDS[clip.transition.out] : 0;
+  if (fadeIn) filters.push(`fade=t=in:st=0:d=${Math.min(fadeIn, clip.length)}:alpha=1`);
+  if (fadeOut) filters.push(`fade=t=out:st=${round(Math.max(0, clip.length - fadeOut))}:d=${Math.min(fadeOut, clip.length)}:alpha=1`);
+  return filters;
+}
+
+/**
+ * Where a clip sits: the share of the free space left of and above it (0,
+ * 0.5 or 1 by position), plus the offset in pixels. Offsets are fractions of
+ * the canvas, with positive y moving up like Shotstack's.
+ */
+function anchor(clip: ShotstackClip, width: number, height: number) {
+  const position = clip.position || 'center';
+  return {
+    alignX: /left$/i.test(position) ? 0 : /right$/i.test(position) ? 1 : 0.5,
+    alignY: /^top/.test(position) ? 0 : /^bottom/.test(position) ? 1 : 0.5,
+    offsetX: Math.round((clip.offset?.x || 0) * width),
+    offsetY: Math.round(-(clip.offset?.y || 0) * height)
+  };
+}
+
+// overlay x/y expressions - the clip's size is only known to ffmpeg
+function overlayPosition(clip: ShotstackClip, width: number, height: number): { x: string; y: string } {
+  const { alignX, alignY, offsetX, offsetY } = anchor(clip, width, height);
+  return {
+    x: `(${width}-overlay_w)*${alignX}+(${offsetX})`,
+    y: `(${height}-overlay_h)*${alignY}+(${offsetY})`
+  };
+}
+
+/**
+ * drawtext filters for an html or title clip: one per line, each centred
+ * (or left-aligned) in the asset's box
+ */
+function textFilters(
+  clip: ShotstackClip,
+  width: number,
+  height: number,
+  options: FfmpegPlanOptions,
+  textFiles: FfmpegPlan['textFiles']
+): string[] {
+  const style = textStyle(clip.asset, height);
+  const lines = style.text.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return ['null'];
+
+  const boxWidth = Math.min(clip.asset.width || width, width);
+  const boxHeight = Math.min(clip.asset.height || height, height);
+  const { alignX, alignY, offsetX, offsetY } = anchor(clip, width, height);
+  const boxX = Math.round((width - boxWidth) * alignX + offsetX);
+  const boxY = Math.round((height - boxHeight) * alignY + offsetY);
+  const lineHeight = Math.round(style.fontSize * 1.25);
+  const firstLine = boxY + (boxHeight - lineHeight * lines.length) / 2;
+
+  const font = options.fontFile
+    ? `fontfile='${filterPath(options.fontFile)}'`
+    : `font='${style.fontFamily}${style.bold ? '\\:style=Bold' : ''}'`;
+  const alpha = fadeAlpha(clip);
+
+  return lines.map((line, index) => {
+    const path = join(options.workDir, `text-${textFiles.length}.txt`);
+    textFiles.push({ path, content: line });
+    const x = style.align === 'center'
+      ? `${boxX}+(${boxWidth}-text_w)/2`
+      : style.align === 'right' ? `${boxX + boxWidth - style.padding}-text_w` : `${boxX + style.padding}`;
+    const y = Math.round(firstLine + index * lineHeight + (lineHeight - style.fontSize) / 2);
+    const parts = [
+      `textfile='${filterPath(path)}'`,
+      font,
+      `fontsize=${style.fontSize}`,
+      `fontcolor=${style.color}`,
+      ...(style.background ? ['box=1', `boxcolor=${style.background}`, `boxborderw=${style.padding}`] : []),
+      `x='${x}'`,
+      `y=${y}`,
+      ...(alpha ? [`alpha='${alpha}'`] : []),
+      `enable='${during(clip)}'`
+    ];
+    return `drawtext=${parts.join(':')}`;
+  });
+}
+
+interface TextStyle {
+  text: string;
+  fontSize: number;
+  fontFamily: string;
+  bold: boolean;
+  color: string;
+  background: string | null;
+  align: 'left' | 'center' | 'right';
+  padding: number;
+}
+
+function textStyle(asset: ShotstackAsset, height: number): TextStyle {
+  if (asset.type === 'title') {
+    return {
+      text: asset.text || '',
+      fontSize: Math.round(height * (TITLE_SIZES[asset.size || 'medium'] ?? TITLE_SIZES.medium)),
+      fontFamily: 'Arial',
+      bold: true,
+      color: ffmpegColor(asset.color || '#ffffff'),
+      background: asset.background ? ffmpegColor(asset.background) : null,
+      align: 'center',
+      padding: 10
+    };
+  }
+
+  const css = asset.css || '';
+  const property = (name: string) => css.match(new RegExp(`(?:^|[;{\\s])${name}\\s*:\\s*([^;}]+)`))?.[1].trim();
+  const text = (asset.html || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+  const background = property('background-color') || property('background');
+  const align = property('text-align');
+
+  return {
+    text,
+    fontSize: parseInt(property('font-size') || '', 10) || 32,
+    fontFamily: (property('font-family') || 'Arial').split(',')[0].replace(/['"]/g, '').trim(),
+    bold: /bold|[6-9]00/.test(property('font-weight') || ''),
+    color: ffmpegColor(property('color') || '#ffffff'),
+    background: background && background !== 'transparent' ? ffmpegColor(background) : null,
+    align: align === 'center' || align === 'right' ? align : 'left',
+    padding: parseInt(property('padding') || '', 10) || 0
+  };
+}
+
+// drawtext alpha for fade transitions, in timeline time
+function fadeAlpha(clip: ShotstackClip): string | null {
+  const fadeIn = clip.transition?.in ? Math.min(FADE_SECONDS[clip.transition.in], clip.length) : 0;
+  const fadeOut = clip.transition?.out ? Math.min(FADE_SECONDS[clip.transition.out], clip.length) : 0;
+  if (!fadeIn && !fadeOut) return null;
+
+  const end = round(clip.start + clip.length);
+  const parts: string[] = [];
+  if (fadeIn) parts.push(`if(lt(t,${round(clip.start + fadeIn)}),(t-${clip.start})/${fadeIn}`);
+  if (fadeOut) parts.push(`if(gt(t,${round(end - fadeOut)}),(${end}-t)/${fadeOut}`);
+  return `${parts.join(',')},1${')'.repeat(parts.length)}`;
+}
+
+/**
+ * Trim, volume, fades and delay for one audio clip, padded to the full
+ * length for amix. Returns the chain's output label.
+ */
+function audioChain(filters: string[], inputLabel: string, clip: ShotstackClip, duration: number): string {
+  const label = `[a${filters.length}]`;
+  const chain = ['asetpts=PTS-STARTPTS', 'aresample=44100', 'aformat=sample_fmts=fltp:channel_layouts=stereo'];
+
+  const volume = clip.asset.volume;
+  if (Array.isArray(volume)) {
+    chain.push(`volume='${tweenExpression(volume)}':eval=frame`);
+  } else if (volume !== undefined && volume !== 1) {
+    chain.push(`volume=${volume}`);
+  }
+
+  const effect = clip.asset.effect;
+  if (effect === 'fadeIn' || effect === 'fadeInFadeOut') chain.push(`afade=t=in:st=0:d=${Math.min(2, clip.length)}`);
+  if (effect === 'fadeOut' || effect === 'fadeInFadeOut') chain.push(`afade=t=out:st=${round(Math.max(0, clip.length - 2))}:d=${Math.min(2, clip.length)}`);
+
+  chain.push(`atrim=0:${clip.length}`);
+  const delay = Math.round(clip.start * 1000);
+  if (delay > 0) chain.push(`adelay=${delay}|${delay}`);
+  chain.push('apad', `atrim=0:${duration}`);
+
+  filters.push(`${inputLabel}${chain.join(',')}${label}`);
+  return label;
+}
+
+/**
+ * Piecewise-linear volume over clip time: each tween's `from` before it
+ * starts, a ramp while it runs, the last tween's `to` after the end
+ */
+function tweenExpression(tweens: VolumeTween[]): string {
+  const sorted = [...tweens].sort((a, b) => a.start - b.start);
+  if (sorted.length === 0) return '1';
+
+  let expression = String(sorted[sorted.length - 1].to);
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const tween = sorted[i];
+    const end = round(tween.start + tween.length);
+    const ramp = tween.length > 0
+      ? `${tween.from}+(${round(tween.to - tween.from)})*(t-${tween.start})/${tween.length}`
+      : String(tween.to);
+    expression = `if(lt(t,${tween.start}),${tween.from},if(lt(t,${end}),${ramp},${expression}))`;
+  }
+  return expression;
+}
+
+function volumeOf(asset: ShotstackAsset): number | VolumeTween[] {
+  return asset.volume ?? 1;
+}
+
+function during(clip: ShotstackClip): string {
+  return `between(t,${clip.start},${round(clip.start + clip.length)})`;
+}
+
+/**
+ * #rgb, #rrggbb, #aarrggbb (Shotstack puts alpha first), rgb()/rgba() or a
+ * colour name, in ffmpeg's 0xRRGGBB[@alpha] form
+ */
+export function ffmpegColor(color: string): string {
+  const value = color.trim();
+  const rgba = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+  if (rgba) {
+    const hex = rgba.slice(1, 4).map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0')).join('');
+    return rgba[4] !== undefined && Number(rgba[4]) < 1 ? `0x${hex}@${Number(rgba[4])}` : `0x${hex}`;
+  }
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i)?.[1];
+  if (hex?.length === 3) return `0x${hex.split('').map(digit => digit + digit).join('')}`;
+  if (hex?.length === 6) return `0x${hex}`;
+  if (hex?.length === 8) return `0x${hex.slice(2)}@${round(parseInt(hex.slice(0, 2), 16) / 255)}`;
+
+  if (/^[a-z]+$/i.test(value)) return value.toLowerCase();
+  throw new LocalRenderError(`Unsupported colour "${color}"`);
+}
+
+// Filter option values are quoted; the colon and backslash still need escaping
+function filterPath(path: string): string {
+  if (path.includes("'")) {
+    throw new LocalRenderError(`Paths with quotes can't be passed to ffmpeg filters: ${path}`, 500);
+  }
+  return path.replace(/\\/g, '/').replace(/:/g, '\\:');
+}
+
+function even(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
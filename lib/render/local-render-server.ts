@@ -0,0 +1,177 @@
+// Local Render Server
+// A Shotstack stand-in for development and tests that really renders:
+// POST /render takes the same edit JSON (timeline + output) and queues it,
+// GET /render/:id reports it with Shotstack's statuses (queued, fetching,
+// rendering, done, failed), and the finished MP4 is served from
+// /videos/:id.mp4. Renders run one at a time through ffmpeg
+// (local-renderer.ts), and a render with a `callback` URL gets the same POST
+// Shotstack's webhook sends. Any path prefix is accepted, so point
+// ShotstackService at it with SHOTSTACK_API_URL=<url>/stage. No API key is
+// checked.
+
+import { randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, stat } from 'fs/promises';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalRenderError, ShotstackEdit, getTimelineSources } from './ffmpeg-timeline';
+import { LocalRenderer, LocalRendererOptions } from './local-renderer';
+
+export interface LocalRenderServerOptions extends LocalRendererOptions {
+  port?: number; // 0 (default) picks a free port
+  host?: string; // Default 127.0.0.1 - the server fetches any URL it's given, so keep it local
+  outputDir?: string; // Default: LOCAL_RENDER_DIR, else <temp>/local-renders
+}
+
+export interface LocalRender {
+  id: string;
+  status: 'queued' | 'fetching' | 'rendering' | 'done' | 'failed';
+  edit: ShotstackEdit;
+  callback?: string;
+  error?: string;
+  duration?: number;
+  renderTime?: number; // Milliseconds
+  callbackStatus?: number; // HTTP status the callback receiver answered with
+  created: string;
+  updated: string;
+}
+
+export interface LocalRenderServer {
+  url: string;
+  renders: Map<string, LocalRender>;
+  idle: () => Promise<void>; // Resolves once every queued render has settled
+  close: () => Promise<void>;
+}
+
+export async function startLocalRenderServer(options: LocalRenderServerOptions = {}): Promise<LocalRenderServer> {
+  const renderer = new LocalRenderer(options);
+  const outputDir = options.outputDir || process.env.LOCAL_RENDER_DIR || join(tmpdir(), 'local-renders');
+  await mkdir(outputDir, { recursive: true });
+
+  const renders = new Map<string, LocalRender>();
+  let queue: Promise<void> = Promise.resolve();
+  let baseUrl = '';
+
+  const videoPath = (id: string) => join(outputDir, `${id}.mp4`);
+  const videoUrl = (render: LocalRender) => render.status === 'done' ? `${baseUrl}/videos/${render.id}.mp4` : undefined;
+  const update = (render: LocalRender, changes: Partial<LocalRender>) => {
+    Object.assign(render, changes, { updated: new Date().toISOString() });
+  };
+
+  const renderResponse = (render: LocalRender) => ({
+    id: render.id,
+    owner: 'local',
+    plan: 'local',
+    status: render.status,
+    error: render.error || '',
+    duration: render.duration ?? 0,
+    renderTime: render.renderTime ?? 0,
+    url: videoUrl(render) || '',
+    poster: null,
+    thumbnail: null,
+    data: render.edit,
+    created: render.created,
+    updated: render.updated
+  });
+
+  const notify = async (render: LocalRender) => {
+    if (!render.callback) return;
+    try {
+      const response = await fetch(render.callback, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'edit',
+          action: 'render',
+          id: render.id,
+          owner: 'local',
+          status: render.status,
+          url: videoUrl(render) || null,
+          error: render.error || null,
+          completed: render.updated
+        })
+      });
+      render.callbackStatus = response.status;
+    } catch (error) {
+      console.error(`Local render callback for ${render.id} failed:`, error);
+    }
+  };
+
+  const runRender = async (render: LocalRender) => {
+    const started = Date.now();
+    try {
+      const result = await renderer.render(render.edit, videoPath(render.id), stage => update(render, { status: stage }));
+      update(render, { status: 'done', duration: result.duration, renderTime: Date.now() - started });
+      console.log(`🎬 Local render ${render.id} done in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+    } catch (error) {
+      update(render, { status: 'failed', error: error instanceof Error ? error.message : String(error), renderTime: Date.now() - started });
+      console.error(`❌ Local render ${render.id} failed:`, render.error);
+    }
+    await notify(render);
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === 'POST' && path.endsWith('/render')) {
+      let raw = '';
+      for await (const chunk of req) raw += chunk;
+      let edit: ShotstackEdit;
+      try {
+        edit = JSON.parse(raw);
+        getTimelineSources(edit); // Refuse what can't be rendered up front, like Shotstack's validation
+      } catch (error) {
+        const message = error instanceof LocalRenderError ? error.message : 'Body must be a JSON edit';
+        return send(400, { success: false, message: 'Bad Request', response: { error: message } });
+      }
+
+      const now = new Date().toISOString();
+      const render: LocalRender = { id: randomUUID(), status: 'queued', edit, callback: edit.callback, created: now, updated: now };
+      renders.set(render.id, render);
+      queue = queue.then(() => runRender(render));
+
+      return send(201, { success: true, message: 'Created', response: { message: 'Render Successfully Queued', id: render.id } });
+    }
+
+    const status = path.match(/\/render\/([\w-]+)$/);
+    if (req.method === 'GET' && status) {
+      const render = renders.get(status[1]);
+      if (!render) return send(404, { success: false, message: 'Render not found' });
+      return send(200, { success: true, message: 'OK', response: renderResponse(render) });
+    }
+
+    const video = path.match(/^\/videos\/([\w-]+)\.mp4$/);
+    if (req.method === 'GET' && video) {
+      if (renders.get(video[1])?.status !== 'done') return send(404, { success: false, message: 'Not found' });
+      const { size } = await stat(videoPath(video[1]));
+      res.writeHead(200, { 'Content-Type': 'video/mp4', 'Content-Length': size });
+      createReadStream(videoPath(video[1])).pipe(res);
+      return;
+    }
+
+    send(404, { success: false, message: `No local render route for ${req.method} ${path}` });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: false, message: error.message }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, options.host || '127.0.0.1', resolve));
+  baseUrl = `http://${options.host || '127.0.0.1'}:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    renders,
+    idle: () => queue,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
@@ -0,0 +1,150 @@
+// Local Renderer
+// Renders a Shotstack edit to an MP4 with ffmpeg: downloads the assets
+// (http(s) or file:// URLs) into a scratch directory, checks which videos
+// carry sound, and runs the command planned by ffmpeg-timeline.ts. Used by
+// the local render server; needs an ffmpeg binary (FFMPEG_PATH, or ffmpeg
+// on the PATH).
+
+import { spawn } from 'child_process';
+import { createWriteStream } from 'fs';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { extname, join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { fileURLToPath } from 'url';
+import { FfmpegInput, LocalRenderError, ShotstackEdit, getTimelineSources, planFfmpegRender } from './ffmpeg-timeline';
+
+export interface LocalRendererOptions {
+  ffmpegPath?: string; // Default: FFMPEG_PATH, else ffmpeg on the PATH
+  fontFile?: string; // Default: LOCAL_RENDER_FONT; without one fontconfig picks the font
+  workDir?: string; // Scratch space for downloads, default the OS temp directory
+  timeoutMs?: number; // Per ffmpeg run
+}
+
+export interface LocalRenderResult {
+  path: string;
+  width: number;
+  height: number;
+  duration: number;
+}
+
+export type LocalRenderStage = 'fetching' | 'rendering';
+
+const DEFAULT_TIMEOUT_MS = 15 * 60 * 1000;
+
+export class LocalRenderer {
+  private ffmpegPath: string;
+  private fontFile?: string;
+  private workDir: string;
+  private timeoutMs: number;
+
+  constructor(options: LocalRendererOptions = {}) {
+    this.ffmpegPath = options.ffmpegPath || process.env.FFMPEG_PATH || 'ffmpeg';
+    this.fontFile = options.fontFile || process.env.LOCAL_RENDER_FONT || undefined;
+    this.workDir = options.workDir || tmpdir();
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Render the edit to outputPath. onStage reports when downloading is done
+   * and ffmpeg starts, for Shotstack-style status updates.
+   */
+  async render(edit: ShotstackEdit, outputPath: string, onStage?: (stage: LocalRenderStage) => void): Promise<LocalRenderResult> {
+    const sources = getTimelineSources(edit);
+    await mkdir(this.workDir, { recursive: true });
+    const scratch = await mkdtemp(join(this.workDir, 'local-render-'));
+
+    try {
+      onStage?.('fetching');
+      const inputs = new Map<string, FfmpegInput>();
+      for (const [index, src] of sources.entries()) {
+        const path = await this.fetchSource(src, scratch, index);
+        inputs.set(src, { path, hasAudio: await this.hasAudio(path) });
+      }
+
+      const plan = planFfmpegRender(edit, inputs, { outputPath, workDir: scratch, fontFile: this.fontFile });
+      for (const file of plan.textFiles) {
+        await writeFile(file.path, file.content);
+      }
+
+      onStage?.('rendering');
+      await this.run(plan.args);
+      return { path: outputPath, width: plan.width, height: plan.height, duration: plan.duration };
+    } finally {
+      await rm(scratch, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Whether ffmpeg can be run at all
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.run(['-hide_banner', '-version']);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async fetchSource(src: string, scratch: string, index: number): Promise<string> {
+    if (src.startsWith('file://')) {
+      return fileURLToPath(src);
+    }
+    if (!/^https?:\/\//.test(src)) {
+      throw new LocalRenderError(`Can't fetch asset ${src} - use an http(s) or file:// URL`);
+    }
+
+    const response = await fetch(src);
+    if (!response.ok || !response.body) {
+      throw new LocalRenderError(`Fetching asset ${src} failed: ${response.status}`, 502);
+    }
+    const path = join(scratch, `asset-${index}${extname(new URL(src).pathname).slice(0, 8)}`);
+    await pipeline(Readable.fromWeb(response.body as NodeReadableStream), createWriteStream(path));
+    return path;
+  }
+
+  // ffmpeg with only an input prints its streams, then exits non-zero
+  private async hasAudio(path: string): Promise<boolean> {
+    const { stderr } = await this.exec(['-hide_banner', '-i', path]);
+    if (/No such file|Invalid data found/.test(stderr)) {
+      throw new LocalRenderError(`Can't read asset ${path}: ${lastLines(stderr)}`);
+    }
+    return /Stream #\d+:\d+.*: Audio:/.test(stderr);
+  }
+
+  private async run(args: string[]): Promise<void> {
+    const { code, stderr } = await this.exec(args);
+    if (code !== 0) {
+      throw new LocalRenderError(`ffmpeg failed: ${lastLines(stderr) || `exit ${code}`}`, 500);
+    }
+  }
+
+  private exec(args: string[]): Promise<{ code: number | null; stderr: string }> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.ffmpegPath, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      let stderr = '';
+      child.stderr.on('data', chunk => {
+        stderr = (stderr + chunk).slice(-20000);
+      });
+
+      const timer = setTimeout(() => child.kill('SIGKILL'), this.timeoutMs);
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject((error as NodeJS.ErrnoException).code === 'ENOENT'
+          ? new LocalRenderError(`ffmpeg not found at "${this.ffmpegPath}" - install it or set FFMPEG_PATH`, 500)
+          : error);
+      });
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        resolve({ code, stderr: signal === 'SIGKILL' ? `${stderr}\nTimed out after ${this.timeoutMs}ms` : stderr });
+      });
+    });
+  }
+}
+
+function lastLines(text: string, count: number = 5): string {
+  return text.trim().split('\n').slice(-count).join('\n');
+}
@@ -0,0 +1,278 @@
+// Content Safety
+// Categorized verdicts for text that ends up in a video: the scraped story,
+// Claude's enhanced rewrite and the burned-in captions. Word-boundary rules
+// catch the obvious cases ("drugs" but not "drugstore") and personal details
+// like phone numbers and addresses; an optional model pass catches what is
+// phrased differently. The worst severity decides: high blocks, medium is
+// flagged for review.
+
+import {
+  SafetyCategory,
+  SafetyFinding,
+  SafetySeverity,
+  SafetyStage,
+  SafetyVerdict
+} from '../types/reddit-automation';
+import { ClaudeService } from '../services/claude-service';
+import { costLedger } from '../usage/cost-ledger';
+import { calculateTokenCost, estimateTokens } from '../usage/model-pricing';
+
+export class ContentSafetyError extends Error {
+  constructor(message: string, public readonly verdict: SafetyVerdict, public readonly status: number = 422) {
+    super(message);
+    this.name = 'ContentSafetyError';
+  }
+}
+
+export const SAFETY_CATEGORIES: SafetyCategory[] = ['violence', 'self_harm', 'sexual', 'hate', 'personal_info', 'platform_policy'];
+
+interface SafetyRule {
+  id: string;
+  category: SafetyCategory;
+  severity: SafetySeverity;
+  pattern: RegExp; // Global
+}
+
+// Letters and digits on either side mean the term is part of a longer word
+const wordPattern = (terms: string[]): RegExp =>
+  new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeTerm).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+
+const escapeTerm = (term: string): string =>
+  term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/[\s-]+/g, '[\\s-]+');
+
+// Contact details, shared with the redaction pass (pii-redaction.ts)
+export const CONTACT_PATTERNS = {
+  phone: /(?<!\d)(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?!\d)/g,
+  email: /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi,
+  address: /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Place|Pl|Way)\b\.?/g,
+  username: /(?<![\w/])\/?u\/[A-Za-z0-9_-]{3,20}\b/g
+};
+
+const SAFETY_RULES: SafetyRule[] = [
+  { id: 'graphic_violence', category: 'violence', severity: 'high', pattern: wordPattern(['behead', 'beheaded', 'beheading', 'dismember', 'dismembered', 'dismemberment', 'mass shooting', 'school shooting']) },
+  { id: 'violence', category: 'violence', severity: 'medium', pattern: wordPattern(['kill', 'killed', 'killing', 'murder', 'murdered', 'murderer', 'stab', 'stabbed', 'stabbing', 'strangle', 'strangled', 'violence', 'violent', 'abuse', 'abused', 'abusive', 'abuser', 'gunpoint']) },
+  { id: 'self_harm', category: 'self_harm', severity: 'high', pattern: wordPattern(['suicide', 'suicidal', 'self-harm', 'kill myself', 'killed myself', 'cut myself', 'cutting myself', 'end my life']) },
+  { id: 'overdose', category: 'self_harm', severity: 'medium', pattern: wordPattern(['overdose', 'overdosed']) },
+  { id: 'sexual_violence', category: 'sexual', severity: 'high', pattern: wordPattern(['rape', 'raped', 'raping', 'rapist', 'molest', 'molested', 'molestation', 'sexual assault', 'sexually assaulted']) },
+  { id: 'sexual', category: 'sexual', severity: 'medium', pattern: wordPattern(['porn', 'porno', 'nudes', 'sex', 'sexual', 'orgasm']) },
+  { id: 'hate_speech', category: 'hate', severity: 'high', pattern: wordPattern(['white power', 'heil hitler', 'ethnic cleansing', 'subhuman']) },
+  { id: 'hate_topic', category: 'hate', severity: 'medium', pattern: wordPattern(['racist', 'racism', 'sexist', 'homophobic', 'transphobic', 'bigot', 'nazi', 'nazis']) },
+  { id: 'drug_trade', category: 'platform_policy', severity: 'high', pattern: wordPattern(['buy drugs', 'sell drugs', 'selling drugs', 'pipe bomb', 'make a bomb']) },
+  { id: 'drugs', category: 'platform_policy', severity: 'medium', pattern: wordPattern(['drugs', 'cocaine', 'heroin', 'meth', 'fentanyl', 'illegal']) },
+  { id: 'promotion', category: 'platform_policy', severity: 'medium', pattern: wordPattern(['onlyfans', 'cash app', 'cashapp', 'venmo', 'link in bio', 'promo code']) },
+  // Personal details would be read out and burned into the video
+  { id: 'phone_number', category: 'personal_info', severity: 'high', pattern: CONTACT_PATTERNS.phone },
+  { id: 'email_address', category: 'personal_info', severity: 'high', pattern: CONTACT_PATTERNS.email },
+  { id: 'street_address', category: 'personal_info', severity: 'high', pattern: CONTACT_PATTERNS.address },
+  { id: 'ssn', category: 'personal_info', severity: 'high', pattern: /(?<!\d)\d{3}-\d{2}-\d{4}(?!\d)/g },
+  { id: 'full_name', category: 'personal_info', severity: 'medium', pattern: /\b(?:[Mm]y name is|[Nn]amed|[Cc]alled)\s+[A-Z][a-z]+\s+[A-Z][a-z]+\b/g },
+  { id: 'reddit_username', category: 'personal_info', severity: 'medium', pattern: CONTACT_PATTERNS.username }
+];
+
+// Enough to explain a verdict without bloating the workflow state
+const MAX_FINDINGS_PER_RULE = 5;
+
+const SEVERITY_RANK: Record<SafetySeverity, number> = { low: 1, medium: 2, high: 3 };
+
+/**
+ * Second opinion on text the rules let through or only flagged. Returns
+ * findings in the same shape as the rules, plus what the call cost.
+ */
+export interface SafetyModel {
+  readonly model: string;
+  review(text: string): Promise<{ findings: SafetyFinding[]; cost: number }>;
+}
+
+export class ContentSafetyClassifier {
+  constructor(private model: SafetyModel | null = null) {}
+
+  /**
+   * Rules first, then the model pass if one is configured. A failing model
+   * call is recorded on the verdict and the rules verdict stands.
+   */
+  async classify(text: string, stage: SafetyStage): Promise<SafetyVerdict> {
+    const verdict = classifyWithRules(text, stage);
+    if (!this.model || !text.trim()) return verdict;
+
+    try {
+      const { findings, cost } = await this.model.review(text);
+      return buildVerdict(stage, [...verdict.findings, ...findings], 'rules+llm', { model: this.model.model, cost });
+    } catch (error) {
+      console.warn(`⚠️ Content safety model pass failed for ${stage}, using the rules verdict:`, error);
+      return { ...verdict, llm: { model: this.model.model, cost: 0, error: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+}
+
+/**
+ * Rules-only verdict - synchronous, free, and what the scraper runs on
+ * every post
+ */
+export function classifyWithRules(text: string, stage: SafetyStage): SafetyVerdict {
+  const findings: SafetyFinding[] = [];
+
+  for (const rule of SAFETY_RULES) {
+    let count = 0;
+    for (const match of text.matchAll(rule.pattern)) {
+      findings.push({ category: rule.category, severity: rule.severity, rule: rule.id, match: match[0], index: match.index });
+      if (++count >= MAX_FINDINGS_PER_RULE) break;
+    }
+  }
+
+  return buildVerdict(stage, findings, 'rules');
+}
+
+/**
+ * True if any of the words or phrases appears as a whole word, ignoring case
+ */
+export function containsWholeWord(text: string, words: string[]): boolean {
+  const terms = words.filter(word => word.trim());
+  return terms.length > 0 && wordPattern(terms).test(text);
+}
+
+/**
+ * One-line summary for errors and logs, e.g. "personal_info (high), violence (medium)"
+ */
+export function describeVerdict(verdict: SafetyVerdict): string {
+  const flagged = Object.entries(verdict.categories) as Array<[SafetyCategory, SafetySeverity]>;
+  return flagged.length > 0
+    ? flagged.map(([category, severity]) => `${category} (${severity})`).join(', ')
+    : 'nothing flagged';
+}
+
+function buildVerdict(
+  stage: SafetyStage,
+  findings: SafetyFinding[],
+  source: SafetyVerdict['source'],
+  llm?: SafetyVerdict['llm']
+): SafetyVerdict {
+  const categories: SafetyVerdict['categories'] = {};
+  for (const finding of findings) {
+    const current = categories[finding.category];
+    if (!current || SEVERITY_RANK[finding.severity] > SEVERITY_RANK[current]) {
+      categories[finding.category] = finding.severity;
+    }
+  }
+
+  const worst = Math.max(0, ...Object.values(categories).map(severity => SEVERITY_RANK[severity!]));
+  const decision = worst >= SEVERITY_RANK.high ? 'block' : worst >= SEVERITY_RANK.medium ? 'review' : 'allow';
+
+  return { stage, decision, categories, findings, source, ...(llm ? { llm } : {}), checkedAt: new Date().toISOString() };
+}
+
+const MODEL_INSTRUCTIONS = `You review text that will be narrated in a short-form social video.
+Flag anything in these categories: ${SAFETY_CATEGORIES.join(', ')}.
+personal_info means details that identify a real person: full names, phone numbers, addresses, emails, usernames.
+Severity: "high" must not be published, "medium" needs a human look, "low" is worth noting.
+Reply with JSON only: {"findings":[{"category":"...","severity":"...","excerpt":"short quote","reason":"..."}]}
+Reply {"findings":[]} if nothing applies.`;
+
+// The model sees the start of very long texts only; the rules see everything
+const MAX_MODEL_INPUT_CHARS = 12000;
+const MAX_MODEL_OUTPUT_TOKENS = 1024;
+
+/**
+ * Claude as the safety model, through the Messages API. Each call is held
+ * against ClaudeService's daily budget and recorded in the cost ledger, so
+ * an over-budget day falls back to the rules verdict.
+ */
+export class AnthropicSafetyModel implements SafetyModel {
+  constructor(
+    private apiKey: string,
+    readonly model: string = 'claude-3-haiku-20240307',
+    private baseUrl: string = 'https://api.anthropic.com'
+  ) {}
+
+  async review(text: string): Promise<{ findings: SafetyFinding[]; cost: number }> {
+    const input = text.slice(0, MAX_MODEL_INPUT_CHARS);
+    // Reserve for the worst case: instructions and text in, every allowed token out
+    const estimate = { inputTokens: estimateTokens(MODEL_INSTRUCTIONS + input), outputTokens: MAX_MODEL_OUTPUT_TOKENS };
+
+    // Settled before the reply is parsed - an unreadable reply was still paid for
+    const { reply, cost } = await ClaudeService.withinBudget(
+      { cost: calculateTokenCost(this.model, estimate), tokens: estimate.inputTokens + estimate.outputTokens },
+      async () => {
+        const response = await fetch(`${this.baseUrl}/v1/messages`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': this.apiKey,
+            'anthropic-version': '2023-06-01'
+          },
+          body: JSON.stringify({
+            model: this.model,
+            max_tokens: MAX_MODEL_OUTPUT_TOKENS,
+            system: MODEL_INSTRUCTIONS,
+            messages: [{ role: 'user', content: input }]
+          })
+        });
+        if (!response.ok) {
+          throw new Error(`Safety model returned ${response.status}`);
+        }
+
+        const data = await response.json() as { content?: Array<{ type: string; text?: string }>; usage?: { input_tokens: number; output_tokens: number } };
+        const reply = (data.content || []).map(block => block.text || '').join('');
+        // Without a usage block the estimate is charged
+        const usage = data.usage
+          ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+          : estimate;
+        const cost = calculateTokenCost(this.model, usage);
+
+        await costLedger.record({
+          service: 'anthropic',
+          operation: 'content_safety',
+          source: 'AnthropicSafetyModel',
+          model: this.model,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          cost
+        });
+        return { result: { reply, cost }, cost, tokens: usage.inputTokens + usage.outputTokens };
+      }
+    );
+
+    return { findings: parseModelFindings(reply), cost };
+  }
+}
+
+/**
+ * Findings from the model's JSON reply. Entries with an unknown category or
+ * severity are dropped; a reply that isn't JSON at all is an error.
+ */
+export function parseModelFindings(reply: string): SafetyFinding[] {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start < 0 || end < start) {
+    throw new Error('Safety model reply was not JSON');
+  }
+
+  const parsed = JSON.parse(reply.slice(start, end + 1));
+  const entries: any[] = Array.isArray(parsed?.findings) ? parsed.findings : [];
+
+  return entries
+    .filter(entry => SAFETY_CATEGORIES.includes(entry?.category) && entry.severity in SEVERITY_RANK)
+    .map(entry => ({
+      category: entry.category,
+      severity: entry.severity,
+      rule: 'llm',
+      match: String(entry.excerpt || '').slice(0, 200),
+      reason: entry.reason ? String(entry.reason).slice(0, 300) : undefined
+    }));
+}
+
+/**
+ * Rules only unless CONTENT_SAFETY_LLM is 'true' and there's an Anthropic key
+ */
+export function createContentSafetyClassifier(env: {
+  ANTHROPIC_API_KEY?: string;
+  CONTENT_SAFETY_LLM?: string;
+  CONTENT_SAFETY_MODEL?: string;
+}): ContentSafetyClassifier {
+  if (env.CONTENT_SAFETY_LLM !== 'true') return new ContentSafetyClassifier();
+
+  if (!env.ANTHROPIC_API_KEY) {
+    console.warn('⚠️ CONTENT_SAFETY_LLM is on but ANTHROPIC_API_KEY is missing - content safety uses rules only');
+    return new ContentSafetyClassifier();
+  }
+  return new ContentSafetyClassifier(new AnthropicSafetyModel(env.ANTHROPIC_API_KEY, env.CONTENT_SAFETY_MODEL || undefined));
+}
@@ -0,0 +1,169 @@
+// PII Redaction
+// Replaces personal details in a story before it's enhanced, narrated and
+// captioned. Each distinct name, username, employer and place gets one
+// pseudonym used throughout the title, content and enhanced text, so "my
+// boss Karen" stays the same person for the whole story; contact details
+// become neutral placeholders. Detection is cue-based ("my boss Karen",
+// "I work at Initech", "we moved to Tulsa") rather than a name dictionary,
+// which is why the mapping is kept for review.
+
+import { PiiKind, PiiReplacement, RedditStory, StoryRedaction } from '../types/reddit-automation';
+import { CONTACT_PATTERNS } from './content-safety';
+
+export interface RedactedStory {
+  story: RedditStory;
+  redaction: StoryRedaction;
+}
+
+const NAME = '[A-Z][a-z]+(?:-[A-Z][a-z]+)?';
+
+const RELATIONS = [
+  'boss', 'manager', 'supervisor', 'coworker', 'co-worker', 'colleague', 'friend', 'best friend', 'roommate', 'neighbor', 'neighbour',
+  'sister', 'brother', 'mom', 'mum', 'dad', 'mother', 'father', 'aunt', 'uncle', 'cousin', 'wife', 'husband', 'girlfriend',
+  'boyfriend', 'partner', 'fiance', 'fiancee', 'fiancé', 'fiancée', 'ex', 'son', 'daughter', 'stepmom', 'stepdad', 'landlord',
+  'landlady', 'teacher', 'classmate', 'MIL', 'FIL', 'SIL', 'BIL', 'SO'
+];
+
+// Group 1 is the first name, group 2 (when present) the surname
+const NAME_CUES: RegExp[] = [
+  new RegExp(`\\b(?:[Mm]y|[Hh]is|[Hh]er|[Tt]heir|[Oo]ur)\\s+(?:${RELATIONS.join('|')})\\s*,?\\s+(${NAME})\\b`, 'g'),
+  new RegExp(`\\b(?:named|called|name is|name's)\\s+(${NAME})(?:\\s+(${NAME}))?\\b`, 'g'),
+  new RegExp(`\\b(${NAME})\\s+(?:said|says|asked|told|replied|yelled|texted|screamed|laughed|admitted|insisted)\\b`, 'g'),
+  // Reddit's age/gender tags: "Karen (45F)", "Dave(M30)"
+  new RegExp(`\\b(${NAME})\\s?\\((?:\\d{1,2}\\s?[MFmf]|[MFmf]\\s?\\d{1,2}|\\d{1,2})\\)`, 'g')
+];
+
+const EMPLOYER_CUE = /\b(?:work|works|worked|working|employed|hired|interned|interning|job)\s+(?:at|for|with|by)\s+([A-Z][\w&'-]*(?:\s+(?:[A-Z][\w&'-]*|&)){0,3})/g;
+
+const PLACE_CUES: RegExp[] = [
+  new RegExp(`\\b(?:live|lives|lived|living|moved|grew up|born|raised|based|stationed|visiting|from)\\s+(?:in|to|near|out of)?\\s*(${NAME}(?:\\s+${NAME})?)`, 'g'),
+  // "Tulsa, OK"
+  new RegExp(`\\b(${NAME}(?:\\s+${NAME})?),\\s+[A-Z]{2}\\b`, 'g')
+];
+
+// Capitalized words the cues pick up that aren't anyone's name or hometown
+const NOT_PII = new Set([
+  'I', 'He', 'She', 'They', 'It', 'We', 'You', 'Him', 'Her', 'Them', 'Me', 'Mom', 'Mum', 'Dad', 'Grandma', 'Grandpa',
+  'Everyone', 'Everybody', 'Someone', 'Somebody', 'Nobody', 'Then', 'And', 'But', 'So', 'Which', 'Who', 'This', 'That',
+  'The', 'When', 'Because', 'Edit', 'Update', 'God', 'Reddit', 'OP', 'Home', 'School', 'Work', 'Christmas', 'Thanksgiving',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  // Countries and regions are too broad to identify anyone
+  'America', 'Canada', 'Mexico', 'England', 'Scotland', 'Ireland', 'Wales', 'Britain', 'Europe', 'Asia', 'Africa',
+  'Australia', 'Germany', 'France', 'Spain', 'Italy', 'India', 'China', 'Japan', 'UK', 'US', 'USA'
+]);
+
+// Gender-neutral, so pronouns in the story still fit
+const PSEUDONYMS: Record<'name' | 'surname' | 'employer' | 'place', string[]> = {
+  name: ['Alex', 'Jordan', 'Taylor', 'Morgan', 'Casey', 'Riley', 'Jamie', 'Avery', 'Quinn', 'Rowan', 'Skyler', 'Dakota', 'Reese', 'Parker', 'Emerson', 'Hayden', 'Finley', 'Sawyer', 'Charlie', 'Drew'],
+  surname: ['Hayes', 'Porter', 'Ellis', 'Brooks', 'Carter', 'Reed', 'Lawson', 'Mercer', 'Sutton', 'Hale'],
+  employer: ['Northwind', 'Brightline', 'Bluepeak', 'Ironwood', 'Summit Works', 'Keystone', 'Redfern', 'Lakeshore Group'],
+  place: ['Riverton', 'Oakdale', 'Maple Falls', 'Cedar Springs', 'Lakeview', 'Fairhaven', 'Millbrook', 'Brookfield', 'Pine Hollow', 'Westbury']
+};
+
+const CONTACT_PLACEHOLDERS: Record<'phone' | 'email' | 'address', string> = {
+  phone: '[phone number]',
+  email: '[email address]',
+  address: '[street address]'
+};
+
+/**
+ * A copy of the story with personal details replaced, and the mapping that
+ * was applied. Title, content and enhanced_content share one mapping.
+ */
+export function redactStory(story: RedditStory, now: Date = new Date()): RedactedStory {
+  const texts = [story.title, story.content, story.enhanced_content || ''];
+  const source = texts.join('\n\n');
+  const replacements = planReplacements(source);
+
+  const pattern = replacementPattern(replacements);
+  const byOriginal = new Map(replacements.map(replacement => [replacement.original, replacement]));
+  const apply = (text: string): string => pattern
+    ? text.replace(pattern, original => {
+      const replacement = byOriginal.get(original)!;
+      replacement.occurrences++;
+      return replacement.replacement;
+    })
+    : text;
+
+  const redacted: RedditStory = { ...story, title: apply(story.title), content: apply(story.content) };
+  if (story.enhanced_content) redacted.enhanced_content = apply(story.enhanced_content);
+
+  return {
+    story: redacted,
+    redaction: {
+      replacements: replacements.filter(replacement => replacement.occurrences > 0),
+      redactedAt: now.toISOString()
+    }
+  };
+}
+
+/**
+ * Everything to replace, each with its pseudonym or placeholder, in order of
+ * first appearance
+ */
+function planReplacements(source: string): PiiReplacement[] {
+  const planned = new Map<string, PiiReplacement>();
+  const used = new Set<string>();
+
+  const add = (kind: PiiKind, original: string, replacement: () => string) => {
+    const trimmed = original.trim();
+    if (!trimmed || NOT_PII.has(trimmed) || planned.has(trimmed)) return;
+    planned.set(trimmed, { kind, original: trimmed, replacement: replacement(), occurrences: 0 });
+  };
+  const pseudonym = (pool: keyof typeof PSEUDONYMS) => () => {
+    // Skip pseudonyms the story already uses, so two people don't merge
+    const available = PSEUDONYMS[pool].find(candidate => !used.has(candidate) && !containsWord(source, candidate));
+    const chosen = available || `${PSEUDONYMS[pool][0]} ${used.size + 1}`;
+    used.add(chosen);
+    return chosen;
+  };
+
+  for (const match of source.matchAll(CONTACT_PATTERNS.email)) add('email', match[0], () => CONTACT_PLACEHOLDERS.email);
+  for (const match of source.matchAll(CONTACT_PATTERNS.phone)) add('phone', match[0], () => CONTACT_PLACEHOLDERS.phone);
+  for (const match of source.matchAll(CONTACT_PATTERNS.address)) add('address', match[0], () => CONTACT_PLACEHOLDERS.address);
+  for (const match of source.matchAll(CONTACT_PATTERNS.username)) add('username', match[0], () => `u/${pseudonym('name')()}`);
+
+  const names = NAME_CUES
+    .flatMap(cue => Array.from(source.matchAll(cue)))
+    .sort((a, b) => a.index! - b.index!);
+  for (const match of names) {
+    const [, first, last] = match;
+    if (NOT_PII.has(first)) continue;
+    if (last && !NOT_PII.has(last)) {
+      const firstPseudonym = planned.get(first)?.replacement || pseudonym('name')();
+      const lastPseudonym = planned.get(last)?.replacement || pseudonym('surname')();
+      add('name', `${first} ${last}`, () => `${firstPseudonym} ${lastPseudonym}`);
+      add('name', first, () => firstPseudonym);
+      add('name', last, () => lastPseudonym);
+    } else {
+      add('name', first, pseudonym('name'));
+    }
+  }
+
+  for (const match of source.matchAll(EMPLOYER_CUE)) {
+    add('employer', match[1].replace(/[\s&]+$/, ''), pseudonym('employer'));
+  }
+  const places = PLACE_CUES
+    .flatMap(cue => Array.from(source.matchAll(cue)))
+    .sort((a, b) => a.index! - b.index!);
+  for (const match of places) {
+    add('place', match[1], pseudonym('place'));
+  }
+
+  return Array.from(planned.values()).sort((a, b) => source.indexOf(a.original) - source.indexOf(b.original));
+}
+
+// One pass over the text, longest originals first so "Karen Miller" wins over "Karen"
+function replacementPattern(replacements: PiiReplacement[]): RegExp | null {
+  if (replacements.length === 0) return null;
+  const alternatives = replacements
+    .map(replacement => replacement.original)
+    .sort((a, b) => b.length - a.length)
+    .map(original => original.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`(?<![\\p{L}\\p{N}_@/])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`, 'gu');
+}
+
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${word}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
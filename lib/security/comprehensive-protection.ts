@@ -137,13 +137,8 @@ export class ComprehensiveProtectionService {
     // Record for IP protection
     await this.ipProtection.recordRequest(ipServiceMap[service], success, responseCode);
 
-    // Update cost tracking if usage provided
-    if (actualUsage && ['openai', 'anthropic', 'elevenlabs', 'heygen', 'googleCloud'].includes(service)) {
-      await this.costMonitor.calculateProcessingCost(
-        service as any,
-        actualUsage
-      );
-    }
+    // Cost tracking happens through the cost ledger: provider clients record
+    // their actual spend and APICostThresholds subscribes to those events
 
     // Check for ban indicators
     const banCheck = await this.ipProtection.checkForBanIndicators(ipServiceMap[service]);
@@ -1,45 +1,101 @@
-export class APICostThresholds {
-  
-  // REAL COST THRESHOLDS (based on actual API pricing)
-  private readonly costThresholds = {
-    openai: {
-      gpt4Input: 0.03 / 1000, // $0.03 per 1K input tokens
-      gpt4Output: 0.06 / 1000, // $0.06 per 1K output tokens
-      whisper: 0.006 / 60, // $0.006 per minute
-      dalle3: 0.04, // $0.04 per image
-      daily: { warning: 20, critical: 50, emergency: 100 },
-      monthly: { warning: 300, critical: 500, emergency: 1000 },
-    },
-    anthropic: {
-      claudeInput: 0.008 / 1000, // $0.008 per 1K input tokens  
-      claudeOutput: 0.024 / 1000, // $0.024 per 1K output tokens
-      daily: { warning: 15, critical: 30, emergency: 60 },
-      monthly: { warning: 200, critical: 300, emergency: 600 },
-    },
-    elevenlabs: {
-      characterCost: 0.00018, // $0.18 per 1K characters
-      daily: { warning: 5, critical: 10, emergency: 20 },
-      monthly: { warning: 50, critical: 100, emergency: 200 },
-    },
-    heygen: {
-      minuteCost: 0.30, // $0.30 per minute of video
-      daily: { warning: 10, critical: 25, emergency: 50 },
-      monthly: { warning: 150, critical: 300, emergency: 500 },
-    },
-    googleCloud: {
-      speechToText: 0.024 / 60, // $0.024 per minute
-      daily: { warning: 10, critical: 25, emergency: 50 },
-      monthly: { warning: 100, critical: 200, emergency: 400 },
-    },
+import { costLedger } from '../usage/cost-ledger';
+import { CostEvent } from '../usage/cost-event';
+
+// REAL COST THRESHOLDS (based on actual API pricing)
+const COST_THRESHOLDS = {
+  openai: {
+    gpt4Input: 0.03 / 1000, // $0.03 per 1K input tokens
+    gpt4Output: 0.06 / 1000, // $0.06 per 1K output tokens
+    whisper: 0.006 / 60, // $0.006 per minute
+    dalle3: 0.04, // $0.04 per image
+    daily: { warning: 20, critical: 50, emergency: 100 },
+    monthly: { warning: 300, critical: 500, emergency: 1000 },
+  },
+  anthropic: {
+    claudeInput: 0.008 / 1000, // $0.008 per 1K input tokens  
+    claudeOutput: 0.024 / 1000, // $0.024 per 1K output tokens
+    daily: { warning: 15, critical: 30, emergency: 60 },
+    monthly: { warning: 200, critical: 300, emergency: 600 },
+  },
+  elevenlabs: {
+    characterCost: 0.00018, // $0.18 per 1K characters
+    daily: { warning: 5, critical: 10, emergency: 20 },
+    monthly: { warning: 50, critical: 100, emergency: 200 },
+  },
+  heygen: {
+    minuteCost: 0.30, // $0.30 per minute of video
+    daily: { warning: 10, critical: 25, emergency: 50 },
+    monthly: { warning: 150, critical: 300, emergency: 500 },
+  },
+  googleCloud: {
+    speechToText: 0.024 / 60, // $0.024 per minute
+    daily: { warning: 10, critical: 25, emergency: 50 },
+    monthly: { warning: 100, critical: 200, emergency: 400 },
+  },
+  shotstack: {
+    renderMinute: 0.05, // $0.05 per rendered minute
+    daily: { warning: 3, critical: 5, emergency: 10 },
+    monthly: { warning: 50, critical: 100, emergency: 200 },
+  },
+};
+
+type UsageCounters = {
+  daily: number;
+  monthly: number;
+  lastReset: { day: string; month: string };
+};
+
+// Spend per service seen by this process, shared by every APICostThresholds.
+// Counters follow actual spend recorded by provider clients in the cost
+// ledger; subscribing once here keeps instances from each adding a listener.
+const usageTracking = new Map<string, UsageCounters>();
+
+costLedger.subscribe(recordCostEvent);
+
+function recordCostEvent(event: CostEvent): void {
+  if (event.cost > 0 && event.service in COST_THRESHOLDS) {
+    updateUsageTracking(event.service, event.cost, new Date(event.timestamp));
+  }
+}
+
+function updateUsageTracking(service: string, cost: number, now: Date = new Date()): void {
+  const currentDay = now.toISOString().split('T')[0];
+  const currentMonth = now.toISOString().slice(0, 7);
+
+  let usage = usageTracking.get(service) || {
+    daily: 0,
+    monthly: 0,
+    lastReset: { day: currentDay, month: currentMonth }
   };
 
-  // Track usage across all services
-  private usageTracking = new Map<string, {
-    daily: number;
-    monthly: number;
-    lastReset: { day: string; month: string };
-  }>();
+  // Reset daily counter if new day
+  if (usage.lastReset.day !== currentDay) {
+    usage.daily = 0;
+    usage.lastReset.day = currentDay;
+  }
+
+  // Reset monthly counter if new month
+  if (usage.lastReset.month !== currentMonth) {
+    usage.monthly = 0;
+    usage.lastReset.month = currentMonth;
+  }
+
+  // Update usage
+  usage.daily += cost;
+  usage.monthly += cost;
+
+  usageTracking.set(service, usage);
+}
+
+export class APICostThresholds {
+  private readonly costThresholds = COST_THRESHOLDS;
+
+  private usageTracking = usageTracking;
 
+  /**
+   * Estimate the cost of a request. Pure - actual spend is counted when the
+   * provider client records its CostEvent.
+   */
   async calculateProcessingCost(
     service: 'openai' | 'anthropic' | 'elevenlabs' | 'heygen' | 'googleCloud',
     usage: {
@@ -115,11 +171,8 @@ export class APICostThresholds {
         break;
     }
 
-    // Update tracking
-    await this.updateUsageTracking(service, totalCost);
-
     // Get current usage
-    const currentUsage = this.usageTracking.get(service)!;
+    const currentUsage = this.getCurrentUsage(service);
     const thresholds = this.costThresholds[service];
 
     const withinBudget = currentUsage.daily + totalCost < thresholds.daily.warning;
@@ -243,34 +296,15 @@ export class APICostThresholds {
     }
   }
 
-  private async updateUsageTracking(service: string, cost: number): Promise<void> {
-    const now = new Date();
-    const currentDay = now.toISOString().split('T')[0];
-    const currentMonth = now.toISOString().slice(0, 7);
+  private getCurrentUsage(service: string): { daily: number; monthly: number } {
+    const usage = this.usageTracking.get(service);
+    if (!usage) return { daily: 0, monthly: 0 };
 
-    let usage = this.usageTracking.get(service) || {
-      daily: 0,
-      monthly: 0,
-      lastReset: { day: currentDay, month: currentMonth }
+    const now = new Date();
+    return {
+      daily: usage.lastReset.day === now.toISOString().split('T')[0] ? usage.daily : 0,
+      monthly: usage.lastReset.month === now.toISOString().slice(0, 7) ? usage.monthly : 0,
     };
-
-    // Reset daily counter if new day
-    if (usage.lastReset.day !== currentDay) {
-      usage.daily = 0;
-      usage.lastReset.day = currentDay;
-    }
-
-    // Reset monthly counter if new month
-    if (usage.lastReset.month !== currentMonth) {
-      usage.monthly = 0;
-      usage.lastReset.month = currentMonth;
-    }
-
-    // Update usage
-    usage.daily += cost;
-    usage.monthly += cost;
-
-    this.usageTracking.set(service, usage);
   }
 
   async getUsageReport(): Promise<{
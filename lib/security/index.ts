@@ -2,6 +2,7 @@
 export { APIKeyProtectionService } from './api-key-protection';
 export { IPProtectionService } from './ip-protection';
 export { APICostThresholds } from './cost-thresholds';
+export { assertSchedulerRequest, SchedulerAuthError } from './scheduler-auth';
 export { ComprehensiveProtectionService, protectionService } from './comprehensive-protection';
 
 // Security initialization
@@ -0,0 +1,36 @@
+// Scheduler Auth
+// Endpoints driven by the cron worker (workers/scheduler) trigger paid or
+// rate-limited work, so they only answer callers holding SCHEDULER_SECRET,
+// sent as a bearer token.
+
+export class SchedulerAuthError extends Error {
+  constructor(message: string, public readonly status: number = 401) {
+    super(message);
+    this.name = 'SchedulerAuthError';
+  }
+}
+
+/**
+ * Throws unless `request` carries the scheduler secret. Without a configured
+ * secret the endpoint is closed rather than open to anyone.
+ */
+export function assertSchedulerRequest(request: Request, secret: string | undefined): void {
+  if (!secret) {
+    throw new SchedulerAuthError('SCHEDULER_SECRET is not configured', 503);
+  }
+
+  const header = request.headers.get('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  if (!constantTimeEqual(token, secret)) {
+    throw new SchedulerAuthError('Missing or invalid scheduler token');
+  }
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -1,158 +1,267 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { RedditStory } from '../types/reddit-automation';
+import { PromptRef, promptRegistry } from '../prompts/prompt-registry';
+import { PROMPT_TEMPLATE_IDS } from '../prompts/prompt-templates';
+import { costLedger } from '../usage/cost-ledger';
+import { BudgetReservation, BudgetStore, LedgerBudgetStore } from '../usage/budget-store';
+import { MemoryLedgerStorage } from '../usage/ledger-storage';
+import { TokenUsage, calculateTokenCost, estimateTokens } from '../usage/model-pricing';
+
+export interface StoryEnhancementResult {
+  content: string;
+  usage: {
+    source: 'claude' | 'fallback';
+    model: string | null;
+    inputTokens: number;
+    outputTokens: number;
+    estimatedCost: number;
+    cost: number; // Reconciled from the API usage block; 0 for the fallback
+  };
+  prompt?: PromptRef; // Template version Claude was given; absent for the fallback
+}
 
 export class ClaudeService {
   private anthropic: Anthropic;
   private isProcessing = false;
   
   // 🚨 REALISTIC API LIMITS BASED ON YOUR ACTUAL BUDGETS
-  private static dailyUsageCount = 0;
-  private static dailyUsageCost = 0;
-  private static lastResetDate = new Date().toDateString();
   private static readonly DAILY_LIMITS = {
     MAX_CALLS: 20,         // Max 20 Claude calls per day ($30/month ÷ $1.50 avg)
     MAX_COST: 1.00,        // Max $1 Claude spending per day ($30/month budget)
     MAX_TOKENS: 200000,    // Max 200K tokens per day
-    MAX_CONCURRENT: 1      // Max 1 concurrent call
+    MAX_CONCURRENT: 1,     // Max 1 concurrent call
+    MAX_COST_PER_CALL: 0.50 // Stories estimated above this use the fallback
   };
-  private static totalTokensToday = 0;
+  private static readonly BUDGET_NAME = 'claude';
+  private static readonly MODEL = 'claude-3-5-sonnet-20241022';
+
+  // Per-process until a durable store is configured - see configureBudgetStore()
+  private static budgetStore: BudgetStore = new LedgerBudgetStore(new MemoryLedgerStorage());
+  private static budgetStoreConfigured = false;
 
   constructor() {
     // Server-side only - safe environment variable access
     if (process.env.ANTHROPIC_API_KEY) {
       this.anthropic = new Anthropic({
         apiKey: process.env.ANTHROPIC_API_KEY,
+        // The global fetch, looked up per call, so recorded fixtures (lib/mocks/http-fixtures.ts) can stand in for the API
+        fetch: (url: RequestInfo | URL, init?: RequestInit) => globalThis.fetch(url, init),
       });
     }
-    this.resetDailyLimitsIfNeeded();
   }
 
-  private resetDailyLimitsIfNeeded(): void {
-    const today = new Date().toDateString();
-    if (ClaudeService.lastResetDate !== today) {
-      console.log('🔄 Resetting daily API limits for new day');
-      ClaudeService.dailyUsageCount = 0;
-      ClaudeService.dailyUsageCost = 0;
-      ClaudeService.totalTokensToday = 0;
-      ClaudeService.lastResetDate = today;
-    }
+  /**
+   * Share daily limits across restarts and instances. Called through
+   * configureLedgerStorage() (lib/usage/ledger-config.ts) with R2 in Pages
+   * Functions and FileSystemLedgerStorage in Node processes.
+   */
+  static configureBudgetStore(store: BudgetStore): void {
+    ClaudeService.budgetStore = store;
+    ClaudeService.budgetStoreConfigured = true;
   }
 
-  private checkDailyLimits(estimatedCost: number, estimatedTokens: number): void {
-    this.resetDailyLimitsIfNeeded();
-
-    // Check daily call limit
-    if (ClaudeService.dailyUsageCount >= ClaudeService.DAILY_LIMITS.MAX_CALLS) {
-      throw new Error(`Daily Claude API call limit reached (${ClaudeService.DAILY_LIMITS.MAX_CALLS} calls). Try again tomorrow.`);
+  private async checkDailyLimits(estimatedCost: number, estimatedTokens: number): Promise<BudgetReservation> {
+    // Check concurrent processing limit
+    if (this.isProcessing) {
+      throw new Error('Claude API is already processing another request. Please wait.');
     }
 
-    // Check daily cost limit
-    if (ClaudeService.dailyUsageCost + estimatedCost > ClaudeService.DAILY_LIMITS.MAX_COST) {
-      throw new Error(`Daily Claude cost limit would be exceeded. Remaining budget: ${(ClaudeService.DAILY_LIMITS.MAX_COST - ClaudeService.dailyUsageCost).toFixed(2)}`);
+    if (!ClaudeService.budgetStoreConfigured) {
+      console.warn('⚠️ Claude budget store not configured - daily limits only apply to this process');
     }
 
-    // Check daily token limit
-    if (ClaudeService.totalTokensToday + estimatedTokens > ClaudeService.DAILY_LIMITS.MAX_TOKENS) {
-      throw new Error(`Daily Claude token limit would be exceeded. Remaining tokens: ${ClaudeService.DAILY_LIMITS.MAX_TOKENS - ClaudeService.totalTokensToday}`);
-    }
+    return ClaudeService.reserveBudget(estimatedCost, estimatedTokens);
+  }
 
-    // Check concurrent processing limit
-    if (this.isProcessing) {
-      throw new Error('Claude API is already processing another request. Please wait.');
+  // Atomically checks calls/cost/tokens (including in-flight reservations) and holds the estimate
+  private static reserveBudget(estimatedCost: number, estimatedTokens: number): Promise<BudgetReservation> {
+    return ClaudeService.budgetStore.reserve(
+      ClaudeService.BUDGET_NAME,
+      {
+        maxCalls: ClaudeService.DAILY_LIMITS.MAX_CALLS,
+        maxCost: ClaudeService.DAILY_LIMITS.MAX_COST,
+        maxTokens: ClaudeService.DAILY_LIMITS.MAX_TOKENS
+      },
+      { cost: estimatedCost, tokens: estimatedTokens }
+    );
+  }
+
+  /**
+   * Run a Claude call made outside this class (the content-safety model)
+   * against the same daily budget: the estimate is reserved first, `call`
+   * reports what it actually used, and a call that throws releases its
+   * reservation. Throws without calling if the budget is spent.
+   */
+  static async withinBudget<T>(
+    estimate: { cost: number; tokens: number },
+    call: () => Promise<{ result: T; cost: number; tokens: number }>
+  ): Promise<T> {
+    const reservation = await ClaudeService.reserveBudget(estimate.cost, estimate.tokens);
+    let settled = false;
+    try {
+      const { result, cost, tokens } = await call();
+      await ClaudeService.budgetStore.settle(reservation, { cost, tokens });
+      settled = true;
+      return result;
+    } finally {
+      if (!settled) {
+        await ClaudeService.budgetStore.release(reservation)
+          .catch(error => console.error('Failed to release Claude budget reservation:', error));
+      }
     }
   }
 
-  private updateDailyUsage(actualCost: number, actualTokens: number): void {
-    ClaudeService.dailyUsageCount++;
-    ClaudeService.dailyUsageCost += actualCost;
-    ClaudeService.totalTokensToday += actualTokens;
+  private async updateDailyUsage(reservation: BudgetReservation, actualCost: number, actualTokens: number): Promise<void> {
+    const usage = await ClaudeService.budgetStore.settle(reservation, { cost: actualCost, tokens: actualTokens });
     
-    console.log(`📊 Daily Claude usage: ${ClaudeService.dailyUsageCount}/${ClaudeService.DAILY_LIMITS.MAX_CALLS} calls, ${ClaudeService.dailyUsageCost.toFixed(2)}/${ClaudeService.DAILY_LIMITS.MAX_COST} cost, ${ClaudeService.totalTokensToday}/${ClaudeService.DAILY_LIMITS.MAX_TOKENS} tokens`);
+    console.log(`📊 Daily Claude usage: ${usage.calls}/${ClaudeService.DAILY_LIMITS.MAX_CALLS} calls, ${usage.cost.toFixed(2)}/${ClaudeService.DAILY_LIMITS.MAX_COST} cost, ${usage.tokens}/${ClaudeService.DAILY_LIMITS.MAX_TOKENS} tokens`);
+  }
+
+  private async releaseReservation(reservation: BudgetReservation): Promise<void> {
+    try {
+      await ClaudeService.budgetStore.release(reservation);
+    } catch (error) {
+      // Expires on its own after the reservation TTL
+      console.error('Failed to release Claude budget reservation:', error);
+    }
   }
 
   // Expose current usage for monitoring
-  static getCurrentUsage() {
+  static async getCurrentUsage() {
+    const usage = await this.budgetStore.getSnapshot(this.BUDGET_NAME);
     return {
-      callsToday: this.dailyUsageCount,
-      costToday: this.dailyUsageCost,
-      tokensToday: this.totalTokensToday,
+      callsToday: usage.calls,
+      costToday: usage.cost,
+      tokensToday: usage.tokens,
+      pendingCalls: usage.pendingCalls,
+      reservedCost: usage.reservedCost,
       limits: this.DAILY_LIMITS,
-      resetDate: this.lastResetDate
+      resetDate: usage.date
     };
   }
 
   async enhanceStory(story: RedditStory, targetDurationMinutes: number = 5): Promise<string> {
+    const result = await this.enhanceStoryWithUsage(story, targetDurationMinutes);
+    return result.content;
+  }
+
+  /**
+   * Enhance a story and report what it actually cost. Cost is estimated from
+   * the prompt before the call (to reserve budget) and reconciled from the
+   * API's usage block afterwards.
+   */
+  async enhanceStoryWithUsage(story: RedditStory, targetDurationMinutes: number = 5): Promise<StoryEnhancementResult> {
     // Check if Claude is available
     if (!this.anthropic || !process.env.ANTHROPIC_API_KEY) {
       console.log('⚠️ Claude API not configured, using fallback enhancement');
-      return this.fallbackEnhancement(story);
+      return this.fallbackResult(story);
     }
 
-    const estimatedTokens = Math.ceil(story.content.length / 4);
-    const estimatedCost = (estimatedTokens / 1000000) * 3; // $3 per 1M tokens
+    const model = ClaudeService.MODEL;
+    const rendered = await this.buildEnhancementPrompt(story, targetDurationMinutes);
+    const prompt = rendered.text;
+    const promptRef: PromptRef = { templateId: rendered.templateId, version: rendered.version };
+    const maxOutputTokens = Math.min(2000, Math.floor(targetDurationMinutes * 400)); // Scale tokens with duration
+
+    // Reserve for the worst case: the full prompt plus every output token we allow
+    const estimate = { inputTokens: estimateTokens(prompt), outputTokens: maxOutputTokens };
+    const estimatedTokens = estimate.inputTokens + estimate.outputTokens;
+    const estimatedCost = calculateTokenCost(model, estimate);
+
+    // If cost too high, use fallback
+    if (estimatedCost > ClaudeService.DAILY_LIMITS.MAX_COST_PER_CALL) {
+      console.log(`Story too expensive (${estimatedCost.toFixed(3)}), using fallback enhancement`);
+      return this.fallbackResult(story);
+    }
 
     // Check all limits before processing
-    this.checkDailyLimits(estimatedCost, estimatedTokens);
+    const reservation = await this.checkDailyLimits(estimatedCost, estimatedTokens);
+    let settled = false;
 
     console.log('🔒 API SAFETY: Starting Claude API call for user content creation');
     this.isProcessing = true;
 
     try {
-      // If cost too high, use fallback
-      if (estimatedCost > 0.50) {
-        console.log(`Story too expensive (${estimatedCost.toFixed(3)}), using fallback enhancement`);
-        return this.fallbackEnhancement(story);
-      }
-
-      console.log(`Claude story enhancement - Duration: ${targetDurationMinutes}min - Estimated cost: ${estimatedCost.toFixed(3)}`);
-
-      const prompt = this.buildEnhancementPrompt(story, targetDurationMinutes);
+      console.log(`Claude story enhancement - Duration: ${targetDurationMinutes}min - Estimated cost: ${estimatedCost.toFixed(3)} (${estimatedTokens} tokens max)`);
 
       const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: Math.min(2000, Math.floor(targetDurationMinutes * 400)), // Scale tokens with duration
+        model,
+        max_tokens: maxOutputTokens,
         messages: [{
           role: 'user',
           content: prompt
         }]
       });
 
-      const actualTokens = (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0);
-      const actualCost = (actualTokens / 1000000) * 3;
+      // Reconcile against what the API actually billed
+      const usage: TokenUsage = {
+        inputTokens: response.usage?.input_tokens ?? estimate.inputTokens,
+        outputTokens: response.usage?.output_tokens ?? estimate.outputTokens
+      };
+      if (!response.usage) {
+        console.warn('⚠️ Claude response missing usage block, charging the estimate');
+      }
+      const actualTokens = usage.inputTokens + usage.outputTokens;
+      const actualCost = calculateTokenCost(response.model || model, usage);
 
       // Update usage tracking
-      this.updateDailyUsage(actualCost, actualTokens);
-
-      // Log usage to storage if available
-      try {
-        // This would integrate with R2 storage when available
-        console.log(`Claude API usage logged: ${actualCost.toFixed(4)} cost, ${actualTokens} tokens`);
-      } catch (error) {
-        console.warn('Failed to log API usage:', error);
-      }
+      await this.updateDailyUsage(reservation, actualCost, actualTokens);
+      settled = true;
+
+      await costLedger.record({
+        service: 'anthropic',
+        operation: 'story-enhancement',
+        source: 'ClaudeService',
+        model: response.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cost: actualCost,
+        metadata: { storyId: story.id, estimatedCost, promptTemplate: promptRef.templateId, promptVersion: promptRef.version }
+      });
 
-      const enhanced = response.content[0].type === 'text' ? response.content[0].text : '';
+      const result: StoryEnhancementResult = {
+        content: response.content[0].type === 'text' ? response.content[0].text : '',
+        usage: {
+          source: 'claude',
+          model: response.model || model,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          estimatedCost,
+          cost: actualCost
+        },
+        prompt: promptRef
+      };
       
-      if (enhanced.length < story.content.length * 0.8) {
+      if (result.content.length < story.content.length * 0.8) {
         console.warn('Enhancement too short, using original');
-        return story.content;
+        return { ...result, content: story.content };
       }
 
-      console.log(`✅ Claude story enhancement complete - Actual cost: ${actualCost.toFixed(3)}`);
-      return enhanced;
+      console.log(`✅ Claude story enhancement complete - Actual cost: ${actualCost.toFixed(3)} (${usage.inputTokens} in / ${usage.outputTokens} out)`);
+      return result;
 
     } catch (error) {
       console.error('Claude story enhancement failed:', error);
-      return this.fallbackEnhancement(story);
+      return this.fallbackResult(story);
     } finally {
+      if (!settled) {
+        await this.releaseReservation(reservation);
+      }
       this.isProcessing = false;
     }
   }
 
+  private fallbackResult(story: RedditStory): StoryEnhancementResult {
+    return {
+      content: this.fallbackEnhancement(story),
+      usage: { source: 'fallback', model: null, inputTokens: 0, outputTokens: 0, estimatedCost: 0, cost: 0 }
+    };
+  }
+
   private fallbackEnhancement(story: RedditStory): string {
     console.log('Using fallback story enhancement (NO API calls)');
     
-    const hooks = {
+    const hooks: Record<string, string> = {
       drama: "You won't believe what happened next...",
       horror: "This story still gives me chills...",
       revenge: "They thought they could get away with it...",
@@ -166,39 +275,15 @@ export class ClaudeService {
     return enhanced;
   }
 
-  private buildEnhancementPrompt(story: RedditStory, targetDurationMinutes: number): string {
-    const categoryInstructions = {
-      drama: 'Structure for maximum emotional impact and pacing',
-      horror: 'Organize for suspense and atmospheric tension buildup',
-      revenge: 'Structure the setup and payoff for maximum satisfaction',
-      wholesome: 'Pace the heartwarming moments for emotional resonance',
-      mystery: 'Build intrigue through strategic information reveal'
-    };
-
-    return `Transform this Reddit story into an engaging YouTube script format WHILE KEEPING ALL FACTS EXACTLY THE SAME.
-
-ORIGINAL STORY (r/${story.subreddit}):
-Title: ${story.title}
-Content: ${story.content}
-
-CRITICAL RULES:
-- DO NOT add any new facts, details, or information
-- DO NOT change what actually happened
-- DO NOT make up dialogue, names, or events
-- ONLY improve how the true story is told
-
-INSTRUCTIONS FOR PRESENTATION:
-- ${categoryInstructions[story.category]}
-- Start with an immediate hook using the actual story details
-- Break into clear segments perfect for voiceover pacing
-- Add strategic pauses marked with [PAUSE] for dramatic effect
-- Use natural speech patterns and contractions
-- Target ${targetDurationMinutes} minutes when read aloud (${Math.floor(targetDurationMinutes * 150)} words approximately)
-- End with engaging question to audience about the real situation
-
-KEEP THE STORY 100% TRUTHFUL - only improve pacing, structure, and delivery.
-
-Return ONLY the restructured script with no explanations:`;
+  private buildEnhancementPrompt(story: RedditStory, targetDurationMinutes: number) {
+    return promptRegistry.render(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, {
+      subreddit: story.subreddit,
+      title: story.title,
+      content: story.content,
+      category: story.category,
+      targetMinutes: targetDurationMinutes,
+      targetWords: Math.floor(targetDurationMinutes * 150)
+    });
   }
 
   isCurrentlyProcessing(): boolean {
@@ -1,43 +1,32 @@
 // Phase 6: Client-Side Queue Manager for Cloudflare Pages
-// Browser-based queue system with persistent state and background processing
-
-import { RedditStory, VideoGenerationRequest, WorkflowState } from '../types/reddit-automation';
-
-interface QueueItem {
-  id: string;
-  type: 'video_generation' | 'story_enhancement' | 'batch_process';
-  payload: any;
-  priority: 'low' | 'medium' | 'high';
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  createdAt: number;
-  startedAt?: number;
-  completedAt?: number;
-  error?: string;
-  retryCount: number;
-  maxRetries: number;
-}
+// Thin browser client over the server-side job queue (/api/queue/*).
+// Jobs live and run on the server, so closing the tab no longer kills them;
+// this class mirrors queue state locally (kept fresh over SSE) so the
+// synchronous API callers already use keeps working.
 
-interface QueueStats {
-  totalJobs: number;
-  pendingJobs: number;
-  processingJobs: number;
-  completedJobs: number;
-  failedJobs: number;
-  averageProcessingTime: number;
-  successRate: number;
-}
+import { computeQueueStats, isJobType, QueueItem, QueueStats } from '../queue/job-types';
+
+export type { QueueItem, QueueStats } from '../queue/job-types';
+
+const POLL_INTERVAL_MS = 5000;
 
 export class ClientQueueManager {
-  private queue: QueueItem[] = [];
-  private isProcessing = false;
-  private maxConcurrentJobs = 1; // Cloudflare Pages limitation
-  private currentlyProcessing: Set<string> = new Set();
+  private jobs: Map<string, QueueItem> = new Map();
   private listeners: Map<string, (update: QueueItem) => void> = new Map();
   private statsListeners: ((stats: QueueStats) => void)[] = [];
-  
-  constructor() {
-    this.loadQueueFromStorage();
-    this.startQueueProcessor();
+  private baseUrl: string | null;
+  private eventSource: EventSource | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = baseUrl ?? resolveQueueApiUrl();
+    if (!this.baseUrl) {
+      console.warn('⚠️ Queue API URL not configured (QUEUE_API_URL) - jobs will not reach the server');
+      return;
+    }
+
+    this.refresh();
+    this.subscribeToServer();
   }
 
   // Add job to queue with automatic prioritization
@@ -47,84 +36,59 @@ export class ClientQueueManager {
     priority: QueueItem['priority'] = 'medium',
     maxRetries: number = 3
   ): string {
-    const id = `queue_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const item: QueueItem = {
+    if (!isJobType(type)) {
+      throw new Error(`Unknown job type: ${type}`);
+    }
+
+    // Id is assigned here so callers can track the job before the server answers
+    const now = Date.now();
+    const id = `queue_${now}_${Math.random().toString(36).substr(2, 9)}`;
+
+    this.applyJob({
       id,
       type,
       payload,
       priority,
       status: 'pending',
-      createdAt: Date.now(),
+      createdAt: now,
+      updatedAt: 0, // Any server copy supersedes the optimistic one
       retryCount: 0,
       maxRetries
-    };
+    });
 
-    // Insert based on priority
-    const priorityOrder = { high: 0, medium: 1, low: 2 };
-    const insertIndex = this.queue.findIndex(
-      job => priorityOrder[job.priority] > priorityOrder[priority]
-    );
-    
-    if (insertIndex === -1) {
-      this.queue.push(item);
-    } else {
-      this.queue.splice(insertIndex, 0, item);
-    }
+    this.request('/jobs', { method: 'POST', body: JSON.stringify({ id, type, payload, priority, maxRetries }) })
+      .then(body => body && this.applyJob(body.job))
+      .catch(error => {
+        console.error(`Failed to enqueue ${type} job:`, error);
+        const job = this.jobs.get(id);
+        if (job) {
+          this.applyJob({ ...job, status: 'failed', error: error.message, updatedAt: Date.now() });
+        }
+      });
 
-    this.saveQueueToStorage();
-    this.notifyStatsUpdate();
-    
     console.log(`🔄 Added ${type} job to queue (Priority: ${priority})`);
     return id;
   }
 
   // Remove job from queue
   removeJob(id: string): boolean {
-    const index = this.queue.findIndex(job => job.id === id);
-    if (index === -1) return false;
+    if (!this.jobs.delete(id)) return false;
 
-    this.queue.splice(index, 1);
-    this.currentlyProcessing.delete(id);
-    this.saveQueueToStorage();
     this.notifyStatsUpdate();
+    this.request(`/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' }).catch(error => {
+      console.error(`Failed to remove job ${id}:`, error);
+    });
     return true;
   }
 
   // Get job status
   getJobStatus(id: string): QueueItem | null {
-    return this.queue.find(job => job.id === id) || null;
+    return this.jobs.get(id) || null;
   }
 
   // Get queue statistics
   getQueueStats(): QueueStats {
-    const total = this.queue.length;
-    const pending = this.queue.filter(job => job.status === 'pending').length;
-    const processing = this.queue.filter(job => job.status === 'processing').length;
-    const completed = this.queue.filter(job => job.status === 'completed').length;
-    const failed = this.queue.filter(job => job.status === 'failed').length;
-
-    const completedJobs = this.queue.filter(job => 
-      job.status === 'completed' && job.startedAt && job.completedAt
-    );
-    
-    const averageTime = completedJobs.length > 0
-      ? completedJobs.reduce((sum, job) => 
-          sum + (job.completedAt! - job.startedAt!), 0
-        ) / completedJobs.length / 1000 // Convert to seconds
-      : 0;
-
-    const successRate = total > 0 ? (completed / (completed + failed)) * 100 : 100;
-
-    return {
-      totalJobs: total,
-      pendingJobs: pending,
-      processingJobs: processing,
-      completedJobs: completed,
-      failedJobs: failed,
-      averageProcessingTime: averageTime,
-      successRate
-    };
+    return computeQueueStats(Array.from(this.jobs.values()));
   }
 
   // Subscribe to job updates
@@ -145,216 +109,136 @@ export class ClientQueueManager {
   // Clear completed jobs older than specified time
   clearOldJobs(olderThanMs: number = 24 * 60 * 60 * 1000): number {
     const cutoff = Date.now() - olderThanMs;
-    const initialLength = this.queue.length;
-    
-    this.queue = this.queue.filter(job => 
-      job.status === 'pending' || 
-      job.status === 'processing' || 
-      job.createdAt > cutoff
-    );
-    
-    const removed = initialLength - this.queue.length;
-    if (removed > 0) {
-      this.saveQueueToStorage();
-      this.notifyStatsUpdate();
-    }
-    
+    let removed = 0;
+
+    this.jobs.forEach((job, id) => {
+      if ((job.status === 'completed' || job.status === 'failed') && job.createdAt <= cutoff) {
+        this.jobs.delete(id);
+        removed++;
+      }
+    });
+
+    if (removed > 0) this.notifyStatsUpdate();
+    this.control('clear', { olderThanMs });
     return removed;
   }
 
-  // Pause/resume queue processing
+  // Pause/resume queue processing (applies to every client - the queue is shared)
   pauseQueue(): void {
-    this.isProcessing = false;
+    this.control('pause');
     console.log('🛑 Queue processing paused');
   }
 
   resumeQueue(): void {
-    this.isProcessing = true;
-    this.processQueue();
+    this.control('resume');
     console.log('▶️ Queue processing resumed');
   }
 
   // Get pending jobs
   getPendingJobs(): QueueItem[] {
-    return this.queue.filter(job => job.status === 'pending');
+    return this.getAllJobs({ status: 'pending' });
   }
 
   // Get all jobs with optional filtering
   getAllJobs(filter?: { status?: QueueItem['status']; type?: QueueItem['type'] }): QueueItem[] {
-    if (!filter) return [...this.queue];
-    
-    return this.queue.filter(job => {
-      if (filter.status && job.status !== filter.status) return false;
-      if (filter.type && job.type !== filter.type) return false;
+    return this.sortedJobs().filter(job => {
+      if (filter?.status && job.status !== filter.status) return false;
+      if (filter?.type && job.type !== filter.type) return false;
       return true;
     });
   }
 
-  // Private: Start the queue processor
-  private startQueueProcessor(): void {
-    this.isProcessing = true;
-    this.processQueue();
-    
-    // Process queue every 5 seconds
-    setInterval(() => {
-      if (this.isProcessing) {
-        this.processQueue();
-      }
-    }, 5000);
+  // Reload the full queue from the server
+  async refresh(): Promise<void> {
+    try {
+      const body = await this.request('/jobs');
+      if (body) this.replaceJobs(body.jobs);
+    } catch (error) {
+      console.error('Failed to load queue from server:', error);
+    }
+  }
 
-    // Clean old jobs every hour
-    setInterval(() => {
-      this.clearOldJobs();
-    }, 60 * 60 * 1000);
+  // Stop listening for server updates
+  disconnect(): void {
+    this.eventSource?.close();
+    this.eventSource = null;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
   }
 
-  // Private: Process the queue
-  private async processQueue(): Promise<void> {
-    if (!this.isProcessing || this.currentlyProcessing.size >= this.maxConcurrentJobs) {
+  // Private: Live updates over SSE, polling where EventSource isn't available
+  private subscribeToServer(): void {
+    if (typeof EventSource === 'undefined') {
+      this.pollTimer = setInterval(() => this.refresh(), POLL_INTERVAL_MS);
       return;
     }
 
-    const pendingJobs = this.queue.filter(job => job.status === 'pending');
-    if (pendingJobs.length === 0) return;
-
-    const availableSlots = this.maxConcurrentJobs - this.currentlyProcessing.size;
-    const jobsToProcess = pendingJobs.slice(0, availableSlots);
+    this.eventSource = new EventSource(`${this.baseUrl}/events`);
+    this.eventSource.addEventListener('snapshot', event => {
+      this.replaceJobs(JSON.parse((event as MessageEvent).data).jobs);
+    });
+    this.eventSource.addEventListener('job', event => {
+      this.applyJob(JSON.parse((event as MessageEvent).data));
+    });
+    this.eventSource.addEventListener('removed', event => {
+      if (this.jobs.delete(JSON.parse((event as MessageEvent).data).id)) {
+        this.notifyStatsUpdate();
+      }
+    });
+  }
 
-    for (const job of jobsToProcess) {
-      this.processJob(job);
-    }
+  private control(action: 'pause' | 'resume' | 'clear', extra: Record<string, unknown> = {}): void {
+    this.request('/control', { method: 'POST', body: JSON.stringify({ action, ...extra }) }).catch(error => {
+      console.error(`Queue ${action} failed:`, error);
+    });
   }
 
-  // Private: Process individual job
-  private async processJob(job: QueueItem): Promise<void> {
-    this.currentlyProcessing.add(job.id);
-    
-    // Update job status
-    job.status = 'processing';
-    job.startedAt = Date.now();
-    this.updateJob(job);
+  private async request(path: string, init: RequestInit = {}): Promise<any | null> {
+    if (!this.baseUrl) return null;
 
-    try {
-      console.log(`🔄 Processing ${job.type} job ${job.id}`);
-      
-      // Process based on job type
-      switch (job.type) {
-        case 'video_generation':
-          await this.processVideoGeneration(job);
-          break;
-        case 'story_enhancement':
-          await this.processStoryEnhancement(job);
-          break;
-        case 'batch_process':
-          await this.processBatchOperation(job);
-          break;
-        default:
-          throw new Error(`Unknown job type: ${job.type}`);
-      }
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(init.headers || {}) }
+    });
+    const body = await response.json();
 
-      // Mark as completed
-      job.status = 'completed';
-      job.completedAt = Date.now();
-      console.log(`✅ Completed ${job.type} job ${job.id} in ${(job.completedAt - job.startedAt!) / 1000}s`);
-      
-    } catch (error: any) {
-      console.error(`❌ Failed ${job.type} job ${job.id}:`, error);
-      
-      // Handle retry logic
-      if (job.retryCount < job.maxRetries) {
-        job.retryCount++;
-        job.status = 'pending';
-        job.startedAt = undefined;
-        console.log(`🔄 Retrying ${job.type} job ${job.id} (attempt ${job.retryCount}/${job.maxRetries})`);
-      } else {
-        job.status = 'failed';
-        job.error = error.message;
-        job.completedAt = Date.now();
-      }
-    } finally {
-      this.currentlyProcessing.delete(job.id);
-      this.updateJob(job);
+    if (!response.ok || !body.success) {
+      throw new Error(body.error || `Queue API error: ${response.status}`);
     }
+    return body;
   }
 
-  // Private: Process video generation job
-  private async processVideoGeneration(job: QueueItem): Promise<void> {
-    const request: VideoGenerationRequest = job.payload;
-    
-    // Import services dynamically to avoid issues with static export
-    const { OptimizedVideoPipeline } = await import('./optimized-video-pipeline');
-    const pipeline = new OptimizedVideoPipeline();
-    
-    const result = await pipeline.generateVideo(request);
-    job.payload.result = result;
-  }
+  // Private: Merge a server job and notify listeners
+  private applyJob(job: QueueItem): void {
+    const current = this.jobs.get(job.id);
+    if (current && current.updatedAt > job.updatedAt) return; // Stale event
 
-  // Private: Process story enhancement job
-  private async processStoryEnhancement(job: QueueItem): Promise<void> {
-    const { story, targetDuration } = job.payload;
-    
-    const { ClaudeService } = await import('./claude-service');
-    const claudeService = new ClaudeService();
-    
-    const enhanced = await claudeService.enhanceStory(story, targetDuration);
-    job.payload.result = { enhanced };
-  }
+    this.jobs.set(job.id, job);
+    this.notifyStatsUpdate();
 
-  // Private: Process batch operation
-  private async processBatchOperation(job: QueueItem): Promise<void> {
-    const { operations } = job.payload;
-    const results = [];
-    
-    for (const operation of operations) {
-      const subJobId = this.addJob(operation.type, operation.payload, 'low', 1);
-      
-      // Wait for sub-job completion
-      await this.waitForJobCompletion(subJobId);
-      const subJob = this.getJobStatus(subJobId);
-      
-      if (subJob?.status === 'completed') {
-        results.push(subJob.payload.result);
-      } else {
-        throw new Error(`Sub-job ${subJobId} failed: ${subJob?.error}`);
-      }
+    const listener = this.listeners.get(job.id);
+    if (listener) {
+      listener(job);
     }
-    
-    job.payload.result = { results };
   }
 
-  // Private: Wait for job completion
-  private async waitForJobCompletion(jobId: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const checkStatus = () => {
-        const job = this.getJobStatus(jobId);
-        
-        if (!job) {
-          reject(new Error(`Job ${jobId} not found`));
-          return;
-        }
-        
-        if (job.status === 'completed') {
-          resolve();
-        } else if (job.status === 'failed') {
-          reject(new Error(`Job ${jobId} failed: ${job.error}`));
-        } else {
-          setTimeout(checkStatus, 1000);
-        }
-      };
-      
-      checkStatus();
+  private replaceJobs(jobs: QueueItem[]): void {
+    const incoming = new Set(jobs.map(job => job.id));
+    this.jobs.forEach((job, id) => {
+      // Keep optimistic jobs the server hasn't acknowledged yet
+      if (!incoming.has(id) && job.status !== 'pending') this.jobs.delete(id);
     });
+    jobs.forEach(job => this.applyJob(job));
+    this.notifyStatsUpdate();
   }
 
-  // Private: Update job and notify listeners
-  private updateJob(job: QueueItem): void {
-    this.saveQueueToStorage();
-    this.notifyStatsUpdate();
-    
-    const listener = this.listeners.get(job.id);
-    if (listener) {
-      listener(job);
-    }
+  private sortedJobs(): QueueItem[] {
+    const priorityOrder = { high: 0, medium: 1, low: 2 };
+    return Array.from(this.jobs.values()).sort(
+      (a, b) => priorityOrder[a.priority] - priorityOrder[b.priority] || a.createdAt - b.createdAt
+    );
   }
 
   // Private: Notify stats listeners
@@ -362,40 +246,14 @@ export class ClientQueueManager {
     const stats = this.getQueueStats();
     this.statsListeners.forEach(listener => listener(stats));
   }
+}
 
-  // Private: Save queue to browser storage
-  private saveQueueToStorage(): void {
-    try {
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('video_queue', JSON.stringify(this.queue));
-      }
-    } catch (error) {
-      console.error('Failed to save queue to storage:', error);
-    }
-  }
+function resolveQueueApiUrl(): string | null {
+  if (typeof window !== 'undefined') return '/api/queue';
 
-  // Private: Load queue from browser storage
-  private loadQueueFromStorage(): void {
-    try {
-      if (typeof window !== 'undefined') {
-        const stored = localStorage.getItem('video_queue');
-        if (stored) {
-          this.queue = JSON.parse(stored);
-          
-          // Reset processing jobs to pending on reload
-          this.queue.forEach(job => {
-            if (job.status === 'processing') {
-              job.status = 'pending';
-              job.startedAt = undefined;
-            }
-          });
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load queue from storage:', error);
-      this.queue = [];
-    }
-  }
+  const base = process.env.QUEUE_API_URL || process.env.NEXT_PUBLIC_APP_URL;
+  if (!base) return null;
+  return process.env.QUEUE_API_URL ? base.replace(/\/$/, '') : `${base.replace(/\/$/, '')}/api/queue`;
 }
 
 // Singleton instance for global queue management
@@ -406,4 +264,4 @@ export const getQueueManager = (): ClientQueueManager => {
     queueManagerInstance = new ClientQueueManager();
   }
   return queueManagerInstance;
-};
\ No newline at end of file
+};
@@ -1,28 +1,40 @@
 // ElevenLabs Text-to-Speech Service
-// Converts video scripts to natural-sounding audio
+// Converts video scripts to natural-sounding audio, with word timings for captions
 
 import { 
   ElevenLabsConfig, 
   VideoScript, 
   R2StorageFile, 
+  NarrationAudio,
+  WordTiming,
   UsageTracking, 
   APIResponse 
 } from '../types/reddit-automation'
+import { costLedger, fromUsageTracking } from '../usage/cost-ledger'
+import { estimateWordTimings, roundSeconds } from '../captions/caption-timing'
+import { getAudioDuration } from '../narration/audio-duration'
+import { joinMp3Chunks } from '../narration/narration'
+import { chunkNarrationText } from '../narration/text-chunker'
+import { ElevenLabsTTSProvider } from '../tts/elevenlabs-tts'
+import { estimateSpeechCost } from '../tts/tts-provider'
 
 export class ElevenLabsService {
   private apiKey: string
   private baseUrl = 'https://api.elevenlabs.io/v1'
   private config: ElevenLabsConfig
+  private provider: ElevenLabsTTSProvider
 
   constructor(apiKey: string, config: ElevenLabsConfig) {
     this.apiKey = apiKey
     this.config = config
+    this.provider = new ElevenLabsTTSProvider(apiKey, config, this.baseUrl)
   }
 
   /**
-   * Generate audio from video script
+   * Generate audio from video script. The result carries the word timings
+   * ElevenLabs aligned to the audio, for timed captions.
    */
-  async generateAudio(script: VideoScript): Promise<APIResponse<R2StorageFile>> {
+  async generateAudio(script: VideoScript): Promise<APIResponse<NarrationAudio>> {
     const requestId = `elevenlabs_${Date.now()}`
     
     try {
@@ -33,15 +45,8 @@ export class ElevenLabsService {
       const characterCount = fullText.length
       const estimatedCost = this.calculateCost(characterCount)
       
-      // Generate audio
-      const audioResponse = await this.synthesizeSpeech(fullText)
-      
-      if (!audioResponse.ok) {
-        throw new Error(`ElevenLabs API error: ${audioResponse.status} ${audioResponse.statusText}`)
-      }
-
-      // Get audio blob
-      const audioBlob = await audioResponse.blob()
+      // Generate audio (one request per chunk for long scripts)
+      const { audio: audioBlob, requests, duration, words, timingSource } = await this.synthesizeSpeech(fullText)
       
       // Upload to R2 storage
       const filename = `audio/script_${requestId}.mp3`
@@ -51,23 +56,21 @@ export class ElevenLabsService {
         throw new Error('Failed to upload audio to R2')
       }
 
-      // Log usage
+      // Returned for the caller - the provider has already recorded each chunk in the cost ledger
       const usageStats: UsageTracking = {
         date: new Date().toISOString().split('T')[0],
         service: 'elevenlabs',
         operation: 'text_to_speech',
         charactersUsed: characterCount,
-        apiCalls: 1,
+        apiCalls: requests,
         costUSD: estimatedCost,
         requestId,
         status: 'success'
       }
 
-      await this.logUsage(usageStats)
-
       return {
         success: true,
-        data: uploadResponse.data!,
+        data: { ...uploadResponse.data!, duration, words, timingSource },
         requestId,
         timestamp: new Date().toISOString(),
         usageStats
@@ -133,31 +136,49 @@ export class ElevenLabsService {
   }
 
   /**
-   * Synthesize speech using ElevenLabs API
+   * Synthesize speech using ElevenLabs API. Text over the per-request limit
+   * is split at sentence boundaries and the MP3 chunks joined in order; each
+   * chunk's word timings are shifted by the audio before it.
    */
-  private async synthesizeSpeech(text: string): Promise<Response> {
-    const url = `${this.baseUrl}/text-to-speech/${this.config.voiceId}`
-    
-    const requestBody = {
-      text: text,
-      model_id: this.config.modelId,
-      voice_settings: {
-        stability: this.config.stability,
-        similarity_boost: this.config.similarityBoost,
-        style: this.config.style,
-        use_speaker_boost: this.config.useSpeakerBoost
+  private async synthesizeSpeech(text: string): Promise<{
+    audio: Blob
+    requests: number
+    duration: number
+    words: WordTiming[]
+    timingSource: NarrationAudio['timingSource']
+  }> {
+    const chunks = chunkNarrationText(text, { maxChars: this.provider.capabilities.maxChars })
+    const parts: Uint8Array[] = []
+    const words: WordTiming[] = []
+    let offset = 0
+    let aligned = true
+
+    for (const chunk of chunks) {
+      const speech = await this.provider
+        .synthesize({ text: chunk.text, previousText: chunks[chunk.index - 1]?.text, nextText: chunks[chunk.index + 1]?.text })
+        .catch(error => {
+          throw new Error(`${error.message} (chunk ${chunk.index + 1}/${chunks.length})`)
+        })
+      const audio = speech.audio!
+      const duration = getAudioDuration(audio)
+      parts.push(audio)
+
+      if (speech.words) {
+        words.push(...speech.words.map(word => ({ ...word, start: roundSeconds(word.start + offset), end: roundSeconds(word.end + offset) })))
+      } else {
+        aligned = false
+        words.push(...estimateWordTimings(chunk.text, { durationSeconds: duration, offset }))
       }
+      offset += duration
     }
 
-    return fetch(url, {
-      method: 'POST',
-      headers: {
-        'Accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
-        'xi-api-key': this.apiKey
-      },
-      body: JSON.stringify(requestBody)
-    })
+    return {
+      audio: new Blob([joinMp3Chunks(parts)], { type: 'audio/mpeg' }),
+      requests: chunks.length,
+      duration: offset,
+      words,
+      timingSource: aligned ? 'alignment' : 'estimate'
+    }
   }
 
   /**
@@ -209,8 +230,7 @@ export class ElevenLabsService {
    * Calculate cost based on character count
    */
   private calculateCost(characterCount: number): number {
-    // ElevenLabs pricing: roughly $0.0002 per character for standard voices
-    return characterCount * 0.0002
+    return estimateSpeechCost(this.provider.capabilities, characterCount)
   }
 
   /**
@@ -334,20 +354,13 @@ export class ElevenLabsService {
   }
 
   /**
-   * Log usage to local storage (Phase 1 implementation)
+   * Record usage in the shared cost ledger
    */
   private async logUsage(stats: UsageTracking): Promise<void> {
-    try {
-      if (typeof window !== 'undefined') {
-        const existingLogs = JSON.parse(localStorage.getItem('elevenlabs_usage_logs') || '[]')
-        existingLogs.push(stats)
-        localStorage.setItem('elevenlabs_usage_logs', JSON.stringify(existingLogs))
-      } else {
-        console.log('ElevenLabs usage:', stats)
-      }
-    } catch (error) {
-      console.error('Error logging ElevenLabs usage:', error)
-    }
+    await costLedger.record({
+      ...fromUsageTracking(stats, 'ElevenLabsService'),
+      model: this.config.modelId
+    })
   }
 
   /**
@@ -415,4 +428,4 @@ export class ElevenLabsService {
 
     return settings[contentType]
   }
-}
\ No newline at end of file
+}
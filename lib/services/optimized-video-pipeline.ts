@@ -1,8 +1,14 @@
 // Phase 6: Optimized Video Generation Pipeline
 // High-performance video generation with parallel processing and intelligent caching
 
-import { RedditStory, VideoGenerationRequest, GeneratedVideo } from '../types/reddit-automation';
+import { RedditStory, VideoGenerationRequest, GeneratedVideo, StoryRedaction, StorySource, AttributionSettings, MusicBed, SafetyStage, WorkflowSafety } from '../types/reddit-automation';
+import { buildUploadDescription, getStorySource } from '../attribution/attribution';
+import { groupCaptionCues } from '../captions/caption-cues';
+import { estimateWordTimings } from '../captions/caption-timing';
+import { ContentSafetyClassifier, ContentSafetyError, describeVerdict } from '../safety/content-safety';
+import { redactStory } from '../safety/pii-redaction';
 import { ClaudeService } from './claude-service';
+import { PromptRef } from '../prompts/prompt-registry';
 import { ShotstackService } from './shotstack-service';
 import { R2StorageService } from './r2-storage';
 
@@ -20,12 +26,12 @@ export interface ProgressCallback {
 export interface VideoGenerationResult {
   videoUrl: string;
   audioUrl?: string;
-  costs: {
-    claude_cost: number;
-    shotstack_cost: number;
-    elevenlabs_cost: number;
-    total_cost: number;
-  };
+  costs: NonNullable<GeneratedVideo['api_costs']>;
+  redaction?: StoryRedaction; // What was pseudonymized before enhancement (absent with redact_pii: false)
+  source: StorySource;
+  description: string; // Upload description crediting the source post
+  prompt?: PromptRef; // Prompt template version Claude enhanced the story with
+  safety: WorkflowSafety; // Verdicts for the enhanced text and (with captions on) the caption text
 }
 
 export class OptimizedVideoPipeline {
@@ -35,7 +41,7 @@ export class OptimizedVideoPipeline {
   private r2Storage: R2StorageService;
   private cache: Map<string, any> = new Map();
 
-  constructor(config: Partial<PipelineConfig> = {}) {
+  constructor(config: Partial<PipelineConfig> = {}, private safety: ContentSafetyClassifier = new ContentSafetyClassifier()) {
     this.config = {
       enableCaching: true,
       maxConcurrentJobs: 1,
@@ -46,12 +52,7 @@ export class OptimizedVideoPipeline {
 
     this.claudeService = new ClaudeService();
     this.shotstackService = new ShotstackService();
-    this.r2Storage = new R2StorageService({
-      accountId: process.env.CLOUDFLARE_ACCOUNT_ID || 'mock-account',
-      accessKeyId: process.env.R2_ACCESS_KEY_ID || 'mock-key',
-      secretAccessKey: process.env.R2_SECRET_ACCESS_KEY || 'mock-secret',
-      bucketName: process.env.R2_BUCKET_NAME || 'mock-bucket'
-    });
+    this.r2Storage = new R2StorageService();
   }
 
   async generateVideo(
@@ -73,31 +74,41 @@ export class OptimizedVideoPipeline {
 
       progressCallback?.({ step: 'Initializing optimized pipeline', percentage: 5 });
 
+      // Personal details are replaced before Claude (or anyone) sees the story
+      const { story, redaction } = request.redact_pii === false
+        ? { story: request.story, redaction: undefined }
+        : redactStory(request.story);
+
       // Phase 1: Story Enhancement (with caching)
       progressCallback?.({ step: 'Enhancing story with Claude AI', percentage: 15 });
       
-      const enhancementKey = `enhancement_${this.hashString(request.story.content)}`;
-      let enhancedContent = request.story.content;
+      const enhancementKey = `enhancement_${this.hashString(story.content)}`;
+      let enhancedContent = story.content;
       let claudeCost = 0;
+      let prompt: PromptRef | undefined;
 
       if (this.config.enableCaching && this.cache.has(enhancementKey)) {
         const cached = this.cache.get(enhancementKey);
         enhancedContent = cached.content;
         claudeCost = cached.cost;
+        prompt = cached.prompt;
         progressCallback?.({ step: 'Using cached story enhancement', percentage: 25 });
       } else {
         try {
-          enhancedContent = await this.claudeService.enhanceStory(
-            request.story, 
+          const enhancement = await this.claudeService.enhanceStoryWithUsage(
+            story, 
             request.video_config.duration / 60
           );
-          claudeCost = this.estimateClaudeCost(request.story.content.length);
+          enhancedContent = enhancement.content;
+          claudeCost = enhancement.usage.cost; // Reconciled from Claude's usage block
+          prompt = enhancement.prompt;
           
           // Cache the enhancement
           if (this.config.enableCaching) {
             this.cache.set(enhancementKey, {
               content: enhancedContent,
               cost: claudeCost,
+              prompt,
               timestamp: Date.now()
             });
           }
@@ -105,20 +116,35 @@ export class OptimizedVideoPipeline {
           progressCallback?.({ step: 'Story enhancement completed', percentage: 35 });
         } catch (error) {
           console.warn('Claude enhancement failed, using fallback:', error);
-          enhancedContent = this.createFallbackEnhancement(request.story);
+          enhancedContent = this.createFallbackEnhancement(story);
           progressCallback?.({ step: 'Using fallback enhancement', percentage: 35 });
         }
       }
 
+      // Nothing is rendered until the narration and captions pass content safety
+      progressCallback?.({ step: 'Checking content safety', percentage: 38 });
+      const safety: WorkflowSafety = {};
+      safety.enhanced = await this.screenContent('enhanced', enhancedContent);
+      if (request.video_config.add_captions) {
+        safety.captions = await this.screenContent('captions', this.captionText(enhancedContent, request.video_config.caption_max_words_per_line));
+      }
+      claudeCost += (safety.enhanced.llm?.cost || 0) + (safety.captions?.llm?.cost || 0);
+
       // Phase 2: Parallel Video and Audio Generation
       progressCallback?.({ step: 'Starting parallel video generation', percentage: 40 });
 
+      const source = getStorySource(request.story);
+
       const videoGenerationPromise = this.generateVideoWithShotstack({
         enhancedText: enhancedContent,
         backgroundVideoUrl: request.background_url,
         voiceSettings: request.voice_settings,
         duration: request.video_config.duration,
-        addCaptions: request.video_config.add_captions
+        addCaptions: request.video_config.add_captions,
+        captionMaxWordsPerLine: request.video_config.caption_max_words_per_line,
+        source,
+        attribution: request.attribution,
+        music: request.music
       }, progressCallback);
 
       const result = await videoGenerationPromise;
@@ -136,7 +162,12 @@ export class OptimizedVideoPipeline {
       const finalResult: VideoGenerationResult = {
         videoUrl: result.videoUrl,
         audioUrl: result.audioUrl,
-        costs: totalCosts
+        costs: totalCosts,
+        redaction,
+        source,
+        description: buildUploadDescription(story, source, request.music?.credit),
+        prompt,
+        safety
       };
 
       // Cache the final result
@@ -149,7 +180,7 @@ export class OptimizedVideoPipeline {
 
       // Log performance metrics
       const processingTime = Date.now() - startTime;
-      await this.logPerformanceMetrics(request, processingTime, totalCosts);
+      this.logPerformanceMetrics(request, processingTime, totalCosts);
 
       progressCallback?.({ step: 'Pipeline completed successfully', percentage: 100 });
       
@@ -157,6 +188,7 @@ export class OptimizedVideoPipeline {
 
     } catch (error) {
       console.error('Optimized pipeline failed:', error);
+      if (error instanceof ContentSafetyError) throw error; // Keeps the verdict and its 422
       throw new Error(`Video generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -168,6 +200,10 @@ export class OptimizedVideoPipeline {
       voiceSettings: any;
       duration: number;
       addCaptions: boolean;
+      captionMaxWordsPerLine?: number;
+      source: StorySource;
+      attribution?: Partial<AttributionSettings> | false;
+      music?: MusicBed;
     },
     progressCallback?: ProgressCallback
   ): Promise<{
@@ -185,7 +221,11 @@ export class OptimizedVideoPipeline {
         backgroundVideoUrl: params.backgroundVideoUrl,
         voiceSettings: params.voiceSettings,
         duration: params.duration,
-        addCaptions: params.addCaptions
+        addCaptions: params.addCaptions,
+        captionMaxWordsPerLine: params.captionMaxWordsPerLine,
+        source: params.source,
+        attribution: params.attribution,
+        music: params.music
       });
 
       progressCallback?.({ step: 'Video rendering completed', percentage: 90 });
@@ -212,8 +252,30 @@ export class OptimizedVideoPipeline {
     }
   }
 
+  /**
+   * Classify text that ends up in the video. A blocked verdict stops the
+   * pipeline; one flagged for review is logged and kept on the result.
+   */
+  private async screenContent(stage: SafetyStage, text: string) {
+    const verdict = await this.safety.classify(text, stage);
+    if (verdict.decision === 'block') {
+      throw new ContentSafetyError(`Content safety blocked the ${stage} text: ${describeVerdict(verdict)}`, verdict);
+    }
+    if (verdict.decision === 'review') {
+      console.warn(`⚠️ Content safety flagged the ${stage} text for review: ${describeVerdict(verdict)}`);
+    }
+    return verdict;
+  }
+
+  // The caption lines Shotstack burns in, grouped as in ShotstackService
+  private captionText(enhancedText: string, maxWordsPerLine?: number): string {
+    return groupCaptionCues(estimateWordTimings(enhancedText), { maxWordsPerLine })
+      .map(cue => cue.lines.join(' '))
+      .join('\n');
+  }
+
   private createFallbackEnhancement(story: RedditStory): string {
-    const hooks = {
+    const hooks: Record<string, string> = {
       drama: "You won't believe what happened next...",
       horror: "This story still gives me chills...",
       revenge: "They thought they could get away with it...",
@@ -230,7 +292,8 @@ export class OptimizedVideoPipeline {
       storyId: request.story.id,
       duration: request.video_config.duration,
       voiceId: request.voice_settings.voice_id,
-      addCaptions: request.video_config.add_captions
+      addCaptions: request.video_config.add_captions,
+      redactPii: request.redact_pii !== false // Redacted and unredacted runs must not share a result
     };
     return `video_${this.hashString(JSON.stringify(keyData))}`;
   }
@@ -245,10 +308,6 @@ export class OptimizedVideoPipeline {
     return Math.abs(hash).toString(36);
   }
 
-  private estimateClaudeCost(contentLength: number): number {
-    return Math.min(0.50, (contentLength / 1000) * 0.008);
-  }
-
   private estimateShotstackCost(duration: number): number {
     return (duration / 60) * 0.40;
   }
@@ -257,23 +316,21 @@ export class OptimizedVideoPipeline {
     return (textLength / 1000) * 0.018;
   }
 
-  private async logPerformanceMetrics(
+  // The spend itself is already in the cost ledger - ClaudeService and
+  // ShotstackService record their own calls - so only the timings are logged
+  private logPerformanceMetrics(
     request: VideoGenerationRequest,
     processingTime: number,
     costs: any
-  ): Promise<void> {
-    try {
-      await this.r2Storage.logAPIUsage('optimized_pipeline', costs.total_cost, {
-        processingTime,
-        storyCategory: request.story.category,
-        videoDuration: request.video_config.duration,
-        cacheHits: this.getCacheHitCount(),
-        userTriggered: request.userTriggered,
-        timestamp: new Date().toISOString()
-      });
-    } catch (error) {
-      console.error('Failed to log performance metrics:', error);
-    }
+  ): void {
+    console.log('📊 Pipeline performance:', {
+      processingTime,
+      estimatedCost: costs.total_cost,
+      storyCategory: request.story.category,
+      videoDuration: request.video_config.duration,
+      cacheHits: this.getCacheHitCount(),
+      userTriggered: request.userTriggered
+    });
   }
 
   private getCacheHitCount(): number {
@@ -1,79 +1,110 @@
-// Cloudflare R2 Storage Service - Phase 1 Implementation
-// Mock implementation for development - will be replaced with real API calls in Phase 2
+// Cloudflare R2 Storage Service
+// Objects go through an ObjectStorage backend: R2's S3 API signed with SigV4
+// when R2 credentials are configured, otherwise an in-memory store. Tests
+// and offline runs can pass the filesystem backend or point R2_ENDPOINT at
+// the fake S3 server (lib/mocks/fake-s3.ts). Upload costs go to the shared
+// cost ledger; getUsageStats reads them back from the usage ledger.
 
 import { 
   R2StorageFile, 
   UsageTracking, 
   APIResponse 
 } from '../types/reddit-automation'
+import {
+  CompletedPart,
+  MAX_PARTS,
+  MemoryObjectStorage,
+  ObjectInfo,
+  ObjectStorage,
+  PutObjectOptions
+} from '../storage/object-storage'
+import { createR2ObjectStorage } from '../storage/s3-object-storage'
+import { CostService } from '../usage/cost-event'
+import { costLedger, fromUsageTracking } from '../usage/cost-ledger'
+import { UsageEntry, UsageLedger } from '../usage/usage-ledger'
+
+export interface R2StorageConfig {
+  accountId?: string
+  accessKeyId?: string
+  secretAccessKey?: string
+  bucketName?: string
+  endpoint?: string // S3 API endpoint override, e.g. the fake S3 server
+  publicDomain?: string // Public bucket domain; without one, URLs are presigned
+  storage?: ObjectStorage // Backend to use instead of R2
+  multipartThresholdBytes?: number
+  partSizeBytes?: number
+  signedUrlExpirySeconds?: number
+  usageLedger?: UsageLedger // Where getUsageStats reads recorded spend from
+}
+
+// Bodies above the threshold (rendered MP4s) are uploaded in parts
+const DEFAULT_MULTIPART_THRESHOLD = 50 * 1024 * 1024
+const DEFAULT_PART_SIZE = 10 * 1024 * 1024
+const DEFAULT_SIGNED_URL_EXPIRY = 3600
 
 export class R2StorageService {
-  private accountId: string
-  private accessKeyId: string
-  private secretAccessKey: string
   private bucketName: string
-  private region = 'auto'
-
-  constructor(config?: {
-    accountId?: string
-    accessKeyId?: string
-    secretAccessKey?: string
-    bucketName?: string
-  }) {
-    this.accountId = config?.accountId || process.env.CLOUDFLARE_ACCOUNT_ID || ''
-    this.accessKeyId = config?.accessKeyId || process.env.R2_ACCESS_KEY_ID || ''
-    this.secretAccessKey = config?.secretAccessKey || process.env.R2_SECRET_ACCESS_KEY || ''
+  private storage: ObjectStorage
+  private publicDomain: string
+  private multipartThresholdBytes: number
+  private partSizeBytes: number
+  private signedUrlExpirySeconds: number
+  private usageLedger: UsageLedger | null
+
+  constructor(config?: R2StorageConfig) {
     this.bucketName = config?.bucketName || process.env.R2_BUCKET_NAME || 'ghosttrace-output'
+    this.publicDomain = config?.publicDomain ?? process.env.R2_PUBLIC_DOMAIN ?? ''
+    this.multipartThresholdBytes = config?.multipartThresholdBytes ?? DEFAULT_MULTIPART_THRESHOLD
+    this.partSizeBytes = config?.partSizeBytes ?? DEFAULT_PART_SIZE
+    this.signedUrlExpirySeconds = config?.signedUrlExpirySeconds ?? DEFAULT_SIGNED_URL_EXPIRY
+    this.usageLedger = config?.usageLedger || null
+
+    const r2 = config?.storage ? null : createR2ObjectStorage({
+      CLOUDFLARE_ACCOUNT_ID: config?.accountId || process.env.CLOUDFLARE_ACCOUNT_ID,
+      R2_ACCESS_KEY_ID: config?.accessKeyId || process.env.R2_ACCESS_KEY_ID,
+      R2_SECRET_ACCESS_KEY: config?.secretAccessKey || process.env.R2_SECRET_ACCESS_KEY,
+      R2_BUCKET_NAME: this.bucketName,
+      R2_ENDPOINT: config?.endpoint || process.env.R2_ENDPOINT
+    })
+    if (!config?.storage && !r2) {
+      console.warn('⚠️ R2 credentials not configured - storing files in memory')
+    }
+    this.storage = config?.storage || r2 || new MemoryObjectStorage()
   }
 
   /**
-   * Upload file to R2 storage (Phase 1 mock implementation)
+   * Upload file to R2 storage, in parts when it is larger than the multipart threshold
    */
   async uploadFile(
-    file: Blob, 
+    file: Blob | ArrayBuffer | Uint8Array, 
     key: string, 
-    metadata?: Record<string, string>
-  ): Promise<APIResponse<R2StorageFile> | string> {
+    metadata?: Record<string, string>,
+    contentType?: string
+  ): Promise<APIResponse<R2StorageFile>> {
     const requestId = `r2_upload_${Date.now()}`
     
     try {
-      // Phase 1: Create mock response
-      const mockUrl = URL.createObjectURL(file)
-      
-      const r2File: R2StorageFile = {
-        key,
-        url: mockUrl,
-        bucket: this.bucketName,
-        size: file.size,
-        contentType: file.type,
-        uploadedAt: new Date().toISOString()
-      }
+      const body = file instanceof Uint8Array
+        ? file
+        : new Uint8Array(file instanceof ArrayBuffer ? file : await file.arrayBuffer())
+      const type = contentType || (file instanceof Blob && file.type) || 'application/octet-stream'
 
-      // Store locally for Phase 1
-      if (typeof window !== 'undefined') {
-        const files = JSON.parse(localStorage.getItem('r2_files') || '[]')
-        files.push(r2File)
-        localStorage.setItem('r2_files', JSON.stringify(files))
-      }
+      const info = await this.putObject(key, body, { contentType: type, metadata })
+      const r2File = await this.toStorageFile({ ...info, contentType: type })
 
       // Log usage
       const usageStats: UsageTracking = {
         date: new Date().toISOString().split('T')[0],
         service: 'r2',
         operation: 'upload',
-        apiCalls: 1,
-        costUSD: this.calculateStorageCost(file.size),
+        apiCalls: body.length > this.multipartThresholdBytes ? Math.ceil(body.length / this.partSize(body.length)) + 2 : 1,
+        costUSD: this.calculateStorageCost(body.length),
         requestId,
         status: 'success'
       }
 
       await this.logUsage(usageStats)
 
-      // Return just the URL for simplified usage
-      if (arguments.length === 3 && typeof metadata === 'string') {
-        return mockUrl;
-      }
-
       return {
         success: true,
         data: r2File,
@@ -82,10 +113,6 @@ export class R2StorageService {
         usageStats
       }
     } catch (error) {
-      if (arguments.length === 3 && typeof metadata === 'string') {
-        throw error;
-      }
-      
       return {
         success: false,
         error: error instanceof Error ? error.message : 'R2 upload failed',
@@ -97,27 +124,23 @@ export class R2StorageService {
   }
 
   /**
-   * Get file from R2 storage (Phase 1 mock implementation)
+   * Get file details from R2 storage
    */
   async getFile(key: string): Promise<APIResponse<R2StorageFile>> {
     const requestId = `r2_get_${Date.now()}`
     
     try {
-      if (typeof window !== 'undefined') {
-        const files = JSON.parse(localStorage.getItem('r2_files') || '[]')
-        const file = files.find((f: R2StorageFile) => f.key === key)
-        
-        if (file) {
-          return {
-            success: true,
-            data: file,
-            requestId,
-            timestamp: new Date().toISOString()
-          }
-        }
+      const info = await this.storage.head(key)
+      if (!info) {
+        throw new Error('File not found')
       }
 
-      throw new Error('File not found')
+      return {
+        success: true,
+        data: await this.toStorageFile(info),
+        requestId,
+        timestamp: new Date().toISOString()
+      }
     } catch (error) {
       return {
         success: false,
@@ -130,29 +153,28 @@ export class R2StorageService {
   }
 
   /**
-   * Delete file from R2 storage (Phase 1 mock implementation)
+   * Download a file's contents from R2 storage
    */
-  async deleteFile(key: string): Promise<APIResponse<boolean>> {
-    const requestId = `r2_delete_${Date.now()}`
+  async downloadFile(key: string): Promise<APIResponse<Uint8Array>> {
+    const requestId = `r2_download_${Date.now()}`
     
     try {
-      if (typeof window !== 'undefined') {
-        const files = JSON.parse(localStorage.getItem('r2_files') || '[]')
-        const filteredFiles = files.filter((f: R2StorageFile) => f.key !== key)
-        localStorage.setItem('r2_files', JSON.stringify(filteredFiles))
+      const object = await this.storage.get(key)
+      if (!object) {
+        throw new Error('File not found')
       }
 
       return {
         success: true,
-        data: true,
+        data: object.body,
         requestId,
         timestamp: new Date().toISOString()
       }
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'R2 delete failed',
-        errorCode: 'R2_DELETE_FAILED',
+        error: error instanceof Error ? error.message : 'R2 download failed',
+        errorCode: 'R2_DOWNLOAD_FAILED',
         requestId,
         timestamp: new Date().toISOString()
       }
@@ -160,35 +182,25 @@ export class R2StorageService {
   }
 
   /**
-   * List files in R2 storage (Phase 1 mock implementation)
+   * Delete file from R2 storage
    */
-  async listFiles(prefix?: string, limit = 100): Promise<APIResponse<R2StorageFile[]>> {
-    const requestId = `r2_list_${Date.now()}`
+  async deleteFile(key: string): Promise<APIResponse<boolean>> {
+    const requestId = `r2_delete_${Date.now()}`
     
     try {
-      let files: R2StorageFile[] = []
-      
-      if (typeof window !== 'undefined') {
-        files = JSON.parse(localStorage.getItem('r2_files') || '[]')
-        
-        if (prefix) {
-          files = files.filter(f => f.key.startsWith(prefix))
-        }
-        
-        files = files.slice(0, limit)
-      }
+      await this.storage.delete(key)
 
       return {
         success: true,
-        data: files,
+        data: true,
         requestId,
         timestamp: new Date().toISOString()
       }
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'R2 list failed',
-        errorCode: 'R2_LIST_FAILED',
+        error: error instanceof Error ? error.message : 'R2 delete failed',
+        errorCode: 'R2_DELETE_FAILED',
         requestId,
         timestamp: new Date().toISOString()
       }
@@ -196,31 +208,34 @@ export class R2StorageService {
   }
 
   /**
-   * Store usage tracking data (Phase 1 implementation)
+   * List files in R2 storage, following list cursors up to the limit
    */
-  async logUsage(stats: UsageTracking): Promise<APIResponse<boolean>> {
-    const requestId = `r2_log_usage_${Date.now()}`
+  async listFiles(prefix?: string, limit = 100): Promise<APIResponse<R2StorageFile[]>> {
+    const requestId = `r2_list_${Date.now()}`
     
     try {
-      if (typeof window !== 'undefined') {
-        const allUsage = JSON.parse(localStorage.getItem('usage_tracking') || '[]')
-        allUsage.push(stats)
-        localStorage.setItem('usage_tracking', JSON.stringify(allUsage))
-      } else {
-        console.log('Usage logged:', stats)
-      }
+      const files: R2StorageFile[] = []
+      let cursor: string | undefined
+      
+      do {
+        const page = await this.storage.list({ prefix, limit: Math.min(1000, limit - files.length), cursor })
+        for (const object of page.objects) {
+          files.push(await this.toStorageFile(object))
+        }
+        cursor = page.cursor
+      } while (cursor && files.length < limit)
 
       return {
         success: true,
-        data: true,
+        data: files,
         requestId,
         timestamp: new Date().toISOString()
       }
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Usage logging failed',
-        errorCode: 'USAGE_LOG_FAILED',
+        error: error instanceof Error ? error.message : 'R2 list failed',
+        errorCode: 'R2_LIST_FAILED',
         requestId,
         timestamp: new Date().toISOString()
       }
@@ -228,29 +243,30 @@ export class R2StorageService {
   }
 
   /**
-   * Get usage statistics (Phase 1 implementation)
+   * Record usage in the shared cost ledger
+   */
+  private async logUsage(stats: UsageTracking): Promise<void> {
+    await costLedger.record(fromUsageTracking(stats, 'R2StorageService'))
+  }
+
+  /**
+   * Get the spend recorded for `date`, optionally for one service, from the usage ledger
    */
   async getUsageStats(
     date: string, 
-    service?: string
-  ): Promise<APIResponse<UsageTracking[]>> {
+    service?: CostService
+  ): Promise<APIResponse<UsageEntry[]>> {
     const requestId = `r2_get_usage_${Date.now()}`
     
     try {
-      let usageStats: UsageTracking[] = []
-      
-      if (typeof window !== 'undefined') {
-        const allUsage = JSON.parse(localStorage.getItem('usage_tracking') || '[]')
-        usageStats = allUsage.filter((stat: UsageTracking) => {
-          const matchesDate = stat.date === date
-          const matchesService = !service || stat.service === service
-          return matchesDate && matchesService
-        })
+      if (!this.usageLedger) {
+        throw new Error('Usage ledger not configured')
       }
 
+      const { entries } = await this.usageLedger.getDailyLog(date)
       return {
         success: true,
-        data: usageStats,
+        data: service ? entries.filter(entry => entry.service === service) : entries,
         requestId,
         timestamp: new Date().toISOString()
       }
@@ -278,7 +294,7 @@ export class R2StorageService {
   }
 
   /**
-   * Generate signed URL (Phase 1 mock implementation)
+   * Generate a time-limited download URL for a file
    */
   async generateSignedUrl(
     key: string, 
@@ -287,15 +303,16 @@ export class R2StorageService {
     const requestId = `r2_signed_url_${Date.now()}`
     
     try {
-      // Phase 1: Return the existing URL
-      const fileResponse = await this.getFile(key)
-      if (!fileResponse.success) {
+      if (!(await this.storage.head(key))) {
         throw new Error('File not found')
       }
+      if (!this.storage.presignGet) {
+        throw new Error('Signed URLs need the R2 (S3 API) backend')
+      }
 
       return {
         success: true,
-        data: fileResponse.data!.url,
+        data: await this.storage.presignGet(key, expiresInSeconds),
         requestId,
         timestamp: new Date().toISOString()
       }
@@ -311,7 +328,7 @@ export class R2StorageService {
   }
 
   /**
-   * Clean up old files (Phase 1 mock implementation)
+   * Clean up old files
    */
   async cleanupOldFiles(
     prefix: string, 
@@ -361,13 +378,14 @@ export class R2StorageService {
   }
 
   /**
-   * Test R2 connection (Phase 1 mock implementation)
+   * Test R2 connection by listing a single object
    */
   async testConnection(): Promise<APIResponse<boolean>> {
     const requestId = `r2_test_${Date.now()}`
     
     try {
-      // Phase 1: Always return success for testing
+      await this.storage.list({ limit: 1 })
+
       return {
         success: true,
         data: true,
@@ -386,41 +404,53 @@ export class R2StorageService {
     }
   }
 
-  /**
-   * Log API usage for monitoring (Phase 6 addition)
-   */
-  async logAPIUsage(
-    service: string,
-    cost: number,
-    metadata: Record<string, any>
-  ): Promise<void> {
-    const requestId = `r2_log_${Date.now()}`
-    
+  private async putObject(key: string, body: Uint8Array, options: PutObjectOptions): Promise<ObjectInfo> {
+    if (body.length <= this.multipartThresholdBytes) {
+      return this.storage.put(key, body, options)
+    }
+
+    const partSize = this.partSize(body.length)
+    const uploadId = await this.storage.createMultipartUpload(key, options)
     try {
-      // Phase 6: Log usage data to storage
-      const logData = {
-        service,
-        cost,
-        metadata,
-        timestamp: new Date().toISOString(),
-        requestId
+      const parts: CompletedPart[] = []
+      for (let offset = 0; offset < body.length; offset += partSize) {
+        const partNumber = parts.length + 1
+        const etag = await this.storage.uploadPart(key, uploadId, partNumber, body.subarray(offset, offset + partSize))
+        parts.push({ partNumber, etag })
       }
-      
-      // In a real implementation, this would upload to R2
-      // For now, store in localStorage for development
-      const logs = JSON.parse(localStorage.getItem('api_usage_logs') || '[]')
-      logs.push(logData)
-      
-      // Keep only last 100 logs
-      if (logs.length > 100) {
-        logs.splice(0, logs.length - 100)
-      }
-      
-      localStorage.setItem('api_usage_logs', JSON.stringify(logs))
-      console.log(`📊 API usage logged: ${service} - $${cost.toFixed(3)}`)
-      
+      return await this.storage.completeMultipartUpload(key, uploadId, parts)
     } catch (error) {
-      console.error('Failed to log API usage:', error)
+      // Don't leave orphaned parts (which R2 bills for) behind
+      await this.storage.abortMultipartUpload(key, uploadId).catch(abortError => {
+        console.error(`Failed to abort multipart upload of ${key}:`, abortError)
+      })
+      throw error
+    }
+  }
+
+  private partSize(totalBytes: number): number {
+    return Math.max(this.partSizeBytes, Math.ceil(totalBytes / MAX_PARTS))
+  }
+
+  private async toStorageFile(info: ObjectInfo): Promise<R2StorageFile> {
+    return {
+      key: info.key,
+      url: await this.urlFor(info.key),
+      bucket: this.bucketName,
+      size: info.size,
+      contentType: info.contentType || 'application/octet-stream',
+      uploadedAt: info.lastModified
+    }
+  }
+
+  private async urlFor(key: string): Promise<string> {
+    if (this.publicDomain) {
+      const base = /^https?:\/\//.test(this.publicDomain) ? this.publicDomain : `https://${this.publicDomain}`
+      return `${base.replace(/\/$/, '')}/${key.split('/').map(encodeURIComponent).join('/')}`
+    }
+    if (this.storage.presignGet) {
+      return this.storage.presignGet(key, this.signedUrlExpirySeconds)
     }
+    return `r2://${this.bucketName}/${key}`
   }
-}
\ No newline at end of file
+}
@@ -1,16 +1,36 @@
 // Phase 6: Intelligent Reddit Data Caching Service
-// Optimized caching for Reddit stories with smart invalidation and prefetching
-
-import { RedditStory } from '../types/reddit-automation'
+// Shared server-side cache of scraped Reddit stories. Entries live in a
+// StoryCacheStore (KV or R2) so every visitor reads the same listings, are
+// served stale-while-revalidate, and are refreshed incrementally using each
+// subreddit's ETag and `after` cursor.
+
+import { RedditStory, StoryCategory } from '../types/reddit-automation'
+import { RedditScraperService } from './reddit-scraper'
+import { DEFAULT_STORY_CATEGORIES } from '../categories/category-store'
+import {
+  CachedStoryEntry,
+  createStoryCacheStore,
+  KVNamespaceBinding,
+  MemoryStoryCacheStore,
+  StoryCacheStore,
+  SubredditCursor
+} from '../reddit-cache/story-cache-store'
+import { R2BucketBinding } from '../usage/ledger-storage'
+
+export type CacheFreshness = 'fresh' | 'stale' | 'expired'
+
+export interface CachedStoriesResult {
+  stories: RedditStory[]
+  freshness: CacheFreshness
+  fetchedAt: number
+  source: 'cache' | 'origin'
+}
 
-interface CacheEntry {
-  key: string
-  data: RedditStory[]
-  timestamp: number
-  expiresAt: number
-  accessCount: number
+export interface WarmupResult {
   category: string
-  freshness: 'fresh' | 'stale' | 'expired'
+  status: 'fresh' | 'refreshed' | 'failed'
+  storyCount: number
+  error?: string
 }
 
 interface CacheMetrics {
@@ -18,41 +38,41 @@ interface CacheMetrics {
   misses: number
   hitRate: number
   totalEntries: number
-  memoryUsage: number
+  revalidations: number
+  originFetches: number
   averageAccessTime: number
 }
 
 interface CacheConfig {
-  maxEntries: number
   defaultTTL: number
   freshThreshold: number
   staleThreshold: number
-  enablePrefetching: boolean
-  enableCompression: boolean
+  enablePrefetching: boolean // Revalidate stale entries in the background
+  refreshLeaseMs: number // How long one instance's revalidation holds off the others
 }
 
-interface PrefetchJob {
-  category: string
-  priority: 'high' | 'medium' | 'low'
-  scheduledTime: number
-  executed: boolean
-}
+export const DEFAULT_STORY_LIMIT = 15
+
+// Posts requested per listing page; most are filtered out as unnarratable
+const LISTING_PAGE_SIZE = 25
 
 export class RedditCacheService {
-  private cache: Map<string, CacheEntry> = new Map()
   private metrics: CacheMetrics
   private config: CacheConfig
-  private prefetchQueue: PrefetchJob[] = []
-  private isInitialized: boolean = false
-
-  constructor(config: Partial<CacheConfig> = {}) {
+  private known = new Map<string, CachedStoryEntry>()
+  private inflight = new Map<string, Promise<CachedStoryEntry>>()
+
+  constructor(
+    config: Partial<CacheConfig> = {},
+    private store: StoryCacheStore = new MemoryStoryCacheStore(),
+    private scraper: RedditScraperService = new RedditScraperService()
+  ) {
     this.config = {
-      maxEntries: 100,
       defaultTTL: 1800000, // 30 minutes
       freshThreshold: 300000, // 5 minutes
       staleThreshold: 1200000, // 20 minutes
       enablePrefetching: true,
-      enableCompression: false, // Disable for now due to complexity
+      refreshLeaseMs: 60000, // 1 minute
       ...config
     }
 
@@ -61,301 +81,309 @@ export class RedditCacheService {
       misses: 0,
       hitRate: 0,
       totalEntries: 0,
-      memoryUsage: 0,
+      revalidations: 0,
+      originFetches: 0,
       averageAccessTime: 0
     }
-
-    this.initialize()
   }
 
   /**
-   * Initialize the cache service
+   * Stories for a category, stale-while-revalidate: fresh entries are served
+   * as is, stale ones are served while a background refresh runs (handed to
+   * `waitUntil` in Pages Functions), and missing or expired ones are fetched
+   * before answering - falling back to the expired copy if Reddit is down.
    */
-  private initialize(): void {
-    if (this.isInitialized) return
-
-    console.log('🗄️ Initializing Reddit cache service')
-    
-    // Load existing cache from localStorage if available
-    this.loadCacheFromStorage()
-    
-    // Setup periodic maintenance
-    setInterval(() => this.performMaintenance(), 300000) // 5 minutes
-    
-    // Setup prefetch scheduler
-    if (this.config.enablePrefetching) {
-      setInterval(() => this.processPrefetchQueue(), 60000) // 1 minute
+  async getStories(
+    category: string,
+    limit: number = DEFAULT_STORY_LIMIT,
+    options: { waitUntil?: (promise: Promise<unknown>) => void } = {}
+  ): Promise<CachedStoriesResult> {
+    const startTime = Date.now()
+    const entry = await this.loadEntry(category, limit)
+    const freshness = entry ? this.calculateFreshness(entry) : 'expired'
+
+    if (entry && freshness !== 'expired') {
+      this.remember(entry)
+      this.metrics.hits++
+      this.updateMetrics(Date.now() - startTime)
+      console.log(`✨ Cache hit for category: ${category} (freshness: ${freshness})`)
+
+      if (freshness === 'stale') {
+        this.revalidate(entry, options.waitUntil)
+      }
+      return { stories: entry.stories, freshness, fetchedAt: entry.fetchedAt, source: 'cache' }
+    }
+
+    this.metrics.misses++
+    this.updateMetrics(Date.now() - startTime)
+    console.log(entry ? `⏰ Cache expired for category: ${category}` : `💨 Cache miss for category: ${category}`)
+
+    try {
+      const refreshed = await this.refresh(category, limit)
+      return { stories: refreshed.stories, freshness: 'fresh', fetchedAt: refreshed.fetchedAt, source: 'origin' }
+    } catch (error) {
+      if (!entry || entry.stories.length === 0) throw error
+      console.warn(`⚠️ Serving expired stories for ${category}, refresh failed:`, error)
+      return { stories: entry.stories, freshness: 'expired', fetchedAt: entry.fetchedAt, source: 'cache' }
     }
-    
-    this.isInitialized = true
-    console.log('✅ Reddit cache service initialized')
   }
 
   /**
-   * Get cached Reddit stories for a category
+   * Cache-only lookup: null on a miss or an expired entry
    */
-  async getCachedStories(category: string, limit: number = 15): Promise<RedditStory[] | null> {
+  async getCachedStories(category: string, limit: number = DEFAULT_STORY_LIMIT): Promise<RedditStory[] | null> {
     const startTime = Date.now()
-    const cacheKey = this.generateCacheKey(category, limit)
-    
-    const entry = this.cache.get(cacheKey)
-    if (!entry) {
-      this.metrics.misses++
-      this.updateMetrics(Date.now() - startTime)
-      console.log(`💨 Cache miss for category: ${category}`)
-      
-      // Schedule prefetch for this category
-      this.schedulePrefetch(category, 'medium')
-      
-      return null
-    }
+    const entry = await this.loadEntry(category, limit)
 
-    // Check if entry is expired
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(cacheKey)
+    if (!entry || this.calculateFreshness(entry) === 'expired') {
       this.metrics.misses++
       this.updateMetrics(Date.now() - startTime)
-      console.log(`⏰ Cache expired for category: ${category}`)
-      
-      // Schedule immediate prefetch
-      this.schedulePrefetch(category, 'high')
-      
       return null
     }
 
-    // Update entry access metadata
-    entry.accessCount++
-    entry.freshness = this.calculateFreshness(entry)
-    
+    this.remember(entry)
     this.metrics.hits++
     this.updateMetrics(Date.now() - startTime)
-    
-    console.log(`✨ Cache hit for category: ${category} (freshness: ${entry.freshness})`)
-    
-    // If data is stale, schedule background refresh
-    if (entry.freshness === 'stale') {
-      this.schedulePrefetch(category, 'low')
+
+    if (this.calculateFreshness(entry) === 'stale') {
+      this.revalidate(entry)
     }
-    
-    return entry.data
+    return entry.stories
   }
 
   /**
-   * Cache Reddit stories with intelligent metadata
+   * Cache stories fetched elsewhere. Subreddit cursors from an earlier
+   * refresh are kept.
    */
-  async cacheStories(category: string, stories: RedditStory[], limit: number = 15): Promise<void> {
+  async cacheStories(category: string, stories: RedditStory[], limit: number = DEFAULT_STORY_LIMIT): Promise<void> {
     if (stories.length === 0) return
 
-    const cacheKey = this.generateCacheKey(category, limit)
-    const timestamp = Date.now()
-    
-    const entry: CacheEntry = {
-      key: cacheKey,
-      data: stories,
-      timestamp,
-      expiresAt: timestamp + this.config.defaultTTL,
-      accessCount: 0,
-      category,
-      freshness: 'fresh'
-    }
-
-    // Ensure we don't exceed max entries
-    if (this.cache.size >= this.config.maxEntries) {
-      this.evictLeastUsed()
-    }
+    const previous = await this.loadEntry(category, limit)
+    await this.save(this.createEntry(category, limit, stories, previous?.subreddits || {}))
 
-    this.cache.set(cacheKey, entry)
-    this.metrics.totalEntries = this.cache.size
-    
-    // Save to localStorage for persistence
-    this.saveCacheToStorage(cacheKey, entry)
-    
     console.log(`💾 Cached ${stories.length} stories for category: ${category}`)
   }
 
   /**
-   * Intelligent prefetching based on usage patterns
+   * Fetch a category from Reddit now and store it. Concurrent refreshes of
+   * the same entry in this instance share one fetch.
    */
-  private async schedulePrefetch(category: string, priority: 'high' | 'medium' | 'low'): Promise<void> {
-    if (!this.config.enablePrefetching) return
-
-    // Check if already scheduled
-    const existingJob = this.prefetchQueue.find(job => 
-      job.category === category && !job.executed
-    )
-    
-    if (existingJob) {
-      // Update priority if higher
-      if (this.getPriorityWeight(priority) > this.getPriorityWeight(existingJob.priority)) {
-        existingJob.priority = priority
-      }
-      return
-    }
-
-    // Schedule new prefetch job
-    const scheduledTime = Date.now() + this.getPrefetchDelay(priority)
-    const job: PrefetchJob = {
-      category,
-      priority,
-      scheduledTime,
-      executed: false
+  async refresh(category: string, limit: number = DEFAULT_STORY_LIMIT): Promise<CachedStoryEntry> {
+    const key = this.generateCacheKey(category, limit)
+    const running = this.inflight.get(key)
+    if (running) return running
+
+    const refresh = (async () => {
+      const previous = await this.loadEntry(category, limit)
+      const entry = await this.fetchFromOrigin(category, limit, previous)
+      await this.save(entry)
+      console.log(`✅ Refreshed ${category}: ${entry.stories.length} stories`)
+      return entry
+    })()
+
+    this.inflight.set(key, refresh)
+    try {
+      return await refresh
+    } finally {
+      this.inflight.delete(key)
     }
-
-    this.prefetchQueue.push(job)
-    console.log(`📋 Scheduled prefetch for ${category} (priority: ${priority})`)
   }
 
   /**
-   * Process the prefetch queue
+   * Refresh every category that isn't fresh - run from a cron trigger so
+   * visitors rarely wait on Reddit
    */
-  private async processPrefetchQueue(): Promise<void> {
-    const now = Date.now()
-    const readyJobs = this.prefetchQueue.filter(job => 
-      !job.executed && job.scheduledTime <= now
-    )
-
-    if (readyJobs.length === 0) return
-
-    // Sort by priority and execute
-    readyJobs
-      .sort((a, b) => this.getPriorityWeight(b.priority) - this.getPriorityWeight(a.priority))
-      .slice(0, 2) // Process max 2 jobs at once
-      .forEach(job => this.executePrefetch(job))
-  }
+  async warmupCache(
+    categories: string[] = this.scraper.getCategories().map(category => category.id),
+    options: { force?: boolean; limit?: number } = {}
+  ): Promise<WarmupResult[]> {
+    const limit = options.limit ?? DEFAULT_STORY_LIMIT
+    console.log(`🔥 Warming up cache for categories: ${categories.join(', ')}`)
 
-  /**
-   * Execute a prefetch job
-   */
-  private async executePrefetch(job: PrefetchJob): Promise<void> {
-    try {
-      console.log(`🔄 Executing prefetch for category: ${job.category}`)
-      
-      job.executed = true
-      
-      // Import and use Reddit scraper
-      const { RedditScraperService } = await import('./reddit-scraper')
-      const scraper = new RedditScraperService()
-      
-      const stories = await scraper.scrapeRedditStories(job.category as any, 15)
-      
-      if (stories.length > 0) {
-        await this.cacheStories(job.category, stories, 15)
-        console.log(`✅ Prefetch completed for ${job.category}: ${stories.length} stories`)
+    const results: WarmupResult[] = []
+    for (const category of categories) {
+      const entry = await this.loadEntry(category, limit)
+      if (!options.force && entry && this.calculateFreshness(entry) === 'fresh') {
+        results.push({ category, status: 'fresh', storyCount: entry.stories.length })
+        continue
+      }
+
+      try {
+        const refreshed = await this.refresh(category, limit)
+        results.push({ category, status: 'refreshed', storyCount: refreshed.stories.length })
+      } catch (error) {
+        console.error(`❌ Warmup failed for ${category}:`, error)
+        results.push({ category, status: 'failed', storyCount: entry?.stories.length || 0, error: error instanceof Error ? error.message : String(error) })
       }
-      
-    } catch (error) {
-      console.error(`❌ Prefetch failed for ${job.category}:`, error)
     }
-    
-    // Remove completed job
-    this.prefetchQueue = this.prefetchQueue.filter(j => j !== job)
+    return results
   }
 
   /**
-   * Generate cache key for consistency
+   * Entries in the shared store with their freshness
    */
-  private generateCacheKey(category: string, limit: number): string {
-    return `reddit_${category}_${limit}`
+  async getStatus(): Promise<Array<{
+    key: string
+    category: string
+    limit: number
+    storyCount: number
+    freshness: CacheFreshness
+    age: number
+    subreddits: string[]
+  }>> {
+    const entries = await Promise.all((await this.store.keys()).map(key => this.store.get(key)))
+    return entries
+      .filter((entry): entry is CachedStoryEntry => entry !== null && entry.fetchedAt > 0)
+      .map(entry => ({
+        key: entry.key,
+        category: entry.category,
+        limit: entry.limit,
+        storyCount: entry.stories.length,
+        freshness: this.calculateFreshness(entry),
+        age: Date.now() - entry.fetchedAt,
+        subreddits: Object.keys(entry.subreddits)
+      }))
   }
 
   /**
-   * Calculate data freshness
+   * Start a background refresh of a stale entry unless another instance
+   * already holds the refresh lease
    */
-  private calculateFreshness(entry: CacheEntry): 'fresh' | 'stale' | 'expired' {
-    const age = Date.now() - entry.timestamp
-    
-    if (age < this.config.freshThreshold) return 'fresh'
-    if (age < this.config.staleThreshold) return 'stale'
-    return 'expired'
+  private revalidate(entry: CachedStoryEntry, waitUntil?: (promise: Promise<unknown>) => void): void {
+    if (!this.config.enablePrefetching) return
+    if (this.inflight.has(entry.key)) return
+    if (entry.refreshStartedAt && Date.now() - entry.refreshStartedAt < this.config.refreshLeaseMs) return
+
+    this.metrics.revalidations++
+    console.log(`🔄 Revalidating stale category: ${entry.category}`)
+
+    const task = (async () => {
+      await this.store.put(entry.key, { ...entry, refreshStartedAt: Date.now() }, this.retainSeconds())
+      await this.refresh(entry.category, entry.limit)
+    })().catch(error => {
+      console.error(`❌ Background refresh failed for ${entry.category}:`, error)
+    })
+
+    if (waitUntil) waitUntil(task)
   }
 
   /**
-   * Evict least recently used entries
+   * One pass over the category's subreddits. Listings whose ETag still
+   * matches keep their cached stories; subreddits that came up short continue
+   * from their `after` cursor instead of re-reading posts already seen.
    */
-  private evictLeastUsed(): void {
-    if (this.cache.size === 0) return
-
-    // Find entry with lowest access count and oldest timestamp
-    let lruEntry: CacheEntry | null = null
-    let lruKey: string = ''
-    
-    for (const [key, entry] of this.cache.entries()) {
-      if (!lruEntry || 
-          entry.accessCount < lruEntry.accessCount ||
-          (entry.accessCount === lruEntry.accessCount && entry.timestamp < lruEntry.timestamp)) {
-        lruEntry = entry
-        lruKey = key
+  private async fetchFromOrigin(
+    category: string,
+    limit: number,
+    previous: CachedStoryEntry | null
+  ): Promise<CachedStoryEntry> {
+    this.metrics.originFetches++
+    const subreddits = this.scraper.getSubreddits(category)
+    const perSubreddit = Math.ceil(limit / subreddits.length)
+    const previousStories = new Map((previous?.stories || []).map(story => [story.id, story]))
+    const cursors: Record<string, SubredditCursor> = {}
+    const stories: RedditStory[] = []
+    let reached = 0
+
+    for (const subreddit of subreddits) {
+      const cursor = previous?.subreddits[subreddit]
+      const kept = (cursor?.storyIds || [])
+        .map(id => previousStories.get(id))
+        .filter((story): story is RedditStory => Boolean(story))
+
+      try {
+        const page = await this.scraper.fetchSubreddit(subreddit, category, { limit: LISTING_PAGE_SIZE, etag: cursor?.etag })
+        let merged = page.notModified ? kept : mergeStories(kept, page.stories)
+        let after = page.notModified ? cursor?.after ?? null : page.after
+
+        if (merged.length < perSubreddit && after) {
+          const next = await this.scraper.fetchSubreddit(subreddit, category, { limit: LISTING_PAGE_SIZE, after })
+          merged = mergeStories(merged, next.stories)
+          after = next.after
+        }
+
+        // Keep a few spares per subreddit so later refreshes have something to rank
+        merged = merged.sort((a, b) => b.viral_score - a.viral_score).slice(0, perSubreddit * 2)
+        cursors[subreddit] = { etag: page.etag, after, storyIds: merged.map(story => story.id), fetchedAt: Date.now() }
+        stories.push(...merged)
+        reached++
+      } catch (error) {
+        console.error(`Error scraping r/${subreddit}:`, error)
+        if (cursor) {
+          cursors[subreddit] = cursor
+          stories.push(...kept)
+        }
       }
     }
-    
-    if (lruKey) {
-      this.cache.delete(lruKey)
-      this.removeCacheFromStorage(lruKey)
-      console.log(`🗑️ Evicted LRU cache entry: ${lruKey}`)
+
+    if (reached === 0) {
+      throw new Error(`Could not reach any ${category} subreddit`)
     }
+
+    const ranked = stories.sort((a, b) => b.viral_score - a.viral_score).slice(0, limit)
+    return this.createEntry(category, limit, ranked, cursors)
   }
 
   /**
-   * Get priority weight for sorting
+   * The stored entry, unless the category was edited after it was fetched -
+   * its stories may come from removed subreddits or older filters
    */
-  private getPriorityWeight(priority: 'high' | 'medium' | 'low'): number {
-    switch (priority) {
-      case 'high': return 3
-      case 'medium': return 2
-      case 'low': return 1
-      default: return 0
-    }
+  private async loadEntry(category: string, limit: number): Promise<CachedStoryEntry | null> {
+    const entry = await this.store.get(this.generateCacheKey(category, limit))
+    const updatedAt = this.scraper.getCategories().find(candidate => candidate.id === category)?.updatedAt
+    return entry && updatedAt && Date.parse(updatedAt) > entry.fetchedAt ? null : entry
   }
 
-  /**
-   * Get prefetch delay based on priority
-   */
-  private getPrefetchDelay(priority: 'high' | 'medium' | 'low'): number {
-    switch (priority) {
-      case 'high': return 1000 // 1 second
-      case 'medium': return 30000 // 30 seconds
-      case 'low': return 300000 // 5 minutes
-      default: return 60000
+  private createEntry(
+    category: string,
+    limit: number,
+    stories: RedditStory[],
+    subreddits: Record<string, SubredditCursor>
+  ): CachedStoryEntry {
+    const fetchedAt = Date.now()
+    return {
+      key: this.generateCacheKey(category, limit),
+      category,
+      limit,
+      stories,
+      fetchedAt,
+      expiresAt: fetchedAt + this.config.defaultTTL,
+      subreddits
     }
   }
 
-  /**
-   * Perform periodic cache maintenance
-   */
-  private performMaintenance(): void {
-    const startTime = Date.now()
-    let cleanedEntries = 0
-    let totalSize = 0
-
-    // Remove expired entries
-    for (const [key, entry] of this.cache.entries()) {
-      totalSize += this.estimateEntrySize(entry)
-      
-      if (Date.now() > entry.expiresAt) {
-        this.cache.delete(key)
-        this.removeCacheFromStorage(key)
-        cleanedEntries++
-      }
-    }
+  private async save(entry: CachedStoryEntry): Promise<void> {
+    await this.store.put(entry.key, entry, this.retainSeconds())
+    this.remember(entry)
+  }
 
-    // Update metrics
-    this.metrics.totalEntries = this.cache.size
-    this.metrics.memoryUsage = totalSize
-    this.updateHitRate()
+  private remember(entry: CachedStoryEntry): void {
+    this.known.set(entry.key, entry)
+    this.metrics.totalEntries = this.known.size
+  }
 
-    const maintenanceTime = Date.now() - startTime
-    
-    if (cleanedEntries > 0 || maintenanceTime > 100) {
-      console.log(`🧹 Cache maintenance: removed ${cleanedEntries} expired entries in ${maintenanceTime}ms`)
-    }
+  // Expired entries are kept a while longer to serve if Reddit is unreachable
+  private retainSeconds(): number {
+    return (this.config.defaultTTL * 2) / 1000
+  }
+
+  /**
+   * Generate cache key for consistency
+   */
+  private generateCacheKey(category: string, limit: number): string {
+    return `reddit_${category}_${limit}`
   }
 
   /**
-   * Estimate memory usage of cache entry
+   * Calculate data freshness
    */
-  private estimateEntrySize(entry: CacheEntry): number {
-    // Rough estimation: JSON string length * 2 for UTF-16
-    return JSON.stringify(entry).length * 2
+  private calculateFreshness(entry: CachedStoryEntry): CacheFreshness {
+    const age = Date.now() - entry.fetchedAt
+
+    if (Date.now() > entry.expiresAt) return 'expired'
+    if (age < this.config.freshThreshold) return 'fresh'
+    if (age < this.config.staleThreshold) return 'stale'
+    return 'expired'
   }
 
   /**
@@ -363,12 +391,12 @@ export class RedditCacheService {
    */
   private updateMetrics(accessTime: number): void {
     const totalAccess = this.metrics.hits + this.metrics.misses
-    
+
     if (totalAccess > 0) {
-      this.metrics.averageAccessTime = 
+      this.metrics.averageAccessTime =
         (this.metrics.averageAccessTime * (totalAccess - 1) + accessTime) / totalAccess
     }
-    
+
     this.updateHitRate()
   }
 
@@ -381,111 +409,21 @@ export class RedditCacheService {
   }
 
   /**
-   * Save cache entry to localStorage
-   */
-  private saveCacheToStorage(key: string, entry: CacheEntry): void {
-    if (typeof window === 'undefined') return
-
-    try {
-      const storageKey = `reddit_cache_${key}`
-      const serialized = JSON.stringify({
-        data: entry.data,
-        timestamp: entry.timestamp,
-        expiresAt: entry.expiresAt,
-        category: entry.category
-      })
-      
-      localStorage.setItem(storageKey, serialized)
-    } catch (error) {
-      console.warn('Failed to save cache to localStorage:', error)
-    }
-  }
-
-  /**
-   * Load cache from localStorage on initialization
-   */
-  private loadCacheFromStorage(): void {
-    if (typeof window === 'undefined') return
-
-    try {
-      const keys = Object.keys(localStorage).filter(key => 
-        key.startsWith('reddit_cache_')
-      )
-      
-      let loadedEntries = 0
-      
-      for (const storageKey of keys) {
-        const cacheKey = storageKey.replace('reddit_cache_', '')
-        const serialized = localStorage.getItem(storageKey)
-        
-        if (serialized) {
-          const stored = JSON.parse(serialized)
-          
-          // Check if still valid
-          if (Date.now() < stored.expiresAt) {
-            const entry: CacheEntry = {
-              key: cacheKey,
-              data: stored.data,
-              timestamp: stored.timestamp,
-              expiresAt: stored.expiresAt,
-              accessCount: 0,
-              category: stored.category,
-              freshness: this.calculateFreshness({
-                timestamp: stored.timestamp,
-                expiresAt: stored.expiresAt
-              } as CacheEntry)
-            }
-            
-            this.cache.set(cacheKey, entry)
-            loadedEntries++
-          } else {
-            // Remove expired entry
-            localStorage.removeItem(storageKey)
-          }
-        }
-      }
-      
-      if (loadedEntries > 0) {
-        console.log(`📦 Loaded ${loadedEntries} cache entries from localStorage`)
-      }
-      
-    } catch (error) {
-      console.warn('Failed to load cache from localStorage:', error)
-    }
-  }
-
-  /**
-   * Remove cache entry from localStorage
-   */
-  private removeCacheFromStorage(key: string): void {
-    if (typeof window === 'undefined') return
-
-    try {
-      const storageKey = `reddit_cache_${key}`
-      localStorage.removeItem(storageKey)
-    } catch (error) {
-      console.warn('Failed to remove cache from localStorage:', error)
-    }
-  }
-
-  /**
-   * Get cache statistics and performance metrics
+   * Get this instance's cache statistics and the entries it has seen
    */
   getMetrics(): CacheMetrics & { cacheEntries: Array<{
     key: string
     category: string
     age: number
     freshness: string
-    accessCount: number
-    size: number
+    storyCount: number
   }> } {
-    const cacheEntries = Array.from(this.cache.entries()).map(([key, entry]) => ({
-      key,
+    const cacheEntries = Array.from(this.known.values()).map(entry => ({
+      key: entry.key,
       category: entry.category,
-      age: Date.now() - entry.timestamp,
-      freshness: entry.freshness,
-      accessCount: entry.accessCount,
-      size: this.estimateEntrySize(entry)
+      age: Date.now() - entry.fetchedAt,
+      freshness: this.calculateFreshness(entry),
+      storyCount: entry.stories.length
     }))
 
     return {
@@ -495,59 +433,38 @@ export class RedditCacheService {
   }
 
   /**
-   * Warm up cache with popular categories
+   * Clear entire cache. The stores can't delete, so entries are overwritten
+   * with expired, cursor-less ones.
    */
-  async warmupCache(categories: string[] = ['drama', 'horror', 'revenge']): Promise<void> {
-    console.log(`🔥 Warming up cache for categories: ${categories.join(', ')}`)
-    
-    for (const category of categories) {
-      this.schedulePrefetch(category, 'medium')
+  async clearCache(): Promise<void> {
+    for (const key of await this.store.keys()) {
+      const entry = await this.store.get(key)
+      if (entry) {
+        await this.store.put(key, { ...entry, stories: [], subreddits: {}, fetchedAt: 0, expiresAt: 0 }, this.retainSeconds())
+      }
     }
-  }
+    this.known.clear()
 
-  /**
-   * Clear entire cache
-   */
-  clearCache(): void {
-    this.cache.clear()
-    this.prefetchQueue.length = 0
-    
-    // Clear localStorage entries
-    if (typeof window !== 'undefined') {
-      const keys = Object.keys(localStorage).filter(key => 
-        key.startsWith('reddit_cache_')
-      )
-      
-      keys.forEach(key => localStorage.removeItem(key))
-    }
-    
     // Reset metrics
     this.metrics = {
       hits: 0,
       misses: 0,
       hitRate: 0,
       totalEntries: 0,
-      memoryUsage: 0,
+      revalidations: 0,
+      originFetches: 0,
       averageAccessTime: 0
     }
-    
+
     console.log('🗑️ Cache cleared completely')
   }
 
   /**
    * Force refresh cache for specific category
    */
-  async forceRefresh(category: string): Promise<void> {
-    const cacheKey = this.generateCacheKey(category, 15)
-    
-    // Remove existing cache
-    this.cache.delete(cacheKey)
-    this.removeCacheFromStorage(cacheKey)
-    
-    // Schedule immediate prefetch
-    this.schedulePrefetch(category, 'high')
-    
+  async forceRefresh(category: string, limit: number = DEFAULT_STORY_LIMIT): Promise<void> {
     console.log(`🔄 Force refresh initiated for category: ${category}`)
+    await this.refresh(category, limit)
   }
 
   /**
@@ -586,12 +503,22 @@ export class RedditCacheService {
   }
 }
 
-// Export singleton instance
-export const redditCache = new RedditCacheService({
-  maxEntries: 50,
-  defaultTTL: 1800000, // 30 minutes
-  freshThreshold: 300000, // 5 minutes
-  staleThreshold: 1200000, // 20 minutes
-  enablePrefetching: true,
-  enableCompression: false
-})
\ No newline at end of file
+/**
+ * Newer copies of a post replace older ones
+ */
+function mergeStories(existing: RedditStory[], incoming: RedditStory[]): RedditStory[] {
+  const byId = new Map(existing.map(story => [story.id, story]))
+  incoming.forEach(story => byId.set(story.id, story))
+  return Array.from(byId.values())
+}
+
+/**
+ * Cache shared by all visitors, for Pages Functions
+ */
+export function createRedditCache(
+  env: { REDDIT_CACHE?: KVNamespaceBinding; R2_BUCKET?: R2BucketBinding },
+  config: Partial<CacheConfig> = {},
+  categories: StoryCategory[] = DEFAULT_STORY_CATEGORIES
+): RedditCacheService {
+  return new RedditCacheService(config, createStoryCacheStore(env), new RedditScraperService(undefined, undefined, categories))
+}
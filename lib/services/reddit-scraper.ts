@@ -1,79 +1,274 @@
-import { RedditStory, RedditApiResponse } from '../types/reddit-automation';
+import { RedditStory, RedditApiResponse, StoryCategory, StoryFilterSettings } from '../types/reddit-automation';
+import { DEFAULT_STORY_CATEGORIES } from '../categories/category-store';
+import { ContentHistory } from '../content-history/content-history';
+import { classifyWithRules, containsWholeWord } from '../safety/content-safety';
+
+export const REDDIT_SORTS = ['hot', 'top', 'new', 'rising'] as const;
+export type RedditSort = typeof REDDIT_SORTS[number];
+
+// Time windows Reddit accepts for the `top` listing
+export const REDDIT_TIME_WINDOWS = ['day', 'week', 'month', 'year', 'all'] as const;
+export type RedditTimeWindow = typeof REDDIT_TIME_WINDOWS[number];
+
+// Why a post didn't make it into the results
+export type StoryFilterReason =
+  | 'stickied'
+  | 'nsfw'
+  | 'low_upvote_ratio'
+  | 'low_upvotes'
+  | 'too_short'
+  | 'too_long'
+  | 'banned_word'
+  | 'unsafe' // Content-safety rules blocked it
+  | 'duplicate' // Seen on an earlier page of the same scrape
+  | 'already_used'; // Already made into a video (content history)
+
+export interface SubredditFetchOptions {
+  limit?: number;
+  sort?: RedditSort;
+  t?: RedditTimeWindow; // Only used with sort 'top'
+  etag?: string; // From the last fetch of this listing; a 304 means nothing changed
+  after?: string | null; // Listing cursor, to continue past posts already seen
+}
+
+export interface SubredditFetchResult {
+  subreddit: string;
+  notModified: boolean;
+  stories: RedditStory[];
+  etag?: string;
+  after: string | null;
+  postsSeen: number;
+  rejected: Partial<Record<StoryFilterReason, number>>;
+}
+
+export interface ScrapeOptions {
+  sort?: RedditSort;
+  t?: RedditTimeWindow;
+  pageSize?: number; // Posts per listing request (Reddit allows up to 100)
+  maxPagesPerSubreddit?: number; // Page budget before giving up on a subreddit
+}
+
+export interface SubredditScrapeStats {
+  subreddit: string;
+  pagesFetched: number;
+  postsSeen: number;
+  accepted: number;
+  rejected: Partial<Record<StoryFilterReason, number>>;
+  exhausted: boolean; // Reached the end of the listing
+  error?: string;
+}
+
+export interface ScrapeResult {
+  stories: RedditStory[];
+  stats: SubredditScrapeStats[];
+  pagesFetched: number;
+  budgetExhausted: boolean; // Stopped on the page budget before reaching the limit
+}
+
+const DEFAULT_PAGE_SIZE = 25;
+const DEFAULT_MAX_PAGES_PER_SUBREDDIT = 3;
 
 export class RedditScraperService {
-  private readonly SUBREDDIT_CONFIGS = {
-    drama: ['AmItheAsshole', 'relationship_advice', 'tifu', 'confessions'],
-    horror: ['nosleep', 'LetsNotMeet', 'creepyencounters', 'missing411'],
-    revenge: ['MaliciousCompliance', 'pettyrevenge', 'ProRevenge', 'NuclearRevenge'],
-    wholesome: ['MadeMeSmile', 'wholesomememes', 'HumansBeingBros'],
-    mystery: ['mystery', 'UnresolvedMysteries', 'RBI', 'whatisthisthing']
-  };
+  /**
+   * With a content history, stories that already became videos (or reposts
+   * of them) are left out of scrapeRedditStories. Categories normally come
+   * from the CategoryStore; the built-in ones are used otherwise.
+   */
+  constructor(
+    private baseUrl: string = 'https://www.reddit.com',
+    private history?: ContentHistory,
+    private categories: StoryCategory[] = DEFAULT_STORY_CATEGORIES
+  ) {}
 
   async scrapeRedditStories(
-    category: keyof typeof this.SUBREDDIT_CONFIGS,
-    limit: number = 20
+    category: string,
+    limit: number = 20,
+    options: ScrapeOptions = {}
   ): Promise<RedditStory[]> {
+    const result = await this.scrapeWithStats(category, limit, options);
+    return result.stories;
+  }
+
+  /**
+   * Page through every subreddit of `category` in turn until `limit` stories
+   * pass the filters or each subreddit has used up its page budget. The
+   * stats say, per subreddit, how many posts were seen and why the rest
+   * were dropped.
+   */
+  async scrapeWithStats(
+    category: string,
+    limit: number = 20,
+    options: ScrapeOptions = {}
+  ): Promise<ScrapeResult> {
     console.log('Scraping Reddit using public JSON endpoints (NO API calls)');
-    
-    const subreddits = this.SUBREDDIT_CONFIGS[category];
-    const stories: RedditStory[] = [];
 
-    for (const subreddit of subreddits) {
-      try {
-        const response = await fetch(
-          `https://www.reddit.com/r/${subreddit}/hot.json?limit=${Math.ceil(limit / subreddits.length)}`,
-          {
-            headers: {
-              'User-Agent': 'RedditVideoBot/1.0'
-            }
-          }
-        );
-        
-        if (!response.ok) continue;
-        
-        // 🔧 TYPESCRIPT FIX APPLIED - Proper type assertion
-        const data = await response.json() as RedditApiResponse;
-        const posts = data.data.children;
-
-        for (const post of posts) {
-          const postData = post.data;
-          
-          if (
-            postData.upvote_ratio < 0.8 ||
-            postData.ups < 500 ||
-            postData.selftext.length < 200 ||
-            postData.selftext.length > 3000 ||
-            postData.over_18 ||
-            postData.stickied ||
-            this.containsProblematicContent(postData.selftext)
-          ) {
-            continue;
-          }
+    const subreddits = this.getCategory(category).subreddits;
+    if (options.sort && !REDDIT_SORTS.includes(options.sort)) {
+      throw new Error(`Unknown sort "${options.sort}" - expected one of ${REDDIT_SORTS.join(', ')}`);
+    }
+    if (options.t && !REDDIT_TIME_WINDOWS.includes(options.t)) {
+      throw new Error(`Unknown time window "${options.t}" - expected one of ${REDDIT_TIME_WINDOWS.join(', ')}`);
+    }
+
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const maxPages = options.maxPagesPerSubreddit ?? DEFAULT_MAX_PAGES_PER_SUBREDDIT;
+    const stats = subreddits.map(subreddit => ({
+      subreddit, pagesFetched: 0, postsSeen: 0, accepted: 0, rejected: {}, exhausted: false
+    } as SubredditScrapeStats));
+    const cursors = new Map<string, string | null>();
+    const stories = new Map<string, RedditStory>();
+
+    // One page per subreddit per round keeps the mix even across subreddits
+    const canFetch = (stat: SubredditScrapeStats) => !stat.exhausted && !stat.error && stat.pagesFetched < maxPages;
+    while (stories.size < limit && stats.some(canFetch)) {
+      for (const stat of stats.filter(canFetch)) {
+        try {
+          const page = await this.fetchSubreddit(stat.subreddit, category, {
+            limit: pageSize,
+            sort: options.sort,
+            t: options.t,
+            after: cursors.get(stat.subreddit)
+          });
 
-          const story: RedditStory = {
-            id: postData.id,
-            title: postData.title,
-            content: postData.selftext,
-            subreddit: postData.subreddit,
-            upvotes: postData.ups,
-            comments: postData.num_comments,
-            created_utc: postData.created_utc,
-            url: `https://reddit.com${postData.permalink}`,
-            viral_score: this.calculateViralScore(postData),
-            category,
-            estimated_duration: this.estimateDuration(postData.selftext)
-          };
-
-          stories.push(story);
+          stat.pagesFetched++;
+          stat.postsSeen += page.postsSeen;
+          addCounts(stat.rejected, page.rejected);
+          cursors.set(stat.subreddit, page.after);
+          if (!page.after) stat.exhausted = true;
+
+          const fresh = page.stories.filter(story => !stories.has(story.id));
+          addCounts(stat.rejected, { duplicate: page.stories.length - fresh.length });
+
+          const used = this.history ? await this.history.findUsed(fresh) : new Map();
+          addCounts(stat.rejected, { already_used: used.size });
+
+          for (const story of fresh) {
+            if (used.has(story.id)) continue;
+            stories.set(story.id, story);
+            stat.accepted++;
+          }
+        } catch (error) {
+          console.error(`Error scraping r/${stat.subreddit}:`, error);
+          stat.error = error instanceof Error ? error.message : String(error);
         }
-      } catch (error) {
-        console.error(`Error scraping r/${subreddit}:`, error);
       }
     }
 
-    return stories
-      .sort((a, b) => b.viral_score - a.viral_score)
-      .slice(0, limit);
+    const usedCount = stats.reduce((sum, stat) => sum + (stat.rejected.already_used || 0), 0);
+    if (usedCount > 0) console.log(`Skipped ${usedCount} stories that were already used`);
+
+    return {
+      stories: Array.from(stories.values())
+        .sort((a, b) => b.viral_score - a.viral_score)
+        .slice(0, limit),
+      stats,
+      pagesFetched: stats.reduce((sum, stat) => sum + stat.pagesFetched, 0),
+      budgetExhausted: stories.size < limit && stats.some(stat => !stat.exhausted && !stat.error)
+    };
+  }
+
+  getSubreddits(category: string): string[] {
+    return [...this.getCategory(category).subreddits];
+  }
+
+  getCategories(): StoryCategory[] {
+    return this.categories;
+  }
+
+  getCategory(id: string): StoryCategory {
+    const category = this.categories.find(candidate => candidate.id === id);
+    if (!category) {
+      throw new Error(`Unknown story category: ${id}`);
+    }
+    return category;
+  }
+
+  /**
+   * One page of a subreddit listing, filtered to narratable stories.
+   * With an etag the request is conditional, so an unchanged listing costs
+   * Reddit (and us) an empty 304.
+   */
+  async fetchSubreddit(
+    subreddit: string,
+    category: string,
+    options: SubredditFetchOptions = {}
+  ): Promise<SubredditFetchResult> {
+    const { filters } = this.getCategory(category);
+    const sort = options.sort ?? 'hot';
+    const url = new URL(`${this.baseUrl}/r/${subreddit}/${sort}.json`);
+    url.searchParams.set('limit', String(options.limit ?? DEFAULT_PAGE_SIZE));
+    if (sort === 'top') url.searchParams.set('t', options.t ?? 'day');
+    if (options.after) url.searchParams.set('after', options.after);
+
+    const headers: Record<string, string> = { 'User-Agent': 'RedditVideoBot/1.0' };
+    if (options.etag) headers['If-None-Match'] = options.etag;
+
+    const response = await fetch(url.toString(), { headers });
+
+    if (response.status === 304) {
+      return { subreddit, notModified: true, stories: [], etag: options.etag, after: options.after ?? null, postsSeen: 0, rejected: {} };
+    }
+    if (!response.ok) {
+      throw new Error(`r/${subreddit} returned ${response.status}`);
+    }
+
+    // 🔧 TYPESCRIPT FIX APPLIED - Proper type assertion
+    const data = await response.json() as RedditApiResponse;
+    const stories: RedditStory[] = [];
+    const rejected: Partial<Record<StoryFilterReason, number>> = {};
+    const scrapedAt = new Date().toISOString();
+
+    for (const post of data.data.children) {
+      const postData = post.data;
+
+      const reason = this.filterReason(postData, filters);
+      if (reason) {
+        rejected[reason] = (rejected[reason] || 0) + 1;
+        continue;
+      }
+
+      stories.push({
+        id: postData.id,
+        title: postData.title,
+        content: postData.selftext,
+        subreddit: postData.subreddit,
+        upvotes: postData.ups,
+        comments: postData.num_comments,
+        created_utc: postData.created_utc,
+        url: `https://reddit.com${postData.permalink}`,
+        viral_score: this.calculateViralScore(postData),
+        category,
+        estimated_duration: this.estimateDuration(postData.selftext),
+        author: postData.author,
+        permalink: postData.permalink,
+        scraped_at: scrapedAt
+      });
+    }
+
+    return {
+      subreddit,
+      notModified: false,
+      stories,
+      etag: response.headers.get('etag') || undefined,
+      after: data.data.after ?? null,
+      postsSeen: data.data.children.length,
+      rejected
+    };
+  }
+
+  private filterReason(
+    postData: RedditApiResponse['data']['children'][number]['data'],
+    filters: StoryFilterSettings
+  ): StoryFilterReason | null {
+    if (postData.stickied) return 'stickied';
+    if (postData.over_18) return 'nsfw';
+    if (postData.upvote_ratio < filters.minUpvoteRatio) return 'low_upvote_ratio';
+    if (postData.ups < filters.minUpvotes) return 'low_upvotes';
+    if (postData.selftext.length < filters.minLength) return 'too_short';
+    if (postData.selftext.length > filters.maxLength) return 'too_long';
+    if (containsWholeWord(postData.selftext, filters.bannedWords)) return 'banned_word';
+    if (classifyWithRules(`${postData.title}\n${postData.selftext}`, 'story').decision === 'block') return 'unsafe';
+    return null;
   }
 
   private calculateViralScore(postData: any): number {
@@ -81,7 +276,7 @@ export class RedditScraperService {
     const upvoteRate = postData.ups / Math.max(ageHours, 1);
     const commentRate = postData.num_comments / Math.max(ageHours, 1);
     const ratio = postData.upvote_ratio;
-    
+
     return (upvoteRate * 0.4 + commentRate * 0.3 + ratio * 100 * 0.3) / 10;
   }
 
@@ -89,14 +284,13 @@ export class RedditScraperService {
     const wordCount = content.split(' ').length;
     return Math.ceil((wordCount / 150) * 60);
   }
+}
 
-  private containsProblematicContent(text: string): boolean {
-    const bannedWords = [
-      'suicide', 'self-harm', 'rape', 'abuse', 'violence',
-      'drugs', 'illegal', 'racist', 'sexist'
-    ];
-    
-    const lowerText = text.toLowerCase();
-    return bannedWords.some(word => lowerText.includes(word));
+function addCounts(
+  into: Partial<Record<StoryFilterReason, number>>,
+  counts: Partial<Record<StoryFilterReason, number>>
+): void {
+  for (const [reason, count] of Object.entries(counts) as Array<[StoryFilterReason, number]>) {
+    if (count > 0) into[reason] = (into[reason] || 0) + count;
   }
-}
\ No newline at end of file
+}
@@ -5,9 +5,32 @@ import {
   ShotstackConfig, 
   VideoScript, 
   R2StorageFile, 
+  NarrationAudio,
   UsageTracking, 
-  APIResponse 
+  APIResponse,
+  AttributionSettings,
+  StorySource,
+  BackgroundSegment,
+  MusicBed
 } from '../types/reddit-automation'
+import { buildAttributionTrack, resolveAttributionSettings } from '../attribution/attribution'
+import { buildBackgroundTrack } from '../backgrounds/background-library'
+import { costLedger, fromUsageTracking } from '../usage/cost-ledger'
+import { groupCaptionCues } from '../captions/caption-cues'
+import { estimateWordTimings } from '../captions/caption-timing'
+import { buildCaptionTrack } from '../captions/caption-track'
+import { fetchAudioDuration } from '../narration/audio-duration'
+import { buildSoundtrackTrack } from '../music/soundtrack'
+import { estimateRenderCost } from '../workflows/shotstack-pipeline'
+
+// Structural subset of the Workers R2Bucket binding used to store finished renders
+export interface VideoBucketBinding {
+  put(
+    key: string,
+    value: ReadableStream | ArrayBuffer,
+    options?: { httpMetadata?: { contentType?: string }; customMetadata?: Record<string, string> }
+  ): Promise<{ key: string; size: number } | null>
+}
 
 export class ShotstackService {
   private apiKey: string
@@ -16,14 +39,21 @@ export class ShotstackService {
   private productionUrl = 'https://api.shotstack.io/v1'
 
   constructor(apiKey?: string, isProduction = false) {
-    // Server-side only - safe environment variable access
+    // Server-side only - safe environment variable access (no process.env in Pages Functions)
+    const env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {}
+
     if (isProduction) {
-      this.apiKey = apiKey || process.env.SHOTSTACK_PRODUCTION_API_KEY || '';
+      this.apiKey = apiKey || env.SHOTSTACK_PRODUCTION_API_KEY || '';
       this.baseUrl = this.productionUrl;
     } else {
-      this.apiKey = apiKey || process.env.SHOTSTACK_SANDBOX_API_KEY || '';
+      this.apiKey = apiKey || env.SHOTSTACK_SANDBOX_API_KEY || '';
       this.baseUrl = this.stagingUrl;
     }
+
+    // Point at a compatible local server (the fake in lib/mocks, or lib/render's ffmpeg renderer) for offline runs
+    if (env.SHOTSTACK_API_URL) {
+      this.baseUrl = env.SHOTSTACK_API_URL.replace(/\/$/, '')
+    }
     
     console.log('🔍 Shotstack Service (Server-side):', {
       isProduction,
@@ -37,11 +67,16 @@ export class ShotstackService {
    */
   async generateVideo(
     script: VideoScript,
-    audioFile: R2StorageFile,
+    audioFile: R2StorageFile | NarrationAudio, // NarrationAudio word timings drive the captions
     options: {
-      background: 'gradient' | 'stock' | 'animated'
+      background: 'gradient' | 'stock' | 'animated' | 'library'
+      backgroundSegments?: BackgroundSegment[] // For 'library': clips planned with planBackgroundSegments
       resolution: '1080x1920' | '1920x1080' | '1280x720'
       style: 'modern' | 'minimal' | 'dynamic'
+      callbackUrl?: string // From buildShotstackCallbackUrl - the webhook refuses callbacks without a workflow token
+      captionMaxWordsPerLine?: number
+      source?: StorySource // Credited in an overlay unless attribution is false
+      attribution?: Partial<AttributionSettings> | false
     }
   ): Promise<APIResponse<{ renderId: string; estimatedDuration: number }>> {
     const requestId = `shotstack_${Date.now()}`
@@ -57,7 +92,8 @@ export class ShotstackService {
           fps: 30,
           quality: 'high'
         },
-        merge: []
+        merge: [],
+        callback: options.callbackUrl
       }
 
       const response = await fetch(`${this.baseUrl}/render`, {
@@ -162,13 +198,13 @@ export class ShotstackService {
    */
   private buildVideoTimeline(
     script: VideoScript, 
-    audioFile: R2StorageFile,
+    audioFile: R2StorageFile | NarrationAudio,
     options: any
   ): any {
-    const totalDuration = script.estimatedDuration
+    const totalDuration = 'duration' in audioFile ? Math.ceil(audioFile.duration) : script.estimatedDuration
     
-    // Build text tracks for each script section
-    const textTracks = this.buildTextTracks(script, totalDuration)
+    // Captions follow the narration word by word
+    const captionTrack = this.buildScriptCaptionTrack(script, audioFile, totalDuration, options.captionMaxWordsPerLine)
     
     // Build background track
     const backgroundTrack = this.buildBackgroundTrack(totalDuration, options)
@@ -188,140 +224,48 @@ export class ShotstackService {
     return {
       background: '#000000',
       tracks: [
-        audioTrack,      // Track 0: Audio
-        backgroundTrack, // Track 1: Background
-        ...textTracks    // Track 2+: Text overlays
+        ...this.buildTextTracks(totalDuration, captionTrack, options.source, options.attribution), // Captions, credit (first track renders on top)
+        audioTrack,
+        backgroundTrack
       ]
     }
   }
 
   /**
-   * Build text overlay tracks for script sections
+   * Overlay tracks, top-first: captions, then the "r/subreddit • u/author"
+   * credit when the story's source is known
    */
-  private buildTextTracks(script: VideoScript, totalDuration: number): any[] {
-    const tracks = []
-    let currentTime = 0
-    
-    // Hook text (0-5 seconds)
-    const hookDuration = 5
-    tracks.push({
-      clips: [{
-        asset: {
-          type: 'title',
-          text: script.hook,
-          style: 'modern',
-          color: '#ffffff',
-          size: 'large',
-          background: 'transparent',
-          position: 'center'
-        },
-        start: currentTime,
-        length: hookDuration,
-        effect: 'zoomIn',
-        transition: {
-          in: 'fade',
-          out: 'fade'
-        }
-      }]
-    })
-    currentTime += hookDuration
-
-    // Introduction text (5-30 seconds)
-    const introDuration = 25
-    tracks.push({
-      clips: [{
-        asset: {
-          type: 'title',
-          text: this.splitText(script.introduction, 40), // Wrap long text
-          style: 'subtitle',
-          color: '#ffffff',
-          size: 'medium',
-          background: 'rgba(0,0,0,0.5)',
-          position: 'bottom'
-        },
-        start: currentTime,
-        length: introDuration,
-        transition: {
-          in: 'slideUp',
-          out: 'slideDown'
-        }
-      }]
-    })
-    currentTime += introDuration
-
-    // Main content sections
-    const remainingTime = totalDuration - currentTime - 40 // Leave 40s for conclusion + CTA
-    const sectionDuration = remainingTime / script.mainContent.length
-
-    script.mainContent.forEach((content, index) => {
-      tracks.push({
-        clips: [{
-          asset: {
-            type: 'title',
-            text: this.splitText(content, 50),
-            style: 'subtitle',
-            color: '#ffffff',
-            size: 'medium',
-            background: 'rgba(0,0,0,0.3)',
-            position: 'bottom'
-          },
-          start: currentTime,
-          length: sectionDuration,
-          transition: {
-            in: 'fade',
-            out: 'fade'
-          }
-        }]
-      })
-      currentTime += sectionDuration
-    })
-
-    // Conclusion (last 30 seconds)
-    tracks.push({
-      clips: [{
-        asset: {
-          type: 'title',
-          text: this.splitText(script.conclusion, 40),
-          style: 'modern',
-          color: '#ffffff',
-          size: 'large',
-          background: 'rgba(0,0,0,0.6)',
-          position: 'center'
-        },
-        start: currentTime,
-        length: 30,
-        transition: {
-          in: 'slideUp',
-          out: 'fade'
-        }
-      }]
-    })
-
-    // Call to action (last 10 seconds)
-    tracks.push({
-      clips: [{
-        asset: {
-          type: 'title',
-          text: script.callToAction,
-          style: 'modern',
-          color: '#ffff00',
-          size: 'large',
-          background: 'rgba(255,0,0,0.8)',
-          position: 'center'
-        },
-        start: totalDuration - 10,
-        length: 10,
-        effect: 'zoomIn',
-        transition: {
-          in: 'zoomIn',
-          out: 'fade'
-        }
-      }]
-    })
-
+  private buildTextTracks(
+    duration: number,
+    captionTrack: any | null,
+    source?: StorySource,
+    attribution?: Partial<AttributionSettings> | false
+  ): any[] {
+    const tracks = captionTrack ? [captionTrack] : []
+    const credit = source ? buildAttributionTrack(source, duration, resolveAttributionSettings(attribution)) : null
+    if (credit) tracks.push(credit)
     return tracks
   }
 
+  /**
+   * Caption track for a script. Uses the word timings that came with the
+   * audio, or estimates them over the narration when there are none.
+   */
+  private buildScriptCaptionTrack(
+    script: VideoScript,
+    audioFile: R2StorageFile | NarrationAudio,
+    totalDuration: number,
+    maxWordsPerLine?: number
+  ): any {
+    const words = 'words' in audioFile && audioFile.words.length > 0
+      ? audioFile.words
+      : estimateWordTimings(
+          [script.hook, script.introduction, ...script.mainContent, script.conclusion, script.callToAction].join(' '),
+          { durationSeconds: totalDuration }
+        )
+    return buildCaptionTrack(groupCaptionCues(words, { maxWordsPerLine }))
+  }
+
   /**
    * Build background video/image track
    */
@@ -329,6 +273,14 @@ export class ShotstackService {
     const clips = []
     
     switch (options.background) {
+      case 'library':
+        // Clips from the background library, already cut to the narration
+        if (!options.backgroundSegments?.length) {
+          throw new Error('The library background needs backgroundSegments (see planBackgroundSegments)')
+        }
+        return buildBackgroundTrack(options.backgroundSegments)
+
+
       case 'gradient':
         clips.push({
           asset: {
@@ -374,45 +326,22 @@ export class ShotstackService {
     return { clips }
   }
 
-  /**
-   * Split long text into multiple lines
-   */
-  private splitText(text: string, maxLength: number): string {
-    if (text.length <= maxLength) return text
-    
-    const words = text.split(' ')
-    const lines = []
-    let currentLine = ''
-    
-    for (const word of words) {
-      if ((currentLine + ' ' + word).length <= maxLength) {
-        currentLine += (currentLine ? ' ' : '') + word
-      } else {
-        if (currentLine) lines.push(currentLine)
-        currentLine = word
-      }
-    }
-    
-    if (currentLine) lines.push(currentLine)
-    
-    return lines.join('\n')
-  }
-
   /**
    * Calculate render cost based on duration
    */
   private calculateRenderCost(durationSeconds: number): number {
-    // Shotstack pricing: roughly $0.05 per minute
-    const minutes = Math.ceil(durationSeconds / 60)
-    return minutes * 0.05
+    return estimateRenderCost(durationSeconds)
   }
 
   /**
-   * Download completed video and store locally (Phase 1 implementation)
+   * Download completed video and store it. With an R2 bucket binding the MP4
+   * is copied into R2 (Shotstack URLs expire after 24h); without one this is
+   * the Phase 1 browser-local mock.
    */
   async downloadAndStoreVideo(
     downloadUrl: string, 
-    filename: string
+    filename: string,
+    bucket?: VideoBucketBinding
   ): Promise<APIResponse<R2StorageFile>> {
     const requestId = `shotstack_download_${Date.now()}`
     
@@ -423,6 +352,36 @@ export class ShotstackService {
         throw new Error('Failed to download video from Shotstack')
       }
 
+      if (bucket) {
+        // Stream straight through when the length is known, otherwise buffer
+        const body = videoResponse.headers.get('content-length') && videoResponse.body
+          ? videoResponse.body
+          : await videoResponse.arrayBuffer()
+
+        const key = `videos/${filename}`
+        const stored = await bucket.put(key, body, {
+          httpMetadata: { contentType: 'video/mp4' },
+          customMetadata: { source: downloadUrl }
+        })
+        if (!stored) {
+          throw new Error(`R2 rejected upload of ${key}`)
+        }
+
+        return {
+          success: true,
+          data: {
+            key,
+            url: `/api/videos/${filename}`, // Served by functions/api/videos/[name].js
+            bucket: 'R2_BUCKET',
+            size: stored.size,
+            contentType: 'video/mp4',
+            uploadedAt: new Date().toISOString()
+          },
+          requestId,
+          timestamp: new Date().toISOString()
+        }
+      }
+
       const videoBlob = await videoResponse.blob()
       
       // Phase 1: Create mock storage response
@@ -462,20 +421,10 @@ export class ShotstackService {
   }
 
   /**
-   * Log usage to local storage (Phase 1 implementation)
+   * Record usage in the shared cost ledger
    */
   private async logUsage(stats: UsageTracking): Promise<void> {
-    try {
-      if (typeof window !== 'undefined') {
-        const existingLogs = JSON.parse(localStorage.getItem('shotstack_usage_logs') || '[]')
-        existingLogs.push(stats)
-        localStorage.setItem('shotstack_usage_logs', JSON.stringify(existingLogs))
-      } else {
-        console.log('Shotstack usage:', stats)
-      }
-    } catch (error) {
-      console.error('Error logging Shotstack usage:', error)
-    }
+    await costLedger.record(fromUsageTracking(stats, 'ShotstackService'))
   }
 
   /**
@@ -492,6 +441,10 @@ export class ShotstackService {
     duration: number;
     startTime: number;
     addCaptions: boolean;
+    captionMaxWordsPerLine?: number;
+    source?: StorySource;
+    attribution?: Partial<AttributionSettings> | false;
+    music?: MusicBed; // Played under the voiceover, ducked while it speaks
   }): Promise<{
     videoUrl: string;
     audioUrl?: string;
@@ -534,7 +487,11 @@ export class ShotstackService {
         duration: config.duration,
         startTime: config.startTime,
         addCaptions: config.addCaptions,
-        captionText: config.enhancedText
+        captionText: config.enhancedText,
+        captionMaxWordsPerLine: config.captionMaxWordsPerLine,
+        source: config.source,
+        attribution: config.attribution,
+        music: config.music
       });
 
       // Step 4: Poll for render completion
@@ -545,6 +502,23 @@ export class ShotstackService {
       const shotstackCost = this.calculateRenderCost(config.duration);
       const elevenlabsCost = (config.enhancedText.length / 1000) * 0.018;
 
+      await costLedger.record({
+        service: 'shotstack',
+        operation: 'render_video',
+        source: 'ShotstackService',
+        cost: shotstackCost,
+        seconds: config.duration,
+        requestId: renderJob.id
+      });
+      await costLedger.record({
+        service: 'elevenlabs',
+        operation: 'text_to_speech',
+        source: 'ShotstackService',
+        cost: elevenlabsCost,
+        characters: config.enhancedText.length,
+        requestId: voiceoverAsset.id
+      });
+
       // Update daily usage tracking
       ShotstackService.dailyRenders++;
       ShotstackService.dailyCost += shotstackCost + elevenlabsCost;
@@ -600,8 +574,13 @@ export class ShotstackService {
     startTime: number;
     addCaptions: boolean;
     captionText: string;
+    captionMaxWordsPerLine?: number;
+    callbackUrl?: string;
+    source?: StorySource;
+    attribution?: Partial<AttributionSettings> | false;
+    music?: MusicBed;
   }): Promise<{ id: string }> {
-    const timeline = {
+    const timeline: { background: string; tracks: any[] } = {
       background: '#000000',
       tracks: [
         // Audio track
@@ -633,12 +612,16 @@ export class ShotstackService {
       ]
     };
 
-    // Add captions if requested
-    if (params.addCaptions) {
-      const captionClips = this.generateCaptionClips(params.captionText, params.duration);
-      timeline.tracks.push({
-        clips: captionClips
-      });
+    // Captions (if requested, timed to the voiceover) and the source credit go on top
+    const captionTrack = params.addCaptions
+      ? await this.generateCaptionTrack(params.captionText, params.audioUrl, params.duration, params.captionMaxWordsPerLine)
+      : null;
+    timeline.tracks.unshift(...this.buildTextTracks(params.duration, captionTrack, params.source, params.attribution));
+
+    if (params.music) {
+      // One voiceover clip from the start - duck the music until it ends
+      const voiceDuration = await fetchAudioDuration(params.audioUrl).catch(() => params.duration);
+      timeline.tracks.push(buildSoundtrackTrack(params.music, [{ start: 0, end: Math.min(voiceDuration, params.duration) }], params.duration));
     }
 
     const renderRequest = {
@@ -650,7 +633,8 @@ export class ShotstackService {
           width: 1080,
           height: 1920 // Vertical format for YouTube Shorts
         }
-      }
+      },
+      callback: params.callbackUrl
     };
 
     const response = await fetch(`${this.baseUrl}/render`, {
@@ -670,6 +654,19 @@ export class ShotstackService {
     return { id: data.response.id };
   }
 
+  /**
+   * Shotstack TTS returns no word timings, so spread the caption text over
+   * the measured voiceover (or the video length if it can't be measured)
+   */
+  private async generateCaptionTrack(text: string, audioUrl: string, duration: number, maxWordsPerLine?: number): Promise<any> {
+    const audioDuration = await fetchAudioDuration(audioUrl).catch(error => {
+      console.warn('⚠️ Could not measure voiceover, timing captions over the video length:', error);
+      return duration;
+    });
+    const words = estimateWordTimings(text, { durationSeconds: Math.min(audioDuration, duration) });
+    return buildCaptionTrack(groupCaptionCues(words.filter(word => word.start < duration), { maxWordsPerLine }));
+  }
+
   private async pollRenderCompletion(renderId: string): Promise<{ url: string }> {
     const maxAttempts = 120; // 10 minutes max
     let attempts = 0;
@@ -0,0 +1,134 @@
+// Local filesystem object storage for development and tests (Node only).
+// Objects are plain files under rootDir; content type and metadata live in
+// a parallel .meta tree so the object files stay byte-for-byte what was put.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  BufferedMultipartStorage,
+  digestHex,
+  ListObjectsOptions,
+  ListObjectsResult,
+  MIN_PART_SIZE,
+  ObjectInfo,
+  ObjectStorageError,
+  paginateKeys,
+  PutObjectOptions,
+  StoredObjectData
+} from './object-storage';
+
+const META_DIR = '.meta';
+
+interface ObjectMeta {
+  etag: string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+export class FileSystemObjectStorage extends BufferedMultipartStorage {
+  constructor(private rootDir: string = process.env.OBJECT_STORAGE_DIR || './output/object-storage', minPartSize: number = MIN_PART_SIZE) {
+    super(minPartSize);
+  }
+
+  async put(key: string, body: Uint8Array, options: PutObjectOptions = {}): Promise<ObjectInfo> {
+    const filePath = this.pathFor(key);
+    const meta: ObjectMeta = { etag: `"${await digestHex(body)}"`, contentType: options.contentType, metadata: options.metadata };
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.mkdir(path.dirname(this.metaPathFor(key)), { recursive: true });
+
+    // Write to a temp file and rename so readers never see a partial object
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, body);
+    await fs.writeFile(this.metaPathFor(key), JSON.stringify(meta));
+    await fs.rename(tempPath, filePath);
+
+    return (await this.head(key))!;
+  }
+
+  async get(key: string): Promise<StoredObjectData | null> {
+    const info = await this.head(key);
+    if (!info) return null;
+    return { ...info, body: new Uint8Array(await fs.readFile(this.pathFor(key))) };
+  }
+
+  async head(key: string): Promise<ObjectInfo | null> {
+    try {
+      const stat = await fs.stat(this.pathFor(key));
+      const meta = await this.readMeta(key, stat.size);
+      return {
+        key,
+        size: stat.size,
+        etag: meta.etag,
+        lastModified: stat.mtime.toISOString(),
+        contentType: meta.contentType,
+        metadata: meta.metadata
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.pathFor(key)).catch(ignoreMissing);
+    await fs.unlink(this.metaPathFor(key)).catch(ignoreMissing);
+  }
+
+  async list(options: ListObjectsOptions = {}): Promise<ListObjectsResult> {
+    const keys = (await this.walk(this.rootDir)).sort();
+    const infos = new Map<string, ObjectInfo>();
+    for (const key of keys) {
+      const info = await this.head(key);
+      if (info) infos.set(key, info);
+    }
+    return paginateKeys(Array.from(infos.keys()), options, key => infos.get(key)!);
+  }
+
+  private async walk(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(error => {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    });
+
+    const keys: string[] = [];
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (dir === this.rootDir && entry.name === META_DIR) continue;
+        keys.push(...(await this.walk(fullPath)));
+      } else if (!entry.name.endsWith('.tmp')) {
+        keys.push(path.relative(this.rootDir, fullPath).split(path.sep).join('/'));
+      }
+    }
+    return keys;
+  }
+
+  private async readMeta(key: string, size: number): Promise<ObjectMeta> {
+    try {
+      return JSON.parse(await fs.readFile(this.metaPathFor(key), 'utf8'));
+    } catch (error: any) {
+      // Files copied in by hand have no sidecar
+      if (error.code === 'ENOENT') return { etag: `"${size}"` };
+      throw error;
+    }
+  }
+
+  private pathFor(key: string): string {
+    const resolved = path.resolve(this.rootDir, key);
+    if (!resolved.startsWith(path.resolve(this.rootDir) + path.sep) || key.split('/')[0] === META_DIR) {
+      throw new ObjectStorageError(`Invalid object key: ${key}`, 400, 'InvalidKey');
+    }
+    return resolved;
+  }
+
+  private metaPathFor(key: string): string {
+    return path.join(path.resolve(this.rootDir), META_DIR, `${key}.json`);
+  }
+}
+
+function ignoreMissing(error: any): void {
+  if (error.code !== 'ENOENT') throw error;
+}
+
+export default FileSystemObjectStorage;
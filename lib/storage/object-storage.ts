@@ -0,0 +1,224 @@
+// Object Storage
+// Binary object storage behind R2StorageService: the S3/SigV4 backend for
+// R2 (s3-object-storage.ts), and in-memory and filesystem backends with the
+// same semantics - including multipart uploads - for offline runs and tests.
+
+export class ObjectStorageError extends Error {
+  constructor(message: string, public readonly status: number = 500, public readonly code?: string) {
+    super(message);
+    this.name = 'ObjectStorageError';
+  }
+}
+
+export interface ObjectInfo {
+  key: string;
+  size: number;
+  etag: string;
+  lastModified: string; // ISO timestamp
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StoredObjectData extends ObjectInfo {
+  body: Uint8Array;
+}
+
+export interface PutObjectOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface ListObjectsOptions {
+  prefix?: string;
+  limit?: number;
+  cursor?: string; // From a previous ListObjectsResult
+}
+
+export interface ListObjectsResult {
+  objects: ObjectInfo[];
+  cursor?: string; // Set when there are more objects
+}
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface ObjectStorage {
+  put(key: string, body: Uint8Array, options?: PutObjectOptions): Promise<ObjectInfo>;
+  get(key: string): Promise<StoredObjectData | null>;
+  head(key: string): Promise<ObjectInfo | null>;
+  delete(key: string): Promise<void>;
+  list(options?: ListObjectsOptions): Promise<ListObjectsResult>;
+
+  // Multipart upload: parts (1-10000, at least 5 MiB except the last) are
+  // stitched together in part order by complete
+  createMultipartUpload(key: string, options?: PutObjectOptions): Promise<string>;
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Uint8Array): Promise<string>;
+  completeMultipartUpload(key: string, uploadId: string, parts: CompletedPart[]): Promise<ObjectInfo>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+
+  // Time-limited GET URL; only backends reachable over HTTP can issue one
+  presignGet?(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+export const MIN_PART_SIZE = 5 * 1024 * 1024;
+export const MAX_PARTS = 10000;
+
+interface PendingUpload {
+  key: string;
+  options: PutObjectOptions;
+  parts: Map<number, { body: Uint8Array; etag: string }>;
+}
+
+/**
+ * Multipart bookkeeping shared by the local backends: parts are held until
+ * the upload completes, then written as one object.
+ */
+export abstract class BufferedMultipartStorage implements ObjectStorage {
+  private uploads = new Map<string, PendingUpload>();
+
+  constructor(protected minPartSize: number = MIN_PART_SIZE) {}
+
+  abstract put(key: string, body: Uint8Array, options?: PutObjectOptions): Promise<ObjectInfo>;
+  abstract get(key: string): Promise<StoredObjectData | null>;
+  abstract head(key: string): Promise<ObjectInfo | null>;
+  abstract delete(key: string): Promise<void>;
+  abstract list(options?: ListObjectsOptions): Promise<ListObjectsResult>;
+
+  async createMultipartUpload(key: string, options: PutObjectOptions = {}): Promise<string> {
+    const uploadId = `upload_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.uploads.set(uploadId, { key, options, parts: new Map() });
+    return uploadId;
+  }
+
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Uint8Array): Promise<string> {
+    const upload = this.requireUpload(key, uploadId);
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PARTS) {
+      throw new ObjectStorageError(`Invalid part number ${partNumber}`, 400, 'InvalidArgument');
+    }
+    const etag = `"${await digestHex(body)}"`;
+    upload.parts.set(partNumber, { body: body.slice(), etag });
+    return etag;
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: CompletedPart[]): Promise<ObjectInfo> {
+    const upload = this.requireUpload(key, uploadId);
+    if (parts.length === 0) {
+      throw new ObjectStorageError('Multipart upload has no parts', 400, 'MalformedXML');
+    }
+
+    const bodies = parts.map((part, i) => {
+      const stored = upload.parts.get(part.partNumber);
+      if (!stored || stored.etag !== normalizeEtag(part.etag)) {
+        throw new ObjectStorageError(`Part ${part.partNumber} was not uploaded or its ETag does not match`, 400, 'InvalidPart');
+      }
+      if (i > 0 && part.partNumber <= parts[i - 1].partNumber) {
+        throw new ObjectStorageError('Parts must be listed in ascending order', 400, 'InvalidPartOrder');
+      }
+      if (i < parts.length - 1 && stored.body.length < this.minPartSize) {
+        throw new ObjectStorageError(`Part ${part.partNumber} is smaller than ${this.minPartSize} bytes`, 400, 'EntityTooSmall');
+      }
+      return stored.body;
+    });
+
+    const info = await this.put(key, concatBytes(bodies), upload.options);
+    this.uploads.delete(uploadId);
+    return info;
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    this.requireUpload(key, uploadId);
+    this.uploads.delete(uploadId);
+  }
+
+  private requireUpload(key: string, uploadId: string): PendingUpload {
+    const upload = this.uploads.get(uploadId);
+    if (!upload || upload.key !== key) {
+      throw new ObjectStorageError(`No multipart upload ${uploadId} for ${key}`, 404, 'NoSuchUpload');
+    }
+    return upload;
+  }
+}
+
+/**
+ * In-memory backend for tests
+ */
+export class MemoryObjectStorage extends BufferedMultipartStorage {
+  private objects = new Map<string, StoredObjectData>();
+
+  async put(key: string, body: Uint8Array, options: PutObjectOptions = {}): Promise<ObjectInfo> {
+    const object: StoredObjectData = {
+      key,
+      body: body.slice(),
+      size: body.length,
+      etag: `"${await digestHex(body)}"`,
+      lastModified: new Date().toISOString(),
+      contentType: options.contentType,
+      metadata: options.metadata
+    };
+    this.objects.set(key, object);
+    return toInfo(object);
+  }
+
+  async get(key: string): Promise<StoredObjectData | null> {
+    const object = this.objects.get(key);
+    return object ? { ...object, body: object.body.slice() } : null;
+  }
+
+  async head(key: string): Promise<ObjectInfo | null> {
+    const object = this.objects.get(key);
+    return object ? toInfo(object) : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  async list(options: ListObjectsOptions = {}): Promise<ListObjectsResult> {
+    const keys = Array.from(this.objects.keys()).sort();
+    return paginateKeys(keys, options, key => toInfo(this.objects.get(key)!));
+  }
+}
+
+/**
+ * One page of sorted keys. The cursor is the last key returned.
+ */
+export function paginateKeys(
+  sortedKeys: string[],
+  options: ListObjectsOptions,
+  toObject: (key: string) => ObjectInfo
+): ListObjectsResult {
+  const limit = Math.max(1, Math.min(1000, options.limit ?? 1000));
+  const matching = sortedKeys.filter(key => key.startsWith(options.prefix || '') && (!options.cursor || key > options.cursor));
+  const page = matching.slice(0, limit);
+  return {
+    objects: page.map(toObject),
+    cursor: matching.length > limit ? page[page.length - 1] : undefined
+  };
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined;
+}
+
+export function normalizeEtag(etag: string): string {
+  return etag.startsWith('"') ? etag : `"${etag}"`;
+}
+
+// Content hash used as the ETag by the local backends
+export async function digestHex(body: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', body);
+  return Array.from(new Uint8Array(digest).subarray(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toInfo(object: StoredObjectData): ObjectInfo {
+  const { body, ...info } = object;
+  return info;
+}
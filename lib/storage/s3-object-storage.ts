@@ -0,0 +1,247 @@
+// S3 Object Storage
+// ObjectStorage over an S3-compatible API signed with SigV4 - R2's
+// https://<account>.r2.cloudflarestorage.com endpoint in production, or the
+// local stand-in in lib/mocks/fake-s3.ts. Path-style URLs: /<bucket>/<key>.
+
+import {
+  CompletedPart,
+  ListObjectsOptions,
+  ListObjectsResult,
+  ObjectInfo,
+  ObjectStorage,
+  ObjectStorageError,
+  PutObjectOptions,
+  StoredObjectData
+} from './object-storage';
+import { EMPTY_PAYLOAD_HASH, presignUrl, sha256Hex, signRequest, SigV4Credentials, uriEncode } from './sigv4';
+
+export interface S3ObjectStorageConfig {
+  endpoint: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region?: string; // 'auto' for R2
+}
+
+export class S3ObjectStorage implements ObjectStorage {
+  private endpoint: string;
+  private credentials: SigV4Credentials;
+
+  constructor(private config: S3ObjectStorageConfig) {
+    this.endpoint = config.endpoint.replace(/\/$/, '');
+    this.credentials = {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      region: config.region || 'auto',
+      service: 's3'
+    };
+  }
+
+  async put(key: string, body: Uint8Array, options: PutObjectOptions = {}): Promise<ObjectInfo> {
+    const response = await this.send('PUT', key, { body, headers: objectHeaders(options) });
+    return {
+      key,
+      size: body.length,
+      etag: response.headers.get('etag') || '',
+      lastModified: new Date().toISOString(),
+      contentType: options.contentType,
+      metadata: options.metadata
+    };
+  }
+
+  async get(key: string): Promise<StoredObjectData | null> {
+    const response = await this.send('GET', key, { allowNotFound: true });
+    if (response.status === 404) return null;
+    const body = new Uint8Array(await response.arrayBuffer());
+    return { ...infoFromHeaders(key, response.headers, body.length), body };
+  }
+
+  async head(key: string): Promise<ObjectInfo | null> {
+    const response = await this.send('HEAD', key, { allowNotFound: true });
+    if (response.status === 404) return null;
+    return infoFromHeaders(key, response.headers, Number(response.headers.get('content-length') || 0));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.send('DELETE', key);
+  }
+
+  async list(options: ListObjectsOptions = {}): Promise<ListObjectsResult> {
+    const query: Record<string, string> = { 'list-type': '2', 'max-keys': String(Math.max(1, Math.min(1000, options.limit ?? 1000))) };
+    if (options.prefix) query.prefix = options.prefix;
+    if (options.cursor) query['continuation-token'] = options.cursor;
+
+    const xml = await (await this.send('GET', null, { query })).text();
+    return {
+      objects: xmlBlocks(xml, 'Contents').map(block => ({
+        key: xmlValue(block, 'Key') || '',
+        size: Number(xmlValue(block, 'Size') || 0),
+        etag: xmlValue(block, 'ETag') || '',
+        lastModified: xmlValue(block, 'LastModified') || ''
+      })),
+      cursor: xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') || undefined : undefined
+    };
+  }
+
+  async createMultipartUpload(key: string, options: PutObjectOptions = {}): Promise<string> {
+    const xml = await (await this.send('POST', key, { query: { uploads: '' }, headers: objectHeaders(options) })).text();
+    const uploadId = xmlValue(xml, 'UploadId');
+    if (!uploadId) {
+      throw new ObjectStorageError(`No UploadId in CreateMultipartUpload response: ${xml}`, 502);
+    }
+    return uploadId;
+  }
+
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Uint8Array): Promise<string> {
+    const response = await this.send('PUT', key, { query: { partNumber: String(partNumber), uploadId }, body });
+    const etag = response.headers.get('etag');
+    if (!etag) {
+      throw new ObjectStorageError(`No ETag for part ${partNumber} of ${key}`, 502);
+    }
+    return etag;
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: CompletedPart[]): Promise<ObjectInfo> {
+    const body = new TextEncoder().encode(
+      '<CompleteMultipartUpload>' +
+      parts.map(part => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${escapeXml(part.etag)}</ETag></Part>`).join('') +
+      '</CompleteMultipartUpload>'
+    );
+    const xml = await (await this.send('POST', key, { query: { uploadId }, body, headers: { 'content-type': 'application/xml' } })).text();
+
+    // S3 can report a failed completion inside a 200 response
+    if (/<Error>/.test(xml)) {
+      throw new ObjectStorageError(xmlValue(xml, 'Message') || 'CompleteMultipartUpload failed', 502, xmlValue(xml, 'Code') || undefined);
+    }
+
+    const info = await this.head(key);
+    if (!info) {
+      throw new ObjectStorageError(`${key} missing after completing multipart upload`, 502);
+    }
+    return info;
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.send('DELETE', key, { query: { uploadId } });
+  }
+
+  presignGet(key: string, expiresInSeconds: number): Promise<string> {
+    return this.presign('GET', key, expiresInSeconds);
+  }
+
+  /**
+   * Presigned URL for a direct browser GET or PUT of one object
+   */
+  presign(method: 'GET' | 'PUT', key: string, expiresInSeconds: number): Promise<string> {
+    return presignUrl(method, this.urlFor(key), this.credentials, expiresInSeconds);
+  }
+
+  objectUrl(key: string): string {
+    return this.urlFor(key).toString();
+  }
+
+  private urlFor(key: string | null, query: Record<string, string> = {}): URL {
+    const url = new URL(`${this.endpoint}/${this.config.bucket}${key === null ? '' : `/${uriEncode(key, true)}`}`);
+    for (const [name, value] of Object.entries(query)) url.searchParams.set(name, value);
+    return url;
+  }
+
+  private async send(
+    method: 'GET' | 'HEAD' | 'PUT' | 'POST' | 'DELETE',
+    key: string | null,
+    options: { query?: Record<string, string>; headers?: Record<string, string>; body?: Uint8Array; allowNotFound?: boolean } = {}
+  ): Promise<Response> {
+    const url = this.urlFor(key, options.query);
+    const headers = await signRequest(
+      {
+        method,
+        url,
+        headers: options.headers || {},
+        payloadHash: options.body ? await sha256Hex(options.body) : EMPTY_PAYLOAD_HASH
+      },
+      this.credentials
+    );
+    // Host is set by fetch itself
+    delete headers.host;
+
+    const response = await fetch(url.toString(), { method, headers, body: options.body });
+    if (response.ok || (options.allowNotFound && response.status === 404)) {
+      return response;
+    }
+
+    const text = method === 'HEAD' ? '' : await response.text();
+    throw new ObjectStorageError(
+      `${method} ${key ?? this.config.bucket} failed: ${response.status} ${xmlValue(text, 'Message') || response.statusText}`,
+      response.status,
+      xmlValue(text, 'Code') || undefined
+    );
+  }
+}
+
+/**
+ * R2 backend from Pages Functions / Node environment variables, or null
+ * when the S3 API credentials aren't configured
+ */
+export function createR2ObjectStorage(env: {
+  CLOUDFLARE_ACCOUNT_ID?: string;
+  R2_ACCESS_KEY_ID?: string;
+  R2_SECRET_ACCESS_KEY?: string;
+  R2_BUCKET_NAME?: string;
+  R2_ENDPOINT?: string; // Override, e.g. the local fake
+}): S3ObjectStorage | null {
+  if (!env.R2_ACCESS_KEY_ID || !env.R2_SECRET_ACCESS_KEY || !(env.CLOUDFLARE_ACCOUNT_ID || env.R2_ENDPOINT)) {
+    return null;
+  }
+  return new S3ObjectStorage({
+    endpoint: env.R2_ENDPOINT || `https://${env.CLOUDFLARE_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+    bucket: env.R2_BUCKET_NAME || 'ghosttrace-output',
+    accessKeyId: env.R2_ACCESS_KEY_ID,
+    secretAccessKey: env.R2_SECRET_ACCESS_KEY
+  });
+}
+
+function objectHeaders(options: PutObjectOptions): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (options.contentType) headers['content-type'] = options.contentType;
+  for (const [name, value] of Object.entries(options.metadata || {})) {
+    headers[`x-amz-meta-${name.toLowerCase()}`] = value;
+  }
+  return headers;
+}
+
+function infoFromHeaders(key: string, headers: Headers, size: number): ObjectInfo {
+  const metadata: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (name.startsWith('x-amz-meta-')) metadata[name.slice('x-amz-meta-'.length)] = value;
+  });
+  return {
+    key,
+    size,
+    etag: headers.get('etag') || '',
+    lastModified: new Date(headers.get('last-modified') || Date.now()).toISOString(),
+    contentType: headers.get('content-type') || undefined,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+  };
+}
+
+function xmlBlocks(xml: string, tag: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g')), match => match[1]);
+}
+
+function xmlValue(xml: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match ? unescapeXml(match[1]) : null;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,163 @@
+// AWS Signature Version 4
+// Signs requests to R2's S3-compatible API (region 'auto', service 's3').
+// Uses Web Crypto so it runs in Pages Functions as well as Node.
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string; // 'auto' for R2
+  service?: string; // Defaults to 's3'
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>; // Every header given here is signed
+  payloadHash: string; // Hex SHA-256 of the body, or UNSIGNED_PAYLOAD
+}
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+export const EMPTY_PAYLOAD_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+/**
+ * Headers for a signed request: the given headers plus host, x-amz-date,
+ * x-amz-content-sha256 and Authorization
+ */
+export async function signRequest(
+  request: SignableRequest,
+  credentials: SigV4Credentials,
+  date: Date = new Date()
+): Promise<Record<string, string>> {
+  const amzDate = toAmzDate(date);
+  const headers: Record<string, string> = {
+    ...lowercaseKeys(request.headers),
+    host: request.url.host,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash
+  };
+
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri(request.url),
+    canonicalQuery(request.url.searchParams),
+    signedHeaders.map(name => `${name}:${headers[name].trim().replace(/\s+/g, ' ')}\n`).join(''),
+    signedHeaders.join(';'),
+    request.payloadHash
+  ].join('\n');
+
+  const scope = credentialScope(amzDate, credentials);
+  const signature = await sign(credentials, amzDate, `${ALGORITHM}\n${amzDate}\n${scope}\n${await sha256Hex(canonicalRequest)}`);
+
+  return {
+    ...headers,
+    authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+  };
+}
+
+/**
+ * Presigned URL (query-string auth) - only the host header is signed and the
+ * payload is left unsigned, so any client can use it until it expires
+ */
+export async function presignUrl(
+  method: string,
+  url: URL,
+  credentials: SigV4Credentials,
+  expiresInSeconds: number,
+  date: Date = new Date()
+): Promise<string> {
+  const amzDate = toAmzDate(date);
+  const scope = credentialScope(amzDate, credentials);
+  const signed = new URL(url.toString());
+  signed.searchParams.set('X-Amz-Algorithm', ALGORITHM);
+  signed.searchParams.set('X-Amz-Credential', `${credentials.accessKeyId}/${scope}`);
+  signed.searchParams.set('X-Amz-Date', amzDate);
+  signed.searchParams.set('X-Amz-Expires', String(Math.max(1, Math.min(604800, Math.floor(expiresInSeconds)))));
+  signed.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+  const canonicalRequest = [
+    method.toUpperCase(),
+    canonicalUri(signed),
+    canonicalQuery(signed.searchParams),
+    `host:${signed.host}\n`,
+    'host',
+    UNSIGNED_PAYLOAD
+  ].join('\n');
+
+  const signature = await sign(credentials, amzDate, `${ALGORITHM}\n${amzDate}\n${scope}\n${await sha256Hex(canonicalRequest)}`);
+  signed.searchParams.set('X-Amz-Signature', signature);
+  return signed.toString();
+}
+
+export async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+/**
+ * YYYYMMDDTHHMMSSZ
+ */
+export function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+export function parseAmzDate(amzDate: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(amzDate);
+  if (!match) throw new Error(`Invalid x-amz-date: ${amzDate}`);
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+}
+
+/**
+ * RFC 3986 encoding, as S3 expects ('/' kept in paths)
+ */
+export function uriEncode(value: string, keepSlash: boolean = false): string {
+  const encoded = encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return keepSlash ? encoded.replace(/%2F/g, '/') : encoded;
+}
+
+function canonicalUri(url: URL): string {
+  // S3 signs the path as sent, without normalizing or double-encoding it
+  return url.pathname
+    .split('/')
+    .map(segment => uriEncode(decodeURIComponent(segment)))
+    .join('/') || '/';
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return Array.from(params.entries())
+    .filter(([name]) => name !== 'X-Amz-Signature')
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a, av], [b, bv]) => (a < b ? -1 : a > b ? 1 : av < bv ? -1 : av > bv ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+}
+
+function credentialScope(amzDate: string, credentials: SigV4Credentials): string {
+  return `${amzDate.slice(0, 8)}/${credentials.region}/${credentials.service || 's3'}/aws4_request`;
+}
+
+async function sign(credentials: SigV4Credentials, amzDate: string, stringToSign: string): Promise<string> {
+  let key: ArrayBuffer = new TextEncoder().encode(`AWS4${credentials.secretAccessKey}`).buffer as ArrayBuffer;
+  for (const part of [amzDate.slice(0, 8), credentials.region, credentials.service || 's3', 'aws4_request']) {
+    key = await hmac(key, part);
+  }
+  return toHex(await hmac(key, stringToSign));
+}
+
+async function hmac(key: ArrayBuffer, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function lowercaseKeys(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) result[name.toLowerCase()] = value;
+  return result;
+}
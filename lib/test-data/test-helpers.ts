@@ -0,0 +1,126 @@
+/**
+ * Test Helpers
+ * Shared by the root test_*.ts scripts: pass/fail reporting, and the
+ * fixtures several scripts build (a Reddit story, an in-memory R2 bucket,
+ * a WAV file).
+ */
+
+import { RedditStory } from '../types/reddit-automation';
+
+export interface TestReport {
+  /** Print one result; a failure makes finish() exit non-zero */
+  check(ok: boolean, message: string): boolean;
+  readonly passed: boolean;
+  /** Print the outcome, and exit with status 1 if any check failed */
+  finish(success: string, failure: string): void;
+}
+
+export function createTestReport(): TestReport {
+  let passed = true;
+
+  return {
+    check(ok: boolean, message: string): boolean {
+      console.log(`${ok ? '✅' : '❌'} ${message}`);
+      if (!ok) passed = false;
+      return ok;
+    },
+    get passed() {
+      return passed;
+    },
+    finish(success: string, failure: string): void {
+      console.log(passed ? `🎉 ${success}` : `❌ ${failure}`);
+      if (!passed) process.exit(1);
+    }
+  };
+}
+
+/**
+ * Whether `action` throws (or rejects with) an `errorType`, optionally with
+ * this HTTP status and mentioning some text
+ */
+export async function rejectsWith(
+  action: () => unknown,
+  errorType: new (...args: never[]) => Error,
+  status?: number,
+  mentioning?: string
+): Promise<boolean> {
+  try {
+    await action();
+    return false;
+  } catch (error) {
+    return error instanceof errorType
+      && (status === undefined || (error as Error & { status?: number }).status === status)
+      && (!mentioning || error.message.includes(mentioning));
+  }
+}
+
+/**
+ * A scraped story; the URL follows the id and subreddit
+ */
+export function buildStory(overrides: Partial<RedditStory> & Pick<RedditStory, 'id'>): RedditStory {
+  const subreddit = overrides.subreddit || 'AmItheAsshole';
+  return {
+    title: `Story ${overrides.id}`,
+    content: 'So this happened last week. My neighbour knocked on the door holding my cat. Turns out the cat had a second family.',
+    subreddit,
+    upvotes: 1200,
+    comments: 300,
+    created_utc: Date.now() / 1000,
+    url: `https://reddit.com/r/${subreddit}/comments/${overrides.id}`,
+    viral_score: 80,
+    category: 'drama',
+    estimated_duration: 60,
+    ...overrides
+  };
+}
+
+export interface MemoryBucketObject {
+  size: number;
+  contentType?: string;
+}
+
+/**
+ * Stand-in for an R2 bucket binding that keeps each object's size and
+ * content type. Satisfies the video, background, music and caption bucket
+ * bindings.
+ */
+export function createMemoryBucket() {
+  const objects = new Map<string, MemoryBucketObject>();
+  return {
+    objects,
+    async put(
+      key: string,
+      value: string | ArrayBuffer | Uint8Array | ReadableStream,
+      options?: { httpMetadata?: { contentType?: string } }
+    ): Promise<{ key: string; size: number }> {
+      const size = (await new Response(value).arrayBuffer()).byteLength;
+      objects.set(key, { size, contentType: options?.httpMetadata?.contentType });
+      return { key, size };
+    },
+    async delete(key: string): Promise<void> {
+      objects.delete(key);
+    }
+  };
+}
+
+/**
+ * Silent 8-bit mono PCM WAV
+ */
+export function buildWav(seconds: number, sampleRate: number = 8000): Uint8Array {
+  const dataSize = Math.round(seconds * sampleRate);
+  const bytes = new Uint8Array(44 + dataSize).fill(128, 44);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode('RIFF'), 0);
+  view.setUint32(4, 36 + dataSize, true);
+  bytes.set(new TextEncoder().encode('WAVEfmt '), 8);
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true); // Byte rate
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  bytes.set(new TextEncoder().encode('data'), 36);
+  view.setUint32(40, dataSize, true);
+  return bytes;
+}
@@ -0,0 +1,103 @@
+// ElevenLabs TTS Provider
+// Uses the /with-timestamps endpoint so every chunk comes back with the
+// character alignment captions are timed from. Each billed chunk is recorded
+// in the cost ledger here, so callers (the video workflow, ElevenLabsService)
+// never record it themselves.
+
+import type { ElevenLabsConfig } from '../types/reddit-automation';
+import { CharacterAlignment, wordsFromAlignment } from '../captions/caption-timing';
+import { ELEVENLABS_TTS_MAX_CHARS } from '../narration/text-chunker';
+import { costLedger } from '../usage/cost-ledger';
+import { estimateSpeechCost, resolveVoice, SpeechRequest, SpeechResult, TTSCapabilities, TTSProvider, TTSProviderError } from './tts-provider';
+
+// Premade voices (the supplement personas in lib/modules/elevenlabs-voice-generator.ts use these)
+export const ELEVENLABS_VOICES = [
+  { id: 'EXAVITQu4vr4xnSDxMaL', name: 'Sarah - Warm US English Female', language: 'en-US', gender: 'female' as const },
+  { id: 'pNInz6obpgDQGcFmaJgB', name: 'Adam - Authoritative US English Male', language: 'en-US', gender: 'male' as const },
+  { id: '21m00Tcm4TlvDq8ikWAM', name: 'Rachel - Young US English Female', language: 'en-US', gender: 'female' as const },
+  { id: 'CYw3kZ02Hs0563khs1Fj', name: 'Dave - Mature British English Male', language: 'en-GB', gender: 'male' as const },
+  { id: 'onwK4e9ZLuTAKqWW03F9', name: 'Daniel - Urgent British English Male', language: 'en-GB', gender: 'male' as const }
+];
+
+export const DEFAULT_ELEVENLABS_CONFIG: ElevenLabsConfig = {
+  voiceId: 'pNInz6obpgDQGcFmaJgB',
+  modelId: 'eleven_multilingual_v2',
+  stability: 0.6,
+  similarityBoost: 0.8,
+  style: 0.5,
+  useSpeakerBoost: true
+};
+
+export class ElevenLabsTTSProvider implements TTSProvider {
+  readonly name = 'elevenlabs' as const;
+  readonly capabilities: TTSCapabilities;
+  private config: ElevenLabsConfig;
+
+  constructor(private apiKey: string, config: Partial<ElevenLabsConfig> = {}, private baseUrl: string = 'https://api.elevenlabs.io/v1') {
+    this.config = { ...DEFAULT_ELEVENLABS_CONFIG, ...config };
+    this.capabilities = {
+      maxChars: ELEVENLABS_TTS_MAX_CHARS,
+      voices: ELEVENLABS_VOICES,
+      defaultVoice: this.config.voiceId,
+      customVoices: true,
+      alignment: true,
+      costPerChar: 0.0002, // Roughly $0.0002 per character for standard voices
+      async: false
+    };
+  }
+
+  async synthesize(request: SpeechRequest): Promise<SpeechResult> {
+    const voiceId = resolveVoice(this.capabilities, request.voiceId);
+    const response = await fetch(`${this.baseUrl}/text-to-speech/${voiceId}/with-timestamps`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'xi-api-key': this.apiKey
+      },
+      body: JSON.stringify({
+        text: request.text,
+        previous_text: request.previousText,
+        next_text: request.nextText,
+        model_id: this.config.modelId,
+        voice_settings: {
+          stability: this.config.stability,
+          similarity_boost: this.config.similarityBoost,
+          style: this.config.style,
+          use_speaker_boost: this.config.useSpeakerBoost
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new TTSProviderError(`ElevenLabs API error: ${response.status} ${response.statusText}`, response.status === 401 ? 401 : 502);
+    }
+
+    const { audio_base64, alignment } = await response.json() as { audio_base64: string; alignment?: CharacterAlignment | null };
+    await costLedger.record({
+      service: 'elevenlabs',
+      operation: 'text_to_speech',
+      source: 'ElevenLabsTTSProvider',
+      cost: estimateSpeechCost(this.capabilities, request.text.length),
+      characters: request.text.length,
+      model: this.config.modelId,
+      requestId: response.headers.get('request-id') || undefined,
+      metadata: { voiceId }
+    });
+    return {
+      audio: decodeBase64(audio_base64),
+      contentType: 'audio/mpeg',
+      words: alignment?.characters?.length ? wordsFromAlignment(alignment) : undefined
+    };
+  }
+}
+
+// The /with-timestamps endpoint returns the MP3 base64-encoded in JSON
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,86 @@
+// Local TTS Provider
+// Deterministic offline stand-in for tests and local runs: writes a WAV of
+// the length the text would take to read (silent, or a short beep at the
+// start of every word) and returns the word timings it used, so captions
+// and narration layout can be checked without calling a paid API.
+
+import { DEFAULT_WORDS_PER_SECOND, estimateWordTimings } from '../captions/caption-timing';
+import { resolveVoice, SpeechRequest, SpeechResult, TTSCapabilities, TTSProvider } from './tts-provider';
+
+export interface LocalTTSOptions {
+  wordsPerSecond?: number;
+  sampleRate?: number;
+}
+
+const BEEP_SECONDS = 0.08;
+const BEEP_HZ = 880;
+
+export class LocalTTSProvider implements TTSProvider {
+  readonly name = 'local' as const;
+  readonly capabilities: TTSCapabilities = {
+    maxChars: 5000,
+    voices: [
+      { id: 'beep', name: 'Beep per word', language: 'en-US' },
+      { id: 'silent', name: 'Silence', language: 'en-US' }
+    ],
+    defaultVoice: 'beep',
+    customVoices: false,
+    alignment: true,
+    costPerChar: 0,
+    async: false
+  };
+  private wordsPerSecond: number;
+  private sampleRate: number;
+
+  constructor(options: LocalTTSOptions = {}) {
+    this.wordsPerSecond = options.wordsPerSecond ?? DEFAULT_WORDS_PER_SECOND;
+    this.sampleRate = options.sampleRate ?? 16000;
+  }
+
+  async synthesize(request: SpeechRequest): Promise<SpeechResult> {
+    const voice = resolveVoice(this.capabilities, request.voiceId);
+    const words = estimateWordTimings(request.text, { wordsPerSecond: this.wordsPerSecond });
+    const seconds = words.length > 0 ? words[words.length - 1].end : 0.5;
+
+    const samples = new Int16Array(Math.round(seconds * this.sampleRate));
+    if (voice === 'beep') {
+      for (const word of words) {
+        const first = Math.round(word.start * this.sampleRate);
+        const length = Math.min(Math.round(BEEP_SECONDS * this.sampleRate), samples.length - first);
+        for (let i = 0; i < length; i++) {
+          samples[first + i] = Math.round(Math.sin((2 * Math.PI * BEEP_HZ * i) / this.sampleRate) * 8000);
+        }
+      }
+    }
+
+    return { audio: encodeWav(samples, this.sampleRate), contentType: 'audio/wav', words };
+  }
+}
+
+/**
+ * 16-bit mono PCM WAV
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number): Uint8Array {
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, dataSize, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+
+  return new Uint8Array(view.buffer);
+}
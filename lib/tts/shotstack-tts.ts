@@ -0,0 +1,46 @@
+// Shotstack TTS Provider
+// Shotstack's built-in text-to-speech (Amazon Polly voices) through the
+// Create API. Asynchronous: the asset id is the job id, and the audio is
+// hosted by Shotstack once the asset finishes. The spend is recorded by
+// ShotstackPipelineClient.createSpeech, the only way to request the speech.
+
+import { SHOTSTACK_TTS_MAX_CHARS } from '../narration/text-chunker';
+import { SHOTSTACK_TTS_COST_PER_CHAR, ShotstackPipelineClient } from '../workflows/shotstack-pipeline';
+import { resolveVoice, SpeechRequest, SpeechResult, TTSCapabilities, TTSProvider } from './tts-provider';
+
+export const SHOTSTACK_VOICES = [
+  { id: 'Matthew', name: 'Matthew - US English Male', language: 'en-US', gender: 'male' as const },
+  { id: 'Joanna', name: 'Joanna - US English Female', language: 'en-US', gender: 'female' as const },
+  { id: 'Amy', name: 'Amy - British English Female', language: 'en-GB', gender: 'female' as const },
+  { id: 'Brian', name: 'Brian - British English Male', language: 'en-GB', gender: 'male' as const },
+  { id: 'Ivy', name: 'Ivy - US English Female (Child)', language: 'en-US', gender: 'female' as const },
+  { id: 'Joey', name: 'Joey - US English Male', language: 'en-US', gender: 'male' as const },
+  { id: 'Kendra', name: 'Kendra - US English Female', language: 'en-US', gender: 'female' as const },
+  { id: 'Russell', name: 'Russell - Australian English Male', language: 'en-AU', gender: 'male' as const }
+];
+
+export const SHOTSTACK_TTS_CAPABILITIES: TTSCapabilities = {
+  maxChars: SHOTSTACK_TTS_MAX_CHARS,
+  voices: SHOTSTACK_VOICES,
+  defaultVoice: 'Matthew',
+  customVoices: false,
+  alignment: false,
+  costPerChar: SHOTSTACK_TTS_COST_PER_CHAR,
+  async: true
+};
+
+export class ShotstackTTSProvider implements TTSProvider {
+  readonly name = 'shotstack' as const;
+  readonly capabilities = SHOTSTACK_TTS_CAPABILITIES;
+
+  constructor(private client: ShotstackPipelineClient) {}
+
+  async synthesize(request: SpeechRequest): Promise<SpeechResult> {
+    const asset = await this.client.createSpeech(request.text, resolveVoice(this.capabilities, request.voiceId));
+    return { jobId: asset.assetId, audioUrl: asset.audioUrl };
+  }
+
+  waitForSpeech(jobId: string): Promise<string> {
+    return this.client.waitForAsset(jobId);
+  }
+}
@@ -0,0 +1,76 @@
+// TTS Provider
+// One interface over the text-to-speech backends. Providers synthesize a
+// single chunk of text (callers chunk to capabilities.maxChars, see
+// lib/narration/text-chunker.ts). Synchronous providers return the audio
+// bytes; asynchronous ones return a job id that is checkpointed and then
+// passed to waitForSpeech, so a retry never pays for the same chunk twice.
+
+import type { TTSProviderName, WordTiming } from '../types/reddit-automation';
+
+export class TTSProviderError extends Error {
+  constructor(message: string, public readonly status: number = 502) {
+    super(message);
+    this.name = 'TTSProviderError';
+  }
+}
+
+export interface TTSVoice {
+  id: string;
+  name: string;
+  language: string;
+  gender?: 'male' | 'female';
+}
+
+export interface TTSCapabilities {
+  maxChars: number; // Per synthesize() call
+  voices: TTSVoice[];
+  defaultVoice: string;
+  customVoices: boolean; // Accepts voice ids that aren't listed (e.g. cloned voices)
+  alignment: boolean; // Returns word timings with the audio
+  costPerChar: number; // USD
+  async: boolean; // synthesize() returns a job id to wait on
+}
+
+export interface SpeechRequest {
+  text: string;
+  voiceId?: string;
+  previousText?: string; // Neighbouring chunks, for providers that use them for intonation
+  nextText?: string;
+}
+
+export interface SpeechResult {
+  jobId?: string; // Asynchronous providers - pass to waitForSpeech
+  audio?: Uint8Array; // Synchronous providers - the caller stores it
+  audioUrl?: string;
+  contentType?: string;
+  words?: WordTiming[]; // Relative to the start of this chunk
+}
+
+export interface TTSProvider {
+  readonly name: TTSProviderName;
+  readonly capabilities: TTSCapabilities;
+  synthesize(request: SpeechRequest): Promise<SpeechResult>;
+  waitForSpeech?(jobId: string): Promise<string>; // Audio URL once the job has finished
+}
+
+/**
+ * The voice to use for a request - the provider default when none is given.
+ * Unlisted voices are rejected unless the provider takes custom voice ids.
+ */
+export function resolveVoice(capabilities: TTSCapabilities, voiceId?: string): string {
+  if (!voiceId) return capabilities.defaultVoice;
+  if (capabilities.customVoices || capabilities.voices.some(voice => voice.id === voiceId)) {
+    return voiceId;
+  }
+  throw new TTSProviderError(
+    `Unknown voice "${voiceId}" - expected one of ${capabilities.voices.map(voice => voice.id).join(', ')}`,
+    400
+  );
+}
+
+/**
+ * Estimated cost of synthesizing text
+ */
+export function estimateSpeechCost(capabilities: TTSCapabilities, characters: number): number {
+  return characters * capabilities.costPerChar;
+}
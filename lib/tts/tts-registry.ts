@@ -0,0 +1,83 @@
+// TTS Provider Registry
+// Picks a provider by name from Pages Functions bindings, and describes
+// which ones are configured for the voice picker.
+
+import type { TTSProviderName } from '../types/reddit-automation';
+import { createShotstackPipelineClient, ShotstackPipelineClient } from '../workflows/shotstack-pipeline';
+import { ElevenLabsTTSProvider } from './elevenlabs-tts';
+import { LocalTTSProvider } from './local-tts';
+import { SHOTSTACK_TTS_CAPABILITIES, ShotstackTTSProvider } from './shotstack-tts';
+import { TTSCapabilities, TTSProvider, TTSProviderError } from './tts-provider';
+
+export const TTS_PROVIDER_NAMES: TTSProviderName[] = ['shotstack', 'elevenlabs', 'local'];
+
+export const DEFAULT_TTS_PROVIDER: TTSProviderName = 'shotstack';
+
+export interface TTSEnv {
+  SHOTSTACK_SANDBOX_API_KEY?: string;
+  SHOTSTACK_PRODUCTION_API_KEY?: string;
+  SHOTSTACK_API_URL?: string;
+  ELEVENLABS_API_KEY?: string;
+  ELEVENLABS_API_URL?: string; // Override for a local fake
+  ENABLE_LOCAL_TTS?: string; // 'true' offers the offline beep/silence provider
+}
+
+export interface TTSProviderInfo {
+  name: TTSProviderName;
+  available: boolean;
+  capabilities: TTSCapabilities;
+}
+
+export function isTTSProviderName(value: unknown): value is TTSProviderName {
+  return TTS_PROVIDER_NAMES.includes(value as TTSProviderName);
+}
+
+/**
+ * Provider for a request. The Shotstack provider reuses the workflow's
+ * pipeline client when one is given.
+ */
+export function createTTSProvider(
+  name: TTSProviderName = DEFAULT_TTS_PROVIDER,
+  env: TTSEnv,
+  options: { useProduction?: boolean; client?: ShotstackPipelineClient } = {}
+): TTSProvider {
+  switch (name) {
+    case 'shotstack':
+      return new ShotstackTTSProvider(options.client || createShotstackPipelineClient(env, Boolean(options.useProduction)));
+    case 'elevenlabs':
+      if (!env.ELEVENLABS_API_KEY) {
+        throw new TTSProviderError('ElevenLabs API key not configured (ELEVENLABS_API_KEY)', 503);
+      }
+      return new ElevenLabsTTSProvider(env.ELEVENLABS_API_KEY, {}, env.ELEVENLABS_API_URL);
+    case 'local':
+      if (env.ENABLE_LOCAL_TTS !== 'true') {
+        throw new TTSProviderError('The local TTS provider is disabled (set ENABLE_LOCAL_TTS=true)', 503);
+      }
+      return new LocalTTSProvider();
+    default:
+      throw new TTSProviderError(`Unknown TTS provider "${name}" - expected one of ${TTS_PROVIDER_NAMES.join(', ')}`, 400);
+  }
+}
+
+/**
+ * Every provider with its capabilities, and whether it is configured here
+ */
+export function listTTSProviders(env: TTSEnv): TTSProviderInfo[] {
+  return [
+    {
+      name: 'shotstack',
+      available: Boolean(env.SHOTSTACK_SANDBOX_API_KEY || env.SHOTSTACK_PRODUCTION_API_KEY),
+      capabilities: SHOTSTACK_TTS_CAPABILITIES
+    },
+    {
+      name: 'elevenlabs',
+      available: Boolean(env.ELEVENLABS_API_KEY),
+      capabilities: new ElevenLabsTTSProvider('').capabilities
+    },
+    {
+      name: 'local',
+      available: env.ENABLE_LOCAL_TTS === 'true',
+      capabilities: new LocalTTSProvider().capabilities
+    }
+  ];
+}
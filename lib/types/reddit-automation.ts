@@ -1,3 +1,5 @@
+import type { PromptRef } from '../prompts/prompt-registry';
+
 export interface RedditStory {
   id: string;
   title: string;
@@ -8,9 +10,46 @@ export interface RedditStory {
   created_utc: number;
   url: string;
   viral_score: number;
-  category: 'drama' | 'horror' | 'revenge' | 'wholesome' | 'mystery';
+  category: string; // StoryCategory id
   estimated_duration: number;
   enhanced_content?: string;
+  enhancement_prompt?: PromptRef; // Prompt template version that produced enhanced_content
+  previously_used?: PreviousStoryUse; // Set when content history flags the story
+  author?: string; // Reddit username, without u/
+  permalink?: string; // Path on reddit.com, e.g. /r/tifu/comments/abc123/...
+  scraped_at?: string;
+}
+
+// A user-defined story category: where to scrape and what counts as narratable
+export interface StoryCategory {
+  id: string; // Lowercase slug, used in URLs and cache keys
+  name: string;
+  description: string;
+  subreddits: string[];
+  filters: StoryFilterSettings;
+  defaultVoice?: { provider: TTSProviderName; voiceId: string };
+  musicMoods?: string[]; // Soundtrack moods to pick from, e.g. "dark ambient" for horror
+  updatedAt?: string;
+}
+
+export interface StoryFilterSettings {
+  minUpvotes: number;
+  minUpvoteRatio: number; // 0-1
+  minLength: number; // Characters of post text
+  maxLength: number;
+  bannedWords: string[]; // Posts containing any of these whole words are skipped
+}
+
+// An earlier video (or one in progress) made from this story or a repost of it.
+// 'failed' uses are kept in the history but never reported as a previous use;
+// 'blocked' ones are, since content safety would block the story again.
+export interface PreviousStoryUse {
+  match: 'story_id' | 'fingerprint';
+  status: 'generating' | 'completed' | 'failed' | 'blocked';
+  story_id: string;
+  workflow_id?: string;
+  video_id?: string;
+  used_at: string;
 }
 
 export interface VideoGenerationRequest {
@@ -24,9 +63,13 @@ export interface VideoGenerationRequest {
   video_config: {
     duration: number;
     add_captions: boolean;
-    music_volume: number;
+    caption_max_words_per_line?: number;
+    music_volume: number; // Soundtrack level between and after the narration (ducked under it)
   };
+  music?: MusicBed; // Soundtrack picked from the music library; none without it
   userTriggered: boolean;
+  redact_pii?: boolean; // Pseudonymize personal details before enhancement (default true)
+  attribution?: Partial<AttributionSettings> | false; // Source credit overlay (default on)
 }
 
 export interface GeneratedVideo {
@@ -38,6 +81,9 @@ export interface GeneratedVideo {
   duration: number;
   file_size: number;
   created_at: string;
+  source?: StorySource;
+  description?: string; // Ready-to-paste upload description crediting the source
+  prompt?: PromptRef; // Prompt template version behind the narration script
   api_costs?: {
     claude_cost: number;
     shotstack_cost: number;
@@ -61,6 +107,231 @@ export interface WorkflowState {
     totalCost: number;
   };
   videos?: GeneratedVideo[];
+  request?: WorkflowRequest;
+  render?: RenderTracking;
+  checkpoints?: WorkflowCheckpoints;
+  captions?: CaptionFiles;
+  failedStep?: VideoWorkflowStep;
+  resumeCount?: number;
+  safety?: WorkflowSafety;
+  redaction?: StoryRedaction; // Set when request.redactPii replaced personal details in the story
+  music?: MusicBed; // Soundtrack the render plays under the narration
+}
+
+// What the workflow was asked to produce - enough to describe the output video
+// and to rerun any step on resume
+export interface WorkflowRequest {
+  story: RedditStory;
+  durationSeconds: number;
+  voiceId?: string;
+  useProduction?: boolean;
+  addCaptions?: boolean;
+  captionMaxWordsPerLine?: number;
+  ttsProvider?: TTSProviderName; // Defaults to 'shotstack'
+  redactPii?: boolean; // story is the redacted copy; the mapping is on WorkflowState.redaction
+  attribution?: Partial<AttributionSettings> | false; // Credit overlay; false leaves it out
+  background?: BackgroundSelection; // Pick from the background library instead of uploading a video
+  music?: MusicSelection | false; // Soundtrack from the music library; false (or no matching track) leaves it out
+}
+
+// Where a video's story came from, for credits and upload descriptions
+export interface StorySource {
+  platform: 'reddit';
+  post_id: string;
+  subreddit: string;
+  author: string | null; // Unknown for stories not scraped from the listing
+  permalink: string; // Full https://www.reddit.com URL
+  scraped_at: string | null;
+}
+
+// The "r/subreddit • u/author" overlay
+export interface AttributionSettings {
+  enabled: boolean;
+  template: string; // {subreddit} and {author}; " • "-separated parts whose value is unknown are dropped
+  position: 'top' | 'topLeft' | 'topRight' | 'bottom' | 'bottomLeft' | 'bottomRight';
+  durationSeconds: number | null; // null keeps it up for the whole video
+  fontSize: number;
+}
+
+// A clip in the background library: the video is in R2 under
+// backgrounds/{id}.mp4, its details in one index object
+export interface BackgroundClip {
+  id: string;
+  name: string;
+  duration: number; // Seconds, read from the MP4 header
+  width: number;
+  height: number;
+  tags: string[]; // Lowercase, e.g. "minecraft", "satisfying"
+  size: number; // Bytes
+  uploadedAt: string;
+}
+
+// Which library clip a render uses: a specific one, or a random one with
+// any of the tags (any clip when neither is given)
+export interface BackgroundSelection {
+  clipId?: string;
+  tags?: string[];
+}
+
+// A library clip as a render source
+export interface BackgroundSource {
+  clipId: string;
+  src: string; // Public URL the renderer fetches
+  duration: number;
+}
+
+// One stretch of the background track: part of a clip placed on the timeline
+export interface BackgroundSegment {
+  clipId: string;
+  src: string;
+  trim: number; // Seconds into the clip
+  start: number; // Seconds into the video
+  length: number;
+}
+
+// A soundtrack in the music library: the audio (MP3 or WAV) is in R2 under
+// music/{id}, its details in one index object
+export interface MusicTrack {
+  id: string;
+  name: string;
+  artist: string;
+  duration: number; // Seconds, measured from the audio
+  bpm: number | null;
+  moods: string[]; // Lowercase, e.g. "dark ambient", "upbeat"
+  license: MusicLicense;
+  contentType: 'audio/mpeg' | 'audio/wav';
+  size: number; // Bytes
+  uploadedAt: string;
+}
+
+export interface MusicLicense {
+  name: string; // e.g. "CC BY 4.0", "Pixabay Content License"
+  url?: string;
+  attribution?: string; // Credit to publish with the video, when the license asks for one
+}
+
+// Which soundtrack a render uses: a specific track, or a random one with any
+// of the moods (any track when none match)
+export interface MusicSelection {
+  trackId?: string;
+  moods?: string[];
+  volume?: number; // 0-1, between and after the narration
+  duckedVolume?: number; // 0-1, under the narration
+}
+
+// The soundtrack a render plays, with its levels
+export interface MusicBed {
+  trackId: string;
+  name: string;
+  src: string; // Public URL the renderer fetches
+  duration: number;
+  volume: number;
+  duckedVolume: number;
+  credit?: string; // From the license, for the upload description
+}
+
+export type VideoWorkflowStep = 'upload' | 'tts' | 'render';
+
+// Results of finished (paid-for) steps. A resumed workflow skips every step
+// that has one.
+export interface WorkflowCheckpoints {
+  upload?: {
+    sourceId: string; // Shotstack ingest source, or the first library clip
+    sourceUrl: string;
+    completedAt: string;
+    background?: BackgroundSource[]; // Library clips in play order, when the request picked from the library
+  };
+  tts?: {
+    chunks: NarrationChunkCheckpoint[]; // The story split at sentence boundaries
+    narrated?: 'original' | 'enhanced'; // Which story text the chunks came from; missing means original
+    requestedAt: string;
+    completedAt?: string; // Set once every chunk has audio and a duration
+  };
+  render?: {
+    renderId: string;
+    completedAt: string;
+  };
+}
+
+// One TTS request of a chunked narration
+export interface NarrationChunkCheckpoint {
+  index: number;
+  text: string;
+  assetId?: string; // Recorded as soon as the asset is requested, so it is never paid for twice
+  audioUrl?: string;
+  duration?: number; // Seconds, measured from the audio - positions the next chunk
+  words?: WordTiming[]; // From the provider's alignment, relative to the start of the chunk
+}
+
+// Text-to-speech backends (see lib/tts)
+export type TTSProviderName = 'shotstack' | 'elevenlabs' | 'local';
+
+// Caption files written for a workflow (see lib/captions)
+export type SafetyCategory = 'violence' | 'self_harm' | 'sexual' | 'hate' | 'personal_info' | 'platform_policy';
+export type SafetySeverity = 'low' | 'medium' | 'high';
+export type SafetyStage = 'story' | 'enhanced' | 'captions';
+
+export interface SafetyFinding {
+  category: SafetyCategory;
+  severity: SafetySeverity;
+  rule: string; // Rule id, or 'llm' for the model pass
+  match: string; // The offending text (or the model's excerpt)
+  index?: number; // Character offset; not known for model findings
+  reason?: string; // Model explanation
+}
+
+// Content-safety result for one piece of text. 'block' stops the workflow,
+// 'review' is recorded but lets it continue.
+export interface SafetyVerdict {
+  stage: SafetyStage;
+  decision: 'allow' | 'review' | 'block';
+  categories: Partial<Record<SafetyCategory, SafetySeverity>>; // Worst severity per category
+  findings: SafetyFinding[];
+  source: 'rules' | 'rules+llm';
+  llm?: {
+    model: string;
+    cost: number;
+    error?: string; // The model pass failed; the rules verdict stands
+  };
+  checkedAt: string;
+}
+
+// Verdicts for each text the workflow turns into video
+export type WorkflowSafety = Partial<Record<SafetyStage, SafetyVerdict>>;
+
+export type PiiKind = 'name' | 'username' | 'employer' | 'place' | 'phone' | 'email' | 'address';
+
+export interface PiiReplacement {
+  kind: PiiKind;
+  original: string;
+  replacement: string;
+  occurrences: number; // Across title, content and enhanced_content
+}
+
+// What the redaction pass changed in a story, kept for review
+export interface StoryRedaction {
+  replacements: PiiReplacement[];
+  redactedAt: string;
+}
+
+export interface CaptionFiles {
+  srtUrl: string;
+  vttUrl: string;
+  source: CaptionTimingSource;
+  cueCount: number;
+}
+
+// Shotstack render attached to a workflow; updated by the webhook, or by
+// polling when a callback goes missing
+export interface RenderTracking {
+  renderId: string;
+  environment: 'stage' | 'production';
+  status: 'queued' | 'fetching' | 'rendering' | 'saving' | 'done' | 'failed' | 'storing' | 'stored';
+  progress?: number;
+  sourceUrl?: string; // Shotstack-hosted MP4 (expires after 24h)
+  error?: string;
+  updatedVia: 'submit' | 'webhook' | 'polling';
+  updatedAt: string;
 }
 
 // Reddit API response types for better type safety
@@ -76,11 +347,13 @@ export interface RedditApiResponse {
         num_comments: number;
         created_utc: number;
         permalink: string;
+        author: string;
         upvote_ratio: number;
         over_18: boolean;
         stickied: boolean;
       };
     }>;
+    after?: string | null; // Fullname of the last post, for the next page
   };
 }
 
@@ -118,14 +391,35 @@ export interface R2StorageFile {
   uploadedAt: string;
 }
 
+// One spoken word and when it is heard, in seconds from the start of the narration
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// 'alignment' = timed by the TTS provider, 'estimate' = spread over the measured audio
+export type CaptionTimingSource = 'alignment' | 'estimate';
+
+// Narration audio plus the word timings captions are built from
+export interface NarrationAudio extends R2StorageFile {
+  duration: number;
+  words: WordTiming[];
+  timingSource: CaptionTimingSource;
+}
+
+// Legacy per-service usage record - converted to a CostEvent by
+// fromUsageTracking() in lib/usage/cost-ledger.ts before it is persisted
 export interface UsageTracking {
   date: string;
-  service: 'claude' | 'shotstack' | 'elevenlabs' | 'reddit';
+  service: 'claude' | 'shotstack' | 'elevenlabs' | 'reddit' | 'r2';
   operation: string;
   apiCalls: number;
   costUSD: number;
   requestId: string;
-  status: 'success' | 'failed';
+  status: 'success' | 'failed' | 'error';
+  charactersUsed?: number;
+  errorMessage?: string;
 }
 
 export interface APIResponse<T = any> {
@@ -0,0 +1,203 @@
+// Budget Store - durable daily spend limits shared by every instance
+// Two-phase: reserve() the estimated cost before an API call, then settle()
+// with the actual cost (or release() on failure). Reservations count against
+// the limit while in flight, so concurrent requests can't both squeeze under
+// the cap. Built on LedgerStorage compare-and-swap: R2 in production, the
+// local filesystem in development.
+
+import { LedgerStorage, R2BucketBinding, R2BucketLedgerStorage, casUpdate } from './ledger-storage';
+import { todayUTC } from './usage-ledger';
+
+export interface BudgetLimits {
+  maxCalls: number;
+  maxCost: number;
+  maxTokens: number;
+}
+
+export interface BudgetAmount {
+  cost: number;
+  tokens: number;
+}
+
+export interface BudgetReservation extends BudgetAmount {
+  id: string;
+  budget: string;
+  date: string;
+  expiresAt: number;
+}
+
+export interface BudgetSnapshot {
+  budget: string;
+  date: string;
+  calls: number;
+  cost: number;
+  tokens: number;
+  pendingCalls: number;
+  reservedCost: number;
+  reservedTokens: number;
+}
+
+interface BudgetState {
+  budget: string;
+  date: string;
+  calls: number;
+  cost: number;
+  tokens: number;
+  reservations: Record<string, BudgetAmount & { expiresAt: number }>;
+  lastUpdated: string;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string, public readonly limit: 'calls' | 'cost' | 'tokens') {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface BudgetStore {
+  reserve(budget: string, limits: BudgetLimits, estimate: BudgetAmount): Promise<BudgetReservation>;
+  settle(reservation: BudgetReservation, actual: BudgetAmount): Promise<BudgetSnapshot>;
+  release(reservation: BudgetReservation): Promise<void>;
+  getSnapshot(budget: string): Promise<BudgetSnapshot>;
+}
+
+const DEFAULT_RESERVATION_TTL_MS = 10 * 60 * 1000; // Abandoned reservations free up after 10 minutes
+
+export class LedgerBudgetStore implements BudgetStore {
+  private prefix: string;
+  private reservationTtlMs: number;
+
+  constructor(private storage: LedgerStorage, options: { prefix?: string; reservationTtlMs?: number } = {}) {
+    this.prefix = options.prefix || 'budgets';
+    this.reservationTtlMs = options.reservationTtlMs || DEFAULT_RESERVATION_TTL_MS;
+  }
+
+  async reserve(budget: string, limits: BudgetLimits, estimate: BudgetAmount): Promise<BudgetReservation> {
+    const date = todayUTC();
+    const reservation: BudgetReservation = {
+      id: `rsv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      budget,
+      date,
+      cost: estimate.cost,
+      tokens: estimate.tokens,
+      expiresAt: Date.now() + this.reservationTtlMs
+    };
+
+    await this.mutate(budget, date, state => {
+      const snapshot = toSnapshot(state);
+
+      if (snapshot.calls + snapshot.pendingCalls >= limits.maxCalls) {
+        throw new BudgetExceededError(
+          `Daily ${budget} call limit reached (${limits.maxCalls} calls). Try again tomorrow.`,
+          'calls'
+        );
+      }
+
+      const committedCost = snapshot.cost + snapshot.reservedCost;
+      if (committedCost + estimate.cost > limits.maxCost) {
+        throw new BudgetExceededError(
+          `Daily ${budget} cost limit would be exceeded. Remaining budget: ${Math.max(0, limits.maxCost - committedCost).toFixed(2)}`,
+          'cost'
+        );
+      }
+
+      const committedTokens = snapshot.tokens + snapshot.reservedTokens;
+      if (committedTokens + estimate.tokens > limits.maxTokens) {
+        throw new BudgetExceededError(
+          `Daily ${budget} token limit would be exceeded. Remaining tokens: ${Math.max(0, limits.maxTokens - committedTokens)}`,
+          'tokens'
+        );
+      }
+
+      state.reservations[reservation.id] = {
+        cost: reservation.cost,
+        tokens: reservation.tokens,
+        expiresAt: reservation.expiresAt
+      };
+    });
+
+    return reservation;
+  }
+
+  async settle(reservation: BudgetReservation, actual: BudgetAmount): Promise<BudgetSnapshot> {
+    // Charge the day the reservation was made, even if settlement crosses midnight
+    const state = await this.mutate(reservation.budget, reservation.date, current => {
+      delete current.reservations[reservation.id];
+      current.calls += 1;
+      current.cost += actual.cost;
+      current.tokens += actual.tokens;
+    });
+    return toSnapshot(state);
+  }
+
+  async release(reservation: BudgetReservation): Promise<void> {
+    await this.mutate(reservation.budget, reservation.date, current => {
+      delete current.reservations[reservation.id];
+    });
+  }
+
+  async getSnapshot(budget: string): Promise<BudgetSnapshot> {
+    const date = todayUTC();
+    const existing = await this.storage.read(this.keyFor(budget, date));
+    const state = existing ? (JSON.parse(existing.body) as BudgetState) : createEmptyState(budget, date);
+    return toSnapshot(dropExpired(state));
+  }
+
+  private async mutate(budget: string, date: string, apply: (state: BudgetState) => void): Promise<BudgetState> {
+    const { state } = await casUpdate(this.storage, this.keyFor(budget, date), () => createEmptyState(budget, date), current => {
+      apply(dropExpired(current)); // May throw BudgetExceededError - nothing is written in that case
+      current.lastUpdated = new Date().toISOString();
+    });
+    return state;
+  }
+
+  private keyFor(budget: string, date: string): string {
+    return `${this.prefix}/${budget}/${date}.json`;
+  }
+}
+
+/**
+ * Budget store for Pages Functions, backed by the same R2 bucket as the usage ledger
+ */
+export function createBudgetStore(env: { R2_BUCKET?: R2BucketBinding }): BudgetStore {
+  if (!env.R2_BUCKET) {
+    throw new Error('R2_BUCKET binding not configured - budget store unavailable');
+  }
+  return new LedgerBudgetStore(new R2BucketLedgerStorage(env.R2_BUCKET));
+}
+
+function createEmptyState(budget: string, date: string): BudgetState {
+  return {
+    budget,
+    date,
+    calls: 0,
+    cost: 0,
+    tokens: 0,
+    reservations: {},
+    lastUpdated: new Date().toISOString()
+  };
+}
+
+function dropExpired(state: BudgetState): BudgetState {
+  const now = Date.now();
+  Object.keys(state.reservations).forEach(id => {
+    if (state.reservations[id].expiresAt <= now) {
+      delete state.reservations[id];
+    }
+  });
+  return state;
+}
+
+function toSnapshot(state: BudgetState): BudgetSnapshot {
+  const pending = Object.values(state.reservations);
+  return {
+    budget: state.budget,
+    date: state.date,
+    calls: state.calls,
+    cost: state.cost,
+    tokens: state.tokens,
+    pendingCalls: pending.length,
+    reservedCost: pending.reduce((sum, r) => sum + r.cost, 0),
+    reservedTokens: pending.reduce((sum, r) => sum + r.tokens, 0)
+  };
+}
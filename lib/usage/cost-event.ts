@@ -0,0 +1,107 @@
+// Cost Event - the single usage/cost record every provider client writes
+// Replaces the separate UsageTracking / UsageEntry / APICostThresholds counters
+
+export const COST_SERVICES = [
+  'openai',
+  'anthropic',
+  'elevenlabs',
+  'heygen',
+  'googleCloud',
+  'shotstack',
+  'r2',
+  'reddit'
+] as const;
+
+export type CostService = (typeof COST_SERVICES)[number];
+
+export interface CostEvent {
+  id: string;
+  timestamp: string;
+  service: CostService;
+  operation: string; // 'story-enhancement', 'voice-synthesis', 'render-video', etc.
+  source: string; // Client that incurred the cost, e.g. 'ClaudeService'
+  status: 'success' | 'failed';
+  cost: number; // USD
+  requests: number;
+  tokens?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  characters?: number;
+  seconds?: number;
+  images?: number;
+  credits?: number;
+  model?: string;
+  requestId?: string;
+  metadata?: Record<string, string | number | boolean>;
+}
+
+// What callers pass in; the ledger fills in ids, timestamps and defaults
+export type CostEventInput = Omit<CostEvent, 'id' | 'timestamp' | 'status' | 'requests' | 'source'> &
+  Partial<Pick<CostEvent, 'id' | 'timestamp' | 'status' | 'requests' | 'source'>>;
+
+export class CostEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CostEventError';
+  }
+}
+
+export const SERVICE_LABELS: Record<CostService, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  elevenlabs: 'ElevenLabs',
+  heygen: 'HeyGen',
+  googleCloud: 'Google Cloud',
+  shotstack: 'Shotstack',
+  r2: 'Cloudflare R2',
+  reddit: 'Reddit'
+};
+
+export function isCostService(value: unknown): value is CostService {
+  return typeof value === 'string' && (COST_SERVICES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate and fill defaults. Throws CostEventError on malformed input.
+ */
+export function normalizeCostEvent(input: Partial<CostEvent>): CostEvent {
+  if (!isCostService(input.service)) {
+    throw new CostEventError(`Unknown service: ${input.service}`);
+  }
+  if (typeof input.cost !== 'number' || !isFinite(input.cost) || input.cost < 0) {
+    throw new CostEventError('Cost must be a non-negative number');
+  }
+  if (!input.operation || typeof input.operation !== 'string') {
+    throw new CostEventError('Operation is required');
+  }
+
+  const inputTokens = nonNegative(input.inputTokens);
+  const outputTokens = nonNegative(input.outputTokens);
+  const combinedTokens =
+    inputTokens !== undefined || outputTokens !== undefined ? (inputTokens || 0) + (outputTokens || 0) : undefined;
+
+  return {
+    id: input.id || `cost_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: input.timestamp || new Date().toISOString(),
+    service: input.service,
+    operation: input.operation,
+    source: input.source || 'unknown',
+    status: input.status === 'failed' ? 'failed' : 'success',
+    cost: input.cost,
+    requests: nonNegative(input.requests) || 1,
+    tokens: nonNegative(input.tokens) ?? combinedTokens,
+    inputTokens,
+    outputTokens,
+    characters: nonNegative(input.characters),
+    seconds: nonNegative(input.seconds),
+    images: nonNegative(input.images),
+    credits: nonNegative(input.credits),
+    model: input.model || undefined,
+    requestId: input.requestId || undefined,
+    metadata: input.metadata
+  };
+}
+
+function nonNegative(value: unknown): number | undefined {
+  return typeof value === 'number' && isFinite(value) && value >= 0 ? value : undefined;
+}
@@ -0,0 +1,163 @@
+// Cost Ledger - the one write path for API spend
+// Every provider client (ClaudeService, ShotstackService, ElevenLabsService,
+// HeyGenIntegration, OpenAIImageGenerator, LLMRouter) records CostEvents here.
+// Events fan out to in-process listeners (budget counters) and to a sink that
+// persists them into the daily usage ledger.
+
+import { UsageTracking } from '../types/reddit-automation';
+import { CostEvent, CostEventInput, CostService, normalizeCostEvent } from './cost-event';
+import { UsageLedger, todayUTC } from './usage-ledger';
+
+export type CostEventListener = (event: CostEvent) => void;
+
+export interface CostEventSink {
+  write(event: CostEvent): Promise<void>;
+}
+
+/**
+ * Posts events to /api/usage/log. Relative URL in the browser; server-side
+ * callers need USAGE_LOG_URL (or NEXT_PUBLIC_APP_URL) to reach the function,
+ * unless configureLedgerStorage() has swapped in a UsageLedgerSink.
+ */
+export class HttpCostEventSink implements CostEventSink {
+  constructor(private endpoint?: string) {}
+
+  async write(event: CostEvent): Promise<void> {
+    const url = this.resolveEndpoint();
+    if (!url) {
+      console.log(`Cost event (not persisted - USAGE_LOG_URL not set):`, event);
+      return;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ date: event.timestamp.split('T')[0], entry: event })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Usage log rejected event: ${response.status}`);
+    }
+  }
+
+  private resolveEndpoint(): string | null {
+    if (this.endpoint) return this.endpoint;
+    if (typeof window !== 'undefined') return '/api/usage/log';
+
+    const base = process.env.USAGE_LOG_URL || process.env.NEXT_PUBLIC_APP_URL;
+    if (!base) return null;
+    return process.env.USAGE_LOG_URL ? base : `${base.replace(/\/$/, '')}/api/usage/log`;
+  }
+}
+
+/**
+ * Writes straight into a UsageLedger - installed by configureLedgerStorage()
+ * (lib/usage/ledger-config.ts) for Pages Functions that hold the R2 binding
+ * and for Node processes using FileSystemLedgerStorage
+ */
+export class UsageLedgerSink implements CostEventSink {
+  constructor(private ledger: UsageLedger) {}
+
+  async write(event: CostEvent): Promise<void> {
+    await this.ledger.append(event.timestamp.split('T')[0], event);
+  }
+}
+
+export class CostLedger {
+  private sink: CostEventSink;
+  private listeners = new Set<CostEventListener>();
+  private todayTotals: { date: string; byService: Partial<Record<CostService, number>> } = {
+    date: todayUTC(),
+    byService: {}
+  };
+
+  constructor(sink: CostEventSink = new HttpCostEventSink()) {
+    this.sink = sink;
+  }
+
+  setSink(sink: CostEventSink): void {
+    this.sink = sink;
+  }
+
+  subscribe(listener: CostEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Record a cost event. Never throws - a failed write must not fail the
+   * generation that incurred the cost.
+   */
+  async record(input: CostEventInput): Promise<CostEvent | null> {
+    let event: CostEvent;
+    try {
+      event = normalizeCostEvent(input);
+    } catch (error) {
+      console.error('Invalid cost event:', error, input);
+      return null;
+    }
+
+    this.trackInProcess(event);
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Cost event listener failed:', error);
+      }
+    });
+
+    try {
+      await this.sink.write(event);
+    } catch (error) {
+      console.error(`Failed to persist ${event.service} cost event:`, error);
+    }
+
+    console.log(`💰 ${event.source} • ${event.service} ${event.operation}: $${event.cost.toFixed(4)}`);
+    return event;
+  }
+
+  /**
+   * Spend seen by this process today. The persisted ledger (/api/usage/stats)
+   * is the source of truth across instances.
+   */
+  getProcessTotals(): { date: string; byService: Partial<Record<CostService, number>>; total: number } {
+    this.rolloverIfNeeded();
+    const total = Object.values(this.todayTotals.byService).reduce((sum, cost) => sum + (cost || 0), 0);
+    return { ...this.todayTotals, total };
+  }
+
+  private trackInProcess(event: CostEvent): void {
+    this.rolloverIfNeeded();
+    const current = this.todayTotals.byService[event.service] || 0;
+    this.todayTotals.byService[event.service] = current + event.cost;
+  }
+
+  private rolloverIfNeeded(): void {
+    const today = todayUTC();
+    if (this.todayTotals.date !== today) {
+      this.todayTotals = { date: today, byService: {} };
+    }
+  }
+}
+
+// Global ledger instance shared by all provider clients
+export const costLedger = new CostLedger();
+
+/**
+ * Adapter for the legacy UsageTracking records produced by the Phase 1 services
+ */
+export function fromUsageTracking(stats: UsageTracking, source: string): CostEventInput {
+  return {
+    service: stats.service === 'claude' ? 'anthropic' : stats.service,
+    operation: stats.operation,
+    source,
+    status: stats.status === 'success' ? 'success' : 'failed',
+    cost: stats.costUSD,
+    requests: stats.apiCalls,
+    characters: stats.charactersUsed,
+    requestId: stats.requestId,
+    metadata: stats.errorMessage ? { error: stats.errorMessage } : undefined
+  };
+}
+
+export default costLedger;
@@ -0,0 +1,108 @@
+// Local filesystem ledger backend for development and tests (Node only)
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { LedgerStorage, StoredObject } from './ledger-storage';
+
+const LOCK_TIMEOUT_MS = 5000;
+const STALE_LOCK_MS = 10000;
+
+export class FileSystemLedgerStorage implements LedgerStorage {
+  // Serializes writes within this process; the lock file covers other processes
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private rootDir: string = process.env.USAGE_LEDGER_DIR || './output/usage-ledger') {}
+
+  async read(key: string): Promise<StoredObject | null> {
+    try {
+      const body = await fs.readFile(this.pathFor(key), 'utf8');
+      return { body, etag: this.etagFor(body) };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  write(key: string, body: string, expectedEtag: string | null): Promise<boolean> {
+    const result = this.writeChain.then(async () => {
+      const filePath = this.pathFor(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      const release = await this.acquireLock(`${filePath}.lock`);
+      try {
+        const current = await this.read(key);
+        if ((current ? current.etag : null) !== expectedEtag) return false;
+
+        // Write to a temp file and rename so readers never see a partial object
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, body, 'utf8');
+        await fs.rename(tempPath, filePath);
+        return true;
+      } finally {
+        await release();
+      }
+    });
+
+    this.writeChain = result.catch(() => undefined);
+    return result;
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const dir = path.dirname(this.pathFor(`${prefix}x`));
+    try {
+      const files = await fs.readdir(dir);
+      const base = path.relative(this.rootDir, dir).split(path.sep).join('/');
+      return files
+        .filter(file => !file.endsWith('.tmp') && !file.endsWith('.lock'))
+        .map(file => (base ? `${base}/${file}` : file))
+        .filter(key => key.startsWith(prefix))
+        .sort();
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Exclusive-create lock file so compare-and-swap holds across processes
+   */
+  private async acquireLock(lockPath: string): Promise<() => Promise<void>> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (true) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.close();
+        return () => fs.unlink(lockPath).catch(() => undefined);
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+
+        // Break locks left behind by a crashed process
+        const stat = await fs.stat(lockPath).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          await fs.unlink(lockPath).catch(() => undefined);
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for ledger lock ${lockPath}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    }
+  }
+
+  private pathFor(key: string): string {
+    const resolved = path.resolve(this.rootDir, key);
+    if (!resolved.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid ledger key: ${key}`);
+    }
+    return resolved;
+  }
+
+  private etagFor(body: string): string {
+    return createHash('sha1').update(body).digest('hex');
+  }
+}
+
+export default FileSystemLedgerStorage;
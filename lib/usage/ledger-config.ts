@@ -0,0 +1,23 @@
+// Ledger Config - points the process-wide ledgers at durable storage
+// ClaudeService keeps its daily budget in a shared store so the limits hold
+// across restarts and instances, the cost ledger appends every provider's
+// CostEvents to the daily usage ledger, and the generators render the prompt
+// versions saved through /api/prompts. The global LLM router keeps its task
+// assignments and per-client usage there too. Pages Functions call this from
+// functions/api/_middleware.js with the R2 bucket; Node processes (see
+// scripts/queue-worker.ts) pass FileSystemLedgerStorage.
+
+import { llmRouter } from '../modules/llm-router';
+import { promptRegistry } from '../prompts/prompt-registry';
+import { ClaudeService } from '../services/claude-service';
+import { LedgerBudgetStore } from './budget-store';
+import { UsageLedgerSink, costLedger } from './cost-ledger';
+import { LedgerStorage } from './ledger-storage';
+import { UsageLedger } from './usage-ledger';
+
+export function configureLedgerStorage(storage: LedgerStorage): void {
+  ClaudeService.configureBudgetStore(new LedgerBudgetStore(storage));
+  costLedger.setSink(new UsageLedgerSink(new UsageLedger(storage)));
+  promptRegistry.setStorage(storage);
+  llmRouter.setStorage(storage);
+}
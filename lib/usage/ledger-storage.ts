@@ -0,0 +1,143 @@
+// Ledger Storage Backends
+// Minimal key/value contract with ETag-style versions so appends can detect
+// concurrent writers. Node-only backends live in filesystem-ledger-storage.ts
+// so this file stays safe to bundle into Cloudflare Pages Functions.
+
+// A compare-and-swap update that kept losing to other writers. Nothing was
+// written; the caller can retry.
+export class LedgerContentionError extends Error {
+  constructor(message: string, public readonly status: number = 409) {
+    super(message);
+    this.name = 'LedgerContentionError';
+  }
+}
+
+export interface StoredObject {
+  body: string;
+  etag: string;
+}
+
+export interface LedgerStorage {
+  read(key: string): Promise<StoredObject | null>;
+  /**
+   * Write `body` to `key`. `expectedEtag` is the etag last read (null if the key
+   * did not exist). Returns false if the object changed in the meantime.
+   */
+  write(key: string, body: string, expectedEtag: string | null): Promise<boolean>;
+  list(prefix: string): Promise<string[]>;
+}
+
+const MAX_CAS_ATTEMPTS = 10;
+
+// Return this from a casUpdate() callback to leave the object unwritten
+export const CAS_UNCHANGED = Symbol('CAS_UNCHANGED');
+
+/**
+ * Read-modify-write one JSON object with compare-and-swap. `init` gives the
+ * state when the key doesn't exist yet (throw from it to require the key).
+ * `mutate` edits the state in place and may run more than once if another
+ * writer gets in first; if it throws, nothing is written. Throws
+ * LedgerContentionError when every attempt loses the race.
+ */
+export async function casUpdate<S, R = void>(
+  storage: LedgerStorage,
+  key: string,
+  init: () => S,
+  mutate: (state: S) => R
+): Promise<{ state: S; result: R }> {
+  for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+    const existing = await storage.read(key);
+    const state: S = existing ? JSON.parse(existing.body) : init();
+
+    const result = mutate(state);
+    if (result === CAS_UNCHANGED) {
+      return { state, result };
+    }
+    if (await storage.write(key, JSON.stringify(state), existing ? existing.etag : null)) {
+      return { state, result };
+    }
+
+    // Lost the race to another writer - back off briefly and re-read
+    await new Promise(resolve => setTimeout(resolve, 20 + Math.random() * 80));
+  }
+
+  throw new LedgerContentionError(`${key} is under heavy contention, please retry`);
+}
+
+// Structural subset of the Workers R2Bucket binding we rely on
+export interface R2BucketBinding {
+  get(key: string): Promise<{ etag: string; text(): Promise<string> } | null>;
+  put(
+    key: string,
+    value: string,
+    options?: { onlyIf?: { etagMatches?: string } | Headers; httpMetadata?: { contentType?: string } }
+  ): Promise<{ etag: string } | null>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    objects: Array<{ key: string }>;
+    truncated: boolean;
+    cursor?: string;
+  }>;
+}
+
+/**
+ * Production backend: Cloudflare R2 bucket binding (env.USAGE_BUCKET)
+ */
+export class R2BucketLedgerStorage implements LedgerStorage {
+  constructor(private bucket: R2BucketBinding) {}
+
+  async read(key: string): Promise<StoredObject | null> {
+    const object = await this.bucket.get(key);
+    if (!object) return null;
+    return { body: await object.text(), etag: object.etag };
+  }
+
+  async write(key: string, body: string, expectedEtag: string | null): Promise<boolean> {
+    // R2 returns null when the precondition fails
+    const onlyIf = expectedEtag ? { etagMatches: expectedEtag } : new Headers({ 'If-None-Match': '*' });
+
+    const result = await this.bucket.put(key, body, {
+      onlyIf,
+      httpMetadata: { contentType: 'application/json' }
+    });
+    return result !== null;
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.bucket.list({ prefix, cursor });
+      page.objects.forEach(obj => keys.push(obj.key));
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    return keys;
+  }
+}
+
+/**
+ * In-process backend for scripts and local tooling that don't need persistence
+ */
+export class MemoryLedgerStorage implements LedgerStorage {
+  private objects = new Map<string, StoredObject>();
+  private version = 0;
+
+  async read(key: string): Promise<StoredObject | null> {
+    return this.objects.get(key) || null;
+  }
+
+  async write(key: string, body: string, expectedEtag: string | null): Promise<boolean> {
+    const current = this.objects.get(key);
+    if ((current ? current.etag : null) !== expectedEtag) return false;
+
+    this.objects.set(key, { body, etag: `v${++this.version}` });
+    return true;
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return Array.from(this.objects.keys())
+      .filter(key => key.startsWith(prefix))
+      .sort();
+  }
+}
@@ -0,0 +1,72 @@
+// Model Pricing - per-model token prices and pre-call token estimates
+// Prices are USD per 1M tokens from the providers' published rate cards.
+// Unknown models fall back to the most expensive tier of their family so
+// budget checks err on the safe side.
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Longest matching prefix wins, so dated snapshots resolve to their family
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-opus': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-3-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-haiku': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 },
+  'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 }
+};
+
+const FALLBACK_PRICES: Record<string, ModelPrice> = {
+  claude: MODEL_PRICES['claude-3-opus'],
+  gpt: MODEL_PRICES['gpt-4']
+};
+
+export function getModelPrice(model: string): ModelPrice {
+  const normalized = model.toLowerCase();
+  const match = Object.keys(MODEL_PRICES)
+    .filter(prefix => normalized.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (match) return MODEL_PRICES[match];
+
+  const family = Object.keys(FALLBACK_PRICES).find(prefix => normalized.startsWith(prefix));
+  if (family) {
+    console.warn(`No price for model ${model}, using ${family} fallback pricing`);
+    return FALLBACK_PRICES[family];
+  }
+
+  console.warn(`No price for model ${model}, using most expensive known pricing`);
+  return MODEL_PRICES['claude-3-opus'];
+}
+
+export function calculateTokenCost(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model);
+  return (usage.inputTokens / 1000000) * price.inputPerMillion + (usage.outputTokens / 1000000) * price.outputPerMillion;
+}
+
+/**
+ * Approximate BPE token count without shipping a tokenizer: common words are
+ * one token per ~4 characters, and punctuation/symbols are a token each.
+ * Tends to overestimate slightly, which is what a budget check wants.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  const pieces = text.match(/[A-Za-z]+|\d+|[^\sA-Za-z\d]/g) || [];
+  return pieces.reduce((total, piece) => {
+    if (/^\d+$/.test(piece)) return total + Math.ceil(piece.length / 3); // Digits split into groups of up to 3
+    if (/^[A-Za-z]+$/.test(piece)) return total + Math.max(1, Math.ceil(piece.length / 4));
+    return total + 1;
+  }, 0);
+}
@@ -1,55 +1,17 @@
 // R2-Based Usage Logger - ZERO EXTERNAL API CALLS
 // Only logs usage data to R2 storage during content generation
 
-interface UsageEntry {
-  timestamp: string;
-  service: 'openai' | 'anthropic' | 'elevenlabs' | 'heygen' | 'googleCloud';
-  operation: string; // 'text-generation', 'voice-synthesis', 'video-creation', etc.
-  tokens?: number;
-  characters?: number;
-  requests: number;
-  cost: number;
-  model?: string;
-}
+import { costLedger } from './cost-ledger';
+import { CostEventInput } from './cost-event';
 
-interface DailyUsageLog {
-  date: string;
-  entries: UsageEntry[];
-  totals: {
-    openai: { tokens: number; requests: number; cost: number };
-    anthropic: { tokens: number; requests: number; cost: number };
-    elevenlabs: { characters: number; requests: number; cost: number };
-    heygen: { requests: number; cost: number };
-    googleCloud: { requests: number; cost: number };
-  };
-  lastUpdated: string;
-}
+type UsageEntry = Omit<CostEventInput, 'source'>;
 
+// Adapter over the shared cost ledger - kept so existing callers keep working
 export class R2UsageLogger {
   
   // Log usage ONLY during content generation
-  static async logUsage(entry: Omit<UsageEntry, 'timestamp'>): Promise<void> {
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      const fullEntry: UsageEntry = {
-        ...entry,
-        timestamp: new Date().toISOString()
-      };
-
-      // Store to R2 via API route (NO external API calls)
-      await fetch('/api/usage/log', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          date: today,
-          entry: fullEntry
-        })
-      });
-
-      console.log(`✅ Logged ${entry.service} usage: $${entry.cost.toFixed(4)}`);
-    } catch (error) {
-      console.error('Failed to log usage to R2:', error);
-    }
+  static async logUsage(entry: UsageEntry): Promise<void> {
+    await costLedger.record({ ...entry, source: 'R2UsageLogger' });
   }
 
   // Convenience methods for each service with accurate free plan tracking
@@ -99,6 +61,7 @@ export class R2UsageLogger {
       service: 'elevenlabs',
       operation: data.operation,
       characters: data.characters,
+      credits: data.credits,
       requests: 1,
       cost: data.cost
     });
@@ -115,6 +78,7 @@ export class R2UsageLogger {
     await this.logUsage({
       service: 'heygen',
       operation: data.operation,
+      credits: data.credits,
       requests: 1,
       cost: data.cost
     });
@@ -0,0 +1,280 @@
+// Usage Ledger - append-only daily usage logs with per-service and per-model rollups
+// Backs /api/usage/log and /api/usage/stats. Storage is pluggable (R2 binding in
+// production, local filesystem for dev/tests) - see ledger-storage.ts
+
+import { COST_SERVICES, CostEvent, CostEventError, CostService, normalizeCostEvent } from './cost-event';
+import { CAS_UNCHANGED, LedgerStorage, R2BucketBinding, R2BucketLedgerStorage, casUpdate } from './ledger-storage';
+
+export type UsageService = CostService;
+
+// Daily logs store CostEvents verbatim
+export type UsageEntry = CostEvent;
+
+export interface UsageTotals {
+  tokens: number;
+  characters: number;
+  requests: number;
+  cost: number;
+}
+
+export interface DailyUsageLog {
+  date: string; // YYYY-MM-DD (UTC)
+  entries: UsageEntry[];
+  totals: Record<UsageService, UsageTotals>;
+  models: Record<string, UsageTotals>; // keyed by `${service}:${model}`
+  lastUpdated: string;
+}
+
+export interface UsageRollup {
+  from: string;
+  to: string;
+  days: number;
+  services: Record<UsageService, UsageTotals>;
+  models: Record<string, UsageTotals>;
+  totalCost: number;
+}
+
+export interface UsageStats {
+  daily: Record<UsageService, UsageTotals>;
+  monthly: Record<UsageService, UsageTotals>;
+  models: {
+    daily: Record<string, UsageTotals>;
+    monthly: Record<string, UsageTotals>;
+  };
+  summary: {
+    dailyTotal: number;
+    monthlyTotal: number;
+    lastUpdated: string;
+  };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+const MAX_RANGE_DAYS = 366;
+
+export class UsageLedgerError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'UsageLedgerError';
+  }
+}
+
+export class UsageLedger {
+  constructor(private storage: LedgerStorage, private prefix = 'usage-logs/daily') {}
+
+  /**
+   * Append an entry to the log for `date`. Existing entries are never rewritten;
+   * totals are recomputed from the full entry list on every append.
+   */
+  async append(date: string, input: Partial<CostEvent>): Promise<DailyUsageLog> {
+    assertDate(date);
+    const entry = toCostEvent(input);
+
+    // Optimistic concurrency: retried if another writer updated the day in between
+    const { state } = await casUpdate(this.storage, this.keyFor(date), () => createEmptyDailyLog(date), log => {
+      if (log.entries.some(e => e.id === entry.id)) {
+        return CAS_UNCHANGED; // Duplicate delivery of the same entry
+      }
+      Object.assign(log, rollupDailyLog({ ...log, entries: [...log.entries, entry] }));
+    });
+    return state;
+  }
+
+  async getDailyLog(date: string): Promise<DailyUsageLog> {
+    assertDate(date);
+    const existing = await this.storage.read(this.keyFor(date));
+    return existing ? JSON.parse(existing.body) : createEmptyDailyLog(date);
+  }
+
+  async getRangeStats(from: string, to: string): Promise<UsageRollup> {
+    assertDate(from);
+    assertDate(to);
+
+    const dates = enumerateDates(from, to);
+    if (dates.length === 0) {
+      throw new UsageLedgerError(`Invalid range: ${from} is after ${to}`);
+    }
+    if (dates.length > MAX_RANGE_DAYS) {
+      throw new UsageLedgerError(`Range too large: ${dates.length} days (max ${MAX_RANGE_DAYS})`);
+    }
+
+    const logs = await Promise.all(dates.map(date => this.getDailyLog(date)));
+    return combineLogs(from, to, logs);
+  }
+
+  async getMonthlyStats(month: string): Promise<UsageRollup> {
+    if (!MONTH_PATTERN.test(month)) {
+      throw new UsageLedgerError(`Invalid month: ${month} (expected YYYY-MM)`);
+    }
+
+    const [year, monthNumber] = month.split('-').map(Number);
+    const daysInMonth = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+    return this.getRangeStats(`${month}-01`, `${month}-${daysInMonth.toString().padStart(2, '0')}`);
+  }
+
+  /**
+   * Stats in the shape the API usage dashboard reads: today plus month-to-date
+   */
+  async getStats(date = todayUTC()): Promise<UsageStats> {
+    assertDate(date);
+    const [daily, monthly] = await Promise.all([
+      this.getDailyLog(date),
+      this.getRangeStats(`${date.slice(0, 7)}-01`, date)
+    ]);
+
+    return {
+      daily: daily.totals,
+      monthly: monthly.services,
+      models: {
+        daily: daily.models,
+        monthly: monthly.models
+      },
+      summary: {
+        dailyTotal: sumCost(daily.totals),
+        monthlyTotal: monthly.totalCost,
+        lastUpdated: daily.lastUpdated
+      }
+    };
+  }
+
+  private keyFor(date: string): string {
+    return `${this.prefix}/${date}.json`;
+  }
+}
+
+/**
+ * Build a ledger from a Pages Functions env. Expects the R2 binding `R2_BUCKET`.
+ */
+export function createUsageLedger(env: { R2_BUCKET?: R2BucketBinding }): UsageLedger {
+  if (!env.R2_BUCKET) {
+    throw new UsageLedgerError('R2_BUCKET binding not configured - usage ledger unavailable', 503);
+  }
+  return new UsageLedger(new R2BucketLedgerStorage(env.R2_BUCKET));
+}
+
+export function createEmptyDailyLog(date: string): DailyUsageLog {
+  return {
+    date,
+    entries: [],
+    totals: createEmptyServiceTotals(),
+    models: {},
+    lastUpdated: new Date().toISOString()
+  };
+}
+
+export function createEmptyUsageStats(): UsageStats {
+  return {
+    daily: createEmptyServiceTotals(),
+    monthly: createEmptyServiceTotals(),
+    models: { daily: {}, monthly: {} },
+    summary: {
+      dailyTotal: 0,
+      monthlyTotal: 0,
+      lastUpdated: new Date().toISOString()
+    }
+  };
+}
+
+export function todayUTC(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function createEmptyTotals(): UsageTotals {
+  return { tokens: 0, characters: 0, requests: 0, cost: 0 };
+}
+
+function createEmptyServiceTotals(): Record<UsageService, UsageTotals> {
+  const totals = {} as Record<UsageService, UsageTotals>;
+  COST_SERVICES.forEach(service => {
+    totals[service] = createEmptyTotals();
+  });
+  return totals;
+}
+
+function addToTotals(target: UsageTotals, source: Partial<UsageTotals>): void {
+  target.tokens += source.tokens || 0;
+  target.characters += source.characters || 0;
+  target.requests += source.requests || 0;
+  target.cost += source.cost || 0;
+}
+
+function rollupDailyLog(log: DailyUsageLog): DailyUsageLog {
+  const totals = createEmptyServiceTotals();
+  const models: Record<string, UsageTotals> = {};
+
+  for (const entry of log.entries) {
+    addToTotals(totals[entry.service], entry);
+
+    if (entry.model) {
+      const modelKey = `${entry.service}:${entry.model}`;
+      models[modelKey] = models[modelKey] || createEmptyTotals();
+      addToTotals(models[modelKey], entry);
+    }
+  }
+
+  return {
+    ...log,
+    totals,
+    models,
+    lastUpdated: new Date().toISOString()
+  };
+}
+
+function combineLogs(from: string, to: string, logs: DailyUsageLog[]): UsageRollup {
+  const services = createEmptyServiceTotals();
+  const models: Record<string, UsageTotals> = {};
+
+  for (const log of logs) {
+    COST_SERVICES.forEach(service => addToTotals(services[service], log.totals[service] || {}));
+
+    Object.entries(log.models || {}).forEach(([modelKey, totals]) => {
+      models[modelKey] = models[modelKey] || createEmptyTotals();
+      addToTotals(models[modelKey], totals);
+    });
+  }
+
+  return {
+    from,
+    to,
+    days: logs.length,
+    services,
+    models,
+    totalCost: sumCost(services)
+  };
+}
+
+function sumCost(totals: Record<string, UsageTotals>): number {
+  return Object.values(totals).reduce((sum, t) => sum + t.cost, 0);
+}
+
+function toCostEvent(input: Partial<CostEvent>): CostEvent {
+  try {
+    return normalizeCostEvent(input);
+  } catch (error) {
+    if (error instanceof CostEventError) {
+      throw new UsageLedgerError(error.message);
+    }
+    throw error;
+  }
+}
+
+function assertDate(date: string): void {
+  if (!DATE_PATTERN.test(date) || isNaN(Date.parse(`${date}T00:00:00Z`))) {
+    throw new UsageLedgerError(`Invalid date: ${date} (expected YYYY-MM-DD)`);
+  }
+}
+
+function enumerateDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+
+  while (cursor <= end && dates.length <= MAX_RANGE_DAYS) {
+    dates.push(cursor.toISOString().split('T')[0]);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+export default UsageLedger;
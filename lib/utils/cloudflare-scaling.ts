@@ -418,14 +418,15 @@ export class CloudflareScalingManager {
 
   // Get current performance metrics
   private getCurrentMetrics(): any {
-    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming;
+    // No navigation entry outside a page (server-side, workers, tests)
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
     
     return {
       timestamp: Date.now(),
-      pageLoadTime: navigation.loadEventEnd - navigation.loadEventStart,
-      domContentLoaded: navigation.domContentLoadedEventEnd - navigation.domContentLoadedEventStart,
-      firstByte: navigation.responseStart - navigation.requestStart,
-      domComplete: navigation.domComplete - navigation.domLoading,
+      pageLoadTime: navigation ? navigation.loadEventEnd - navigation.loadEventStart : 0,
+      domContentLoaded: navigation ? navigation.domContentLoadedEventEnd - navigation.domContentLoadedEventStart : 0,
+      firstByte: navigation ? navigation.responseStart - navigation.requestStart : 0,
+      domComplete: navigation ? navigation.domComplete - navigation.domLoading : 0,
       resourceCount: this.resourceLoads.length,
       cachedResources: this.resourceLoads.filter(r => r.cached).length,
       averageResourceLoadTime: this.resourceLoads.reduce((sum, r) => sum + r.loadTime, 0) / this.resourceLoads.length || 0
@@ -0,0 +1,195 @@
+// Shotstack Pipeline Client
+// The three Shotstack APIs the video workflow calls: Ingest (upload the
+// background video), Create (text-to-speech asset) and Edit (render). Kept
+// free of workflow state so each call maps onto one checkpoint. The two
+// billable calls record their spend in the cost ledger themselves.
+
+import { costLedger } from '../usage/cost-ledger';
+
+export class ShotstackPipelineError extends Error {
+  constructor(message: string, public readonly status: number = 502) {
+    super(message);
+    this.name = 'ShotstackPipelineError';
+  }
+}
+
+export interface ShotstackPipelineOptions {
+  origin?: string; // Defaults to https://api.shotstack.io - override for a local fake
+  assetPollIntervalMs?: number;
+  assetPollAttempts?: number;
+}
+
+export interface SpeechAsset {
+  assetId: string;
+  audioUrl?: string; // Missing until Shotstack has finished generating it
+}
+
+const DEFAULT_ORIGIN = 'https://api.shotstack.io';
+
+// ~$0.018 per 1000 characters
+export const SHOTSTACK_TTS_COST_PER_CHAR = 0.000018;
+
+/**
+ * Shotstack render pricing: roughly $0.05 per started minute of output
+ */
+export function estimateRenderCost(durationSeconds: number): number {
+  return Math.ceil(durationSeconds / 60) * 0.05;
+}
+
+export class ShotstackPipelineClient {
+  private origin: string;
+  private assetPollIntervalMs: number;
+  private assetPollAttempts: number;
+
+  constructor(private apiKey: string, private stage: 'stage' | 'v1', options: ShotstackPipelineOptions = {}) {
+    this.origin = (options.origin || DEFAULT_ORIGIN).replace(/\/$/, '');
+    this.assetPollIntervalMs = options.assetPollIntervalMs ?? 3000;
+    this.assetPollAttempts = options.assetPollAttempts ?? 20;
+  }
+
+  /**
+   * Upload the raw background video through a signed Ingest URL
+   */
+  async uploadSource(video: ArrayBuffer): Promise<{ sourceId: string; sourceUrl: string }> {
+    const uploadData = await this.request('POST', `/ingest/${this.stage}/upload`, {}, 'get upload URL');
+
+    const signedUrl = uploadData.data?.attributes?.url || uploadData.data?.url;
+    const sourceId = uploadData.data?.attributes?.id || uploadData.data?.id;
+    if (!signedUrl || !sourceId) {
+      throw new ShotstackPipelineError(`Missing required fields from upload response. Got: ${JSON.stringify(uploadData)}`);
+    }
+
+    // IMPORTANT: Do NOT set Content-Type header as per Shotstack docs
+    const putResponse = await fetch(signedUrl, {
+      method: 'PUT',
+      body: video,
+      headers: { 'Content-Length': video.byteLength.toString() }
+    });
+    if (!putResponse.ok) {
+      throw new ShotstackPipelineError(`Failed to upload video: ${putResponse.status} - ${await putResponse.text()}`);
+    }
+
+    return {
+      sourceId,
+      sourceUrl: `https://shotstack-api-${this.stage}-sources.s3.amazonaws.com/${sourceId}`
+    };
+  }
+
+  /**
+   * Request a Shotstack TTS voiceover for one chunk of text (at most 2000
+   * characters - see lib/narration/text-chunker.ts). This is the billable
+   * call - the returned asset id should be stored before waiting for the
+   * audio URL.
+   */
+  async createSpeech(text: string, voice: string = 'Matthew'): Promise<SpeechAsset> {
+    const audioData = await this.request(
+      'POST',
+      `/create/${this.stage}/assets`,
+      {
+        provider: 'shotstack', // Using Shotstack's built-in TTS (NOT elevenlabs)
+        options: {
+          type: 'text-to-speech',
+          text,
+          voice,
+          language: 'en-US',
+          newscaster: true // Professional news-style delivery
+        }
+      },
+      'create audio'
+    );
+
+    const assetId = audioData.data?.id || audioData.data?.attributes?.id;
+    if (!assetId) {
+      throw new ShotstackPipelineError(`Missing asset id from TTS response. Got: ${JSON.stringify(audioData)}`);
+    }
+
+    await costLedger.record({
+      service: 'shotstack',
+      operation: 'text_to_speech',
+      source: 'ShotstackPipelineClient',
+      cost: text.length * SHOTSTACK_TTS_COST_PER_CHAR,
+      characters: text.length,
+      requestId: assetId,
+      metadata: { voice, stage: this.stage }
+    });
+    return { assetId, audioUrl: audioData.data?.attributes?.url || undefined };
+  }
+
+  /**
+   * Poll a Create API asset until its URL is available
+   */
+  async waitForAsset(assetId: string): Promise<string> {
+    for (let attempt = 0; attempt < this.assetPollAttempts; attempt++) {
+      const asset = await this.request('GET', `/create/${this.stage}/assets/${assetId}`, undefined, 'check audio');
+      const attributes = asset.data?.attributes || {};
+
+      if (attributes.status === 'failed') {
+        throw new ShotstackPipelineError(`TTS asset ${assetId} failed: ${attributes.error || 'unknown error'}`);
+      }
+      if (attributes.url) return attributes.url;
+
+      await new Promise(resolve => setTimeout(resolve, this.assetPollIntervalMs));
+    }
+
+    throw new ShotstackPipelineError(`TTS asset ${assetId} is still not ready`, 504);
+  }
+
+  /**
+   * Submit an Edit API render and return its id. durationSeconds is the
+   * length of the timeline, which is what the render is billed on.
+   */
+  async submitRender(renderBody: { timeline: any; output: any; callback?: string | null }, durationSeconds: number): Promise<string> {
+    const renderData = await this.request('POST', `/edit/${this.stage}/render`, renderBody, 'create render');
+    const renderId = renderData.response?.id || renderData.data?.id;
+    if (!renderId) {
+      throw new ShotstackPipelineError(`Missing render id from render response. Got: ${JSON.stringify(renderData)}`);
+    }
+
+    await costLedger.record({
+      service: 'shotstack',
+      operation: 'render_video',
+      source: 'ShotstackPipelineClient',
+      cost: estimateRenderCost(durationSeconds),
+      seconds: durationSeconds,
+      requestId: renderId,
+      metadata: { stage: this.stage }
+    });
+    return renderId;
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body: unknown, action: string): Promise<any> {
+    const response = await fetch(`${this.origin}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ Failed to ${action}:`, errorText);
+      throw new ShotstackPipelineError(`Failed to ${action}: ${response.status} - ${errorText}`);
+    }
+    return response.json();
+  }
+}
+
+/**
+ * Pipeline client for Pages Functions bindings. SHOTSTACK_API_URL (see
+ * ShotstackService) redirects all three APIs to the same host.
+ */
+export function createShotstackPipelineClient(
+  env: { SHOTSTACK_SANDBOX_API_KEY?: string; SHOTSTACK_PRODUCTION_API_KEY?: string; SHOTSTACK_API_URL?: string },
+  useProduction: boolean
+): ShotstackPipelineClient {
+  const apiKey = useProduction ? env.SHOTSTACK_PRODUCTION_API_KEY : env.SHOTSTACK_SANDBOX_API_KEY;
+  if (!apiKey) {
+    throw new ShotstackPipelineError(`Shotstack API key not configured for ${useProduction ? 'production' : 'sandbox'} mode`, 500);
+  }
+
+  return new ShotstackPipelineClient(apiKey, useProduction ? 'v1' : 'stage', {
+    origin: env.SHOTSTACK_API_URL ? new URL(env.SHOTSTACK_API_URL).origin : undefined
+  });
+}
@@ -0,0 +1,298 @@
+// Shotstack render callbacks
+// Renders are submitted with a per-workflow callback URL carrying an HMAC
+// token. When Shotstack calls back we check the token, record the raw
+// payload, confirm the status with the Shotstack API (the callback body is
+// never trusted for the video URL) and move the workflow forward: progress
+// while rendering, then copy the MP4 into R2 once it is done. The same state
+// machine backs the polling fallback for callbacks that never arrive.
+
+import { GeneratedVideo, RenderTracking, WorkflowState } from '../types/reddit-automation';
+import { buildUploadDescription, getStorySource } from '../attribution/attribution';
+import { ContentHistory, createContentHistory } from '../content-history/content-history';
+import { ShotstackService, VideoBucketBinding } from '../services/shotstack-service';
+import { LedgerStorage, R2BucketBinding } from '../usage/ledger-storage';
+import { WorkflowStore, WorkflowStoreError } from './workflow-store';
+
+export interface ShotstackCallbackPayload {
+  type?: string; // 'edit'
+  action?: string; // 'render'
+  id: string;
+  owner?: string;
+  status: string;
+  url?: string;
+  error?: string | null;
+  completed?: string;
+}
+
+export interface RenderStatusUpdate {
+  renderId: string;
+  status: RenderTracking['status'];
+  progress?: number;
+  url?: string;
+  error?: string;
+}
+
+export interface RenderDependencies {
+  // Shotstack client for the workflow's environment
+  getService: (environment: RenderTracking['environment']) => ShotstackService;
+  bucket?: VideoBucketBinding;
+  history?: ContentHistory; // Marks the story used once its video is stored, or releases it if the render fails
+}
+
+const RENDER_PROGRESS: Record<string, number> = {
+  queued: 75,
+  fetching: 80,
+  rendering: 85,
+  saving: 90,
+  done: 95,
+  storing: 95
+};
+
+// A 'storing' claim older than this is assumed abandoned and can be retaken
+const STORING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * HMAC-SHA256(secret, workflowId) as hex. Scoped to one workflow so a leaked
+ * callback URL can't be replayed against another.
+ */
+export async function createCallbackToken(secret: string, workflowId: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(workflowId));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function verifyCallbackToken(secret: string, workflowId: string, token: string | null): Promise<boolean> {
+  if (!token) return false;
+  const expected = await createCallbackToken(secret, workflowId);
+  if (expected.length !== token.length) return false;
+
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ token.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function buildShotstackCallbackUrl(callbackBase: string, secret: string, workflowId: string): Promise<string> {
+  const url = new URL(callbackBase);
+  url.searchParams.set('workflowId', workflowId);
+  url.searchParams.set('token', await createCallbackToken(secret, workflowId));
+  return url.toString();
+}
+
+/**
+ * Keep every callback as received, for debugging missed or duplicate deliveries
+ */
+export async function recordShotstackCallback(
+  storage: LedgerStorage,
+  workflowId: string,
+  payload: ShotstackCallbackPayload
+): Promise<void> {
+  const receivedAt = new Date().toISOString();
+  const key = `webhooks/shotstack/${payload.id}/${Date.now()}_${Math.random().toString(36).substr(2, 5)}.json`;
+  await storage.write(key, JSON.stringify({ workflowId, receivedAt, payload }), null);
+}
+
+/**
+ * Ask Shotstack for the render's real status and apply it to the workflow.
+ * Used by the webhook (to verify the callback) and by the polling fallback.
+ */
+export async function reconcileRender(
+  store: WorkflowStore,
+  workflowId: string,
+  via: RenderTracking['updatedVia'],
+  deps: RenderDependencies
+): Promise<WorkflowState> {
+  const workflow = await store.get(workflowId);
+  if (!workflow) {
+    throw new WorkflowStoreError(`Workflow ${workflowId} not found`, 404);
+  }
+  if (!workflow.render) {
+    throw new WorkflowStoreError(`Workflow ${workflowId} has no render yet`, 409);
+  }
+  if (workflow.render.status === 'stored' || workflow.render.status === 'failed') {
+    return workflow;
+  }
+
+  const status = await deps.getService(workflow.render.environment).getRenderStatus(workflow.render.renderId);
+  if (!status.success || !status.data) {
+    throw new WorkflowStoreError(`Could not confirm render ${workflow.render.renderId}: ${status.error}`, 502);
+  }
+
+  return applyRenderStatus(
+    store,
+    workflowId,
+    {
+      renderId: workflow.render.renderId,
+      status: status.data.status,
+      progress: status.data.progress,
+      url: status.data.downloadUrl,
+      error: status.data.error
+    },
+    via,
+    deps
+  );
+}
+
+/**
+ * Move the workflow forward for a confirmed render status. Idempotent: repeat
+ * callbacks and concurrent polls download the video at most once.
+ */
+export async function applyRenderStatus(
+  store: WorkflowStore,
+  workflowId: string,
+  update: RenderStatusUpdate,
+  via: RenderTracking['updatedVia'],
+  deps: RenderDependencies
+): Promise<WorkflowState> {
+  const now = () => new Date().toISOString();
+
+  if (update.status === 'failed') {
+    let failed = false;
+    const failedState = await store.update(workflowId, workflow => {
+      failed = false;
+      const render = requireRender(workflow, update.renderId);
+      if (render.status === 'stored' || render.status === 'failed') return false;
+
+      Object.assign(render, { status: 'failed', error: update.error || 'Render failed', updatedVia: via, updatedAt: now() });
+      workflow.status = 'failed';
+      workflow.failedStep = 'render'; // Resuming submits a fresh render
+      workflow.currentStep = 'render failed';
+      workflow.error = `Shotstack render failed: ${render.error}`;
+      failed = true;
+    });
+
+    if (failed && failedState.request && deps.history) {
+      await deps.history
+        .recordFailure(failedState.request.story, failedState)
+        .catch(error => console.error(`❌ Could not release ${workflowId} in content history:`, error));
+    }
+    return failedState;
+  }
+
+  if (update.status !== 'done') {
+    return store.update(workflowId, workflow => {
+      const render = requireRender(workflow, update.renderId);
+      if (render.status === update.status || ['done', 'storing', 'stored', 'failed'].includes(render.status)) return false;
+
+      Object.assign(render, { status: update.status, progress: update.progress, updatedVia: via, updatedAt: now() });
+      workflow.currentStep = `rendering (${update.status})`;
+      workflow.progress = Math.max(workflow.progress, RENDER_PROGRESS[update.status] || workflow.progress);
+    });
+  }
+
+  if (!update.url) {
+    throw new WorkflowStoreError(`Render ${update.renderId} is done but has no URL`, 502);
+  }
+
+  // Claim the download so only one caller copies the file
+  let claimed = false;
+  const claimedState = await store.update(workflowId, workflow => {
+    claimed = false;
+    const render = requireRender(workflow, update.renderId);
+    if (render.status === 'stored') return false;
+    if (render.status === 'storing' && Date.now() - Date.parse(render.updatedAt) < STORING_TIMEOUT_MS) return false;
+
+    Object.assign(render, { status: 'storing', sourceUrl: update.url, error: undefined, updatedVia: via, updatedAt: now() });
+    workflow.status = 'processing';
+    workflow.error = undefined;
+    workflow.currentStep = 'storing video';
+    workflow.progress = Math.max(workflow.progress, RENDER_PROGRESS.storing);
+    claimed = true;
+  });
+  if (!claimed) return claimedState;
+
+  const service = deps.getService(claimedState.render!.environment);
+  const stored = await service.downloadAndStoreVideo(update.url, `${workflowId}.mp4`, deps.bucket);
+
+  const finished = await store.update(workflowId, workflow => {
+    const render = requireRender(workflow, update.renderId);
+
+    if (!stored.success || !stored.data) {
+      // Leave the render 'done' so the next callback or poll retries the copy
+      Object.assign(render, { status: 'done', error: stored.error, updatedVia: via, updatedAt: now() });
+      workflow.status = 'failed';
+      workflow.currentStep = 'storing video failed';
+      workflow.error = `Render finished but copying it to storage failed: ${stored.error}`;
+      return;
+    }
+
+    Object.assign(render, { status: 'stored', error: undefined, updatedVia: via, updatedAt: now() });
+    workflow.status = 'completed';
+    workflow.currentStep = 'completed';
+    workflow.progress = 100;
+    workflow.error = undefined;
+    workflow.videos = [buildGeneratedVideo(workflow, stored.data.url, stored.data.size)];
+  });
+
+  const video = finished.status === 'completed' ? finished.videos?.[0] : undefined;
+  if (video && finished.request && deps.history) {
+    // The video is safely stored either way; a missed history update only weakens duplicate checks
+    await deps.history
+      .record(finished.request.story, { status: 'completed', workflowId, videoId: video.id, videoUrl: video.video_url })
+      .catch(error => console.error(`❌ Could not record ${workflowId} in content history:`, error));
+  }
+
+  return finished;
+}
+
+function requireRender(workflow: WorkflowState, renderId: string): RenderTracking {
+  if (!workflow.render || workflow.render.renderId !== renderId) {
+    throw new WorkflowStoreError(`Render ${renderId} does not belong to workflow ${workflow.workflowId}`, 409);
+  }
+  return workflow.render;
+}
+
+function buildGeneratedVideo(workflow: WorkflowState, videoUrl: string, fileSize: number): GeneratedVideo {
+  const costs = workflow.costs;
+  const story = workflow.request?.story;
+  const source = story ? getStorySource(story) : undefined;
+  return {
+    id: `video_${workflow.workflowId}`,
+    story_id: workflow.request?.story.id || 'unknown',
+    video_url: videoUrl,
+    duration: workflow.request?.durationSeconds || 0,
+    file_size: fileSize,
+    captions_file: workflow.captions?.srtUrl,
+    created_at: new Date().toISOString(),
+    source,
+    description: story && source ? buildUploadDescription(story, source, workflow.music?.credit) : undefined,
+    // Credited only when the enhanced text is what the video narrates
+    prompt: workflow.checkpoints?.tts?.narrated === 'enhanced' ? story?.enhancement_prompt : undefined,
+    api_costs: costs
+      ? {
+          claude_cost: costs.claudeCost,
+          shotstack_cost: costs.shotstackCost,
+          elevenlabs_cost: costs.elevenlabsCost,
+          total_cost: costs.totalCost
+        }
+      : undefined
+  };
+}
+
+/**
+ * Render dependencies from Pages Functions bindings
+ */
+export function createRenderDependencies(env: {
+  SHOTSTACK_SANDBOX_API_KEY?: string;
+  SHOTSTACK_PRODUCTION_API_KEY?: string;
+  R2_BUCKET?: VideoBucketBinding & R2BucketBinding;
+}): RenderDependencies {
+  return {
+    getService: environment =>
+      environment === 'production'
+        ? new ShotstackService(env.SHOTSTACK_PRODUCTION_API_KEY, true)
+        : new ShotstackService(env.SHOTSTACK_SANDBOX_API_KEY, false),
+    bucket: env.R2_BUCKET,
+    history: createContentHistory(env) || undefined
+  };
+}
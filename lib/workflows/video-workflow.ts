@@ -0,0 +1,556 @@
+// Video Workflow - upload → TTS → render as checkpointed steps
+// Each step stores its result on the workflow (checkpoints) before the next
+// one starts. A failed or timed-out workflow resumes from the first step
+// without a checkpoint, so the background video is uploaded once and the
+// voiceover is paid for once. The narration is synthesized in sentence-sized
+// chunks (each checkpointed) and laid back-to-back on the timeline. The
+// render then finishes through the Shotstack webhook (see shotstack-webhook.ts).
+// Captions are timed against each chunk's measured audio and burned in, with
+// SRT/WebVTT copies stored in R2. The story (and any enhanced rewrite) is
+// screened for unsafe content before the voiceover is paid for, and the
+// caption text again before the render; verdicts are kept on the workflow.
+// An "r/subreddit • u/author" overlay credits the source unless the request
+// turns attribution off. A request can pick its background from the library
+// (lib/backgrounds) instead of uploading one; the picked clips are recorded
+// at the upload step and cut to the narration's length at render time.
+// A soundtrack from the music library (lib/music) plays under the voice,
+// ducked while it speaks; the chosen track is kept on the workflow.
+
+import { buildAttributionTrack, getStorySource, resolveAttributionSettings } from '../attribution/attribution';
+import {
+  BackgroundBucketBinding,
+  BackgroundLibrary,
+  buildBackgroundTrack,
+  createBackgroundLibrary,
+  planBackgroundSegments
+} from '../backgrounds/background-library';
+import { CaptionCue, groupCaptionCues } from '../captions/caption-cues';
+import { CaptionBucketBinding, storeCaptionFiles } from '../captions/caption-files';
+import { estimateWordTimings, roundSeconds } from '../captions/caption-timing';
+import { buildCaptionTrack } from '../captions/caption-track';
+import { createMusicLibrary, MusicBucketBinding, MusicLibrary } from '../music/music-library';
+import { buildSoundtrackTrack, getSpeechRanges } from '../music/soundtrack';
+import { fetchAudioDuration, getAudioDuration } from '../narration/audio-duration';
+import { buildNarrationTrack, layoutNarration, NarrationLayout } from '../narration/narration';
+import { AudioBucketBinding, createR2NarrationAudioStore, NarrationAudioStore } from '../narration/narration-audio-store';
+import { chunkNarrationText } from '../narration/text-chunker';
+import { ContentSafetyClassifier, ContentSafetyError, createContentSafetyClassifier, describeVerdict } from '../safety/content-safety';
+import { ShotstackTTSProvider } from '../tts/shotstack-tts';
+import { estimateSpeechCost, SpeechResult, TTSProvider } from '../tts/tts-provider';
+import { createTTSProvider, TTSEnv } from '../tts/tts-registry';
+import {
+  CaptionTimingSource,
+  MusicBed,
+  NarrationChunkCheckpoint,
+  SafetyStage,
+  VideoWorkflowStep,
+  WorkflowCheckpoints,
+  WorkflowRequest,
+  WorkflowState
+} from '../types/reddit-automation';
+import { R2BucketBinding } from '../usage/ledger-storage';
+import { buildShotstackCallbackUrl } from './shotstack-webhook';
+import { createShotstackPipelineClient, estimateRenderCost, ShotstackPipelineClient } from './shotstack-pipeline';
+import { WorkflowStore, WorkflowStoreError } from './workflow-store';
+
+export const VIDEO_WORKFLOW_STEPS: VideoWorkflowStep[] = ['upload', 'tts', 'render'];
+
+export interface VideoWorkflowDependencies {
+  client: ShotstackPipelineClient;
+  backgroundVideo?: ArrayBuffer | null; // Only needed until the upload checkpoint exists
+  backgrounds?: BackgroundLibrary | null; // For requests that pick their background from the library
+  music?: MusicLibrary | null; // Soundtrack library; renders have no music without it
+  callbackUrl?: string | null;
+  captionBucket?: CaptionBucketBinding | null; // Where SRT/WebVTT files go; burned-in captions only without it
+  tts?: TTSProvider; // Defaults to Shotstack TTS through the client
+  audioStore?: NarrationAudioStore | null; // Hosts audio from providers that return bytes
+  safety?: ContentSafetyClassifier; // Defaults to the rules without a model pass
+}
+
+// A processing workflow with no update for this long is assumed to have died
+// with its request and may be resumed
+export const WORKFLOW_STALLED_AFTER_MS = 5 * 60 * 1000;
+
+// Cost guard: a Shotstack chunk (~1900 characters) is about two minutes of speech.
+// A longer story fails the tts step rather than being narrated in part.
+const MAX_NARRATION_CHUNKS = 12;
+
+const STEP_LABELS: Record<VideoWorkflowStep, string> = {
+  upload: 'uploading background video',
+  tts: 'generating voiceover',
+  render: 'submitting render'
+};
+
+const STEP_PROGRESS: Record<VideoWorkflowStep, { start: number; done: number }> = {
+  upload: { start: 5, done: 30 },
+  tts: { start: 35, done: 60 },
+  render: { start: 65, done: 70 }
+};
+
+/**
+ * First step without a checkpoint, or null once the render is submitted
+ */
+export function getNextStep(workflow: WorkflowState): VideoWorkflowStep | null {
+  const checkpoints = workflow.checkpoints || {};
+  if (!checkpoints.upload) return 'upload';
+  if (!checkpoints.tts?.completedAt) return 'tts';
+  if (!checkpoints.render) return 'render';
+  return null;
+}
+
+/**
+ * Run every step that has no checkpoint yet. Step failures are recorded on
+ * the workflow (status 'failed', failedStep) and the failed state is
+ * returned rather than thrown.
+ */
+export async function runVideoWorkflow(
+  store: WorkflowStore,
+  workflowId: string,
+  deps: VideoWorkflowDependencies
+): Promise<WorkflowState> {
+  let workflow = await requireWorkflow(store, workflowId);
+  let step = getNextStep(workflow);
+
+  try {
+    while (step) {
+      workflow = await runStep(store, workflow, step, deps);
+      step = getNextStep(workflow);
+    }
+    return workflow;
+  } catch (error: any) {
+    const failedStep = step!;
+    console.error(`❌ Workflow ${workflowId} failed at ${failedStep}:`, error);
+
+    return store.update(workflowId, state => {
+      state.status = 'failed';
+      state.failedStep = failedStep;
+      state.currentStep = `${STEP_LABELS[failedStep]} failed`;
+      state.error = error?.message || `Step ${failedStep} failed`;
+    });
+  }
+}
+
+/**
+ * Restart a failed or stalled workflow from its last checkpoint
+ */
+export async function resumeVideoWorkflow(
+  store: WorkflowStore,
+  workflowId: string,
+  deps: VideoWorkflowDependencies
+): Promise<WorkflowState> {
+  const existing = await requireWorkflow(store, workflowId);
+  assertResumable(existing);
+
+  // Claim the workflow atomically so two resume requests can't both run it
+  const claimed = await store.update(workflowId, workflow => {
+    assertResumable(workflow);
+
+    // A failed render can't be retried by Shotstack - submit a new one
+    if (workflow.render?.status === 'failed' && workflow.checkpoints) {
+      workflow.checkpoints.render = undefined;
+      workflow.render = undefined;
+    }
+
+    const step = getNextStep(workflow);
+    if (step === 'upload' && !deps.backgroundVideo && !workflow.request?.background) {
+      throw new WorkflowStoreError('The background video never finished uploading - resend it to resume', 400);
+    }
+
+    workflow.status = 'processing';
+    workflow.error = undefined;
+    workflow.failedStep = undefined;
+    workflow.resumeCount = (workflow.resumeCount || 0) + 1;
+    workflow.currentStep = `resuming (${step ? STEP_LABELS[step] : 'rendering'})`;
+  });
+
+  console.log(`🔁 Resuming workflow ${workflowId} (attempt ${claimed.resumeCount}) from ${getNextStep(claimed)}`);
+  return runVideoWorkflow(store, workflowId, deps);
+}
+
+/**
+ * Throws unless the workflow can be resumed through the step runner. A
+ * render already in Shotstack's hands is finished by the webhook or the
+ * render polling fallback instead.
+ */
+export function assertResumable(workflow: WorkflowState, now: number = Date.now()): void {
+  if (workflow.status === 'completed') {
+    throw new WorkflowStoreError(`Workflow ${workflow.workflowId} is already completed`, 409);
+  }
+  if (workflow.render && workflow.render.status !== 'failed') {
+    throw new WorkflowStoreError(`Workflow ${workflow.workflowId} is waiting on render ${workflow.render.renderId}`, 409);
+  }
+  if (workflow.status === 'processing' && now - Date.parse(workflow.lastUpdated) < WORKFLOW_STALLED_AFTER_MS) {
+    throw new WorkflowStoreError(`Workflow ${workflow.workflowId} is still running`, 409);
+  }
+}
+
+async function runStep(
+  store: WorkflowStore,
+  workflow: WorkflowState,
+  step: VideoWorkflowStep,
+  deps: VideoWorkflowDependencies
+): Promise<WorkflowState> {
+  const workflowId = workflow.workflowId;
+  const request = workflow.request;
+  if (!request) {
+    throw new WorkflowStoreError(`Workflow ${workflowId} has no request to run`, 409);
+  }
+
+  await store.update(workflowId, state => {
+    state.currentStep = STEP_LABELS[step];
+    state.progress = Math.max(state.progress, STEP_PROGRESS[step].start);
+  });
+
+  const completedAt = () => new Date().toISOString();
+
+  switch (step) {
+    case 'upload': {
+      if (request.background) {
+        if (!deps.backgrounds) {
+          throw new WorkflowStoreError('No background library configured (R2_BUCKET)', 500);
+        }
+        const background = await deps.backgrounds.choose(request.background);
+        console.log(`🎞️ Using library background ${background[0].clipId}${background.length > 1 ? ` (+${background.length - 1} more to fill long narrations)` : ''}`);
+
+        return store.update(workflowId, state => {
+          state.checkpoints = {
+            ...state.checkpoints,
+            upload: { sourceId: background[0].clipId, sourceUrl: background[0].src, completedAt: completedAt(), background }
+          };
+          state.progress = Math.max(state.progress, STEP_PROGRESS.upload.done);
+        });
+      }
+
+      if (!deps.backgroundVideo) {
+        throw new WorkflowStoreError('No background video to upload', 400);
+      }
+      console.log(`📤 Uploading background video (${deps.backgroundVideo.byteLength} bytes)...`);
+      const { sourceId, sourceUrl } = await deps.client.uploadSource(deps.backgroundVideo);
+
+      return store.update(workflowId, state => {
+        state.checkpoints = { ...state.checkpoints, upload: { sourceId, sourceUrl, completedAt: completedAt() } };
+        state.progress = Math.max(state.progress, STEP_PROGRESS.upload.done);
+      });
+    }
+
+    case 'tts': {
+      const tts = deps.tts || new ShotstackTTSProvider(deps.client);
+      let chunks = workflow.checkpoints?.tts?.chunks;
+
+      if (!chunks) {
+        if (!request.story.content || typeof request.story.content !== 'string') {
+          throw new WorkflowStoreError('Invalid story content: must be a non-empty string', 400);
+        }
+        workflow = await screenContent(store, workflow, 'story', `${request.story.title}\n${request.story.content}`, deps);
+        // Claude's rewrite is what gets narrated when there is one
+        const enhanced = Boolean(request.story.enhanced_content?.trim());
+        const narration = enhanced ? request.story.enhanced_content! : request.story.content;
+        if (enhanced) {
+          workflow = await screenContent(store, workflow, 'enhanced', narration, deps);
+        }
+        const planned = chunkNarrationText(narration, { maxChars: tts.capabilities.maxChars });
+        if (planned.length > MAX_NARRATION_CHUNKS) {
+          throw new WorkflowStoreError(`Story needs ${planned.length} narration chunks, more than the ${MAX_NARRATION_CHUNKS} allowed - shorten it rather than narrate part of it`, 400);
+        }
+        console.log(`🎤 Narrating ${narration.length} characters of the ${enhanced ? 'enhanced' : 'original'} story in ${planned.length} chunk(s) with ${tts.name} TTS`);
+
+        const saved = await store.update(workflowId, state => {
+          state.checkpoints = {
+            ...state.checkpoints,
+            tts: {
+              chunks: planned.map(chunk => ({ index: chunk.index, text: chunk.text })),
+              narrated: enhanced ? 'enhanced' : 'original',
+              requestedAt: completedAt()
+            }
+          };
+        });
+        chunks = saved.checkpoints!.tts!.chunks;
+      } else {
+        console.log(`♻️ Reusing ${chunks.filter(chunk => chunk.assetId).length}/${chunks.length} requested TTS chunk(s)`);
+      }
+
+      // One chunk at a time, checkpointing after every paid or slow call
+      for (const chunk of chunks) {
+        if (!chunk.assetId && !chunk.audioUrl) {
+          const speech = await tts.synthesize({
+            text: chunk.text,
+            voiceId: request.voiceId,
+            previousText: chunks[chunk.index - 1]?.text,
+            nextText: chunks[chunk.index + 1]?.text
+          });
+          chunks = await updateChunk(store, workflowId, chunk.index, await toChunkAudio(speech, `${workflowId}_${chunk.index}`, deps));
+        }
+      }
+      for (const chunk of chunks) {
+        if (!chunk.audioUrl) {
+          if (!tts.waitForSpeech) {
+            throw new WorkflowStoreError(`Chunk ${chunk.index} has a ${tts.name} job id but ${tts.name} TTS is synchronous`, 409);
+          }
+          chunks = await updateChunk(store, workflowId, chunk.index, { audioUrl: await tts.waitForSpeech(chunk.assetId!) });
+        }
+      }
+      for (const chunk of chunks) {
+        if (!chunk.duration) {
+          chunks = await updateChunk(store, workflowId, chunk.index, { duration: await fetchAudioDuration(chunk.audioUrl!) });
+        }
+      }
+
+      const ttsCost = estimateSpeechCost(tts.capabilities, chunks.reduce((total, chunk) => total + chunk.text.length, 0));
+      return store.update(workflowId, state => {
+        state.checkpoints!.tts!.completedAt = completedAt();
+        state.progress = Math.max(state.progress, STEP_PROGRESS.tts.done);
+        state.costs = addCost(state.costs, tts.name === 'elevenlabs' ? 'elevenlabsCost' : 'shotstackCost', ttsCost);
+      });
+    }
+
+    case 'render': {
+      const { upload, tts } = workflow.checkpoints!;
+      if (!deps.callbackUrl) {
+        console.warn('⚠️ No Shotstack callback configured (SHOTSTACK_WEBHOOK_URL/SECRET) - relying on polling');
+      }
+
+      const layout = layoutNarration(
+        tts!.chunks.map(chunk => ({ index: chunk.index, audioUrl: chunk.audioUrl!, duration: chunk.duration! }))
+      );
+
+      let cues: CaptionCue[] | null = null;
+      let captions: WorkflowState['captions'];
+      if (request.addCaptions !== false) {
+        const timed = buildNarrationCues(tts!.chunks, layout, request.captionMaxWordsPerLine);
+        cues = timed.cues;
+        await screenContent(store, workflow, 'captions', cues.map(cue => cue.lines.join(' ')).join('\n'), deps);
+        if (deps.captionBucket) {
+          captions = await storeCaptionFiles(deps.captionBucket, workflowId, cues, timed.source);
+          console.log(`💬 Stored ${cues.length} caption cues (${captions.srtUrl}, ${captions.vttUrl})`);
+        }
+      }
+
+      // A resumed render keeps the track it picked the first time
+      let music = workflow.music || null;
+      if (!music && request.music !== false && deps.music) {
+        music = await deps.music.choose(request.music || {});
+        if (music) {
+          console.log(`🎵 Soundtrack: ${music.name}`);
+        } else {
+          console.warn('⚠️ The music library is empty - rendering without a soundtrack');
+        }
+      }
+
+      const durationSeconds = renderDuration(request, layout);
+      const renderId = await deps.client.submitRender({
+        timeline: buildRenderTimeline(upload!, layout, request, cues, music),
+        output: {
+          format: 'mp4',
+          resolution: 'hd',
+          fps: 30
+        },
+        callback: deps.callbackUrl || null
+      }, durationSeconds);
+      console.log(`✅ Render started with ID: ${renderId}`);
+
+      return store.update(workflowId, state => {
+        const now = completedAt();
+        state.checkpoints = { ...state.checkpoints, render: { renderId, completedAt: now } };
+        if (captions) state.captions = captions;
+        if (music) state.music = music;
+        state.costs = addCost(state.costs, 'shotstackCost', estimateRenderCost(durationSeconds));
+        state.currentStep = 'rendering (queued)';
+        state.progress = Math.max(state.progress, STEP_PROGRESS.render.done);
+        state.render = {
+          renderId,
+          environment: request.useProduction ? 'production' : 'stage',
+          status: 'queued',
+          updatedVia: 'submit',
+          updatedAt: now
+        };
+      });
+    }
+  }
+}
+
+/**
+ * Caption cues for the whole narration. Chunks use the provider's word
+ * timings when it returned them; otherwise (Shotstack TTS) the words are
+ * spread over the chunk's measured duration. Either way they are shifted to
+ * where the chunk starts on the timeline.
+ */
+function buildNarrationCues(
+  chunks: NarrationChunkCheckpoint[],
+  layout: NarrationLayout,
+  maxWordsPerLine?: number
+): { cues: CaptionCue[]; source: CaptionTimingSource } {
+  const aligned = chunks.every(chunk => chunk.words && chunk.words.length > 0);
+  const words = layout.clips.flatMap(clip => {
+    const chunk = chunks[clip.index];
+    return aligned
+      ? chunk.words!.map(word => ({ text: word.text, start: roundSeconds(word.start + clip.start), end: roundSeconds(word.end + clip.start) }))
+      : estimateWordTimings(chunk.text, { durationSeconds: clip.duration, offset: clip.start });
+  });
+  return { cues: groupCaptionCues(words, { maxWordsPerLine }), source: aligned ? 'alignment' : 'estimate' };
+}
+
+// Long stories are narrated in full rather than cut off at the target length
+function renderDuration(request: WorkflowRequest, layout: NarrationLayout): number {
+  return Math.max(request.durationSeconds, Math.ceil(layout.totalDuration));
+}
+
+function buildRenderTimeline(
+  upload: NonNullable<WorkflowCheckpoints['upload']>,
+  layout: NarrationLayout,
+  request: WorkflowRequest,
+  cues: CaptionCue[] | null,
+  music: MusicBed | null
+) {
+  const durationSeconds = renderDuration(request, layout);
+
+  const tracks: any[] = [
+    // Video track: library clips cut to length, or the uploaded video
+    upload.background
+      ? buildBackgroundTrack(planBackgroundSegments(upload.background, durationSeconds))
+      : {
+          clips: [{
+            asset: { type: 'video', src: upload.sourceUrl },
+            start: 0,
+            length: durationSeconds,
+            offset: { x: 0, y: 0 },
+            scale: 1
+          }]
+        },
+    // Audio track with Shotstack TTS, one clip per narration chunk
+    buildNarrationTrack(layout)
+  ];
+
+  if (music) {
+    // Under the voice track, ducked wherever a narration clip plays
+    tracks.push(buildSoundtrackTrack(music, getSpeechRanges(layout.clips), durationSeconds));
+  }
+
+  const attribution = buildAttributionTrack(getStorySource(request.story), durationSeconds, resolveAttributionSettings(request.attribution));
+  if (attribution) {
+    tracks.unshift(attribution);
+  }
+
+  if (cues && cues.length > 0) {
+    // Burned-in captions - the first track renders on top
+    tracks.unshift(buildCaptionTrack(cues));
+  }
+
+  return { tracks };
+}
+
+/**
+ * Checkpoint fields for one synthesized chunk. Audio bytes are stored
+ * first, since the renderer needs a URL, and measured while at hand.
+ */
+async function toChunkAudio(speech: SpeechResult, name: string, deps: VideoWorkflowDependencies): Promise<Partial<NarrationChunkCheckpoint>> {
+  if (!speech.audio) {
+    return { assetId: speech.jobId, audioUrl: speech.audioUrl, words: speech.words };
+  }
+  if (!deps.audioStore) {
+    throw new WorkflowStoreError('No audio store configured for a TTS provider that returns audio (R2_BUCKET, PUBLIC_BASE_URL)', 500);
+  }
+
+  const extension = speech.contentType === 'audio/wav' ? 'wav' : 'mp3';
+  return {
+    audioUrl: await deps.audioStore.save(`${name}.${extension}`, speech.audio, speech.contentType || 'audio/mpeg'),
+    duration: getAudioDuration(speech.audio),
+    words: speech.words
+  };
+}
+
+/**
+ * Classify text that ends up in the video and store the verdict on the
+ * workflow. A stored verdict is reused on resume, so the model pass is paid
+ * for once per stage - and a blocked stage stays blocked.
+ */
+async function screenContent(
+  store: WorkflowStore,
+  workflow: WorkflowState,
+  stage: SafetyStage,
+  text: string,
+  deps: VideoWorkflowDependencies
+): Promise<WorkflowState> {
+  let verdict = workflow.safety?.[stage];
+  if (!verdict) {
+    const checked = await (deps.safety || new ContentSafetyClassifier()).classify(text, stage);
+    workflow = await store.update(workflow.workflowId, state => {
+      state.safety = { ...state.safety, [stage]: checked };
+      if (checked.llm?.cost) state.costs = addCost(state.costs, 'claudeCost', checked.llm.cost);
+    });
+    verdict = checked;
+  }
+
+  if (verdict.decision === 'block') {
+    throw new ContentSafetyError(`Content safety blocked the ${stage} text: ${describeVerdict(verdict)}`, verdict);
+  }
+  if (verdict.decision === 'review') {
+    console.warn(`⚠️ Content safety flagged the ${stage} text for review: ${describeVerdict(verdict)}`);
+  }
+  return workflow;
+}
+
+function addCost(costs: WorkflowState['costs'], field: 'claudeCost' | 'shotstackCost' | 'elevenlabsCost', amount: number): WorkflowState['costs'] {
+  const current = costs || { claudeCost: 0, shotstackCost: 0, elevenlabsCost: 0, totalCost: 0 };
+  return { ...current, [field]: current[field] + amount, totalCost: current.totalCost + amount };
+}
+
+async function updateChunk(
+  store: WorkflowStore,
+  workflowId: string,
+  index: number,
+  changes: Partial<NarrationChunkCheckpoint>
+): Promise<NarrationChunkCheckpoint[]> {
+  const state = await store.update(workflowId, state => {
+    const chunks = state.checkpoints!.tts!.chunks;
+    chunks[index] = { ...chunks[index], ...changes };
+  });
+  return state.checkpoints!.tts!.chunks;
+}
+
+async function requireWorkflow(store: WorkflowStore, workflowId: string): Promise<WorkflowState> {
+  const workflow = await store.get(workflowId);
+  if (!workflow) {
+    throw new WorkflowStoreError(`Workflow ${workflowId} not found`, 404);
+  }
+  return workflow;
+}
+
+export type VideoWorkflowEnv = TTSEnv & {
+  ANTHROPIC_API_KEY?: string;
+  CONTENT_SAFETY_LLM?: string; // 'true' adds a Claude pass to the content-safety rules
+  CONTENT_SAFETY_MODEL?: string;
+  SHOTSTACK_WEBHOOK_URL?: string;
+  SHOTSTACK_WEBHOOK_SECRET?: string;
+  PUBLIC_BASE_URL?: string; // Public origin for R2-hosted narration audio; defaults to the request origin
+  R2_BUCKET?: CaptionBucketBinding & AudioBucketBinding & BackgroundBucketBinding & MusicBucketBinding & R2BucketBinding;
+};
+
+/**
+ * Step dependencies for Pages Functions bindings
+ */
+export async function createVideoWorkflowDependencies(
+  env: VideoWorkflowEnv,
+  workflow: WorkflowState,
+  backgroundVideo?: ArrayBuffer | null,
+  origin?: string
+): Promise<VideoWorkflowDependencies> {
+  const callbackUrl = env.SHOTSTACK_WEBHOOK_URL && env.SHOTSTACK_WEBHOOK_SECRET
+    ? await buildShotstackCallbackUrl(env.SHOTSTACK_WEBHOOK_URL, env.SHOTSTACK_WEBHOOK_SECRET, workflow.workflowId)
+    : null;
+
+  const useProduction = Boolean(workflow.request?.useProduction);
+  const client = createShotstackPipelineClient(env, useProduction);
+  const publicBaseUrl = env.PUBLIC_BASE_URL || origin;
+
+  return {
+    client,
+    backgroundVideo,
+    backgrounds: workflow.request?.background ? createBackgroundLibrary(env, origin) : null,
+    music: workflow.request?.music !== false ? createMusicLibrary(env, origin) : null,
+    callbackUrl,
+    captionBucket: env.R2_BUCKET || null,
+    tts: createTTSProvider(workflow.request?.ttsProvider, env, { useProduction, client }),
+    audioStore: env.R2_BUCKET && publicBaseUrl ? createR2NarrationAudioStore(env.R2_BUCKET, publicBaseUrl) : null,
+    safety: createContentSafetyClassifier(env)
+  };
+}
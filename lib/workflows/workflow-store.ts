@@ -0,0 +1,76 @@
+// Workflow Store - persisted WorkflowState for video generation runs
+// One object per workflow under workflows/{id}.json, updated with the same
+// compare-and-swap as the usage ledger so the render webhook, the polling
+// fallback and the generating request can all write safely.
+
+import { WorkflowState } from '../types/reddit-automation';
+import { CAS_UNCHANGED, LedgerStorage, R2BucketBinding, R2BucketLedgerStorage, casUpdate } from '../usage/ledger-storage';
+
+export class WorkflowStoreError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'WorkflowStoreError';
+  }
+}
+
+const WORKFLOW_ID_PATTERN = /^workflow_[A-Za-z0-9_]{1,64}$/;
+
+export class WorkflowStore {
+  constructor(private storage: LedgerStorage, private prefix: string = 'workflows') {}
+
+  async create(init: Partial<WorkflowState> = {}): Promise<WorkflowState> {
+    const now = Date.now();
+    const state: WorkflowState = {
+      workflowId: init.workflowId || `workflow_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      status: 'processing',
+      currentStep: 'created',
+      progress: 0,
+      startTime: now,
+      lastUpdated: new Date(now).toISOString(),
+      ...init
+    };
+
+    const created = await this.storage.write(this.keyFor(state.workflowId), JSON.stringify(state), null);
+    if (!created) {
+      throw new WorkflowStoreError(`Workflow ${state.workflowId} already exists`, 409);
+    }
+    return state;
+  }
+
+  async get(workflowId: string): Promise<WorkflowState | null> {
+    const existing = await this.storage.read(this.keyFor(workflowId));
+    return existing ? JSON.parse(existing.body) : null;
+  }
+
+  /**
+   * Apply `mutate` atomically. The callback may run more than once if another
+   * writer got in first; return false from it to skip the write.
+   */
+  async update(workflowId: string, mutate: (state: WorkflowState) => void | false): Promise<WorkflowState> {
+    const missing = (): WorkflowState => {
+      throw new WorkflowStoreError(`Workflow ${workflowId} not found`, 404);
+    };
+    const { state } = await casUpdate(this.storage, this.keyFor(workflowId), missing, current => {
+      if (mutate(current) === false) return CAS_UNCHANGED;
+      current.lastUpdated = new Date().toISOString();
+    });
+    return state;
+  }
+
+  private keyFor(workflowId: string): string {
+    if (!WORKFLOW_ID_PATTERN.test(workflowId)) {
+      throw new WorkflowStoreError(`Invalid workflow id: ${workflowId}`);
+    }
+    return `${this.prefix}/${workflowId}.json`;
+  }
+}
+
+/**
+ * Workflow store for Pages Functions, persisted in the R2 bucket
+ */
+export function createWorkflowStore(env: { R2_BUCKET?: R2BucketBinding }): WorkflowStore {
+  if (!env.R2_BUCKET) {
+    throw new WorkflowStoreError('R2_BUCKET binding not configured - workflow store unavailable', 503);
+  }
+  return new WorkflowStore(new R2BucketLedgerStorage(env.R2_BUCKET));
+}
@@ -0,0 +1,40 @@
+#!/usr/bin/env tsx
+
+/**
+ * Local Shotstack stand-in - renders with ffmpeg instead of spending credits
+ *
+ *   npm run render:local                  listens on 127.0.0.1:4100
+ *   LOCAL_RENDER_PORT=4200 npm run render:local
+ *
+ * Then point the app at it:
+ *   SHOTSTACK_API_URL=http://127.0.0.1:4100/stage
+ *
+ * FFMPEG_PATH, LOCAL_RENDER_FONT (a .ttf for captions) and LOCAL_RENDER_DIR
+ * (where MP4s are kept) are optional.
+ */
+
+import { startLocalRenderServer } from '../lib/render/local-render-server';
+import { LocalRenderer } from '../lib/render/local-renderer';
+
+async function main() {
+  if (!(await new LocalRenderer().isAvailable())) {
+    console.error(`❌ ffmpeg not found at "${process.env.FFMPEG_PATH || 'ffmpeg'}" - install it or set FFMPEG_PATH`);
+    process.exit(1);
+  }
+
+  const server = await startLocalRenderServer({ port: Number(process.env.LOCAL_RENDER_PORT) || 4100 });
+  console.log(`🎬 Local render server on ${server.url}`);
+  console.log(`   SHOTSTACK_API_URL=${server.url}/stage`);
+
+  const stop = async () => {
+    await server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main().catch(error => {
+  console.error('❌ Local render server failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+#!/usr/bin/env tsx
+
+/**
+ * Local queue worker - drains the job queue from a long-lived Node process
+ *
+ *   npm run worker:local
+ *   USAGE_LEDGER_DIR=./output/ledger npm run worker:local
+ *
+ * The queue, Claude's daily budget and the other ledgers are kept under
+ * USAGE_LEDGER_DIR (./output/usage-ledger by default), so limits hold across
+ * restarts and between workers sharing the directory. Video jobs keep their
+ * workflows there as well.
+ */
+
+import { JobQueue } from '../lib/queue/job-queue';
+import { LedgerQueueStore } from '../lib/queue/queue-store';
+import { QueueWorker, createDefaultJobHandlers } from '../lib/queue/queue-worker';
+import { FileSystemLedgerStorage } from '../lib/usage/filesystem-ledger-storage';
+import { configureLedgerStorage } from '../lib/usage/ledger-config';
+import { WorkflowStore } from '../lib/workflows/workflow-store';
+
+const storage = new FileSystemLedgerStorage();
+configureLedgerStorage(storage);
+
+const worker = new QueueWorker(new JobQueue(new LedgerQueueStore(storage)), createDefaultJobHandlers(undefined, new WorkflowStore(storage)));
+worker.start(Number(process.env.QUEUE_POLL_MS) || 5000);
+
+const stop = () => {
+  worker.stop();
+  process.exit(0);
+};
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+
+/**
+ * Test runner - runs the root test_*.ts scripts listed in test-suites.json,
+ * one at a time, each in its own Node process (through tsx) so a script that
+ * calls process.exit or patches globals can't affect the next one.
+ *
+ *   node scripts/run-tests.js              unit + e2e (what CI runs)
+ *   node scripts/run-tests.js live         named suites
+ *   node scripts/run-tests.js e2e test_x.ts   only the named files of those suites
+ *
+ * Each suite sets HTTP_FIXTURES (replay, record or live) for
+ * lib/mocks/http-fixtures.ts. A script fails when it exits non-zero or runs
+ * past the suite's timeout.
+ */
+
+const { spawnSync } = require('child_process');
+const { existsSync, readFileSync } = require('fs');
+const { join } = require('path');
+
+const root = join(__dirname, '..');
+const suites = JSON.parse(readFileSync(join(root, 'test-suites.json'), 'utf8'));
+
+const args = process.argv.slice(2);
+const suiteNames = args.filter(arg => !arg.endsWith('.ts'));
+const onlyFiles = args.filter(arg => arg.endsWith('.ts'));
+const selected = suiteNames.length ? suiteNames : ['unit', 'e2e'];
+
+const unknown = selected.filter(name => !suites[name]);
+if (unknown.length) {
+  console.error(`❌ Unknown suite ${unknown.join(', ')} - expected one of ${Object.keys(suites).join(', ')}`);
+  process.exit(1);
+}
+
+const results = [];
+for (const name of selected) {
+  const suite = suites[name];
+  const files = suite.files.filter(file => !onlyFiles.length || onlyFiles.includes(file));
+  console.log(`\n🧪 ${name}: ${suite.description} (HTTP_FIXTURES=${suite.fixtures})`);
+  console.log('=' .repeat(50));
+
+  for (const file of files) {
+    if (!existsSync(join(root, file))) {
+      results.push({ suite: name, file, ok: false, reason: 'file not found' });
+      continue;
+    }
+
+    console.log(`\n▶️  ${file}`);
+    const started = Date.now();
+    const run = spawnSync(process.execPath, ['--import', 'tsx', file], {
+      cwd: root,
+      stdio: 'inherit',
+      env: { ...process.env, HTTP_FIXTURES: suite.fixtures },
+      timeout: (suite.timeoutSeconds || 120) * 1000
+    });
+    const seconds = ((Date.now() - started) / 1000).toFixed(1);
+
+    if (run.error && run.error.code === 'ETIMEDOUT') {
+      results.push({ suite: name, file, ok: false, reason: `timed out after ${suite.timeoutSeconds || 120}s` });
+    } else if (run.status !== 0) {
+      results.push({ suite: name, file, ok: false, reason: run.error ? run.error.message : `exit ${run.status ?? run.signal}` });
+    } else {
+      results.push({ suite: name, file, ok: true, reason: `${seconds}s` });
+    }
+  }
+}
+
+console.log('\n' + '=' .repeat(50));
+for (const result of results) {
+  console.log(`${result.ok ? '✅' : '❌'} ${result.suite}/${result.file} (${result.reason})`);
+}
+const failed = results.filter(result => !result.ok).length;
+console.log(failed ? `❌ ${failed} of ${results.length} test scripts failed` : `🎉 All ${results.length} test scripts passed`);
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,118 @@
+#!/usr/bin/env tsx
+
+// Source attribution test: the "r/subreddit • u/author" credit text, source
+// metadata from scraped and older stories, the upload description, the
+// overlay clip in both the workflow and ShotstackService timelines (and its
+// absence when turned off), and the finished video record carrying the
+// source. Uses the local fake Shotstack - no network access or API keys needed.
+
+import { startFakeShotstack } from './lib/mocks/fake-shotstack';
+import {
+  buildAttributionTrack,
+  buildUploadDescription,
+  formatAttribution,
+  getStorySource,
+  resolveAttributionSettings
+} from './lib/attribution/attribution';
+import { ShotstackService } from './lib/services/shotstack-service';
+import { buildStory, createTestReport } from './lib/test-data/test-helpers';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { reconcileRender } from './lib/workflows/shotstack-webhook';
+import { ShotstackPipelineClient } from './lib/workflows/shotstack-pipeline';
+import { runVideoWorkflow } from './lib/workflows/video-workflow';
+import { WorkflowStore } from './lib/workflows/workflow-store';
+
+const story = buildStory({
+  id: 'credit123',
+  title: 'TIFU by feeding the wrong cat',
+  content: 'So this happened last week. A cat showed up at my door and I fed it for a month before finding out it had a home.',
+  subreddit: 'tifu',
+  category: 'funny',
+  author: 'cat_person_42',
+  permalink: '/r/tifu/comments/credit123/tifu_by_feeding_the_wrong_cat/',
+  scraped_at: '2026-01-01T00:00:00.000Z'
+});
+
+// Captions are html clips too, so pick the credit out by its text
+const isCredit = (clip: any) => clip.asset.type === 'html' && clip.asset.html.includes('r/tifu');
+const creditClips = (timeline: any) => (timeline?.tracks || [])
+  .flatMap((track: any) => track.clips)
+  .filter(isCredit);
+
+async function testAttribution() {
+  console.log('🏷️ Testing Source Attribution');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  // Source metadata and text
+  const source = getStorySource(story);
+  check(source.permalink === 'https://www.reddit.com/r/tifu/comments/credit123/tifu_by_feeding_the_wrong_cat/', `Permalink from the scraped story (${source.permalink})`);
+  check(source.author === 'cat_person_42' && source.scraped_at === story.scraped_at, 'Author and scrape date kept');
+
+  const older = getStorySource({ ...story, author: '[deleted]', permalink: undefined, scraped_at: undefined });
+  check(older.permalink === 'https://www.reddit.com/r/tifu/comments/credit123' && older.author === null && older.scraped_at === null, 'Older stories fall back to the URL; deleted authors dropped');
+
+  check(formatAttribution(source) === 'r/tifu • u/cat_person_42', 'Default credit text');
+  check(formatAttribution(older) === 'r/tifu', 'Missing author leaves just the subreddit');
+  check(formatAttribution(source, 'via u/{author}') === 'via u/cat_person_42', 'Custom template');
+
+  const description = buildUploadDescription(story, source);
+  check(description.startsWith(story.title) && description.includes(`Story by u/cat_person_42 on r/tifu: ${source.permalink}`), 'Description credits the poster with the link');
+  check(description.includes('#tifu'), 'Description tagged with the subreddit');
+
+  const track = buildAttributionTrack(source, 60, resolveAttributionSettings({ position: 'bottomRight', durationSeconds: 5 }));
+  check(track?.clips[0].position === 'bottomRight' && track?.clips[0].length === 5, 'Position and duration configurable');
+  check(buildAttributionTrack(source, 60, resolveAttributionSettings(false)) === null, 'attribution: false turns the overlay off');
+
+  // Workflow timeline and finished video record
+  const fake = await startFakeShotstack({ renderDelayMs: 200 });
+  process.env.SHOTSTACK_API_URL = `${fake.url}/stage`;
+  const store = new WorkflowStore(new MemoryLedgerStorage());
+  const deps = {
+    client: new ShotstackPipelineClient('fake-key', 'stage', { origin: fake.url, assetPollIntervalMs: 50 }),
+    backgroundVideo: new Uint8Array(2048).buffer,
+    callbackUrl: null
+  };
+
+  try {
+    const credited = await runVideoWorkflow(store, (await store.create({ request: { story, durationSeconds: 60, addCaptions: true } })).workflowId, deps);
+    const timeline = fake.renders.get(credited.render!.renderId)?.timeline;
+    const clips = creditClips(timeline);
+    check(clips.length === 1 && clips[0].asset.html.includes('r/tifu • u/cat_person_42'), 'Workflow render carries the credit overlay');
+    check(!timeline.tracks[0].clips.some(isCredit) && timeline.tracks[1].clips.every(isCredit), 'Captions stay on the top track, credit right below');
+
+    const plain = await runVideoWorkflow(store, (await store.create({ request: { story, durationSeconds: 60, attribution: false } })).workflowId, deps);
+    check(creditClips(fake.renders.get(plain.render!.renderId)?.timeline).length === 0, 'No overlay when attribution is false');
+
+    await new Promise(resolve => setTimeout(resolve, 400));
+    const bucket = { async put(key: string) { return { key, size: 1024 }; } };
+    const finished = await reconcileRender(store, credited.workflowId, 'polling', { getService: () => new ShotstackService('fake-key'), bucket });
+    const video = finished.videos?.[0];
+    check(finished.status === 'completed' && video?.source?.permalink === source.permalink && video?.source?.author === 'cat_person_42', 'Finished video stores the source metadata');
+    check(video?.description === description, 'Finished video carries the upload description');
+
+    // ShotstackService timeline
+    const script = { hook: 'Oops', introduction: 'So this happened.', mainContent: ['I fed the cat.'], conclusion: 'It had a home.', callToAction: 'Follow', estimatedDuration: 30 };
+    const audio = { key: 'audio/test.mp3', url: `${fake.url}/audio.mp3`, bucket: 'R2_BUCKET', size: 1024, contentType: 'audio/mpeg', uploadedAt: new Date().toISOString() };
+    const render = await new ShotstackService('fake-key').generateVideo(script, audio, {
+      background: 'gradient',
+      resolution: '1080x1920',
+      style: 'modern',
+      source,
+      attribution: { position: 'topRight' }
+    });
+    const serviceClips = creditClips(fake.renders.get(render.data?.renderId || '')?.timeline);
+    check(serviceClips.length === 1 && serviceClips[0].position === 'topRight' && serviceClips[0].length === 30, 'ShotstackService renders credit the source too');
+  } finally {
+    await fake.close();
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Source attribution working', 'Source attribution has failures');
+}
+
+testAttribution().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
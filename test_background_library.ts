@@ -0,0 +1,187 @@
+#!/usr/bin/env tsx
+
+// Background library test: MP4 header parsing (duration, size, rotation),
+// adding, tagging and removing clips, picking by tag, cutting clips to the
+// narration (random start offset, looping and joining clips), and a workflow
+// render that uses library clips instead of an upload. Uses the local fake
+// Shotstack and in-memory storage - no network access or API keys needed.
+
+import { startFakeShotstack } from './lib/mocks/fake-shotstack';
+import {
+  BackgroundLibrary,
+  BackgroundLibraryError,
+  planBackgroundSegments,
+  selectBackgroundClips
+} from './lib/backgrounds/background-library';
+import { getMp4Metadata, Mp4MetadataError } from './lib/backgrounds/mp4-metadata';
+import { buildStory, createMemoryBucket, createTestReport, rejectsWith } from './lib/test-data/test-helpers';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { ShotstackPipelineClient } from './lib/workflows/shotstack-pipeline';
+import { runVideoWorkflow } from './lib/workflows/video-workflow';
+import { WorkflowStore } from './lib/workflows/workflow-store';
+
+const story = buildStory({
+  id: 'bg123',
+  title: 'TIFU by leaving the oven on',
+  content: 'So this happened last week. I left the oven on before a road trip and my neighbour had to call the fire brigade.',
+  subreddit: 'tifu',
+  category: 'funny'
+});
+
+// Smallest MP4 the parser needs: ftyp, then moov with mvhd and one video trak
+function buildMp4(options: { seconds: number; width: number; height: number; rotated?: boolean; version?: 0 | 1 }): Uint8Array {
+  const box = (type: string, ...parts: Uint8Array[]) => {
+    const size = 8 + parts.reduce((total, part) => total + part.length, 0);
+    const out = new Uint8Array(size);
+    new DataView(out.buffer).setUint32(0, size);
+    out.set(new TextEncoder().encode(type), 4);
+    let offset = 8;
+    for (const part of parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    return out;
+  };
+  const version = options.version || 0;
+  const timescale = 600;
+
+  const mvhd = new Uint8Array(version === 1 ? 112 : 100);
+  const mvhdView = new DataView(mvhd.buffer);
+  mvhdView.setUint8(0, version);
+  if (version === 1) {
+    mvhdView.setUint32(20, timescale);
+    mvhdView.setUint32(28, options.seconds * timescale); // Low half of the 64-bit duration
+  } else {
+    mvhdView.setUint32(12, timescale);
+    mvhdView.setUint32(16, options.seconds * timescale);
+  }
+
+  const matrixStart = version === 1 ? 52 : 40;
+  const tkhd = new Uint8Array(matrixStart + 44);
+  const tkhdView = new DataView(tkhd.buffer);
+  tkhdView.setUint8(0, version);
+  const [a, b, c, d] = options.rotated ? [0, 0x10000, -0x10000, 0] : [0x10000, 0, 0, 0x10000];
+  tkhdView.setInt32(matrixStart, a);
+  tkhdView.setInt32(matrixStart + 4, b);
+  tkhdView.setInt32(matrixStart + 12, c);
+  tkhdView.setInt32(matrixStart + 16, d);
+  tkhdView.setUint32(matrixStart + 36, options.width * 65536);
+  tkhdView.setUint32(matrixStart + 40, options.height * 65536);
+
+  const hdlr = new Uint8Array(24);
+  hdlr.set(new TextEncoder().encode('vide'), 8);
+
+  return new Uint8Array([
+    ...box('ftyp', new TextEncoder().encode('isom\0\0\0\0isom')),
+    ...box('moov', box('mvhd', mvhd), box('trak', box('tkhd', tkhd), box('mdia', box('hdlr', hdlr)))),
+    ...box('mdat', new Uint8Array(256))
+  ]);
+}
+
+// Deterministic stand-in for Math.random
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+}
+
+async function testBackgroundLibrary() {
+  console.log('🎞️ Testing Background Library');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+  const rejects = (action: () => unknown, status: number) => rejectsWith(action, BackgroundLibraryError, status);
+
+  // MP4 headers
+  const landscape = getMp4Metadata(buildMp4({ seconds: 90, width: 1920, height: 1080 }));
+  check(landscape.duration === 90 && landscape.width === 1920 && landscape.height === 1080, 'Duration and size read from the MP4');
+  const phone = getMp4Metadata(buildMp4({ seconds: 45, width: 1920, height: 1080, rotated: true, version: 1 }));
+  check(phone.duration === 45 && phone.width === 1080 && phone.height === 1920, 'Rotated (64-bit header) phone clip reported as portrait');
+  let notMp4 = false;
+  try {
+    getMp4Metadata(new TextEncoder().encode('definitely not a video'));
+  } catch (error) {
+    notMp4 = error instanceof Mp4MetadataError;
+  }
+  check(notMp4, 'Non-MP4 data rejected');
+
+  // Library
+  const bucket = createMemoryBucket();
+  const library = new BackgroundLibrary(new MemoryLedgerStorage(), bucket, 'https://ghost.example/');
+  const minecraft = await library.add({ name: 'Minecraft parkour', tags: ['Minecraft', 'gameplay', 'minecraft'], video: buildMp4({ seconds: 120, width: 1080, height: 1920 }) });
+  const soap = await library.add({ name: 'Soap cutting', tags: ['satisfying'], video: buildMp4({ seconds: 20, width: 1080, height: 1920 }) });
+  const sand = await library.add({ name: 'Kinetic sand', tags: ['satisfying'], video: buildMp4({ seconds: 25, width: 1080, height: 1920 }) });
+
+  check(minecraft.duration === 120 && minecraft.height === 1920 && bucket.objects.has(`backgrounds/${minecraft.id}.mp4`), 'Clip stored in R2 with its measured details');
+  check(minecraft.tags.join(',') === 'minecraft,gameplay', 'Tags lowercased and de-duplicated');
+  check((await library.list(['satisfying'])).length === 2 && (await library.list()).length === 3, 'Listing by tag');
+  check(await rejects(() => library.add({ name: 'Blip', video: buildMp4({ seconds: 1, width: 640, height: 360 }) }), 400), 'Clips under 3 seconds refused');
+  check(await rejects(() => library.add({ name: 'Text', video: new TextEncoder().encode('nope') }), 415), 'Unreadable uploads refused');
+
+  const retagged = await library.update(soap.id, { tags: ['satisfying', 'asmr'] });
+  check(retagged.tags.includes('asmr') && (await library.get(soap.id))?.tags.includes('asmr') === true, 'Clip retagged');
+  check(await rejects(() => library.update('bg_missing', { tags: [] }), 404), 'Unknown clip is a 404');
+
+  // Selection and planning
+  const clips = await library.list();
+  const satisfying = selectBackgroundClips(clips, { tags: ['SATISFYING'] }, seededRandom(1));
+  check(satisfying.length === 2 && satisfying.every(clip => clip.tags.includes('satisfying')), 'Random pick limited to the tag');
+  check(selectBackgroundClips(clips, { clipId: minecraft.id })[0].id === minecraft.id, 'Specific clip by id');
+  check(await rejects(() => selectBackgroundClips(clips, { tags: ['cooking'] }), 404), 'No clips with the tag is a 404');
+
+  const chosen = await library.choose({ clipId: minecraft.id });
+  check(chosen[0].src === `https://ghost.example/api/backgrounds/${minecraft.id}/video`, 'Chosen clips served from this site');
+
+  const single = planBackgroundSegments(chosen, 60, seededRandom(7));
+  check(single.length === 1 && single[0].length === 60 && single[0].trim >= 0 && single[0].trim + 60 <= 120, `Long clip starts at a random offset that fits (trim ${single[0].trim}s)`);
+  const offsets = new Set([1, 2, 3, 4].map(seed => planBackgroundSegments(chosen, 60, seededRandom(seed))[0].trim));
+  check(offsets.size > 1, 'Offsets vary between renders');
+
+  const joined = planBackgroundSegments(await library.choose({ tags: ['satisfying'] }, seededRandom(3)), 60, seededRandom(3));
+  const covered = joined.reduce((total, segment) => total + segment.length, 0);
+  check(joined.length === 3 && Math.abs(covered - 60) < 0.01, `Short clips joined to cover the narration (${joined.map(s => `${s.length}s`).join(' + ')})`);
+  check(joined.every((segment, i) => i === 0 || Math.abs(segment.start - (joined[i - 1].start + joined[i - 1].length)) < 0.01), 'Segments back to back');
+  check(joined[0].clipId !== joined[1].clipId && joined[2].clipId === joined[0].clipId, 'Clips alternate, then loop');
+
+  const looped = planBackgroundSegments(await library.choose({ clipId: soap.id }), 50, seededRandom(5));
+  check(looped.length === 3 && looped.every(segment => segment.clipId === soap.id) && looped[2].trim + looped[2].length <= 20, 'A single short clip loops');
+
+  // Workflow
+  const fake = await startFakeShotstack({ renderDelayMs: 200 });
+  const store = new WorkflowStore(new MemoryLedgerStorage());
+  const deps = {
+    client: new ShotstackPipelineClient('fake-key', 'stage', { origin: fake.url, assetPollIntervalMs: 50 }),
+    backgrounds: library,
+    callbackUrl: null
+  };
+
+  try {
+    const uploadsBefore = fake.calls.upload;
+    const workflow = await runVideoWorkflow(store, (await store.create({ request: { story, durationSeconds: 45, background: { tags: ['satisfying'] } } })).workflowId, deps);
+    check(workflow.status === 'processing' && fake.calls.upload === uploadsBefore, 'Library background rendered without an upload');
+    check(workflow.checkpoints?.upload?.background?.length === 2, 'Picked clips recorded on the workflow');
+
+    const tracks = fake.renders.get(workflow.render!.renderId)?.timeline.tracks || [];
+    const videoTrack = tracks.find((track: any) => track.clips.some((clip: any) => clip.asset.type === 'video'));
+    const length = videoTrack?.clips.reduce((total: number, clip: any) => total + clip.length, 0);
+    check(videoTrack?.clips.length === 2 && videoTrack.clips.every((clip: any) => clip.asset.src.includes('/api/backgrounds/') && clip.asset.volume === 0), 'Timeline joins muted library clips');
+    check(Math.abs(length - 45) < 0.01, `Background covers the whole video (${length}s)`);
+
+    const missing = await runVideoWorkflow(store, (await store.create({ request: { story, durationSeconds: 45, background: { tags: ['cooking'] } } })).workflowId, deps);
+    check(missing.status === 'failed' && missing.failedStep === 'upload' && /No background clips tagged cooking/.test(missing.error || ''), 'Unmatched tag fails the workflow at the upload step');
+  } finally {
+    await fake.close();
+  }
+
+  await library.remove(sand.id);
+  check(!bucket.objects.has(`backgrounds/${sand.id}.mp4`) && (await library.list()).length === 2, 'Removing a clip deletes its video');
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Background library working', 'Background library has failures');
+}
+
+testBackgroundLibrary().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -9,7 +9,7 @@ async function testBudgetProtection() {
   try {
     // Test 1: Check initial state
     console.log('Testing initial budget state...');
-    const initialUsage = ClaudeService.getCurrentUsage();
+    const initialUsage = await ClaudeService.getCurrentUsage();
     console.log(`Initial calls: ${initialUsage.callsToday}`);
     console.log(`Initial cost: $${initialUsage.costToday.toFixed(3)}`);
     console.log(`Daily limits: ${initialUsage.limits.MAX_CALLS} calls, $${initialUsage.limits.MAX_COST}`);
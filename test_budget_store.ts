@@ -0,0 +1,143 @@
+#!/usr/bin/env tsx
+
+// Budget store test: concurrent reservations can't squeeze past the daily
+// call, cost and token limits; settle() and release() from many callers at
+// once keep the totals right; abandoned reservations expire; two stores on
+// one ledger directory (two processes) share the limits; and ClaudeService
+// reads its budget from whatever configureLedgerStorage() was given.
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ClaudeService } from './lib/services/claude-service';
+import { createTestReport } from './lib/test-data/test-helpers';
+import { BudgetExceededError, BudgetLimits, BudgetReservation, LedgerBudgetStore } from './lib/usage/budget-store';
+import { FileSystemLedgerStorage } from './lib/usage/filesystem-ledger-storage';
+import { configureLedgerStorage } from './lib/usage/ledger-config';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+
+const limits: BudgetLimits = { maxCalls: 3, maxCost: 1, maxTokens: 10000 };
+const estimate = { cost: 0.1, tokens: 1000 };
+
+const { check, finish } = createTestReport();
+
+async function reserveAll(store: LedgerBudgetStore, count: number, budgetLimits: BudgetLimits = limits) {
+  const outcomes = await Promise.allSettled(Array.from({ length: count }, () => store.reserve('claude', budgetLimits, estimate)));
+  return {
+    reserved: outcomes.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []),
+    refused: outcomes.flatMap(outcome => outcome.status === 'rejected' ? [outcome.reason] : [])
+  };
+}
+
+async function testConcurrentReserve(): Promise<void> {
+  console.log('\n🔒 Concurrent reservations');
+  console.log('=' .repeat(50));
+  const store = new LedgerBudgetStore(new MemoryLedgerStorage());
+
+  const { reserved, refused } = await reserveAll(store, 8);
+  check(reserved.length === 3, `Only the call limit's worth of reservations succeed (${reserved.length}/8)`);
+  check(refused.every(error => error instanceof BudgetExceededError && error.limit === 'calls'), 'The rest are refused on the call limit');
+  check(new Set(reserved.map(r => r.id)).size === 3, 'Each reservation has its own id');
+
+  const snapshot = await store.getSnapshot('claude');
+  check(snapshot.pendingCalls === 3 && Math.abs(snapshot.reservedCost - 0.3) < 1e-9, 'In-flight reservations hold their estimates');
+
+  const costly = await reserveAll(new LedgerBudgetStore(new MemoryLedgerStorage()), 6, { maxCalls: 100, maxCost: 0.45, maxTokens: 10000 });
+  check(costly.reserved.length === 4, `Concurrent reservations stop at the cost limit (${costly.reserved.length}/6)`);
+  check(costly.refused.every(error => error instanceof BudgetExceededError && error.limit === 'cost'), 'Refused on the cost limit');
+}
+
+async function testConcurrentSettleAndRelease(): Promise<void> {
+  console.log('\n🧾 Concurrent settle and release');
+  console.log('=' .repeat(50));
+  const store = new LedgerBudgetStore(new MemoryLedgerStorage());
+  const { reserved } = await reserveAll(store, 6, { ...limits, maxCalls: 6 });
+
+  const [settled, released] = [reserved.slice(0, 4), reserved.slice(4)];
+  await Promise.all([
+    ...settled.map((reservation, index) => store.settle(reservation, { cost: 0.05 * (index + 1), tokens: 500 })),
+    ...released.map(reservation => store.release(reservation))
+  ]);
+
+  const snapshot = await store.getSnapshot('claude');
+  check(snapshot.calls === 4, `Every settle is counted once (${snapshot.calls} calls)`);
+  check(Math.abs(snapshot.cost - 0.5) < 1e-9 && snapshot.tokens === 2000, `Actual cost and tokens are summed ($${snapshot.cost.toFixed(2)}, ${snapshot.tokens} tokens)`);
+  check(snapshot.pendingCalls === 0 && snapshot.reservedCost === 0, 'Settled and released reservations no longer hold budget');
+
+  const next = await reserveAll(store, 3, { ...limits, maxCalls: 6 });
+  check(next.reserved.length === 2, `Released calls are free again, settled ones are not (${next.reserved.length}/3)`);
+}
+
+async function testExpiry(): Promise<void> {
+  console.log('\n⏳ Reservation expiry');
+  console.log('=' .repeat(50));
+  const store = new LedgerBudgetStore(new MemoryLedgerStorage(), { reservationTtlMs: 300 });
+
+  // One at a time - contention backoff mustn't eat into the TTL
+  const reserved: BudgetReservation[] = [];
+  for (let i = 0; i < 3; i++) {
+    reserved.push(await store.reserve('claude', limits, estimate));
+  }
+  check((await reserveAll(store, 1)).reserved.length === 0, 'The day is fully reserved');
+
+  await new Promise(resolve => setTimeout(resolve, 350));
+  check((await store.getSnapshot('claude')).pendingCalls === 0, 'Abandoned reservations lapse after the TTL');
+  check((await reserveAll(store, 1)).reserved.length === 1, 'Their budget can be reserved again');
+
+  // Settling a reservation after it lapsed still charges the actual spend
+  const snapshot = await store.settle(reserved[0], { cost: 0.2, tokens: 800 });
+  check(snapshot.calls === 1 && Math.abs(snapshot.cost - 0.2) < 1e-9, 'A late settle is still charged');
+}
+
+async function testSharedDirectory(): Promise<void> {
+  console.log('\n📁 Two stores on one ledger directory');
+  console.log('=' .repeat(50));
+  const dir = await mkdtemp(join(tmpdir(), 'budget-store-test-'));
+  try {
+    const first = new LedgerBudgetStore(new FileSystemLedgerStorage(dir));
+    const second = new LedgerBudgetStore(new FileSystemLedgerStorage(dir));
+    const outcomes = await Promise.all([reserveAll(first, 3), reserveAll(second, 3)]);
+    const reserved = outcomes.flatMap(outcome => outcome.reserved);
+    check(reserved.length === 3, `Processes sharing the directory share the call limit (${reserved.length}/6)`);
+
+    await Promise.all(reserved.map((reservation, index) => (index % 2 ? first : second).settle(reservation, estimate)));
+    const snapshot = await new LedgerBudgetStore(new FileSystemLedgerStorage(dir)).getSnapshot('claude');
+    check(snapshot.calls === 3 && snapshot.pendingCalls === 0, 'Settles from both are persisted for a fresh reader');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function testClaudeServiceStore(): Promise<void> {
+  console.log('\n🤖 ClaudeService budget');
+  console.log('=' .repeat(50));
+  const storage = new MemoryLedgerStorage();
+  configureLedgerStorage(storage);
+
+  const reservation = await new LedgerBudgetStore(storage).reserve('claude', limits, estimate);
+  const usage = await ClaudeService.getCurrentUsage();
+  check(usage.pendingCalls === 1 && usage.reservedCost === estimate.cost, 'ClaudeService sees reservations in the configured storage');
+
+  await new LedgerBudgetStore(storage).settle(reservation, { cost: 0.03, tokens: 300 });
+  const settled = await ClaudeService.getCurrentUsage();
+  check(settled.callsToday === 1 && settled.costToday === 0.03 && settled.tokensToday === 300, 'And the settled spend');
+}
+
+async function main() {
+  console.log('💰 Testing the Budget Store');
+  console.log('=' .repeat(50));
+
+  await testConcurrentReserve();
+  await testConcurrentSettleAndRelease();
+  await testExpiry();
+  await testSharedDirectory();
+  await testClaudeServiceStore();
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Budget store working', 'Budget store has failures');
+}
+
+main().catch(error => {
+  console.error('❌ Budget store test crashed:', error);
+  process.exit(1);
+});
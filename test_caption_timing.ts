@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+
+// Caption timing test: ElevenLabs alignment, words-per-second estimates,
+// cue grouping and SRT/WebVTT output. Runs offline.
+
+import { groupCaptionCues, toSrt, toWebVtt } from './lib/captions/caption-cues';
+import { storeCaptionFiles } from './lib/captions/caption-files';
+import { countSyllables, estimateWordTimings, wordsFromAlignment } from './lib/captions/caption-timing';
+import { buildCaptionTrack } from './lib/captions/caption-track';
+import { createTestReport } from './lib/test-data/test-helpers';
+
+// Alignment in the /with-timestamps shape: 0.1s per character
+function alignment(text: string) {
+  const characters = text.split('');
+  return {
+    characters,
+    character_start_times_seconds: characters.map((_, i) => i * 0.1),
+    character_end_times_seconds: characters.map((_, i) => (i + 1) * 0.1)
+  };
+}
+
+async function testCaptionTiming() {
+  console.log('💬 Testing Caption Timing');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  // Alignment → words, shifted by the chunk offset
+  const aligned = wordsFromAlignment(alignment('Hi there, Bob.'), 10);
+  check(
+    aligned.map(word => word.text).join('|') === 'Hi|there,|Bob.' && aligned[1].start === 10.3 && aligned[1].end === 10.9,
+    `Aligned words: ${JSON.stringify(aligned)}`
+  );
+
+  // Estimates fill the measured duration, longer words get more time
+  const estimated = estimateWordTimings('I absolutely refused. Then I left', { durationSeconds: 4, offset: 2 });
+  check(estimated[0].start === 2 && estimated[estimated.length - 1].end === 6, `Estimate spans 2s-6s (${estimated[estimated.length - 1].end})`);
+  check(
+    estimated[1].end - estimated[1].start > (estimated[0].end - estimated[0].start) * 3,
+    '"absolutely" lasts longer than "I"'
+  );
+  check(estimated[3].start - estimated[2].end > 0.3, 'Pause after the sentence end');
+  check(estimateWordTimings('one two three four five').slice(-1)[0].end === 2, 'Words-per-second estimate without a duration');
+  check(countSyllables('narration') === 3 && countSyllables('made') === 1 && countSyllables('2024') === 4, 'Syllable counts');
+
+  // Cues respect max words per line and sentence boundaries
+  const words = estimateWordTimings('My roommate ate my leftovers again. So I labeled everything ... with fake dates!', { durationSeconds: 6 });
+  const cues = groupCaptionCues(words, { maxWordsPerLine: 3 });
+  check(cues.every(cue => cue.lines.length === 1 && cue.lines[0].split(' ').length <= 3), `${cues.length} cues of at most 3 words`);
+  check(cues.some(cue => cue.lines[0].endsWith('again.')) && !cues.some(cue => /again\. So/.test(cue.lines[0])), 'Cue breaks at the sentence end');
+  check(!cues.some(cue => cue.lines[0].includes('...')), 'Pause markers are not shown');
+  check(cues.every((cue, i) => i === 0 || cue.start >= cues[i - 1].end), 'Cues never overlap');
+
+  const twoLine = groupCaptionCues(words, { maxWordsPerLine: 2, maxLinesPerCue: 2 });
+  check(twoLine.some(cue => cue.lines.length === 2), 'Two-line cues wrap at max words per line');
+
+  // File formats
+  const sample = [
+    { index: 1, start: 0, end: 1.5, lines: ['Hello <world>'] },
+    { index: 2, start: 3661.25, end: 3662, lines: ['Later', 'on'] }
+  ];
+  const srt = toSrt(sample);
+  check(srt === '1\n00:00:00,000 --> 00:00:01,500\nHello <world>\n\n2\n01:01:01,250 --> 01:01:02,000\nLater\non\n', 'SRT output');
+  const vtt = toWebVtt(sample);
+  check(vtt.startsWith('WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.500\nHello &lt;world&gt;\n'), 'WebVTT output (escaped)');
+
+  // Burned-in track
+  const track = buildCaptionTrack(sample);
+  check(
+    track.clips.length === 2 && track.clips[1].start === 3661.25 && track.clips[1].length === 0.75 && track.clips[1].asset.html === '<p>Later<br>on</p>',
+    'One HTML clip per cue'
+  );
+  check(track.clips[0].asset.html.includes('&lt;world&gt;'), 'Caption HTML escaped');
+
+  // R2 storage
+  const stored = new Map<string, { value: string; contentType?: string }>();
+  const bucket = { put: async (key: string, value: string, options?: any) => stored.set(key, { value, contentType: options?.httpMetadata?.contentType }) };
+  const files = await storeCaptionFiles(bucket, 'workflow_1', sample, 'alignment');
+  check(files.srtUrl === '/api/captions/workflow_1.srt' && stored.get('captions/workflow_1.srt')?.value === srt, 'SRT stored in R2');
+  check(stored.get('captions/workflow_1.vtt')?.contentType?.startsWith('text/vtt') === true, 'WebVTT stored with its content type');
+  check(await storeCaptionFiles(bucket, '../x', sample, 'estimate').then(() => false, () => true), 'Unsafe names rejected');
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Caption timing working', 'Caption timing has failures');
+}
+
+testCaptionTiming();
@@ -24,7 +24,7 @@ async function testClaudeService() {
   try {
     // Test 1: Check current usage (should be local storage only)
     console.log('Testing current usage retrieval...');
-    const usage = ClaudeService.getCurrentUsage();
+    const usage = await ClaudeService.getCurrentUsage();
     console.log(`Current usage: ${usage.callsToday} calls, $${usage.costToday.toFixed(3)} cost`);
     console.log(`Daily limits: ${usage.limits.MAX_CALLS} calls, $${usage.limits.MAX_COST} cost`);
     
@@ -48,7 +48,7 @@ async function testClaudeService() {
         console.log(enhanced.substring(0, 200) + '...');
         
         // Check updated usage
-        const newUsage = ClaudeService.getCurrentUsage();
+        const newUsage = await ClaudeService.getCurrentUsage();
         console.log(`\nUsage after enhancement: ${newUsage.callsToday} calls, $${newUsage.costToday.toFixed(3)} cost`);
         
       } catch (enhancementError) {
@@ -161,7 +161,7 @@ async function testCompleteWorkflow() {
     
     try {
       console.log('Testing budget protection...');
-      const usage = ClaudeService.getCurrentUsage();
+      const usage = await ClaudeService.getCurrentUsage();
       
       console.log(`   Current usage: ${usage.callsToday} calls, $${usage.costToday.toFixed(3)}`);
       console.log(`   Daily limits: ${usage.limits.MAX_CALLS} calls, $${usage.limits.MAX_COST}`);
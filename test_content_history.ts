@@ -0,0 +1,162 @@
+#!/usr/bin/env tsx
+
+// Content history test: a story recorded when its video starts is hidden from
+// the scraper, a repost of it in another subreddit (new id, edited text) is
+// caught by its fingerprint, the webhook marks it completed once the video is
+// stored, a failed workflow gives its story back unless content safety blocked
+// it, and the history can be queried by date and category.
+
+import { ContentHistory, ContentHistoryError, fingerprintStory } from './lib/content-history/content-history';
+import { RedditScraperService } from './lib/services/reddit-scraper';
+import { ShotstackService } from './lib/services/shotstack-service';
+import { buildStory, createTestReport } from './lib/test-data/test-helpers';
+import { RedditStory, SafetyVerdict } from './lib/types/reddit-automation';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { WorkflowStore } from './lib/workflows/workflow-store';
+import { applyRenderStatus } from './lib/workflows/shotstack-webhook';
+
+const body = 'My roommate kept eating my leftovers, so I labelled everything. '.repeat(8);
+
+const story = (id: string, subreddit: string, content: string, category: RedditStory['category'] = 'drama'): RedditStory =>
+  buildStory({ id, subreddit, content, category, upvotes: 5000, created_utc: Date.now() / 1000 - 3600 });
+
+// Reddit listing for the scraper: the original and a lightly edited repost
+const fakeReddit = (async (input: string) => {
+  const subreddit = new URL(input).pathname.split('/')[2];
+  const posts = subreddit === 'AmItheAsshole'
+    ? [{ id: 'orig1', text: body }, { id: 'fresh1', text: 'Something else entirely happened at work today. '.repeat(8) }]
+    : subreddit === 'tifu'
+      ? [{ id: 'repost1', text: `${body.toUpperCase()}\n\nEDIT: wow this blew up, thanks everyone!` }]
+      : [];
+
+  return new Response(JSON.stringify({
+    data: {
+      after: null,
+      children: posts.map(post => ({
+        data: {
+          id: post.id,
+          title: `Post ${post.id}`,
+          selftext: post.text,
+          subreddit,
+          ups: 2000,
+          num_comments: 10,
+          created_utc: Date.now() / 1000 - 3600,
+          permalink: `/r/${subreddit}/comments/${post.id}/`,
+          upvote_ratio: 0.95,
+          over_18: false,
+          stickied: false
+        }
+      }))
+    }
+  }), { headers: { 'Content-Type': 'application/json' } });
+}) as typeof fetch;
+
+async function testContentHistory() {
+  console.log('📚 Testing Content History');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  // Fingerprints ignore case, punctuation, links and trailing edits
+  const original = story('orig1', 'AmItheAsshole', body);
+  const repost = story('repost1', 'tifu', `${body.toUpperCase()}\n\nEDIT: wow this blew up, thanks everyone!`);
+  check(await fingerprintStory(original) === await fingerprintStory(repost), 'Edited repost has the same fingerprint');
+  check(await fingerprintStory(original) !== await fingerprintStory(story('x', 'tifu', 'A different story. '.repeat(20))), 'Different stories have different fingerprints');
+
+  const storage = new MemoryLedgerStorage();
+  const history = new ContentHistory(storage);
+
+  await history.record(original, { status: 'generating', workflowId: 'workflow_1_test' });
+  const used = await history.findUsed([original, repost, story('fresh1', 'tifu', 'Unrelated. '.repeat(30))]);
+  check(used.get('orig1')?.match === 'story_id' && used.get('orig1')?.status === 'generating', 'Story in progress matched by id');
+  check(used.get('repost1')?.match === 'fingerprint' && used.get('repost1')?.story_id === 'orig1', 'Cross-subreddit repost matched by fingerprint');
+  check(!used.has('fresh1'), 'Unused story not matched');
+
+  const flagged = await history.screenStories([original, repost], { includeUsed: true });
+  check(flagged.stories.length === 2 && flagged.stories.every(s => s.previously_used) && flagged.usedCount === 2, 'includeUsed keeps used stories, flagged');
+
+  // Scraper leaves used stories (and their reposts) out
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = fakeReddit;
+  try {
+    const scraped = await new RedditScraperService('https://reddit.test', history).scrapeRedditStories('drama', 10);
+    check(scraped.map(s => s.id).join() === 'fresh1', `Scraper returned only unused stories (${scraped.map(s => s.id).join()})`);
+    const unscreened = await new RedditScraperService('https://reddit.test').scrapeRedditStories('drama', 10);
+    check(unscreened.length === 3, 'Scraper without history returns everything');
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+
+  // Webhook records the finished video against the story
+  const store = new WorkflowStore(new MemoryLedgerStorage());
+  const workflow = await store.create({
+    workflowId: 'workflow_1_test',
+    request: { story: original, durationSeconds: 60 },
+    render: { renderId: 'render_1', environment: 'stage', status: 'rendering', updatedVia: 'submit', updatedAt: new Date().toISOString() }
+  });
+  const service = {
+    downloadAndStoreVideo: async () => ({ success: true, data: { url: 'https://videos.test/workflow_1_test.mp4', size: 1000 } })
+  } as unknown as ShotstackService;
+  await applyRenderStatus(store, workflow.workflowId, { renderId: 'render_1', status: 'done', url: 'https://shotstack.test/out.mp4' }, 'webhook', {
+    getService: () => service,
+    history
+  });
+  const [completed] = await history.query({ status: 'completed' });
+  check(completed?.storyId === 'orig1' && completed.videoId === 'video_workflow_1_test' && Boolean(completed.completedAt), 'Webhook marked the story completed with its video');
+  check((await history.query()).length === 1, 'Completion updated the existing entry rather than adding one');
+
+  // Queries by category and date
+  await history.record(story('h1', 'nosleep', 'A scary night in the woods. '.repeat(20), 'horror'), { status: 'generating', workflowId: 'workflow_2_test' });
+  const today = new Date().toISOString().slice(0, 10);
+  check((await history.query({ category: 'horror' })).map(e => e.storyId).join() === 'h1', 'Query by category');
+  check((await history.query({ from: today, to: today })).length === 2, 'Query by date includes the whole day');
+  check((await history.query({ to: '2000-01-01' })).length === 0, 'Query before any entry is empty');
+  check((await history.query()).map(e => e.storyId).join() === 'h1,orig1', 'Entries come back newest first');
+  const invalid = await history.query({ from: 'yesterday-ish' }).catch(error => error);
+  check(invalid instanceof ContentHistoryError && invalid.status === 400, 'Invalid date rejected with 400');
+
+  // Concurrent recordings don't lose entries
+  await Promise.all(['c1', 'c2', 'c3', 'c4'].map((id, i) =>
+    history.record(story(id, 'tifu', `Concurrent story ${id}. `.repeat(20)), { status: 'generating', workflowId: `workflow_c${i}_test` })
+  ));
+  check((await history.query()).length === 6, 'Concurrent recordings all kept');
+
+  // Failed workflows release their story; a content-safety block keeps it
+  const released = new ContentHistory(new MemoryLedgerStorage());
+  const failedStory = story('failed1', 'tifu', 'The upload timed out halfway. '.repeat(20));
+  const blockedStory = story('blocked1', 'tifu', 'Nothing anyone should narrate. '.repeat(20));
+  const renderStory = story('render1', 'tifu', 'Shotstack gave up on this one. '.repeat(20));
+  await released.record(failedStory, { status: 'generating', workflowId: 'workflow_f_test' });
+  await released.record(blockedStory, { status: 'generating', workflowId: 'workflow_b_test' });
+  await released.recordFailure(failedStory, { workflowId: 'workflow_f_test' });
+  const block = { stage: 'story', decision: 'block' } as SafetyVerdict;
+  await released.recordFailure(blockedStory, { workflowId: 'workflow_b_test', safety: { story: block } });
+  let reused = await released.findUsed([failedStory, blockedStory]);
+  check(!reused.has('failed1'), 'A story whose workflow failed can be picked again');
+  check(reused.get('blocked1')?.status === 'blocked', 'A story content safety blocked stays used');
+  check((await released.query({ status: 'failed' })).map(e => e.storyId).join() === 'failed1', 'The failed use is kept in the history');
+
+  await released.record(renderStory, { status: 'generating', workflowId: 'workflow_r_test' });
+  await store.create({
+    workflowId: 'workflow_r_test',
+    request: { story: renderStory, durationSeconds: 60 },
+    render: { renderId: 'render_r', environment: 'stage', status: 'rendering', updatedVia: 'submit', updatedAt: new Date().toISOString() }
+  });
+  await applyRenderStatus(store, 'workflow_r_test', { renderId: 'render_r', status: 'failed', error: 'Bad asset' }, 'webhook', {
+    getService: () => service,
+    history: released
+  });
+  reused = await released.findUsed([renderStory]);
+  check(!reused.has('render1'), 'A failed render releases its story');
+
+  await released.record(failedStory, { status: 'generating', workflowId: 'workflow_f_test' });
+  check((await released.findUsed([failedStory])).get('failed1')?.status === 'generating', 'Resuming claims it back');
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Content history working', 'Content history has failures');
+}
+
+testContentHistory().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
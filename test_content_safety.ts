@@ -0,0 +1,195 @@
+#!/usr/bin/env tsx
+
+// Content-safety test: word-boundary rules (no more "drugstore" rejects),
+// personal-info detection, verdict decisions, the optional model pass (held
+// against the Claude daily budget and recorded in the cost ledger) and its
+// failure fallback, the workflow refusing to narrate a blocked story
+// while recording every stage's verdict, and the optimized pipeline screening
+// its narration and captions before rendering. Uses the local fake Shotstack,
+// the local fake LLM and a stubbed Anthropic API - no network access or API
+// keys needed.
+
+import { startFakeLLM } from './lib/mocks/fake-llm';
+import { startFakeShotstack } from './lib/mocks/fake-shotstack';
+import {
+  AnthropicSafetyModel,
+  classifyWithRules,
+  containsWholeWord,
+  ContentSafetyClassifier,
+  ContentSafetyError,
+  SafetyModel
+} from './lib/safety/content-safety';
+import { ClaudeService } from './lib/services/claude-service';
+import { OptimizedVideoPipeline } from './lib/services/optimized-video-pipeline';
+import { buildStory, createTestReport, rejectsWith } from './lib/test-data/test-helpers';
+import { VideoGenerationRequest } from './lib/types/reddit-automation';
+import { configureLedgerStorage } from './lib/usage/ledger-config';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { UsageLedger, todayUTC } from './lib/usage/usage-ledger';
+import { ShotstackPipelineClient } from './lib/workflows/shotstack-pipeline';
+import { runVideoWorkflow } from './lib/workflows/video-workflow';
+import { WorkflowStore } from './lib/workflows/workflow-store';
+
+const story = buildStory({
+  id: 'safe123',
+  title: 'AITA for moving my neighbour\'s bins?',
+  content: 'So this happened last week. I picked up cough syrup at the drugstore and came home to find the bins in my driveway again.'
+});
+
+async function testContentSafety() {
+  console.log('🛡️ Testing Content Safety');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  // Rules
+  const innocent = classifyWithRules('The drugstore by the abusement park was closed, so we went sightseeing in Essex.', 'story');
+  check(innocent.decision === 'allow' && innocent.findings.length === 0, 'Words inside longer words are not flagged');
+  check(!containsWholeWord('Spoilers ahead', ['spoil']) && containsWholeWord('It Spoils everything', ['spoils']), 'Banned words match whole words only, ignoring case');
+
+  const violent = classifyWithRules('He threatened to kill the neighbour\'s dog.', 'story');
+  check(violent.decision === 'review' && violent.categories.violence === 'medium', 'Violence is flagged for review, not blocked');
+
+  const selfHarm = classifyWithRules('I thought about suicide for years.', 'story');
+  check(selfHarm.decision === 'block' && selfHarm.categories.self_harm === 'high', 'Self-harm blocks');
+
+  const personal = classifyWithRules('Call me on (555) 123-4567 or jo.doe@example.com, I live at 42 Maple Grove Street. My name is Karen Miller.', 'story');
+  check(personal.decision === 'block', `Personal info blocks (${personal.findings.map(f => f.rule).join(', ')})`);
+  check(['phone_number', 'email_address', 'street_address', 'full_name'].every(rule => personal.findings.some(f => f.rule === rule)), 'Phone, email, address and name all found');
+  check(personal.findings.find(f => f.rule === 'phone_number')?.match === '(555) 123-4567', 'Finding carries the matched text');
+
+  // Model pass
+  const flagging: SafetyModel = {
+    model: 'fake-model',
+    review: async () => ({ findings: [{ category: 'hate', severity: 'high', rule: 'llm', match: 'those people', reason: 'Dehumanizing' }], cost: 0.001 })
+  };
+  const withModel = await new ContentSafetyClassifier(flagging).classify('I can\'t stand those people.', 'enhanced');
+  check(withModel.decision === 'block' && withModel.source === 'rules+llm' && withModel.llm?.cost === 0.001, 'Model findings merged into the verdict');
+
+  const broken: SafetyModel = { model: 'fake-model', review: async () => { throw new Error('overloaded'); } };
+  const fallback = await new ContentSafetyClassifier(broken).classify(story.content, 'story');
+  check(fallback.decision === 'allow' && fallback.llm?.error === 'overloaded', 'Model failure recorded, rules verdict stands');
+
+  const realFetch = globalThis.fetch;
+  let sentBody: any = null;
+  globalThis.fetch = (async (_input: string, init: RequestInit) => {
+    sentBody = JSON.parse(String(init.body));
+    return new Response(JSON.stringify({
+      content: [{ type: 'text', text: 'Here you go: {"findings":[{"category":"sexual","severity":"medium","excerpt":"steamy","reason":"Innuendo"},{"category":"gossip","severity":"high"}]}' }],
+      usage: { input_tokens: 1000, output_tokens: 100 }
+    }), { headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+  const ledgerStorage = new MemoryLedgerStorage();
+  configureLedgerStorage(ledgerStorage);
+  try {
+    const anthropic = new AnthropicSafetyModel('test-key', 'claude-3-haiku-20240307', 'https://anthropic.test');
+    const reviewed = await anthropic.review('A steamy story');
+    check(reviewed.findings.length === 1 && reviewed.findings[0].category === 'sexual', 'Anthropic reply parsed, unknown categories dropped');
+    check(Math.abs(reviewed.cost - 0.000375) < 1e-9, `Model cost from the usage block ($${reviewed.cost})`);
+    check(sentBody.model === 'claude-3-haiku-20240307' && sentBody.messages[0].content === 'A steamy story', 'Text sent to the configured model');
+
+    const budget = await ClaudeService.getCurrentUsage();
+    check(budget.callsToday === 1 && Math.abs(budget.costToday - reviewed.cost) < 1e-12 && budget.pendingCalls === 0, 'The call is charged to the Claude daily budget');
+    const [entry] = (await new UsageLedger(ledgerStorage).getDailyLog(todayUTC())).entries;
+    check(entry?.operation === 'content_safety' && entry.model === 'claude-3-haiku-20240307' && Math.abs(entry.cost - reviewed.cost) < 1e-12, 'And recorded in the cost ledger');
+
+    while ((await ClaudeService.getCurrentUsage()).callsToday < budget.limits.MAX_CALLS) {
+      await anthropic.review('A steamy story');
+    }
+    sentBody = null;
+    const overBudget = await new ContentSafetyClassifier(anthropic).classify('A steamy story', 'story');
+    check(sentBody === null && Boolean(overBudget.llm?.error) && overBudget.source === 'rules', `Once the budget is spent the model is not called (${overBudget.llm?.error})`);
+  } finally {
+    globalThis.fetch = realFetch;
+    configureLedgerStorage(new MemoryLedgerStorage());
+  }
+
+  // Workflow
+  const fake = await startFakeShotstack({ renderDelayMs: 200 });
+  const store = new WorkflowStore(new MemoryLedgerStorage());
+  const deps = (safety?: ContentSafetyClassifier) => ({
+    client: new ShotstackPipelineClient('fake-key', 'stage', { origin: fake.url, assetPollIntervalMs: 50 }),
+    backgroundVideo: new Uint8Array(2048).buffer,
+    callbackUrl: null,
+    safety
+  });
+
+  try {
+    const clean = await runVideoWorkflow(store, (await store.create({ request: { story, durationSeconds: 60, addCaptions: true } })).workflowId, deps());
+    check(clean.status === 'processing' && Boolean(clean.render), 'Clean story rendered');
+    check(clean.safety?.story?.decision === 'allow' && clean.safety?.captions?.decision === 'allow' && !clean.safety?.enhanced, 'Story and caption verdicts stored on the workflow');
+
+    const speechBefore = fake.calls.speech;
+    const doxxing = { ...story, enhanced_content: `${story.content} If you see him, call 555-867-5309.` };
+    const blocked = await runVideoWorkflow(store, (await store.create({ request: { story: doxxing, durationSeconds: 60 } })).workflowId, deps());
+    check(blocked.status === 'failed' && blocked.failedStep === 'tts' && /personal_info \(high\)/.test(blocked.error || ''), `Blocked enhanced text fails the workflow: ${blocked.error}`);
+    check(blocked.safety?.story?.decision === 'allow' && blocked.safety?.enhanced?.decision === 'block', 'Each stage has its own verdict');
+    check(fake.calls.speech === speechBefore, 'No voiceover paid for');
+
+    // Only the model sees a problem in the captions
+    const captionModel: SafetyModel = {
+      model: 'fake-model',
+      review: async text => ({ findings: text.includes('driveway') && !text.includes('AITA') ? [{ category: 'platform_policy', severity: 'high', rule: 'llm', match: 'driveway' }] : [], cost: 0.002 })
+    };
+    const captions = await runVideoWorkflow(store, (await store.create({ request: { story, durationSeconds: 60, addCaptions: true } })).workflowId, deps(new ContentSafetyClassifier(captionModel)));
+    check(captions.failedStep === 'render' && captions.safety?.captions?.decision === 'block' && !captions.render, 'Caption verdict checked before the render is submitted');
+    check(Math.abs((captions.costs?.claudeCost || 0) - 0.004) < 1e-9, 'Model pass cost added to the workflow costs');
+  } finally {
+    await fake.close();
+  }
+
+  // Optimized pipeline, with Claude pointed at the local fake LLM
+  const llm = await startFakeLLM();
+  const realEnv = { key: process.env.ANTHROPIC_API_KEY, baseUrl: process.env.ANTHROPIC_BASE_URL };
+  process.env.ANTHROPIC_API_KEY = 'fake-key';
+  process.env.ANTHROPIC_BASE_URL = llm.url;
+
+  try {
+    let renders = 0;
+    const pipeline = (safety?: ContentSafetyClassifier) => {
+      const instance = new OptimizedVideoPipeline({ enableCaching: false }, safety);
+      instance['shotstackService'] = {
+        generateVideoWithShotstack: async () => {
+          renders++;
+          return { videoUrl: 'https://cdn.example.com/video.mp4', audioUrl: 'https://cdn.example.com/audio.mp3', costs: { shotstack_cost: 0.4, elevenlabs_cost: 0.02 } };
+        }
+      } as any;
+      return instance;
+    };
+    const request: VideoGenerationRequest = {
+      story,
+      background_url: 'https://cdn.example.com/background.mp4',
+      voice_settings: { voice_id: 'voice_1', stability: 0.5, similarity_boost: 0.5 },
+      video_config: { duration: 60, add_captions: true, music_volume: 0.2 },
+      userTriggered: true
+    };
+
+    const rendered = await pipeline().generateVideo(request);
+    check(renders === 1 && rendered.safety.enhanced?.decision === 'allow' && rendered.safety.captions?.decision === 'allow', 'Pipeline stores the enhanced and caption verdicts on the result');
+    check(!(await pipeline().generateVideo({ ...request, video_config: { ...request.video_config, add_captions: false } })).safety.captions, 'No caption verdict without captions');
+
+    const doxxingRequest = { ...request, story: { ...story, content: `${story.content} If you see him, call 555-867-5309.` }, redact_pii: false };
+    check(await rejectsWith(() => pipeline().generateVideo(doxxingRequest), ContentSafetyError, 422, 'blocked the enhanced text'), 'Pipeline refuses to narrate blocked enhanced text');
+
+    // Caption text is one short line per cue
+    const captionOnlyModel: SafetyModel = {
+      model: 'fake-model',
+      review: async text => ({ findings: text.split('\n').length > 3 ? [{ category: 'platform_policy', severity: 'high', rule: 'llm', match: 'driveway' }] : [], cost: 0.002 })
+    };
+    const rendersBefore = renders;
+    const captionBlocked = await rejectsWith(() => pipeline(new ContentSafetyClassifier(captionOnlyModel)).generateVideo(request), ContentSafetyError, 422, 'blocked the captions text');
+    check(captionBlocked && renders === rendersBefore, 'Pipeline checks the captions before rendering');
+  } finally {
+    if (realEnv.key === undefined) delete process.env.ANTHROPIC_API_KEY; else process.env.ANTHROPIC_API_KEY = realEnv.key;
+    if (realEnv.baseUrl === undefined) delete process.env.ANTHROPIC_BASE_URL; else process.env.ANTHROPIC_BASE_URL = realEnv.baseUrl;
+    await llm.close();
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Content safety working', 'Content safety has failures');
+}
+
+testContentSafety().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+#!/usr/bin/env tsx
+
+// Cost ledger test: once configureLedgerStorage() has run, every recorded
+// CostEvent lands in that day's usage ledger with per-service and per-model
+// totals; redelivered events are counted once; invalid events and a failing
+// sink never throw; and the in-process totals and listeners see each event.
+
+import { createTestReport } from './lib/test-data/test-helpers';
+import { CostEvent } from './lib/usage/cost-event';
+import { CostLedger, CostEventSink, costLedger } from './lib/usage/cost-ledger';
+import { configureLedgerStorage } from './lib/usage/ledger-config';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { UsageLedger, todayUTC } from './lib/usage/usage-ledger';
+
+const { check, finish } = createTestReport();
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+async function testRecording(): Promise<void> {
+  console.log('\n🧾 Recording into the usage ledger');
+  console.log('=' .repeat(50));
+  const storage = new MemoryLedgerStorage();
+  configureLedgerStorage(storage);
+  const ledger = new UsageLedger(storage);
+
+  const seen: CostEvent[] = [];
+  const unsubscribe = costLedger.subscribe(event => seen.push(event));
+  const before = costLedger.getProcessTotals();
+
+  const claude = await costLedger.record({
+    service: 'anthropic',
+    operation: 'enhance_story',
+    source: 'ClaudeService',
+    cost: 0.012,
+    model: 'claude-3-5-sonnet-20241022',
+    inputTokens: 1200,
+    outputTokens: 400
+  });
+  await costLedger.record({ service: 'anthropic', operation: 'enhance_story', source: 'ClaudeService', cost: 0.008, model: 'claude-3-5-sonnet-20241022', inputTokens: 800, outputTokens: 200 });
+  await costLedger.record({ service: 'elevenlabs', operation: 'text_to_speech', source: 'ElevenLabsService', cost: 0.03, characters: 1000 });
+  await costLedger.record({ service: 'shotstack', operation: 'render_video', source: 'ShotstackService', cost: 0.05 });
+  unsubscribe();
+
+  check(seen.length === 4, 'Listeners see every recorded event');
+  const after = costLedger.getProcessTotals();
+  check(close(after.total - before.total, 0.1), `In-process totals track this process's spend ($${(after.total - before.total).toFixed(3)})`);
+
+  const log = await ledger.getDailyLog(todayUTC());
+  check(log.entries.length === 4, `Every event was appended to today's log (${log.entries.length})`);
+  check(log.entries[0].id === claude?.id && log.entries[0].source === 'ClaudeService', 'Entries keep the event id and source');
+  check(close(log.totals.anthropic.cost, 0.02) && log.totals.anthropic.tokens === 2600 && log.totals.anthropic.requests === 2, 'Anthropic totals add up cost, tokens and requests');
+  check(log.totals.elevenlabs.characters === 1000 && close(log.totals.shotstack.cost, 0.05), 'Other services are totalled separately');
+  check(close(log.models['anthropic:claude-3-5-sonnet-20241022'].cost, 0.02), 'Per-model totals are kept');
+
+  const stats = await ledger.getStats();
+  check(close(stats.summary.dailyTotal, 0.1) && close(stats.summary.monthlyTotal, 0.1), `Daily and month-to-date totals match ($${stats.summary.dailyTotal.toFixed(3)})`);
+
+  // A retried delivery of the same event
+  await costLedger.record(claude!);
+  check((await ledger.getDailyLog(todayUTC())).entries.length === 4, 'A redelivered event is counted once');
+}
+
+async function testNeverThrows(): Promise<void> {
+  console.log('\n🛡️ Recording never fails the caller');
+  console.log('=' .repeat(50));
+  const failing: CostEventSink = { write: async () => { throw new Error('R2 unavailable'); } };
+  const ledger = new CostLedger(failing);
+
+  const event = await ledger.record({ service: 'openai', operation: 'image', source: 'OpenAIImageGenerator', cost: 0.04 });
+  check(event !== null && ledger.getProcessTotals().byService.openai === 0.04, 'A failing sink is logged, the event still counts in-process');
+  check(await ledger.record({ service: 'nope' as any, operation: 'x', cost: 1 }) === null, 'An invalid event is dropped');
+  check(await ledger.record({ service: 'openai', operation: 'image', cost: -1 }) === null, 'So is a negative cost');
+}
+
+async function main() {
+  console.log('💰 Testing the Cost Ledger');
+  console.log('=' .repeat(50));
+
+  await testRecording();
+  await testNeverThrows();
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Cost ledger working', 'Cost ledger has failures');
+}
+
+main().catch(error => {
+  console.error('❌ Cost ledger test crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,117 @@
+#!/usr/bin/env tsx
+
+// HTTP fixture harness test: recording keeps credentials out of the cassette,
+// replay matches on method, URL and body (then falls back to the next unused
+// exchange, then repeats the last one for polls), unrecorded requests fail
+// loudly, and the environment is put back afterwards. The "real" API is a
+// stand-in fetch - no network access needed.
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HttpFixtureError, startHttpFixtures } from './lib/mocks/http-fixtures';
+import { createTestReport } from './lib/test-data/test-helpers';
+
+async function testHttpFixtures() {
+  console.log('📼 Testing HTTP Record/Replay Fixtures');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  const dir = mkdtempSync(join(tmpdir(), 'http-fixtures-'));
+  const realFetch = globalThis.fetch;
+  const savedEnv = { ...process.env };
+
+  try {
+    // Record against a stand-in API
+    let calls = 0;
+    let statusChecks = 0;
+    globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      calls++;
+      if (request.url.includes('/status')) {
+        return Response.json({ status: ++statusChecks < 2 ? 'rendering' : 'done' });
+      }
+      if (request.url.includes('/audio')) {
+        return new Response(new Uint8Array([0xff, 0xfb, 0x90, 0x00]), { headers: { 'content-type': 'audio/mpeg' } });
+      }
+      const body = await request.text();
+      return Response.json({ echo: body, account: 'acct-1234', url: request.url }, { headers: { 'set-cookie': 'session=abc', 'x-request-id': 'req-1' } });
+    }) as typeof fetch;
+
+    process.env.ANTHROPIC_API_KEY = 'sk-secret-key-1234';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'acct-1234';
+    delete process.env.ELEVENLABS_API_KEY;
+
+    const recorder = startHttpFixtures('sample', { mode: 'record', dir });
+    await fetch('https://api.example.com/v1/messages', { method: 'POST', body: JSON.stringify({ prompt: 'one', key: 'sk-secret-key-1234' }) });
+    await fetch('https://api.example.com/v1/messages', { method: 'POST', body: JSON.stringify({ prompt: 'two' }) });
+    await fetch('https://acct-1234.r2.example.com/bucket/file?X-Amz-Date=20261019T000000Z&X-Amz-Signature=abc&partNumber=1');
+    await fetch('https://api.example.com/status');
+    await fetch('https://api.example.com/status');
+    await fetch('https://api.example.com/audio');
+    await recorder.stop();
+
+    const saved = readFileSync(join(dir, 'sample.json'), 'utf8');
+    const cassette = JSON.parse(saved);
+    check(cassette.exchanges.length === 6 && calls === 6, 'Every request recorded');
+    check(!saved.includes('sk-secret-key-1234') && !saved.includes('acct-1234') && saved.includes('{{ANTHROPIC_API_KEY}}'), 'Credential values replaced with {{NAME}}');
+    check(JSON.stringify(cassette.env) === JSON.stringify(['ANTHROPIC_API_KEY', 'CLOUDFLARE_ACCOUNT_ID']), 'Cassette lists the variables that were set');
+    check(cassette.exchanges[2].request.url === 'https://{{CLOUDFLARE_ACCOUNT_ID}}.r2.example.com/bucket/file?partNumber=1', 'Signature query parameters dropped from URLs');
+    check(!('set-cookie' in cassette.exchanges[0].response.headers) && cassette.exchanges[0].response.headers['x-request-id'] === 'req-1', 'Cookies dropped, other headers kept');
+    check(cassette.exchanges[5].response.encoding === 'base64', 'Binary bodies stored as base64');
+
+    // Replay with no credentials and no API
+    globalThis.fetch = (async () => { throw new Error('Network used during replay'); }) as typeof fetch;
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.CLOUDFLARE_ACCOUNT_ID;
+    process.env.ELEVENLABS_API_KEY = 'developer-key';
+    process.env.SHOTSTACK_API_URL = 'http://localhost:4010';
+
+    const player = startHttpFixtures('sample', { mode: 'replay', dir });
+    check(process.env.ANTHROPIC_API_KEY === 'fixture-anthropic-api-key' && !process.env.ELEVENLABS_API_KEY && !process.env.SHOTSTACK_API_URL, 'Replay sets the recorded variables and clears the rest');
+
+    const second = await (await fetch('https://api.example.com/v1/messages', { method: 'POST', body: JSON.stringify({ prompt: 'two' }) })).json();
+    check(second.echo === '{"prompt":"two"}', 'Matched on body, out of order');
+    const first = await (await fetch('https://api.example.com/v1/messages', { method: 'POST', body: JSON.stringify({ prompt: 'changed', key: process.env.ANTHROPIC_API_KEY }) })).json();
+    check(first.echo.includes('"key":"fixture-anthropic-api-key"') && first.account === 'fixture-cloudflare-account-id', 'Different body falls back to the next unused exchange, {{NAME}} restored');
+
+    const file = await fetch(`https://${process.env.CLOUDFLARE_ACCOUNT_ID}.r2.example.com/bucket/file?partNumber=1&X-Amz-Signature=other&X-Amz-Date=20261020T000000Z`);
+    check(file.ok, 'Presigned URL matches with fresh signature parameters');
+
+    const polls = [];
+    for (let i = 0; i < 4; i++) polls.push((await (await fetch('https://api.example.com/status')).json()).status);
+    check(polls.join(',') === 'rendering,done,done,done', 'Polls replay in order, then repeat the last answer');
+
+    const audio = new Uint8Array(await (await fetch('https://api.example.com/audio')).arrayBuffer());
+    check(audio.length === 4 && audio[0] === 0xff, 'Binary body replayed byte for byte');
+    check(player.unused().length === 0, 'No recorded exchanges left over');
+
+    let error: unknown;
+    await fetch('https://api.example.com/unknown').catch(caught => { error = caught; });
+    check(error instanceof HttpFixtureError && error.message.includes('GET https://api.example.com/unknown'), 'Unrecorded request fails naming it');
+
+    await player.stop();
+    check(process.env.ELEVENLABS_API_KEY === 'developer-key' && process.env.SHOTSTACK_API_URL === 'http://localhost:4010' && !process.env.ANTHROPIC_API_KEY, 'Environment restored after replay');
+
+    let missing: unknown;
+    try {
+      startHttpFixtures('no-such-cassette', { mode: 'replay', dir });
+    } catch (caught) {
+      missing = caught;
+    }
+    check(missing instanceof HttpFixtureError && missing.message.includes('HTTP_FIXTURES=record'), 'Missing cassette says how to record it');
+  } finally {
+    globalThis.fetch = realFetch;
+    process.env = savedEnv;
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('HTTP fixtures working', 'HTTP fixtures have failures');
+}
+
+testHttpFixtures().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
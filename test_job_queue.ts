@@ -0,0 +1,208 @@
+#!/usr/bin/env tsx
+
+// Job queue test: re-adding a job id returns the stored job without writing,
+// jobs are claimed in priority order (FIFO within a priority), an expired
+// lease sends the job back as a retry for another worker, a worker that loses
+// its lease is told to stop through its abort signal, failed jobs back off
+// longer on each retry until they run out, finished jobs are pruned after the
+// retention window, and a retried video job whose render was already submitted
+// is not run again. In-memory storage, no network.
+
+import { JobQueue, JobQueueOptions } from './lib/queue/job-queue';
+import { LedgerQueueStore } from './lib/queue/queue-store';
+import { QueueWorker, createDefaultJobHandlers } from './lib/queue/queue-worker';
+import { buildStory, createTestReport } from './lib/test-data/test-helpers';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { WorkflowStore } from './lib/workflows/workflow-store';
+
+class CountingStorage extends MemoryLedgerStorage {
+  writes = 0;
+
+  async write(key: string, body: string, expectedEtag: string | null): Promise<boolean> {
+    this.writes++;
+    return super.write(key, body, expectedEtag);
+  }
+}
+
+const { check, finish } = createTestReport();
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createQueue(options: JobQueueOptions = {}) {
+  const storage = new CountingStorage();
+  return { storage, queue: new JobQueue(new LedgerQueueStore(storage), options) };
+}
+
+async function testAddJob(): Promise<void> {
+  console.log('\n➕ Adding jobs');
+  console.log('=' .repeat(50));
+  const { storage, queue } = createQueue();
+
+  const added = await queue.addJob('story_enhancement', { attempt: 1 }, 'medium', 3, 'queue_client_1');
+  const writes = storage.writes;
+  const again = await queue.addJob('story_enhancement', { attempt: 2 }, 'high', 3, 'queue_client_1');
+  check(again.createdAt === added.createdAt && again.payload.attempt === 1 && again.priority === 'medium', 'Re-adding an id returns the stored job');
+  check(storage.writes === writes, `Re-adding an id writes nothing (${storage.writes - writes} writes)`);
+  check((await queue.listJobs()).length === 1, 'The queue still holds one job');
+
+  await queue.claimNext('worker_idle', 1000);
+  const claimWrites = storage.writes;
+  check(await queue.claimNext('worker_idle', 1000) === null && storage.writes === claimWrites, 'Nothing to claim writes nothing either');
+}
+
+async function testPriorityOrder(): Promise<void> {
+  console.log('\n🔢 Priority order');
+  console.log('=' .repeat(50));
+  const { queue } = createQueue({ maxConcurrentJobs: 10 });
+
+  await queue.addJob('story_enhancement', {}, 'low', 3, 'queue_low');
+  await queue.addJob('story_enhancement', {}, 'medium', 3, 'queue_medium_1');
+  await queue.addJob('story_enhancement', {}, 'high', 3, 'queue_high');
+  await queue.addJob('story_enhancement', {}, 'medium', 3, 'queue_medium_2');
+
+  const claimed: string[] = [];
+  for (let job = await queue.claimNext('worker_1', 1000); job; job = await queue.claimNext('worker_1', 1000)) {
+    claimed.push(job.id);
+  }
+  check(claimed.join(',') === 'queue_high,queue_medium_1,queue_medium_2,queue_low', `High first, FIFO within a priority (${claimed.join(', ')})`);
+}
+
+async function testLeaseExpiry(): Promise<void> {
+  console.log('\n⏱️ Lease expiry');
+  console.log('=' .repeat(50));
+  const { queue } = createQueue({ retryDelayMs: 0 });
+  await queue.addJob('video_generation', {}, 'medium', 3, 'queue_lease');
+
+  const first = await queue.claimNext('worker_crashed', 50);
+  check(first?.workerId === 'worker_crashed' && await queue.claimNext('worker_2', 50) === null, 'A leased job is not handed out twice');
+
+  await wait(80);
+  const second = await queue.claimNext('worker_2', 1000);
+  check(second?.id === 'queue_lease' && second.workerId === 'worker_2' && second.retryCount === 1, 'An expired lease goes to the next worker as a retry');
+  check(/lease expired/.test(second?.error || ''), `The expiry is recorded (${second?.error})`);
+  check(await queue.heartbeat('queue_lease', 'worker_crashed', 1000) === false, 'The old worker can no longer heartbeat');
+  check(await queue.complete('queue_lease', 'worker_crashed', {}) === null, 'Or complete the job');
+  check((await queue.complete('queue_lease', 'worker_2', { ok: true }))?.status === 'completed', 'The new owner completes it');
+}
+
+async function testLostHeartbeat(): Promise<void> {
+  console.log('\n💔 Lost heartbeat');
+  console.log('=' .repeat(50));
+  const { queue } = createQueue({ retryDelayMs: 0 });
+  await queue.addJob('story_enhancement', {}, 'medium', 3, 'queue_slow');
+
+  // The lease lapses before the first heartbeat, and another worker takes the job
+  let aborted = false;
+  const slow = new QueueWorker(queue, {
+    ...createDefaultJobHandlers(),
+    story_enhancement: (_job, { signal }) => new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => {
+        aborted = true;
+        reject(new Error('Abandoned'));
+      });
+    })
+  }, { workerId: 'worker_slow', leaseMs: 50, heartbeatMs: 120 });
+
+  const running = slow.runOnce();
+  await wait(80);
+  const taken = await queue.claimNext('worker_2', 1000);
+  await running;
+
+  check(taken?.id === 'queue_slow' && aborted, 'The worker is told to stop when its heartbeat finds the lease gone');
+  const job = await queue.getJob('queue_slow');
+  check(job?.status === 'processing' && job.workerId === 'worker_2' && job.retryCount === 1, 'Its failure does not touch the job the new owner holds');
+}
+
+async function testRetryBackoff(): Promise<void> {
+  console.log('\n🔁 Retry backoff');
+  console.log('=' .repeat(50));
+  const { queue } = createQueue({ retryDelayMs: 100 });
+  await queue.addJob('batch_process', {}, 'medium', 2, 'queue_flaky');
+
+  await queue.claimNext('worker_1', 1000);
+  const firstFailure = Date.now();
+  const retried = await queue.fail('queue_flaky', 'worker_1', 'Shotstack 503');
+  check(retried?.status === 'pending' && retried.retryCount === 1 && retried.error === 'Shotstack 503', 'A failed job goes back to pending');
+  check(retried!.availableAt! - firstFailure >= 90 && retried!.availableAt! - firstFailure <= 150, `First retry waits one delay (${retried!.availableAt! - firstFailure}ms)`);
+  check(await queue.claimNext('worker_1', 1000) === null, 'It is not picked up before then');
+
+  await wait(120);
+  check((await queue.claimNext('worker_1', 1000))?.id === 'queue_flaky', 'It is picked up after the delay');
+  const secondFailure = Date.now();
+  const backedOff = await queue.fail('queue_flaky', 'worker_1', 'Shotstack 503');
+  check(backedOff!.availableAt! - secondFailure >= 190 && backedOff!.availableAt! - secondFailure <= 250, `The second retry waits twice as long (${backedOff!.availableAt! - secondFailure}ms)`);
+
+  await wait(220);
+  await queue.claimNext('worker_1', 1000);
+  const failed = await queue.fail('queue_flaky', 'worker_1', 'Shotstack 503');
+  check(failed?.status === 'failed' && failed.retryCount === 2 && Boolean(failed.completedAt), 'After maxRetries the job fails for good');
+}
+
+async function testRetention(): Promise<void> {
+  console.log('\n🧹 Retention');
+  console.log('=' .repeat(50));
+  const { queue } = createQueue({ retentionMs: 50, maxConcurrentJobs: 10 });
+
+  await queue.addJob('story_enhancement', {}, 'medium', 3, 'queue_done');
+  await queue.addJob('story_enhancement', {}, 'medium', 0, 'queue_broken');
+  await queue.addJob('story_enhancement', {}, 'medium', 3, 'queue_running');
+  for (let i = 0; i < 3; i++) await queue.claimNext('worker_1', 1000);
+  await queue.complete('queue_done', 'worker_1', {});
+  await queue.fail('queue_broken', 'worker_1', 'Shotstack 503');
+
+  await queue.claimNext('worker_1', 1000);
+  check((await queue.listJobs()).length === 3, 'Recently finished jobs are kept');
+
+  await wait(80);
+  await queue.addJob('story_enhancement', {}, 'medium', 3, 'queue_waiting');
+  await queue.claimNext('worker_1', 1000);
+  const left = (await queue.listJobs()).map(job => job.id).sort().join(',');
+  check(left === 'queue_running,queue_waiting', `Finished jobs past the retention window are pruned, running ones kept (${left})`);
+}
+
+async function testVideoJobs(): Promise<void> {
+  console.log('\n🎬 Video jobs');
+  console.log('=' .repeat(50));
+  const { queue } = createQueue({ retryDelayMs: 0 });
+  const workflows = new WorkflowStore(new MemoryLedgerStorage());
+  // No Shotstack keys: any step the handler tried to run would fail the job
+  const worker = new QueueWorker(queue, createDefaultJobHandlers({}, workflows), { workerId: 'worker_video' });
+  const request = { story: buildStory({ id: 'queued123' }), durationSeconds: 45, background: { tags: ['gameplay'] } };
+
+  // The first attempt lost its lease after submitting the render
+  await workflows.create({
+    workflowId: 'workflow_video_1',
+    request,
+    render: { renderId: 'render_1', environment: 'stage', status: 'queued', updatedVia: 'submit', updatedAt: new Date().toISOString() }
+  });
+  await queue.addJob('video_generation', request, 'medium', 3, 'queue_video_1');
+  await worker.runOnce();
+  const retried = await queue.getJob('queue_video_1');
+  check(retried?.status === 'completed' && retried.result?.renderId === 'render_1' && retried.result?.workflowId === 'workflow_video_1', 'A retry finds the submitted render and leaves it to the webhook');
+
+  await queue.addJob('video_generation', { story: request.story, durationSeconds: 45 }, 'medium', 0, 'queue_video_2');
+  await worker.runOnce();
+  const upload = await queue.getJob('queue_video_2');
+  check(upload?.status === 'failed' && /library background/.test(upload.error || ''), `Jobs without a library background are refused (${upload?.error})`);
+}
+
+async function main() {
+  console.log('📬 Testing the Job Queue');
+  console.log('=' .repeat(50));
+
+  await testAddJob();
+  await testPriorityOrder();
+  await testLeaseExpiry();
+  await testLostHeartbeat();
+  await testRetryBackoff();
+  await testRetention();
+  await testVideoJobs();
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Job queue working', 'Job queue has failures');
+}
+
+main().catch(error => {
+  console.error('❌ Job queue test crashed:', error);
+  process.exit(1);
+});
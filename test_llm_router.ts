@@ -0,0 +1,203 @@
+#!/usr/bin/env tsx
+
+// LLM router test: Claude tasks through the Anthropic SDK with real token
+// counts and latency, fallback along a task type's chain when an LLM fails
+// or is rate limited (and skipping it while Retry-After lasts), the tier's
+// emergency fallback at the end, the error when every LLM fails, stored task
+// assignments (the global router's too, once configureLedgerStorage() has
+// run) and per-client tier limits. Runs against the local fake LLM server
+// and in-memory storage - no network access or API keys needed.
+
+import { startFakeLLM } from './lib/mocks/fake-llm';
+import { ClientRateLimiter, ClientRateLimitError } from './lib/modules/client-rate-limiter';
+import { LLMProvider, LLMRouter, LLMRouterError, TaskRequest, TaskType, llmRouter } from './lib/modules/llm-router';
+import { createTestReport } from './lib/test-data/test-helpers';
+import { costLedger } from './lib/usage/cost-ledger';
+import { configureLedgerStorage } from './lib/usage/ledger-config';
+import { LedgerContentionError, MemoryLedgerStorage } from './lib/usage/ledger-storage';
+
+const SONNET = 'claude-3-5-sonnet-20241022';
+const HAIKU = 'claude-3-haiku-20240307';
+
+const task = (overrides: Partial<TaskRequest> = {}): TaskRequest => ({
+  task_id: `task_${Math.random().toString(36).substr(2, 9)}`,
+  task_type: TaskType.CONTENT_CREATION,
+  priority: 'normal',
+  client_id: 'client_1',
+  project_id: 'project_1',
+  description: 'Write a hook for a video about a haunted lighthouse',
+  context: {},
+  requirements: {},
+  ...overrides
+});
+
+async function testLLMRouter() {
+  console.log('🧭 Testing LLM Router');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  const fake = await startFakeLLM({ latencyMs: 20 });
+  const recorded: string[] = [];
+  const unsubscribe = costLedger.subscribe(event => {
+    if (event.source === 'LLMRouter') recorded.push(event.model || '');
+  });
+
+  const createRouter = () => new LLMRouter({
+    anthropic_api_key: 'fake-key',
+    anthropic_base_url: fake.url,
+    openai_api_key: 'fake-key',
+    openai_base_url: `${fake.url}/v1`
+  });
+
+  try {
+    // Real call
+    const router = createRouter();
+    const result = await router.executeTask(task(), LLMProvider.CLAUDE_SONNET);
+    check(result.output.startsWith(`Fake ${SONNET} reply`) && result.llm_used === LLMProvider.CLAUDE_SONNET, 'Claude task answered through the Anthropic API');
+    check(fake.calls[0].api === 'anthropic' && fake.calls[0].prompt.includes('haunted lighthouse'), 'Task prompt sent to the model');
+    check(result.tokens_used > 0 && result.cost_usd > 0 && (result.latency_ms || 0) >= 20, `Actual tokens, cost and latency recorded (${result.tokens_used} tokens, ${result.latency_ms}ms)`);
+    check(recorded.includes(SONNET), 'Cost ledger entry for the call');
+
+    const metrics = await router.getLLMPerformanceMetrics();
+    check(metrics[LLMProvider.CLAUDE_SONNET].tasks_completed === 1 && metrics[LLMProvider.CLAUDE_SONNET].total_tokens === result.tokens_used, 'Performance metrics count the real tokens');
+    check(metrics[LLMProvider.CLAUDE_SONNET].average_completion_time_seconds > 0 && metrics[LLMProvider.GPT4].tasks_completed === 0, 'Latency averaged, unused LLMs at zero');
+
+    // Fallback chain
+    check(router.getFallbackChain(TaskType.CONTENT_CREATION, 'basic', LLMProvider.CLAUDE_SONNET).join(',') === 'claude_sonnet,claude_haiku,gpt3_5', 'Chain: selected, task type fallbacks, tier emergency fallback');
+
+    fake.failModel(SONNET, 529, 1);
+    const overloaded = await router.executeTask(task(), LLMProvider.CLAUDE_SONNET);
+    check(overloaded.llm_used === LLMProvider.CLAUDE_HAIKU && overloaded.output.includes(HAIKU), 'Overloaded model falls back to the next in the chain');
+    check(overloaded.fallback_attempts?.length === 1 && !overloaded.fallback_attempts[0].rate_limited, 'Failed attempt reported on the result');
+
+    fake.failModel(SONNET, 429, 1);
+    const limited = await router.executeTask(task(), LLMProvider.CLAUDE_SONNET);
+    check(limited.llm_used === LLMProvider.CLAUDE_HAIKU && limited.fallback_attempts?.[0].rate_limited === true, 'Rate-limited model falls back');
+
+    const callsBefore = fake.calls.filter(call => call.model === SONNET).length;
+    const benched = await router.executeTask(task(), LLMProvider.CLAUDE_SONNET);
+    check(benched.fallback_attempts?.[0].skipped === true && fake.calls.filter(call => call.model === SONNET).length === callsBefore, 'Rate-limited model skipped until Retry-After passes');
+    const afterLimits = await router.getLLMPerformanceMetrics();
+    check(afterLimits[LLMProvider.CLAUDE_SONNET].tasks_failed === 2 && afterLimits[LLMProvider.CLAUDE_SONNET].rate_limited === 1, 'Failures and rate limits counted');
+
+    // Emergency fallback, custom chains
+    const custom = new LLMRouter({
+      anthropic_api_key: 'fake-key',
+      anthropic_base_url: fake.url,
+      openai_api_key: 'fake-key',
+      openai_base_url: `${fake.url}/v1`,
+      fallback_chains: { [TaskType.DATA_ANALYSIS]: [LLMProvider.GPT4_TURBO] }
+    });
+    fake.failModel('gpt-4-turbo-preview', 500);
+    const emergency = await custom.executeTask(task({ task_type: TaskType.DATA_ANALYSIS, tier: 'pro' }), LLMProvider.GPT4_TURBO);
+    check(emergency.llm_used === LLMProvider.CLAUDE_SONNET && fake.calls.some(call => call.api === 'openai'), 'Custom chain exhausted, tier emergency fallback answers');
+
+    // Everything failing
+    fake.failModel(SONNET, 500);
+    fake.failModel(HAIKU, 429);
+    fake.failModel('gpt-3.5-turbo', 500);
+    let error: unknown = null;
+    try {
+      await createRouter().executeTask(task({ tier: 'saas' }), LLMProvider.CLAUDE_SONNET);
+    } catch (caught) {
+      error = caught;
+    }
+    check(error instanceof LLMRouterError && error.attempts.length === 3 && error.status === 502, 'Every LLM failing raises LLMRouterError with each attempt');
+
+    const unconfigured = new LLMRouter({ anthropic_api_key: '', openai_api_key: '' });
+    let skipped: unknown = null;
+    try {
+      await unconfigured.executeTask(task(), LLMProvider.CLAUDE_HAIKU);
+    } catch (caught) {
+      skipped = caught;
+    }
+    check(skipped instanceof LLMRouterError && skipped.attempts.every(attempt => attempt.skipped), 'LLMs without a client are skipped, not called');
+
+    // Stored assignments
+    fake.clearFailures();
+    const storage = new MemoryLedgerStorage();
+    const routed = new LLMRouter({
+      anthropic_api_key: 'fake-key',
+      anthropic_base_url: fake.url,
+      openai_api_key: '',
+      storage
+    });
+    const request = task({ client_id: 'client_routed', preferred_llm: LLMProvider.CLAUDE_HAIKU });
+    const taskId = await routed.routeTask(request);
+    const assigned = await routed.getTaskStatus(taskId);
+    check(assigned?.status === 'assigned' && assigned.assigned_llm === LLMProvider.CLAUDE_HAIKU, 'Routed task stored as assigned');
+
+    const done = await routed.executeTask(request, LLMProvider.CLAUDE_HAIKU);
+    const completed = await new LLMRouter({ anthropic_api_key: '', openai_api_key: '', storage }).getTaskStatus(taskId);
+    check(completed?.status === 'completed' && completed.cost_usd === done.cost_usd && completed.completed_at !== undefined, 'Completed status and cost readable from another router on the same storage');
+    check((await routed.getTaskStatus('task_missing')) === null, 'Unknown task has no status');
+
+    const failedRequest = task({ client_id: 'client_routed' });
+    fake.failModel(SONNET, 500);
+    fake.failModel(HAIKU, 500);
+    await routed.executeTask(failedRequest, LLMProvider.CLAUDE_SONNET).catch(() => null);
+    fake.clearFailures();
+    const failed = await routed.getTaskStatus(failedRequest.task_id);
+    check(failed?.status === 'failed' && failed.progress.includes('failed on every LLM'), 'Task run without routeTask still recorded, with its failure');
+
+    const usage = await routed.getClientUsage('client_routed');
+    check(usage.requests_today === 1 && usage.cost_this_month === done.cost_usd, 'Client usage counts routed requests and actual spend');
+
+    // The global router, once configureLedgerStorage() has pointed it at shared storage
+    const shared = new MemoryLedgerStorage();
+    configureLedgerStorage(shared);
+    const globalTaskId = await llmRouter.routeTask(task({ client_id: 'client_global' }));
+    const elsewhere = new LLMRouter({ anthropic_api_key: '', openai_api_key: '', storage: shared });
+    check((await elsewhere.getTaskStatus(globalTaskId))?.status === 'assigned', 'Global router stores assignments in the configured storage');
+    check((await elsewhere.getClientUsage('client_global')).requests_today === 1, 'And counts client usage there');
+
+    // Tier limits
+    const busy = new LLMRouter({ anthropic_api_key: '', openai_api_key: '', storage: new MemoryLedgerStorage() });
+    for (let i = 0; i < 10; i++) {
+      await busy.routeTask(task({ client_id: 'client_busy' }));
+    }
+    const rejected = await busy.routeTask(task({ client_id: 'client_busy' })).catch(caught => caught);
+    check(rejected instanceof ClientRateLimitError && rejected.reason === 'requests_per_minute' && rejected.status === 429 && rejected.message.includes('10 requests per minute'), 'saas tier stops at 10 requests per minute with a clear reason');
+    check(rejected instanceof ClientRateLimitError && rejected.retry_after_seconds > 0 && rejected.retry_after_seconds <= 60, 'Rejection says when to retry');
+    const other = await busy.routeTask(task({ client_id: 'client_quiet' })).then(() => true, () => false);
+    check(other, 'Other clients unaffected');
+
+    const limiter = new ClientRateLimiter(new MemoryLedgerStorage());
+    const limits = { requests_per_minute: 2, requests_per_hour: 3, requests_per_day: 10, monthly_cost_limit: 1, emergency_fallback_llm: LLMProvider.CLAUDE_HAIKU };
+    const start = Date.UTC(2026, 2, 10, 12);
+    await limiter.acquire('client_window', 'test', limits, start);
+    await limiter.acquire('client_window', 'test', limits, start + 1000);
+    const slid = await limiter.acquire('client_window', 'test', limits, start + 61 * 1000).then(() => true, () => false);
+    check(slid, 'Minute window slides as old requests age out');
+    const hourly = await limiter.acquire('client_window', 'test', limits, start + 2 * 60 * 1000).catch(caught => caught);
+    check(hourly instanceof ClientRateLimitError && hourly.reason === 'requests_per_hour', 'Hour window enforced');
+
+    await limiter.acquire('client_spender', 'test', limits, start);
+    await limiter.recordCost('client_spender', 1.25, start);
+    const broke = await limiter.acquire('client_spender', 'test', limits, start + 60 * 60 * 1000).catch(caught => caught);
+    check(broke instanceof ClientRateLimitError && broke.reason === 'monthly_cost_limit', 'Monthly cost limit enforced');
+    const nextMonth = await limiter.acquire('client_spender', 'test', limits, Date.UTC(2026, 3, 1, 0, 1)).then(() => true, () => false);
+    check(nextMonth, 'Spend resets with the new month');
+
+    // Every write loses the race: that's contention, not a limit the client hit
+    const contended = new MemoryLedgerStorage();
+    contended.write = async () => false;
+    const busyStore = await new ClientRateLimiter(contended).acquire('client_contended', 'test', limits, start).catch(caught => caught);
+    check(busyStore instanceof LedgerContentionError && busyStore.status === 409 && !(busyStore instanceof ClientRateLimitError), 'Write contention is reported as contention, not a rate limit');
+
+    const unknownTier = await busy.routeTask(task({ client_id: 'client_odd', tier: 'platinum' })).catch(caught => caught);
+    check(unknownTier instanceof LLMRouterError && unknownTier.status === 400, 'Unknown tier refused');
+  } finally {
+    unsubscribe();
+    await fake.close();
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('LLM router working', 'LLM router has failures');
+}
+
+testLLMRouter().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
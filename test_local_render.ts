@@ -0,0 +1,240 @@
+#!/usr/bin/env tsx
+
+// Local render server test: planning ffmpeg commands from Shotstack edits
+// (output sizes, layering, effects, ducked soundtrack, refusing what can't be
+// rendered), the server's Shotstack-shaped responses, and - when ffmpeg is
+// installed (FFMPEG_PATH or on the PATH) - a real render submitted through
+// ShotstackService with SHOTSTACK_API_URL pointed at the local server.
+
+import { createServer } from 'http';
+import { mkdtemp, rm } from 'fs/promises';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { spawnSync } from 'child_process';
+import { getMp4Metadata } from './lib/backgrounds/mp4-metadata';
+import { buildCaptionTrack } from './lib/captions/caption-track';
+import { groupCaptionCues } from './lib/captions/caption-cues';
+import { buildSoundtrackTrack } from './lib/music/soundtrack';
+import { FfmpegInput, LocalRenderError, ShotstackEdit, getOutputSize, getTimelineSources, planFfmpegRender } from './lib/render/ffmpeg-timeline';
+import { LocalRenderer } from './lib/render/local-renderer';
+import { startLocalRenderServer } from './lib/render/local-render-server';
+import { ShotstackService } from './lib/services/shotstack-service';
+import { createTestReport } from './lib/test-data/test-helpers';
+import { NarrationAudio, VideoScript, WordTiming } from './lib/types/reddit-automation';
+
+const words: WordTiming[] = [
+  { text: 'The', start: 0.2, end: 0.4 },
+  { text: 'porch', start: 0.4, end: 0.8 },
+  { text: 'light', start: 0.8, end: 1.2 },
+  { text: 'came', start: 1.4, end: 1.7 },
+  { text: 'on', start: 1.7, end: 2.0 },
+  { text: 'again.', start: 2.0, end: 2.6 }
+];
+
+const script: VideoScript = {
+  hook: 'The porch light came on again.',
+  introduction: '',
+  mainContent: [],
+  conclusion: '',
+  callToAction: '',
+  estimatedDuration: 3
+};
+
+const { check, finish } = createTestReport();
+
+function refuses(edit: unknown, pattern: RegExp): boolean {
+  try {
+    getTimelineSources(edit as ShotstackEdit);
+    return false;
+  } catch (error) {
+    return error instanceof LocalRenderError && error.status === 400 && pattern.test(error.message);
+  }
+}
+
+// A timeline shaped like ShotstackService's: captions over an image, narration and a ducked soundtrack
+function buildEdit(): ShotstackEdit {
+  return {
+    timeline: {
+      background: '#000000',
+      tracks: [
+        buildCaptionTrack(groupCaptionCues(words)) as any,
+        { clips: [{ asset: { type: 'audio', src: 'https://assets.example/narration.mp3' }, start: 0, length: 3 }] },
+        buildSoundtrackTrack(
+          { trackId: 'bed', name: 'Bed', src: 'https://assets.example/bed.mp3', duration: 10, volume: 0.5, duckedVolume: 0.1 },
+          [{ start: 0.2, end: 2.6 }],
+          3
+        ),
+        { clips: [{ asset: { type: 'image', src: 'https://assets.example/still.png' }, start: 0, length: 3, effect: 'zoomInSlow', transition: { in: 'fade' } }] }
+      ]
+    },
+    output: { format: 'mp4', resolution: 'hd', aspectRatio: '9:16', fps: 30 }
+  };
+}
+
+function testPlanning(): void {
+  console.log('\n📐 Planning ffmpeg commands');
+  console.log('=' .repeat(50));
+  check(getOutputSize({ resolution: '1080x1920' }).height === 1920, 'WxH resolutions are used as given');
+  const vertical = getOutputSize({ resolution: 'hd', aspectRatio: '9:16' });
+  check(vertical.width === 720 && vertical.height === 1280, 'Named resolutions follow the aspect ratio');
+  check(getOutputSize({ resolution: 'hd', size: { width: 400, height: 300 } }).width === 400, 'An explicit size wins');
+
+  const edit = buildEdit();
+  check(getTimelineSources(edit).length === 3, 'Sources are listed once each');
+
+  const inputs = new Map<string, FfmpegInput>(getTimelineSources(edit).map(src => [src, { path: `/work/${src.split('/').pop()}`, hasAudio: false }]));
+  const plan = planFfmpegRender(edit, inputs, { outputPath: '/out/render.mp4', workDir: '/work' });
+  const graph = plan.args[plan.args.indexOf('-filter_complex') + 1];
+
+  check(plan.width === 720 && plan.height === 1280 && plan.duration === 3, 'Plan has the output size and duration');
+  check(graph.indexOf('zoompan') < graph.indexOf('drawtext'), 'Bottom tracks are drawn first, captions last');
+  check(graph.includes('fade=t=in:st=0:d=1:alpha=1'), 'Fade transition fades the clip in over a second');
+  check(graph.includes(':eval=frame'), 'Soundtrack tweens become a per-frame volume expression');
+  check(graph.includes('amix=inputs=2'), 'Narration and soundtrack are mixed');
+  check(plan.textFiles.some(file => file.content.includes('porch')), 'Caption text is written to drawtext files');
+  check(plan.args[plan.args.length - 1] === '/out/render.mp4', 'Output path is the last argument');
+
+  check(refuses({ timeline: { tracks: [{ clips: [{ asset: { type: 'luma', src: 'https://a/b.mp4' }, start: 0, length: 1 }] }] } }, /luma/), 'Luma mattes are refused');
+  check(refuses({ timeline: { tracks: [{ clips: [{ asset: { type: 'image', src: 'https://a/b.png' }, start: 0, length: 1, transition: { in: 'wipeLeft' } }] }] } }, /wipeLeft/), 'Unsupported transitions are refused');
+  check(refuses({ timeline: { tracks: [{ clips: [{ asset: { type: 'image', src: 'https://a/b.png' }, start: 0, length: 'auto' }] }] } }, /length/), 'Smart clip lengths are refused');
+  check(refuses({ timeline: { tracks: [] }, output: { format: 'gif' } }, /.+/), 'Empty timelines and other formats are refused');
+
+}
+
+async function testBadRequest(): Promise<void> {
+  console.log('\n🚫 Refusing bad edits');
+  console.log('=' .repeat(50));
+  const dir = await mkdtemp(join(tmpdir(), 'local-render-test-'));
+  const server = await startLocalRenderServer({ outputDir: dir });
+  try {
+    const response = await fetch(`${server.url}/stage/render`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ timeline: { tracks: [{ clips: [{ asset: { type: 'shape' }, start: 0, length: 1 }] }] } })
+    });
+    const body = await response.json();
+    check(response.status === 400 && /shape/.test(body.response.error), 'Unsupported assets get a 400 before rendering');
+    const missing = await fetch(`${server.url}/stage/render/00000000-0000-0000-0000-000000000000`);
+    check(missing.status === 404, 'Unknown render ids get a 404');
+    check(server.renders.size === 0, 'Nothing was queued');
+  } finally {
+    await server.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function ffmpeg(args: string[]): void {
+  const run = spawnSync(process.env.FFMPEG_PATH || 'ffmpeg', ['-hide_banner', '-loglevel', 'error', '-y', ...args], { timeout: 60000 });
+  if (run.status !== 0) {
+    throw new Error(`ffmpeg ${args.join(' ')} failed: ${run.stderr}`);
+  }
+}
+
+async function testRealRender(): Promise<void> {
+  console.log('\n🎬 Rendering through ShotstackService');
+  console.log('=' .repeat(50));
+
+  if (!(await new LocalRenderer().isAvailable())) {
+    // The GitHub Actions job installs ffmpeg, so there the render must not be skipped
+    check(!process.env.GITHUB_ACTIONS, 'ffmpeg is installed in CI');
+    console.log('⏭️  ffmpeg not found - set FFMPEG_PATH to run the render');
+    return;
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), 'local-render-test-'));
+  const callbacks: any[] = [];
+  const receiver = createServer(async (req, res) => {
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+    callbacks.push(JSON.parse(raw));
+    res.writeHead(202).end();
+  });
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  const server = await startLocalRenderServer({ outputDir: join(dir, 'renders') });
+  const previousUrl = process.env.SHOTSTACK_API_URL;
+  process.env.SHOTSTACK_API_URL = `${server.url}/stage`;
+
+  try {
+    // Assets made by ffmpeg itself: a test pattern with a tone, and the narration
+    const background = join(dir, 'background.mp4');
+    const narrationPath = join(dir, 'narration.wav');
+    ffmpeg(['-f', 'lavfi', '-i', 'testsrc=size=320x240:rate=30:duration=4', '-f', 'lavfi', '-i', 'sine=frequency=220:duration=4', '-shortest', '-pix_fmt', 'yuv420p', background]);
+    ffmpeg(['-f', 'lavfi', '-i', 'sine=frequency=440:duration=3', narrationPath]);
+
+    const narration: NarrationAudio = {
+      key: 'audio/narration.wav',
+      url: pathToFileURL(narrationPath).href,
+      bucket: 'local',
+      size: 0,
+      contentType: 'audio/wav',
+      uploadedAt: new Date().toISOString(),
+      duration: 3,
+      words,
+      timingSource: 'alignment'
+    };
+
+    const service = new ShotstackService('local-key');
+    const submitted = await service.generateVideo(script, narration, {
+      background: 'library',
+      backgroundSegments: [{ clipId: 'pattern', src: pathToFileURL(background).href, trim: 0.5, start: 0, length: 3 }],
+      resolution: '1280x720',
+      style: 'modern',
+      callbackUrl: `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/callback`
+    });
+    check(submitted.success && !!submitted.data?.renderId, 'ShotstackService queued the render locally');
+    if (!submitted.data) return;
+
+    let status = await service.getRenderStatus(submitted.data.renderId);
+    for (let attempt = 0; attempt < 600 && status.data && !['done', 'failed'].includes(status.data.status); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      status = await service.getRenderStatus(submitted.data.renderId);
+    }
+    check(status.data?.status === 'done', `Render finished (${status.data?.status}${status.data?.error ? `: ${status.data.error}` : ''})`);
+    if (!status.data?.downloadUrl) return;
+
+    const video = await fetch(status.data.downloadUrl);
+    const metadata = getMp4Metadata(new Uint8Array(await video.arrayBuffer()));
+    check(metadata.width === 1280 && metadata.height === 720, `MP4 is 1280x720 (${metadata.width}x${metadata.height})`);
+    check(Math.abs(metadata.duration - 3) < 0.2, `MP4 runs the narration's length (${metadata.duration.toFixed(2)}s)`);
+
+    await server.idle();
+    const callback = callbacks.find(body => body.id === submitted.data!.renderId);
+    check(callback?.status === 'done' && callback.url === status.data.downloadUrl, 'Callback was posted with the video URL');
+
+    // A missing asset fails the render instead of the request
+    const missing = await fetch(`${server.url}/stage/render`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ timeline: { tracks: [{ clips: [{ asset: { type: 'video', src: pathToFileURL(join(dir, 'gone.mp4')).href }, start: 0, length: 1 }] }] } })
+    });
+    const { response } = await missing.json();
+    await server.idle();
+    const failed = await service.getRenderStatus(response.id);
+    check(failed.data?.status === 'failed' && !!failed.data.error, 'A missing asset fails the render');
+  } finally {
+    if (previousUrl === undefined) delete process.env.SHOTSTACK_API_URL;
+    else process.env.SHOTSTACK_API_URL = previousUrl;
+    await server.close();
+    await new Promise(resolve => receiver.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  console.log('🎞️ Testing the Local Render Server');
+  console.log('=' .repeat(50));
+
+  testPlanning();
+  await testBadRequest();
+  await testRealRender();
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Local render tests passed', 'Some local render tests failed');
+}
+
+main().catch(error => {
+  console.error('❌ Local render test crashed:', error);
+  process.exit(1);
+});
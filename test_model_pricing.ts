@@ -0,0 +1,102 @@
+#!/usr/bin/env tsx
+
+// Model pricing test: dated model names resolve to their family's price
+// (longest prefix wins), unknown models fall back to the most expensive tier,
+// token costs and pre-call estimates add up, and ClaudeService reconciles its
+// estimate with the usage block Claude returns - charging the budget and the
+// usage ledger the real cost, and releasing the reservation when the call
+// fails. Claude is the local fake LLM, so no network access or API keys needed.
+
+import { startFakeLLM } from './lib/mocks/fake-llm';
+import { ClaudeService } from './lib/services/claude-service';
+import { buildStory, createTestReport } from './lib/test-data/test-helpers';
+import { configureLedgerStorage } from './lib/usage/ledger-config';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { MODEL_PRICES, calculateTokenCost, estimateTokens, getModelPrice } from './lib/usage/model-pricing';
+import { UsageLedger, todayUTC } from './lib/usage/usage-ledger';
+
+const { check, finish } = createTestReport();
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-12;
+
+const MODEL = 'claude-3-5-sonnet-20241022';
+
+function testPricing(): void {
+  console.log('\n🏷️ Prices and estimates');
+  console.log('=' .repeat(50));
+
+  check(getModelPrice(MODEL) === MODEL_PRICES['claude-3-5-sonnet'], 'A dated snapshot resolves to its family');
+  check(getModelPrice('claude-3-5-haiku-20241022') === MODEL_PRICES['claude-3-5-haiku'], 'claude-3-5-haiku is not priced as claude-3-haiku');
+  check(getModelPrice('gpt-4o-mini-2024-07-18') === MODEL_PRICES['gpt-4o-mini'] && getModelPrice('GPT-4o') === MODEL_PRICES['gpt-4o'], 'The longest prefix wins, ignoring case');
+  check(getModelPrice('claude-9-experimental') === MODEL_PRICES['claude-3-opus'] && getModelPrice('gpt-9') === MODEL_PRICES['gpt-4'], 'Unknown models use their family\'s most expensive tier');
+  check(getModelPrice('mistral-large') === MODEL_PRICES['claude-3-opus'], 'Unknown families use the most expensive known price');
+
+  check(close(calculateTokenCost(MODEL, { inputTokens: 1000000, outputTokens: 1000000 }), 18), 'A million tokens each way costs input plus output price');
+  check(close(calculateTokenCost('claude-3-haiku-20240307', { inputTokens: 1200, outputTokens: 400 }), 0.0008), 'Input and output are priced separately');
+  check(calculateTokenCost(MODEL, { inputTokens: 0, outputTokens: 0 }) === 0, 'No tokens cost nothing');
+
+  check(estimateTokens('') === 0, 'Empty text is no tokens');
+  check(estimateTokens('Hi, there!') === 5, `Words are a token per ~4 letters, punctuation a token each (${estimateTokens('Hi, there!')})`);
+  check(estimateTokens('1234567') === 3, 'Digits count in groups of three');
+  const prose = 'So this happened last week. I picked up cough syrup at the drugstore and came home to find the bins in my driveway again.';
+  check(estimateTokens(prose) >= Math.ceil(prose.length / 4), `Prose is not underestimated (${estimateTokens(prose)} tokens for ${prose.length} characters)`);
+}
+
+async function testReconciliation(): Promise<void> {
+  console.log('\n🧮 ClaudeService reconciles the estimate with real usage');
+  console.log('=' .repeat(50));
+
+  const storage = new MemoryLedgerStorage();
+  configureLedgerStorage(storage);
+  const llm = await startFakeLLM();
+  const realEnv = { key: process.env.ANTHROPIC_API_KEY, baseUrl: process.env.ANTHROPIC_BASE_URL };
+  process.env.ANTHROPIC_API_KEY = 'fake-key';
+  process.env.ANTHROPIC_BASE_URL = llm.url;
+
+  try {
+    const story = buildStory({ id: 'pricing123' });
+    const enhancement = await new ClaudeService().enhanceStoryWithUsage(story, 1);
+    const { prompt } = llm.calls[llm.calls.length - 1];
+    const { usage } = enhancement;
+
+    // The fake bills about a token per four characters
+    check(usage.source === 'claude' && usage.model === MODEL, `Usage comes from Claude (${usage.model})`);
+    check(usage.inputTokens === Math.ceil(prompt.length / 4) && usage.outputTokens > 0, `Tokens are taken from the usage block (${usage.inputTokens} in / ${usage.outputTokens} out)`);
+    check(close(usage.estimatedCost, calculateTokenCost(MODEL, { inputTokens: estimateTokens(prompt), outputTokens: 400 })), `The estimate assumes the prompt plus every allowed output token ($${usage.estimatedCost.toFixed(4)})`);
+    check(close(usage.cost, calculateTokenCost(MODEL, usage)) && usage.cost < usage.estimatedCost, `The real cost is charged, not the estimate ($${usage.cost.toFixed(4)})`);
+
+    const budget = await ClaudeService.getCurrentUsage();
+    check(budget.callsToday === 1 && close(budget.costToday, usage.cost), 'The budget is charged the real cost');
+    check(budget.tokensToday === usage.inputTokens + usage.outputTokens && budget.pendingCalls === 0 && budget.reservedCost === 0, 'And the real tokens, with the reservation settled');
+
+    const [entry] = (await new UsageLedger(storage).getDailyLog(todayUTC())).entries;
+    check(entry?.model === MODEL && close(entry.cost, usage.cost) && entry.inputTokens === usage.inputTokens, 'The usage ledger records the real cost and tokens');
+    check(entry?.metadata?.estimatedCost === usage.estimatedCost, 'And keeps the estimate alongside');
+
+    llm.failModel(MODEL, 400);
+    const failed = await new ClaudeService().enhanceStoryWithUsage(story, 1);
+    const afterFailure = await ClaudeService.getCurrentUsage();
+    check(failed.usage.source === 'fallback' && failed.usage.cost === 0, 'A failed call falls back and costs nothing');
+    check(afterFailure.callsToday === 1 && afterFailure.pendingCalls === 0 && close(afterFailure.costToday, usage.cost), 'Its reservation is released, not charged');
+  } finally {
+    if (realEnv.key === undefined) delete process.env.ANTHROPIC_API_KEY; else process.env.ANTHROPIC_API_KEY = realEnv.key;
+    if (realEnv.baseUrl === undefined) delete process.env.ANTHROPIC_BASE_URL; else process.env.ANTHROPIC_BASE_URL = realEnv.baseUrl;
+    await llm.close();
+  }
+}
+
+async function main() {
+  console.log('💲 Testing Model Pricing');
+  console.log('=' .repeat(50));
+
+  testPricing();
+  await testReconciliation();
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Model pricing working', 'Model pricing has failures');
+}
+
+main().catch(error => {
+  console.error('❌ Model pricing test crashed:', error);
+  process.exit(1);
+});
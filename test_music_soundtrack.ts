@@ -0,0 +1,150 @@
+#!/usr/bin/env tsx
+
+// Music bed test: ducking keyframes under the narration (dip, swell in long
+// pauses, fade out), slicing them across loops of a short track, the music
+// library (adding, mood matching, license credits) and a workflow render with
+// the soundtrack under the voice. Uses the local fake Shotstack and in-memory
+// storage - no network access or API keys needed.
+
+import { buildUploadDescription } from './lib/attribution/attribution';
+import { DEFAULT_STORY_CATEGORIES } from './lib/categories/category-store';
+import { startFakeShotstack } from './lib/mocks/fake-shotstack';
+import { MusicLibrary, MusicLibraryError } from './lib/music/music-library';
+import { buildDuckingTweens, buildSoundtrackTrack, getSpeechRanges, sliceTweens, VolumeTween } from './lib/music/soundtrack';
+import { buildStory, buildWav, createMemoryBucket, createTestReport, rejectsWith } from './lib/test-data/test-helpers';
+import { MusicBed } from './lib/types/reddit-automation';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { ShotstackPipelineClient } from './lib/workflows/shotstack-pipeline';
+import { runVideoWorkflow } from './lib/workflows/video-workflow';
+import { WorkflowStore } from './lib/workflows/workflow-store';
+
+const story = buildStory({
+  id: 'mus123',
+  title: 'The house at the end of the road',
+  content: 'Every night at three the porch light came on by itself. Last week I finally stayed up to watch, and someone was standing under it.',
+  subreddit: 'nosleep',
+  author: 'night_owl',
+  category: 'horror'
+});
+
+// Volume the keyframes give at a time
+function volumeAt(tweens: VolumeTween[], time: number): number | undefined {
+  const tween = tweens.find(candidate => time >= candidate.start && time <= candidate.start + candidate.length);
+  return tween && tween.from + ((tween.to - tween.from) * (time - tween.start)) / tween.length;
+}
+
+async function testMusicSoundtrack() {
+  console.log('🎵 Testing Music Bed and Ducking');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+  const rejects = (action: () => unknown, status: number) => rejectsWith(action, MusicLibraryError, status);
+
+  // Ducking
+  const speech = getSpeechRanges([
+    { start: 2, duration: 10 },
+    { start: 12.5, duration: 7.5 }, // Half-second pause - stays ducked
+    { start: 25, duration: 10 }
+  ]);
+  check(speech.length === 2 && speech[0].start === 2 && speech[0].end === 20 && speech[1].end === 35, 'Short pauses merged into one speech range');
+
+  const tweens = buildDuckingTweens(speech, 45, 0.3, 0.075);
+  check(tweens[0].start === 0 && tweens.every((tween, i) => i === 0 || Math.abs(tweens[i - 1].start + tweens[i - 1].length - tween.start) < 0.001), 'Keyframes contiguous from the start');
+  check(volumeAt(tweens, 1) === 0.3 && volumeAt(tweens, 10) === 0.075 && volumeAt(tweens, 30) === 0.075, 'Full volume before the voice, ducked while it speaks');
+  check(volumeAt(tweens, 22) === 0.3, 'Music swells back up in the long pause');
+  check(volumeAt(tweens, 38) === 0.3 && volumeAt(tweens, 45) === 0, 'Back up on the outro, then faded out');
+  const dip = tweens.find(tween => tween.to === 0.075 && tween.from === 0.3);
+  check(dip !== undefined && Math.abs(dip.start + dip.length - 2) < 0.001, 'Already ducked when the voice starts');
+
+  const narratedToEnd = buildDuckingTweens([{ start: 0, end: 30 }], 30, 0.3, 0.075);
+  check(narratedToEnd.every(tween => tween.from === 0.075 && tween.to === 0.075), 'Narration from start to end keeps the music ducked throughout');
+
+  // Looping
+  const slice = sliceTweens(tweens, 20, 40);
+  check(slice[0].start === 0 && volumeAt(slice, 2) === 0.3 && volumeAt(slice, 10) === 0.075, 'Keyframes sliced relative to a loop');
+
+  const bed: MusicBed = { trackId: 'music_1', name: 'Night drive', src: 'https://ghost.example/api/music/music_1/audio', duration: 20, volume: 0.3, duckedVolume: 0.075 };
+  const track = buildSoundtrackTrack(bed, speech, 45);
+  check(track.clips.length === 3 && track.clips[2].start === 40 && track.clips[2].length === 5, 'Short track looped to fill the video');
+  check(track.clips.every(clip => clip.asset.type === 'audio' && clip.asset.volume.length > 0), 'Every loop carries its volume keyframes');
+
+  // Library
+  const bucket = createMemoryBucket();
+  const library = new MusicLibrary(new MemoryLedgerStorage(), bucket, 'https://ghost.example/');
+  const dark = await library.add({
+    name: 'Hollow',
+    artist: 'Crypt',
+    bpm: 72,
+    moods: ['Dark Ambient', 'suspense'],
+    license: { name: 'CC BY 4.0', url: 'https://creativecommons.org/licenses/by/4.0/', attribution: '"Hollow" by Crypt (CC BY 4.0)' },
+    audio: buildWav(20)
+  });
+  const upbeat = await library.add({ name: 'Sunny', moods: ['upbeat'], license: { name: 'Pixabay Content License' }, audio: buildWav(30) });
+
+  check(dark.duration === 20 && dark.contentType === 'audio/wav' && bucket.objects.get(`music/${dark.id}`)?.contentType === 'audio/wav', 'Track stored in R2 with its measured length');
+  check(dark.moods.join(',') === 'dark ambient,suspense' && dark.bpm === 72, 'Moods lowercased, BPM kept');
+  check(await rejects(() => library.add({ name: 'Jingle', license: { name: 'CC0' }, audio: buildWav(2) }), 400), 'Tracks under 5 seconds refused');
+  check(await rejects(() => library.add({ name: 'Unknown', license: { name: '' }, audio: buildWav(10) }), 400), 'Tracks without a license refused');
+  check(await rejects(() => library.add({ name: 'Text', license: { name: 'CC0' }, audio: new TextEncoder().encode('nope') }), 415), 'Unreadable audio refused');
+
+  const horrorMoods = DEFAULT_STORY_CATEGORIES.find(category => category.id === 'horror')!.musicMoods;
+  const horrorBed = await library.choose({ moods: horrorMoods });
+  check(horrorBed?.trackId === dark.id && horrorBed.src === `https://ghost.example/api/music/${dark.id}/audio`, 'Horror category picks the dark ambient track');
+  check(horrorBed?.volume === 0.3 && horrorBed.duckedVolume === 0.075 && horrorBed.credit === dark.license.attribution, 'Default levels and license credit on the bed');
+  const fallback = await library.choose({ moods: ['polka'] });
+  check(fallback !== null, 'Unmatched moods fall back to any track');
+  check(await rejects(() => library.choose({ trackId: 'music_missing' }), 404), 'Unknown track id is a 404');
+  check((await new MusicLibrary(new MemoryLedgerStorage(), bucket, null).choose()) === null, 'Empty library gives no soundtrack');
+
+  const retagged = await library.update(upbeat.id, { moods: ['upbeat', 'uplifting'] });
+  check(retagged.moods.includes('uplifting') && retagged.license.name === 'Pixabay Content License', 'Moods edited without touching the license');
+
+  // PUT /api/music/:id passes the JSON body's bpm through as sent
+  check((await library.update(dark.id, JSON.parse('{"bpm": "96"}'))).bpm === 96, 'BPM sent as a string is read as a number');
+  check((await library.update(dark.id, JSON.parse('{"bpm": ""}'))).bpm === null, 'An empty BPM clears it');
+  check(await rejects(() => library.update(dark.id, JSON.parse('{"bpm": "fast"}')), 400), 'A BPM that is not a number is refused');
+
+  const description = buildUploadDescription(story, undefined, horrorBed?.credit);
+  check(description.includes('Music: "Hollow" by Crypt (CC BY 4.0)'), 'License credit in the upload description');
+
+  // Workflow
+  const fake = await startFakeShotstack({ renderDelayMs: 200 });
+  const store = new WorkflowStore(new MemoryLedgerStorage());
+  const deps = {
+    client: new ShotstackPipelineClient('fake-key', 'stage', { origin: fake.url, assetPollIntervalMs: 50 }),
+    backgroundVideo: new TextEncoder().encode('fake video').buffer,
+    music: library,
+    callbackUrl: null
+  };
+
+  try {
+    const workflow = await runVideoWorkflow(store, (await store.create({ request: { story, durationSeconds: 45, music: { moods: horrorMoods } } })).workflowId, deps);
+    check(workflow.status === 'processing' && workflow.music?.trackId === dark.id, 'Chosen track recorded on the workflow');
+
+    const tracks = fake.renders.get(workflow.render!.renderId)?.timeline.tracks || [];
+    const soundtrack = tracks.find((track: any) => track.clips.some((clip: any) => clip.asset.src === horrorBed?.src));
+    const voiceIndex = tracks.findIndex((track: any) => track.clips.some((clip: any) => clip.asset.type === 'audio' && clip.asset.src !== horrorBed?.src));
+    check(soundtrack !== undefined && tracks.indexOf(soundtrack) > voiceIndex, 'Soundtrack under the voice track');
+    const covered = soundtrack?.clips.reduce((total: number, clip: any) => total + clip.length, 0);
+    check(Math.abs(covered - 45) < 0.01 && soundtrack.clips.length === 3, `Track looped over the whole video (${covered}s)`);
+    const keyframes: VolumeTween[] = soundtrack?.clips[0].asset.volume || [];
+    check(keyframes.some(tween => tween.to === horrorBed!.duckedVolume), 'Ducked under the narration');
+
+    const silent = await runVideoWorkflow(store, (await store.create({ request: { story, durationSeconds: 45, music: false } })).workflowId, deps);
+    const silentTracks = fake.renders.get(silent.render!.renderId)?.timeline.tracks || [];
+    check(!silent.music && !silentTracks.some((track: any) => track.clips.some((clip: any) => clip.asset.src === horrorBed?.src)), 'music: false renders without a soundtrack');
+  } finally {
+    await fake.close();
+  }
+
+  await library.remove(upbeat.id);
+  check(!bucket.objects.has(`music/${upbeat.id}`) && (await library.list()).length === 1, 'Removing a track deletes its audio');
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Music bed working', 'Music bed has failures');
+}
+
+testMusicSoundtrack().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
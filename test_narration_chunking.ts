@@ -0,0 +1,75 @@
+#!/usr/bin/env tsx
+
+// Narration chunking test: sentence-boundary chunks, offsets for hard-split
+// words, audio duration parsing and back-to-back clip layout. Runs offline.
+
+import { getAudioDuration } from './lib/narration/audio-duration';
+import { buildNarrationTrack, joinMp3Chunks, layoutNarration } from './lib/narration/narration';
+import { chunkNarrationText, cleanNarrationText, SHOTSTACK_TTS_MAX_CHARS, splitSentences } from './lib/narration/text-chunker';
+import { buildWav, createTestReport } from './lib/test-data/test-helpers';
+
+// 128kbps/44.1kHz MPEG-1 Layer III frames, 1152 samples each
+function mp3(frames: number, id3: boolean = false): Uint8Array {
+  const frame = new Uint8Array(417);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  const tag = id3 ? new Uint8Array([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 6, 1, 2, 3, 4, 5, 6]) : new Uint8Array(0);
+  return joinMp3Chunks([tag, ...Array(frames).fill(frame)]);
+}
+
+function testNarrationChunking() {
+  console.log('✂️ Testing Narration Chunking');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  // Sentence splitting
+  const sentences = splitSentences('Dr. Smith paid $3.50 for it. Was it worth it?! "No," she said. Then... silence');
+  check(sentences.length === 5 && sentences[0] === 'Dr. Smith paid $3.50 for it.', `Split into ${sentences.length} sentences: ${JSON.stringify(sentences)}`);
+
+  // A ~5 minute story chunks without losing a word
+  const sentence = 'My roommate kept eating my leftovers, so one night I labeled everything in the fridge with fake expiry dates. ';
+  const story = sentence.repeat(45);
+  const chunks = chunkNarrationText(story, { maxChars: SHOTSTACK_TTS_MAX_CHARS });
+  check(chunks.every(chunk => chunk.text.length <= SHOTSTACK_TTS_MAX_CHARS), `${chunks.length} chunks, all under ${SHOTSTACK_TTS_MAX_CHARS} chars`);
+  check(chunks.every(chunk => /[.!?]$/.test(chunk.text)), 'Every chunk ends on a sentence boundary');
+  check(chunks.map(chunk => chunk.text).join(' ') === story.trim(), 'Chunks rejoin to the full story (no truncation)');
+
+  // Run-on sentence with no punctuation still fits
+  const runOn = chunkNarrationText('word '.repeat(1000), { maxChars: 200 });
+  check(runOn.every(chunk => chunk.text.length <= 200) && runOn.length === 25, `Run-on sentence split into ${runOn.length} chunks`);
+
+  // Words longer than a chunk are hard-split; offsets still point at each chunk's text
+  const url = `https://example.com/${'a1b2c3'.repeat(15)}`;
+  const linked = `Read it here:  ${url} before you judge.  Then come back.`;
+  const cleaned = cleanNarrationText(linked);
+  const hardSplit = chunkNarrationText(linked, { maxChars: 40 });
+  check(hardSplit.every(chunk => chunk.text.length <= 40 && cleaned.slice(chunk.start, chunk.end) === chunk.text), `Every chunk's offsets match its text (${hardSplit.length} chunks)`);
+  const urlChunks = hardSplit.filter(chunk => chunk.end > cleaned.indexOf(url) && chunk.start < cleaned.indexOf(url) + url.length);
+  check(urlChunks.every((chunk, i) => i === 0 || chunk.start === urlChunks[i - 1].end), 'Pieces of a hard-split word are contiguous, with no space added between them');
+  check(cleaned.slice(urlChunks[0].start, urlChunks[urlChunks.length - 1].end).includes(url), 'And cover the whole word');
+
+  // Audio durations
+  const frameSeconds = 1152 / 44100;
+  check(Math.abs(getAudioDuration(mp3(383)) - 383 * frameSeconds) < 1e-9, `MP3 duration ${getAudioDuration(mp3(383)).toFixed(3)}s`);
+  check(Math.abs(getAudioDuration(mp3(100, true)) - 100 * frameSeconds) < 1e-9, 'MP3 with ID3 tag measured');
+  check(Math.abs(getAudioDuration(joinMp3Chunks([mp3(50, true), mp3(70, true)])) - 120 * frameSeconds) < 1e-9, 'Joined MP3 keeps every frame');
+  check(getAudioDuration(buildWav(3, 22050)) === 3, `WAV duration ${getAudioDuration(buildWav(3, 22050))}s`);
+
+  // Back-to-back layout
+  const layout = layoutNarration([
+    { index: 1, audioUrl: 'b.mp3', duration: 62.4 },
+    { index: 0, audioUrl: 'a.mp3', duration: 58.123 },
+    { index: 2, audioUrl: 'c.mp3', duration: 12 }
+  ]);
+  check(
+    layout.clips.map(clip => clip.start).join(',') === '0,58.123,120.523' && layout.totalDuration === 132.523,
+    `Clips start at ${layout.clips.map(clip => clip.start).join(', ')}s, total ${layout.totalDuration}s`
+  );
+  const track = buildNarrationTrack(layout);
+  check(track.clips[1].asset.src === 'b.mp3' && track.clips[1].length === 62.4, 'Shotstack track uses chunk order and lengths');
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Narration chunking working', 'Narration chunking has failures');
+}
+
+testNarrationChunking();
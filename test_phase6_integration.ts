@@ -6,45 +6,53 @@ import { getSecurityManager } from './lib/utils/security-manager';
 import { getScalingManager } from './lib/utils/cloudflare-scaling';
 import { RedditCacheService } from './lib/services/reddit-cache-service';
 import { OptimizedVideoPipeline } from './lib/services/optimized-video-pipeline';
+import { createTestReport } from './lib/test-data/test-helpers';
 
 async function testPhase6Integration() {
   console.log('🧪 Testing Phase 6 Integration...\n');
+  const report = createTestReport();
+  const { check } = report;
 
   try {
     // Test 1: Queue Manager
     console.log('1. Testing Queue Manager...');
     const queueManager = getQueueManager();
     const stats = queueManager.getQueueStats();
-    console.log(`   ✅ Queue initialized with ${stats.totalJobs} jobs`);
+    check(stats.totalJobs === 0, `Queue initialized with ${stats.totalJobs} jobs`);
 
     // Test 2: Security Manager
     console.log('2. Testing Security Manager...');
     const securityManager = getSecurityManager();
     const validation = securityManager.validateAPIRequest('/test', { test: true });
-    console.log(`   ✅ Security validation: ${validation.valid ? 'PASS' : 'FAIL'}`);
+    check(validation.valid, `Security validation: ${validation.valid ? 'PASS' : 'FAIL'}`);
 
     // Test 3: Scaling Manager
     console.log('3. Testing Scaling Manager...');
     const scalingManager = getScalingManager();
     const metrics = scalingManager.getScalingMetrics();
-    console.log(`   ✅ Scaling manager active with ${metrics.queueLength} queued requests`);
+    check(metrics.queueLength === 0, `Scaling manager active with ${metrics.queueLength} queued requests`);
 
     // Test 4: Cache Service
     console.log('4. Testing Cache Service...');
     const cacheService = new RedditCacheService();
     const cachedStats = cacheService.getCachedUsageStats();
-    console.log(`   ✅ Cache service: ${cachedStats ? 'Has cached data' : 'Empty cache'}`);
+    check(cachedStats === null, `Cache service: ${cachedStats ? 'Has cached data' : 'Empty cache'}`);
 
     // Test 5: Optimized Pipeline
     console.log('5. Testing Optimized Pipeline...');
     const pipeline = new OptimizedVideoPipeline();
     const pipelineStats = pipeline.getStats();
-    console.log(`   ✅ Pipeline initialized with cache size: ${pipelineStats.cacheSize}`);
+    check(pipelineStats.cacheSize === 0, `Pipeline initialized with cache size: ${pipelineStats.cacheSize}`);
 
     // Test 6: Budget Protection
     console.log('6. Testing Budget Protection...');
     const budgetCheck = securityManager.checkBudgetLimits('claude', 0.50);
-    console.log(`   ✅ Budget check: ${budgetCheck.allowed ? 'ALLOWED' : 'BLOCKED'}`);
+    check(budgetCheck.allowed, `Budget check: ${budgetCheck.allowed ? 'ALLOWED' : 'BLOCKED'}`);
+
+    if (!report.passed) {
+      console.error('\n❌ Phase 6 Integration Test FAILED');
+      return false;
+    }
 
     console.log('\n🎉 Phase 6 Integration Test PASSED');
     console.log('\n📋 Phase 6 Summary:');
@@ -68,7 +76,9 @@ async function testPhase6Integration() {
 
 // Run test if this file is executed directly
 if (typeof window === 'undefined' && require.main === module) {
-  testPhase6Integration();
+  testPhase6Integration().then(ok => {
+    if (!ok) process.exit(1);
+  });
 }
 
 export { testPhase6Integration };
\ No newline at end of file
@@ -0,0 +1,123 @@
+#!/usr/bin/env tsx
+
+// PII redaction test: names, usernames, employers, places and contact
+// details are replaced with pseudonyms that stay consistent across the
+// title, content and enhanced text, the mapping records what changed, the
+// redacted story no longer trips the content-safety personal-info rules, and
+// queued story enhancements only show Claude (the local fake LLM) the
+// redacted story.
+
+import { startFakeLLM } from './lib/mocks/fake-llm';
+import { QueueItem } from './lib/queue/job-types';
+import { createDefaultJobHandlers } from './lib/queue/queue-worker';
+import { classifyWithRules } from './lib/safety/content-safety';
+import { redactStory } from './lib/safety/pii-redaction';
+import { OptimizedVideoPipeline } from './lib/services/optimized-video-pipeline';
+import { buildStory, createTestReport } from './lib/test-data/test-helpers';
+import { VideoGenerationRequest } from './lib/types/reddit-automation';
+
+const story = buildStory({
+  id: 'pii123',
+  title: 'AITA for reporting my boss Karen?',
+  content: [
+    'I (29F) work at Initech and my boss Karen (45F) keeps taking credit for my work.',
+    'Karen said the report was hers. My coworker named Dave Miller backed me up, and later Mr. Miller even emailed HR.',
+    'u/throwaway_initech, if you see this: call me on 555-867-5309 or jo.doe@example.com.',
+    'We moved to Tulsa, OK last May, and I drove past the drugstore on 42 Maple Grove Street every day.',
+    'Then she said Karen\'s decision was final.'
+  ].join(' '),
+  enhanced_content: 'Picture this: Karen, the boss from hell at Initech, takes all the credit.'
+});
+
+const { check, finish } = createTestReport();
+
+function testPiiRedaction() {
+  console.log('🕵️ Testing PII Redaction');
+  console.log('=' .repeat(50));
+
+  const { story: redacted, redaction } = redactStory(story, new Date('2026-01-01T00:00:00Z'));
+  const all = [redacted.title, redacted.content, redacted.enhanced_content].join(' ');
+  const replacementFor = (original: string) => redaction.replacements.find(r => r.original === original);
+
+  for (const original of ['Karen', 'Dave', 'Miller', 'Initech', 'Tulsa', 'throwaway_initech', '555-867-5309', 'jo.doe@example.com', 'Maple Grove']) {
+    check(!all.includes(original), `"${original}" removed`);
+  }
+
+  const karen = replacementFor('Karen');
+  check(karen?.kind === 'name' && karen.occurrences === 5, `Karen replaced everywhere with one pseudonym (${karen?.replacement} ×${karen?.occurrences})`);
+  check(redacted.title === `AITA for reporting my boss ${karen?.replacement}?` && redacted.enhanced_content!.startsWith(`Picture this: ${karen?.replacement},`), 'Same pseudonym in title, content and enhanced text');
+  check(redacted.content.includes(`${karen?.replacement}'s decision`), 'Possessives keep their ending');
+
+  const dave = replacementFor('Dave Miller');
+  const miller = replacementFor('Miller');
+  check(Boolean(dave && miller) && dave!.replacement.endsWith(` ${miller!.replacement}`), `Surname on its own matches the full-name pseudonym (${dave?.replacement}, Mr. ${miller?.replacement})`);
+  check(new Set([karen?.replacement, dave?.replacement.split(' ')[0]]).size === 2, 'Different people get different pseudonyms');
+
+  check(replacementFor('Initech')?.kind === 'employer' && replacementFor('Tulsa')?.kind === 'place', 'Employer and place recognized');
+  check(replacementFor('555-867-5309')?.replacement === '[phone number]' && replacementFor('jo.doe@example.com')?.replacement === '[email address]', 'Contact details become placeholders');
+  check(replacementFor('u/throwaway_initech')?.kind === 'username' && redacted.content.includes('u/'), 'Username swapped for a pseudonymous one');
+  check(redacted.content.includes('the drugstore on [street address]') && redacted.content.includes('last May'), 'Ordinary words and months left alone');
+
+  check(redaction.redactedAt === '2026-01-01T00:00:00.000Z' && redaction.replacements.every(r => r.occurrences > 0), 'Mapping lists only what was replaced');
+  check(story.content.includes('Karen'), 'Original story left untouched');
+
+  const before = classifyWithRules(story.content, 'story');
+  const after = classifyWithRules(redacted.content, 'story');
+  check(before.categories.personal_info === 'high' && after.categories.personal_info !== 'high', 'Redacted story no longer blocked for personal info');
+
+  const plain = redactStory({ ...story, title: 'A quiet day', content: 'Nothing happened at all today.', enhanced_content: undefined });
+  check(plain.redaction.replacements.length === 0 && plain.story.content === 'Nothing happened at all today.', 'Story without personal details unchanged');
+}
+
+async function testQueuedEnhancement(): Promise<void> {
+  console.log('\n📬 Queued story enhancement');
+  console.log('=' .repeat(50));
+
+  const fake = await startFakeLLM();
+  process.env.ANTHROPIC_API_KEY = 'fake-key';
+  process.env.ANTHROPIC_BASE_URL = fake.url;
+  const handlers = createDefaultJobHandlers();
+  const context = { workerId: 'worker_test', signal: new AbortController().signal };
+  const job = (payload: any): QueueItem => ({
+    id: 'queue_pii', type: 'story_enhancement', payload, priority: 'medium', status: 'processing',
+    createdAt: Date.now(), updatedAt: Date.now(), retryCount: 0, maxRetries: 0
+  });
+
+  try {
+    const result = await handlers.story_enhancement(job({ story, targetDuration: 1 }), context);
+    const sent = fake.calls[fake.calls.length - 1].prompt;
+    check(!['Karen', 'Initech', '555-867-5309'].some(original => sent.includes(original)), 'Claude is sent the redacted story');
+    check(result.redaction?.replacements.some((r: { original: string }) => r.original === 'Karen'), 'The job result carries the redaction mapping');
+
+    const optedOut = await handlers.story_enhancement(job({ story, targetDuration: 1, redact_pii: false }), context);
+    check(fake.calls[fake.calls.length - 1].prompt.includes('Karen') && optedOut.redaction === undefined, 'redact_pii: false sends the story as written');
+  } finally {
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.ANTHROPIC_BASE_URL;
+    await fake.close();
+  }
+
+  const request: VideoGenerationRequest = {
+    story,
+    background_url: '',
+    voice_settings: { voice_id: 'voice_1', stability: 0.5, similarity_boost: 0.5 },
+    video_config: { duration: 60, add_captions: true, music_volume: 0.2 },
+    userTriggered: true
+  };
+  const pipeline = new OptimizedVideoPipeline();
+  check(pipeline['generateCacheKey'](request) === pipeline['generateCacheKey']({ ...request, redact_pii: true }), 'Redaction is on by default for the pipeline cache');
+  check(pipeline['generateCacheKey'](request) !== pipeline['generateCacheKey']({ ...request, redact_pii: false }), 'Redacted and unredacted runs are cached separately');
+}
+
+async function main() {
+  testPiiRedaction();
+  await testQueuedEnhancement();
+
+  console.log('\n' + '=' .repeat(50));
+  finish('PII redaction working', 'PII redaction has failures');
+}
+
+main().catch(error => {
+  console.error('❌ PII redaction test crashed:', error);
+  process.exit(1);
+});
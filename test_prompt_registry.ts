@@ -0,0 +1,150 @@
+#!/usr/bin/env tsx
+
+// Prompt registry test: built-in templates matching the old inline prompts,
+// typed variables (missing, mistyped, choice fallbacks), saving versions,
+// activating old ones, draft validation, the template version recorded on
+// what the generators produce, and generators rendering the versions saved
+// through /api/prompts. In-memory storage and the local fake LLM - no
+// network access or API keys needed.
+
+import { startFakeLLM } from './lib/mocks/fake-llm';
+import { LLMProvider, LLMRouter, TaskType } from './lib/modules/llm-router';
+import { SaaSToolsEngine } from './lib/modules/saas-tools';
+import { PromptRegistry, PromptTemplateError, promptRegistry, renderPromptTemplate, validatePromptTemplate } from './lib/prompts/prompt-registry';
+import { BUILT_IN_PROMPT_TEMPLATES, PROMPT_TEMPLATE_IDS } from './lib/prompts/prompt-templates';
+import { ClaudeService } from './lib/services/claude-service';
+import { buildStory, createTestReport, rejectsWith } from './lib/test-data/test-helpers';
+import { configureLedgerStorage } from './lib/usage/ledger-config';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+
+async function testPromptRegistry() {
+  console.log('📝 Testing Prompt Template Registry');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+  const rejects = (action: () => unknown, status: number, mentioning?: string) => rejectsWith(action, PromptTemplateError, status, mentioning);
+
+  const registry = new PromptRegistry(new MemoryLedgerStorage());
+  const storyVariables = { subreddit: 'nosleep', title: 'The lighthouse', content: 'It blinked twice.', category: 'horror', targetMinutes: 3, targetWords: 450 };
+
+  // Built-ins
+  const templates = await registry.list();
+  check(Object.values(PROMPT_TEMPLATE_IDS).every(id => templates.some(template => template.id === id && template.activeVersion === 1)), 'Every generator has a built-in version 1');
+  for (const [id, template] of Object.entries(BUILT_IN_PROMPT_TEMPLATES)) {
+    check(validatePromptTemplate(template).template === template.template, `Built-in ${id} passes validation`);
+  }
+
+  const story = await registry.render(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, storyVariables);
+  check(story.version === 1 && story.text.includes('ORIGINAL STORY (r/nosleep):') && story.text.includes('Target 3 minutes when read aloud (450 words approximately)'), 'Story prompt rendered from its variables');
+  check(story.text.includes('Organize for suspense and atmospheric tension buildup') && !story.text.includes('{{'), 'Category picks its instruction, no placeholders left');
+  const unknownCategory = await registry.render(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, { ...storyVariables, category: 'cooking' });
+  check(unknownCategory.text.includes('Structure the story for clear pacing'), 'Unknown category gets the fallback instruction');
+
+  // Typed variables
+  check(await rejects(() => registry.render(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, { ...storyVariables, title: undefined }), 400, 'title'), 'Missing variable named in the error');
+  check(await rejects(() => registry.render(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, { ...storyVariables, targetMinutes: 'three' }), 400, 'targetMinutes'), 'Mistyped number refused');
+  const viral = await registry.render(PROMPT_TEMPLATE_IDS.VIRAL_SCRIPT, { topic: 'sleep', niche: 'health', structure: 'Problem, fix', hook: 'Nobody tells you this' });
+  check(viral.text.includes('Style: educational'), 'Defaults fill in omitted variables');
+  check(renderPromptTemplate({ template: 'Data: {{data}}', variables: [{ name: 'data', type: 'json' }] }, { data: { a: 1 } }) === 'Data: {\n  "a": 1\n}', 'JSON variables indented');
+
+  // Versions
+  const v2 = await registry.save(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, {
+    ...BUILT_IN_PROMPT_TEMPLATES[PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT],
+    template: 'Retell r/{{subreddit}} "{{title}}" in {{targetWords}} words: {{content}} ({{category}})',
+    note: 'Shorter prompt'
+  });
+  check(v2.version === 2 && v2.note === 'Shorter prompt' && v2.description.length > 0, 'Saving adds version 2, keeping the description');
+  check((await registry.render(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, storyVariables)).text.startsWith('Retell r/nosleep'), 'New version is active');
+  check((await registry.render(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, storyVariables, 1)).text.startsWith('Transform this Reddit story'), 'Old version still renderable');
+
+  const v3 = await registry.save(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, { template: 'Draft {{content}}', variables: [{ name: 'content', type: 'string' }] }, false);
+  const history = await registry.history(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT);
+  check(v3.version === 3 && history.activeVersion === 2 && history.versions.length === 3, 'Saved without activating');
+
+  await registry.activate(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, 1);
+  check((await registry.get(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT)).version === 1, 'Rolled back to version 1');
+  check(await rejects(() => registry.activate(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, 9), 404), 'Unknown version is a 404');
+  check(await rejects(() => registry.get('no-such-template'), 404), 'Unknown template is a 404');
+
+  // Validation
+  check(await rejects(() => registry.save('bad', { template: 'Hi {{name}}', variables: [] }), 400, '{{name}}'), 'Undeclared placeholder refused');
+  check(await rejects(() => registry.save('bad', { template: 'Hi {{mood}}', variables: [{ name: 'mood', type: 'choice' }] }), 400, 'options'), 'Choice without options refused');
+  check(await rejects(() => registry.save('Bad Id', { template: 'Hi', variables: [] }), 400), 'Invalid template id refused');
+  const custom = await registry.save('thumbnail-title', { template: 'Title for {{topic}}', variables: [{ name: 'topic', type: 'string' }] });
+  check(custom.version === 1 && (await registry.list()).length === Object.keys(BUILT_IN_PROMPT_TEMPLATES).length + 1, 'New templates can be added');
+
+  // Generators record the version
+  promptRegistry.setStorage(new MemoryLedgerStorage());
+  await promptRegistry.save(PROMPT_TEMPLATE_IDS.VIRAL_SCRIPT, {
+    ...BUILT_IN_PROMPT_TEMPLATES[PROMPT_TEMPLATE_IDS.VIRAL_SCRIPT],
+    template: `${BUILT_IN_PROMPT_TEMPLATES[PROMPT_TEMPLATE_IDS.VIRAL_SCRIPT].template}\nKeep it playful.`
+  });
+  const script = await new SaaSToolsEngine().generate_viral_script('client_prompts', 'morning routines', 'lifestyle');
+  check(script.status === 'success' && script.prompt?.templateId === PROMPT_TEMPLATE_IDS.VIRAL_SCRIPT && script.prompt.version === 2, 'Viral script records the template version it used');
+
+  const fake = await startFakeLLM();
+  try {
+    const router = new LLMRouter({ anthropic_api_key: 'fake-key', anthropic_base_url: fake.url, openai_api_key: '', prompts: registry });
+    await registry.save(PROMPT_TEMPLATE_IDS.LLM_TASK, {
+      ...BUILT_IN_PROMPT_TEMPLATES[PROMPT_TEMPLATE_IDS.LLM_TASK],
+      template: 'v2 {{task_type}}\n{{description}}\n{{context}}\n{{requirements}}'
+    });
+    const result = await router.executeTask({
+      task_id: 'task_prompt_1',
+      task_type: TaskType.DOCUMENTATION,
+      priority: 'normal',
+      client_id: 'client_prompts',
+      project_id: 'project_1',
+      description: 'Document the prompt registry',
+      context: {},
+      requirements: {}
+    }, LLMProvider.CLAUDE_HAIKU);
+    check(fake.calls[0].prompt.startsWith('v2 Create clear, comprehensive documentation'), 'Router sends the active task prompt');
+    check(result.prompt?.templateId === PROMPT_TEMPLATE_IDS.LLM_TASK && result.prompt.version === 2, 'Task result records the template version');
+
+    // Saved through /api/prompts, then rendered by the generators
+    const bucket = new MemoryLedgerStorage(); // Stands in for the R2 bucket
+    configureLedgerStorage(bucket); // What functions/api/_middleware.js does per request
+    const api = new PromptRegistry(bucket); // What createPromptRegistry(env) builds for /api/prompts
+    const savedStory = await api.save(PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, {
+      ...BUILT_IN_PROMPT_TEMPLATES[PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT],
+      template: 'Edited in the dashboard: r/{{subreddit}} "{{title}}" ({{category}}, {{targetMinutes}} min, {{targetWords}} words)\n{{content}}'
+    });
+    const savedTask = await api.save(PROMPT_TEMPLATE_IDS.LLM_TASK, {
+      ...BUILT_IN_PROMPT_TEMPLATES[PROMPT_TEMPLATE_IDS.LLM_TASK],
+      template: 'Edited task {{task_type}}\n{{description}}\n{{context}}\n{{requirements}}'
+    });
+
+    process.env.ANTHROPIC_API_KEY = 'fake-key';
+    process.env.ANTHROPIC_BASE_URL = fake.url;
+    const enhanced = await new ClaudeService().enhanceStoryWithUsage(buildStory({ id: 'prompt_api', subreddit: 'nosleep' }), 1);
+    check(fake.calls[fake.calls.length - 1].prompt.startsWith('Edited in the dashboard: r/nosleep'), 'ClaudeService sends the version saved through the API');
+    check(enhanced.prompt?.version === savedStory.version && savedStory.version === 2, 'Story enhancement records that version');
+
+    const defaultRouter = new LLMRouter({ anthropic_api_key: 'fake-key', anthropic_base_url: fake.url, openai_api_key: '' });
+    const routed = await defaultRouter.executeTask({
+      task_id: 'task_prompt_2',
+      task_type: TaskType.DOCUMENTATION,
+      priority: 'normal',
+      client_id: 'client_prompts',
+      project_id: 'project_1',
+      description: 'Document the dashboard',
+      context: {},
+      requirements: {}
+    }, LLMProvider.CLAUDE_HAIKU);
+    check(fake.calls[fake.calls.length - 1].prompt.startsWith('Edited task'), 'The router renders it too');
+    check(routed.prompt?.version === savedTask.version, 'And records the version');
+  } finally {
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.ANTHROPIC_BASE_URL;
+    await fake.close();
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Prompt registry working', 'Prompt registry has failures');
+}
+
+testPromptRegistry().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
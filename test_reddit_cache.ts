@@ -0,0 +1,194 @@
+#!/usr/bin/env tsx
+
+// Reddit cache test: two "visitors" sharing one store, stale-while-revalidate
+// with conditional (ETag) refreshes, `after` cursors for subreddits that come
+// up short, serving expired stories when Reddit is down, warmup of all five
+// categories (and the scheduler secret guarding it), and the KV store. Reddit
+// is faked by stubbing fetch.
+
+import { KVNamespaceBinding, KVStoryCacheStore, MemoryStoryCacheStore } from './lib/reddit-cache/story-cache-store';
+import { DEFAULT_STORY_CATEGORIES } from './lib/categories/category-store';
+import { assertSchedulerRequest, SchedulerAuthError } from './lib/security/scheduler-auth';
+import { RedditCacheService } from './lib/services/reddit-cache-service';
+import { createTestReport } from './lib/test-data/test-helpers';
+
+interface FakePost {
+  id: string;
+  ups: number;
+  selftext: string;
+}
+
+const narratable = (id: string, ups: number): FakePost => ({ id, ups, selftext: `Story ${id}. `.repeat(30) });
+const tooShort = (id: string): FakePost => ({ id, ups: 5000, selftext: 'Too short to narrate.' });
+
+// Listing pages per subreddit; anything not listed gets one generic page
+const listings = new Map<string, FakePost[][]>([
+  ['AmItheAsshole', [[narratable('aita1', 9000), narratable('aita2', 8000), narratable('aita3', 7000)]]],
+  ['relationship_advice', [[narratable('ra1', 6000), narratable('ra2', 5000)]]],
+  ['tifu', [[narratable('tifu1', 4000), narratable('tifu2', 3000)]]],
+  ['confessions', [[tooShort('conf0'), narratable('conf1', 2000)], [narratable('conf2', 1500), narratable('conf3', 1200)]]]
+]);
+
+const requests: Array<{ subreddit: string; after: string | null; conditional: boolean; status: number }> = [];
+let redditDown = false;
+
+const fakeReddit = (async (input: string, init?: RequestInit) => {
+  const url = new URL(input);
+  const subreddit = url.pathname.split('/')[2];
+  const after = url.searchParams.get('after');
+  const ifNoneMatch = (init?.headers as Record<string, string>)?.['If-None-Match'];
+  const record = (status: number) => requests.push({ subreddit, after, conditional: Boolean(ifNoneMatch), status });
+
+  if (redditDown) {
+    record(503);
+    return new Response('down', { status: 503 });
+  }
+
+  const pages = listings.get(subreddit) || [[narratable(`${subreddit}1`, 1000)]];
+  const pageIndex = after ? Number(after.replace(`t3_${subreddit}_page`, '')) : 0;
+  const posts = pages[pageIndex] || [];
+  const etag = `"${subreddit}-${pageIndex}-${posts.map(post => post.id).join('.')}"`;
+
+  if (ifNoneMatch === etag) {
+    record(304);
+    return new Response(null, { status: 304 });
+  }
+
+  record(200);
+  return new Response(JSON.stringify({
+    data: {
+      after: pageIndex + 1 < pages.length ? `t3_${subreddit}_page${pageIndex + 1}` : null,
+      children: posts.map(post => ({
+        data: {
+          id: post.id,
+          title: `Post ${post.id}`,
+          selftext: post.selftext,
+          subreddit,
+          ups: post.ups,
+          num_comments: 10,
+          created_utc: Date.now() / 1000 - 3600,
+          permalink: `/r/${subreddit}/comments/${post.id}/`,
+          upvote_ratio: 0.95,
+          over_18: false,
+          stickied: false
+        }
+      }))
+    }
+  }), { headers: { 'Content-Type': 'application/json', ETag: etag } });
+}) as typeof fetch;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function testRedditCache() {
+  console.log('🗄️ Testing Reddit Cache');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = fakeReddit;
+  try {
+    const config = { freshThreshold: 150, staleThreshold: 600, defaultTTL: 1000, refreshLeaseMs: 1000 };
+    const store = new MemoryStoryCacheStore();
+    const visitorA = new RedditCacheService(config, store);
+    const visitorB = new RedditCacheService(config, store);
+
+    // Miss → fetched from Reddit; confessions is short on page one so it follows `after`
+    const first = await visitorA.getStories('drama', 8);
+    check(first.source === 'origin' && first.stories.length === 8, `Miss fetched ${first.stories.length} stories from Reddit`);
+    check(requests.some(r => r.subreddit === 'confessions' && r.after === 't3_confessions_page1'), 'Short subreddit continued from its after cursor');
+    check(first.stories.every(story => story.category === 'drama') && !first.stories.some(story => story.id === 'conf0'), 'Unnarratable posts filtered out');
+
+    // Another visitor is served from the shared entry
+    requests.length = 0;
+    const second = await visitorB.getStories('drama', 8);
+    check(second.source === 'cache' && second.freshness === 'fresh' && requests.length === 0, 'Second visitor hit the shared cache without scraping');
+
+    // Stale → served immediately, revalidated with conditional requests
+    await sleep(200);
+    const background: Promise<unknown>[] = [];
+    const stale = await visitorB.getStories('drama', 8, { waitUntil: promise => background.push(promise) });
+    check(stale.freshness === 'stale' && stale.source === 'cache' && background.length === 1, 'Stale entry served while revalidating');
+    await Promise.all(background);
+    const firstPages = requests.filter(r => r.after === null);
+    check(firstPages.length === 4 && firstPages.every(r => r.conditional && r.status === 304), 'Unchanged listings answered 304 to If-None-Match');
+    check(!requests.some(r => r.after), 'Subreddits with enough stories did not page further');
+    check((await visitorA.getStories('drama', 8)).freshness === 'fresh', 'Revalidation made the entry fresh again');
+
+    // A new post changes one listing's ETag; only that one is re-read
+    listings.get('tifu')![0].unshift(narratable('tifu0', 20000));
+    await sleep(200);
+    requests.length = 0;
+    background.length = 0;
+    await visitorA.getStories('drama', 8, { waitUntil: promise => background.push(promise) });
+    await Promise.all(background);
+    check(requests.filter(r => r.status === 200).map(r => r.subreddit).join() === 'tifu', 'Only the changed listing was downloaded');
+    check((await visitorB.getStories('drama', 8)).stories[0].id === 'tifu0', 'New post merged into the cached stories');
+
+    // Only one revalidation while the lease is held
+    await sleep(200);
+    background.length = 0;
+    await visitorA.getStories('drama', 8, { waitUntil: promise => background.push(promise) });
+    await visitorB.getStories('drama', 8, { waitUntil: promise => background.push(promise) });
+    check(background.length === 1, 'Concurrent visitors share one background refresh');
+    await Promise.all(background);
+
+    // Expired and Reddit down → the expired copy rather than an error
+    await sleep(1100);
+    redditDown = true;
+    const fallback = await visitorA.getStories('drama', 8);
+    check(fallback.freshness === 'expired' && fallback.stories.length === 8, 'Expired stories served while Reddit is down');
+    const nothing = await visitorA.getStories('horror', 8).catch(error => error);
+    check(nothing instanceof Error, 'Uncached category with Reddit down is an error');
+    redditDown = false;
+
+    // Warmup covers every category, then leaves fresh ones alone
+    const warm = new RedditCacheService(config, new MemoryStoryCacheStore());
+    const warmed = await warm.warmupCache();
+    check(warmed.map(r => `${r.category}:${r.status}`).join() === DEFAULT_STORY_CATEGORIES.map(c => `${c.id}:refreshed`).join(), 'Warmup refreshed all five categories');
+    requests.length = 0;
+    const again = await warm.warmupCache();
+    check(again.every(r => r.status === 'fresh') && requests.length === 0, 'Second warmup skipped fresh categories');
+    check((await warm.getStatus()).length === 5, 'Status lists the warmed entries');
+
+    // The warmup POST only answers the scheduler
+    const warmupRequest = (authorization?: string) =>
+      new Request('https://app.test/api/reddit-cache/warmup', { method: 'POST', headers: authorization ? { Authorization: authorization } : {} });
+    const refused = (authorization: string | undefined, secret: string | undefined) => {
+      try {
+        assertSchedulerRequest(warmupRequest(authorization), secret);
+        return null;
+      } catch (error) {
+        return error instanceof SchedulerAuthError ? error.status : -1;
+      }
+    };
+    check(refused('Bearer s3cret-token', 's3cret-token') === null, 'The scheduler\'s bearer token is accepted');
+    check(refused(undefined, 's3cret-token') === 401 && refused('Bearer s3cret-tokem', 's3cret-token') === 401 && refused('s3cret-token', 's3cret-token') === 401, 'Anonymous or wrong tokens get a 401');
+    check(refused('Bearer ', undefined) === 503, 'Without SCHEDULER_SECRET the warmup is closed, not open');
+
+    // KV-backed store
+    const kvData = new Map<string, { value: string; ttl?: number }>();
+    const kv: KVNamespaceBinding = {
+      get: async key => (kvData.has(key) ? JSON.parse(kvData.get(key)!.value) : null),
+      put: async (key, value, options) => {
+        kvData.set(key, { value, ttl: options?.expirationTtl });
+      },
+      list: async options => ({ keys: Array.from(kvData.keys()).filter(key => key.startsWith(options?.prefix || '')).map(name => ({ name })), list_complete: true })
+    };
+    const kvCache = new RedditCacheService(config, new KVStoryCacheStore(kv));
+    await kvCache.getStories('revenge', 4);
+    const kvEntry = kvData.get('reddit-cache/reddit_revenge_4');
+    check(Boolean(kvEntry) && kvEntry!.ttl! >= 60, `KV entry stored with a ${kvEntry?.ttl}s TTL`);
+    check((await new RedditCacheService(config, new KVStoryCacheStore(kv)).getStories('revenge', 4)).source === 'cache', 'KV entry shared between instances');
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Reddit cache working', 'Reddit cache has failures');
+}
+
+testRedditCache().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,116 @@
+#!/usr/bin/env tsx
+
+// Reddit scraper pagination test: sort modes and `t` windows reach the right
+// listing, `after` cursors are followed until enough stories pass the
+// filters, the page budget stops a hopeless scrape, and the per-subreddit
+// stats say why posts were dropped. Reddit is faked by stubbing fetch.
+
+import { RedditScraperService } from './lib/services/reddit-scraper';
+import { createTestReport } from './lib/test-data/test-helpers';
+
+interface FakePost {
+  id: string;
+  ups?: number;
+  ratio?: number;
+  text?: string;
+  nsfw?: boolean;
+  stickied?: boolean;
+}
+
+const good = (id: string): FakePost => ({ id, text: `Something happened to me in ${id}. `.repeat(12) });
+
+// Three pages per subreddit: mostly rejects up front, narratable posts later
+const pageFor = (subreddit: string, page: number): FakePost[] => [
+  { id: `${subreddit}_${page}_sticky`, stickied: true, text: good('x').text },
+  { id: `${subreddit}_${page}_short`, text: 'Too short.' },
+  { id: `${subreddit}_${page}_low`, ups: 20, text: good('x').text },
+  { id: `${subreddit}_${page}_nsfw`, nsfw: true, text: good('x').text },
+  ...(page === 0 ? [] : [good(`${subreddit}_${page}_a`), good(`${subreddit}_${page}_b`)])
+];
+
+const requests: Array<{ subreddit: string; sort: string; t: string | null; after: string | null; limit: string | null }> = [];
+
+const fakeReddit = (async (input: string) => {
+  const url = new URL(input);
+  const [, , subreddit, listing] = url.pathname.split('/');
+  const after = url.searchParams.get('after');
+  requests.push({ subreddit, sort: listing.replace('.json', ''), t: url.searchParams.get('t'), after, limit: url.searchParams.get('limit') });
+
+  const page = after ? Number(after.split('_page')[1]) : 0;
+  const posts = pageFor(subreddit, page);
+
+  return new Response(JSON.stringify({
+    data: {
+      after: page < 2 ? `t3_${subreddit}_page${page + 1}` : null,
+      children: posts.map(post => ({
+        data: {
+          id: post.id,
+          title: `Post ${post.id}`,
+          selftext: post.text || '',
+          subreddit,
+          ups: post.ups ?? 1500,
+          num_comments: 10,
+          created_utc: Date.now() / 1000 - 3600,
+          permalink: `/r/${subreddit}/comments/${post.id}/`,
+          upvote_ratio: post.ratio ?? 0.95,
+          over_18: Boolean(post.nsfw),
+          stickied: Boolean(post.stickied)
+        }
+      }))
+    }
+  }), { headers: { 'Content-Type': 'application/json' } });
+}) as typeof fetch;
+
+async function testRedditPagination() {
+  console.log('📄 Testing Reddit Scraper Pagination');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = fakeReddit;
+  try {
+    const scraper = new RedditScraperService('https://reddit.test');
+
+    // First pages have nothing narratable, so the scraper pages on
+    const result = await scraper.scrapeWithStats('drama', 8, { sort: 'top', t: 'week' });
+    check(result.stories.length === 8, `Collected ${result.stories.length} stories across pages`);
+    check(requests.every(r => r.sort === 'top' && r.t === 'week'), 'Top listing requested with t=week');
+    check(requests.some(r => r.after === 't3_tifu_page1'), 'Followed the after cursor');
+    check(result.pagesFetched === 8 && !result.budgetExhausted, 'Stopped once enough stories qualified (two pages each)');
+
+    const aita = result.stats.find(stat => stat.subreddit === 'AmItheAsshole')!;
+    check(aita.postsSeen === 10 && aita.accepted === 2, `Stats count posts seen and accepted (${aita.postsSeen}/${aita.accepted})`);
+    check(aita.rejected.stickied === 2 && aita.rejected.too_short === 2 && aita.rejected.low_upvotes === 2 && aita.rejected.nsfw === 2, 'Stats explain each rejection');
+
+    // Asking for more than exists runs out of budget
+    requests.length = 0;
+    const starved = await scraper.scrapeWithStats('drama', 100, { maxPagesPerSubreddit: 2 });
+    check(starved.stories.length === 8 && starved.budgetExhausted, 'Page budget ends a scrape that can\'t be satisfied');
+    check(requests.length === 8 && requests.every(r => r.sort === 'hot' && r.t === null), 'Hot listing by default, without t');
+
+    // Listings that end stop paging even with budget left
+    const full = await scraper.scrapeWithStats('drama', 100, { maxPagesPerSubreddit: 10, pageSize: 50 });
+    check(full.stats.every(stat => stat.exhausted && stat.pagesFetched === 3) && !full.budgetExhausted, 'Exhausted listings stop at their last page');
+    check(requests.some(r => r.limit === '50'), 'Page size passed as limit');
+
+    // A failing subreddit is reported, the rest still scraped
+    globalThis.fetch = (async (input: string) =>
+      input.includes('/r/tifu/') ? new Response('nope', { status: 500 }) : fakeReddit(input)) as typeof fetch;
+    const partial = await scraper.scrapeWithStats('drama', 4, { sort: 'new' });
+    check(partial.stats.find(stat => stat.subreddit === 'tifu')?.error === 'r/tifu returned 500' && partial.stories.length === 4, 'Failed subreddit recorded in stats');
+
+    const badSort = await scraper.scrapeWithStats('drama', 4, { sort: 'best' as any }).catch(error => error);
+    check(badSort instanceof Error && /Unknown sort/.test(badSort.message), 'Unknown sort rejected');
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Reddit pagination working', 'Reddit pagination has failures');
+}
+
+testRedditPagination().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
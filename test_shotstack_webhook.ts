@@ -0,0 +1,185 @@
+#!/usr/bin/env tsx
+
+// Shotstack webhook end-to-end test against the local fake Shotstack.
+// Submits a render with a signed per-workflow callback URL, lets the fake
+// call back, and checks that the workflow ends up completed with the MP4 in
+// the (in-memory) bucket. Renders without a workflow get no callback at
+// all. A second run drops the callback and relies on the polling fallback
+// instead. No network access or API keys needed.
+
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { startFakeShotstack } from './lib/mocks/fake-shotstack';
+import { ShotstackService } from './lib/services/shotstack-service';
+import { createMemoryBucket, createTestReport } from './lib/test-data/test-helpers';
+import { VideoScript, R2StorageFile } from './lib/types/reddit-automation';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { WorkflowStore } from './lib/workflows/workflow-store';
+import {
+  buildShotstackCallbackUrl,
+  reconcileRender,
+  recordShotstackCallback,
+  RenderDependencies,
+  verifyCallbackToken
+} from './lib/workflows/shotstack-webhook';
+
+const SECRET = 'test-webhook-secret';
+
+const script: VideoScript = {
+  hook: 'You will not believe this',
+  introduction: 'So this happened last week.',
+  mainContent: ['My neighbour knocked on the door.', 'He was holding my cat.'],
+  conclusion: 'Turns out the cat had a second family.',
+  callToAction: 'Follow for part two',
+  estimatedDuration: 30
+};
+
+const audioFile: R2StorageFile = {
+  key: 'audio/test.mp3',
+  url: 'https://example.com/audio/test.mp3',
+  bucket: 'R2_BUCKET',
+  size: 1024,
+  contentType: 'audio/mpeg',
+  uploadedAt: new Date().toISOString()
+};
+
+async function waitFor(check: () => Promise<boolean>, timeoutMs: number = 10000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await check()) return true;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  return false;
+}
+
+async function testShotstackWebhook() {
+  console.log('📬 Testing Shotstack Webhook Flow');
+  console.log('=' .repeat(50));
+
+  const fake = await startFakeShotstack({ renderDelayMs: 300 });
+  process.env.SHOTSTACK_API_URL = `${fake.url}/stage`;
+
+  const storage = new MemoryLedgerStorage();
+  const store = new WorkflowStore(storage);
+  const bucket = createMemoryBucket();
+  const deps: RenderDependencies = { getService: () => new ShotstackService('fake-key'), bucket };
+  const pending: Promise<unknown>[] = [];
+
+  // Stands in for functions/api/webhook/shotstack.js
+  const receiver = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const workflowId = url.searchParams.get('workflowId') || '';
+
+    if (!(await verifyCallbackToken(SECRET, workflowId, url.searchParams.get('token')))) {
+      res.writeHead(401).end();
+      return;
+    }
+
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+    const payload = JSON.parse(raw);
+
+    await recordShotstackCallback(storage, workflowId, payload);
+    pending.push(reconcileRender(store, workflowId, 'webhook', deps).catch(error => console.error(error)));
+    res.writeHead(202).end();
+  });
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  const receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/api/webhook/shotstack`;
+
+  const submit = async (workflowId: string) => {
+    await store.create({ workflowId, currentStep: 'rendering', progress: 70 });
+    const callbackUrl = await buildShotstackCallbackUrl(receiverUrl, SECRET, workflowId);
+
+    const render = await new ShotstackService('fake-key').generateVideo(script, audioFile, {
+      background: 'gradient',
+      resolution: '1080x1920',
+      style: 'modern',
+      callbackUrl
+    });
+    if (!render.success || !render.data) {
+      throw new Error(`Render submission failed: ${render.error}`);
+    }
+
+    await store.update(workflowId, workflow => {
+      workflow.render = {
+        renderId: render.data!.renderId,
+        environment: 'stage',
+        status: 'queued',
+        updatedVia: 'submit',
+        updatedAt: new Date().toISOString()
+      };
+    });
+    return render.data.renderId;
+  };
+
+  const { check, finish } = createTestReport();
+
+  try {
+    // Test 1: Callback drives the workflow to completion
+    console.log('\nTest 1: render completes via callback...');
+    const webhookWorkflow = `workflow_${Date.now()}_webhook`;
+    const renderId = await submit(webhookWorkflow);
+
+    check(fake.renders.get(renderId)?.callback?.startsWith(receiverUrl) === true, 'Render request carried the callback URL');
+
+    const completed = await waitFor(async () => (await store.get(webhookWorkflow))?.status === 'completed');
+    await Promise.all(pending);
+    const viaWebhook = await store.get(webhookWorkflow);
+
+    check(completed, `Workflow completed (status: ${viaWebhook?.status})`);
+    check(viaWebhook?.render?.updatedVia === 'webhook', `Render settled by ${viaWebhook?.render?.updatedVia}`);
+    check(viaWebhook?.videos?.[0]?.video_url === `/api/videos/${webhookWorkflow}.mp4`, `Video URL: ${viaWebhook?.videos?.[0]?.video_url}`);
+    check(bucket.objects.get(`videos/${webhookWorkflow}.mp4`)!.size > 0, 'MP4 copied into the bucket');
+    check((await storage.list(`webhooks/shotstack/${renderId}/`)).length === 1, 'Callback payload recorded');
+
+    // Test 2: Replayed callback is a no-op
+    console.log('\nTest 2: replayed callback...');
+    const putsBefore = bucket.objects.size;
+    await reconcileRender(store, webhookWorkflow, 'webhook', deps);
+    check(bucket.objects.size === putsBefore && (await store.get(webhookWorkflow))?.status === 'completed', 'Replay did not re-download');
+
+    // Test 3: Forged token is rejected
+    console.log('\nTest 3: forged callback token...');
+    const forged = await fetch(`${receiverUrl}?workflowId=${webhookWorkflow}&token=deadbeef`, { method: 'POST', body: '{}' });
+    check(forged.status === 401, `Forged callback rejected with ${forged.status}`);
+
+    // Test 4: No workflow, no callback - the bare webhook URL would only earn a 401
+    console.log('\nTest 4: render without a workflow callback...');
+    process.env.SHOTSTACK_WEBHOOK_URL = receiverUrl;
+    try {
+      const bare = await new ShotstackService('fake-key').generateVideo(script, audioFile, { background: 'gradient', resolution: '1080x1920', style: 'modern' });
+      check(bare.success && fake.renders.get(bare.data!.renderId)?.callback === undefined, 'SHOTSTACK_WEBHOOK_URL is not used as an untokenized callback');
+    } finally {
+      delete process.env.SHOTSTACK_WEBHOOK_URL;
+    }
+
+    // Test 5: Dropped callback recovered by polling
+    console.log('\nTest 5: dropped callback, polling fallback...');
+    await fake.close();
+    const quietFake = await startFakeShotstack({ renderDelayMs: 300, dropCallbacks: true });
+    process.env.SHOTSTACK_API_URL = `${quietFake.url}/stage`;
+
+    try {
+      const pollingWorkflow = `workflow_${Date.now()}_polling`;
+      await submit(pollingWorkflow);
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      check((await store.get(pollingWorkflow))?.status === 'processing', 'No callback arrived');
+      const viaPolling = await reconcileRender(store, pollingWorkflow, 'polling', deps);
+      check(viaPolling.status === 'completed' && viaPolling.render?.updatedVia === 'polling', `Polling completed the workflow (${viaPolling.status})`);
+    } finally {
+      await quietFake.close();
+    }
+  } finally {
+    await fake.close().catch(() => undefined);
+    await new Promise(resolve => receiver.close(resolve));
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Shotstack webhook flow working', 'Shotstack webhook flow has failures');
+}
+
+testShotstackWebhook().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
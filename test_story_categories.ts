@@ -0,0 +1,133 @@
+#!/usr/bin/env tsx
+
+// Story category settings test: validation of user input, saving, removing
+// and resetting categories, and the scraper and cache picking up a custom
+// category's subreddits and filters. Reddit is faked by stubbing fetch.
+
+import { CategoryConfigError, CategoryStore, DEFAULT_STORY_CATEGORIES, validateCategory } from './lib/categories/category-store';
+import { MemoryStoryCacheStore } from './lib/reddit-cache/story-cache-store';
+import { RedditCacheService } from './lib/services/reddit-cache-service';
+import { RedditScraperService } from './lib/services/reddit-scraper';
+import { createTestReport } from './lib/test-data/test-helpers';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+
+const requested: string[] = [];
+
+const fakeReddit = (async (input: string) => {
+  const subreddit = new URL(input).pathname.split('/')[2];
+  requested.push(subreddit);
+
+  const posts = [
+    { id: `${subreddit}_quiet`, ups: 150, text: 'A quiet little story about my garden. '.repeat(6) },
+    { id: `${subreddit}_spoiler`, ups: 900, text: 'The twist ending spoils everything. '.repeat(6) },
+    { id: `${subreddit}_long`, ups: 900, text: 'Way too long for a short. '.repeat(60) }
+  ];
+
+  return new Response(JSON.stringify({
+    data: {
+      after: null,
+      children: posts.map(post => ({
+        data: {
+          id: post.id,
+          title: `Post ${post.id}`,
+          selftext: post.text,
+          subreddit,
+          ups: post.ups,
+          num_comments: 5,
+          created_utc: Date.now() / 1000 - 3600,
+          permalink: `/r/${subreddit}/comments/${post.id}/`,
+          upvote_ratio: 0.9,
+          over_18: false,
+          stickied: false
+        }
+      }))
+    }
+  }), { headers: { 'Content-Type': 'application/json' } });
+}) as typeof fetch;
+
+async function testStoryCategories() {
+  console.log('🗂️ Testing Story Categories');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+  const rejects = (input: unknown, pattern: RegExp, message: string) => {
+    try {
+      validateCategory(input);
+      check(false, message);
+    } catch (error) {
+      check(error instanceof CategoryConfigError && pattern.test(error.message), `${message} (${error instanceof Error ? error.message : error})`);
+    }
+  };
+
+  // Validation
+  const gardening = validateCategory({
+    id: ' Gardening ',
+    name: 'Gardening',
+    subreddits: ['r/gardening', 'houseplants', 'gardening'],
+    filters: { minUpvotes: 100, maxLength: 600, bannedWords: ['Spoils', ''] },
+    defaultVoice: { provider: 'shotstack', voiceId: 'Amy' }
+  });
+  check(gardening.id === 'gardening' && gardening.subreddits.join() === 'gardening,houseplants', 'Id lowercased, r/ prefixes and duplicates dropped');
+  check(gardening.filters.minLength === 200 && gardening.filters.bannedWords.join() === 'spoils', 'Missing filters defaulted, banned words normalized');
+  rejects({ id: 'Bad Id!', name: 'x', subreddits: ['a1'] }, /id must be/, 'Invalid id rejected');
+  rejects({ id: 'x', name: 'x', subreddits: [] }, /subreddits/, 'Empty subreddit list rejected');
+  rejects({ id: 'x', name: 'x', subreddits: ['no spaces'] }, /Invalid subreddit/, 'Invalid subreddit rejected');
+  rejects({ id: 'x', name: 'x', subreddits: ['ab'], filters: { minLength: 500, maxLength: 100 } }, /minLength/, 'Inverted length bounds rejected');
+  rejects({ id: 'x', name: 'x', subreddits: ['ab'], defaultVoice: { provider: 'polly', voiceId: 'Amy' } }, /defaultVoice/, 'Unknown voice provider rejected');
+
+  // Store
+  const store = new CategoryStore(new MemoryLedgerStorage());
+  check((await store.list()).map(c => c.id).join() === DEFAULT_STORY_CATEGORIES.map(c => c.id).join(), 'Built-in categories until something is saved');
+  const saved = await store.save({ ...gardening });
+  check(Boolean(saved.updatedAt) && (await store.list()).length === 6, 'New category added alongside the built-in ones');
+  await store.save({ ...gardening, name: 'Garden Stories' });
+  check((await store.get('gardening'))?.name === 'Garden Stories' && (await store.list()).length === 6, 'Saving an existing id replaces it');
+  await store.remove('drama');
+  check(!(await store.get('drama')), 'Category removed');
+  const missing = await store.remove('drama').catch(error => error);
+  check(missing instanceof CategoryConfigError && missing.status === 404, 'Removing an unknown category is a 404');
+  await Promise.all(['a', 'b', 'c'].map(id => store.save({ id, name: id.toUpperCase(), subreddits: [`sub_${id}`] })));
+  check((await store.list()).length === 8, 'Concurrent saves all kept');
+  check((await store.reset()).length === 5 && !(await store.get('gardening')), 'Reset restores the built-in categories');
+
+  const single = new CategoryStore(new MemoryLedgerStorage());
+  for (const category of DEFAULT_STORY_CATEGORIES.slice(1)) await single.remove(category.id);
+  const last = await single.remove('drama').catch(error => error);
+  check(last instanceof CategoryConfigError && last.status === 409, 'The last category cannot be removed');
+
+  // Scraper and cache use the configured subreddits and filters
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = fakeReddit;
+  try {
+    const scraper = new RedditScraperService('https://reddit.test', undefined, [saved]);
+    const result = await scraper.scrapeWithStats('gardening', 5);
+    check(requested.join() === 'gardening,houseplants', 'Scraper read the custom subreddits');
+    check(result.stories.every(story => story.id.endsWith('_quiet')) && result.stories.length === 2, 'Low-upvote posts accepted under the lowered minimum');
+    check(result.stats.every(stat => stat.rejected.banned_word === 1 && stat.rejected.too_long === 1), 'Custom banned words and length bound applied');
+    const unknown = await scraper.scrapeWithStats('drama', 5).catch(error => error);
+    check(unknown instanceof Error && /Unknown story category/.test(unknown.message), 'Categories not configured are rejected');
+
+    // Editing a category invalidates entries cached under its old settings
+    const config = { freshThreshold: 60000, staleThreshold: 120000, defaultTTL: 300000 };
+    const cacheStore = new MemoryStoryCacheStore();
+    const lenient = { ...saved, filters: { ...saved.filters, bannedWords: [], maxLength: 3000 } };
+    const before = await new RedditCacheService(config, cacheStore, new RedditScraperService('https://reddit.test', undefined, [lenient])).getStories('gardening', 5);
+    check(before.source === 'origin' && before.stories.length === 5, 'Cache filled under the lenient settings');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const edited = { ...lenient, filters: saved.filters, updatedAt: new Date().toISOString() };
+    const after = await new RedditCacheService(config, cacheStore, new RedditScraperService('https://reddit.test', undefined, [edited])).getStories('gardening', 5);
+    check(after.source === 'origin' && after.stories.length === 2, 'Entry from before the edit was refetched with the new filters');
+    const warmed = await new RedditCacheService(config, cacheStore, new RedditScraperService('https://reddit.test', undefined, [lenient])).warmupCache();
+    check(warmed.map(w => w.category).join() === 'gardening', 'Warmup covers the configured categories');
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Story categories working', 'Story categories have failures');
+}
+
+testStoryCategories().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
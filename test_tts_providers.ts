@@ -0,0 +1,149 @@
+#!/usr/bin/env tsx
+
+// TTS provider test: the local WAV provider, voice resolution, the provider
+// registry, the ElevenLabs timestamps response and the spend it records (also
+// through the supplement voice generator built on it), and a workflow narrated by a provider that returns audio bytes. Runs offline against the fake Shotstack.
+
+import { startFakeShotstack } from './lib/mocks/fake-shotstack';
+import { getAudioDuration } from './lib/narration/audio-duration';
+import { AmericanPainPoint, ElevenLabsVoiceGenerator, EmotionalTone, VoicePersona } from './lib/modules/elevenlabs-voice-generator';
+import { NarrationAudioStore } from './lib/narration/narration-audio-store';
+import { buildStory, createTestReport } from './lib/test-data/test-helpers';
+import { ElevenLabsTTSProvider } from './lib/tts/elevenlabs-tts';
+import { LocalTTSProvider } from './lib/tts/local-tts';
+import { SHOTSTACK_TTS_CAPABILITIES } from './lib/tts/shotstack-tts';
+import { resolveVoice, TTSProviderError } from './lib/tts/tts-provider';
+import { createTTSProvider, listTTSProviders } from './lib/tts/tts-registry';
+import { CostEvent } from './lib/usage/cost-event';
+import { costLedger } from './lib/usage/cost-ledger';
+import { configureLedgerStorage } from './lib/usage/ledger-config';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { estimateRenderCost, ShotstackPipelineClient } from './lib/workflows/shotstack-pipeline';
+import { runVideoWorkflow } from './lib/workflows/video-workflow';
+import { WorkflowStore } from './lib/workflows/workflow-store';
+
+const story = buildStory({
+  id: 'tts123',
+  title: 'TIFU by replying all',
+  content: 'I replied all to the whole company. It was meant for my sister. Now everyone knows about the llama.',
+  subreddit: 'tifu',
+  estimated_duration: 30
+});
+
+async function testTTSProviders() {
+  console.log('🗣️ Testing TTS Providers');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  // Local provider: deterministic WAV as long as its word timings
+  const local = new LocalTTSProvider({ wordsPerSecond: 2 });
+  const beep = await local.synthesize({ text: 'one two three four' });
+  const again = await local.synthesize({ text: 'one two three four' });
+  const lastWord = beep.words![beep.words!.length - 1];
+  check(Math.abs(getAudioDuration(beep.audio!) - lastWord.end) < 0.001, `Local WAV is ${getAudioDuration(beep.audio!)}s, words end at ${lastWord.end}s`);
+  check(Buffer.from(beep.audio!).equals(Buffer.from(again.audio!)), 'Local audio is deterministic');
+  const silent = await local.synthesize({ text: 'one two three four', voiceId: 'silent' });
+  check(silent.audio!.subarray(44).every(byte => byte === 0) && beep.audio!.subarray(44).some(byte => byte !== 0), 'Silent voice is silent, beep voice is not');
+
+  // Voices
+  check(resolveVoice(SHOTSTACK_TTS_CAPABILITIES) === 'Matthew', 'Default Shotstack voice');
+  const unknown = (() => { try { resolveVoice(SHOTSTACK_TTS_CAPABILITIES, 'Nobody'); } catch (error) { return error; } })();
+  check(unknown instanceof TTSProviderError && unknown.status === 400, 'Unknown Shotstack voice rejected');
+  check(resolveVoice(new ElevenLabsTTSProvider('key').capabilities, 'myClonedVoice123') === 'myClonedVoice123', 'ElevenLabs accepts custom voice ids');
+
+  // Registry
+  const providers = listTTSProviders({ SHOTSTACK_SANDBOX_API_KEY: 'key' });
+  check(
+    providers.map(provider => `${provider.name}:${provider.available}`).join(',') === 'shotstack:true,elevenlabs:false,local:false',
+    'Provider availability follows the configured keys'
+  );
+  const missingKey = (() => { try { createTTSProvider('elevenlabs', {}); } catch (error) { return error; } })();
+  check(missingKey instanceof TTSProviderError && missingKey.status === 503, 'ElevenLabs without a key is a 503');
+  check(createTTSProvider('local', { ENABLE_LOCAL_TTS: 'true' }).name === 'local', 'Local provider enabled by ENABLE_LOCAL_TTS');
+
+  // ElevenLabs /with-timestamps response → audio + chunk-relative words
+  const realFetch = globalThis.fetch;
+  let requestedUrl = '';
+  globalThis.fetch = (async (url: string) => {
+    requestedUrl = url;
+    const characters = 'Hi there'.split('');
+    return new Response(JSON.stringify({
+      audio_base64: Buffer.from(beep.audio!).toString('base64'),
+      alignment: {
+        characters,
+        character_start_times_seconds: characters.map((_, i) => i * 0.1),
+        character_end_times_seconds: characters.map((_, i) => (i + 1) * 0.1)
+      }
+    }), { headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+  configureLedgerStorage(new MemoryLedgerStorage());
+  const costEvents: CostEvent[] = [];
+  const unsubscribe = costLedger.subscribe(event => costEvents.push(event));
+  try {
+    const elevenlabs = new ElevenLabsTTSProvider('key', {}, 'http://fake-elevenlabs');
+    const speech = await elevenlabs.synthesize({ text: 'Hi there', voiceId: '21m00Tcm4TlvDq8ikWAM' });
+    check(requestedUrl === 'http://fake-elevenlabs/text-to-speech/21m00Tcm4TlvDq8ikWAM/with-timestamps', `Requested ${requestedUrl}`);
+    check(Buffer.from(speech.audio!).equals(Buffer.from(beep.audio!)), 'Audio decoded from base64');
+    check(speech.words?.map(word => `${word.text}@${word.start}`).join(' ') === 'Hi@0 there@0.3', 'Words from the character alignment');
+    const [spend] = costEvents;
+    check(
+      costEvents.length === 1 && spend.service === 'elevenlabs' && spend.characters === 8 && spend.cost === 8 * elevenlabs.capabilities.costPerChar,
+      `The characters are recorded in the cost ledger ($${spend?.cost.toFixed(4)})`
+    );
+
+    const voiceover = await new ElevenLabsVoiceGenerator('key').generateSupplementVoiceover({
+      script: 'Hi there',
+      voice_persona: VoicePersona.AUTHORITATIVE_MALE,
+      emotional_tone: EmotionalTone.CONFIDENT_AUTHORITY,
+      pain_point: AmericanPainPoint.BRAIN_FOG_MEMORY
+    });
+    check(requestedUrl.endsWith('/text-to-speech/pNInz6obpgDQGcFmaJgB/with-timestamps'), 'The supplement voice generator narrates through the provider, with the persona\'s voice');
+    check(voiceover.audio_url.startsWith('data:audio/mpeg;base64,') && voiceover.duration_seconds === 0.8, `It returns the audio and its measured length (${voiceover.duration_seconds}s)`);
+    check(costEvents.length === 2 && costEvents[1].cost === voiceover.cost, 'Its spend is recorded once, at the quoted cost');
+  } finally {
+    unsubscribe();
+    globalThis.fetch = realFetch;
+  }
+
+  // Workflow narrated by a byte-returning provider
+  const fake = await startFakeShotstack({ renderDelayMs: 200 });
+  try {
+    const store = new WorkflowStore(new MemoryLedgerStorage());
+    const saved = new Map<string, Uint8Array>();
+    const audioStore: NarrationAudioStore = {
+      save: async (name, audio) => {
+        saved.set(name, audio);
+        return `http://assets.test/api/audio/${name}`;
+      }
+    };
+    const workflow = await store.create({ request: { story, durationSeconds: 30, ttsProvider: 'local' } });
+    const before = { ...fake.calls };
+    const result = await runVideoWorkflow(store, workflow.workflowId, {
+      client: new ShotstackPipelineClient('fake-key', 'stage', { origin: fake.url }),
+      backgroundVideo: new Uint8Array(1024).buffer,
+      callbackUrl: null,
+      tts: local,
+      audioStore,
+      captionBucket: { put: async () => undefined }
+    });
+
+    const chunk = result.checkpoints?.tts?.chunks[0];
+    check(result.status === 'processing' && Boolean(result.render), `Workflow reached render (${result.currentStep})`);
+    check(fake.calls.speech === before.speech, 'Shotstack TTS not called');
+    check(saved.has(`${workflow.workflowId}_0.wav`) && chunk?.audioUrl === `http://assets.test/api/audio/${workflow.workflowId}_0.wav`, 'Chunk audio stored and linked');
+    check(Math.abs(chunk!.duration! - getAudioDuration(saved.get(`${workflow.workflowId}_0.wav`)!)) < 1e-9, `Chunk duration measured from the bytes (${chunk?.duration}s)`);
+    check(result.captions?.source === 'alignment', `Captions timed from the provider (${result.captions?.source})`);
+    check(result.costs?.totalCost === estimateRenderCost(30) && result.costs.shotstackCost === result.costs.totalCost, 'Local narration costs nothing - only the render is charged');
+  } finally {
+    await fake.close();
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('TTS providers working', 'TTS providers have failures');
+}
+
+testTTSProviders().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,110 @@
+#!/usr/bin/env tsx
+
+// Usage ledger test: appends are idempotent per event id (sequentially and
+// when the same event races itself), concurrent appends to one day all land,
+// daily totals roll up per service and per model, monthly and range stats sum
+// the days in them and nothing outside, and bad dates, ranges and events are
+// refused with a 400. In-memory storage, no network.
+
+import { createTestReport, rejectsWith } from './lib/test-data/test-helpers';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { UsageLedger, UsageLedgerError } from './lib/usage/usage-ledger';
+
+const { check, finish } = createTestReport();
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+async function testIdempotentAppend(): Promise<void> {
+  console.log('\n🔁 Idempotent appends');
+  console.log('=' .repeat(50));
+  const ledger = new UsageLedger(new MemoryLedgerStorage());
+  const event = { id: 'cost_retry_1', service: 'anthropic' as const, operation: 'enhance_story', cost: 0.01, inputTokens: 100, outputTokens: 50 };
+
+  await ledger.append('2026-03-10', event);
+  const redelivered = await ledger.append('2026-03-10', { ...event, cost: 99 });
+  check(redelivered.entries.length === 1 && close(redelivered.totals.anthropic.cost, 0.01), 'A redelivered event id is counted once, as first written');
+
+  await Promise.all(Array.from({ length: 5 }, () => ledger.append('2026-03-11', { ...event, id: 'cost_race' })));
+  check((await ledger.getDailyLog('2026-03-11')).entries.length === 1, 'The same event racing itself lands once');
+
+  await Promise.all(Array.from({ length: 5 }, (_, index) => ledger.append('2026-03-12', { ...event, id: `cost_parallel_${index}` })));
+  const parallel = await ledger.getDailyLog('2026-03-12');
+  check(parallel.entries.length === 5 && parallel.totals.anthropic.requests === 5, `Concurrent appends of different events all land (${parallel.entries.length}/5)`);
+}
+
+async function testDailyRollup(): Promise<void> {
+  console.log('\n📅 Daily rollup');
+  console.log('=' .repeat(50));
+  const ledger = new UsageLedger(new MemoryLedgerStorage());
+
+  await ledger.append('2026-03-10', { service: 'anthropic', operation: 'enhance_story', cost: 0.012, model: 'claude-3-5-sonnet-20241022', inputTokens: 1200, outputTokens: 400 });
+  await ledger.append('2026-03-10', { service: 'anthropic', operation: 'classify', cost: 0.001, model: 'claude-3-haiku-20240307', tokens: 300 });
+  await ledger.append('2026-03-10', { service: 'elevenlabs', operation: 'text_to_speech', cost: 0.03, characters: 1000 });
+  await ledger.append('2026-03-10', { service: 'shotstack', operation: 'render_video', cost: 0.05, requests: 2 });
+
+  const log = await ledger.getDailyLog('2026-03-10');
+  check(log.date === '2026-03-10' && log.entries.length === 4, 'Entries are kept in the day they were appended to');
+  check(close(log.totals.anthropic.cost, 0.013) && log.totals.anthropic.tokens === 1900 && log.totals.anthropic.requests === 2, 'Service totals add cost, tokens and requests');
+  check(log.totals.elevenlabs.characters === 1000 && log.totals.shotstack.requests === 2, 'Characters and request counts are kept');
+  check(log.models['anthropic:claude-3-5-sonnet-20241022'].tokens === 1600 && close(log.models['anthropic:claude-3-haiku-20240307'].cost, 0.001), 'Per-model totals are kept');
+  check(!Object.keys(log.models).some(key => key.startsWith('elevenlabs')), 'Entries without a model are only in the service totals');
+
+  const empty = await ledger.getDailyLog('2026-03-09');
+  check(empty.entries.length === 0 && empty.totals.anthropic.cost === 0, 'A day with no entries reads as empty');
+}
+
+async function testRollups(): Promise<void> {
+  console.log('\n🗓️ Monthly and range stats');
+  console.log('=' .repeat(50));
+  const ledger = new UsageLedger(new MemoryLedgerStorage());
+  const spend = (date: string, cost: number) =>
+    ledger.append(date, { service: 'anthropic', operation: 'enhance_story', cost, model: 'claude-3-5-sonnet-20241022', tokens: 100 });
+
+  await spend('2026-01-31', 1);
+  await spend('2026-02-01', 0.1);
+  await spend('2026-02-14', 0.2);
+  await spend('2026-02-28', 0.3);
+  await spend('2026-03-01', 5);
+
+  const february = await ledger.getMonthlyStats('2026-02');
+  check(february.from === '2026-02-01' && february.to === '2026-02-28' && february.days === 28, `A month covers its own days (${february.from} to ${february.to})`);
+  check(close(february.totalCost, 0.6) && february.services.anthropic.requests === 3, `Only that month's spend is counted ($${february.totalCost.toFixed(2)})`);
+  check(february.models['anthropic:claude-3-5-sonnet-20241022'].tokens === 300, 'Models are rolled up across the month');
+  check((await ledger.getMonthlyStats('2024-02')).days === 29, 'Leap-year February has 29 days');
+
+  const range = await ledger.getRangeStats('2026-01-31', '2026-02-14');
+  check(range.days === 15 && close(range.totalCost, 1.3), `Range stats include both ends ($${range.totalCost.toFixed(2)})`);
+
+  const stats = await ledger.getStats('2026-02-14');
+  check(close(stats.summary.dailyTotal, 0.2) && close(stats.summary.monthlyTotal, 0.3), `getStats gives the day and month-to-date ($${stats.summary.dailyTotal} / $${stats.summary.monthlyTotal.toFixed(2)})`);
+}
+
+async function testValidation(): Promise<void> {
+  console.log('\n🚫 Validation');
+  console.log('=' .repeat(50));
+  const ledger = new UsageLedger(new MemoryLedgerStorage());
+
+  check(await rejectsWith(() => ledger.append('2026-13-01', { service: 'anthropic', operation: 'x', cost: 1 }), UsageLedgerError, 400, 'Invalid date'), 'An invalid date is refused');
+  check(await rejectsWith(() => ledger.append('2026-03-10', { service: 'nope' as any, operation: 'x', cost: 1 }), UsageLedgerError, 400, 'Unknown service'), 'An invalid event is refused as a ledger error');
+  check(await rejectsWith(() => ledger.getRangeStats('2026-03-10', '2026-03-01'), UsageLedgerError, 400, 'Invalid range'), 'A backwards range is refused');
+  check(await rejectsWith(() => ledger.getRangeStats('2024-01-01', '2026-01-01'), UsageLedgerError, 400, 'Range too large'), 'A range over a year is refused');
+  check(await rejectsWith(() => ledger.getMonthlyStats('2026-3'), UsageLedgerError, 400, 'Invalid month'), 'A malformed month is refused');
+}
+
+async function main() {
+  console.log('📒 Testing the Usage Ledger');
+  console.log('=' .repeat(50));
+
+  await testIdempotentAppend();
+  await testDailyRollup();
+  await testRollups();
+  await testValidation();
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Usage ledger working', 'Usage ledger has failures');
+}
+
+main().catch(error => {
+  console.error('❌ Usage ledger test crashed:', error);
+  process.exit(1);
+});
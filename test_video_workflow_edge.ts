@@ -1,5 +1,7 @@
 // Phase 7.6: Edge Runtime Testing for Video Processing Workflows
 // Tests the complete Reddit video automation workflow in Cloudflare Pages environment
+// Needs the app running on localhost:3000 - it's in the live suite, and exits
+// non-zero when any step fails (including when nothing is listening).
 
 interface WorkflowStep {
   name: string;
@@ -356,6 +358,10 @@ class VideoWorkflowEdgeTester {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  get passed(): boolean {
+    return this.results.length > 0 && this.results.every(result => result.status !== 'FAIL');
+  }
+
   private displayWorkflowResults(): void {
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log('📊 Video Processing Workflow Test Results');
@@ -435,7 +441,9 @@ export { VideoWorkflowEdgeTester };
 // Run tests if executed directly
 if (require.main === module) {
   const tester = new VideoWorkflowEdgeTester();
-  tester.runCompleteWorkflowTest().catch(error => {
+  tester.runCompleteWorkflowTest().then(() => {
+    if (!tester.passed) process.exit(1);
+  }).catch(error => {
     console.error('❌ Video workflow edge test failed:', error);
     process.exit(1);
   });
@@ -0,0 +1,208 @@
+#!/usr/bin/env tsx
+
+// Video workflow checkpoint/resume test against the local fake Shotstack.
+// Breaks each step in turn (upload, TTS, render) and checks that resuming
+// reruns only the missing steps: the background video is uploaded once and
+// the voiceover is requested once. The voiceover and render spend reach the
+// cost ledger, and Claude's rewrite is narrated (and its prompt credited)
+// when the story has one. No network access or API keys needed.
+
+import { FAKE_SPEECH_CHARS_PER_SECOND, startFakeShotstack } from './lib/mocks/fake-shotstack';
+import { buildStory, createTestReport } from './lib/test-data/test-helpers';
+import { CostEvent } from './lib/usage/cost-event';
+import { costLedger } from './lib/usage/cost-ledger';
+import { configureLedgerStorage } from './lib/usage/ledger-config';
+import { MemoryLedgerStorage } from './lib/usage/ledger-storage';
+import { ShotstackService } from './lib/services/shotstack-service';
+import { estimateRenderCost, SHOTSTACK_TTS_COST_PER_CHAR, ShotstackPipelineClient } from './lib/workflows/shotstack-pipeline';
+import { applyRenderStatus } from './lib/workflows/shotstack-webhook';
+import { resumeVideoWorkflow, runVideoWorkflow, VideoWorkflowDependencies } from './lib/workflows/video-workflow';
+import { WorkflowStore, WorkflowStoreError } from './lib/workflows/workflow-store';
+
+const story = buildStory({
+  id: 'abc123',
+  title: 'AITA for feeding my neighbour\'s cat?'
+});
+
+async function testVideoWorkflowResume() {
+  console.log('🔁 Testing Video Workflow Checkpoints & Resume');
+  console.log('=' .repeat(50));
+
+  const fake = await startFakeShotstack({ renderDelayMs: 200 });
+  const store = new WorkflowStore(new MemoryLedgerStorage());
+  const backgroundVideo = new Uint8Array(2048).buffer;
+
+  const client = (options: { assetPollAttempts?: number } = {}) =>
+    new ShotstackPipelineClient('fake-key', 'stage', { origin: fake.url, assetPollIntervalMs: 50, ...options });
+  const deps = (overrides: Partial<VideoWorkflowDependencies> = {}): VideoWorkflowDependencies => ({
+    client: client(),
+    backgroundVideo,
+    callbackUrl: null,
+    ...overrides
+  });
+  const createWorkflow = () =>
+    store.create({ request: { story, durationSeconds: 60, voiceId: 'Matthew', addCaptions: true } });
+  const callCounts = () => ({ ...fake.calls });
+
+  const { check, finish } = createTestReport();
+  configureLedgerStorage(new MemoryLedgerStorage());
+  const costEvents: CostEvent[] = [];
+  const unsubscribe = costLedger.subscribe(event => costEvents.push(event));
+
+  try {
+    // Test 1: Clean run checkpoints every step
+    console.log('\nTest 1: clean run...');
+    let before = callCounts();
+    let workflow = await runVideoWorkflow(store, (await createWorkflow()).workflowId, deps());
+    check(workflow.status === 'processing' && workflow.render?.status === 'queued', `Render submitted (${workflow.currentStep})`);
+    check(
+      Boolean(workflow.checkpoints?.upload?.sourceId && workflow.checkpoints?.tts?.completedAt && workflow.checkpoints?.render?.renderId),
+      'Upload, TTS and render checkpoints recorded'
+    );
+    check(fake.calls.upload - before.upload === 1 && fake.calls.speech - before.speech === 1, 'One upload, one TTS request');
+
+    const [speechCost, renderCost] = costEvents.filter(event => event.source === 'ShotstackPipelineClient');
+    const characters = story.content.trim().length;
+    check(
+      speechCost?.operation === 'text_to_speech' && speechCost.characters === characters &&
+        Math.abs(speechCost.cost - characters * SHOTSTACK_TTS_COST_PER_CHAR) < 1e-12,
+      `The voiceover is recorded in the cost ledger ($${speechCost?.cost.toFixed(4)})`
+    );
+    check(
+      renderCost?.operation === 'render_video' && renderCost.requestId === workflow.render?.renderId && renderCost.cost === estimateRenderCost(60),
+      `So is the render, priced on the timeline length ($${renderCost?.cost.toFixed(2)})`
+    );
+    check(
+      Math.abs(workflow.costs!.shotstackCost - speechCost.cost - renderCost.cost) < 1e-12,
+      `The workflow's Shotstack cost matches the ledger ($${workflow.costs?.shotstackCost.toFixed(4)})`
+    );
+
+    // Test 1b: Long story is narrated in full, in back-to-back chunks
+    console.log('\nTest 1b: long story...');
+    const longStory = { ...story, content: `${story.content} `.repeat(40) };
+    const captionFiles = new Map<string, string>();
+    before = callCounts();
+    workflow = await runVideoWorkflow(
+      store,
+      (await store.create({ request: { story: longStory, durationSeconds: 60, captionMaxWordsPerLine: 3 } })).workflowId,
+      deps({ captionBucket: { put: async (key: string, value: string) => captionFiles.set(key, value) } })
+    );
+    const tracks = fake.renders.get(workflow.render!.renderId)!.timeline.tracks;
+    const audioClips = tracks.find((track: any) => track.clips[0].asset.type === 'audio').clips;
+    const expectedSeconds = longStory.content.trim().length / FAKE_SPEECH_CHARS_PER_SECOND;
+    const narratedSeconds = audioClips[audioClips.length - 1].start + audioClips[audioClips.length - 1].length;
+    check(fake.calls.speech - before.speech === audioClips.length && audioClips.length > 1, `${audioClips.length} TTS chunks, one clip each`);
+    check(
+      audioClips.every((clip: any, i: number) => i === 0 || Math.abs(clip.start - (audioClips[i - 1].start + audioClips[i - 1].length)) < 0.002),
+      'Clips play back-to-back'
+    );
+    check(Math.abs(narratedSeconds - expectedSeconds) < 1, `Narration ${narratedSeconds.toFixed(1)}s for ~${expectedSeconds.toFixed(1)}s of text`);
+
+    const captionClips = tracks[0].clips;
+    const lastCaption = captionClips[captionClips.length - 1];
+    check(
+      captionClips.every((clip: any) => clip.asset.type === 'html') && Math.abs(lastCaption.start + lastCaption.length - narratedSeconds) < 1,
+      `${captionClips.length} caption clips on top, ending with the narration`
+    );
+    check(
+      captionFiles.has(`captions/${workflow.workflowId}.srt`) && captionFiles.get(`captions/${workflow.workflowId}.vtt`)!.startsWith('WEBVTT'),
+      'SRT and WebVTT stored'
+    );
+    check(workflow.captions?.cueCount === captionClips.length && workflow.captions?.vttUrl === `/api/captions/${workflow.workflowId}.vtt`, 'Caption files recorded on the workflow');
+
+    // Test 1c: Story too long to narrate fails instead of being cut short
+    console.log('\nTest 1c: story over the chunk limit...');
+    const epic = { ...story, content: 'My roommate kept eating my leftovers, so one night I labeled everything in the fridge with fake expiry dates. '.repeat(250) };
+    before = callCounts();
+    workflow = await runVideoWorkflow(store, (await store.create({ request: { story: epic, durationSeconds: 60 } })).workflowId, deps());
+    check(workflow.status === 'failed' && workflow.failedStep === 'tts' && /narration chunks/.test(workflow.error || ''), `Failed at ${workflow.failedStep}: ${workflow.error}`);
+    check(fake.calls.speech === before.speech && !workflow.checkpoints?.tts, 'No part of it was narrated');
+
+    // Test 1d: The enhanced text is narrated, and its prompt credited on the video
+    console.log('\nTest 1d: enhanced story...');
+    const prompt = { templateId: 'story-enhancement', version: 3 };
+    const enhancedStory = { ...story, enhanced_content: 'Picture this. A hungry cat, a kind neighbour, and a very angry owner.', enhancement_prompt: prompt };
+    const storeVideo = async (workflowId: string) => {
+      const service = { downloadAndStoreVideo: async () => ({ success: true, data: { url: `https://videos.test/${workflowId}.mp4`, size: 1000 } }) } as unknown as ShotstackService;
+      const rendered = (await store.get(workflowId))!;
+      return applyRenderStatus(store, workflowId, { renderId: rendered.render!.renderId, status: 'done', url: 'https://shotstack.test/out.mp4' }, 'webhook', { getService: () => service });
+    };
+    workflow = await runVideoWorkflow(store, (await store.create({ request: { story: enhancedStory, durationSeconds: 60 } })).workflowId, deps());
+    check(
+      workflow.checkpoints?.tts?.narrated === 'enhanced' && workflow.checkpoints.tts.chunks.map(chunk => chunk.text).join(' ') === enhancedStory.enhanced_content,
+      'The enhanced text is what gets narrated'
+    );
+    check(JSON.stringify((await storeVideo(workflow.workflowId)).videos?.[0].prompt) === JSON.stringify(prompt), 'The video credits the prompt that wrote it');
+
+    workflow = await runVideoWorkflow(store, (await store.create({ request: { story: { ...story, enhancement_prompt: prompt }, durationSeconds: 60 } })).workflowId, deps());
+    check(workflow.checkpoints?.tts?.narrated === 'original', 'Without enhanced text the original is narrated');
+    check((await storeVideo(workflow.workflowId)).videos?.[0].prompt === undefined, 'And no prompt is credited');
+
+    // Test 2: TTS request fails, resume keeps the upload
+    console.log('\nTest 2: TTS request fails...');
+    fake.failNext('speech');
+    workflow = await runVideoWorkflow(store, (await createWorkflow()).workflowId, deps());
+    check(workflow.status === 'failed' && workflow.failedStep === 'tts', `Failed at ${workflow.failedStep}: ${workflow.error}`);
+
+    before = callCounts();
+    workflow = await resumeVideoWorkflow(store, workflow.workflowId, deps({ backgroundVideo: null }));
+    check(workflow.status === 'processing' && Boolean(workflow.render), 'Resumed through to render without the video file');
+    check(fake.calls.upload === before.upload, 'Background video not uploaded again');
+    check(workflow.resumeCount === 1, `Resume counted (${workflow.resumeCount})`);
+
+    // Test 3: TTS asset requested but timed out - resume must not pay again
+    console.log('\nTest 3: TTS asset times out...');
+    workflow = await runVideoWorkflow(store, (await createWorkflow()).workflowId, deps({ client: client({ assetPollAttempts: 1 }) }));
+    const assetId = workflow.checkpoints?.tts?.chunks[0].assetId;
+    check(workflow.failedStep === 'tts' && Boolean(assetId), `Asset id kept after timeout (${assetId})`);
+
+    before = callCounts();
+    workflow = await resumeVideoWorkflow(store, workflow.workflowId, deps({ backgroundVideo: null }));
+    check(workflow.status === 'processing' && workflow.checkpoints?.tts?.chunks[0].assetId === assetId, 'Resume picked up the existing asset');
+    check(fake.calls.speech === before.speech, 'No second TTS request');
+
+    // Test 4: Render submission fails
+    console.log('\nTest 4: render submission fails...');
+    fake.failNext('render');
+    workflow = await runVideoWorkflow(store, (await createWorkflow()).workflowId, deps());
+    check(workflow.failedStep === 'render', `Failed at ${workflow.failedStep}`);
+
+    before = callCounts();
+    workflow = await resumeVideoWorkflow(store, workflow.workflowId, deps({ backgroundVideo: null }));
+    check(
+      Boolean(workflow.render) && fake.calls.upload === before.upload && fake.calls.speech === before.speech && fake.calls.render === before.render + 1,
+      'Only the render was resubmitted'
+    );
+
+    // Test 5: Upload fails - resuming needs the video again
+    console.log('\nTest 5: upload fails...');
+    fake.failNext('upload');
+    workflow = await runVideoWorkflow(store, (await createWorkflow()).workflowId, deps());
+    check(workflow.failedStep === 'upload', `Failed at ${workflow.failedStep}`);
+
+    const withoutVideo = await resumeVideoWorkflow(store, workflow.workflowId, deps({ backgroundVideo: null })).catch(error => error);
+    check(withoutVideo instanceof WorkflowStoreError && withoutVideo.status === 400, `Resume without video rejected: ${withoutVideo.message}`);
+    workflow = await resumeVideoWorkflow(store, workflow.workflowId, deps());
+    check(workflow.status === 'processing' && Boolean(workflow.render), 'Resume with video completed the steps');
+
+    // Test 6: Workflows that aren't stuck can't be resumed
+    console.log('\nTest 6: resume guards...');
+    const rendering = await resumeVideoWorkflow(store, workflow.workflowId, deps()).catch(error => error);
+    check(rendering instanceof WorkflowStoreError && rendering.status === 409, `Rendering workflow refused: ${rendering.message}`);
+
+    const running = await store.create({ request: { story, durationSeconds: 60 } });
+    const busy = await resumeVideoWorkflow(store, running.workflowId, deps()).catch(error => error);
+    check(busy instanceof WorkflowStoreError && busy.status === 409, `Running workflow refused: ${busy.message}`);
+  } finally {
+    unsubscribe();
+    await fake.close();
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Workflow resume working', 'Workflow resume has failures');
+}
+
+testVideoWorkflowResume().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
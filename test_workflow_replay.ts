@@ -0,0 +1,110 @@
+#!/usr/bin/env tsx
+
+// Offline end-to-end run of the whole workflow: scrape r/nosleep, enhance the
+// story with Claude, narrate it with ElevenLabs, render it with Shotstack and
+// copy the MP4 into R2 - every request answered from the cassette
+// fixtures/http/reddit-to-render.json, so no network access or API keys are
+// needed. The cassette is synthetic: hand-written from each API's documented
+// response shapes, not recorded, so this checks our side of the exchange and
+// not the providers' current behaviour. With real keys in the environment,
+// `npm run test:record` runs it against the live APIs and replaces it with a
+// real recording.
+
+import { DEFAULT_STORY_CATEGORIES } from './lib/categories/category-store';
+import { startHttpFixtures } from './lib/mocks/http-fixtures';
+import { PROMPT_TEMPLATE_IDS } from './lib/prompts/prompt-templates';
+import { ClaudeService } from './lib/services/claude-service';
+import { ElevenLabsService } from './lib/services/elevenlabs-service';
+import { R2StorageService } from './lib/services/r2-storage';
+import { RedditScraperService } from './lib/services/reddit-scraper';
+import { ShotstackService, VideoBucketBinding } from './lib/services/shotstack-service';
+import { createTestReport } from './lib/test-data/test-helpers';
+import { VideoScript } from './lib/types/reddit-automation';
+
+async function testWorkflowReplay() {
+  console.log('📼 Testing Reddit → Claude → ElevenLabs → Shotstack → R2 (recorded)');
+  console.log('=' .repeat(50));
+
+  const { check, finish } = createTestReport();
+
+  const fixtures = startHttpFixtures('reddit-to-render');
+  console.log(`Mode: ${fixtures.mode}`);
+
+  try {
+    // 1. Reddit - one subreddit, one page
+    const horror = DEFAULT_STORY_CATEGORIES.find(category => category.id === 'horror')!;
+    const scraper = new RedditScraperService(undefined, undefined, [{ ...horror, subreddits: ['nosleep'] }]);
+    const scraped = await scraper.scrapeWithStats('horror', 1, { pageSize: 5, maxPagesPerSubreddit: 1 });
+    const story = scraped.stories[0];
+    check(!!story && story.subreddit === 'nosleep' && story.content.length >= horror.filters.minLength, `Scraped a story: "${story?.title}"`);
+    check(scraped.stats[0].postsSeen > scraped.stats[0].accepted, 'Stickied and short posts were filtered out');
+    if (!story) throw new Error('No story to continue with');
+
+    // 2. Claude
+    const enhancement = await new ClaudeService().enhanceStoryWithUsage(story, 1);
+    check(enhancement.usage.source === 'claude' && enhancement.usage.outputTokens > 0, 'Story enhanced by Claude, not the fallback');
+    check(enhancement.content !== story.content && enhancement.content.length >= story.content.length * 0.8, 'Enhancement kept rather than replaced by the original');
+    check(enhancement.prompt?.templateId === PROMPT_TEMPLATE_IDS.STORY_ENHANCEMENT, 'Enhancement records its prompt template');
+
+    // 3. ElevenLabs
+    const paragraphs = enhancement.content.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+    const script: VideoScript = {
+      hook: story.title,
+      introduction: paragraphs[0],
+      mainContent: paragraphs.slice(1, -1),
+      conclusion: paragraphs[paragraphs.length - 1],
+      callToAction: 'Follow for more stories from r/nosleep.',
+      estimatedDuration: 60
+    };
+    const narration = await new ElevenLabsService(process.env.ELEVENLABS_API_KEY || '', {
+      voiceId: '21m00Tcm4TlvDq8ikWAM',
+      modelId: 'eleven_multilingual_v2',
+      stability: 0.5,
+      similarityBoost: 0.75,
+      style: 0,
+      useSpeakerBoost: true
+    }).generateAudio(script);
+    check(narration.success && narration.data!.duration > 0, `Narration generated (${narration.data?.duration.toFixed(2)}s)`);
+    check(narration.data?.timingSource === 'alignment' && narration.data.words.length > 0, 'Captions timed from the ElevenLabs alignment');
+    if (!narration.success) throw new Error(narration.error);
+
+    // 4. Shotstack
+    const shotstack = new ShotstackService();
+    const render = await shotstack.generateVideo(script, narration.data!, { background: 'gradient', resolution: '1080x1920', style: 'modern' });
+    check(render.success && !!render.data?.renderId, `Render queued (${render.data?.renderId})`);
+    if (!render.success) throw new Error(render.error);
+
+    let status = await shotstack.getRenderStatus(render.data!.renderId);
+    for (let poll = 0; status.success && status.data!.status !== 'done' && status.data!.status !== 'failed' && poll < 30; poll++) {
+      if (fixtures.mode !== 'replay') await new Promise(resolve => setTimeout(resolve, 10000));
+      status = await shotstack.getRenderStatus(render.data!.renderId);
+    }
+    check(status.data?.status === 'done' && !!status.data.downloadUrl, 'Render finished with a download URL');
+
+    // 5. R2 - Shotstack URLs expire, so the MP4 is copied over
+    const r2 = new R2StorageService();
+    const bucket: VideoBucketBinding = {
+      put: async (key, value, options) => {
+        const body = value instanceof ArrayBuffer ? value : await new Response(value).arrayBuffer();
+        const uploaded = await r2.uploadFile(body, key, options?.customMetadata, options?.httpMetadata?.contentType);
+        return uploaded.success ? { key, size: uploaded.data!.size } : null;
+      }
+    };
+    const stored = await shotstack.downloadAndStoreVideo(status.data!.downloadUrl!, `${render.data!.renderId}.mp4`, bucket);
+    check(stored.success && stored.data!.size > 0 && stored.data!.key === `videos/${render.data!.renderId}.mp4`, `Video stored in R2 (${stored.data?.size} bytes)`);
+
+    if (fixtures.mode === 'replay') {
+      check(fixtures.unused().length === 0, 'Every recorded request was made');
+    }
+  } finally {
+    await fixtures.stop();
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  finish('Workflow replays end to end', 'Workflow replay has failures');
+}
+
+testWorkflowReplay().catch(error => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+/**
+ * Scheduler worker
+ *
+ * Cron triggers for the Pages app, which has none of its own. Each run
+ * POSTs to the endpoints below on APP_URL with SCHEDULER_SECRET as a bearer
+ * token; the Pages project checks it against its own SCHEDULER_SECRET.
+ */
+
+const TASKS = [
+  // Keeps every configured story category warm without a browser tab open
+  { name: 'reddit-cache-warmup', path: '/api/reddit-cache/warmup', body: {} },
+  // Runs the next queued job (renders finish through the Shotstack webhook)
+  { name: 'queue-process', path: '/api/queue/control', body: { action: 'process' } }
+];
+
+export default {
+  async scheduled(controller, env, ctx) {
+    ctx.waitUntil(runTasks(env));
+  }
+};
+
+export async function runTasks(env) {
+  if (!env.APP_URL || !env.SCHEDULER_SECRET) {
+    throw new Error('APP_URL and SCHEDULER_SECRET must both be set');
+  }
+
+  const results = await Promise.allSettled(TASKS.map(task => runTask(env, task)));
+  const failed = results.filter(result => result.status === 'rejected');
+  failed.forEach(result => console.error('❌ Scheduled task failed:', result.reason));
+
+  // A thrown error marks the cron run as failed in the dashboard
+  if (failed.length > 0) {
+    throw new Error(`${failed.length} of ${TASKS.length} scheduled task(s) failed`);
+  }
+}
+
+async function runTask(env, task) {
+  const response = await fetch(new URL(task.path, env.APP_URL), {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${env.SCHEDULER_SECRET}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(task.body)
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`${task.name}: ${response.status} ${text.slice(0, 300)}`);
+  }
+  console.log(`✅ ${task.name}: ${text.slice(0, 300)}`);
+}